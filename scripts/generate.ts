@@ -0,0 +1,194 @@
+/**
+ * Headless end-to-end generation: product URL in, final video URL out.
+ * Run with: npm run generate -- --url <product-url> --influencer <id|name> [options]
+ *
+ * Options:
+ *   --url <url>              Product URL (required)
+ *   --influencer <id|name>   Influencer to cast (required — casting needs one)
+ *   --tone <tone>            Script tone (default: reluctant-insider)
+ *   --locale <locale>        Script and voiceover locale, e.g. es-MX (default: en-US)
+ *   --video-model <id|name>  Video model (default: the default active model)
+ *   --name <name>            Project name
+ *   --budget <usd>           Budget cap — a stage that would exceed it stops the run
+ *   --timeout <minutes>      Give up after this long (default: 60)
+ *
+ * Creates the project with auto_approve set, so the worker (npm run worker) runs
+ * every step and skips every review gate. generation_log is streamed to stdout.
+ * Exits 0 with the final video URL and total cost, or 1 if the run fails or stalls.
+ */
+import { config } from 'dotenv';
+config({ path: '.env.local' });
+import { parseArgs } from 'util';
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import { createProject } from '../src/lib/projects';
+import { maybeAutoAdvance } from '../src/lib/auto-advance';
+import { getPipelineQueue } from '../src/lib/queue';
+import { DEFAULT_LOCALE, DEFAULT_TONE, LOCALE_IDS, TONE_IDS, isLocale } from '../src/lib/constants';
+
+const POLL_INTERVAL_MS = 2000;
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+interface LogRow {
+  id: string;
+  event_type: string;
+  agent_name: string | null;
+  stage: string | null;
+  detail: Record<string, unknown> | null;
+  created_at: string;
+}
+
+function usage(message: string): never {
+  console.error(`${message}\n`);
+  console.error('Usage: npm run generate -- --url <product-url> --influencer <id|name> [--tone <tone>] [--locale <locale>] [--video-model <id|name>] [--name <name>] [--budget <usd>] [--timeout <minutes>]');
+  process.exit(1);
+}
+
+/** Look a row up by id, or by case-insensitive name among active rows. */
+async function resolveByIdOrName(supabase: SupabaseClient, table: string, value: string): Promise<{ id: string; name: string }> {
+  const query = supabase.from(table).select('id, name').eq('status', 'active');
+  const { data, error } = UUID_RE.test(value)
+    ? await query.eq('id', value)
+    : await query.ilike('name', value);
+
+  if (error) throw new Error(`Failed to look up ${table}: ${error.message}`);
+  if (!data || data.length === 0) throw new Error(`No active ${table} matches '${value}'`);
+  if (data.length > 1) throw new Error(`'${value}' matches ${data.length} ${table} rows — pass the id instead`);
+  return data[0];
+}
+
+function formatLogRow(row: LogRow): string {
+  const time = new Date(row.created_at).toLocaleTimeString();
+  const who = [row.stage, row.agent_name].filter(Boolean).join(' · ');
+  const detail = row.detail && Object.keys(row.detail).length > 0 ? ` ${JSON.stringify(row.detail)}` : '';
+  return `[${time}] ${row.event_type}${who ? ` (${who})` : ''}${detail}`;
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      url: { type: 'string' },
+      influencer: { type: 'string' },
+      tone: { type: 'string', default: DEFAULT_TONE },
+      locale: { type: 'string', default: DEFAULT_LOCALE },
+      'video-model': { type: 'string' },
+      name: { type: 'string' },
+      budget: { type: 'string' },
+      timeout: { type: 'string', default: '60' },
+    },
+  });
+
+  if (!values.url) usage('Missing --url');
+  if (!values.influencer) usage('Missing --influencer');
+  if (!(TONE_IDS as string[]).includes(values.tone)) {
+    usage(`Invalid tone '${values.tone}'. Valid tones: ${TONE_IDS.join(', ')}`);
+  }
+  if (!isLocale(values.locale)) {
+    usage(`Invalid locale '${values.locale}'. Valid locales: ${LOCALE_IDS.join(', ')}`);
+  }
+  const timeoutMinutes = Number(values.timeout);
+  if (!Number.isFinite(timeoutMinutes) || timeoutMinutes <= 0) usage(`Invalid --timeout '${values.timeout}'`);
+  const budgetUsd = values.budget !== undefined ? Number(values.budget) : undefined;
+  if (budgetUsd !== undefined && (!Number.isFinite(budgetUsd) || budgetUsd <= 0)) usage(`Invalid --budget '${values.budget}'`);
+
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !key) {
+    console.error('Missing NEXT_PUBLIC_SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY');
+    process.exit(1);
+  }
+  const supabase = createClient(url, key);
+
+  const influencer = await resolveByIdOrName(supabase, 'influencer', values.influencer);
+  const videoModel = values['video-model']
+    ? await resolveByIdOrName(supabase, 'video_model', values['video-model'])
+    : null;
+
+  const project = await createProject(supabase, {
+    productUrl: values.url,
+    influencerId: influencer.id,
+    videoModelId: videoModel?.id,
+    name: values.name,
+    tone: values.tone,
+    locale: values.locale,
+    budgetUsd,
+    autoApprove: true,
+  });
+
+  console.log(`Project ${project.id} created (influencer: ${influencer.name}${videoModel ? `, video model: ${videoModel.name}` : ''})`);
+
+  // An already-analyzed product lands straight at analysis_review — no worker step
+  // ran to reach it, so advance it here
+  if (project.status === 'analysis_review') {
+    await maybeAutoAdvance(supabase, project.id, 'analysis_review', crypto.randomUUID());
+  }
+
+  const deadline = Date.now() + timeoutMinutes * 60_000;
+  let lastSeen = new Date(0).toISOString();
+  let status = project.status;
+  let exitCode = 1;
+
+  while (true) {
+    const { data: rows } = await supabase
+      .from('generation_log')
+      .select('id, event_type, agent_name, stage, detail, created_at')
+      .eq('project_id', project.id)
+      .gt('created_at', lastSeen)
+      .order('created_at');
+
+    let blocked: LogRow | null = null;
+    for (const row of (rows ?? []) as LogRow[]) {
+      console.log(formatLogRow(row));
+      lastSeen = row.created_at;
+      if (row.event_type === 'auto_advance_blocked') blocked = row;
+    }
+
+    const { data: current } = await supabase
+      .from('project')
+      .select('status, error_message, cost_usd, render_url')
+      .eq('id', project.id)
+      .single();
+    status = current?.status ?? status;
+
+    if (status === 'completed') {
+      const { data: finalVideo } = await supabase
+        .from('asset')
+        .select('url')
+        .eq('project_id', project.id)
+        .eq('type', 'final_video')
+        .eq('status', 'completed')
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      console.log(`\n\x1b[32mCompleted\x1b[0m`);
+      console.log(`Final video: ${finalVideo?.url ?? current?.render_url ?? '(no URL recorded)'}`);
+      console.log(`Total cost:  $${parseFloat(current?.cost_usd || '0').toFixed(4)}\n`);
+      exitCode = 0;
+      break;
+    }
+    if (status === 'failed') {
+      console.log(`\n\x1b[31mFailed\x1b[0m: ${current?.error_message ?? 'unknown error'}`);
+      console.log(`Total cost:  $${parseFloat(current?.cost_usd || '0').toFixed(4)}\n`);
+      break;
+    }
+    if (blocked) {
+      const reason = blocked.detail?.reason ? ` — ${String(blocked.detail.reason)}` : '';
+      console.log(`\n\x1b[31mStalled\x1b[0m at ${blocked.stage}: missing ${String(blocked.detail?.missing)}${reason}\n`);
+      break;
+    }
+    if (Date.now() > deadline) {
+      console.log(`\n\x1b[31mTimed out\x1b[0m after ${timeoutMinutes} minutes (status: ${status})\n`);
+      break;
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+
+  await getPipelineQueue().close();
+  process.exit(exitCode);
+}
+
+main().catch((err) => {
+  console.error('Unhandled error:', err instanceof Error ? err.message : err);
+  process.exit(1);
+});
@@ -0,0 +1,121 @@
+/**
+ * Import local music files into the music library.
+ * Run with: npx tsx --tsconfig tsconfig.json scripts/import-music.ts <directory>
+ *
+ * The directory needs a music.json manifest describing each file:
+ *   [{ "file": "sunny.mp3", "name": "Sunny Day", "mood": "upbeat", "bpm": 118,
+ *      "license": "royalty_free", "artist": "...", "licenseUrl": "...", "attribution": "..." }]
+ *
+ * Each file is measured, uploaded to the assets bucket under music/ and registered
+ * as a music_track row with source 'local'. Files already imported (same name) are skipped.
+ */
+import path from 'path';
+import { readFile } from 'fs/promises';
+import { createClient } from '@supabase/supabase-js';
+import { analyzeAudio } from '../src/lib/audio-analysis';
+import { MUSIC_LICENSES, MUSIC_MOODS } from '../src/lib/constants';
+
+interface ManifestEntry {
+  file: string;
+  name: string;
+  mood: string;
+  license: string;
+  bpm?: number;
+  artist?: string;
+  licenseUrl?: string;
+  attribution?: string;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.mp3': 'audio/mpeg',
+  '.wav': 'audio/wav',
+};
+
+async function main() {
+  const dir = process.argv[2];
+  if (!dir) {
+    console.error('Usage: npx tsx --tsconfig tsconfig.json scripts/import-music.ts <directory>');
+    process.exit(1);
+  }
+
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !key) {
+    console.error('Missing NEXT_PUBLIC_SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY');
+    process.exit(1);
+  }
+  const supabase = createClient(url, key);
+
+  const manifest = JSON.parse(await readFile(path.join(dir, 'music.json'), 'utf-8')) as ManifestEntry[];
+  let imported = 0;
+  let skipped = 0;
+  let failed = 0;
+
+  for (const entry of manifest) {
+    process.stdout.write(`  ${entry.file}... `);
+    try {
+      const ext = path.extname(entry.file).toLowerCase();
+      const contentType = CONTENT_TYPES[ext];
+      if (!contentType) throw new Error(`Unsupported file type '${ext}' (mp3 or wav only)`);
+      if (!(MUSIC_MOODS as readonly string[]).includes(entry.mood)) {
+        throw new Error(`Invalid mood '${entry.mood}'. Valid moods: ${MUSIC_MOODS.join(', ')}`);
+      }
+      if (!(MUSIC_LICENSES as readonly string[]).includes(entry.license)) {
+        throw new Error(`Invalid license '${entry.license}'. Valid licenses: ${MUSIC_LICENSES.join(', ')}`);
+      }
+
+      const { data: existing } = await supabase
+        .from('music_track')
+        .select('id')
+        .eq('name', entry.name)
+        .eq('is_active', true)
+        .maybeSingle();
+      if (existing) {
+        console.log('\x1b[33mSKIP\x1b[0m (already in library)');
+        skipped++;
+        continue;
+      }
+
+      const audio = await readFile(path.join(dir, entry.file));
+      const info = analyzeAudio(audio);
+
+      const storagePath = `music/${crypto.randomUUID()}${ext}`;
+      const { error: uploadError } = await supabase.storage
+        .from('assets')
+        .upload(storagePath, audio, { contentType, upsert: false });
+      if (uploadError) throw new Error(`Upload failed: ${uploadError.message}`);
+
+      const { data: urlData } = supabase.storage.from('assets').getPublicUrl(storagePath);
+
+      const { error: insertError } = await supabase.from('music_track').insert({
+        name: entry.name,
+        artist: entry.artist ?? null,
+        url: urlData.publicUrl,
+        storage_path: storagePath,
+        source: 'local',
+        mood: entry.mood,
+        bpm: entry.bpm ?? null,
+        duration_seconds: info.durationMs / 1000,
+        license: entry.license,
+        license_url: entry.licenseUrl ?? null,
+        attribution: entry.attribution ?? null,
+      });
+      if (insertError) throw new Error(`Insert failed: ${insertError.message}`);
+
+      console.log(`\x1b[32mOK\x1b[0m (${(info.durationMs / 1000).toFixed(1)}s)`);
+      imported++;
+    } catch (err) {
+      console.log('\x1b[31mFAIL\x1b[0m');
+      console.log(`    ${err instanceof Error ? err.message : String(err)}`);
+      failed++;
+    }
+  }
+
+  console.log(`\nImported ${imported}, skipped ${skipped}, failed ${failed}\n`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main().catch((err) => {
+  console.error('Unhandled error:', err);
+  process.exit(1);
+});
@@ -1,9 +1,47 @@
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import { WaveSpeedClient } from '@/lib/api-clients/wavespeed';
 import { createLogger, logToGenerationLog } from '@/lib/logger';
-import { VideoModelConfig, getFallbackVideoModel } from '@/lib/constants';
+import { VideoModelConfig, getFallbackVideoModel, type RateLimitedProvider } from '@/lib/constants';
+import { assertBudget, releaseSpend, reserveSpend } from '@/lib/budget';
+import { withProviderSlot } from '@/lib/rate-limiter';
+import { CancellationError, TaskPendingError } from '@/lib/errors';
+import { settleTaskAsset, type ProviderTaskState } from '@/lib/webhooks';
 import type pino from 'pino';
 
+/** Asset row that checkpoints one provider task (see BaseAgent.runProviderTask). */
+export interface TaskCheckpoint {
+  id: string;
+  status: string;
+  url: string | null;
+  provider_task_id: string | null;
+  created_at: string;
+}
+
+export interface ProviderTask {
+  /** Pipeline stage, for generation_log */
+  stage: string;
+  /** Asset type the task produces (keyframe_start, video, broll, ...) */
+  type: string;
+  sceneId?: string;
+  /** Metadata that identifies the unit of work when sceneId + type don't (e.g. a B-roll shot) */
+  key?: Record<string, unknown>;
+  provider: string;
+  costUsd: number;
+  metadata?: Record<string, unknown>;
+  /** Submit the task to the provider; billed from here on */
+  submit: () => Promise<{ taskId: string }>;
+  poll: (taskId: string) => Promise<{ url?: string }>;
+  /**
+   * Check the task once. Tasks that have it are not polled while the agent is
+   * parking (see setTaskParking); they are checked on each wake instead.
+   */
+  check?: (taskId: string) => Promise<ProviderTaskState>;
+  /** How long a parked task may run before it counts as failed (default 5 min) */
+  maxWaitMs?: number;
+}
+
+const DEFAULT_TASK_MAX_WAIT_MS = 300_000;
+
 export abstract class BaseAgent {
   protected supabase: SupabaseClient;
   protected wavespeed: WaveSpeedClient;
@@ -11,6 +49,11 @@ export abstract class BaseAgent {
   protected correlationId?: string;
   protected videoModel: VideoModelConfig;
   protected shouldCancel?: () => Promise<boolean>;
+  protected segments: number[] | null = null;
+  protected resuming = false;
+  protected parkedSince: number | null = null;
+  protected parkedTaskId: string | null = null;
+  private reservation: { projectId: string; amount: number } | null = null;
   private _logger: pino.Logger;
 
   constructor(agentName: string, supabaseClient?: SupabaseClient) {
@@ -40,6 +83,39 @@ export abstract class BaseAgent {
     this.shouldCancel = fn;
   }
 
+  /**
+   * Restrict this run to the given segment indices.
+   * A/B hook variants cast, direct and voice only the hook; other segments are shared.
+   */
+  setSegments(indices: number[]): void {
+    this.segments = indices;
+  }
+
+  /**
+   * Mark this run as a resume of an interrupted one (the worker restarted mid-stage).
+   * Agents then keep the work the interrupted run already finished.
+   */
+  setResuming(resuming: boolean): void {
+    this.resuming = resuming;
+  }
+
+  /**
+   * Park on provider webhooks instead of polling: tasks with a `check` throw
+   * TaskPendingError once submitted, and the worker reruns the job when the task
+   * finishes. `since` is when the job was queued; failed attempts are counted
+   * from then, as a parked job's retry loop starts over on every rerun.
+   * `taskId` is the task a woken job was parked on; it holds the job's provider
+   * slot, which the job's first withProvider takes back.
+   */
+  setTaskParking(since: number | null, taskId: string | null = null): void {
+    this.parkedSince = since;
+    this.parkedTaskId = taskId;
+  }
+
+  protected includesSegment(segIdx: number): boolean {
+    return !this.segments || this.segments.includes(segIdx);
+  }
+
   /**
    * Set the correlation ID for this agent run.
    * Updates the internal logger bindings as well.
@@ -80,7 +156,188 @@ export abstract class BaseAgent {
     });
   }
 
+  /**
+   * Stop before a paid call that would take the project (or its batch) past its
+   * budget. Throws BudgetExceededError. Otherwise `amount` is reserved atomically,
+   * so parallel segment jobs can't overrun the cap together; trackCost draws the
+   * call's cost from the reservation, and releaseBudget hands back the rest.
+   */
+  protected async ensureBudget(projectId: string, stage: string, amount: number): Promise<void> {
+    await this.releaseBudget();
+    const { check, reservedUsd } = await reserveSpend(this.supabase, projectId, stage, amount);
+    assertBudget(check);
+    if (reservedUsd > 0) this.reservation = { projectId, amount: reservedUsd };
+  }
+
+  /** Release what is left of the last ensureBudget reservation (after the work it covered, or on failure). */
+  protected async releaseBudget(): Promise<void> {
+    const reservation = this.reservation;
+    this.reservation = null;
+    if (reservation) await releaseSpend(this.supabase, reservation.projectId, reservation.amount);
+  }
+
+  /**
+   * Run a provider task (submit + poll) inside one of the provider's fleet-wide
+   * slots. Waits for a free slot; a cancel while waiting throws CancellationError.
+   */
+  protected withProvider<T>(provider: RateLimitedProvider | null, fn: () => Promise<T>): Promise<T> {
+    const parkedTaskId = this.parkedTaskId;
+    this.parkedTaskId = null;
+    return withProviderSlot(provider, fn, { shouldCancel: this.shouldCancel, parkedTaskId });
+  }
+
+  /** Latest completed or in-flight (submitted, not yet polled) asset for a unit of work. */
+  protected async findTaskCheckpoint(
+    projectId: string,
+    type: string,
+    match: { sceneId?: string; key?: Record<string, unknown> } = {},
+  ): Promise<TaskCheckpoint | null> {
+    let query = this.supabase
+      .from('asset')
+      .select('id, status, url, provider_task_id, created_at')
+      .eq('project_id', projectId)
+      .eq('type', type)
+      .in('status', ['completed', 'generating'])
+      .not('provider_task_id', 'is', null);
+    if (match.sceneId) query = query.eq('scene_id', match.sceneId);
+    if (match.key) query = query.contains('metadata', match.key);
+
+    const { data } = await query.order('created_at', { ascending: false }).limit(1);
+    return (data?.[0] as TaskCheckpoint | undefined) ?? null;
+  }
+
+  /**
+   * Run one provider task so that a restarted worker never pays for it twice: a
+   * completed checkpoint is returned as is, an in-flight one is re-attached by
+   * polling its provider_task_id, and only missing work is submitted. A new task
+   * is recorded as a `generating` asset (and its cost tracked) right after submit,
+   * before the long poll. A re-attached task that failed is replaced by a new one;
+   * a new task that fails is marked failed and rethrown for the caller's retry.
+   * While parking, a task with a `check` is not polled: a new one throws
+   * TaskPendingError, and an in-flight one is checked once (see checkParkedTask).
+   * Each new submission needs budget: unless the caller's ensureBudget reservation
+   * still covers it, one is made here, so retries stop at the cap too.
+   */
+  protected async runProviderTask(projectId: string, task: ProviderTask): Promise<{ url: string; taskId: string; assetId: string | null; resumed: boolean }> {
+    const checkpoint = await this.findTaskCheckpoint(projectId, task.type, { sceneId: task.sceneId, key: task.key });
+
+    if (checkpoint?.status === 'completed') {
+      this.log(`Reusing completed ${task.type} ${checkpoint.id} (task ${checkpoint.provider_task_id})`);
+      return { url: checkpoint.url || '', taskId: checkpoint.provider_task_id!, assetId: checkpoint.id, resumed: true };
+    }
+
+    const park = this.parkedSince !== null && !!task.check;
+
+    if (checkpoint && park) {
+      const url = await this.checkParkedTask(checkpoint, task);
+      return { url, taskId: checkpoint.provider_task_id!, assetId: checkpoint.id, resumed: true };
+    }
+
+    if (checkpoint) {
+      const taskId = checkpoint.provider_task_id!;
+      this.log(`Re-attaching to in-flight ${task.type} task ${taskId}`);
+      await this.logEvent(projectId, 'task_resumed', task.stage, { assetId: checkpoint.id, type: task.type, taskId });
+      try {
+        const url = await this.awaitTask(taskId, task.poll);
+        return { url, taskId, assetId: checkpoint.id, resumed: true };
+      } catch (error) {
+        if (error instanceof CancellationError) throw error;
+        this.log(`In-flight ${task.type} task ${taskId} failed, submitting a new one: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    if (this.reservation?.projectId !== projectId || this.reservation.amount < task.costUsd) {
+      await this.ensureBudget(projectId, task.stage, task.costUsd);
+    }
+    const { taskId } = await task.submit();
+    const { data: asset } = await this.supabase
+      .from('asset')
+      .insert({
+        project_id: projectId,
+        scene_id: task.sceneId ?? null,
+        type: task.type,
+        provider: task.provider,
+        provider_task_id: taskId,
+        status: 'generating',
+        cost_usd: task.costUsd,
+        metadata: { ...task.metadata, ...task.key },
+      })
+      .select('id')
+      .single();
+    await this.trackCost(projectId, task.costUsd);
+    if (park) throw new TaskPendingError(taskId);
+
+    const url = await this.awaitTask(taskId, task.poll);
+    return { url, taskId, assetId: asset?.id ?? null, resumed: false };
+  }
+
+  /**
+   * Check a parked task once. Returns its URL, parks the job again (TaskPendingError)
+   * while it runs, or marks it failed and throws for the caller's retry.
+   */
+  private async checkParkedTask(checkpoint: TaskCheckpoint, task: ProviderTask): Promise<string> {
+    const taskId = checkpoint.provider_task_id!;
+    let state = await task.check!(taskId);
+    if (state.status === 'pending') {
+      const maxWaitMs = task.maxWaitMs ?? DEFAULT_TASK_MAX_WAIT_MS;
+      if (Date.now() - new Date(checkpoint.created_at).getTime() < maxWaitMs) {
+        throw new TaskPendingError(taskId);
+      }
+      state = { status: 'failed', error: `timed out after ${maxWaitMs / 1000}s` };
+    }
+
+    await settleTaskAsset(this.supabase, taskId, state);
+    if (state.status === 'failed') {
+      throw new Error(`Task ${taskId} failed: ${state.error}`);
+    }
+    return state.url || '';
+  }
+
+  /**
+   * Tasks for a unit of work that failed since the parked job was queued, i.e.
+   * the attempts its earlier runs used up. Always 0 when not parking.
+   */
+  protected async countParkedFailures(projectId: string, type: string, sceneId: string): Promise<number> {
+    if (this.parkedSince === null) return 0;
+    const { count } = await this.supabase
+      .from('asset')
+      .select('id', { count: 'exact', head: true })
+      .eq('project_id', projectId)
+      .eq('type', type)
+      .eq('scene_id', sceneId)
+      .eq('status', 'failed')
+      .not('provider_task_id', 'is', null)
+      .gte('created_at', new Date(this.parkedSince).toISOString());
+    return count ?? 0;
+  }
+
+  /** Poll a checkpointed task and record the outcome on its asset row. */
+  private async awaitTask(taskId: string, poll: ProviderTask['poll']): Promise<string> {
+    try {
+      const result = await poll(taskId);
+      await this.supabase
+        .from('asset')
+        .update({ url: result.url || '', status: 'completed' })
+        .eq('provider_task_id', taskId);
+      return result.url || '';
+    } catch (error) {
+      // A cancelled task stays as is — the cancel route owns its status
+      if (!(error instanceof CancellationError)) {
+        await this.supabase.from('asset').update({ status: 'failed' }).eq('provider_task_id', taskId);
+      }
+      throw error;
+    }
+  }
+
   protected async trackCost(projectId: string, amount: number): Promise<void> {
+    // Spend reserved by ensureBudget is already on the project
+    if (this.reservation?.projectId === projectId) {
+      const covered = Math.min(amount, this.reservation.amount);
+      this.reservation.amount -= covered;
+      amount = Math.round((amount - covered) * 10000) / 10000;
+      if (amount <= 0) return;
+    }
+
     // Atomic increment via Postgres function to prevent race conditions
     // when multiple agents or regeneration calls update cost_usd concurrently
     const { data, error } = await this.supabase
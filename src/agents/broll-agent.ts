@@ -1,6 +1,6 @@
 import { SupabaseClient } from '@supabase/supabase-js';
 import { BaseAgent } from './base-agent';
-import { CancellationError } from '@/lib/errors';
+import { BudgetExceededError, CancellationError } from '@/lib/errors';
 import {
   API_COSTS,
   RESOLUTION,
@@ -250,7 +250,7 @@ export class BRollAgent extends BaseAgent {
       .select('*')
       .eq('project_id', projectId)
       .eq('source', 'ai_generated')
-      .in('status', ['planned', 'failed'])
+      .in('status', ['planned', 'failed', 'generating'])
       .order('segment_index')
       .order('shot_index');
 
@@ -314,6 +314,12 @@ export class BRollAgent extends BaseAgent {
 
     // 2. Generate each shot with per-shot error handling
     for (const shot of shots) {
+      // Outside the per-shot try: a budget stop ends the stage instead of failing one shot.
+      // A shot left `generating` by an interrupted run is already paid for.
+      if (shot.status !== 'generating') {
+        await this.ensureBudget(projectId, 'broll_generation', API_COSTS.nanoBananaPro);
+      }
+
       try {
         // Mark as generating
         await this.supabase
@@ -333,59 +339,45 @@ export class BRollAgent extends BaseAgent {
         // so the generated b-roll shows the actual product appearance
         const useProductRef = productImageUrl && promptMentionsProduct(effectivePrompt);
 
-        let taskId: string;
-        let provider: string;
-        let cost: number;
-
-        if (useProductRef && productImageUrl) {
-          const editOpts = { aspectRatio: RESOLUTION.aspectRatio, resolution: '1k' as const };
+        const editOpts = { aspectRatio: RESOLUTION.aspectRatio, resolution: '1k' as const };
+        const imgOpts = {
+          aspectRatio: RESOLUTION.aspectRatio,
+          width: RESOLUTION.width,
+          height: RESOLUTION.height,
+        };
+        if (useProductRef) {
           this.log(`Shot ${shot.segment_index}:${shot.shot_index} — using product image ref (prompt mentions "${productName}")`);
-          const result = await this.wavespeed.editImage([productImageUrl], effectivePrompt, editOpts);
-          taskId = result.taskId;
-          provider = 'nano-banana-pro-edit';
-          cost = API_COSTS.nanoBananaProEdit;
-        } else {
-          const imgOpts = {
-            aspectRatio: RESOLUTION.aspectRatio,
-            width: RESOLUTION.width,
-            height: RESOLUTION.height,
-          };
-          const result = await this.wavespeed.generateImage(effectivePrompt, imgOpts);
-          taskId = result.taskId;
-          provider = 'nano-banana-pro';
-          cost = API_COSTS.nanoBananaPro;
         }
 
-        this.log(`Shot ${shot.segment_index}:${shot.shot_index} — polling task ${taskId}`);
-        const result = await this.wavespeed.pollResult(taskId, {
-          maxWait: 120000,
-          initialInterval: 5000,
-          shouldCancel: this.shouldCancel,
-        });
-
-        // Create asset record
-        const { data: assetRecord } = await this.supabase
-          .from('asset')
-          .insert({
-            project_id: projectId,
-            type: 'broll',
-            url: result.url || '',
-            provider,
-            provider_task_id: taskId,
-            status: 'completed',
-            cost_usd: cost,
-            metadata: {
-              segment_index: shot.segment_index,
-              shot_index: shot.shot_index,
-              category: shot.category,
-              timing_seconds: shot.timing_seconds,
-              duration_seconds: shot.duration_seconds,
-              ken_burns_direction: pickKenBurnsDirection(shot.shot_index),
-              ...(useProductRef ? { product_ref: true } : {}),
-            },
-          })
-          .select()
-          .single();
+        // One WaveSpeed image slot from submission until the image is ready. The
+        // asset is keyed by shot, so an interrupted shot re-attaches to its task.
+        const result = await this.withProvider('wavespeed_image', () => this.runProviderTask(projectId, {
+          stage: 'broll_generation',
+          type: 'broll',
+          key: { broll_shot_id: shot.id },
+          provider: useProductRef ? 'nano-banana-pro-edit' : 'nano-banana-pro',
+          costUsd: useProductRef ? API_COSTS.nanoBananaProEdit : API_COSTS.nanoBananaPro,
+          metadata: {
+            segment_index: shot.segment_index,
+            shot_index: shot.shot_index,
+            category: shot.category,
+            timing_seconds: shot.timing_seconds,
+            duration_seconds: shot.duration_seconds,
+            ken_burns_direction: pickKenBurnsDirection(shot.shot_index),
+            ...(useProductRef ? { product_ref: true } : {}),
+          },
+          submit: () => useProductRef && productImageUrl
+            ? this.wavespeed.editImage([productImageUrl], effectivePrompt, editOpts)
+            : this.wavespeed.generateImage(effectivePrompt, imgOpts),
+          poll: (taskId) => {
+            this.log(`Shot ${shot.segment_index}:${shot.shot_index} — polling task ${taskId}`);
+            return this.wavespeed.pollResult(taskId, {
+              maxWait: 120000,
+              initialInterval: 5000,
+              shouldCancel: this.shouldCancel,
+            });
+          },
+        }));
 
         // Update broll_shot with image URL and asset link
         await this.supabase
@@ -393,16 +385,15 @@ export class BRollAgent extends BaseAgent {
           .update({
             image_url: result.url || '',
             status: 'completed',
-            asset_id: assetRecord?.id || null,
+            asset_id: result.assetId,
             updated_at: new Date().toISOString(),
           })
           .eq('id', shot.id);
 
-        await this.trackCost(projectId, cost);
         completedCount++;
         this.log(`Shot ${shot.segment_index}:${shot.shot_index} completed: ${result.url}${useProductRef ? ' (product ref)' : ''}`);
       } catch (err) {
-        if (err instanceof CancellationError) throw err;
+        if (err instanceof CancellationError || err instanceof BudgetExceededError) throw err;
         failedCount++;
         this.log(`Shot ${shot.segment_index}:${shot.shot_index} failed: ${err instanceof Error ? err.message : String(err)}`);
 
@@ -431,6 +422,8 @@ export class BRollAgent extends BaseAgent {
             error: err instanceof Error ? err.message : String(err),
           },
         });
+      } finally {
+        await this.releaseBudget();
       }
     }
 
@@ -1,12 +1,17 @@
 import { SupabaseClient } from '@supabase/supabase-js';
 import { BaseAgent } from './base-agent';
-import { CancellationError } from '@/lib/errors';
+import { BudgetExceededError, CancellationError } from '@/lib/errors';
 import { AVATAR_MAPPING, PRODUCT_PLACEMENT_ARC, ENERGY_ARC, API_COSTS, RESOLUTION, VISIBILITY_ANGLE_MAP } from '@/lib/constants';
 import { StructuredPrompt, STRUCTURED_PROMPT_SCHEMA_DESCRIPTION, IMAGE_NEGATIVE_PROMPT, resolveNegativePrompt, isStructuredPrompt } from '@/lib/prompt-schema';
 import { serializeAsJSON } from '@/lib/prompt-serializer';
 
 const CONTINUITY_PROMPT = 'CONTINUITY: This frame continues directly from the previous segment. The FIRST reference image is the influencer\'s base photo — preserve their EXACT face and likeness. A previous segment\'s end frame is also provided for scene continuity. Preserve the EXACT same person, room, lighting, and wardrobe. Only change: pose, energy level, and product visibility as specified.';
 
+type ProductImg = { id: string; url: string; url_clean: string | null; angle: string; is_primary: boolean };
+
+/** Project, product and scene data shared by every segment of a casting run */
+type CastingContext = Awaited<ReturnType<CastingAgent['loadContext']>>;
+
 export class CastingAgent extends BaseAgent {
   constructor(supabaseClient?: SupabaseClient) {
     super('CastingAgent', supabaseClient);
@@ -14,9 +19,392 @@ export class CastingAgent extends BaseAgent {
 
   async run(projectId: string): Promise<void> {
     const stageStart = Date.now();
+    const segments = await this.prepare(projectId);
+    const context = await this.loadContext(projectId);
+
+    // Sequential chained keyframe generation: each segment's end frame feeds into
+    // the next segment as the primary reference image. This ensures visual
+    // consistency (same person, room, lighting) across all 4 segments.
+    let previousEndFrameUrl: string | null = null;
+    for (const segIdx of segments) {
+      const result = await this.castSegment(projectId, segIdx, previousEndFrameUrl, context);
+      if (result.endUrl) previousEndFrameUrl = result.endUrl;
+    }
+
+    await this.complete(projectId, Date.now() - stageStart);
+  }
+
+  /**
+   * Start a casting run: clear the keyframes it is about to replace and return
+   * the segments to cast, in order. The worker then casts each segment as its own
+   * job (castSegment) and finishes with complete().
+   */
+  async prepare(projectId: string): Promise<number[]> {
     await this.logEvent(projectId, 'stage_start', 'casting');
     this.log(`Starting casting for project ${projectId}`);
 
+    const { latestScenes } = await this.loadContext(projectId);
+
+    // Clean up any existing keyframe assets from previous casting runs
+    //    Prevents accumulation when re-casting or when duplicate jobs run concurrently.
+    //    A segment-restricted run only clears the keyframes it is about to replace.
+    //    A resumed run keeps them: they are the interrupted run's checkpoints.
+    if (!this.resuming) {
+      let oldKeyframeQuery = this.supabase
+        .from('asset')
+        .select('id')
+        .eq('project_id', projectId)
+        .in('type', ['keyframe_start', 'keyframe_end']);
+      if (this.segments) {
+        const sceneIds = [...latestScenes.entries()]
+          .filter(([segIdx]) => this.includesSegment(segIdx))
+          .map(([, scene]) => scene.id);
+        oldKeyframeQuery = oldKeyframeQuery.in('scene_id', sceneIds);
+      }
+      const { data: oldKeyframes } = await oldKeyframeQuery;
+
+      if (oldKeyframes && oldKeyframes.length > 0) {
+        const oldIds = oldKeyframes.map((a) => a.id);
+        await this.supabase.from('asset').delete().in('id', oldIds);
+        this.log(`Cleaned up ${oldIds.length} old keyframe assets before re-casting`);
+      }
+    }
+
+    return Array.from({ length: this.videoModel.segment_count }, (_, segIdx) => segIdx)
+      .filter((segIdx) => this.includesSegment(segIdx) && latestScenes.has(segIdx));
+  }
+
+  /**
+   * Finish a casting run. Throws if no segment produced keyframes.
+   */
+  async complete(projectId: string, durationMs?: number): Promise<number> {
+    const { latestScenes } = await this.loadContext(projectId);
+    const sceneIds = [...latestScenes.entries()]
+      .filter(([segIdx]) => this.includesSegment(segIdx))
+      .map(([, scene]) => scene.id);
+
+    const { data: endFrames } = await this.supabase
+      .from('asset')
+      .select('scene_id')
+      .eq('type', 'keyframe_end')
+      .eq('status', 'completed')
+      .in('scene_id', sceneIds);
+
+    const segmentsCompleted = new Set((endFrames || []).map((a) => a.scene_id)).size;
+    if (segmentsCompleted === 0) {
+      throw new Error('All segments failed during casting');
+    }
+
+    await this.logEvent(projectId, 'stage_complete', 'casting', { durationMs, segmentsCompleted });
+    this.log(`Casting complete for project ${projectId} (${segmentsCompleted}/${sceneIds.length} segments)`);
+    return segmentsCompleted;
+  }
+
+  /**
+   * End frame of the nearest earlier segment that has one — the chain reference
+   * for a segment cast as its own job. Skips failed segments, like the in-process
+   * chain does.
+   */
+  async findPreviousEndFrame(projectId: string, segIdx: number): Promise<string | null> {
+    const { latestScenes } = await this.loadContext(projectId);
+    for (let prev = segIdx - 1; prev >= 0; prev--) {
+      const scene = latestScenes.get(prev);
+      if (!scene) continue;
+      const { data: endFrame } = await this.supabase
+        .from('asset')
+        .select('url')
+        .eq('scene_id', scene.id)
+        .eq('type', 'keyframe_end')
+        .eq('status', 'completed')
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+      if (endFrame?.url) return endFrame.url;
+    }
+    return null;
+  }
+
+  /**
+   * Generate the start and end keyframes of one segment (with retries). With
+   * keyframe chaining, `previousEndFrameUrl` is the previous segment's end frame.
+   * Holds one WaveSpeed image slot for the segment — its frames are generated one
+   * after the other.
+   */
+  async castSegment(
+    projectId: string,
+    segIdx: number,
+    previousEndFrameUrl: string | null,
+    context?: CastingContext,
+  ): Promise<{ success: boolean; endUrl: string | null }> {
+    const ctx = context ?? await this.loadContext(projectId);
+    try {
+      return await this.withProvider('wavespeed_image', () => this.castSegmentAttempts(projectId, segIdx, previousEndFrameUrl, ctx));
+    } finally {
+      await this.releaseBudget();
+    }
+  }
+
+  private async castSegmentAttempts(
+    projectId: string,
+    segIdx: number,
+    previousEndFrameUrl: string | null,
+    ctx: CastingContext,
+  ): Promise<{ success: boolean; endUrl: string | null }> {
+    const {
+      project, keyframeChaining, productImages, legacyProductImageUrl, latestScenes,
+      influencer, useInfluencer, appearance, wardrobe, sceneDescription, interactionDescription, customPlacement,
+    } = ctx;
+    const POLL_MAX_WAIT = 240000; // 4 minutes per image — WaveSpeed edit can be slow under load
+    const POLL_INITIAL_INTERVAL = 5000;
+    const vmPlacement = this.videoModel.product_placement_arc;
+    const vmEnergy = this.videoModel.energy_arc;
+
+    const scene = latestScenes.get(segIdx);
+    if (!scene) {
+      this.log(`Scene for segment ${segIdx} not found, skipping`);
+      return { success: false, endUrl: null };
+    }
+
+    // A restarted job keeps the keyframes an interrupted run finished
+    const finishedEnd = await this.findTaskCheckpoint(projectId, 'keyframe_end', { sceneId: scene.id });
+    if (finishedEnd?.status === 'completed') {
+      this.log(`Segment ${segIdx} keyframes already completed, skipping`);
+      return { success: true, endUrl: keyframeChaining ? finishedEnd.url : null };
+    }
+
+    // Start + end keyframe
+    await this.ensureBudget(projectId, 'casting', 2 * API_COSTS.nanoBananaPro);
+
+    // Each keyframe is a checkpointed task: finished or in-flight frames from an
+    // earlier attempt (or an interrupted run) are reused rather than paid for again
+    const keyframe = async (
+      type: 'keyframe_start' | 'keyframe_end',
+      provider: 'nano-banana-pro' | 'nano-banana-pro-edit',
+      submit: () => Promise<{ taskId: string }>,
+      metadata?: Record<string, unknown>,
+    ): Promise<string> => {
+      const result = await this.runProviderTask(projectId, {
+        stage: 'casting',
+        type,
+        sceneId: scene.id,
+        provider,
+        costUsd: provider === 'nano-banana-pro-edit' ? API_COSTS.nanoBananaProEdit : API_COSTS.nanoBananaPro,
+        metadata,
+        submit,
+        poll: (taskId) => this.wavespeed.pollResult(taskId, { maxWait: POLL_MAX_WAIT, initialInterval: POLL_INITIAL_INTERVAL, shouldCancel: this.shouldCancel }),
+      });
+      return result.url;
+    };
+
+    const defaultPlacement = vmPlacement[segIdx] || PRODUCT_PLACEMENT_ARC[segIdx];
+    const userOverride = customPlacement?.find((p) => p.segment === segIdx);
+    const placement = userOverride
+      ? {
+          ...defaultPlacement,
+          visibility: userOverride.visibility || defaultPlacement.visibility,
+          description: userOverride.notes
+            ? `${defaultPlacement.description}. User note: ${userOverride.notes}`
+            : defaultPlacement.description,
+        }
+      : defaultPlacement;
+    const energyArc = vmEnergy[segIdx] || ENERGY_ARC[segIdx];
+
+    const segmentProductImage = this.selectProductImageForSegment(segIdx, productImages, legacyProductImageUrl, placement.visibility);
+    const maxRetries = 2;
+    let segmentSuccess = false;
+    let segmentEndUrl: string | null = null;
+    let savedPromptPair: { start: StructuredPrompt | string; end: StructuredPrompt | string } | null = null;
+
+    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+      try {
+        if (attempt > 0) {
+          this.log(`Retry ${attempt}/${maxRetries} for segment ${segIdx} after 5s delay...`);
+          await new Promise(resolve => setTimeout(resolve, 5000));
+        }
+
+        const isContinuation = keyframeChaining && segIdx > 0 && !!previousEndFrameUrl;
+
+        // Use LLM to generate detailed prompts for start and end frames
+        // On retry, reuse cached prompts to avoid redundant LLM calls
+        const sealSegment = project.video_analysis?.segments?.[segIdx] || null;
+        const hasProductRef = !!segmentProductImage;
+        const negativePrompt = resolveNegativePrompt(project, 'casting');
+
+        // Build product size/type string from available product data
+        const productSizeParts: string[] = [];
+        if (project.product?.product_size) productSizeParts.push(project.product.product_size);
+        if (project.product?.product_type) productSizeParts.push(project.product.product_type);
+        if (project.product_category) productSizeParts.push(project.product_category);
+        const productSizeType = productSizeParts.length > 0 ? productSizeParts.join(', ') : null;
+
+        let promptPair: { start: StructuredPrompt | string; end: StructuredPrompt | string };
+
+        if (savedPromptPair) {
+          promptPair = savedPromptPair;
+          this.log(`Segment ${segIdx}: reusing saved visual prompts (attempt ${attempt + 1})`);
+        } else {
+          promptPair = await this.generateVisualPrompts(
+            appearance, wardrobe, sceneDescription,
+            scene, placement, energyArc,
+            project.product_name || 'the product',
+            projectId,
+            useInfluencer || hasProductRef || isContinuation,
+            sealSegment,
+            interactionDescription,
+            hasProductRef,
+            isContinuation,
+            segIdx,
+            negativePrompt,
+            productSizeType,
+          );
+          savedPromptPair = promptPair;
+        }
+
+        // Save visual prompts to scene
+        await this.supabase
+          .from('scene')
+          .update({ visual_prompt: promptPair })
+          .eq('id', scene.id);
+
+        // Build reference images for the INITIAL keyframe (Seg 0 START only).
+        // Influencer sets the initial look. Product included only when visibility != 'none'.
+        // All subsequent frames use chain-first refs (previous frame as primary input).
+        const referenceImages: string[] = [];
+        if (useInfluencer) referenceImages.push(influencer.image_url);
+        if (segmentProductImage) referenceImages.push(segmentProductImage);
+        if (keyframeChaining && previousEndFrameUrl) referenceImages.push(previousEndFrameUrl);
+
+        let startUrl = '';
+        let endUrl = '';
+
+        // Serialize structured prompts as JSON for Nano Banana Pro.
+        // When using reference images, skip subject description — the reference
+        // image defines the person's appearance. Only describe actions, scenery, and product.
+        const skipSubject = useInfluencer || hasProductRef || isContinuation;
+        const startPromptStr = isStructuredPrompt(promptPair.start) ? serializeAsJSON(promptPair.start, { skipSubject }) : String(promptPair.start);
+        const endPromptStr = isStructuredPrompt(promptPair.end) ? serializeAsJSON(promptPair.end, { skipSubject }) : String(promptPair.end);
+
+        if (referenceImages.length > 0) {
+          // Edit mode: use reference images
+          const editOpts = { aspectRatio: RESOLUTION.aspectRatio, resolution: '1k' as const };
+
+          if (isContinuation && previousEndFrameUrl) {
+            // CROSS-SEGMENT CONTINUITY: Reuse previous segment's end frame as this
+            // segment's start frame. This guarantees identical frames at the cut point
+            // and saves one API call per continuation segment.
+            startUrl = previousEndFrameUrl;
+            this.log(`Segment ${segIdx}: reusing previous end frame as START keyframe (attempt ${attempt + 1})`);
+            if (!(await this.findTaskCheckpoint(projectId, 'keyframe_start', { sceneId: scene.id }))) {
+              await this.supabase.from('asset').insert({
+                project_id: projectId,
+                scene_id: scene.id,
+                type: 'keyframe_start',
+                provider: 'reused',
+                provider_task_id: `reused-seg${segIdx - 1}-end`,
+                url: startUrl,
+                status: 'completed',
+                cost_usd: 0,
+              });
+            }
+
+            // Generate END keyframe: start frame first (evolve from it), influencer second (identity anchor), product third
+            const endRefs: string[] = [startUrl];
+            if (useInfluencer) endRefs.push(influencer.image_url);
+            if (segmentProductImage) endRefs.push(segmentProductImage);
+            this.log(`Segment ${segIdx}: generating END keyframe with start frame as primary + influencer anchor (attempt ${attempt + 1})`);
+            endUrl = await keyframe('keyframe_end', 'nano-banana-pro-edit', async () => {
+              await this.logEvent(projectId, 'api_call', 'casting', {
+                provider: 'wavespeed', endpoint: 'nano-banana-pro/edit',
+                segment: segIdx, frameType: 'end', referenceImages: endRefs,
+              });
+              return this.wavespeed.editImage(endRefs, endPromptStr, editOpts);
+            }, { referenceImages: endRefs, segment: segIdx, frameType: 'end' });
+          } else {
+            // FIRST SEGMENT (or no previous end frame): Generate both keyframes
+            const refLabels = [
+              useInfluencer ? `influencer: ${influencer.name}` : null,
+              segmentProductImage ? `product (${productImages.find(i => (i.url_clean || i.url) === segmentProductImage)?.angle || 'legacy'})` : null,
+            ].filter(Boolean).join(' + ');
+
+            this.log(`Segment ${segIdx}: generating START keyframe with refs [${refLabels}] (attempt ${attempt + 1})`);
+            startUrl = await keyframe('keyframe_start', 'nano-banana-pro-edit', async () => {
+              await this.logEvent(projectId, 'api_call', 'casting', {
+                provider: 'wavespeed', endpoint: 'nano-banana-pro/edit',
+                segment: segIdx, frameType: 'start', referenceImages,
+              });
+              return this.wavespeed.editImage(referenceImages, startPromptStr, editOpts);
+            }, { referenceImages, segment: segIdx, frameType: 'start' });
+
+            // End frame: start frame first (evolve from it), influencer second (identity anchor), product third
+            const endRefs: string[] = [];
+            if (startUrl) endRefs.push(startUrl);
+            if (useInfluencer) endRefs.push(influencer.image_url);
+            if (segmentProductImage) endRefs.push(segmentProductImage);
+            this.log(`Segment ${segIdx}: generating END keyframe with start frame as primary + influencer anchor (attempt ${attempt + 1})`);
+            endUrl = await keyframe('keyframe_end', 'nano-banana-pro-edit', async () => {
+              await this.logEvent(projectId, 'api_call', 'casting', {
+                provider: 'wavespeed', endpoint: 'nano-banana-pro/edit',
+                segment: segIdx, frameType: 'end', referenceImages: endRefs,
+              });
+              return this.wavespeed.editImage(endRefs, endPromptStr, editOpts);
+            }, { referenceImages: endRefs, segment: segIdx, frameType: 'end' });
+          }
+        } else {
+          // Text-to-image for start, then edit for end using start as reference
+          const imgOpts = { aspectRatio: RESOLUTION.aspectRatio, width: RESOLUTION.width, height: RESOLUTION.height };
+
+          this.log(`Segment ${segIdx}: text-to-image START (no references) (attempt ${attempt + 1})`);
+          startUrl = await keyframe('keyframe_start', 'nano-banana-pro', () => this.wavespeed.generateImage(startPromptStr, imgOpts));
+
+          if (startUrl) {
+            // Use start frame as reference for end frame (edit mode) to preserve face
+            const editOpts = { aspectRatio: RESOLUTION.aspectRatio, resolution: '1k' as const };
+            this.log(`Segment ${segIdx}: generating END keyframe using start frame as ref (attempt ${attempt + 1})`);
+            endUrl = await keyframe('keyframe_end', 'nano-banana-pro-edit', () => this.wavespeed.editImage([startUrl], endPromptStr, editOpts));
+          } else {
+            // Fallback: generate end independently if start failed
+            this.log(`Segment ${segIdx}: text-to-image END (start failed) (attempt ${attempt + 1})`);
+            endUrl = await keyframe('keyframe_end', 'nano-banana-pro', () => this.wavespeed.generateImage(endPromptStr, imgOpts));
+          }
+        }
+
+        // Chain: pass this segment's end frame URL to next segment (only when chaining enabled)
+        if (keyframeChaining && endUrl) {
+          segmentEndUrl = endUrl;
+          this.log(`Segment ${segIdx} end frame chained → next segment`);
+        }
+
+        segmentSuccess = true;
+        break;
+      } catch (error) {
+        if (error instanceof CancellationError || error instanceof BudgetExceededError) throw error;
+        const errMsg = error instanceof Error ? error.message : String(error);
+        this.log(`Casting failed for segment ${segIdx} (attempt ${attempt + 1}): ${errMsg}`);
+        await this.logEvent(projectId, 'segment_error', 'casting', {
+          segment: segIdx,
+          attempt: attempt + 1,
+          error: errMsg,
+          useInfluencer,
+          chained: !!previousEndFrameUrl,
+        });
+      }
+    }
+
+    if (!segmentSuccess) {
+      const failedProvider = (useInfluencer || segmentProductImage || previousEndFrameUrl) ? 'nano-banana-pro-edit' : 'nano-banana-pro';
+      this.log(`All retries exhausted for segment ${segIdx}, creating failed assets`);
+      await this.supabase.from('asset').insert([
+        { project_id: projectId, scene_id: scene.id, type: 'keyframe_start', provider: failedProvider, status: 'failed', cost_usd: 0 },
+        { project_id: projectId, scene_id: scene.id, type: 'keyframe_end', provider: failedProvider, status: 'failed', cost_usd: 0 },
+      ]);
+      // The next segment chains from the last successful end frame — graceful degradation
+    }
+
+    return { success: segmentSuccess, endUrl: segmentEndUrl };
+  }
+
+  /** Project, product images, latest scenes and look settings casting works from. */
+  private async loadContext(projectId: string) {
     // 1. Fetch project with character, scene preset, and interaction preset
     const { data: project, error: projError } = await this.supabase
       .from('project')
@@ -32,7 +420,6 @@ export class CastingAgent extends BaseAgent {
     const keyframeChaining = project.keyframe_chaining !== false;
 
     // Fetch multi-angle product images
-    type ProductImg = { id: string; url: string; url_clean: string | null; angle: string; is_primary: boolean };
     let productImages: ProductImg[] = [];
     const productId = project.product_id || project.product?.id;
     if (productId) {
@@ -102,278 +489,10 @@ export class CastingAgent extends BaseAgent {
       | { segment: number; visibility: string; description: string; notes?: string }[]
       | null;
 
-    // 6. Clean up any existing keyframe assets from previous casting runs
-    //    Prevents accumulation when re-casting or when duplicate jobs run concurrently.
-    const { data: oldKeyframes } = await this.supabase
-      .from('asset')
-      .select('id')
-      .eq('project_id', projectId)
-      .in('type', ['keyframe_start', 'keyframe_end']);
-
-    if (oldKeyframes && oldKeyframes.length > 0) {
-      const oldIds = oldKeyframes.map((a) => a.id);
-      await this.supabase.from('asset').delete().in('id', oldIds);
-      this.log(`Cleaned up ${oldIds.length} old keyframe assets before re-casting`);
-    }
-
-    // 7. Sequential chained keyframe generation
-    //    Each segment's end frame feeds into the next segment as the primary reference image.
-    //    This ensures visual consistency (same person, room, lighting) across all 4 segments.
-    const POLL_MAX_WAIT = 240000; // 4 minutes per image — WaveSpeed edit can be slow under load
-    const POLL_INITIAL_INTERVAL = 5000;
-    let segmentsCompleted = 0;
-    let previousEndFrameUrl: string | null = null;
-
-    const vmPlacement = this.videoModel.product_placement_arc;
-    const vmEnergy = this.videoModel.energy_arc;
-
-    for (let segIdx = 0; segIdx < this.videoModel.segment_count; segIdx++) {
-      const scene = latestScenes.get(segIdx);
-      if (!scene) {
-        this.log(`Scene for segment ${segIdx} not found, skipping`);
-        continue;
-      }
-
-      const defaultPlacement = vmPlacement[segIdx] || PRODUCT_PLACEMENT_ARC[segIdx];
-      const userOverride = customPlacement?.find((p) => p.segment === segIdx);
-      const placement = userOverride
-        ? {
-            ...defaultPlacement,
-            visibility: userOverride.visibility || defaultPlacement.visibility,
-            description: userOverride.notes
-              ? `${defaultPlacement.description}. User note: ${userOverride.notes}`
-              : defaultPlacement.description,
-          }
-        : defaultPlacement;
-      const energyArc = vmEnergy[segIdx] || ENERGY_ARC[segIdx];
-
-      const segmentProductImage = this.selectProductImageForSegment(segIdx, productImages, legacyProductImageUrl, placement.visibility);
-      const maxRetries = 2;
-      let segmentSuccess = false;
-      let savedPromptPair: { start: StructuredPrompt | string; end: StructuredPrompt | string } | null = null;
-
-      for (let attempt = 0; attempt <= maxRetries; attempt++) {
-        try {
-          if (attempt > 0) {
-            this.log(`Retry ${attempt}/${maxRetries} for segment ${segIdx} after 5s delay...`);
-            await new Promise(resolve => setTimeout(resolve, 5000));
-          }
-
-          const isContinuation = keyframeChaining && segIdx > 0 && !!previousEndFrameUrl;
-
-          // Use LLM to generate detailed prompts for start and end frames
-          // On retry, reuse cached prompts to avoid redundant LLM calls
-          const sealSegment = project.video_analysis?.segments?.[segIdx] || null;
-          const hasProductRef = !!segmentProductImage;
-          const negativePrompt = resolveNegativePrompt(project, 'casting');
-
-          // Build product size/type string from available product data
-          const productSizeParts: string[] = [];
-          if (project.product?.product_size) productSizeParts.push(project.product.product_size);
-          if (project.product?.product_type) productSizeParts.push(project.product.product_type);
-          if (project.product_category) productSizeParts.push(project.product_category);
-          const productSizeType = productSizeParts.length > 0 ? productSizeParts.join(', ') : null;
-
-          let promptPair: { start: StructuredPrompt | string; end: StructuredPrompt | string };
-
-          if (savedPromptPair) {
-            promptPair = savedPromptPair;
-            this.log(`Segment ${segIdx}: reusing saved visual prompts (attempt ${attempt + 1})`);
-          } else {
-            promptPair = await this.generateVisualPrompts(
-              appearance, wardrobe, sceneDescription,
-              scene, placement, energyArc,
-              project.product_name || 'the product',
-              projectId,
-              useInfluencer || hasProductRef || isContinuation,
-              sealSegment,
-              interactionDescription,
-              hasProductRef,
-              isContinuation,
-              segIdx,
-              negativePrompt,
-              productSizeType,
-            );
-            savedPromptPair = promptPair;
-          }
-
-          // Save visual prompts to scene
-          await this.supabase
-            .from('scene')
-            .update({ visual_prompt: promptPair })
-            .eq('id', scene.id);
-
-          // Build reference images for the INITIAL keyframe (Seg 0 START only).
-          // Influencer sets the initial look. Product included only when visibility != 'none'.
-          // All subsequent frames use chain-first refs (previous frame as primary input).
-          const referenceImages: string[] = [];
-          if (useInfluencer) referenceImages.push(influencer.image_url);
-          if (segmentProductImage) referenceImages.push(segmentProductImage);
-          if (keyframeChaining && previousEndFrameUrl) referenceImages.push(previousEndFrameUrl);
-
-          let startUrl = '';
-          let endUrl = '';
-
-          // Serialize structured prompts as JSON for Nano Banana Pro.
-          // When using reference images, skip subject description — the reference
-          // image defines the person's appearance. Only describe actions, scenery, and product.
-          const skipSubject = useInfluencer || hasProductRef || isContinuation;
-          const startPromptStr = isStructuredPrompt(promptPair.start) ? serializeAsJSON(promptPair.start, { skipSubject }) : String(promptPair.start);
-          const endPromptStr = isStructuredPrompt(promptPair.end) ? serializeAsJSON(promptPair.end, { skipSubject }) : String(promptPair.end);
-
-          if (referenceImages.length > 0) {
-            // Edit mode: use reference images
-            const editOpts = { aspectRatio: RESOLUTION.aspectRatio, resolution: '1k' as const };
-
-            if (isContinuation && previousEndFrameUrl) {
-              // CROSS-SEGMENT CONTINUITY: Reuse previous segment's end frame as this
-              // segment's start frame. This guarantees identical frames at the cut point
-              // and saves one API call per continuation segment.
-              startUrl = previousEndFrameUrl;
-              this.log(`Segment ${segIdx}: reusing previous end frame as START keyframe (attempt ${attempt + 1})`);
-              await this.supabase.from('asset').insert({
-                project_id: projectId,
-                scene_id: scene.id,
-                type: 'keyframe_start',
-                provider: 'reused',
-                provider_task_id: `reused-seg${segIdx - 1}-end`,
-                url: startUrl,
-                status: 'completed',
-                cost_usd: 0,
-              });
-
-              // Generate END keyframe: start frame first (evolve from it), influencer second (identity anchor), product third
-              const endRefs: string[] = [startUrl];
-              if (useInfluencer) endRefs.push(influencer.image_url);
-              if (segmentProductImage) endRefs.push(segmentProductImage);
-              this.log(`Segment ${segIdx}: generating END keyframe with start frame as primary + influencer anchor (attempt ${attempt + 1})`);
-              await this.logEvent(projectId, 'api_call', 'casting', {
-                provider: 'wavespeed', endpoint: 'nano-banana-pro/edit',
-                segment: segIdx, frameType: 'end', referenceImages: endRefs,
-              });
-              const endResult = await this.wavespeed.editImage(endRefs, endPromptStr, editOpts);
-              await this.createAsset(projectId, scene.id, 'keyframe_end', endResult.taskId, 'nano-banana-pro-edit', {
-                referenceImages: endRefs, segment: segIdx, frameType: 'end',
-              });
-              const endPoll = await this.wavespeed.pollResult(endResult.taskId, { maxWait: POLL_MAX_WAIT, initialInterval: POLL_INITIAL_INTERVAL, shouldCancel: this.shouldCancel });
-              endUrl = endPoll.url || '';
-              await this.updateAssetUrl(endResult.taskId, endUrl);
-
-              await this.trackCost(projectId, API_COSTS.nanoBananaProEdit);
-            } else {
-              // FIRST SEGMENT (or no previous end frame): Generate both keyframes
-              const refLabels = [
-                useInfluencer ? `influencer: ${influencer.name}` : null,
-                segmentProductImage ? `product (${productImages.find(i => (i.url_clean || i.url) === segmentProductImage)?.angle || 'legacy'})` : null,
-              ].filter(Boolean).join(' + ');
-
-              this.log(`Segment ${segIdx}: generating START keyframe with refs [${refLabels}] (attempt ${attempt + 1})`);
-              await this.logEvent(projectId, 'api_call', 'casting', {
-                provider: 'wavespeed', endpoint: 'nano-banana-pro/edit',
-                segment: segIdx, frameType: 'start', referenceImages,
-              });
-              const startResult = await this.wavespeed.editImage(referenceImages, startPromptStr, editOpts);
-              await this.createAsset(projectId, scene.id, 'keyframe_start', startResult.taskId, 'nano-banana-pro-edit', {
-                referenceImages, segment: segIdx, frameType: 'start',
-              });
-              const startPoll = await this.wavespeed.pollResult(startResult.taskId, { maxWait: POLL_MAX_WAIT, initialInterval: POLL_INITIAL_INTERVAL, shouldCancel: this.shouldCancel });
-              startUrl = startPoll.url || '';
-              await this.updateAssetUrl(startResult.taskId, startUrl);
-
-              // End frame: start frame first (evolve from it), influencer second (identity anchor), product third
-              const endRefs: string[] = [];
-              if (startUrl) endRefs.push(startUrl);
-              if (useInfluencer) endRefs.push(influencer.image_url);
-              if (segmentProductImage) endRefs.push(segmentProductImage);
-              this.log(`Segment ${segIdx}: generating END keyframe with start frame as primary + influencer anchor (attempt ${attempt + 1})`);
-              await this.logEvent(projectId, 'api_call', 'casting', {
-                provider: 'wavespeed', endpoint: 'nano-banana-pro/edit',
-                segment: segIdx, frameType: 'end', referenceImages: endRefs,
-              });
-              const endResult = await this.wavespeed.editImage(endRefs, endPromptStr, editOpts);
-              await this.createAsset(projectId, scene.id, 'keyframe_end', endResult.taskId, 'nano-banana-pro-edit', {
-                referenceImages: endRefs, segment: segIdx, frameType: 'end',
-              });
-              const endPoll = await this.wavespeed.pollResult(endResult.taskId, { maxWait: POLL_MAX_WAIT, initialInterval: POLL_INITIAL_INTERVAL, shouldCancel: this.shouldCancel });
-              endUrl = endPoll.url || '';
-              await this.updateAssetUrl(endResult.taskId, endUrl);
-
-              await this.trackCost(projectId, API_COSTS.nanoBananaProEdit * 2);
-            }
-          } else {
-            // Text-to-image for start, then edit for end using start as reference
-            const imgOpts = { aspectRatio: RESOLUTION.aspectRatio, width: RESOLUTION.width, height: RESOLUTION.height };
-
-            this.log(`Segment ${segIdx}: text-to-image START (no references) (attempt ${attempt + 1})`);
-            const startResult = await this.wavespeed.generateImage(startPromptStr, imgOpts);
-            await this.createAsset(projectId, scene.id, 'keyframe_start', startResult.taskId);
-            const startPoll = await this.wavespeed.pollResult(startResult.taskId, { maxWait: POLL_MAX_WAIT, initialInterval: POLL_INITIAL_INTERVAL, shouldCancel: this.shouldCancel });
-            startUrl = startPoll.url || '';
-            await this.updateAssetUrl(startResult.taskId, startUrl);
-
-            if (startUrl) {
-              // Use start frame as reference for end frame (edit mode) to preserve face
-              const editOpts = { aspectRatio: RESOLUTION.aspectRatio, resolution: '1k' as const };
-              this.log(`Segment ${segIdx}: generating END keyframe using start frame as ref (attempt ${attempt + 1})`);
-              const endResult = await this.wavespeed.editImage([startUrl], endPromptStr, editOpts);
-              await this.createAsset(projectId, scene.id, 'keyframe_end', endResult.taskId, 'nano-banana-pro-edit');
-              const endPoll = await this.wavespeed.pollResult(endResult.taskId, { maxWait: POLL_MAX_WAIT, initialInterval: POLL_INITIAL_INTERVAL, shouldCancel: this.shouldCancel });
-              endUrl = endPoll.url || '';
-              await this.updateAssetUrl(endResult.taskId, endUrl);
-              await this.trackCost(projectId, API_COSTS.nanoBananaPro + API_COSTS.nanoBananaProEdit);
-            } else {
-              // Fallback: generate end independently if start failed
-              this.log(`Segment ${segIdx}: text-to-image END (start failed) (attempt ${attempt + 1})`);
-              const endResult = await this.wavespeed.generateImage(endPromptStr, imgOpts);
-              await this.createAsset(projectId, scene.id, 'keyframe_end', endResult.taskId);
-              const endPoll = await this.wavespeed.pollResult(endResult.taskId, { maxWait: POLL_MAX_WAIT, initialInterval: POLL_INITIAL_INTERVAL, shouldCancel: this.shouldCancel });
-              endUrl = endPoll.url || '';
-              await this.updateAssetUrl(endResult.taskId, endUrl);
-              await this.trackCost(projectId, API_COSTS.nanoBananaPro * 2);
-            }
-          }
-
-          // Chain: pass this segment's end frame URL to next segment (only when chaining enabled)
-          if (keyframeChaining && endUrl) {
-            previousEndFrameUrl = endUrl;
-            this.log(`Segment ${segIdx} end frame chained → next segment`);
-          }
-
-          segmentSuccess = true;
-          segmentsCompleted++;
-          break;
-        } catch (error) {
-          if (error instanceof CancellationError) throw error;
-          const errMsg = error instanceof Error ? error.message : String(error);
-          this.log(`Casting failed for segment ${segIdx} (attempt ${attempt + 1}): ${errMsg}`);
-          await this.logEvent(projectId, 'segment_error', 'casting', {
-            segment: segIdx,
-            attempt: attempt + 1,
-            error: errMsg,
-            useInfluencer,
-            chained: !!previousEndFrameUrl,
-          });
-        }
-      }
-
-      if (!segmentSuccess) {
-        const failedProvider = (useInfluencer || segmentProductImage || previousEndFrameUrl) ? 'nano-banana-pro-edit' : 'nano-banana-pro';
-        this.log(`All retries exhausted for segment ${segIdx}, creating failed assets`);
-        await this.supabase.from('asset').insert([
-          { project_id: projectId, scene_id: scene.id, type: 'keyframe_start', provider: failedProvider, status: 'failed', cost_usd: 0 },
-          { project_id: projectId, scene_id: scene.id, type: 'keyframe_end', provider: failedProvider, status: 'failed', cost_usd: 0 },
-        ]);
-        // previousEndFrameUrl stays at last successful value — graceful degradation
-      }
-    }
-
-    if (segmentsCompleted === 0) {
-      throw new Error('All segments failed during casting');
-    }
-
-    const durationMs = Date.now() - stageStart;
-    await this.logEvent(projectId, 'stage_complete', 'casting', { durationMs, segmentsCompleted });
-    this.log(`Casting complete for project ${projectId} (${segmentsCompleted}/4 segments, chained=${!!previousEndFrameUrl})`);
+    return {
+      project, keyframeChaining, productImages, legacyProductImageUrl, latestScenes,
+      influencer, useInfluencer, appearance, wardrobe, sceneDescription, interactionDescription, customPlacement,
+    };
   }
 
   private async generateVisualPrompts(
@@ -564,35 +683,4 @@ Match this reference video's visual style: use similar lighting, camera angle, a
     // Last resort: first image
     return productImages[0].url_clean || productImages[0].url;
   }
-
-  private async createAsset(
-    projectId: string,
-    sceneId: string,
-    type: 'keyframe_start' | 'keyframe_end',
-    taskId: string,
-    provider: string = 'nano-banana-pro',
-    metadata?: Record<string, unknown>,
-  ): Promise<void> {
-    const costPerImage = provider === 'nano-banana-pro-edit'
-      ? API_COSTS.nanoBananaProEdit
-      : API_COSTS.nanoBananaPro;
-
-    await this.supabase.from('asset').insert({
-      project_id: projectId,
-      scene_id: sceneId,
-      type,
-      provider,
-      provider_task_id: taskId,
-      status: 'generating',
-      cost_usd: costPerImage,
-      ...(metadata ? { metadata } : {}),
-    });
-  }
-
-  private async updateAssetUrl(taskId: string, url: string): Promise<void> {
-    await this.supabase
-      .from('asset')
-      .update({ url, status: 'completed' })
-      .eq('provider_task_id', taskId);
-  }
 }
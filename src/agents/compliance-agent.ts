@@ -0,0 +1,169 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { BaseAgent } from './base-agent';
+import { API_COSTS, getLocale } from '@/lib/constants';
+import {
+  COMPLIANCE_RULES,
+  DISCLOSURE_RULE,
+  compliancePromptBlock,
+  getScriptCompliance,
+  type ComplianceField,
+  type ComplianceIssue,
+  type ComplianceReport,
+  type ComplianceScene,
+  type StoredJudgeResult,
+} from '@/lib/compliance';
+
+// ─── Types ─────────────────────────────────────────────────────────────────────
+
+interface JudgeFinding {
+  segment_index: number;
+  field: ComplianceField;
+  excerpt: string;
+  rule: string;
+  severity: 'hard' | 'soft';
+  reason: string;
+  rewrite?: string | null;
+}
+
+// ─── System Prompt ─────────────────────────────────────────────────────────────
+
+const SYSTEM_PROMPT = `You are a TikTok Shop and FTC advertising compliance reviewer for UGC product videos.
+
+You receive a script as numbered segments, each with the spoken line (script_text) and the on-screen caption (text_overlay), and the policy rules for the product's category.
+
+Flag every claim that breaks a rule, including IMPLIED claims a keyword search would miss: e.g. "I haven't needed my inhaler since" implies treating asthma; "my jeans finally fit again after 10 days" is a weight-loss timeframe; "my dermatologist asked what I changed" is an implied endorsement.
+
+Do NOT flag:
+- Personal experience without a health, income or result promise ("I love how it feels")
+- Structure/function wording ("supports", "helps maintain", "the look of")
+- Anything in the segments that is already compliant
+
+For each violation give a rewrite of the WHOLE field (script_text or text_overlay) that keeps the meaning, tone and roughly the same syllable count but complies.
+
+OUTPUT FORMAT (valid JSON only, no markdown, no code fences):
+{
+  "issues": [
+    {
+      "segment_index": 0,
+      "field": "script_text",
+      "excerpt": "the exact offending words",
+      "rule": "rule id from the list, or implied_claim",
+      "severity": "hard",
+      "reason": "one sentence on why it breaks the rule",
+      "rewrite": "the full compliant field text"
+    }
+  ]
+}
+Return {"issues": []} when the script is compliant.`;
+
+// ─── Agent ─────────────────────────────────────────────────────────────────────
+
+/**
+ * LLM judge for claims compliance. The pattern rules in src/lib/compliance.ts
+ * always run; this adds findings for the project's latest script and stores them
+ * on script.compliance, where the report picks them up until a scene is edited.
+ */
+export class ComplianceAgent extends BaseAgent {
+  constructor(supabaseClient?: SupabaseClient) {
+    super('ComplianceAgent', supabaseClient);
+  }
+
+  async run(projectId: string): Promise<ComplianceReport> {
+    const current = await getScriptCompliance(this.supabase, projectId);
+    if (!current) {
+      throw new Error(`No script found for compliance check on project ${projectId}`);
+    }
+    const { scriptId, scenes, report } = current;
+    const locale = getLocale(current.locale);
+
+    await this.ensureBudget(projectId, 'scripting', API_COSTS.wavespeedChat);
+
+    this.log(`Judging script ${scriptId} (${report.category}) for compliance...`);
+    let rawResponse: string;
+    try {
+      rawResponse = await this.wavespeed.chatCompletion(SYSTEM_PROMPT, this.buildUserPrompt(report.category, locale, scenes), {
+        temperature: 0.2,
+        maxTokens: 4096,
+      });
+      await this.trackCost(projectId, API_COSTS.wavespeedChat);
+    } finally {
+      await this.releaseBudget();
+    }
+
+    let findings: JudgeFinding[];
+    try {
+      const cleaned = rawResponse.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
+      findings = (JSON.parse(cleaned).issues ?? []) as JudgeFinding[];
+    } catch (err) {
+      throw new Error(
+        `Failed to parse compliance judge response as JSON: ${err instanceof Error ? err.message : String(err)}\nRaw response: ${rawResponse.substring(0, 500)}`
+      );
+    }
+
+    const judge: StoredJudgeResult = {
+      judgedAt: new Date().toISOString(),
+      sceneIds: scenes.map((scene) => scene.id),
+      issues: this.toIssues(findings, scenes),
+    };
+
+    const { error } = await this.supabase.from('script').update({ compliance: judge }).eq('id', scriptId);
+    if (error) {
+      throw new Error(`Failed to save compliance result: ${error.message}`);
+    }
+
+    const updated = await getScriptCompliance(this.supabase, projectId);
+    const result = updated?.report ?? report;
+    await this.logEvent(projectId, 'compliance_checked', 'scripting', {
+      scriptId,
+      score: result.score,
+      hardCount: result.hardCount,
+      softCount: result.softCount,
+      judgeFindings: judge.issues.length,
+    });
+    this.log(`Compliance score ${result.score} (${result.hardCount} hard, ${result.softCount} soft)`);
+    return result;
+  }
+
+  private buildUserPrompt(category: string, locale: ReturnType<typeof getLocale>, scenes: ComplianceScene[]): string {
+    const segments = scenes
+      .map((scene) => `Segment ${scene.segment_index}:\n  script_text: ${scene.script_text ?? ''}\n  text_overlay: ${scene.text_overlay ?? ''}`)
+      .join('\n\n');
+
+    return `CATEGORY: ${category}
+LANGUAGE: ${locale.languageName} (${locale.region})
+
+RULES:
+${compliancePromptBlock(category, locale.disclosureTag)}
+
+SCRIPT:
+${segments}`;
+  }
+
+  /** Keep findings that point at a real segment and field; attach rule labels. */
+  private toIssues(findings: JudgeFinding[], scenes: ComplianceScene[]): ComplianceIssue[] {
+    const bySegment = new Map(scenes.map((scene) => [scene.segment_index, scene]));
+    const labels = new Map<string, string>([
+      ...COMPLIANCE_RULES.map((rule) => [rule.id, rule.label] as [string, string]),
+      [DISCLOSURE_RULE.id, DISCLOSURE_RULE.label],
+    ]);
+
+    return findings.flatMap((finding) => {
+      const scene = bySegment.get(Number(finding.segment_index));
+      const field: ComplianceField = finding.field === 'text_overlay' ? 'text_overlay' : 'script_text';
+      if (!scene || !finding.excerpt) return [];
+
+      return [{
+        ruleId: finding.rule || 'implied_claim',
+        label: labels.get(finding.rule) ?? 'Implied claim',
+        severity: finding.severity === 'soft' ? 'soft' : 'hard',
+        source: 'judge' as const,
+        segmentIndex: scene.segment_index,
+        sceneId: scene.id,
+        field,
+        excerpt: finding.excerpt,
+        message: finding.reason,
+        suggestion: finding.rewrite?.trim() || null,
+      }];
+    });
+  }
+}
@@ -1,9 +1,13 @@
 import { SupabaseClient } from '@supabase/supabase-js';
 import { BaseAgent } from './base-agent';
-import { CancellationError } from '@/lib/errors';
+import { BudgetExceededError, CancellationError, TaskPendingError } from '@/lib/errors';
 import { API_COSTS, VIDEO_POLL_MAX_WAIT } from '@/lib/constants';
 import { StructuredPrompt, STRUCTURED_PROMPT_SCHEMA_DESCRIPTION, isStructuredPrompt, resolveNegativePrompt } from '@/lib/prompt-schema';
 import { buildVideoPromptJSON } from '@/lib/prompt-serializer';
+import { getVideoProvider } from '@/lib/video-providers';
+
+/** Scenes and prompt settings shared by every segment of a directing run */
+type DirectingContext = Awaited<ReturnType<DirectorAgent['loadContext']>>;
 
 export class DirectorAgent extends BaseAgent {
   constructor(supabaseClient?: SupabaseClient) {
@@ -12,49 +16,30 @@ export class DirectorAgent extends BaseAgent {
 
   async run(projectId: string): Promise<void> {
     const stageStart = Date.now();
-    await this.logEvent(projectId, 'stage_start', 'directing');
-    this.log(`Starting directing for project ${projectId}`);
-
-    const vm = this.videoModel;
-
-    // 1. Get the approved script
-    const { data: scripts } = await this.supabase
-      .from('script')
-      .select('id')
-      .eq('project_id', projectId)
-      .order('version', { ascending: false })
-      .limit(1);
+    const context = await this.loadContext(projectId);
+    const segments = await this.prepare(projectId, context);
 
-    const scriptId = scripts?.[0]?.id;
-    if (!scriptId) throw new Error('No script found');
-
-    // 2. Fetch latest scenes
-    const { data: allScenes } = await this.supabase
-      .from('scene')
-      .select('*')
-      .eq('script_id', scriptId)
-      .order('segment_index')
-      .order('version', { ascending: false });
-
-    const latestScenes = new Map<number, any>();
-    for (const scene of allScenes || []) {
-      if (!latestScenes.has(scene.segment_index)) {
-        latestScenes.set(scene.segment_index, scene);
-      }
+    for (const segIdx of segments) {
+      await this.directSegment(projectId, segIdx, context);
     }
 
-    // 2b. Fetch project for negative prompt override and video retries config
-    const { data: project } = await this.supabase
-      .from('project')
-      .select('negative_prompt_override, video_retries, lock_camera')
-      .eq('id', projectId)
-      .single();
+    await this.complete(projectId, Date.now() - stageStart);
+  }
 
-    const negativePrompt = resolveNegativePrompt(project, 'directing');
-    const lockCamera = project?.lock_camera ?? false;
+  /**
+   * Start a directing run and return the segments that still need a clip. The
+   * worker then directs each segment as its own job (directSegment) and finishes
+   * with complete().
+   */
+  async prepare(projectId: string, context?: DirectingContext): Promise<number[]> {
+    await this.logEvent(projectId, 'stage_start', 'directing');
+    this.log(`Starting directing for project ${projectId}`);
+
+    const { latestScenes } = context ?? await this.loadContext(projectId);
+    const segments: number[] = [];
 
-    // 3. For each segment, generate video from start+end keyframes
-    for (let segIdx = 0; segIdx < vm.segment_count; segIdx++) {
+    for (let segIdx = 0; segIdx < this.videoModel.segment_count; segIdx++) {
+      if (!this.includesSegment(segIdx)) continue;
       const scene = latestScenes.get(segIdx);
       if (!scene) {
         this.log(`Scene for segment ${segIdx} not found, skipping`);
@@ -75,119 +60,184 @@ export class DirectorAgent extends BaseAgent {
         continue;
       }
 
-      // Fetch keyframe assets for this scene
-      const { data: keyframes } = await this.supabase
-        .from('asset')
-        .select('*')
-        .eq('scene_id', scene.id)
-        .in('type', ['keyframe_start', 'keyframe_end'])
-        .eq('status', 'completed');
+      segments.push(segIdx);
+    }
 
-      const startKeyframe = keyframes?.find((a: any) => a.type === 'keyframe_start');
-      const endKeyframe = keyframes?.find((a: any) => a.type === 'keyframe_end');
+    return segments;
+  }
 
-      if (!startKeyframe?.url) {
-        this.log(`Start keyframe not found for segment ${segIdx}, creating failed video asset`);
-        await this.supabase.from('asset').insert({
-          project_id: projectId,
-          scene_id: scene.id,
-          type: 'video',
-          provider: vm.slug,
-          status: 'failed',
-          cost_usd: 0,
-        });
-        continue;
-      }
+  async complete(projectId: string, durationMs?: number): Promise<void> {
+    await this.logEvent(projectId, 'stage_complete', 'directing', { durationMs });
+    this.log(`Directing complete for project ${projectId}`);
+  }
 
-      // R1.5.29: Check for video_prompt_override (set by preview/refine panel)
-      const promptOverride = scene.video_prompt_override as StructuredPrompt | null;
+  /** Generate one segment's video from its start + end keyframes (with retries). */
+  async directSegment(projectId: string, segIdx: number, context?: DirectingContext): Promise<void> {
+    try {
+      await this.directSegmentAttempts(projectId, segIdx, context);
+    } finally {
+      await this.releaseBudget();
+    }
+  }
+
+  private async directSegmentAttempts(projectId: string, segIdx: number, context?: DirectingContext): Promise<void> {
+    const { latestScenes, project, negativePrompt, lockCamera } = context ?? await this.loadContext(projectId);
+    const vm = this.videoModel;
+    const provider = getVideoProvider(vm);
 
-      // Build video prompt JSON directly from scene data — no LLM needed.
-      // Uses visual_prompt, script_text, shot_scripts, energy_arc.
-      this.log(`Segment ${segIdx}: building video prompt from scene data`);
-      const serialized = buildVideoPromptJSON(scene, { shotDuration: vm.shot_duration, lockCamera });
-      const mainPrompt = serialized.prompt;
-      const effectiveNegativePrompt = serialized.negativePrompt || negativePrompt;
+    const scene = latestScenes.get(segIdx);
+    if (!scene) {
+      this.log(`Scene for segment ${segIdx} not found, skipping`);
+      return;
+    }
+
+    // A restarted job keeps the clip an interrupted run finished; one still in
+    // flight is already paid for, and runProviderTask reserves for each new submission
+    const checkpoint = await this.findTaskCheckpoint(projectId, 'video', { sceneId: scene.id });
+    if (checkpoint?.status === 'completed') {
+      this.log(`Segment ${segIdx} video already completed (${checkpoint.id}), skipping`);
+      return;
+    }
 
-      // Generate video with retry logic (configurable per project, default 0 = no retries)
-      const maxRetries = project?.video_retries ?? 0;
-      let lastError: Error | null = null;
-      let apiCallsMade = 0;
-      let segmentSuccess = false;
+    // Fetch keyframe assets for this scene
+    const { data: keyframes } = await this.supabase
+      .from('asset')
+      .select('*')
+      .eq('scene_id', scene.id)
+      .in('type', ['keyframe_start', 'keyframe_end'])
+      .eq('status', 'completed');
+
+    const startKeyframe = keyframes?.find((a: any) => a.type === 'keyframe_start');
+    const endKeyframe = keyframes?.find((a: any) => a.type === 'keyframe_end');
+
+    if (!startKeyframe?.url) {
+      this.log(`Start keyframe not found for segment ${segIdx}, creating failed video asset`);
+      await this.supabase.from('asset').insert({
+        project_id: projectId,
+        scene_id: scene.id,
+        type: 'video',
+        provider: vm.slug,
+        status: 'failed',
+        cost_usd: 0,
+      });
+      return;
+    }
 
-      for (let attempt = 0; attempt <= maxRetries; attempt++) {
-        try {
-          if (attempt > 0) {
-            this.log(`Retry ${attempt}/${maxRetries} for segment ${segIdx} after 10s delay...`);
-            await new Promise(resolve => setTimeout(resolve, 10000));
-          }
+    // R1.5.29: Check for video_prompt_override (set by preview/refine panel)
+    const promptOverride = scene.video_prompt_override as StructuredPrompt | null;
+
+    // Build video prompt JSON directly from scene data — no LLM needed.
+    // Uses visual_prompt, script_text, shot_scripts, energy_arc.
+    this.log(`Segment ${segIdx}: building video prompt from scene data`);
+    const serialized = buildVideoPromptJSON(scene, { shotDuration: vm.shot_duration, lockCamera });
+    const mainPrompt = serialized.prompt;
+    const effectiveNegativePrompt = serialized.negativePrompt || negativePrompt;
+
+    // Generate video with retry logic (configurable per project, default 0 = no retries)
+    const maxRetries = project?.video_retries ?? 0;
+    // A parked job reruns from the top after every callback; pick up its attempt count
+    const failedAttempts = await this.countParkedFailures(projectId, 'video', scene.id);
+    let lastError: Error | null = failedAttempts > 0 ? new Error(`Video task failed ${failedAttempts} time(s)`) : null;
+    let segmentSuccess = false;
+
+    for (let attempt = failedAttempts; attempt <= maxRetries; attempt++) {
+      try {
+        if (attempt > 0) {
+          this.log(`Retry ${attempt}/${maxRetries} for segment ${segIdx} after 10s delay...`);
+          await new Promise(resolve => setTimeout(resolve, 10000));
+        }
 
-          this.log(`Generating video for segment ${segIdx} (attempt ${attempt + 1})`);
+        this.log(`Generating video for segment ${segIdx} (attempt ${attempt + 1})`);
 
-          const result = await this.wavespeed.generateVideo({
+        // One video slot from submission until the clip is ready. An in-flight
+        // clip from an interrupted run is polled instead of resubmitted.
+        const video = await this.withProvider(provider.slot, () => this.runProviderTask(projectId, {
+          stage: 'directing',
+          type: 'video',
+          sceneId: scene.id,
+          provider: vm.slug,
+          costUsd: vm.cost_per_segment,
+          submit: () => provider.submit({
             image: startKeyframe.url,
-            tailImage: vm.supports_tail_image ? endKeyframe?.url : undefined,
+            tailImage: endKeyframe?.url,
             prompt: mainPrompt,
             negativePrompt: effectiveNegativePrompt,
             multiPrompt: [],  // Dropped: JSON prompt handles timing via action.sequence
             duration: vm.segment_duration,
             cfgScale: 0.5,
-          });
-
-          // API call succeeded — count it for cost tracking
-          apiCallsMade++;
-
-          await this.supabase.from('asset').insert({
-            project_id: projectId,
-            scene_id: scene.id,
-            type: 'video',
-            provider: vm.slug,
-            provider_task_id: result.taskId,
-            status: 'generating',
-            cost_usd: vm.cost_per_segment,
-          });
-
-          this.log(`Polling video task ${result.taskId} (up to 15 min)...`);
-          const pollResult = await this.wavespeed.pollResult(result.taskId, { maxWait: VIDEO_POLL_MAX_WAIT, shouldCancel: this.shouldCancel });
-
-          await this.supabase
-            .from('asset')
-            .update({ url: pollResult.url || '', status: 'completed' })
-            .eq('provider_task_id', result.taskId);
-
-          this.log(`Video complete for segment ${segIdx}: ${pollResult.url}`);
-          segmentSuccess = true;
-          lastError = null;
-          break;
-
-        } catch (error) {
-          if (error instanceof CancellationError) throw error;
-          lastError = error instanceof Error ? error : new Error(String(error));
-          this.log(`Video generation failed for segment ${segIdx}: ${lastError.message}`);
-        }
+          }),
+          poll: (taskId) => {
+            this.log(`Polling video task ${taskId} (up to 15 min)...`);
+            return provider.poll(taskId, { maxWait: VIDEO_POLL_MAX_WAIT, shouldCancel: this.shouldCancel });
+          },
+          check: (taskId) => provider.check(taskId),
+          maxWaitMs: VIDEO_POLL_MAX_WAIT,
+        }));
+
+        this.log(`Video complete for segment ${segIdx}: ${video.url}`);
+        segmentSuccess = true;
+        lastError = null;
+        break;
+
+      } catch (error) {
+        if (error instanceof CancellationError || error instanceof TaskPendingError || error instanceof BudgetExceededError) throw error;
+        lastError = error instanceof Error ? error : new Error(String(error));
+        this.log(`Video generation failed for segment ${segIdx}: ${lastError.message}`);
       }
+    }
 
-      // Track cost ONCE outside the retry loop — covers all actual API calls made
-      if (apiCallsMade > 0) {
-        await this.trackCost(projectId, vm.cost_per_segment * apiCallsMade);
-      }
+    if (!segmentSuccess && lastError) {
+      this.log(`All retries exhausted for segment ${segIdx}, marking as failed`);
+      await this.supabase.from('asset').insert({
+        project_id: projectId,
+        scene_id: scene.id,
+        type: 'video',
+        provider: vm.slug,
+        status: 'failed',
+        cost_usd: 0,
+      });
+    }
+  }
 
-      if (!segmentSuccess && lastError) {
-        this.log(`All retries exhausted for segment ${segIdx}, marking as failed`);
-        await this.supabase.from('asset').insert({
-          project_id: projectId,
-          scene_id: scene.id,
-          type: 'video',
-          provider: vm.slug,
-          status: 'failed',
-          cost_usd: 0,
-        });
+  /** Latest scenes of the approved script, plus the project's prompt settings. */
+  private async loadContext(projectId: string) {
+    // 1. Get the approved script
+    const { data: scripts } = await this.supabase
+      .from('script')
+      .select('id')
+      .eq('project_id', projectId)
+      .order('version', { ascending: false })
+      .limit(1);
+
+    const scriptId = scripts?.[0]?.id;
+    if (!scriptId) throw new Error('No script found');
+
+    // 2. Fetch latest scenes
+    const { data: allScenes } = await this.supabase
+      .from('scene')
+      .select('*')
+      .eq('script_id', scriptId)
+      .order('segment_index')
+      .order('version', { ascending: false });
+
+    const latestScenes = new Map<number, any>();
+    for (const scene of allScenes || []) {
+      if (!latestScenes.has(scene.segment_index)) {
+        latestScenes.set(scene.segment_index, scene);
       }
     }
 
-    const durationMs = Date.now() - stageStart;
-    await this.logEvent(projectId, 'stage_complete', 'directing', { durationMs });
-    this.log(`Directing complete for project ${projectId}`);
+    // 2b. Fetch project for negative prompt override and video retries config
+    const { data: project } = await this.supabase
+      .from('project')
+      .select('negative_prompt_override, video_retries, lock_camera')
+      .eq('id', projectId)
+      .single();
+
+    const negativePrompt = resolveNegativePrompt(project, 'directing');
+    const lockCamera = project?.lock_camera ?? false;
+
+    return { latestScenes, project, negativePrompt, lockCamera };
   }
 
   /**
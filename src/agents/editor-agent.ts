@@ -1,232 +1,247 @@
 import { SupabaseClient } from '@supabase/supabase-js';
 import { BaseAgent } from './base-agent';
-import { CreatomateClient } from '@/lib/api-clients/creatomate';
-import {
-  CREATOMATE_TEMPLATE_ID,
-  API_COSTS,
-  RESOLUTION,
-  KEN_BURNS_PRESETS,
-  pickKenBurnsDirection,
-  type KenBurnsDirection,
-} from '@/lib/constants';
-import type { ModificationValue } from '@/lib/api-clients/creatomate';
+import { getRenderer, resolveRenderBackend, type Renderer, type RenderOutput } from '@/lib/renderers';
+import { buildTimeline, clipsOfType, loadTimelineRows } from '@/lib/timeline';
+import { resolveCaptionStyle } from '@/lib/captions';
+import { TaskPendingError } from '@/lib/errors';
+import { settleTaskAsset, type ProviderTaskState } from '@/lib/webhooks';
+import { releaseTaskSlot } from '@/lib/rate-limiter';
 
-export class EditorAgent extends BaseAgent {
-  private creatomate: CreatomateClient;
+/** How long a parked render may run before it counts as failed (CreatomateClient.pollRender's default) */
+const PARKED_RENDER_MAX_WAIT_MS = 300_000;
 
+export class EditorAgent extends BaseAgent {
   constructor(supabaseClient?: SupabaseClient) {
     super('EditorAgent', supabaseClient);
-    this.creatomate = new CreatomateClient();
   }
 
   async run(projectId: string): Promise<void> {
     const stageStart = Date.now();
-    await this.logEvent(projectId, 'stage_start', 'editing');
-    this.log(`Starting editing for project ${projectId}`);
 
-    // 1. Fetch all completed video and audio assets with scene text overlays
-    const { data: assets, error } = await this.supabase
-      .from('asset')
-      .select('*, scene:scene(segment_index, text_overlay)')
-      .eq('project_id', projectId)
-      .in('type', ['video', 'audio'])
-      .eq('status', 'completed');
+    const { data: proj } = await this.supabase
+      .from('project')
+      .select('renderer, caption_style')
+      .eq('id', projectId)
+      .single();
 
-    if (error) throw new Error(`Failed to fetch assets: ${error.message}`);
-    if (!assets || assets.length === 0) throw new Error('No completed assets found');
+    // Resolve render backend: project override → video model default → creatomate
+    const renderer = getRenderer(resolveRenderBackend(proj?.renderer, this.videoModel));
+    const park = this.parkedSince !== null && !!renderer.start && !!renderer.check;
 
-    // 1b. Fetch completed B-roll shots with timing metadata
-    const { data: brollShots } = await this.supabase
-      .from('broll_shot')
-      .select('*')
-      .eq('project_id', projectId)
-      .eq('status', 'completed')
-      .not('image_url', 'is', null)
-      .order('segment_index')
-      .order('shot_index');
-
-    // 2. Build modifications map for Creatomate template
-    const modifications: Record<string, ModificationValue> = {};
-    const textOverlays = new Map<number, string>();
-
-    for (const asset of assets) {
-      const segIdx = asset.scene?.segment_index;
-      if (segIdx === null || segIdx === undefined) continue;
-      if (!asset.url) continue;
-
-      const slotNum = segIdx + 1;
-
-      if (asset.type === 'video') {
-        // Mute Kling's native audio track — only ElevenLabs TTS should be heard
-        modifications[`Video-${slotNum}`] = { source: asset.url, volume: '0%' };
-      } else if (asset.type === 'audio') {
-        modifications[`Audio-${slotNum}`] = asset.url;
-      }
+    // Re-attach to a render an earlier run already paid for
+    const earlier = park
+      ? await this.checkParkedRender(projectId, renderer)
+      : { result: await this.resumeRender(projectId, renderer), attempts: 0 };
+    const finalResult = earlier.result
+      ?? await this.renderTimeline(projectId, renderer, proj?.caption_style, earlier.attempts, park);
 
-      // Collect text overlays from scene data (deduplicated by segment)
-      if (asset.scene?.text_overlay && !textOverlays.has(segIdx)) {
-        textOverlays.set(segIdx, asset.scene.text_overlay);
-      }
-    }
+    // 4. Update asset with final URL
+    await this.supabase
+      .from('asset')
+      .update({ url: finalResult.url, status: 'completed' })
+      .eq('provider_task_id', finalResult.taskId);
 
-    // Add text overlay modifications for each segment
-    for (const [segIdx, text] of textOverlays) {
-      modifications[`Text-${segIdx + 1}`] = text;
+    if (renderer.costPerRender > 0) {
+      await this.trackCost(projectId, renderer.costPerRender);
     }
+    const durationMs = Date.now() - stageStart;
+    await this.logEvent(projectId, 'stage_complete', 'editing', { durationMs });
+    this.log(`Editing complete for project ${projectId}: ${finalResult.url}`);
+  }
 
-    // Add B-roll image modifications with Ken Burns zoom/pan effect
-    if (brollShots && brollShots.length > 0) {
-      for (const shot of brollShots) {
-        if (shot.image_url) {
-          const slotKey = `Broll-${shot.segment_index + 1}-${shot.shot_index + 1}`;
-          const direction = pickKenBurnsDirection(shot.shot_index);
-          const preset = KEN_BURNS_PRESETS[direction];
-
-          modifications[slotKey] = {
-            source: shot.image_url,
-            x_scale: [
-              { value: preset.x_scale.start, time: 0 },
-              { value: preset.x_scale.end, time: 'end' },
-            ],
-            y_scale: [
-              { value: preset.y_scale.start, time: 0 },
-              { value: preset.y_scale.end, time: 'end' },
-            ],
-            x: [
-              { value: preset.x.start, time: 0 },
-              { value: preset.x.end, time: 'end' },
-            ],
-            y: [
-              { value: preset.y.start, time: 0 },
-              { value: preset.y.end, time: 'end' },
-            ],
-          };
-        }
-      }
-      this.log(`Added ${brollShots.length} B-roll images with Ken Burns effect to template modifications`);
-    }
+  /**
+   * Build the timeline and render it, retrying failed renders. `failedAttempts`
+   * are renders a parked job's earlier runs already used up. While parking, a
+   * started render throws TaskPendingError instead of being polled.
+   */
+  private async renderTimeline(
+    projectId: string,
+    renderer: Renderer,
+    captionStyle: string | null | undefined,
+    failedAttempts: number,
+    park: boolean,
+  ): Promise<RenderOutput> {
+    await this.logEvent(projectId, 'stage_start', 'editing');
+    this.log(`Starting editing for project ${projectId}`);
 
-    this.log(`Template modifications: ${JSON.stringify(Object.keys(modifications))}`);
-
-    const videoCount = Object.keys(modifications).filter(k => k.startsWith('Video-')).length;
-    if (videoCount === 0) throw new Error('No video assets to compose');
-
-    // 2b. B0.23: Pre-render validation — reject non-HTTPS asset URLs (e.g., data URIs)
-    const invalidAssetSlots: string[] = [];
-    for (const [slotKey, value] of Object.entries(modifications)) {
-      // Only validate Video and Audio slots (string URLs or objects with source URL)
-      if (!slotKey.startsWith('Video-') && !slotKey.startsWith('Audio-')) continue;
-      const url = typeof value === 'string'
-        ? value
-        : (typeof value === 'object' && value !== null && 'source' in value && typeof (value as Record<string, unknown>).source === 'string')
-          ? (value as Record<string, unknown>).source as string
-          : null;
-      if (!url) continue;
-
-      if (url.startsWith('data:')) {
-        invalidAssetSlots.push(slotKey);
-        this.log(`Error: Asset slot "${slotKey}" has a data URI instead of an HTTPS URL — excluding from render`, { slotKey });
-        await this.logEvent(projectId, 'asset_validation_error', 'editing', {
-          slotKey,
-          issue: 'data_uri_detected',
-          urlPrefix: url.substring(0, 30),
-        });
-        // Remove the data URI slot so Creatomate does not receive it
-        delete modifications[slotKey];
-      } else if (!url.startsWith('https://')) {
-        this.log(`Warning: Asset slot "${slotKey}" has a non-HTTPS URL: ${url.substring(0, 60)}`, { slotKey });
-        await this.logEvent(projectId, 'asset_validation_warning', 'editing', {
-          slotKey,
-          issue: 'non_https_url',
-          urlPrefix: url.substring(0, 60),
-        });
+    // 1. Build the timeline from completed video/audio assets and B-roll shots
+    const rows = await loadTimelineRows(this.supabase, projectId);
+    if (rows.assets.length === 0) throw new Error('No completed assets found');
+    if (!rows.assets.some(a => a.type === 'video' && a.url)) throw new Error('No video assets to compose');
+
+    const { timeline, issues } = buildTimeline(rows, {
+      segmentDuration: this.videoModel.segment_duration,
+      captionStyle: resolveCaptionStyle(captionStyle),
+    });
+
+    // 1b. B0.23: Pre-render validation — data URIs were excluded, non-HTTPS URLs are only flagged
+    for (const issue of issues) {
+      if (issue.issue === 'data_uri_detected') {
+        this.log(`Error: Clip "${issue.clipId}" has a data URI instead of an HTTPS URL — excluding from render`, { clipId: issue.clipId });
+        await this.logEvent(projectId, 'asset_validation_error', 'editing', { ...issue });
+      } else {
+        this.log(`Warning: Clip "${issue.clipId}" has a non-HTTPS URL: ${issue.urlPrefix}`, { clipId: issue.clipId });
+        await this.logEvent(projectId, 'asset_validation_warning', 'editing', { ...issue });
       }
     }
 
-    if (invalidAssetSlots.length > 0) {
-      this.log(`Excluded ${invalidAssetSlots.length} invalid asset slot(s) from render: ${invalidAssetSlots.join(', ')}`);
-    }
+    const videoClips = clipsOfType(timeline, 'video');
+    if (videoClips.length === 0) throw new Error('No valid video assets to compose after URL validation');
+    this.log(`Timeline: ${videoClips.length} segments, ${clipsOfType(timeline, 'image').length} B-roll stills, ${clipsOfType(timeline, 'caption').length} caption pages, ${rows.music ? 'music bed' : 'no music'}, ${timeline.duration}s`);
 
-    // Re-check video count after validation
-    const validVideoCount = Object.keys(modifications).filter(k => k.startsWith('Video-')).length;
-    if (validVideoCount === 0) throw new Error('No valid video assets to compose after URL validation');
+    // 2. Store the timeline on the project so the UI shows exactly what was rendered
+    await this.supabase
+      .from('project')
+      .update({ timeline, updated_at: new Date().toISOString() })
+      .eq('id', projectId);
+
+    this.log(`Rendering with ${renderer.id} renderer`);
 
-    // 3. Start Creatomate render + poll with retry logic
+    // 3. Render with retry logic
     //    2 retries with exponential backoff (15s, 30s) to protect $5-7 of prior API investment
     const maxAttempts = 3;
     const retryDelays = [15000, 30000]; // exponential backoff: 15s, 30s
-    let lastError: Error | null = null;
-    let finalResult: { id: string; url?: string } | null = null;
+    let lastError: Error | null = failedAttempts > 0 ? new Error(`Render failed ${failedAttempts} time(s)`) : null;
 
-    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    for (let attempt = failedAttempts + 1; attempt <= maxAttempts; attempt++) {
       try {
         if (attempt > 1) {
           const delayMs = retryDelays[attempt - 2];
-          this.log(`Retry ${attempt - 1}/${maxAttempts - 1} for Creatomate render after ${delayMs / 1000}s delay...`);
+          this.log(`Retry ${attempt - 1}/${maxAttempts - 1} for ${renderer.id} render after ${delayMs / 1000}s delay...`);
           await this.logEvent(projectId, 'render_retry', 'editing', {
             attempt,
             maxAttempts,
+            renderer: renderer.id,
             error: lastError?.message ?? 'unknown',
             delayMs,
           });
           await new Promise(resolve => setTimeout(resolve, delayMs));
         }
 
-        this.log(`Starting Creatomate render (attempt ${attempt}/${maxAttempts})...`);
-        const render = await this.creatomate.renderVideo({
-          templateId: CREATOMATE_TEMPLATE_ID,
-          modifications,
-          maxWidth: RESOLUTION.width,
-          maxHeight: RESOLUTION.height,
-        });
-
-        // Create asset row for final video (only on first attempt; clean up stale rows on retries)
-        if (attempt === 1) {
-          await this.supabase.from('asset').insert({
-            project_id: projectId,
-            type: 'final_video',
-            provider: 'creatomate',
-            provider_task_id: render.id,
-            status: 'generating',
-            cost_usd: API_COSTS.creatomateRender,
-          });
-        } else {
-          // Update the existing asset row with the new render task ID
-          await this.supabase
-            .from('asset')
-            .update({ provider_task_id: render.id, status: 'generating' })
-            .eq('project_id', projectId)
-            .eq('type', 'final_video')
-            .eq('provider', 'creatomate');
-        }
-
-        // Poll until complete
-        this.log(`Polling Creatomate render ${render.id}...`);
-        const result = await this.creatomate.pollRender(render.id);
-
-        finalResult = { id: render.id, url: result.url };
-        lastError = null;
-        break;
+        this.log(`Starting ${renderer.id} render (attempt ${attempt}/${maxAttempts})...`);
+        const metadata = { render_attempt: attempt, started_at: new Date().toISOString() };
+        const context = {
+          projectId,
+          correlationId: this.correlationId,
+          supabase: this.supabase,
+          onTaskStarted: async (taskId: string) => {
+            // Create asset row for final video (only on first attempt; reuse the row on retries)
+            if (attempt === 1) {
+              await this.supabase.from('asset').insert({
+                project_id: projectId,
+                type: 'final_video',
+                provider: renderer.provider,
+                provider_task_id: taskId,
+                status: 'generating',
+                cost_usd: renderer.costPerRender,
+                metadata,
+              });
+            } else {
+              // Update the existing asset row with the new render task ID
+              await this.supabase
+                .from('asset')
+                .update({ provider_task_id: taskId, status: 'generating', metadata })
+                .eq('project_id', projectId)
+                .eq('type', 'final_video')
+                .eq('provider', renderer.provider);
+            }
+          },
+        };
+        const render = async (): Promise<RenderOutput> => {
+          if (!park) return renderer.render(timeline, context);
+          // Submit only; the worker reruns this job once the render finishes
+          const { taskId } = await renderer.start!(timeline, context);
+          await context.onTaskStarted(taskId);
+          throw new TaskPendingError(taskId);
+        };
+        // Creatomate renders hold a fleet-wide slot; the local renderer runs in-process
+        return renderer.id === 'creatomate'
+          ? await this.withProvider('creatomate', render)
+          : await render();
 
       } catch (error) {
+        if (error instanceof TaskPendingError) throw error;
         lastError = error instanceof Error ? error : new Error(String(error));
-        this.log(`Creatomate render failed (attempt ${attempt}/${maxAttempts}): ${lastError.message}`);
+        this.log(`${renderer.id} render failed (attempt ${attempt}/${maxAttempts}): ${lastError.message}`);
       }
     }
 
-    if (lastError || !finalResult) {
-      throw new Error(`Creatomate render failed after ${maxAttempts} attempts: ${lastError?.message ?? 'unknown error'}`);
-    }
+    throw new Error(`${renderer.id} render failed after ${maxAttempts} attempts: ${lastError?.message ?? 'unknown error'}`);
+  }
 
-    // 4. Update asset with final URL
-    await this.supabase
+  /**
+   * For a parked job, the render its earlier runs started: the finished render, or
+   * null plus the attempts used if it failed. Parks the job again (TaskPendingError)
+   * while the render is still running.
+   */
+  private async checkParkedRender(projectId: string, renderer: Renderer): Promise<{ result: RenderOutput | null; attempts: number }> {
+    const { data: rows } = await this.supabase
       .from('asset')
-      .update({ url: finalResult.url || '', status: 'completed' })
-      .eq('provider_task_id', finalResult.id);
+      .select('id, status, url, provider_task_id, metadata')
+      .eq('project_id', projectId)
+      .eq('type', 'final_video')
+      .eq('provider', renderer.provider)
+      .not('provider_task_id', 'is', null)
+      .gte('created_at', new Date(this.parkedSince!).toISOString())
+      .order('created_at', { ascending: false })
+      .limit(1);
+    const render = rows?.[0];
+    if (!render) return { result: null, attempts: 0 };
+
+    const taskId = render.provider_task_id as string;
+    const attempts = (render.metadata?.render_attempt as number | undefined) ?? 1;
+    // The webhook route may already have recorded the outcome
+    let state: ProviderTaskState = render.status === 'generating'
+      ? await renderer.check!(taskId, { projectId, correlationId: this.correlationId, supabase: this.supabase })
+      : { status: render.status === 'completed' ? 'completed' : 'failed', url: render.url ?? undefined };
+
+    if (state.status === 'pending') {
+      const startedAt = new Date(render.metadata?.started_at ?? this.parkedSince!).getTime();
+      if (Date.now() - startedAt < PARKED_RENDER_MAX_WAIT_MS) throw new TaskPendingError(taskId);
+      state = { status: 'failed', error: `timed out after ${PARKED_RENDER_MAX_WAIT_MS / 1000}s` };
+    }
+    if (render.status === 'generating') {
+      await settleTaskAsset(this.supabase, taskId, state);
+    } else {
+      // Settled by the callback, possibly before the render's slot was parked
+      await releaseTaskSlot(taskId);
+    }
 
-    await this.trackCost(projectId, API_COSTS.creatomateRender);
-    const durationMs = Date.now() - stageStart;
-    await this.logEvent(projectId, 'stage_complete', 'editing', { durationMs });
-    this.log(`Editing complete for project ${projectId}: ${finalResult.url}`);
+    if (state.status === 'completed') {
+      return { result: { taskId, url: state.url || '' }, attempts };
+    }
+    this.log(`${renderer.id} render ${taskId} failed (attempt ${attempts}): ${state.error ?? 'unknown error'}`);
+    return { result: null, attempts };
+  }
+
+  /** Poll an in-flight render left by an interrupted run; null if there is none or it failed. */
+  private async resumeRender(projectId: string, renderer: Renderer): Promise<RenderOutput | null> {
+    if (!renderer.resume) return null;
+
+    const { data: inFlight } = await this.supabase
+      .from('asset')
+      .select('id, provider_task_id')
+      .eq('project_id', projectId)
+      .eq('type', 'final_video')
+      .eq('provider', renderer.provider)
+      .eq('status', 'generating')
+      .not('provider_task_id', 'is', null)
+      .order('created_at', { ascending: false })
+      .limit(1);
+    const taskId = inFlight?.[0]?.provider_task_id as string | undefined;
+    if (!taskId) return null;
+
+    this.log(`Re-attaching to in-flight ${renderer.id} render ${taskId}`);
+    await this.logEvent(projectId, 'task_resumed', 'editing', { assetId: inFlight![0].id, type: 'final_video', taskId });
+    const context = { projectId, correlationId: this.correlationId, supabase: this.supabase };
+    try {
+      return renderer.id === 'creatomate'
+        ? await this.withProvider('creatomate', () => renderer.resume!(taskId, context))
+        : await renderer.resume(taskId, context);
+    } catch (error) {
+      this.log(`Resumed ${renderer.id} render ${taskId} failed, rendering again: ${error instanceof Error ? error.message : String(error)}`);
+      await this.supabase.from('asset').update({ status: 'failed' }).eq('id', inFlight![0].id);
+      return null;
+    }
   }
 }
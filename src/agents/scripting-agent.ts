@@ -1,7 +1,10 @@
 import { SupabaseClient } from '@supabase/supabase-js';
 import { BaseAgent } from './base-agent';
-import { API_COSTS, PIPELINE_CONFIG, SCRIPT_TONES, DEFAULT_TONE, type ScriptTone } from '@/lib/constants';
-import { countTextSyllables } from '@/lib/syllables';
+import { API_COSTS, PIPELINE_CONFIG, SCRIPT_TONES, DEFAULT_TONE, getLocale, type LanguageCode, type ScriptTone } from '@/lib/constants';
+import { countTextSyllables, scaleSyllableTargets } from '@/lib/syllables';
+import { compliancePromptBlock } from '@/lib/compliance';
+import { selectTemplateForCategory, type ScriptTemplate } from '@/lib/templates';
+import { calibratedHookScore, getAppliedCalibration } from '@/lib/hook-calibration';
 
 // ─── Types ─────────────────────────────────────────────────────────────────────
 
@@ -78,6 +81,25 @@ interface ScriptResponse {
   total_syllables: number;
 }
 
+interface HookVariantResult {
+  projectId: string;
+  scriptId: string;
+  hookAngle: string | null;
+  hookScore: number;
+  segment: Segment;
+}
+
+/** One segment as sent to (and returned by) the Script Localizer. */
+interface LocalizableSegment {
+  segment_index: number;
+  section: string;
+  script_text: string;
+  shot_scripts: string[];
+  text_overlay: string;
+  audio_sync_words: Record<string, string>;
+  broll_spoken: string[];
+}
+
 interface ScriptResult {
   scriptId: string;
   version: number;
@@ -96,6 +118,30 @@ const DEFAULT_SYLLABLE_TARGETS = {
 };
 
 type SyllableTargets = typeof DEFAULT_SYLLABLE_TARGETS;
+type ProjectLocale = ReturnType<typeof getLocale>;
+
+/**
+ * A project's locale and per-section syllable targets. Targets are in the
+ * project's language; the English defaults are scaled by speaking rate.
+ */
+function resolvePacing(proj: { locale?: string | null; syllable_targets?: unknown }): { locale: ProjectLocale; syllableTargets: SyllableTargets } {
+  const locale = getLocale(proj.locale);
+  return {
+    locale,
+    syllableTargets: {
+      ...scaleSyllableTargets(DEFAULT_SYLLABLE_TARGETS, locale.id),
+      ...(proj.syllable_targets as Partial<SyllableTargets> || {}),
+    },
+  };
+}
+
+/** Prompt block telling the writer which language and market to write for. */
+function languageBlock(locale: ProjectLocale): string {
+  if (locale.language === 'en') return '';
+  return `LANGUAGE: Write every spoken line (script_text, shot_scripts, audio_sync words, spoken_text_during) and every text_overlay in ${locale.languageName} as a native creator from ${locale.region} would say it — local idioms, slang and units, not a word-for-word translation. Keep JSON keys, section names and enum values in English. Keep the product name as is.
+
+`;
+}
 
 function getSectionTargets(section: string, targets: SyllableTargets): { min: number; max: number } {
   const key = section.toLowerCase().replace(/\s*\+\s*/g, '_').replace(/\s+/g, '_');
@@ -106,13 +152,25 @@ function getSectionTargets(section: string, targets: SyllableTargets): { min: nu
   return { min: 75, max: 90 }; // fallback
 }
 
+function sumHookScore(score: HookScore): number {
+  return (
+    score.curiosity_loop +
+    score.challenges_belief +
+    score.clear_context +
+    score.plants_question +
+    score.pattern_interrupt +
+    score.emotional_trigger +
+    score.specific_claim
+  );
+}
+
 // ─── System Prompt ─────────────────────────────────────────────────────────────
 
-function buildSystemPrompt(tone: ScriptTone, syllableTargets: SyllableTargets): string {
+function buildSystemPrompt(tone: ScriptTone, syllableTargets: SyllableTargets, locale: ProjectLocale = getLocale(null)): string {
   const toneConfig = SCRIPT_TONES[tone];
   return `You are a Script Architect for TikTok Shop UGC videos.
 
-${toneConfig.promptBlock}
+${languageBlock(locale)}${toneConfig.promptBlock}
 
 CREATE A 4-SEGMENT SCRIPT for a 40-second video.
 
@@ -210,6 +268,11 @@ IMPORTANT: Match these syllable counts precisely. Fewer syllables = slower, more
    - Props should include the product name when product_visibility is not "none"
    - Camera should progress: medium/wide for hook → close-up for product hero → medium for CTA
 
+11. COMPLIANCE (TikTok Shop + FTC — hard violations block approval):
+   - Never make a claim listed under COMPLIANCE RULES in the input
+   - Use structure/function wording ("supports", "the look of") instead of cure, treat or guarantee language
+   - Segment 4 (CTA) text_overlay MUST include "${locale.disclosureTag}"
+
 OUTPUT FORMAT (valid JSON only, no markdown, no code fences):
 {
   "segments": [
@@ -291,6 +354,11 @@ export class ScriptingAgent extends BaseAgent {
       throw new Error(`Project ${projectId} has no product_data — run analysis first`);
     }
 
+    // Regional versions translate their source project's approved script
+    if (proj.source_script_id) {
+      return this.translateScript(projectId, proj, stageStart);
+    }
+
     // Fetch style preset if project has one
     let stylePreset: any = null;
     if (proj.style_preset_id) {
@@ -311,10 +379,7 @@ export class ScriptingAgent extends BaseAgent {
     this.log(`Using tone: ${tone}`);
 
     // Resolve per-section syllable targets (project overrides merged with defaults)
-    const syllableTargets: SyllableTargets = {
-      ...DEFAULT_SYLLABLE_TARGETS,
-      ...(proj.syllable_targets as Partial<SyllableTargets> || {}),
-    };
+    const { locale, syllableTargets } = resolvePacing(proj);
     this.log(`Using syllable targets: hook=${syllableTargets.hook.min}-${syllableTargets.hook.max}, problem=${syllableTargets.problem.min}-${syllableTargets.problem.max}, solution=${syllableTargets.solution_product.min}-${syllableTargets.solution_product.max}, cta=${syllableTargets.cta.min}-${syllableTargets.cta.max}`);
 
     const productData = proj.product_data as {
@@ -333,17 +398,17 @@ export class ScriptingAgent extends BaseAgent {
       hook_angle?: string;
     } | null;
 
-    // 2. Optionally select a matching script_template (least used first)
-    const template = await this.selectTemplate(productData.category);
+    // 2. Optionally select a matching script_template (pinned, else weighted by performance)
+    const template = await this.selectTemplate(projectId, productData.category);
 
     // 3. Build user prompt
-    const userPrompt = this.buildUserPrompt(productData, template, proj.video_url, proj.video_analysis, stylePreset, concept);
+    const userPrompt = this.buildUserPrompt(productData, template, proj.video_url, proj.video_analysis, stylePreset, concept, locale);
 
     // 4. Call WaveSpeed LLM
     this.log('Calling WaveSpeed LLM for script generation...');
     let rawResponse: string;
     try {
-      rawResponse = await this.wavespeed.chatCompletion(buildSystemPrompt(tone, syllableTargets), userPrompt, {
+      rawResponse = await this.wavespeed.chatCompletion(buildSystemPrompt(tone, syllableTargets, locale), userPrompt, {
         temperature: 0.7,
         maxTokens: 8192,
       });
@@ -364,20 +429,21 @@ export class ScriptingAgent extends BaseAgent {
     }
 
     // 6. Validate and override syllable counts
-    this.validateAndFix(script, syllableTargets);
+    this.validateAndFix(script, syllableTargets, locale.language);
 
     // 7. Determine version (A5: script versioning)
     const version = await this.getNextVersion(projectId);
 
     // 8. Save script row
     const fullText = script.segments.map((s) => s.script_text).join('\n\n');
+    const hook = await this.scoreHook(script.hook_score);
 
     const { data: savedScript, error: scriptError } = await this.supabase
       .from('script')
       .insert({
         project_id: projectId,
         version,
-        hook_score: script.hook_score.total,
+        ...hook,
         full_text: fullText,
         tone,
       })
@@ -421,17 +487,220 @@ export class ScriptingAgent extends BaseAgent {
 
     const durationMs = Date.now() - stageStart;
     await this.logEvent(projectId, 'stage_complete', 'scripting', { durationMs });
-    this.log(`Script v${version} saved (id=${savedScript.id}, hook_score=${script.hook_score.total}, syllables=${script.total_syllables})`);
+    this.log(`Script v${version} saved (id=${savedScript.id}, hook_score=${hook.hook_score}, syllables=${script.total_syllables})`);
 
     return {
       scriptId: savedScript.id,
       version,
-      hookScore: script.hook_score.total,
+      hookScore: hook.hook_score,
       totalSyllables: script.total_syllables,
       segments: script.segments,
     };
   }
 
+  // ─── Regional Translation ─────────────────────────────────────────────────
+
+  /**
+   * Script for a regional version (src/lib/localization.ts): the source project's
+   * approved script adapted into this project's language, retimed to its syllable
+   * targets. Only the words change — energy, camera, props and scores carry over.
+   */
+  private async translateScript(
+    projectId: string,
+    proj: { source_script_id: string; locale?: string | null; syllable_targets?: unknown; tone?: string | null; product_data: { product_name: string } },
+    stageStart: number,
+  ): Promise<ScriptResult> {
+    const { locale, syllableTargets } = resolvePacing(proj);
+
+    const { data: source } = await this.supabase
+      .from('script')
+      .select('id, project_id, hook_score, hook_score_breakdown, tone, project:project_id(locale)')
+      .eq('id', proj.source_script_id)
+      .single();
+
+    if (!source) {
+      throw new Error(`Source script not found: ${proj.source_script_id}`);
+    }
+    const sourceLocale = getLocale((source.project as { locale?: string } | null)?.locale);
+
+    const { data: sceneRows } = await this.supabase
+      .from('scene')
+      .select('*')
+      .eq('script_id', source.id)
+      .order('segment_index')
+      .order('version', { ascending: false });
+
+    const latest = new Map<number, NonNullable<typeof sceneRows>[0]>();
+    for (const s of sceneRows || []) {
+      if (!latest.has(s.segment_index)) latest.set(s.segment_index, s);
+    }
+    const scenes = Array.from(latest.values()).sort((a, b) => a.segment_index - b.segment_index);
+    if (scenes.length === 0) {
+      throw new Error(`Source script ${source.id} has no scenes`);
+    }
+
+    this.log(`Translating script ${source.id} from ${sourceLocale.id} to ${locale.id}`);
+
+    const sourceSegments: LocalizableSegment[] = scenes.map((scene) => ({
+      segment_index: scene.segment_index,
+      section: scene.section,
+      script_text: scene.script_text ?? '',
+      shot_scripts: ((scene.shot_scripts || []) as ShotScript[]).map((shot) => shot.text),
+      text_overlay: scene.text_overlay ?? '',
+      audio_sync_words: Object.fromEntries(
+        Object.entries((scene.audio_sync || {}) as Record<string, AudioSyncPeak>).map(([key, peak]) => [key, peak.word]),
+      ),
+      broll_spoken: ((scene.broll_cues || []) as BrollCue[]).map((cue) => cue.spoken_text_during),
+    }));
+
+    const targets = scenes
+      .map((scene) => {
+        const target = getSectionTargets(scene.section, syllableTargets);
+        return `- Segment ${scene.segment_index + 1} (${scene.section}): ${target.min}-${target.max} syllables`;
+      })
+      .join('\n');
+
+    const systemPrompt = `You are a Script Localizer for TikTok Shop UGC videos.
+
+You adapt an approved video script into another language for a regional version of the same ad. Transcreate, don't translate word for word: each line must sound like a native creator from the target region wrote it, with local idioms, slang, currency and units, while keeping the hook's angle, every claim and the call to action. Do not add new claims.
+
+RULES:
+1. Keep the product name exactly as given.
+2. Each segment's script_text must hit its syllable target in the target language (it is spoken in the same 10 seconds).
+3. shot_scripts: split the new script_text into the same number of portions as the source, in order; joined they must equal script_text.
+4. audio_sync_words: for each key, the word in your script_text that lands on the same beat as the source word.
+5. broll_spoken: for each entry, the words of your script_text spoken at that moment.
+6. text_overlay: short and punchy in the target language. Segment 4 (CTA) must include "${locale.disclosureTag}".
+
+OUTPUT FORMAT (valid JSON only, no markdown, no code fences) — the source segments with every text field in the target language:
+{ "segments": [ { "segment_index": 0, "section": "Hook", "script_text": "...", "shot_scripts": ["...", "..."], "text_overlay": "...", "audio_sync_words": { "shot_1_peak": "..." }, "broll_spoken": ["..."] } ] }`;
+
+    const userPrompt = `FROM: ${sourceLocale.label}
+TO: ${locale.label} (${locale.languageName}, ${locale.region})
+PRODUCT: ${proj.product_data.product_name}
+
+SYLLABLE TARGETS (${locale.languageName}):
+${targets}
+
+SOURCE SEGMENTS (JSON):
+${JSON.stringify(sourceSegments, null, 2)}`;
+
+    let rawResponse: string;
+    try {
+      rawResponse = await this.wavespeed.chatCompletion(systemPrompt, userPrompt, {
+        temperature: 0.5,
+        maxTokens: 8192,
+      });
+    } catch (err) {
+      throw new Error(`LLM call failed: ${err instanceof Error ? err.message : String(err)}`);
+    }
+
+    let translated: LocalizableSegment[];
+    try {
+      const cleaned = rawResponse.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
+      translated = JSON.parse(cleaned).segments;
+    } catch (err) {
+      throw new Error(
+        `Failed to parse LLM response as JSON: ${err instanceof Error ? err.message : String(err)}\nRaw response: ${rawResponse.substring(0, 500)}`
+      );
+    }
+
+    // Words from the translation, everything else from the source scene
+    const segments = scenes.map((scene) => {
+      const t = translated?.find((seg) => seg.segment_index === scene.segment_index);
+      if (!t?.script_text) {
+        throw new Error(`Translation is missing segment ${scene.segment_index}`);
+      }
+
+      const syllableCount = countTextSyllables(t.script_text, locale.language);
+      const target = getSectionTargets(scene.section, syllableTargets);
+      if (syllableCount < target.min - 10 || syllableCount > target.max + 10) {
+        this.log(
+          `[Validation] WARNING: Segment ${scene.segment_index + 1} "${scene.section}" has ${syllableCount} syllables (target: ${target.min}-${target.max})`
+        );
+      }
+
+      return {
+        section: scene.section,
+        script_text: t.script_text,
+        syllable_count: syllableCount,
+        energy_arc: scene.energy_arc,
+        shot_scripts: ((scene.shot_scripts || []) as ShotScript[]).map((shot, i) => ({ ...shot, text: t.shot_scripts?.[i] ?? shot.text })),
+        audio_sync: Object.fromEntries(
+          Object.entries((scene.audio_sync || {}) as Record<string, AudioSyncPeak>).map(([key, peak]) => [
+            key,
+            { ...peak, word: t.audio_sync_words?.[key] ?? peak.word },
+          ]),
+        ),
+        text_overlay: t.text_overlay || scene.text_overlay,
+        product_visibility: scene.product_visibility,
+        broll_cues: ((scene.broll_cues || []) as BrollCue[]).map((cue, i) => ({
+          ...cue,
+          spoken_text_during: t.broll_spoken?.[i] ?? cue.spoken_text_during,
+        })),
+        props_needed: scene.props_needed || [],
+        interaction_type: scene.interaction_type || null,
+        camera_specs: scene.camera_specs || null,
+        segment_score: scene.segment_score || null,
+      };
+    });
+
+    const version = await this.getNextVersion(projectId);
+    const tone = source.tone ?? proj.tone ?? DEFAULT_TONE;
+
+    const { data: savedScript, error: scriptError } = await this.supabase
+      .from('script')
+      .insert({
+        project_id: projectId,
+        version,
+        hook_score: source.hook_score,
+        hook_score_breakdown: source.hook_score_breakdown,
+        full_text: segments.map((seg) => seg.script_text).join('\n\n'),
+        tone,
+      })
+      .select()
+      .single();
+
+    if (scriptError || !savedScript) {
+      throw new Error(`Failed to save script: ${scriptError?.message}`);
+    }
+
+    const { error: sceneError } = await this.supabase
+      .from('scene')
+      .insert(segments.map((seg, idx) => ({ ...seg, script_id: savedScript.id, segment_index: scenes[idx].segment_index })));
+
+    if (sceneError) {
+      throw new Error(`Failed to save scenes: ${sceneError.message}`);
+    }
+
+    await this.trackCost(projectId, API_COSTS.wavespeedChat);
+
+    const totalSyllables = segments.reduce((sum, seg) => sum + seg.syllable_count, 0);
+    const durationMs = Date.now() - stageStart;
+    await this.logEvent(projectId, 'stage_complete', 'scripting', { durationMs, translatedFrom: source.id, locale: locale.id });
+    this.log(`Script v${version} translated to ${locale.id} (id=${savedScript.id}, syllables=${totalSyllables})`);
+
+    return {
+      scriptId: savedScript.id,
+      version,
+      hookScore: source.hook_score ?? 0,
+      totalSyllables,
+      segments: segments.map((seg, idx) => ({
+        id: idx + 1,
+        section: seg.section,
+        script_text: seg.script_text,
+        syllable_count: seg.syllable_count,
+        energy: seg.energy_arc,
+        shot_scripts: seg.shot_scripts,
+        audio_sync: seg.audio_sync as unknown as AudioSync,
+        text_overlay: seg.text_overlay,
+        key_moment: '',
+        broll_cues: seg.broll_cues,
+        props_needed: seg.props_needed,
+      })),
+    };
+  }
+
   // ─── Uploaded Script Analysis ─────────────────────────────────────────────
 
   async analyzeUploadedScript(projectId: string, rawText: string): Promise<ScriptResult> {
@@ -459,10 +728,7 @@ export class ScriptingAgent extends BaseAgent {
     this.log(`Using tone: ${tone}`);
 
     // Resolve per-section syllable targets (project overrides merged with defaults)
-    const syllableTargets: SyllableTargets = {
-      ...DEFAULT_SYLLABLE_TARGETS,
-      ...(proj.syllable_targets as Partial<SyllableTargets> || {}),
-    };
+    const { locale, syllableTargets } = resolvePacing(proj);
 
     const productData = proj.product_data as {
       product_name: string;
@@ -608,20 +874,21 @@ Split this script into 4 segments following the output format.`;
     }
 
     // 6. Validate and override syllable counts
-    this.validateAndFix(script, syllableTargets);
+    this.validateAndFix(script, syllableTargets, locale.language);
 
     // 7. Determine version
     const version = await this.getNextVersion(projectId);
 
     // 8. Save script row with source: 'uploaded'
     const fullText = script.segments.map((s) => s.script_text).join('\n\n');
+    const hook = await this.scoreHook(script.hook_score);
 
     const { data: savedScript, error: scriptError } = await this.supabase
       .from('script')
       .insert({
         project_id: projectId,
         version,
-        hook_score: script.hook_score.total,
+        ...hook,
         full_text: fullText,
         source: 'uploaded',
         tone,
@@ -662,12 +929,12 @@ Split this script into 4 segments following the output format.`;
     // 10. Track cost
     await this.trackCost(projectId, API_COSTS.wavespeedChat);
 
-    this.log(`Uploaded script analyzed v${version} (id=${savedScript.id}, hook_score=${script.hook_score.total}, syllables=${script.total_syllables})`);
+    this.log(`Uploaded script analyzed v${version} (id=${savedScript.id}, hook_score=${hook.hook_score}, syllables=${script.total_syllables})`);
 
     return {
       scriptId: savedScript.id,
       version,
-      hookScore: script.hook_score.total,
+      hookScore: hook.hook_score,
       totalSyllables: script.total_syllables,
       segments: script.segments,
     };
@@ -762,10 +1029,7 @@ Split this script into 4 segments following the output format.`;
     this.log(`Using tone: ${resolvedTone}`);
 
     // Resolve per-section syllable targets (project overrides merged with defaults)
-    const syllableTargets: SyllableTargets = {
-      ...DEFAULT_SYLLABLE_TARGETS,
-      ...(proj.syllable_targets as Partial<SyllableTargets> || {}),
-    };
+    const { locale, syllableTargets } = resolvePacing(proj);
 
     // 5. Get target scene
     const targetScene = scenes[segmentIndex];
@@ -780,7 +1044,7 @@ Split this script into 4 segments following the output format.`;
     const sectionTarget = getSectionTargets(sectionName, syllableTargets);
 
     // 7. Build system prompt
-    const systemPrompt = buildSystemPrompt(resolvedTone, syllableTargets);
+    const systemPrompt = buildSystemPrompt(resolvedTone, syllableTargets, locale);
 
     // 8. Build focused user prompt with surrounding context
     const sellingPointsList = productData.selling_points
@@ -894,7 +1158,7 @@ Include a "segment_score" object with the relevant criteria scores for this segm
     };
 
     // 11. Validate the segment: override syllable_count, check shot_scripts
-    const programmaticCount = countTextSyllables(segment.script_text);
+    const programmaticCount = countTextSyllables(segment.script_text, locale.language);
     if (programmaticCount !== segment.syllable_count) {
       this.log(
         `[Validation] Segment ${segment.id} "${segment.section}": LLM reported ${segment.syllable_count} syllables, programmatic count is ${programmaticCount}. Overriding.`
@@ -941,6 +1205,8 @@ Include a "segment_score" object with the relevant criteria scores for this segm
         segment_score: segment.segment_score || null,
         tone: resolvedTone,
         version: nextVersion,
+        origin: 'regenerated',
+        feedback: feedback || null,
       })
       .select()
       .single();
@@ -950,26 +1216,7 @@ Include a "segment_score" object with the relevant criteria scores for this segm
     }
 
     // 13. Recalculate script full_text from latest version of each segment
-    const { data: allScenes } = await this.supabase
-      .from('scene')
-      .select('segment_index, script_text, version')
-      .eq('script_id', scriptId)
-      .order('segment_index')
-      .order('version', { ascending: false });
-
-    if (allScenes) {
-      const latest = new Map<number, string>();
-      for (const s of allScenes) {
-        if (!latest.has(s.segment_index)) {
-          latest.set(s.segment_index, s.script_text);
-        }
-      }
-      const newFullText = Array.from(latest.entries())
-        .sort(([a], [b]) => a - b)
-        .map(([, text]) => text)
-        .join('\n\n');
-      await this.supabase.from('script').update({ full_text: newFullText }).eq('id', scriptId);
-    }
+    await this.refreshFullText(scriptId);
 
     // 14. If segment 1 (Hook) and hook_score provided, update script.hook_score
     if (segmentIndex === 0 && parsed.hook_score) {
@@ -983,14 +1230,14 @@ Include a "segment_score" object with the relevant criteria scores for this segm
         parsed.hook_score.emotional_trigger +
         parsed.hook_score.specific_claim;
 
-      const hookTotal = recalculated !== parsed.hook_score.total ? recalculated : parsed.hook_score.total;
+      const hook = await this.scoreHook({ ...parsed.hook_score, total: recalculated });
 
       await this.supabase
         .from('script')
-        .update({ hook_score: hookTotal })
+        .update(hook)
         .eq('id', scriptId);
 
-      this.log(`Updated hook_score to ${hookTotal}`);
+      this.log(`Updated hook_score to ${hook.hook_score}`);
     }
 
     // 15. Track cost
@@ -1001,44 +1248,431 @@ Include a "segment_score" object with the relevant criteria scores for this segm
     return { sceneId: newScene.id, segment };
   }
 
-  // ─── Template Selection ────────────────────────────────────────────────────
+  // ─── Hook Variants ──────────────────────────────────────────────────────────
+
+  /**
+   * Write one alternative Hook segment per sibling project for an A/B test. Each
+   * sibling gets a v1 script holding only segment 0 and its own hook_score
+   * breakdown; segments 1+ are copied from the parent later (see lib/variants.ts).
+   */
+  async writeHookVariants(
+    projectId: string,
+    scriptId: string,
+    variantProjectIds: string[],
+  ): Promise<HookVariantResult[]> {
+    const count = variantProjectIds.length;
+    if (count === 0) return [];
+    this.log(`Generating ${count} hook variant(s) for script ${scriptId}`);
+
+    // 1. Fetch script + latest version of each scene
+    const { data: scriptRecord, error: scriptError } = await this.supabase
+      .from('script')
+      .select('tone')
+      .eq('id', scriptId)
+      .single();
+
+    if (scriptError || !scriptRecord) {
+      throw new Error(`Script not found: ${scriptId}`);
+    }
 
-  private async selectTemplate(category: string): Promise<{
-    hook_type: string;
-    text_hook_template: string;
-    spoken_hook_template: string;
-    energy_arc: unknown;
-  } | null> {
-    // Find templates matching the product category, ordered by least-used (use_count ascending)
-    const { data: templates } = await this.supabase
-      .from('script_template')
+    const { data: allSceneRows, error: scenesError } = await this.supabase
+      .from('scene')
       .select('*')
-      .contains('categories', [category])
-      .order('use_count', { ascending: true, nullsFirst: true })
-      .limit(1);
+      .eq('script_id', scriptId)
+      .order('segment_index')
+      .order('version', { ascending: false });
 
-    if (!templates || templates.length === 0) {
-      this.log(`No script template found for category "${category}", generating from scratch`);
-      return null;
+    if (scenesError || !allSceneRows || allSceneRows.length === 0) {
+      throw new Error(`No scenes found for script ${scriptId}`);
+    }
+
+    const scenesMap = new Map<number, typeof allSceneRows[0]>();
+    for (const s of allSceneRows) {
+      if (!scenesMap.has(s.segment_index)) {
+        scenesMap.set(s.segment_index, s);
+      }
+    }
+    const scenes = Array.from(scenesMap.values()).sort((a, b) => a.segment_index - b.segment_index);
+    const currentHook = scenesMap.get(0);
+    if (!currentHook) {
+      throw new Error(`Script ${scriptId} has no hook segment`);
     }
 
-    const tmpl = templates[0];
-    this.log(`Selected template: "${tmpl.name}" (hook_type=${tmpl.hook_type})`);
+    // 2. Fetch project for product_data, tone and syllable targets
+    const { data: proj, error: projError } = await this.supabase
+      .from('project')
+      .select('product_data, tone, syllable_targets, locale')
+      .eq('id', projectId)
+      .single();
 
-    // Increment use_count
-    await this.supabase
-      .from('script_template')
-      .update({ use_count: (tmpl.use_count || 0) + 1 })
-      .eq('id', tmpl.id);
+    if (projError || !proj) {
+      throw new Error(`Project not found: ${projectId}`);
+    }
+
+    if (!proj.product_data) {
+      throw new Error(`Project ${projectId} has no product_data — run analysis first`);
+    }
+
+    const productData = proj.product_data as {
+      product_name: string;
+      category: string;
+      selling_points: string[];
+    };
+
+    const tone: ScriptTone = (scriptRecord.tone as ScriptTone) in SCRIPT_TONES
+      ? (scriptRecord.tone as ScriptTone)
+      : (proj.tone as ScriptTone) in SCRIPT_TONES
+        ? (proj.tone as ScriptTone)
+        : DEFAULT_TONE;
+
+    const { locale, syllableTargets } = resolvePacing(proj);
+
+    // 3. Build prompt: the current hook plus the untouched rest of the script
+    const sectionName = this.videoModel.section_names[0] ?? currentHook.section;
+    const sectionTarget = getSectionTargets(sectionName, syllableTargets);
+
+    const sellingPointsList = productData.selling_points
+      .map((p: string, i: number) => `${i + 1}. ${p}`)
+      .join('\n');
+
+    const restOfScript = scenes
+      .filter((s) => s.segment_index !== 0)
+      .map((s) => `Segment ${s.segment_index + 1} (${s.section}): ${s.script_text}`)
+      .join('\n\n');
+
+    const energyPattern = this.videoModel.energy_arc[0]
+      ? JSON.stringify(this.videoModel.energy_arc[0].pattern)
+      : '{ "start": "LOW", "middle": "PEAK", "end": "LOW" }';
+
+    const productVisibility = this.videoModel.product_placement_arc[0]?.visibility ?? 'none';
+
+    const userPrompt = `PRODUCT: ${productData.product_name}
+CATEGORY: ${productData.category}
+SELLING POINTS:
+${sellingPointsList}
+
+CURRENT HOOK — Segment 1 (${sectionName}): ${currentHook.script_text}
+
+REST OF THE SCRIPT (do NOT modify — every new hook must lead naturally into Segment 2):
+${restOfScript}
+
+WRITE ${count} ALTERNATIVE versions of Segment 1 (${sectionName}) for an A/B test.
+Each must use a different hook angle from the current hook and from each other (bold claim, question, confession, pattern interrupt, ...).
+Target: ${sectionTarget.min}-${sectionTarget.max} syllables, ${this.videoModel.shots_per_segment} shot_scripts.
+Energy pattern: ${energyPattern}
+Product visibility: ${productVisibility}
+
+COMPLIANCE RULES (every variant must pass):
+${compliancePromptBlock(productData.category, locale.disclosureTag)}
+
+OUTPUT: Return ONLY a JSON object with exactly ${count} entries in "variants":
+{
+  "variants": [
+    {
+      "hook_angle": "short label for the angle used",
+      "segment": {
+        "id": 1,
+        "section": "${sectionName}",
+        "script_text": "...",
+        "syllable_count": 85,
+        "energy": { "start": "...", "middle": "...", "end": "..." },
+        "shot_scripts": [{ "index": 0, "text": "...", "energy": "..." }],
+        "audio_sync": {
+          "shot_1_peak": { "word": "...", "time": "~3s", "action": "..." },
+          "shot_2_peak": { "word": "...", "time": "~8s", "action": "..." },
+          "shot_3_peak": { "word": "...", "time": "~13s", "action": "..." }
+        },
+        "segment_score": { "criterion_1": 2, "criterion_2": 1, "total": 3 },
+        "props_needed": ["..."],
+        "interaction_type": "...",
+        "camera_specs": { "angle": "...", "movement": "...", "lighting": "..." },
+        "text_overlay": "...",
+        "key_moment": "..."
+      },
+      "hook_score": { "curiosity_loop": 0, "challenges_belief": 0, "clear_context": 0, "plants_question": 0, "pattern_interrupt": 0, "emotional_trigger": 0, "specific_claim": 0, "total": 0 }
+    }
+  ]
+}`;
+
+    // 4. Call WaveSpeed LLM
+    this.log(`Calling WaveSpeed LLM for ${count} hook variant(s)...`);
+    let rawResponse: string;
+    try {
+      rawResponse = await this.wavespeed.chatCompletion(buildSystemPrompt(tone, syllableTargets, locale), userPrompt, {
+        temperature: 0.9,
+        maxTokens: 8192,
+      });
+    } catch (err) {
+      throw new Error(`LLM call failed: ${err instanceof Error ? err.message : String(err)}`);
+    }
+
+    // 5. Parse JSON response
+    let parsed: { variants?: Array<{ hook_angle?: string; segment: Segment; hook_score: HookScore }> };
+    try {
+      const cleaned = rawResponse.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
+      parsed = JSON.parse(cleaned);
+    } catch (err) {
+      throw new Error(
+        `Failed to parse LLM response as JSON: ${err instanceof Error ? err.message : String(err)}\nRaw response: ${rawResponse.substring(0, 500)}`
+      );
+    }
+
+    const variants = (parsed.variants || []).filter((v) => v?.segment?.script_text && v.hook_score);
+    if (variants.length < count) {
+      throw new Error(`LLM returned ${variants.length} usable hook variants, expected ${count}`);
+    }
+
+    await this.trackCost(projectId, API_COSTS.wavespeedChat);
+
+    // 6. Validate each variant and save it as its sibling's script
+    const results: HookVariantResult[] = [];
+    for (let i = 0; i < count; i++) {
+      const { segment, hook_score: hookScore, hook_angle: hookAngle } = variants[i];
+
+      const programmaticCount = countTextSyllables(segment.script_text, locale.language);
+      if (programmaticCount !== segment.syllable_count) {
+        this.log(
+          `[Validation] Hook variant ${i + 1}: LLM reported ${segment.syllable_count} syllables, programmatic count is ${programmaticCount}. Overriding.`
+        );
+        segment.syllable_count = programmaticCount;
+      }
+
+      const recalculated = sumHookScore(hookScore);
+      if (recalculated !== hookScore.total) {
+        this.log(
+          `[Validation] Hook variant ${i + 1} hook_score total mismatch: reported ${hookScore.total}, calculated ${recalculated}. Overriding.`
+        );
+        hookScore.total = recalculated;
+      }
+
+      const variantProjectId = variantProjectIds[i];
+      const hook = await this.scoreHook(hookScore);
+      const { data: savedScript, error: saveError } = await this.supabase
+        .from('script')
+        .insert({
+          project_id: variantProjectId,
+          version: 1,
+          ...hook,
+          full_text: segment.script_text,
+          tone,
+        })
+        .select()
+        .single();
+
+      if (saveError || !savedScript) {
+        throw new Error(`Failed to save hook variant script: ${saveError?.message}`);
+      }
+
+      const { error: sceneError } = await this.supabase
+        .from('scene')
+        .insert({
+          script_id: savedScript.id,
+          segment_index: 0,
+          section: currentHook.section,
+          script_text: segment.script_text,
+          syllable_count: segment.syllable_count,
+          energy_arc: segment.energy,
+          shot_scripts: segment.shot_scripts,
+          audio_sync: segment.audio_sync,
+          text_overlay: segment.text_overlay,
+          product_visibility: currentHook.product_visibility,
+          broll_cues: segment.broll_cues || [],
+          props_needed: segment.props_needed || [],
+          interaction_type: segment.interaction_type || null,
+          camera_specs: segment.camera_specs || null,
+          segment_score: segment.segment_score || null,
+          tone,
+        });
+
+      if (sceneError) {
+        throw new Error(`Failed to save hook variant scene: ${sceneError.message}`);
+      }
+
+      results.push({
+        projectId: variantProjectId,
+        scriptId: savedScript.id,
+        hookAngle: hookAngle ?? null,
+        hookScore: hook.hook_score,
+        segment,
+      });
+      this.log(`Hook variant ${i + 1} saved to project ${variantProjectId} (hook_score=${hook.hook_score})`);
+    }
+
+    return results;
+  }
+
+  /**
+   * Shorten one scene's voiceover line to roughly `targetSyllables` so it fits its
+   * segment when spoken. Only script_text changes — the new scene version keeps the
+   * shot scripts, overlay and camera specs of the scene it replaces.
+   */
+  async tightenSegment(
+    projectId: string,
+    sceneId: string,
+    targetSyllables: number,
+  ): Promise<{ sceneId: string; scriptText: string; syllableCount: number }> {
+    const { data: scene, error } = await this.supabase
+      .from('scene')
+      .select('*')
+      .eq('id', sceneId)
+      .single();
+
+    if (error || !scene) {
+      throw new Error(`Scene not found: ${sceneId}`);
+    }
+
+    const { data: proj } = await this.supabase
+      .from('project')
+      .select('locale')
+      .eq('id', projectId)
+      .single();
+    const { language, languageName } = getLocale(proj?.locale);
+
+    const currentSyllables = countTextSyllables(scene.script_text, language);
+    this.log(`Tightening segment ${scene.segment_index}: ${currentSyllables} -> ~${targetSyllables} syllables`);
+
+    const systemPrompt = `You edit spoken voiceover lines for short-form TikTok videos.
+Shorten the line you are given to the requested syllable count when read aloud.
+Keep the meaning, tone, product name, numbers and any call to action. Cut filler first, then merge or drop the weakest clause.
+Keep the line in ${languageName}.
+Return ONLY JSON: { "script_text": "..." }`;
+
+    const userPrompt = `LINE (${currentSyllables} syllables):
+${scene.script_text}
+
+TARGET: ${targetSyllables} syllables or fewer.`;
+
+    let rawResponse: string;
+    try {
+      rawResponse = await this.wavespeed.chatCompletion(systemPrompt, userPrompt, {
+        temperature: 0.4,
+        maxTokens: 1024,
+      });
+    } catch (err) {
+      throw new Error(`LLM call failed: ${err instanceof Error ? err.message : String(err)}`);
+    }
+    await this.trackCost(projectId, API_COSTS.wavespeedChat);
+
+    let tightened: string;
+    try {
+      const cleaned = rawResponse.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
+      tightened = String(JSON.parse(cleaned).script_text ?? '').trim();
+    } catch (err) {
+      throw new Error(
+        `Failed to parse LLM response as JSON: ${err instanceof Error ? err.message : String(err)}\nRaw response: ${rawResponse.substring(0, 500)}`
+      );
+    }
+
+    const syllableCount = countTextSyllables(tightened, language);
+    if (!tightened || syllableCount >= currentSyllables) {
+      throw new Error(`Tightened line is not shorter (${syllableCount} vs ${currentSyllables} syllables)`);
+    }
+
+    const { data: newScene } = await this.supabase
+      .from('scene')
+      .insert({
+        script_id: scene.script_id,
+        segment_index: scene.segment_index,
+        section: scene.section,
+        script_text: tightened,
+        syllable_count: syllableCount,
+        energy_arc: scene.energy_arc,
+        shot_scripts: scene.shot_scripts,
+        audio_sync: scene.audio_sync,
+        text_overlay: scene.text_overlay,
+        product_visibility: scene.product_visibility,
+        props_needed: scene.props_needed || [],
+        interaction_type: scene.interaction_type || null,
+        camera_specs: scene.camera_specs || null,
+        segment_score: scene.segment_score || null,
+        tone: scene.tone,
+        version: (scene.version ?? 1) + 1,
+        origin: 'tightened',
+      })
+      .select()
+      .single();
+
+    if (!newScene) {
+      throw new Error(`Failed to insert tightened scene for segment ${scene.segment_index}`);
+    }
+
+    await this.refreshFullText(scene.script_id);
+    this.log(`Segment ${scene.segment_index} tightened to ${syllableCount} syllables (scene=${newScene.id})`);
+
+    return { sceneId: newScene.id, scriptText: tightened, syllableCount };
+  }
+
+  /** Rebuild script.full_text from the latest version of each segment. */
+  private async refreshFullText(scriptId: string): Promise<void> {
+    const { data: allScenes } = await this.supabase
+      .from('scene')
+      .select('segment_index, script_text, version')
+      .eq('script_id', scriptId)
+      .order('segment_index')
+      .order('version', { ascending: false });
+
+    if (!allScenes) return;
+
+    const latest = new Map<number, string>();
+    for (const s of allScenes) {
+      if (!latest.has(s.segment_index)) {
+        latest.set(s.segment_index, s.script_text);
+      }
+    }
+    const newFullText = Array.from(latest.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([, text]) => text)
+      .join('\n\n');
+    await this.supabase.from('script').update({ full_text: newFullText }).eq('id', scriptId);
+  }
+
+  // ─── Hook Scoring ──────────────────────────────────────────────────────────
+
+  /**
+   * hook_score and hook_score_breakdown to store for a hook. With a hook
+   * calibration applied (src/lib/hook-calibration.ts) the score is the reweighted
+   * one and the breakdown keeps the plain sum as `total`; the minimum checked is
+   * then the calibration's, if it found one.
+   */
+  private async scoreHook(score: HookScore): Promise<{ hook_score: number; hook_score_breakdown: Record<string, unknown> }> {
+    const calibration = await getAppliedCalibration(this.supabase);
+    const total = calibration ? calibratedHookScore(score, calibration.weights) : score.total;
+    const minimum = calibration?.suggested_minimum ?? PIPELINE_CONFIG.hookScoreMinimum;
+
+    if (total < minimum) {
+      this.log(`[Validation] WARNING: Hook score ${total} is below minimum ${minimum}`);
+    }
 
     return {
-      hook_type: tmpl.hook_type,
-      text_hook_template: tmpl.text_hook_template,
-      spoken_hook_template: tmpl.spoken_hook_template,
-      energy_arc: tmpl.energy_arc,
+      hook_score: total,
+      hook_score_breakdown: calibration
+        ? { ...score, calibrated_total: total, calibration_id: calibration.id }
+        : { ...score },
     };
   }
 
+  // ─── Template Selection ────────────────────────────────────────────────────
+
+  /**
+   * Pick the script_template for this run from the library (src/lib/templates.ts)
+   * and record it on the project, so the run's performance counts toward it.
+   */
+  private async selectTemplate(projectId: string, category: string): Promise<ScriptTemplate | null> {
+    const template = await selectTemplateForCategory(this.supabase, category);
+
+    await this.supabase
+      .from('project')
+      .update({ script_template_id: template?.id ?? null })
+      .eq('id', projectId);
+
+    if (!template) {
+      this.log(`No script template found for category "${category}", generating from scratch`);
+      return null;
+    }
+    this.log(`Selected template: "${template.name}" (hook_type=${template.hook_type}${template.pinned ? ', pinned' : ''})`);
+    return template;
+  }
+
   // ─── User Prompt Builder ───────────────────────────────────────────────────
 
   private buildUserPrompt(
@@ -1048,12 +1682,7 @@ Include a "segment_score" object with the relevant criteria scores for this segm
       selling_points: string[];
       hook_angle: string;
     },
-    template: {
-      hook_type: string;
-      text_hook_template: string;
-      spoken_hook_template: string;
-      energy_arc: unknown;
-    } | null,
+    template: Pick<ScriptTemplate, 'hook_type' | 'text_hook_template' | 'spoken_hook_template' | 'energy_arc'> | null,
     videoUrl?: string | null,
     videoAnalysis?: any | null,
     stylePreset?: any | null,
@@ -1064,6 +1693,7 @@ Include a "segment_score" object with the relevant criteria scores for this segm
       transformation?: { before?: string; after?: string };
       hook_angle?: string;
     } | null,
+    locale: ProjectLocale = getLocale(null),
   ): string {
     const sellingPointsList = productData.selling_points
       .map((p: string, i: number) => `${i + 1}. ${p}`)
@@ -1077,6 +1707,9 @@ SELLING POINTS:
 ${sellingPointsList}
 HOOK ANGLE: ${productData.hook_angle}`);
 
+    parts.push(`COMPLIANCE RULES:
+${compliancePromptBlock(productData.category, locale.disclosureTag)}`);
+
     if (concept) {
       parts.push(`\nTARGET PERSONA:
 Demographics: ${concept.persona?.demographics || 'N/A'}
@@ -1099,9 +1732,9 @@ STRATEGIC HOOK ANGLE: ${concept.hook_angle || productData.hook_angle}`);
 
     if (template) {
       parts.push(`USE THIS HOOK PATTERN:
-Type: ${template.hook_type}
-Text Template: ${template.text_hook_template}
-Spoken Template: ${template.spoken_hook_template}
+Type: ${template.hook_type || 'N/A'}
+Text Template: ${template.text_hook_template || 'N/A'}
+Spoken Template: ${template.spoken_hook_template || 'N/A'}
 Energy Arc: ${JSON.stringify(template.energy_arc)}`);
     }
 
@@ -1173,7 +1806,11 @@ Adapt the CONTENT for the current product while preserving the reference's prove
 
   // ─── Validation ────────────────────────────────────────────────────────────
 
-  private validateAndFix(script: ScriptResponse, syllableTargets: SyllableTargets = DEFAULT_SYLLABLE_TARGETS): void {
+  private validateAndFix(
+    script: ScriptResponse,
+    syllableTargets: SyllableTargets = DEFAULT_SYLLABLE_TARGETS,
+    language: LanguageCode = 'en',
+  ): void {
     let totalSyllables = 0;
 
     for (const seg of script.segments) {
@@ -1183,7 +1820,7 @@ Adapt the CONTENT for the current product while preserving the reference's prove
       const warnMax = sectionTarget.max + 10;
 
       // Override LLM's syllable count with programmatic count
-      const programmaticCount = countTextSyllables(seg.script_text);
+      const programmaticCount = countTextSyllables(seg.script_text, language);
       if (programmaticCount !== seg.syllable_count) {
         this.log(
           `[Validation] Segment ${seg.id} "${seg.section}": LLM reported ${seg.syllable_count} syllables, programmatic count is ${programmaticCount}. Overriding.`
@@ -1231,13 +1868,6 @@ Adapt the CONTENT for the current product while preserving the reference's prove
       );
     }
 
-    // Validate hook score (>= 10)
-    if (script.hook_score.total < PIPELINE_CONFIG.hookScoreMinimum) {
-      this.log(
-        `[Validation] WARNING: Hook score ${script.hook_score.total} is below minimum ${PIPELINE_CONFIG.hookScoreMinimum}`
-      );
-    }
-
     // Recalculate hook total from components
     const recalculated =
       script.hook_score.curiosity_loop +
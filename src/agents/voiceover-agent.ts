@@ -1,10 +1,63 @@
 import { SupabaseClient } from '@supabase/supabase-js';
 import { BaseAgent } from './base-agent';
-import { ElevenLabsClient } from '@/lib/api-clients/elevenlabs';
-import { API_COSTS } from '@/lib/constants';
+import { ScriptingAgent } from './scripting-agent';
+import { ElevenLabsClient, TTS_SPEED_RANGE, type TimedSpeech } from '@/lib/api-clients/elevenlabs';
+import { API_COSTS, getLocale, type LanguageCode } from '@/lib/constants';
+import { alignmentToWords, type CaptionTrackData } from '@/lib/captions';
+import { analyzeAudio, trimTrailingSilence, type AudioInfo } from '@/lib/audio-analysis';
+import { timeStretchMp3 } from '@/lib/ffmpeg';
+import { countTextSyllables } from '@/lib/syllables';
 
-// ElevenLabs returns ~128kbps MP3 audio. Bytes per second = 128000 / 8 = 16000.
-const ELEVENLABS_BYTES_PER_SECOND = 128000 / 8;
+/** Audio shorter than this fraction of segment_duration leaves dead air at the segment end. */
+const MIN_DURATION_RATIO = 0.8;
+
+/** Corrections aim slightly under segment_duration so the voice never gets clipped. */
+const FIT_TARGET_RATIO = 0.95;
+
+/** Speed changes smaller than this aren't worth another TTS call. */
+const MIN_SPEED_ADJUSTMENT = 0.03;
+
+/** TTS calls allowed per segment after the first take, across speed and script changes. */
+const MAX_FIT_RETRIES = 3;
+
+/** atempo factors beyond this range start to sound processed. */
+const LOCAL_STRETCH_RANGE = { min: 0.85, max: 1.15 };
+
+type FitAction = 'synthesize' | 'resynthesize' | 'tighten_script' | 'time_stretch';
+
+interface SpeechTake {
+  audio: Buffer;
+  info: AudioInfo;
+  captions: CaptionTrackData | null;
+}
+
+/** The scene line being voiced — a newer scene version once the line is tightened. */
+interface SpokenLine {
+  sceneId: string;
+  segmentIndex: number;
+  text: string;
+}
+
+interface FittedSpeech extends SpeechTake {
+  line: SpokenLine;
+  /** Total spend for the segment across all attempts */
+  costUsd: number;
+}
+
+function toCaptions(speech: TimedSpeech): CaptionTrackData | null {
+  return speech.alignment
+    ? { source: 'elevenlabs_alignment', words: alignmentToWords(speech.alignment) }
+    : null;
+}
+
+function scaleCaptions(captions: CaptionTrackData | null, factor: number): CaptionTrackData | null {
+  if (!captions) return null;
+  const round = (s: number) => Math.round(s * factor * 1000) / 1000;
+  return {
+    ...captions,
+    words: captions.words.map((w) => ({ ...w, start: round(w.start), end: round(w.end) })),
+  };
+}
 
 export class VoiceoverAgent extends BaseAgent {
   private elevenlabs: ElevenLabsClient;
@@ -27,6 +80,7 @@ export class VoiceoverAgent extends BaseAgent {
       .single();
 
     if (projError || !project) throw new Error('Project not found');
+    const { language } = getLocale(project.locale);
 
     // 2. Resolve voice_id: influencer voice (designed) -> character voice (legacy fallback)
     let voiceId = project?.influencer?.voice_id;
@@ -68,27 +122,52 @@ export class VoiceoverAgent extends BaseAgent {
     // 4. Generate TTS for each segment (with per-segment error recovery)
     let segmentsCompleted = 0;
     for (let segIdx = 0; segIdx < this.videoModel.segment_count; segIdx++) {
+      if (!this.includesSegment(segIdx)) continue;
       const scene = latestScenes.get(segIdx);
       if (!scene?.script_text?.trim()) {
         this.log(`Scene or script_text for segment ${segIdx} not found, skipping`);
         continue;
       }
 
+      // TTS is synchronous, so the only checkpoint is a finished audio asset; a
+      // resumed run keeps the segments the interrupted run already voiced
+      if (this.resuming) {
+        const { data: existingAudio } = await this.supabase
+          .from('asset')
+          .select('id')
+          .eq('scene_id', scene.id)
+          .eq('type', 'audio')
+          .eq('status', 'completed')
+          .limit(1);
+        if (existingAudio && existingAudio.length > 0) {
+          this.log(`Segment ${segIdx} already voiced (${existingAudio[0].id}), skipping`);
+          segmentsCompleted++;
+          continue;
+        }
+      }
+
       try {
         this.log(`Generating TTS for segment ${segIdx} (${scene.script_text.length} chars)`);
 
-        // Generate audio
-        const audioBuffer = await this.elevenlabs.textToSpeech(voiceId, scene.script_text);
+        // Generate audio with character timings, then correct its length if needed
+        const fitted = await this.fitToSegment(
+          projectId,
+          voiceId,
+          { sceneId: scene.id, segmentIndex: segIdx, text: scene.script_text },
+          segmentDuration,
+          language,
+        );
+        const { audio: audioBuffer, info, captions, costUsd } = fitted;
+        const sceneId = fitted.line.sceneId;
 
-        // B0.21: Measure actual audio duration from MP3 buffer (128kbps)
-        const durationSeconds = audioBuffer.length / ELEVENLABS_BYTES_PER_SECOND;
-        const durationMs = Math.round(durationSeconds * 1000);
+        const durationMs = info.durationMs;
+        const durationSeconds = durationMs / 1000;
         const durationRatio = durationSeconds / segmentDuration;
 
         this.log(`Audio for segment ${segIdx}: ${durationSeconds.toFixed(2)}s (${(durationRatio * 100).toFixed(0)}% of ${segmentDuration}s target), ${(audioBuffer.length / 1024).toFixed(1)}KB`);
 
-        // B0.21: Warn if duration is outside 80%-100% of segment_duration
-        if (durationRatio < 0.80) {
+        // B0.21: Warn if duration is still outside 80%-100% of segment_duration after correction
+        if (durationRatio < MIN_DURATION_RATIO) {
           const detail = {
             segmentIndex: segIdx,
             durationSeconds: parseFloat(durationSeconds.toFixed(2)),
@@ -146,16 +225,13 @@ export class VoiceoverAgent extends BaseAgent {
           // Create failed asset instead of storing a data URI
           await this.supabase.from('asset').insert({
             project_id: projectId,
-            scene_id: scene.id,
+            scene_id: sceneId,
             type: 'audio',
             provider: 'elevenlabs',
             status: 'failed',
-            cost_usd: API_COSTS.elevenLabsTts,
+            cost_usd: costUsd,
             metadata: { error: `Storage upload failed: ${uploadError.message}`, durationMs },
           });
-
-          // Still track cost since the TTS API call was made
-          await this.trackCost(projectId, API_COSTS.elevenLabsTts);
           continue;
         }
 
@@ -164,19 +240,22 @@ export class VoiceoverAgent extends BaseAgent {
           .from('assets')
           .getPublicUrl(fileName);
 
-        // B0.21: Store measured duration in asset.metadata.durationMs
+        // B0.21: Store measured duration in asset.metadata.durationMs (+ caption word timings)
         await this.supabase.from('asset').insert({
           project_id: projectId,
-          scene_id: scene.id,
+          scene_id: sceneId,
           type: 'audio',
           provider: 'elevenlabs',
           status: 'completed',
           url: urlData.publicUrl,
-          cost_usd: API_COSTS.elevenLabsTts,
-          metadata: { durationMs },
+          cost_usd: costUsd,
+          metadata: {
+            durationMs,
+            sampleRate: info.sampleRate,
+            silences: info.silences,
+            ...(captions ? { captions } : {}),
+          },
         });
-
-        await this.trackCost(projectId, API_COSTS.elevenLabsTts);
         segmentsCompleted++;
         this.log(`TTS complete for segment ${segIdx}`);
       } catch (error) {
@@ -206,4 +285,137 @@ export class VoiceoverAgent extends BaseAgent {
     await this.logEvent(projectId, 'stage_complete', 'voiceover', { durationMs });
     this.log(`Voiceover complete for project ${projectId}`);
   }
+
+  /**
+   * Synthesize a segment and fit it to 80%-100% of segmentDuration, measured from
+   * the audio frames. Each take loses trailing silence if it runs long. While it
+   * still doesn't fit, the segment is re-synthesized at a speaking rate scaled from
+   * its speech duration; once the rate is pinned at ElevenLabs' limit, ScriptingAgent
+   * tightens the line (once) instead. Retries are capped at MAX_FIT_RETRIES, then a
+   * small local time-stretch covers what is left. Every attempt and its cost is
+   * logged as an audio_fit_attempt event.
+   */
+  private async fitToSegment(
+    projectId: string,
+    voiceId: string,
+    initialLine: SpokenLine,
+    segmentDuration: number,
+    language: LanguageCode,
+  ): Promise<FittedSpeech> {
+    const segIdx = initialLine.segmentIndex;
+    const maxMs = segmentDuration * 1000;
+    const minMs = maxMs * MIN_DURATION_RATIO;
+    const targetMs = maxMs * FIT_TARGET_RATIO;
+    const fits = (t: SpeechTake) => t.info.durationMs >= minMs && t.info.durationMs <= maxMs;
+
+    let line = initialLine;
+    let speed = 1;
+    let costUsd = 0;
+    let attempt = 0;
+    let tightened = false;
+
+    const synthesize = async (): Promise<SpeechTake> => {
+      const speech = await this.withProvider('elevenlabs', () => this.elevenlabs.textToSpeechWithTimestamps(
+        voiceId,
+        line.text,
+        { speed: speed === 1 ? undefined : speed, languageCode: language },
+      ));
+      await this.trackCost(projectId, API_COSTS.elevenLabsTts);
+      costUsd += API_COSTS.elevenLabsTts;
+
+      let audio = speech.audio;
+      let info = analyzeAudio(audio);
+      // Trailing silence is free to drop — always try that before anything else
+      if (info.durationMs > maxMs) {
+        const trimmed = trimTrailingSilence(audio, info);
+        if (trimmed !== audio) {
+          audio = trimmed;
+          info = analyzeAudio(trimmed);
+        }
+      }
+      return { audio, info, captions: toCaptions(speech) };
+    };
+
+    const logAttempt = async (action: FitAction, before: number | null, take: SpeechTake, cost: number) => {
+      await this.logEvent(projectId, 'audio_fit_attempt', 'voiceover', {
+        segmentIndex: segIdx,
+        attempt,
+        action,
+        speed,
+        syllableCount: countTextSyllables(line.text, language),
+        beforeMs: before,
+        afterMs: take.info.durationMs,
+        segmentDuration,
+        fits: fits(take),
+        costUsd: cost,
+      });
+    };
+
+    let take = await synthesize();
+    await logAttempt('synthesize', null, take, API_COSTS.elevenLabsTts);
+
+    while (!fits(take) && attempt < MAX_FIT_RETRIES) {
+      const speechMs = take.info.speechDurationMs || take.info.durationMs;
+      const nextSpeed = parseFloat(
+        Math.min(TTS_SPEED_RANGE.max, Math.max(TTS_SPEED_RANGE.min, speed * (speechMs / targetMs))).toFixed(2),
+      );
+
+      let action: FitAction;
+      let attemptCost = API_COSTS.elevenLabsTts;
+      if (Math.abs(nextSpeed - speed) >= MIN_SPEED_ADJUSTMENT) {
+        speed = nextSpeed;
+        action = 'resynthesize';
+      } else if (take.info.durationMs > maxMs && !tightened) {
+        // Speaking rate is pinned at the limit — cut syllables instead
+        const targetSyllables = Math.floor(countTextSyllables(line.text, language) * (targetMs / speechMs));
+        tightened = true;
+        try {
+          const scripting = new ScriptingAgent(this.supabase);
+          if (this.correlationId) scripting.setCorrelationId(this.correlationId);
+          const result = await scripting.tightenSegment(projectId, line.sceneId, targetSyllables);
+          line = { ...line, sceneId: result.sceneId, text: result.scriptText };
+        } catch (error) {
+          const errMsg = error instanceof Error ? error.message : String(error);
+          this.log(`Could not tighten segment ${segIdx}: ${errMsg}`);
+          await this.logEvent(projectId, 'segment_error', 'voiceover', {
+            segmentIndex: segIdx,
+            error: errMsg,
+            issue: 'script_tighten_failed',
+          });
+          break;
+        }
+        costUsd += API_COSTS.wavespeedChat;
+        attemptCost += API_COSTS.wavespeedChat;
+        action = 'tighten_script';
+      } else {
+        break;
+      }
+
+      attempt++;
+      const before = take.info.durationMs;
+      this.log(`Fitting segment ${segIdx} (attempt ${attempt}): ${action} at speed ${speed} (${before}ms vs ${maxMs}ms)`);
+      take = await synthesize();
+      await logAttempt(action, before, take, attemptCost);
+    }
+
+    if (!fits(take)) {
+      const tempo = take.info.durationMs / targetMs;
+      if (tempo >= LOCAL_STRETCH_RANGE.min && tempo <= LOCAL_STRETCH_RANGE.max && take.info.format === 'mp3') {
+        const before = take.info.durationMs;
+        try {
+          const audio = await timeStretchMp3(take.audio, tempo);
+          take = {
+            audio,
+            info: analyzeAudio(audio),
+            captions: scaleCaptions(take.captions, 1 / tempo),
+          };
+          await logAttempt('time_stretch', before, take, 0);
+        } catch (error) {
+          this.log(`Local time-stretch failed for segment ${segIdx}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+    }
+
+    return { ...take, line, costUsd };
+  }
 }
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { supabase } from '@/db';
+import { setCalibrationApplied } from '@/lib/hook-calibration';
+import { logger } from '@/lib/logger';
+
+const patchCalibrationSchema = z.object({
+  applied: z.boolean(),
+});
+
+/**
+ * PATCH /api/analytics/hook-calibration/[id]
+ *
+ * Body: { applied: boolean }
+ *
+ * Applies the calibration — ScriptingAgent then reports and gates on the
+ * reweighted hook score — or stops applying it. Applying one un-applies any
+ * other. Existing scripts keep the score they were saved with.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const parsed = patchCalibrationSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const calibration = await setCalibrationApplied(supabase, id, parsed.data.applied);
+    if (!calibration) {
+      return NextResponse.json({ error: 'Hook calibration not found' }, { status: 404 });
+    }
+
+    logger.info({ calibrationId: id, applied: calibration.applied, route: '/api/analytics/hook-calibration/[id]' }, 'Hook calibration updated');
+    return NextResponse.json({ calibration });
+  } catch (err) {
+    logger.error({ err, route: '/api/analytics/hook-calibration/[id]' }, 'Error updating hook calibration');
+    return NextResponse.json({ error: 'Failed to update hook calibration' }, { status: 500 });
+  }
+}
@@ -0,0 +1,61 @@
+import { NextResponse } from 'next/server';
+import { supabase } from '@/db';
+import { PIPELINE_CONFIG } from '@/lib/constants';
+import { MIN_CALIBRATION_SAMPLES, runHookCalibration } from '@/lib/hook-calibration';
+import { logger } from '@/lib/logger';
+
+/**
+ * GET /api/analytics/hook-calibration
+ *
+ * Returns the most recent hook calibrations, newest first, with which one (if
+ * any) ScriptingAgent is scoring with, plus the uncalibrated minimum for
+ * comparison.
+ */
+export async function GET() {
+  try {
+    const { data, error } = await supabase
+      .from('hook_calibration')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(10);
+
+    if (error) {
+      logger.error({ err: error, route: '/api/analytics/hook-calibration' }, 'Error fetching hook calibrations');
+      return NextResponse.json({ error: 'Failed to fetch hook calibrations' }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      calibrations: data || [],
+      appliedId: (data || []).find((c) => c.applied)?.id ?? null,
+      defaultMinimum: PIPELINE_CONFIG.hookScoreMinimum,
+      minSamples: MIN_CALIBRATION_SAMPLES,
+    });
+  } catch (err) {
+    logger.error({ err, route: '/api/analytics/hook-calibration' }, 'Error fetching hook calibrations');
+    return NextResponse.json({ error: 'Failed to fetch hook calibrations' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/analytics/hook-calibration
+ *
+ * Fits a new calibration now instead of waiting for the weekly hook_calibration
+ * job. 409 when fewer than MIN_CALIBRATION_SAMPLES posted runs have metrics.
+ */
+export async function POST() {
+  try {
+    const { calibration, sampleSize } = await runHookCalibration(supabase);
+
+    if (!calibration) {
+      return NextResponse.json(
+        { error: `Need at least ${MIN_CALIBRATION_SAMPLES} posted runs with TikTok metrics to calibrate, found ${sampleSize}` },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ calibration }, { status: 201 });
+  } catch (err) {
+    logger.error({ err, route: '/api/analytics/hook-calibration' }, 'Error running hook calibration');
+    return NextResponse.json({ error: 'Failed to run hook calibration' }, { status: 500 });
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabase } from '@/db';
+import { logger } from '@/lib/logger';
+import { summarizeBatch } from '@/lib/batches';
+
+/**
+ * GET /api/batches/[id]
+ *
+ * Returns the batch, its projects and aggregate progress and cost.
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const { data: batch, error } = await supabase
+      .from('batch')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error || !batch) {
+      return NextResponse.json({ error: 'Batch not found' }, { status: 404 });
+    }
+
+    const { data: projects, error: projectsError } = await supabase
+      .from('project')
+      .select('id, project_number, name, product_name, product_url, tone, status, cost_usd, error_message, created_at, updated_at')
+      .eq('batch_id', id)
+      .order('created_at');
+
+    if (projectsError) {
+      logger.error({ err: projectsError, route: '/api/batches/[id]' }, 'Error fetching batch projects');
+      return NextResponse.json({ error: 'Failed to fetch batch' }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      batch,
+      projects: projects || [],
+      summary: summarizeBatch(projects || []),
+    });
+  } catch (err) {
+    logger.error({ err, route: '/api/batches/[id]' }, 'Error fetching batch');
+    return NextResponse.json({ error: 'Failed to fetch batch' }, { status: 500 });
+  }
+}
@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { supabase } from '@/db';
+import { logger } from '@/lib/logger';
+import { createProject, createProjectSchema } from '@/lib/projects';
+import { normalizeManifestRows, parseManifest, summarizeBatch, type FailedBatchRow, type ManifestRow } from '@/lib/batches';
+import { ManifestParseError, ProjectCreationError } from '@/lib/errors';
+
+const createBatchSchema = z.object({
+  name: z.string().trim().optional(),
+  budgetUsd: z.coerce.number().positive().optional(),
+  manifest: z.string().optional(),
+  rows: z.array(z.record(z.string(), z.unknown())).optional(),
+}).refine(
+  (data) => data.manifest || data.rows,
+  { message: 'Either manifest (CSV/JSON text) or rows is required' }
+);
+
+/**
+ * GET /api/batches
+ *
+ * Returns batches, newest first, each with an aggregate summary of its projects.
+ */
+export async function GET() {
+  try {
+    const { data, error } = await supabase
+      .from('batch')
+      .select('*, projects:project(status, cost_usd)')
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      logger.error({ err: error, route: '/api/batches' }, 'Error listing batches');
+      return NextResponse.json({ error: 'Failed to list batches' }, { status: 500 });
+    }
+
+    const batches = (data || []).map(({ projects, ...batch }) => ({
+      ...batch,
+      summary: summarizeBatch(projects ?? []),
+    }));
+
+    return NextResponse.json({ batches });
+  } catch (err) {
+    logger.error({ err, route: '/api/batches' }, 'Error listing batches');
+    return NextResponse.json({ error: 'Failed to list batches' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/batches
+ *
+ * Creates one project per manifest row, grouped under a new batch.
+ * Body: { name?, budgetUsd?, manifest?: CSV or JSON text, rows?: object[] }
+ *
+ * Every row is validated against the POST /api/projects schema first; if any
+ * row is invalid nothing is created and the per-row errors are returned.
+ * Rows that validate but fail to create are recorded on batch.failed_rows.
+ * budgetUsd caps the combined spend of every project in the batch.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const parsed = createBatchSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    let rows: ManifestRow[];
+    try {
+      rows = parsed.data.manifest
+        ? parseManifest(parsed.data.manifest)
+        : normalizeManifestRows(parsed.data.rows!);
+    } catch (err) {
+      if (err instanceof ManifestParseError) {
+        return NextResponse.json({ error: err.message }, { status: 400 });
+      }
+      throw err;
+    }
+
+    const validated = rows.map((row) => createProjectSchema.safeParse(row));
+    const rowErrors = validated.flatMap((result, i) =>
+      result.success ? [] : [{ row: i + 1, details: result.error.flatten() }]
+    );
+    if (rowErrors.length > 0) {
+      return NextResponse.json(
+        { error: `${rowErrors.length} of ${rows.length} rows failed validation`, rowErrors },
+        { status: 400 }
+      );
+    }
+
+    const { data: batch, error: batchError } = await supabase
+      .from('batch')
+      .insert({ name: parsed.data.name || null, row_count: rows.length, budget_usd: parsed.data.budgetUsd ?? null })
+      .select()
+      .single();
+
+    if (batchError || !batch) {
+      logger.error({ err: batchError, route: '/api/batches' }, 'Error creating batch');
+      return NextResponse.json({ error: 'Failed to create batch' }, { status: 500 });
+    }
+
+    const projectIds: string[] = [];
+    const failedRows: FailedBatchRow[] = [];
+
+    for (let i = 0; i < validated.length; i++) {
+      const result = validated[i];
+      if (!result.success) continue;
+      try {
+        const project = await createProject(supabase, { ...result.data, batchId: batch.id });
+        projectIds.push(project.id);
+      } catch (err) {
+        if (!(err instanceof ProjectCreationError)) {
+          logger.error({ err, route: '/api/batches', batchId: batch.id, row: i + 1 }, 'Error creating batch project');
+        }
+        failedRows.push({ row: i + 1, error: err instanceof Error ? err.message : String(err) });
+      }
+    }
+
+    if (failedRows.length > 0) {
+      await supabase
+        .from('batch')
+        .update({ failed_rows: failedRows, updated_at: new Date().toISOString() })
+        .eq('id', batch.id);
+    }
+
+    logger.info({ batchId: batch.id, created: projectIds.length, failed: failedRows.length }, 'Batch created');
+
+    return NextResponse.json(
+      { batch: { ...batch, failed_rows: failedRows }, projectIds, failedRows },
+      { status: 201 }
+    );
+  } catch (err) {
+    logger.error({ err, route: '/api/batches' }, 'Error creating batch');
+    return NextResponse.json({ error: 'Failed to create batch' }, { status: 500 });
+  }
+}
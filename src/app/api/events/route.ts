@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabase } from '@/db';
+import { logger } from '@/lib/logger';
+import { createPipelineEventStream } from '@/lib/event-stream';
+import type { ProjectSnapshot } from '@/lib/events';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/events
+ *
+ * Server-sent events for every project. Sends a `snapshot` event with the
+ * status and cost of each project still in the pipeline, then `status`, `cost`, `asset`
+ * and `log` events across all projects as they happen.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { data: projects, error } = await supabase
+      .from('project')
+      .select('id, status, cost_usd')
+      .neq('status', 'completed');
+
+    if (error) {
+      logger.error({ err: error, route: '/api/events' }, 'Error opening event stream');
+      return NextResponse.json({ error: 'Failed to open event stream' }, { status: 500 });
+    }
+
+    const snapshots = new Map<string, ProjectSnapshot>(
+      (projects || []).map((p) => [p.id, { status: p.status, costUsd: parseFloat(p.cost_usd || '0') }])
+    );
+
+    return createPipelineEventStream(request, null, {
+      projects: Object.fromEntries(snapshots),
+      at: new Date().toISOString(),
+    }, snapshots);
+  } catch (err) {
+    logger.error({ err, route: '/api/events' }, 'Error opening event stream');
+    return NextResponse.json({ error: 'Failed to open event stream' }, { status: 500 });
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabase } from '@/db';
+import { logger } from '@/lib/logger';
+import { failureClassInfo } from '@/lib/failures';
+
+/**
+ * GET /api/failures/[id]
+ *
+ * One dead letter with its job payload, stack trace and the generation_log rows
+ * captured when it failed.
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const { data: deadLetter, error } = await supabase
+      .from('dead_letter')
+      .select('*, project:project(id, name, status, failed_at_status)')
+      .eq('id', id)
+      .single();
+
+    if (error || !deadLetter) {
+      return NextResponse.json({ error: 'Failure not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      ...deadLetter,
+      classInfo: failureClassInfo(deadLetter.failure_class),
+    });
+  } catch (err) {
+    logger.error({ err, route: '/api/failures/[id]' }, 'Error fetching dead letter');
+    return NextResponse.json({ error: 'Failed to fetch failure' }, { status: 500 });
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { supabase } from '@/db';
+import { logger } from '@/lib/logger';
+import { runDeadLetterAction } from '@/lib/recovery';
+
+const actionSchema = z.object({
+  action: z.enum(['retry', 'rollback', 'dismiss']),
+  ids: z.array(z.string().uuid()).optional(),
+  failureClass: z.string().optional(),
+  overrideBudget: z.boolean().optional(),
+}).refine(
+  (data) => data.ids?.length || data.failureClass,
+  { message: 'Either ids or failureClass is required' }
+);
+
+/**
+ * POST /api/failures/actions
+ *
+ * Bulk retry, rollback or dismiss of open dead letters, picked by `ids` or by
+ * `failureClass` (every open one in the class). { overrideBudget: true } lifts
+ * the budget cap on retried projects. Returns a result per dead letter; ones
+ * that could not be acted on (project no longer failed, etc.) carry an error.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = actionSchema.safeParse(await request.json().catch(() => ({})));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+    const { action, failureClass, overrideBudget } = parsed.data;
+
+    let ids = parsed.data.ids ?? [];
+    if (failureClass) {
+      const { data, error } = await supabase
+        .from('dead_letter')
+        .select('id')
+        .eq('failure_class', failureClass)
+        .eq('status', 'open');
+      if (error) throw error;
+      ids = [...new Set([...ids, ...(data || []).map((row) => row.id as string)])];
+    }
+
+    if (ids.length === 0) {
+      return NextResponse.json({ results: [], succeeded: 0, skipped: 0 });
+    }
+
+    const results = await runDeadLetterAction(supabase, ids, action, { overrideBudget });
+    const succeeded = results.filter((r) => r.ok).length;
+
+    logger.info(
+      { action, failureClass, succeeded, skipped: results.length - succeeded, route: '/api/failures/actions' },
+      'Dead letter bulk action applied'
+    );
+
+    return NextResponse.json({ results, succeeded, skipped: results.length - succeeded });
+  } catch (err) {
+    logger.error({ err, route: '/api/failures/actions' }, 'Error applying dead letter action');
+    return NextResponse.json({ error: 'Failed to apply action' }, { status: 500 });
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabase } from '@/db';
+import { logger } from '@/lib/logger';
+import { groupFailures, type DeadLetterSummary } from '@/lib/failures';
+
+/** Most dead letters one listing returns (newest first). */
+const LIST_LIMIT = 500;
+
+const STATUSES = ['open', 'retried', 'rolled_back', 'dismissed'];
+
+/**
+ * GET /api/failures?status=open
+ *
+ * Dead letters grouped by failure class, largest group first. `status` is one of
+ * open (default), retried, rolled_back, dismissed or all.
+ */
+export async function GET(request: NextRequest) {
+  const status = request.nextUrl.searchParams.get('status') || 'open';
+  if (status !== 'all' && !STATUSES.includes(status)) {
+    return NextResponse.json(
+      { error: `Invalid status '${status}'. Valid: ${[...STATUSES, 'all'].join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    let query = supabase
+      .from('dead_letter')
+      .select('id, job_id, step, stage, project_id, subject_id, failure_class, error_message, attempts, status, created_at, project:project(id, name, status)')
+      .order('created_at', { ascending: false })
+      .limit(LIST_LIMIT);
+    if (status !== 'all') query = query.eq('status', status);
+
+    const { data, error } = await query;
+    if (error) {
+      logger.error({ err: error, route: '/api/failures' }, 'Error listing dead letters');
+      return NextResponse.json({ error: 'Failed to list failures' }, { status: 500 });
+    }
+
+    const items = (data || []) as unknown as DeadLetterSummary[];
+    return NextResponse.json({ total: items.length, groups: groupFailures(items) });
+  } catch (err) {
+    logger.error({ err, route: '/api/failures' }, 'Error listing dead letters');
+    return NextResponse.json({ error: 'Failed to list failures' }, { status: 500 });
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { logger } from '@/lib/logger';
+import { anyMockEnabled } from '@/lib/mock-providers';
+import {
+  MOCK_ASSET_EXTENSIONS,
+  clampClipSeconds,
+  placeholderPng,
+  silentMp3,
+  testPatternMp4,
+  type MockAssetKind,
+} from '@/lib/mock-providers/media';
+
+const CONTENT_TYPES: Record<MockAssetKind, string> = {
+  image: 'image/png',
+  video: 'video/mp4',
+  audio: 'audio/mpeg',
+};
+
+function isMockAssetKind(value: string): value is MockAssetKind {
+  return value in MOCK_ASSET_EXTENSIONS;
+}
+
+/**
+ * GET /api/mock-assets/[kind]/[name]?duration=<seconds>
+ * Fixture files behind the URLs mock providers return: a placeholder PNG, a
+ * test-pattern MP4 or a silent MP3. Only served while MOCK_PROVIDERS is set.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ kind: string; name: string }> }
+) {
+  const { kind, name } = await params;
+
+  if (!anyMockEnabled() || !isMockAssetKind(kind)) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  try {
+    const duration = clampClipSeconds(parseFloat(request.nextUrl.searchParams.get('duration') || ''));
+    const stem = name.replace(/\.\w+$/, '');
+    const body = kind === 'image'
+      ? placeholderPng(stem)
+      : kind === 'audio'
+        ? silentMp3(duration * 1000)
+        : await testPatternMp4(duration);
+
+    return new NextResponse(new Uint8Array(body), {
+      status: 200,
+      headers: {
+        'Content-Type': CONTENT_TYPES[kind],
+        'Content-Length': String(body.length),
+        'Cache-Control': 'public, max-age=86400, immutable',
+      },
+    });
+  } catch (error) {
+    logger.error({ err: error, route: '/api/mock-assets/[kind]/[name]' }, 'Error serving mock asset');
+    return NextResponse.json(
+      { error: 'Failed to generate mock asset' },
+      { status: 500 }
+    );
+  }
+}
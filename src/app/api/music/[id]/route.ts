@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { supabase } from '@/db';
+import { logger } from '@/lib/logger';
+import { MUSIC_LICENSES, MUSIC_MOODS } from '@/lib/constants';
+
+const patchMusicTrackSchema = z
+  .object({
+    name: z.string().trim().min(1).optional(),
+    artist: z.string().trim().nullable().optional(),
+    mood: z.enum(MUSIC_MOODS).optional(),
+    bpm: z.number().int().min(30).max(250).nullable().optional(),
+    license: z.enum(MUSIC_LICENSES).optional(),
+    licenseUrl: z.string().url().nullable().optional(),
+    attribution: z.string().trim().nullable().optional(),
+  })
+  .refine((data) => Object.values(data).some((v) => v !== undefined), {
+    message: 'At least one field is required',
+  });
+
+/**
+ * PATCH /api/music/[id]
+ *
+ * Updates library metadata (name, artist, mood, BPM, license fields) on a track.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const body = await request.json();
+    const parsed = patchMusicTrackSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const fields = parsed.data;
+    const updates: Record<string, string | number | null> = {};
+    if (fields.name !== undefined) updates.name = fields.name;
+    if (fields.artist !== undefined) updates.artist = fields.artist;
+    if (fields.mood !== undefined) updates.mood = fields.mood;
+    if (fields.bpm !== undefined) updates.bpm = fields.bpm;
+    if (fields.license !== undefined) updates.license = fields.license;
+    if (fields.licenseUrl !== undefined) updates.license_url = fields.licenseUrl;
+    if (fields.attribution !== undefined) updates.attribution = fields.attribution;
+
+    const { data: updated, error } = await supabase
+      .from('music_track')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      logger.error({ err: error, route: '/api/music/[id]' }, 'Error updating music track');
+      return NextResponse.json({ error: 'Failed to update music track' }, { status: 500 });
+    }
+
+    if (!updated) {
+      return NextResponse.json({ error: 'Music track not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ track: updated });
+  } catch (err) {
+    logger.error({ err, route: '/api/music/[id]' }, 'Error updating music track');
+    return NextResponse.json({ error: 'Failed to update music track' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/music/[id]
+ *
+ * Retires a track from the library. The row is kept (is_active = false) because
+ * stored timelines of past renders still reference its URL; projects that chose it
+ * manually render without music until another track is picked.
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const { data: track, error } = await supabase
+      .from('music_track')
+      .update({ is_active: false })
+      .eq('id', id)
+      .select('id, name')
+      .maybeSingle();
+
+    if (error) {
+      logger.error({ err: error, route: '/api/music/[id]' }, 'Error retiring music track');
+      return NextResponse.json({ error: 'Failed to delete music track' }, { status: 500 });
+    }
+
+    if (!track) {
+      return NextResponse.json({ error: 'Music track not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ message: `Removed "${track.name}" from the music library` });
+  } catch (err) {
+    logger.error({ err, route: '/api/music/[id]' }, 'Error retiring music track');
+    return NextResponse.json({ error: 'Failed to delete music track' }, { status: 500 });
+  }
+}
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { supabase } from '@/db';
+import { logger } from '@/lib/logger';
+import { MUSIC_LICENSES, MUSIC_MOODS } from '@/lib/constants';
+
+const createMusicTrackSchema = z.object({
+  name: z.string().trim().min(1),
+  artist: z.string().trim().optional(),
+  url: z.string().url().refine((u) => u.startsWith('https://'), { message: 'url must be HTTPS' }),
+  storagePath: z.string().optional(),
+  mood: z.enum(MUSIC_MOODS),
+  bpm: z.number().int().min(30).max(250).optional(),
+  durationSeconds: z.number().positive().optional(),
+  license: z.enum(MUSIC_LICENSES),
+  licenseUrl: z.string().url().optional(),
+  attribution: z.string().trim().optional(),
+});
+
+/**
+ * GET /api/music
+ *
+ * Returns the active music library ordered by name.
+ * Optional ?mood=X filters to one mood.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const mood = request.nextUrl.searchParams.get('mood');
+
+    let query = supabase
+      .from('music_track')
+      .select('*')
+      .eq('is_active', true)
+      .order('name');
+
+    if (mood) query = query.eq('mood', mood);
+
+    const { data, error } = await query;
+
+    if (error) {
+      logger.error({ err: error, route: '/api/music' }, 'Error fetching music tracks');
+      return NextResponse.json({ error: 'Failed to fetch music tracks' }, { status: 500 });
+    }
+
+    return NextResponse.json({ tracks: data || [] });
+  } catch (err) {
+    logger.error({ err, route: '/api/music' }, 'Error fetching music tracks');
+    return NextResponse.json({ error: 'Failed to fetch music tracks' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/music
+ *
+ * Registers a music track uploaded to storage (see /api/music/upload-url).
+ * Body: { name, url, mood, license, artist?, storagePath?, bpm?, durationSeconds?, licenseUrl?, attribution? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const parsed = createMusicTrackSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const track = parsed.data;
+    const { data, error } = await supabase
+      .from('music_track')
+      .insert({
+        name: track.name,
+        artist: track.artist || null,
+        url: track.url,
+        storage_path: track.storagePath || null,
+        source: 'upload',
+        mood: track.mood,
+        bpm: track.bpm ?? null,
+        duration_seconds: track.durationSeconds ?? null,
+        license: track.license,
+        license_url: track.licenseUrl || null,
+        attribution: track.attribution || null,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      logger.error({ err: error, route: '/api/music' }, 'Error creating music track');
+      return NextResponse.json({ error: 'Failed to create music track' }, { status: 500 });
+    }
+
+    return NextResponse.json({ track: data }, { status: 201 });
+  } catch (err) {
+    logger.error({ err, route: '/api/music' }, 'Error creating music track');
+    return NextResponse.json({ error: 'Failed to create music track' }, { status: 500 });
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { logger } from '@/lib/logger';
+import { z } from 'zod';
+import { createSignedUploadUrl, getPublicUrl } from '@/lib/storage';
+
+const EXTENSION_MAP: Record<string, string> = {
+  'audio/mpeg': 'mp3',
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+};
+
+const MusicUploadUrlSchema = z.object({
+  contentType: z.string().refine(
+    (ct) => ct in EXTENSION_MAP,
+    { message: `Content type must be one of: ${Object.keys(EXTENSION_MAP).join(', ')}` }
+  ),
+});
+
+/**
+ * POST /api/music/upload-url
+ *
+ * Generates a signed upload URL for a music library file. After uploading,
+ * register the track with POST /api/music using the returned publicUrl and path.
+ *
+ * Request body: { contentType }
+ * Response: { signedUrl, path, publicUrl }
+ */
+export async function POST(request: NextRequest) {
+  const route = '/api/music/upload-url';
+
+  try {
+    const body = await request.json();
+    const parsed = MusicUploadUrlSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const ext = EXTENSION_MAP[parsed.data.contentType];
+    const path = `music/${crypto.randomUUID()}.${ext}`;
+
+    const { signedUrl } = await createSignedUploadUrl(path);
+    const publicUrl = getPublicUrl(path);
+
+    logger.info({ path, route }, 'Signed music upload URL created');
+
+    return NextResponse.json({ signedUrl, path, publicUrl });
+  } catch (error) {
+    logger.error({ err: error, route }, 'Error creating signed music upload URL');
+    return NextResponse.json(
+      { error: 'Failed to create signed upload URL' },
+      { status: 500 }
+    );
+  }
+}
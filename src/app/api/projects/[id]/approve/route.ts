@@ -4,16 +4,41 @@ import { getPipelineQueue } from '@/lib/queue';
 import { logger } from '@/lib/logger';
 import { WaveSpeedClient } from '@/lib/api-clients/wavespeed';
 import { API_COSTS } from '@/lib/constants';
+import { checkStageBudget } from '@/lib/budget';
+import { InvalidTransitionError } from '@/lib/errors';
+import { approvalFor } from '@/lib/pipeline';
+import { complianceBlockReason, getScriptCompliance } from '@/lib/compliance';
+import { transitionProject } from '@/lib/project-status';
+
+/** 402 response if the stage's projected cost would exceed the budget, else null. */
+async function budgetBlock(projectId: string, stage: string): Promise<NextResponse | null> {
+  const check = await checkStageBudget(supabase, projectId, stage);
+  if (check.allowed) return null;
+  return NextResponse.json({ error: check.reason, budget: check }, { status: 402 });
+}
+
+const APPROVAL_MESSAGES: Record<string, string> = {
+  concept_review: 'Concept approved. Scripting started.',
+  script_review: 'Script approved. B-roll planning started.',
+  broll_review: 'B-roll plan approved. Please select an influencer before casting.',
+};
 
 /**
  * POST /api/projects/[id]/approve
  *
- * Approves the current review stage and enqueues the next pipeline step.
+ * Approves the current review stage and starts the next pipeline step, as
+ * defined by REVIEW_GATES in src/lib/pipeline.ts.
  * - analysis_review -> auto-draft concept via LLM, set status to 'concept_review'
- * - concept_review  -> save concept edits, enqueue 'scripting'
- * - script_review   -> enqueue 'broll_planning'
- * - casting_review  -> enqueue 'directing'
- * - asset_review    -> enqueue 'editing'
+ * - concept_review  -> save concept edits, start 'scripting'
+ * - script_review   -> start 'broll_planning'
+ * - broll_review    -> set status to 'influencer_selection'
+ * - casting_review  -> start 'directing'
+ * - asset_review    -> start 'editing'
+ *
+ * Returns 400 with the compliance report if the script at script_review has hard
+ * compliance violations (src/lib/compliance.ts).
+ * Returns 402 with the budget check if the next stage's projected cost would
+ * exceed the project or batch budget.
  */
 export async function POST(
   request: NextRequest,
@@ -107,15 +132,10 @@ Create a detailed strategic concept targeting the most compelling audience for t
         }
       }
 
-      await supabase
-        .from('project')
-        .update({
-          status: 'concept_review',
-          concept,
-          cancel_requested_at: null,
-          updated_at: new Date().toISOString(),
-        })
-        .eq('id', id);
+      await transitionProject(supabase, id, 'concept_review', {
+        concept,
+        cancel_requested_at: null,
+      }, { from: 'analysis_review' });
 
       return NextResponse.json({
         message: 'Analysis approved. Concept drafted for review.',
@@ -125,7 +145,7 @@ Create a detailed strategic concept targeting the most compelling audience for t
       });
     }
 
-    // concept_review -> scripting (save any pending concept edits, enqueue scripting)
+    // concept_review: save any pending concept edits before scripting starts
     if (proj.status === 'concept_review') {
       let conceptFromBody = null;
       try {
@@ -137,66 +157,12 @@ Create a detailed strategic concept targeting the most compelling audience for t
         // No body or invalid JSON — use existing concept
       }
 
-      const updatePayload: Record<string, unknown> = {
-        cancel_requested_at: null,
-        updated_at: new Date().toISOString(),
-      };
-
       if (conceptFromBody) {
-        updatePayload.concept = conceptFromBody;
+        await supabase
+          .from('project')
+          .update({ concept: conceptFromBody, updated_at: new Date().toISOString() })
+          .eq('id', id);
       }
-
-      await supabase
-        .from('project')
-        .update(updatePayload)
-        .eq('id', id);
-
-      await getPipelineQueue().add('scripting', {
-        projectId: id,
-        step: 'scripting',
-      });
-
-      return NextResponse.json({
-        message: 'Concept approved. Scripting started.',
-        projectId: id,
-        previousStatus: 'concept_review',
-        nextStep: 'scripting',
-      });
-    }
-
-    // script_review -> broll_planning (B-roll planning runs before influencer selection)
-    if (proj.status === 'script_review') {
-      await supabase
-        .from('project')
-        .update({ status: 'broll_planning', cancel_requested_at: null, updated_at: new Date().toISOString() })
-        .eq('id', id);
-
-      await getPipelineQueue().add('broll_planning', {
-        projectId: id,
-        step: 'broll_planning',
-      });
-
-      return NextResponse.json({
-        message: 'Script approved. B-roll planning started.',
-        projectId: id,
-        previousStatus: 'script_review',
-        nextStep: 'broll_planning',
-      });
-    }
-
-    // broll_review -> influencer_selection (user picks influencer after B-roll review)
-    if (proj.status === 'broll_review') {
-      await supabase
-        .from('project')
-        .update({ status: 'influencer_selection', cancel_requested_at: null, updated_at: new Date().toISOString() })
-        .eq('id', id);
-
-      return NextResponse.json({
-        message: 'B-roll plan approved. Please select an influencer before casting.',
-        projectId: id,
-        previousStatus: 'broll_review',
-        nextStep: 'influencer_selection',
-      });
     }
 
     // Gate: require influencer voice before directing (voice needed for voiceover stage)
@@ -223,59 +189,60 @@ Create a detailed strategic concept targeting the most compelling audience for t
       }
     }
 
-    // Map review status to next pipeline step
-    const nextStepMap: Record<string, { step: string; jobName: string }> = {
-      casting_review: { step: 'directing', jobName: 'directing' },
-    };
-
-    const next = nextStepMap[proj.status];
+    // Gate: hard compliance violations in the script must be fixed first
+    if (proj.status === 'script_review') {
+      const compliance = await getScriptCompliance(supabase, id);
+      const reason = compliance && complianceBlockReason(compliance.report);
+      if (reason) {
+        return NextResponse.json(
+          { error: reason, code: 'COMPLIANCE_BLOCKED', compliance: compliance.report },
+          { status: 400 }
+        );
+      }
+    }
 
-    if (proj.status === 'asset_review') {
-      // Clear any stale cancel flag before enqueuing new work
-      await supabase
-        .from('project')
-        .update({ cancel_requested_at: null, updated_at: new Date().toISOString() })
-        .eq('id', id);
+    const approval = approvalFor(proj.status);
+    if (!approval) {
+      return NextResponse.json(
+        { error: `Project is not in a review state (current: ${proj.status})` },
+        { status: 400 }
+      );
+    }
 
-      await getPipelineQueue().add('editing', {
-        projectId: id,
-        step: 'editing',
-      });
+    // Gate -> gate (broll_review -> influencer_selection: user picks influencer next)
+    if (!('stage' in approval)) {
+      await transitionProject(supabase, id, approval.status, { cancel_requested_at: null }, { from: proj.status });
 
       return NextResponse.json({
-        message: 'Approved. Enqueued "editing" step.',
+        message: APPROVAL_MESSAGES[proj.status] ?? `Approved. Moved to "${approval.status}".`,
         projectId: id,
         previousStatus: proj.status,
-        nextStep: 'editing',
+        nextStep: approval.status,
       });
     }
 
-    if (!next) {
-      return NextResponse.json(
-        { error: `Project is not in a review state (current: ${proj.status})` },
-        { status: 400 }
-      );
-    }
+    const blocked = await budgetBlock(id, approval.step);
+    if (blocked) return blocked;
 
-    // Clear any stale cancel flag before enqueuing new work
-    await supabase
-      .from('project')
-      .update({ cancel_requested_at: null, updated_at: new Date().toISOString() })
-      .eq('id', id);
+    // Enter the stage before enqueueing (clears any stale cancel flag) so a
+    // second approval of the same gate is rejected
+    await transitionProject(supabase, id, approval.status, { cancel_requested_at: null }, { from: proj.status });
 
-    // Enqueue next pipeline step
-    await getPipelineQueue().add(next.jobName, {
+    await getPipelineQueue().add(approval.step, {
       projectId: id,
-      step: next.step as 'scripting' | 'casting' | 'directing',
+      step: approval.step,
     });
 
     return NextResponse.json({
-      message: `Approved. Enqueued "${next.step}" step.`,
+      message: APPROVAL_MESSAGES[proj.status] ?? `Approved. Enqueued "${approval.step}" step.`,
       projectId: id,
       previousStatus: proj.status,
-      nextStep: next.step,
+      nextStep: approval.step,
     });
   } catch (error) {
+    if (error instanceof InvalidTransitionError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
     logger.error({ err: error, route: '/api/projects/[id]/approve' }, 'Error approving project');
     return NextResponse.json(
       { error: 'Failed to approve project' },
@@ -60,17 +60,34 @@ export async function POST(
       if (asset.url) assetUrls[asset.type].push(asset.url);
     }
 
-    // 4. Build script snapshot
+    // 4. Build script snapshot from the current version of each scene
+    type SceneRow = {
+      segment_index: number;
+      version: number | null;
+      section: string;
+      script_text: string;
+      text_overlay: string | null;
+      energy_arc: unknown;
+    };
+    const currentScenes = new Map<number, SceneRow>();
+    for (const s of (script?.scenes || []) as SceneRow[]) {
+      const seen = currentScenes.get(s.segment_index);
+      if (!seen || (s.version ?? 1) > (seen.version ?? 1)) currentScenes.set(s.segment_index, s);
+    }
+
     const scriptSnapshot = script ? {
       version: script.version,
       tone: script.tone,
       hook_score: script.hook_score,
-      segments: (script.scenes || []).map((s: any) => ({
-        segment_index: s.segment_index,
-        section: s.section,
-        script_text: s.script_text,
-        text_overlay: s.text_overlay,
-      })),
+      segments: [...currentScenes.values()]
+        .sort((a, b) => a.segment_index - b.segment_index)
+        .map((s) => ({
+          segment_index: s.segment_index,
+          section: s.section,
+          script_text: s.script_text,
+          text_overlay: s.text_overlay,
+          energy_arc: s.energy_arc,
+        })),
     } : null;
 
     // 5. Insert completed_run
@@ -84,6 +101,7 @@ export async function POST(
         character_name: project.character?.name || null,
         influencer_name: project.influencer?.name || null,
         hook_score: script?.hook_score,
+        script_template_id: project.script_template_id ?? null,
         asset_urls: assetUrls,
         final_video_url: finalVideoUrl,
         total_cost_usd: project.cost_usd,
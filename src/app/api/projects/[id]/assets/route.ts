@@ -58,24 +58,16 @@ export async function GET(
       await Promise.all(
         generating.map(async (asset) => {
           try {
-            const url = `https://api.wavespeed.ai/api/v3/predictions/${asset.provider_task_id}/result`;
-            const res = await fetch(url, {
-              headers: { Authorization: `Bearer ${process.env.WAVESPEED_API_KEY || ''}` },
-              signal: AbortSignal.timeout(5000),
-            });
-            if (!res.ok) return;
-            const data = await res.json();
-            const status = data.data?.status;
-            const outputUrl = data.data?.outputs?.[0];
-
-            if (status === 'completed' && outputUrl) {
+            const state = await wavespeed.getResult(asset.provider_task_id!, 5000);
+
+            if (state.status === 'completed' && state.url) {
               await supabase
                 .from('asset')
-                .update({ url: outputUrl, status: 'completed', updated_at: new Date().toISOString() })
+                .update({ url: state.url, status: 'completed', updated_at: new Date().toISOString() })
                 .eq('id', asset.id);
               asset.status = 'completed';
-              asset.url = outputUrl;
-            } else if (status === 'failed') {
+              asset.url = state.url;
+            } else if (state.status === 'failed') {
               await supabase
                 .from('asset')
                 .update({ status: 'failed', updated_at: new Date().toISOString() })
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabase } from '@/db';
+import { InvalidTransitionError } from '@/lib/errors';
 import { logger } from '@/lib/logger';
+import { transitionProject } from '@/lib/project-status';
 
 /**
  * POST /api/projects/[id]/broll/approve
@@ -46,10 +48,7 @@ export async function POST(
     }
 
     // Transition to influencer_selection
-    await supabase
-      .from('project')
-      .update({ status: 'influencer_selection', updated_at: new Date().toISOString() })
-      .eq('id', id);
+    await transitionProject(supabase, id, 'influencer_selection', {}, { from: 'broll_review' });
 
     return NextResponse.json({
       message: 'B-roll plan approved. Please select an influencer before casting.',
@@ -59,6 +58,9 @@ export async function POST(
       shotCount: shots.length,
     });
   } catch (error) {
+    if (error instanceof InvalidTransitionError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
     logger.error({ err: error, route: '/api/projects/[id]/broll/approve' }, 'Error approving B-roll');
     return NextResponse.json({ error: 'Failed to approve B-roll plan' }, { status: 500 });
   }
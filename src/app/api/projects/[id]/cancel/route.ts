@@ -1,18 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabase } from '@/db';
+import { InvalidTransitionError } from '@/lib/errors';
 import { logger } from '@/lib/logger';
+import { cancelTarget } from '@/lib/pipeline';
+import { transitionProject } from '@/lib/project-status';
 
-const CANCEL_ROLLBACK_MAP: Record<string, string> = {
-  analyzing: 'created',
-  scripting: 'analysis_review',
-  broll_planning: 'script_review',
-  casting: 'influencer_selection',
-  directing: 'casting_review',
-  voiceover: 'casting_review',
-  broll_generation: 'casting_review',
-  editing: 'asset_review',
-};
-
+/**
+ * POST /api/projects/[id]/cancel
+ * Hard-cancels the running stage and returns the project to the review gate
+ * before it, or a hook variant sibling to waiting for its hook (see cancelTarget
+ * in src/lib/pipeline.ts).
+ */
 export async function POST(
   _request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -22,7 +20,7 @@ export async function POST(
   try {
     const { data: proj, error } = await supabase
       .from('project')
-      .select('id, status')
+      .select('id, status, variant_parent_id')
       .eq('id', id)
       .single();
 
@@ -30,7 +28,7 @@ export async function POST(
       return NextResponse.json({ error: 'Project not found' }, { status: 404 });
     }
 
-    const rollbackTo = CANCEL_ROLLBACK_MAP[proj.status];
+    const rollbackTo = cancelTarget(proj);
     if (!rollbackTo) {
       return NextResponse.json(
         { error: `Cannot cancel from status "${proj.status}". Only processing stages can be canceled.` },
@@ -55,15 +53,10 @@ export async function POST(
       .in('status', ['generating', 'pending']);
 
     // 3. Roll back project status (leave cancel_requested_at set for worker to consume)
-    await supabase
-      .from('project')
-      .update({
-        status: rollbackTo,
-        error_message: null,
-        failed_at_status: null,
-        updated_at: new Date().toISOString(),
-      })
-      .eq('id', id);
+    await transitionProject(supabase, id, rollbackTo, {
+      error_message: null,
+      failed_at_status: null,
+    }, { from: proj.status });
 
     logger.info(
       { projectId: id, from: proj.status, to: rollbackTo, route: '/api/projects/[id]/cancel' },
@@ -72,6 +65,9 @@ export async function POST(
 
     return NextResponse.json({ status: rollbackTo });
   } catch (error) {
+    if (error instanceof InvalidTransitionError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
     logger.error({ err: error, route: '/api/projects/[id]/cancel' }, 'Error canceling pipeline');
     return NextResponse.json(
       { error: 'Failed to cancel pipeline stage' },
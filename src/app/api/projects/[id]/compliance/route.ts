@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabase } from '@/db';
+import { ComplianceAgent } from '@/agents/compliance-agent';
+import { getScriptCompliance } from '@/lib/compliance';
+import { logger } from '@/lib/logger';
+
+/**
+ * GET /api/projects/[id]/compliance
+ *
+ * Compliance report for the project's latest script: the pattern rules over the
+ * current scene versions plus the stored LLM judge findings that still apply.
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const compliance = await getScriptCompliance(supabase, id);
+    if (!compliance) {
+      return NextResponse.json({ error: 'No script found for this project' }, { status: 404 });
+    }
+    return NextResponse.json({ scriptId: compliance.scriptId, report: compliance.report });
+  } catch (error) {
+    logger.error({ err: error, route: '/api/projects/[id]/compliance' }, 'Error loading compliance report');
+    return NextResponse.json({ error: 'Failed to load compliance report' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/projects/[id]/compliance
+ *
+ * Re-run the LLM judge over the current scenes (after edits). If the judge fails,
+ * returns the pattern-only report with judgeError set.
+ */
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const compliance = await getScriptCompliance(supabase, id);
+    if (!compliance) {
+      return NextResponse.json({ error: 'No script found for this project' }, { status: 404 });
+    }
+
+    try {
+      const report = await new ComplianceAgent().run(id);
+      return NextResponse.json({ scriptId: compliance.scriptId, report });
+    } catch (err) {
+      logger.warn({ err, projectId: id, route: '/api/projects/[id]/compliance' }, 'Compliance judge failed');
+      return NextResponse.json({
+        scriptId: compliance.scriptId,
+        report: compliance.report,
+        judgeError: err instanceof Error ? err.message : String(err),
+      });
+    }
+  } catch (error) {
+    logger.error({ err: error, route: '/api/projects/[id]/compliance' }, 'Error re-checking compliance');
+    return NextResponse.json({ error: 'Failed to re-check compliance' }, { status: 500 });
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabase } from '@/db';
+import { logger } from '@/lib/logger';
+import { createPipelineEventStream } from '@/lib/event-stream';
+import type { ProjectSnapshot } from '@/lib/events';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/projects/[id]/events
+ *
+ * Server-sent events for one project. Sends a `snapshot` event with the current
+ * status and cost, then `status`, `cost`, `asset` and `log` events as the
+ * pipeline writes them.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const { data: proj, error } = await supabase
+      .from('project')
+      .select('id, status, failed_at_status, error_message, cost_usd, updated_at')
+      .eq('id', id)
+      .single();
+
+    if (error || !proj) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const costUsd = parseFloat(proj.cost_usd || '0');
+    const snapshots = new Map<string, ProjectSnapshot>([[id, { status: proj.status, costUsd }]]);
+
+    return createPipelineEventStream(request, id, {
+      projectId: id,
+      status: proj.status,
+      failedAtStatus: proj.failed_at_status,
+      errorMessage: proj.error_message,
+      costUsd,
+      at: proj.updated_at,
+    }, snapshots);
+  } catch (err) {
+    logger.error({ err, route: '/api/projects/[id]/events' }, 'Error opening event stream');
+    return NextResponse.json({ error: 'Failed to open event stream' }, { status: 500 });
+  }
+}
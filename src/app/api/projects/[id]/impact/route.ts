@@ -4,8 +4,8 @@ import {
   DOWNSTREAM_IMPACT_MAP,
   PIPELINE_STAGE_ORDER,
   STAGE_COST_ESTIMATES,
-  RESTART_STAGE_MAP,
 } from '@/lib/constants';
+import { restartTarget } from '@/lib/pipeline';
 import { logger } from '@/lib/logger';
 
 /**
@@ -79,10 +79,10 @@ export async function POST(
 
     const allAffectedStages = PIPELINE_STAGE_ORDER.filter(s => allAffectedSet.has(s));
 
-    // Determine restart point: earliest affected stage that has a RESTART_STAGE_MAP entry
+    // Determine restart point: earliest affected stage that can be restarted
     let restartFrom: string | null = null;
     for (const s of allAffectedStages) {
-      if (RESTART_STAGE_MAP[s]) {
+      if (restartTarget(s)) {
         restartFrom = s;
         break;
       }
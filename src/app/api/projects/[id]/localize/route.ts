@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { supabase } from '@/db';
+import { LOCALE_IDS, type Locale } from '@/lib/constants';
+import { LocalizationError } from '@/lib/errors';
+import { createLocalizedVersions, localizationMode } from '@/lib/localization';
+import { logger } from '@/lib/logger';
+
+const localizeSchema = z.object({
+  locales: z.array(z.enum(LOCALE_IDS as [Locale, ...Locale[]])).min(1, 'Pick at least one locale'),
+});
+
+/**
+ * GET /api/projects/[id]/localize
+ *
+ * Returns the regional version group the project belongs to: the source project
+ * first, then each version with its locale, status, whether it translates the
+ * source script, and render. `mode` says how new versions would be scripted now
+ * (null until the source's concept is approved).
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const { data: proj, error } = await supabase
+      .from('project')
+      .select('id, localized_from_id')
+      .eq('id', id)
+      .single();
+
+    if (error || !proj) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const sourceId = proj.localized_from_id || proj.id;
+
+    const { data: projects, error: projectsError } = await supabase
+      .from('project')
+      .select('id, name, status, failed_at_status, locale, localized_from_id, source_script_id, cost_usd, render_url, created_at')
+      .or(`id.eq.${sourceId},localized_from_id.eq.${sourceId}`)
+      .order('created_at');
+
+    if (projectsError) {
+      logger.error({ err: projectsError, route: '/api/projects/[id]/localize' }, 'Error fetching regional versions');
+      return NextResponse.json({ error: 'Failed to fetch regional versions' }, { status: 500 });
+    }
+
+    const source = (projects || []).find((p) => p.id === sourceId);
+    const versions = (projects || [])
+      .filter((p) => p.id !== sourceId)
+      .map((p) => ({
+        id: p.id,
+        name: p.name,
+        status: p.status,
+        locale: p.locale,
+        translated: !!p.source_script_id,
+        costUsd: p.cost_usd,
+        renderUrl: p.render_url,
+      }));
+
+    return NextResponse.json({
+      sourceId,
+      source: source ? { id: source.id, name: source.name, status: source.status, locale: source.locale } : null,
+      mode: source ? localizationMode(source.status, source.failed_at_status) : null,
+      versions,
+    });
+  } catch (error) {
+    logger.error({ err: error, route: '/api/projects/[id]/localize' }, 'Error fetching regional versions');
+    return NextResponse.json({ error: 'Failed to fetch regional versions' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/projects/[id]/localize
+ *
+ * Body: { locales: ['es-MX', 'pt-BR', ...] }
+ *
+ * Creates a regional version of the project per locale and starts its scripting
+ * (src/lib/localization.ts). Locales that already have a version are reported as
+ * skipped; a version whose scripting would exceed the budget is created but held
+ * at concept_review.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const parsed = localizeSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const results = await createLocalizedVersions(supabase, id, parsed.data.locales);
+    return NextResponse.json({ sourceId: id, results }, { status: 201 });
+  } catch (error) {
+    if (error instanceof LocalizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    logger.error({ err: error, route: '/api/projects/[id]/localize' }, 'Error creating regional versions');
+    return NextResponse.json({ error: 'Failed to create regional versions' }, { status: 500 });
+  }
+}
@@ -1,8 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabase } from '@/db';
-import { getPipelineQueue, type PipelineJobData } from '@/lib/queue';
-import { RESTART_STAGE_MAP, REVIEW_GATE_STATUSES } from '@/lib/constants';
+import { getPipelineQueue } from '@/lib/queue';
+import { InvalidTransitionError } from '@/lib/errors';
 import { logger } from '@/lib/logger';
+import { RESTART_STAGE_MAP, isReviewGate, restartTarget } from '@/lib/pipeline';
+import { transitionProject } from '@/lib/project-status';
+import { resolveDeadLetters } from '@/lib/dead-letters';
+import { retryFailedProject } from '@/lib/recovery';
 
 /**
  * POST /api/projects/[id]/retry
@@ -10,7 +14,10 @@ import { logger } from '@/lib/logger';
  * Two modes:
  * 1. Failed retry (no body or empty body): re-enqueues the failed stage using `failed_at_status`.
  * 2. Stage restart (body: { stage }): restarts a specific pipeline stage from a review gate.
- *    Valid stages: analysis, scripting, casting, directing, voiceover, editing.
+ *    Valid stages: the keys of RESTART_STAGE_MAP (src/lib/pipeline.ts).
+ *
+ * Either mode accepts { overrideBudget: true } to lift the budget cap for the
+ * project (sets budget_override) before re-enqueueing.
  */
 export async function POST(
   request: NextRequest,
@@ -20,7 +27,8 @@ export async function POST(
 
   try {
     const body = await request.json().catch(() => ({}));
-    const { stage } = body as { stage?: string };
+    const { stage, overrideBudget } = body as { stage?: string; overrideBudget?: boolean };
+    const budgetUpdate = overrideBudget === true ? { budget_override: true } : {};
 
     const { data: proj, error: fetchError } = await supabase
       .from('project')
@@ -34,7 +42,7 @@ export async function POST(
 
     // Mode 2: Explicit stage restart from a review gate
     if (stage) {
-      const mapping = RESTART_STAGE_MAP[stage];
+      const mapping = restartTarget(stage);
       if (!mapping) {
         return NextResponse.json(
           { error: `Invalid stage '${stage}'. Valid stages: ${Object.keys(RESTART_STAGE_MAP).join(', ')}` },
@@ -42,32 +50,29 @@ export async function POST(
         );
       }
 
-      const isReviewGate = REVIEW_GATE_STATUSES.includes(proj.status as typeof REVIEW_GATE_STATUSES[number]);
-      const isFailed = proj.status === 'failed';
-
-      if (!isReviewGate && !isFailed) {
+      if (!isReviewGate(proj.status) && proj.status !== 'failed') {
         return NextResponse.json(
           { error: `Cannot restart: project is in '${proj.status}' status. Restart is only available at review stages or when failed.` },
           { status: 400 }
         );
       }
 
-      await supabase
-        .from('project')
-        .update({
-          status: mapping.targetStatus,
-          failed_at_status: null,
-          error_message: null,
-          cancel_requested_at: null,
-          updated_at: new Date().toISOString(),
-        })
-        .eq('id', id);
+      await transitionProject(supabase, id, mapping.targetStatus, {
+        failed_at_status: null,
+        error_message: null,
+        cancel_requested_at: null,
+        ...budgetUpdate,
+      }, { from: proj.status });
 
       await getPipelineQueue().add(mapping.queueStep, {
         projectId: id,
-        step: mapping.queueStep as PipelineJobData['step'],
+        step: mapping.queueStep,
       });
 
+      if (proj.status === 'failed') {
+        await resolveDeadLetters(supabase, id, 'retried');
+      }
+
       return NextResponse.json({
         message: `Restarting '${stage}' stage.`,
         projectId: id,
@@ -87,47 +92,23 @@ export async function POST(
 
     const failedStep = proj.failed_at_status;
 
-    const stepToJob: Record<string, string> = {
-      analyzing: 'product_analysis',
-      scripting: 'scripting',
-      broll_planning: 'broll_planning',
-      broll_generation: 'broll_generation',
-      casting: 'casting',
-      directing: 'directing',
-      voiceover: 'voiceover',
-      editing: 'editing',
-    };
-
-    const jobName = stepToJob[failedStep];
-    if (!jobName) {
+    const retry = await retryFailedProject(supabase, id, failedStep, budgetUpdate);
+    if (!retry) {
       return NextResponse.json(
         { error: `Unknown failed stage: ${failedStep}` },
         { status: 400 }
       );
     }
 
-    await supabase
-      .from('project')
-      .update({
-        status: failedStep,
-        failed_at_status: null,
-        error_message: null,
-        cancel_requested_at: null,
-        updated_at: new Date().toISOString(),
-      })
-      .eq('id', id);
-
-    await getPipelineQueue().add(jobName, {
-      projectId: id,
-      step: jobName === 'product_analysis' ? 'product_analysis' : failedStep,
-    });
-
     return NextResponse.json({
       message: `Retrying "${failedStep}" stage`,
       projectId: id,
       retryStep: failedStep,
     });
   } catch (error) {
+    if (error instanceof InvalidTransitionError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
     logger.error({ err: error, route: '/api/projects/[id]/retry' }, 'Error retrying project');
     return NextResponse.json({ error: 'Failed to retry' }, { status: 500 });
   }
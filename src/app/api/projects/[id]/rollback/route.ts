@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabase } from '@/db';
+import { InvalidTransitionError } from '@/lib/errors';
 import { logger } from '@/lib/logger';
+import { rollbackFailedProject } from '@/lib/recovery';
 
 /**
  * POST /api/projects/[id]/rollback
@@ -30,19 +32,8 @@ export async function POST(
       );
     }
 
-    // Map failed stage to previous review gate
-    const rollbackMap: Record<string, string> = {
-      analyzing: 'created',
-      scripting: 'analysis_review',
-      broll_planning: 'script_review',
-      broll_generation: 'broll_review',
-      casting: 'influencer_selection',
-      directing: 'casting_review',
-      voiceover: 'casting_review',
-      editing: 'asset_review',
-    };
-
-    const rollbackTo = rollbackMap[proj.failed_at_status];
+    // Failed stage → previous review gate
+    const rollbackTo = await rollbackFailedProject(supabase, id, proj.failed_at_status);
     if (!rollbackTo) {
       return NextResponse.json(
         { error: `Unknown failed stage: ${proj.failed_at_status}` },
@@ -50,22 +41,15 @@ export async function POST(
       );
     }
 
-    await supabase
-      .from('project')
-      .update({
-        status: rollbackTo,
-        failed_at_status: null,
-        error_message: null,
-        updated_at: new Date().toISOString(),
-      })
-      .eq('id', id);
-
     return NextResponse.json({
       message: `Rolled back to "${rollbackTo}"`,
       projectId: id,
       rolledBackTo: rollbackTo,
     });
   } catch (error) {
+    if (error instanceof InvalidTransitionError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
     logger.error({ err: error, route: '/api/projects/[id]/rollback' }, 'Error rolling back project');
     return NextResponse.json({ error: 'Failed to rollback' }, { status: 500 });
   }
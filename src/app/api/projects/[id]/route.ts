@@ -1,7 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabase } from '@/db';
-import { REVIEW_GATE_STATUSES, EDITABLE_PROJECT_FIELDS, TONE_IDS } from '@/lib/constants';
+import { EDITABLE_PROJECT_FIELDS, TONE_IDS, RENDER_BACKENDS, CAPTION_STYLE_IDS, MUSIC_MODES, PIPELINE_CONFIG, LOCALE_IDS, isLocale } from '@/lib/constants';
+import { scaleSyllableTargets } from '@/lib/syllables';
+import { isRenderBackend } from '@/lib/renderers';
+import { CAPTIONS_OFF } from '@/lib/captions';
+import { isMusicMode } from '@/lib/music';
 import { logger } from '@/lib/logger';
+import { isReviewGate } from '@/lib/pipeline';
 
 export async function GET(
   request: NextRequest,
@@ -34,7 +39,7 @@ export async function PATCH(
     // Fetch current project to check status
     const { data: proj, error: fetchError } = await supabase
       .from('project')
-      .select('id, status')
+      .select('id, status, music_mode, variant_parent_id, locale, syllable_targets')
       .eq('id', id)
       .single();
 
@@ -48,7 +53,7 @@ export async function PATCH(
     // Settings fields (tone, character, influencer, name) — only at review gates
     for (const field of EDITABLE_PROJECT_FIELDS) {
       if (field in body) {
-        if (!REVIEW_GATE_STATUSES.includes(proj.status as typeof REVIEW_GATE_STATUSES[number])) {
+        if (!isReviewGate(proj.status)) {
           return NextResponse.json(
             { error: `Cannot edit ${field}: project is in '${proj.status}' status. Settings can only be changed at review stages.` },
             { status: 400 }
@@ -69,7 +74,7 @@ export async function PATCH(
 
     // video_model_id — editable at review gates (same rules as tone/character)
     if ('video_model_id' in body) {
-      if (!REVIEW_GATE_STATUSES.includes(proj.status as typeof REVIEW_GATE_STATUSES[number])) {
+      if (!isReviewGate(proj.status)) {
         return NextResponse.json(
           { error: `Cannot change video model: project is in '${proj.status}' status. Video model can only be changed at review stages.` },
           { status: 400 }
@@ -78,8 +83,112 @@ export async function PATCH(
       updates.video_model_id = body.video_model_id;
     }
 
+    // renderer — null clears the override and falls back to the video model's backend
+    if ('renderer' in body) {
+      if (body.renderer !== null && !isRenderBackend(body.renderer)) {
+        return NextResponse.json(
+          { error: `Invalid renderer '${body.renderer}'. Valid renderers: ${RENDER_BACKENDS.join(', ')}` },
+          { status: 400 }
+        );
+      }
+      updates.renderer = body.renderer;
+    }
+
+    // caption_style — a preset ID, 'none' to turn captions off, or null for the default
+    if ('caption_style' in body) {
+      const validStyles: string[] = [...CAPTION_STYLE_IDS, CAPTIONS_OFF];
+      if (body.caption_style !== null && !validStyles.includes(body.caption_style)) {
+        return NextResponse.json(
+          { error: `Invalid caption_style '${body.caption_style}'. Valid styles: ${validStyles.join(', ')}` },
+          { status: 400 }
+        );
+      }
+      updates.caption_style = body.caption_style;
+    }
+
+    // variant_count — A/B hook variants are written alongside the script, so this
+    // only takes effect if set before scripting runs
+    if ('variant_count' in body) {
+      const count = body.variant_count;
+      if (!Number.isInteger(count) || count < 1 || count > PIPELINE_CONFIG.maxHookVariants) {
+        return NextResponse.json(
+          { error: `variant_count must be an integer from 1 to ${PIPELINE_CONFIG.maxHookVariants}` },
+          { status: 400 }
+        );
+      }
+      if (proj.variant_parent_id) {
+        return NextResponse.json({ error: 'Hook variants cannot have variants of their own' }, { status: 400 });
+      }
+      updates.variant_count = count;
+    }
+
+    // budget_usd — spend cap in USD (null removes it); checked before each stage
+    if ('budget_usd' in body) {
+      const budget = body.budget_usd;
+      if (budget !== null && (typeof budget !== 'number' || !Number.isFinite(budget) || budget < 0)) {
+        return NextResponse.json({ error: 'budget_usd must be a non-negative number or null' }, { status: 400 });
+      }
+      updates.budget_usd = budget;
+    }
+
+    // locale — the next script is written in it; stored syllable targets are
+    // rescaled to its speaking rate unless new ones are sent alongside
+    if ('locale' in body) {
+      if (!isLocale(body.locale)) {
+        return NextResponse.json(
+          { error: `Invalid locale '${body.locale}'. Valid locales: ${LOCALE_IDS.join(', ')}` },
+          { status: 400 }
+        );
+      }
+      if (!isReviewGate(proj.status)) {
+        return NextResponse.json(
+          { error: `Cannot change locale: project is in '${proj.status}' status. Locale can only be changed at review stages.` },
+          { status: 400 }
+        );
+      }
+      updates.locale = body.locale;
+      if (proj.syllable_targets && !('syllable_targets' in body)) {
+        updates.syllable_targets = scaleSyllableTargets(proj.syllable_targets, body.locale, proj.locale);
+      }
+    }
+
+    // music_track_id — picking a track switches to manual; null clears it (auto re-picks)
+    if ('music_track_id' in body) {
+      if (body.music_track_id !== null) {
+        const { data: track } = await supabase
+          .from('music_track')
+          .select('id')
+          .eq('id', body.music_track_id)
+          .eq('is_active', true)
+          .maybeSingle();
+        if (!track) {
+          return NextResponse.json({ error: `Music track '${body.music_track_id}' not found` }, { status: 400 });
+        }
+        updates.music_mode = 'manual';
+      }
+      updates.music_track_id = body.music_track_id;
+    }
+
+    // music_mode — 'auto' (from tone), 'manual' (music_track_id) or 'off'
+    if ('music_mode' in body) {
+      if (!isMusicMode(body.music_mode)) {
+        return NextResponse.json(
+          { error: `Invalid music_mode '${body.music_mode}'. Valid modes: ${MUSIC_MODES.join(', ')}` },
+          { status: 400 }
+        );
+      }
+      updates.music_mode = body.music_mode;
+      // Switching back to auto drops the remembered pick so the tone decides again
+      if (body.music_mode === 'auto' && !('music_track_id' in body)) updates.music_track_id = null;
+    }
+
+    // A new tone re-picks auto-selected music on the next timeline build
+    if ('tone' in updates && (updates.music_mode ?? proj.music_mode) === 'auto' && !('music_track_id' in updates)) {
+      updates.music_track_id = null;
+    }
+
     // Always-allowed fields (internal updates from frontend — product_placement, etc.)
-    const ALWAYS_ALLOWED = ['product_placement', 'product_image_url', 'product_data', 'negative_prompt_override', 'fast_mode', 'video_retries', 'scene_override', 'scene_preset_id', 'interaction_override', 'interaction_preset_id', 'style_preset_id', 'syllable_targets', 'keyframe_chaining', 'concept'] as const;
+    const ALWAYS_ALLOWED = ['product_placement', 'product_image_url', 'product_data', 'negative_prompt_override', 'fast_mode', 'auto_approve', 'video_retries', 'scene_override', 'scene_preset_id', 'interaction_override', 'interaction_preset_id', 'style_preset_id', 'syllable_targets', 'keyframe_chaining', 'concept', 'budget_override'] as const;
     for (const field of ALWAYS_ALLOWED) {
       if (field in body) {
         updates[field] = body[field];
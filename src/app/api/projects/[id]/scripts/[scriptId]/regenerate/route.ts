@@ -1,7 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabase } from '@/db';
 import { getPipelineQueue } from '@/lib/queue';
+import { InvalidTransitionError } from '@/lib/errors';
 import { logger } from '@/lib/logger';
+import { canTransition } from '@/lib/pipeline';
+import { transitionProject } from '@/lib/project-status';
 
 /**
  * POST /api/projects/[id]/scripts/[scriptId]/regenerate
@@ -31,6 +34,19 @@ export async function POST(
       );
     }
 
+    const { data: proj } = await supabase
+      .from('project')
+      .select('status')
+      .eq('id', id)
+      .single();
+
+    if (!proj || !canTransition(proj.status, 'scripting')) {
+      return NextResponse.json(
+        { error: `Cannot regenerate the script while the project is in '${proj?.status}' status` },
+        { status: 409 }
+      );
+    }
+
     // Store feedback on current script if provided, and optionally update tone
     let body: { feedback?: string; tone?: string } = {};
     try {
@@ -46,20 +62,8 @@ export async function POST(
         .eq('id', scriptId);
     }
 
-    // Update project tone if a new tone was specified for regeneration
-    const projectUpdate: Record<string, string> = {
-      status: 'scripting',
-      updated_at: new Date().toISOString(),
-    };
-    if (body.tone) {
-      projectUpdate.tone = body.tone;
-    }
-
     // Set project status back to scripting (and optionally update tone)
-    await supabase
-      .from('project')
-      .update(projectUpdate)
-      .eq('id', id);
+    await transitionProject(supabase, id, 'scripting', body.tone ? { tone: body.tone } : {});
 
     // Re-enqueue scripting step
     await getPipelineQueue().add('scripting', {
@@ -73,6 +77,9 @@ export async function POST(
       previousScriptId: scriptId,
     });
   } catch (error) {
+    if (error instanceof InvalidTransitionError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
     logger.error({ err: error, route: '/api/projects/[id]/scripts/[scriptId]/regenerate' }, 'Error regenerating script');
     return NextResponse.json(
       { error: 'Failed to regenerate script' },
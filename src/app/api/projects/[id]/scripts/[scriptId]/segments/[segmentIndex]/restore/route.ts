@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { supabase } from '@/db';
+import { ScriptHistoryError } from '@/lib/errors';
+import { logger } from '@/lib/logger';
+import { restoreSegmentVersion } from '@/lib/script-history';
+
+const restoreSchema = z.object({
+  sceneId: z.string().uuid(),
+});
+
+/**
+ * POST /api/projects/[id]/scripts/[scriptId]/segments/[segmentIndex]/restore
+ *
+ * Body: { sceneId }
+ *
+ * Copies an earlier version of the segment (from this or another of the
+ * project's scripts) in as its newest version. No LLM call. Only at
+ * script_review.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; scriptId: string; segmentIndex: string }> }
+) {
+  const { id, scriptId, segmentIndex: segmentIndexStr } = await params;
+  const segmentIndex = parseInt(segmentIndexStr, 10);
+
+  if (isNaN(segmentIndex) || segmentIndex < 0 || segmentIndex > 3) {
+    return NextResponse.json(
+      { error: 'segmentIndex must be 0-3' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const parsed = restoreSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { data: script } = await supabase
+      .from('script')
+      .select('id')
+      .eq('id', scriptId)
+      .eq('project_id', id)
+      .maybeSingle();
+
+    if (!script) {
+      return NextResponse.json({ error: 'Script not found for this project' }, { status: 404 });
+    }
+
+    const scene = await restoreSegmentVersion(supabase, id, scriptId, segmentIndex, parsed.data.sceneId);
+    return NextResponse.json(scene, { status: 201 });
+  } catch (error) {
+    if (error instanceof ScriptHistoryError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    logger.error({ err: error, route: '/api/projects/[id]/scripts/[scriptId]/segments/[segmentIndex]/restore' }, 'Error restoring segment version');
+    return NextResponse.json({ error: 'Failed to restore segment version' }, { status: 500 });
+  }
+}
@@ -3,6 +3,7 @@ import { supabase } from '@/db';
 import { countTextSyllables } from '@/lib/syllables';
 import { INTERACTION_TYPES, CAMERA_ANGLES, CAMERA_MOVEMENTS, LIGHTING_DIRECTIONS } from '@/lib/constants';
 import { logger } from '@/lib/logger';
+import { refreshScriptFullText } from '@/lib/script-history';
 
 // PATCH /api/projects/[id]/scripts/[scriptId]/segments/[segmentIndex]
 // Body: { script_text?, text_overlay?, props_needed?, interaction_type?, camera_specs? }
@@ -134,6 +135,7 @@ export async function PATCH(
         camera_specs: mergedCameraSpecs,
         tone: currentScene.tone,
         version: newVersion,
+        origin: 'edited',
       })
       .select()
       .single();
@@ -145,27 +147,7 @@ export async function PATCH(
       );
     }
 
-    // Recalculate script.full_text from latest version of each segment
-    const { data: allScenes } = await supabase
-      .from('scene')
-      .select('segment_index, script_text, version')
-      .eq('script_id', scriptId)
-      .order('segment_index')
-      .order('version', { ascending: false });
-
-    if (allScenes) {
-      const latest = new Map<number, string>();
-      for (const s of allScenes) {
-        if (!latest.has(s.segment_index)) {
-          latest.set(s.segment_index, s.script_text);
-        }
-      }
-      const newFullText = Array.from(latest.entries())
-        .sort(([a], [b]) => a - b)
-        .map(([, text]) => text)
-        .join('\n\n');
-      await supabase.from('script').update({ full_text: newFullText }).eq('id', scriptId);
-    }
+    await refreshScriptFullText(supabase, scriptId);
 
     return NextResponse.json(newScene);
   } catch (error) {
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { supabase } from '@/db';
+import { ScriptHistoryError } from '@/lib/errors';
+import { logger } from '@/lib/logger';
+import { composeScript } from '@/lib/script-history';
+
+const composeSchema = z.object({
+  sceneIds: z.array(z.string().uuid()).min(1, 'Pick at least one segment version'),
+});
+
+/**
+ * POST /api/projects/[id]/scripts/compose
+ *
+ * Body: { sceneIds: [uuid, ...] }
+ *
+ * Creates a new script version from the picked segment versions (one per
+ * segment, from any of the project's scripts); unpicked segments keep the
+ * latest script's current version. No LLM call. Only at script_review.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const parsed = composeSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const composed = await composeScript(supabase, id, parsed.data.sceneIds);
+    return NextResponse.json(composed, { status: 201 });
+  } catch (error) {
+    if (error instanceof ScriptHistoryError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    logger.error({ err: error, route: '/api/projects/[id]/scripts/compose' }, 'Error composing script');
+    return NextResponse.json({ error: 'Failed to compose script' }, { status: 500 });
+  }
+}
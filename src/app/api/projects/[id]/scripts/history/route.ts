@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabase } from '@/db';
+import { logger } from '@/lib/logger';
+import { loadScriptHistory } from '@/lib/script-history';
+
+/**
+ * GET /api/projects/[id]/scripts/history
+ *
+ * Every script version of the project (oldest first, with the feedback left on
+ * each) and every version of each segment across them, with how each version
+ * was made and the feedback it was regenerated with.
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const { data: proj } = await supabase
+      .from('project')
+      .select('id')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (!proj) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(await loadScriptHistory(supabase, id));
+  } catch (error) {
+    logger.error({ err: error, route: '/api/projects/[id]/scripts/history' }, 'Error fetching script history');
+    return NextResponse.json({ error: 'Failed to fetch script history' }, { status: 500 });
+  }
+}
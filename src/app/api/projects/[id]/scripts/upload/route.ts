@@ -1,7 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabase } from '@/db';
 import { ScriptingAgent } from '@/agents/scripting-agent';
+import { InvalidTransitionError } from '@/lib/errors';
 import { logger } from '@/lib/logger';
+import { canTransition } from '@/lib/pipeline';
+import { transitionProject } from '@/lib/project-status';
 
 // POST /api/projects/[id]/scripts/upload
 // Body: { text: string }
@@ -35,7 +38,7 @@ export async function POST(
     // Verify project exists
     const { data: proj, error: projError } = await supabase
       .from('project')
-      .select('id')
+      .select('id, status')
       .eq('id', id)
       .single();
 
@@ -43,18 +46,25 @@ export async function POST(
       return NextResponse.json({ error: 'Project not found' }, { status: 404 });
     }
 
+    if (!canTransition(proj.status, 'script_review')) {
+      return NextResponse.json(
+        { error: `Cannot upload a script while the project is in '${proj.status}' status` },
+        { status: 409 }
+      );
+    }
+
     // Analyze and split the uploaded script
     const agent = new ScriptingAgent();
     const result = await agent.analyzeUploadedScript(id, text);
 
     // Update project status to script_review
-    await supabase
-      .from('project')
-      .update({ status: 'script_review', updated_at: new Date().toISOString() })
-      .eq('id', id);
+    await transitionProject(supabase, id, 'script_review');
 
     return NextResponse.json(result, { status: 201 });
   } catch (error) {
+    if (error instanceof InvalidTransitionError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
     logger.error({ err: error, route: '/api/projects/[id]/scripts/upload' }, 'Error uploading script');
     return NextResponse.json(
       { error: 'Failed to analyze uploaded script' },
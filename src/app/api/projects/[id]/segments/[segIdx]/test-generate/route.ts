@@ -3,7 +3,7 @@ import { supabase } from '@/db';
 import { logger, logToGenerationLog } from '@/lib/logger';
 import { resolveNegativePrompt } from '@/lib/prompt-schema';
 import { buildVideoPromptJSON } from '@/lib/prompt-serializer';
-import { WaveSpeedClient } from '@/lib/api-clients/wavespeed';
+import { getVideoProvider } from '@/lib/video-providers';
 import { VideoModelConfig, getFallbackVideoModel, API_COSTS } from '@/lib/constants';
 
 export const maxDuration = 180; // 3 minutes — LLM prompt generation can take 60s+
@@ -124,12 +124,11 @@ export async function POST(
     // Uses visual_prompt (from CastingAgent), script_text, shot_scripts, energy_arc.
     const serialized = buildVideoPromptJSON(scene, { shotDuration: vm.shot_duration, lockCamera });
 
-    // Call wavespeed.generateVideo with JSON prompt
-    logger.info({ projectId: id, segIdx, hasEndKeyframe: !!endKeyframe?.url, elapsed: Date.now() - routeStart }, 'Test-generate: calling WaveSpeed video API');
-    const wavespeed = new WaveSpeedClient();
-    const result = await wavespeed.generateVideo({
+    // Submit to the video model's provider with the JSON prompt
+    logger.info({ projectId: id, segIdx, provider: vm.provider, hasEndKeyframe: !!endKeyframe?.url, elapsed: Date.now() - routeStart }, 'Test-generate: calling video API');
+    const result = await getVideoProvider(vm).submit({
       image: startKeyframe.url,
-      tailImage: vm.supports_tail_image ? endKeyframe?.url : undefined,
+      tailImage: endKeyframe?.url,
       prompt: serialized.prompt,
       negativePrompt: serialized.negativePrompt || negativePrompt,
       multiPrompt: [],  // Dropped: JSON prompt handles timing via action.sequence
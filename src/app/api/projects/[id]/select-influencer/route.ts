@@ -1,27 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabase } from '@/db';
 import { getPipelineQueue } from '@/lib/queue';
+import { checkStageBudget } from '@/lib/budget';
+import { InvalidTransitionError } from '@/lib/errors';
 import { logger } from '@/lib/logger';
-
-// Stages that allow re-selecting influencer / scene / interaction and re-casting
-const RECASTABLE_STATUSES = [
-  'influencer_selection',
-  'casting',
-  'casting_review',
-  'directing',
-  'voiceover',
-  'broll_generation',
-  'asset_review',
-  'editing',
-  'completed',
-  'failed',
-];
+import { RECAST_STATUSES } from '@/lib/pipeline';
+import { transitionProject } from '@/lib/project-status';
 
 /**
  * POST /api/projects/[id]/select-influencer
  *
  * Confirms the influencer selection and enqueues casting.
  * Allowed from influencer_selection or any downstream stage (re-cast).
+ * Returns 402 with the budget check if casting's projected cost would exceed
+ * the project or batch budget.
  */
 export async function POST(
   request: NextRequest,
@@ -51,7 +43,14 @@ export async function POST(
       return NextResponse.json({ error: 'Project not found' }, { status: 404 });
     }
 
-    if (!RECASTABLE_STATUSES.includes(proj.status)) {
+    if (proj.status === 'casting') {
+      return NextResponse.json(
+        { error: 'Project is already being processed. Please wait.' },
+        { status: 409 }
+      );
+    }
+
+    if (!RECAST_STATUSES.includes(proj.status)) {
       return NextResponse.json(
         { error: `Cannot re-cast from status "${proj.status}". Project must be past influencer selection.` },
         { status: 400 }
@@ -83,10 +82,14 @@ export async function POST(
       );
     }
 
+    const budget = await checkStageBudget(supabase, id, 'casting');
+    if (!budget.allowed) {
+      return NextResponse.json({ error: budget.reason, budget }, { status: 402 });
+    }
+
     // Set influencer, product placement, and scene/interaction on the project
     const updateData: Record<string, unknown> = {
       influencer_id: influencerId,
-      updated_at: new Date().toISOString(),
     };
     if (productPlacement && Array.isArray(productPlacement)) {
       updateData.product_placement = productPlacement;
@@ -132,30 +135,20 @@ export async function POST(
       }
     }
 
-    // Always advance to casting status
-    updateData.status = 'casting';
-
     // Clear error state when re-casting from a failed/downstream stage
     if (proj.status !== 'influencer_selection') {
       updateData.error_message = null;
       updateData.failed_at_status = null;
     }
 
-    // Optimistic locking: only update if the project is still in a recastable
-    // status that is NOT already 'casting'. This prevents duplicate casting jobs
-    // when rapid clicks cause concurrent requests — the first request sets
-    // status = 'casting', so the second request's WHERE clause won't match.
-    const allowedStatuses = RECASTABLE_STATUSES.filter(s => s !== 'casting');
-
-    const { data: updated, error: updateError } = await supabase
-      .from('project')
-      .update(updateData)
-      .eq('id', id)
-      .in('status', allowedStatuses)
-      .select('id')
-      .single();
-
-    if (updateError || !updated) {
+    // Optimistic locking: only move to casting if the project is still in a
+    // recastable status that is NOT already 'casting'. This prevents duplicate
+    // casting jobs when rapid clicks cause concurrent requests — the first request
+    // sets status = 'casting', so the second request's transition fails.
+    try {
+      await transitionProject(supabase, id, 'casting', updateData, { from: RECAST_STATUSES });
+    } catch (err) {
+      if (!(err instanceof InvalidTransitionError)) throw err;
       return NextResponse.json(
         { error: 'Project is already being processed. Please wait.' },
         { status: 409 }
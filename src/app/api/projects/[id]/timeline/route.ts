@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabase } from '@/db';
+import { logger } from '@/lib/logger';
+import { getFallbackVideoModel } from '@/lib/constants';
+import { resolveRenderBackend } from '@/lib/renderers';
+import { buildTimeline, loadTimelineRows } from '@/lib/timeline';
+import { resolveCaptionStyle } from '@/lib/captions';
+
+async function buildProjectTimeline(id: string) {
+  const { data: proj, error } = await supabase
+    .from('project')
+    .select('id, renderer, caption_style, music_mode, timeline, video_model:video_model(segment_duration, renderer)')
+    .eq('id', id)
+    .single();
+
+  if (error || !proj) return null;
+
+  const videoModel = (proj.video_model as unknown as { segment_duration: number; renderer: string } | null)
+    ?? getFallbackVideoModel();
+  // Also resolves (and remembers) the auto-selected music track
+  const rows = await loadTimelineRows(supabase, id);
+  const { timeline, issues } = buildTimeline(rows, {
+    segmentDuration: videoModel.segment_duration,
+    captionStyle: resolveCaptionStyle(proj.caption_style),
+  });
+
+  return {
+    timeline,
+    issues,
+    renderer: resolveRenderBackend(proj.renderer, videoModel),
+    captionStyle: proj.caption_style ?? null,
+    musicMode: proj.music_mode,
+    musicTrackId: rows.music?.id ?? null,
+    storedTimeline: proj.timeline ?? null,
+  };
+}
+
+/**
+ * GET /api/projects/[id]/timeline
+ * Preview the timeline the next render would use, built from the current assets.
+ * Also returns the timeline stored by the last render, if any.
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const result = await buildProjectTimeline(id);
+    if (!result) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+    return NextResponse.json(result);
+  } catch (error) {
+    logger.error({ err: error, route: '/api/projects/[id]/timeline' }, 'Error building timeline');
+    return NextResponse.json({ error: 'Failed to build timeline' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/projects/[id]/timeline
+ * Rebuild the timeline from the current assets and store it on the project.
+ */
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const result = await buildProjectTimeline(id);
+    if (!result) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const { error } = await supabase
+      .from('project')
+      .update({ timeline: result.timeline, updated_at: new Date().toISOString() })
+      .eq('id', id);
+
+    if (error) {
+      logger.error({ err: error, route: '/api/projects/[id]/timeline' }, 'Error storing timeline');
+      return NextResponse.json({ error: 'Failed to store timeline' }, { status: 500 });
+    }
+
+    return NextResponse.json({ timeline: result.timeline, issues: result.issues, renderer: result.renderer });
+  } catch (error) {
+    logger.error({ err: error, route: '/api/projects/[id]/timeline' }, 'Error building timeline');
+    return NextResponse.json({ error: 'Failed to build timeline' }, { status: 500 });
+  }
+}
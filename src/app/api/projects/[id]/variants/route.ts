@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabase } from '@/db';
+import { logger } from '@/lib/logger';
+import { variantLabel } from '@/lib/variants';
+
+/**
+ * GET /api/projects/[id]/variants
+ *
+ * Returns the A/B hook variant group the project belongs to (the parent plus its
+ * siblings, in variant order): each variant's hook, hook_score breakdown, status
+ * and linked TikTok performance, so the hooks can be compared side by side.
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const { data: proj, error } = await supabase
+      .from('project')
+      .select('id, variant_parent_id')
+      .eq('id', id)
+      .single();
+
+    if (error || !proj) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const groupId = proj.variant_parent_id || proj.id;
+
+    const { data: projects, error: projectsError } = await supabase
+      .from('project')
+      .select('id, name, status, variant_index, cost_usd, render_url')
+      .or(`id.eq.${groupId},variant_parent_id.eq.${groupId}`)
+      .order('variant_index');
+
+    if (projectsError) {
+      logger.error({ err: projectsError, route: '/api/projects/[id]/variants' }, 'Error fetching variants');
+      return NextResponse.json({ error: 'Failed to fetch variants' }, { status: 500 });
+    }
+
+    const projectIds = (projects || []).map((p) => p.id);
+
+    // Latest script per project → hook score and breakdown
+    const { data: scripts } = await supabase
+      .from('script')
+      .select('id, project_id, version, hook_score, hook_score_breakdown')
+      .in('project_id', projectIds)
+      .order('version', { ascending: false });
+
+    const latestScripts = new Map<string, NonNullable<typeof scripts>[number]>();
+    for (const script of scripts || []) {
+      if (!latestScripts.has(script.project_id)) latestScripts.set(script.project_id, script);
+    }
+
+    // Latest hook scene per script → hook text
+    const scriptIds = Array.from(latestScripts.values()).map((s) => s.id);
+    const { data: hookScenes } = await supabase
+      .from('scene')
+      .select('script_id, script_text, version')
+      .in('script_id', scriptIds)
+      .eq('segment_index', 0)
+      .order('version', { ascending: false });
+
+    const hookTexts = new Map<string, string | null>();
+    for (const scene of hookScenes || []) {
+      if (!hookTexts.has(scene.script_id)) hookTexts.set(scene.script_id, scene.script_text);
+    }
+
+    const { data: performance } = await supabase
+      .from('video_performance')
+      .select('project_id, views, gmv_usd, conversion_rate_pct, roi, performance_badge')
+      .in('project_id', projectIds);
+
+    const performanceByProject = new Map((performance || []).map((p) => [p.project_id, p]));
+
+    const variants = (projects || []).map((p) => {
+      const script = latestScripts.get(p.id);
+      const perf = performanceByProject.get(p.id);
+      return {
+        projectId: p.id,
+        label: variantLabel(p.variant_index ?? 0),
+        variantIndex: p.variant_index ?? 0,
+        name: p.name,
+        status: p.status,
+        costUsd: p.cost_usd,
+        renderUrl: p.render_url,
+        hookText: script ? hookTexts.get(script.id) ?? null : null,
+        hookScore: script?.hook_score ?? null,
+        hookScoreBreakdown: script?.hook_score_breakdown ?? null,
+        performance: perf
+          ? {
+              views: perf.views,
+              gmvUsd: perf.gmv_usd,
+              conversionRatePct: perf.conversion_rate_pct,
+              roi: perf.roi,
+              badge: perf.performance_badge,
+            }
+          : null,
+      };
+    });
+
+    return NextResponse.json({ groupId, variants });
+  } catch (err) {
+    logger.error({ err, route: '/api/projects/[id]/variants' }, 'Error fetching variants');
+    return NextResponse.json({ error: 'Failed to fetch variants' }, { status: 500 });
+  }
+}
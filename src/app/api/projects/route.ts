@@ -1,66 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabase } from '@/db';
-import { getPipelineQueue } from '@/lib/queue';
-import { TONE_IDS } from '@/lib/constants';
-import { countTextSyllables } from '@/lib/syllables';
-import { z } from 'zod';
+import { createProject, createProjectSchema } from '@/lib/projects';
+import { ProjectCreationError } from '@/lib/errors';
 import { logger } from '@/lib/logger';
 
-const DEFAULT_SYLLABLE_TARGETS = {
-  hook: { min: 70, max: 70 },
-  problem: { min: 70, max: 70 },
-  solution_product: { min: 70, max: 70 },
-  cta: { min: 70, max: 70 },
-};
-
-/**
- * Derive syllable targets from a style preset's transcript.
- * Uses ±15% of the actual syllable count per segment as the target range.
- */
-function deriveSyllableTargetsFromPreset(
-  transcript: { segments: Array<{ section: string; text: string }> } | null
-): typeof DEFAULT_SYLLABLE_TARGETS {
-  if (!transcript?.segments || transcript.segments.length < 4) {
-    return DEFAULT_SYLLABLE_TARGETS;
-  }
-
-  const targets = { ...DEFAULT_SYLLABLE_TARGETS };
-
-  for (const seg of transcript.segments) {
-    const count = countTextSyllables(seg.text);
-    const min = Math.round(count * 0.85);
-    const max = Math.round(count * 1.15);
-    const section = seg.section.toLowerCase();
-
-    if (section === 'hook') {
-      targets.hook = { min, max };
-    } else if (section === 'problem') {
-      targets.problem = { min, max };
-    } else if (section.includes('solution')) {
-      targets.solution_product = { min, max };
-    } else if (section === 'cta') {
-      targets.cta = { min, max };
-    }
-  }
-
-  return targets;
-}
-
-const createProjectSchema = z.object({
-  productId: z.string().uuid().optional(),
-  productUrl: z.string().url('Must be a valid URL').optional(),
-  videoUrl: z.string().url().optional(),
-  influencerId: z.string().uuid().optional(),
-  characterId: z.string().uuid().optional(),
-  videoModelId: z.string().uuid().optional(),
-  stylePresetId: z.string().uuid().optional(),
-  name: z.string().optional(),
-  tone: z.enum(TONE_IDS as [string, ...string[]]).optional().default('reluctant-insider'),
-}).refine(
-  (data) => data.productId || data.productUrl,
-  { message: 'Either productId or productUrl is required' }
-);
-
 export async function GET() {
   const { data: projects, error } = await supabase
     .from('project')
@@ -87,167 +30,12 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { productId, productUrl, videoUrl, influencerId, characterId, videoModelId, stylePresetId, name, tone } = parsed.data;
-
-    // Resolve video model: use provided ID, or fall back to the default model
-    let resolvedVideoModelId = videoModelId || null;
-    if (!resolvedVideoModelId) {
-      const { data: defaultModel } = await supabase
-        .from('video_model')
-        .select('id')
-        .eq('is_default', true)
-        .eq('status', 'active')
-        .limit(1)
-        .single();
-      resolvedVideoModelId = defaultModel?.id || null;
-    }
-
-    // Resolve syllable targets from style preset if selected
-    let syllableTargets = DEFAULT_SYLLABLE_TARGETS;
-    if (stylePresetId) {
-      const { data: preset } = await supabase
-        .from('style_preset')
-        .select('transcript')
-        .eq('id', stylePresetId)
-        .single();
-      if (preset?.transcript) {
-        syllableTargets = deriveSyllableTargetsFromPreset(
-          preset.transcript as { segments: Array<{ section: string; text: string }> }
-        );
-      }
-    }
-
-    // Path A: existing product by ID
-    if (productId) {
-      const { data: prod, error: prodError } = await supabase
-        .from('product')
-        .select('*')
-        .eq('id', productId)
-        .single();
-
-      if (prodError || !prod) {
-        return NextResponse.json({ error: 'Product not found' }, { status: 404 });
-      }
-
-      const { data: newProject, error } = await supabase
-        .from('project')
-        .insert({
-          product_id: productId,
-          product_url: prod.url,
-          product_name: prod.name || null,
-          product_category: prod.category || null,
-          product_image_url: prod.image_url || null,
-          product_data: prod.analysis_data || null,
-          video_url: videoUrl || null,
-          influencer_id: influencerId || null,
-          character_id: characterId || null,
-          video_model_id: resolvedVideoModelId,
-          style_preset_id: stylePresetId || null,
-          syllable_targets: syllableTargets,
-          name: name || null,
-          tone,
-          input_mode: videoUrl ? 'video_analysis' : 'product_only',
-          status: prod.status === 'analyzed' ? 'analysis_review' : 'created',
-        })
-        .select()
-        .single();
-
-      if (error) {
-        logger.error({ err: error, route: '/api/projects' }, 'Error creating project');
-        return NextResponse.json({ error: 'Failed to create project' }, { status: 500 });
-      }
-
-      // If product is not yet analyzed, enqueue analysis
-      if (prod.status !== 'analyzed') {
-        await getPipelineQueue().add('product_analysis', {
-          projectId: newProject.id,
-          productId: productId,
-          step: 'product_analysis',
-        });
-      }
-
-      return NextResponse.json(newProject, { status: 201 });
-    }
-
-    // Path B: new product URL
-    // Check if product with this URL already exists
-    let linkedProductId: string | null = null;
-    let skipAnalysis = false;
-    let productData: Record<string, unknown> | null = null;
-
-    const { data: existingProduct } = await supabase
-      .from('product')
-      .select('*')
-      .eq('url', productUrl!)
-      .single();
-
-    if (existingProduct) {
-      linkedProductId = existingProduct.id;
-      if (existingProduct.status === 'analyzed') {
-        skipAnalysis = true;
-        productData = existingProduct;
-      }
-    } else {
-      // Create new product record
-      const { data: newProduct, error: prodCreateError } = await supabase
-        .from('product')
-        .insert({ url: productUrl!, status: 'created' })
-        .select()
-        .single();
-
-      if (prodCreateError || !newProduct) {
-        logger.error({ err: prodCreateError, route: '/api/projects' }, 'Error creating product');
-        return NextResponse.json({ error: 'Failed to create product' }, { status: 500 });
-      }
-
-      linkedProductId = newProduct.id;
-    }
-
-    const { data: newProject, error } = await supabase
-      .from('project')
-      .insert({
-        product_id: linkedProductId,
-        product_url: productUrl!,
-        product_name: productData?.name as string || null,
-        product_category: productData?.category as string || null,
-        product_image_url: productData?.image_url as string || null,
-        product_data: productData?.analysis_data || null,
-        video_url: videoUrl || null,
-        influencer_id: influencerId || null,
-        character_id: characterId || null,
-        video_model_id: resolvedVideoModelId,
-        style_preset_id: stylePresetId || null,
-        syllable_targets: syllableTargets,
-        name: name || null,
-        tone,
-        input_mode: videoUrl ? 'video_analysis' : 'product_only',
-        status: skipAnalysis ? 'analysis_review' : 'created',
-      })
-      .select()
-      .single();
-
-    if (error) {
-      logger.error({ err: error, route: '/api/projects' }, 'Error creating project');
-      return NextResponse.json({ error: 'Failed to create project' }, { status: 500 });
-    }
-
-    // Enqueue analysis if needed
-    if (!skipAnalysis) {
-      await getPipelineQueue().add('product_analysis', {
-        projectId: newProject.id,
-        productId: linkedProductId!,
-        step: 'product_analysis',
-      });
-
-      // Update product status
-      await supabase
-        .from('product')
-        .update({ status: 'analyzing' })
-        .eq('id', linkedProductId!);
-    }
-
+    const newProject = await createProject(supabase, parsed.data);
     return NextResponse.json(newProject, { status: 201 });
   } catch (error) {
+    if (error instanceof ProjectCreationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     logger.error({ err: error, route: '/api/projects' }, 'Error creating project');
     return NextResponse.json(
       { error: 'Failed to create project' },
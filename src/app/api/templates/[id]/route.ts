@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { supabase } from '@/db';
+import { PRODUCT_CATEGORIES, TEMPLATE_STATUSES } from '@/lib/constants';
+import { logger } from '@/lib/logger';
+
+const patchTemplateSchema = z
+  .object({
+    name: z.string().trim().min(1).optional(),
+    hookType: z.string().trim().min(1).optional(),
+    textHookTemplate: z.string().trim().nullable().optional(),
+    spokenHookTemplate: z.string().trim().min(1).optional(),
+    categories: z.array(z.enum(PRODUCT_CATEGORIES)).min(1).optional(),
+    pinned: z.boolean().optional(),
+    status: z.enum(TEMPLATE_STATUSES).optional(),
+  })
+  .refine((data) => Object.values(data).some((v) => v !== undefined), {
+    message: 'At least one field is required',
+  });
+
+/**
+ * PATCH /api/templates/[id]
+ *
+ * Edits a template's hook text, categories or name, pins or unpins it, and
+ * retires or restores it (status). Pinning does not retire anything else: every
+ * pinned template in a category is used in turn.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const body = await request.json();
+    const parsed = patchTemplateSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const fields = parsed.data;
+    const updates: Record<string, unknown> = { updated_at: new Date().toISOString() };
+    if (fields.name !== undefined) updates.name = fields.name;
+    if (fields.hookType !== undefined) updates.hook_type = fields.hookType;
+    if (fields.textHookTemplate !== undefined) updates.text_hook_template = fields.textHookTemplate || null;
+    if (fields.spokenHookTemplate !== undefined) updates.spoken_hook_template = fields.spokenHookTemplate;
+    if (fields.categories !== undefined) updates.categories = fields.categories;
+    if (fields.pinned !== undefined) updates.pinned = fields.pinned;
+    if (fields.status !== undefined) {
+      updates.status = fields.status;
+      // A retired template is never selected, so it should not stay pinned either
+      if (fields.status === 'retired') updates.pinned = false;
+    }
+
+    const { data: updated, error } = await supabase
+      .from('script_template')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      logger.error({ err: error, route: '/api/templates/[id]' }, 'Error updating template');
+      return NextResponse.json({ error: 'Failed to update template' }, { status: 500 });
+    }
+
+    if (!updated) {
+      return NextResponse.json({ error: 'Template not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ template: updated });
+  } catch (err) {
+    logger.error({ err, route: '/api/templates/[id]' }, 'Error updating template');
+    return NextResponse.json({ error: 'Failed to update template' }, { status: 500 });
+  }
+}
@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import { supabase } from '@/db';
+import { mineTemplates } from '@/lib/templates';
+import { logger } from '@/lib/logger';
+
+/**
+ * POST /api/templates/mine
+ *
+ * Runs template mining now instead of waiting for the nightly template_mining
+ * job: every viral or converting run not yet mined becomes a template. Returns
+ * the new template ids.
+ */
+export async function POST() {
+  try {
+    const mined = await mineTemplates(supabase);
+    return NextResponse.json({ mined });
+  } catch (err) {
+    logger.error({ err, route: '/api/templates/mine' }, 'Error mining templates');
+    return NextResponse.json({ error: 'Failed to mine templates' }, { status: 500 });
+  }
+}
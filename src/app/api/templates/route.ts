@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { supabase } from '@/db';
+import { PRODUCT_CATEGORIES, TEMPLATE_STATUSES } from '@/lib/constants';
+import { libraryWeights, loadTemplateRunStats, summarizeRuns } from '@/lib/templates';
+import { logger } from '@/lib/logger';
+
+const createTemplateSchema = z.object({
+  name: z.string().trim().min(1, 'name is required'),
+  hookType: z.string().trim().min(1).optional(),
+  textHookTemplate: z.string().trim().optional(),
+  spokenHookTemplate: z.string().trim().min(1, 'spokenHookTemplate is required'),
+  categories: z.array(z.enum(PRODUCT_CATEGORIES)).min(1, 'Pick at least one category'),
+  pinned: z.boolean().optional(),
+});
+
+/**
+ * GET /api/templates
+ *
+ * Returns the script template library, pinned first then by use. Each template
+ * carries the performance of the runs written from it and its current selection
+ * weight per category (src/lib/templates.ts).
+ * Optional ?status=active|retired|all (default active) and ?category=supplements.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const status = request.nextUrl.searchParams.get('status') || 'active';
+    const category = request.nextUrl.searchParams.get('category');
+
+    if (status !== 'all' && !(TEMPLATE_STATUSES as readonly string[]).includes(status)) {
+      return NextResponse.json({ error: `status must be one of: all, ${TEMPLATE_STATUSES.join(', ')}` }, { status: 400 });
+    }
+
+    const { data: templates, error } = await supabase
+      .from('script_template')
+      .select('*')
+      .order('pinned', { ascending: false })
+      .order('times_used', { ascending: false });
+
+    if (error) {
+      logger.error({ err: error, route: '/api/templates' }, 'Error fetching templates');
+      return NextResponse.json({ error: 'Failed to fetch templates' }, { status: 500 });
+    }
+
+    // Weights depend on every active template in a category, so compute them
+    // over the whole library before filtering.
+    const stats = await loadTemplateRunStats(supabase);
+    const weights = libraryWeights(templates || [], stats);
+
+    const result = (templates || [])
+      .filter((t) => status === 'all' || t.status === status)
+      .filter((t) => !category || (t.categories as string[] | null)?.includes(category))
+      .map((t) => ({
+        ...t,
+        performance: summarizeRuns(stats.filter((s) => s.templateId === t.id)),
+        weights: weights.get(t.id) ?? {},
+      }));
+
+    return NextResponse.json({ templates: result });
+  } catch (err) {
+    logger.error({ err, route: '/api/templates' }, 'Error fetching templates');
+    return NextResponse.json({ error: 'Failed to fetch templates' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/templates
+ *
+ * Adds a hand-written template to the library.
+ * Body: { name, spokenHookTemplate, categories, hookType?, textHookTemplate?, pinned? }
+ * Use {product} where the product name goes.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const parsed = createTemplateSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const input = parsed.data;
+    const { data: template, error } = await supabase
+      .from('script_template')
+      .insert({
+        name: input.name,
+        hook_type: input.hookType ?? 'custom',
+        text_hook_template: input.textHookTemplate || null,
+        spoken_hook_template: input.spokenHookTemplate,
+        categories: input.categories,
+        pinned: input.pinned ?? false,
+        source: 'manual',
+      })
+      .select()
+      .single();
+
+    if (error) {
+      logger.error({ err: error, route: '/api/templates' }, 'Error creating template');
+      return NextResponse.json({ error: 'Failed to create template' }, { status: 500 });
+    }
+
+    return NextResponse.json({ template }, { status: 201 });
+  } catch (err) {
+    logger.error({ err, route: '/api/templates' }, 'Error creating template');
+    return NextResponse.json({ error: 'Failed to create template' }, { status: 500 });
+  }
+}
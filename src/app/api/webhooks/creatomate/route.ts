@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabase } from '@/db';
+import { toTaskState, type RenderResult } from '@/lib/api-clients/creatomate';
+import { logger } from '@/lib/logger';
+import { settleTaskAsset, verifyWebhookToken, wakeParkedJob } from '@/lib/webhooks';
+
+/**
+ * POST /api/webhooks/creatomate?token=<WEBHOOK_SECRET>
+ * Creatomate render callback. Records a finished render on its final_video asset
+ * row (matched by provider_task_id) and wakes the editing job parked on it.
+ */
+export async function POST(request: NextRequest) {
+  if (!verifyWebhookToken(request.nextUrl.searchParams.get('token'))) {
+    return NextResponse.json({ error: 'Invalid webhook token' }, { status: 401 });
+  }
+
+  try {
+    const render = await request.json() as RenderResult;
+    if (!render.id) {
+      return NextResponse.json({ error: 'Missing render id' }, { status: 400 });
+    }
+
+    const state = toTaskState(render);
+    if (state.status === 'pending') {
+      return NextResponse.json({ received: true });
+    }
+
+    const assets = await settleTaskAsset(supabase, render.id, state);
+    const woken = await wakeParkedJob(render.id);
+    logger.info(
+      { taskId: render.id, status: state.status, assets: assets.length, woken, route: '/api/webhooks/creatomate' },
+      'Creatomate render callback received'
+    );
+
+    return NextResponse.json({ received: true });
+  } catch (error) {
+    logger.error({ err: error, route: '/api/webhooks/creatomate' }, 'Error handling Creatomate callback');
+    return NextResponse.json(
+      { error: 'Failed to handle callback' },
+      { status: 500 }
+    );
+  }
+}
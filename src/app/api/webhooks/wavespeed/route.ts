@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabase } from '@/db';
+import { toTaskState, type WaveSpeedPrediction } from '@/lib/api-clients/wavespeed';
+import { logger } from '@/lib/logger';
+import { settleTaskAsset, verifyWebhookToken, wakeParkedJob } from '@/lib/webhooks';
+
+/**
+ * POST /api/webhooks/wavespeed?token=<WEBHOOK_SECRET>
+ * WaveSpeed task callback. Records a finished task on its asset row (matched by
+ * provider_task_id) and wakes the pipeline job parked on it.
+ */
+export async function POST(request: NextRequest) {
+  if (!verifyWebhookToken(request.nextUrl.searchParams.get('token'))) {
+    return NextResponse.json({ error: 'Invalid webhook token' }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json() as WaveSpeedPrediction & { data?: WaveSpeedPrediction };
+    const prediction = body.data ?? body;
+    if (!prediction.id) {
+      return NextResponse.json({ error: 'Missing task id' }, { status: 400 });
+    }
+
+    const state = toTaskState(prediction);
+    if (state.status === 'pending') {
+      return NextResponse.json({ received: true });
+    }
+
+    const assets = await settleTaskAsset(supabase, prediction.id, state);
+    const woken = await wakeParkedJob(prediction.id);
+    logger.info(
+      { taskId: prediction.id, status: state.status, assets: assets.length, woken, route: '/api/webhooks/wavespeed' },
+      'WaveSpeed task callback received'
+    );
+
+    return NextResponse.json({ received: true });
+  } catch (error) {
+    logger.error({ err: error, route: '/api/webhooks/wavespeed' }, 'Error handling WaveSpeed callback');
+    return NextResponse.json(
+      { error: 'Failed to handle callback' },
+      { status: 500 }
+    );
+  }
+}
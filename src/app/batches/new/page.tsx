@@ -0,0 +1,21 @@
+import { BatchForm } from '@/components/batch-form';
+
+export const dynamic = 'force-dynamic';
+
+export default function NewBatchPage() {
+  return (
+    <main className="mx-auto max-w-2xl px-6 py-10 lg:px-8">
+      <div className="animate-fade-in-up">
+        <h1 className="font-[family-name:var(--font-display)] text-3xl font-bold tracking-tight text-text-primary">
+          New Batch
+        </h1>
+        <p className="mt-1 text-sm text-text-secondary">
+          Paste or upload a manifest — one project is created per row
+        </p>
+      </div>
+      <div className="mt-8 animate-fade-in-up rounded-xl border border-border bg-surface p-6" style={{ animationDelay: '100ms' }}>
+        <BatchForm />
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,21 @@
+import { FailureTriage } from '@/components/failure-triage';
+
+export const dynamic = 'force-dynamic';
+
+export default function FailuresPage() {
+  return (
+    <main className="mx-auto max-w-7xl px-6 py-10 lg:px-8">
+      <div className="animate-fade-in-up">
+        <h1 className="font-[family-name:var(--font-display)] text-3xl font-bold tracking-tight text-text-primary">
+          Failures
+        </h1>
+        <p className="mt-1 text-sm text-text-secondary">
+          Jobs that failed for good, grouped by cause across projects. Retry, roll back or dismiss them in bulk
+        </p>
+      </div>
+      <div className="mt-8">
+        <FailureTriage />
+      </div>
+    </main>
+  );
+}
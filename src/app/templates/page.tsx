@@ -0,0 +1,21 @@
+import { TemplateLibrary } from '@/components/template-library';
+
+export const dynamic = 'force-dynamic';
+
+export default function TemplatesPage() {
+  return (
+    <main className="mx-auto max-w-7xl px-6 py-10 lg:px-8">
+      <div className="animate-fade-in-up">
+        <h1 className="font-[family-name:var(--font-display)] text-3xl font-bold tracking-tight text-text-primary">
+          Script Templates
+        </h1>
+        <p className="mt-1 text-sm text-text-secondary">
+          Hook templates scripts are written from, weighted by how their runs sold. Viral and converting runs are mined into new templates nightly
+        </p>
+      </div>
+      <div className="mt-8">
+        <TemplateLibrary />
+      </div>
+    </main>
+  );
+}
@@ -5,16 +5,18 @@ import { KPICards } from './kpi-cards';
 import { RunTable } from './run-table';
 import { Leaderboard } from './leaderboard';
 import { DimensionBreakdown } from './dimension-breakdown';
+import { HookCalibrationPanel } from './hook-calibration';
 import { AnalyticsEmpty } from './analytics-empty';
 import { generateMockRuns, computeSummary, EMPTY_SUMMARY } from './mock-data';
 import type { KPISummary, AnalyticsFilters } from './types';
 
-type Tab = 'runs' | 'leaderboard' | 'breakdown';
+type Tab = 'runs' | 'leaderboard' | 'breakdown' | 'calibration';
 
 const TABS: { key: Tab; label: string }[] = [
   { key: 'runs', label: 'Runs' },
   { key: 'leaderboard', label: 'Leaderboard' },
   { key: 'breakdown', label: 'Breakdown' },
+  { key: 'calibration', label: 'Hook Calibration' },
 ];
 
 /** Map camelCase dashboard API response to snake_case KPISummary */
@@ -118,6 +120,7 @@ export function AnalyticsDashboard() {
       )}
       {activeTab === 'leaderboard' && <Leaderboard />}
       {activeTab === 'breakdown' && <DimensionBreakdown />}
+      {activeTab === 'calibration' && <HookCalibrationPanel />}
     </div>
   );
 }
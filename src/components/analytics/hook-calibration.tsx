@@ -0,0 +1,240 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type { CalibrationOutcome, HookCalibration } from '@/lib/hook-calibration';
+
+interface CalibrationResponse {
+  calibrations: HookCalibration[];
+  appliedId: string | null;
+  defaultMinimum: number;
+  minSamples: number;
+}
+
+const OUTCOME_LABELS: Record<CalibrationOutcome, string> = {
+  views: 'Views',
+  completion: 'Completion',
+  conversion: 'Conversion',
+};
+
+function correlationClass(r: number | null): string {
+  if (r === null) return 'text-text-muted';
+  if (r >= 0.2) return 'text-lime';
+  if (r <= -0.2) return 'text-magenta';
+  return 'text-text-secondary';
+}
+
+function formatR(r: number | null): string {
+  return r === null ? '—' : r.toFixed(2);
+}
+
+/**
+ * Hook score calibration: which rubric criteria predict views, completion and
+ * conversion on posted videos, the weights fitted from that, and the switch that
+ * makes ScriptingAgent score with them.
+ */
+export function HookCalibrationPanel() {
+  const [state, setState] = useState<CalibrationResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const load = useCallback(() => {
+    fetch('/api/analytics/hook-calibration')
+      .then(async (res) => {
+        const json = await res.json();
+        if (!res.ok) throw new Error(json.error || 'Failed to load hook calibration');
+        setState(json);
+        setError(null);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load hook calibration'));
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  async function recalibrate() {
+    setBusy(true);
+    setNotice(null);
+    try {
+      const res = await fetch('/api/analytics/hook-calibration', { method: 'POST' });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || 'Calibration failed');
+      load();
+    } catch (err) {
+      setNotice(err instanceof Error ? err.message : 'Calibration failed');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function setApplied(id: string, applied: boolean) {
+    setBusy(true);
+    setNotice(null);
+    try {
+      const res = await fetch(`/api/analytics/hook-calibration/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ applied }),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || 'Failed to update calibration');
+      load();
+    } catch (err) {
+      setNotice(err instanceof Error ? err.message : 'Failed to update calibration');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  if (error) {
+    return <p className="text-sm text-magenta">{error}</p>;
+  }
+
+  if (!state) {
+    return (
+      <div className="space-y-3">
+        {[0, 1, 2].map((i) => (
+          <div key={i} className="h-8 animate-shimmer rounded-lg" />
+        ))}
+      </div>
+    );
+  }
+
+  const latest = state.calibrations[0] ?? null;
+  const fit = latest?.fit ?? null;
+  const applied = latest?.id === state.appliedId;
+  const maxWeight = fit ? Math.max(...fit.criteria.map((c) => c.weight), 1) : 1;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3 rounded-xl border border-border bg-surface p-4">
+        <div>
+          <p className="font-[family-name:var(--font-display)] text-sm font-semibold text-text-primary">
+            {state.appliedId ? 'Calibrated hook scoring is on' : 'Hook scores are the plain rubric sum'}
+          </p>
+          <p className="mt-0.5 text-xs text-text-muted">
+            {fit
+              ? `Fitted ${new Date(latest.created_at).toLocaleDateString()} on ${fit.sampleSize} posted runs · refits weekly`
+              : `Needs ${state.minSamples} posted runs with TikTok metrics · refits weekly`}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            disabled={busy}
+            onClick={recalibrate}
+            className="rounded-lg border border-border bg-surface px-3 py-1.5 text-xs font-semibold text-text-primary transition-colors hover:border-electric/40 disabled:opacity-50"
+          >
+            Recalibrate
+          </button>
+          {latest && (
+            <button
+              type="button"
+              disabled={busy}
+              onClick={() => setApplied(latest.id, !applied)}
+              className={`rounded-lg border px-3 py-1.5 text-xs font-semibold transition-colors disabled:opacity-50 ${
+                applied
+                  ? 'border-magenta/30 bg-magenta/10 text-magenta hover:bg-magenta/20'
+                  : 'border-lime/30 bg-lime/10 text-lime hover:bg-lime/20'
+              }`}
+            >
+              {applied ? 'Stop applying' : 'Apply to scoring'}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {notice && (
+        <div className="rounded-lg border border-electric/30 bg-electric/5 px-4 py-3">
+          <p className="text-sm text-text-secondary">{notice}</p>
+        </div>
+      )}
+
+      {fit && (
+        <>
+          <div className="grid gap-3 sm:grid-cols-3">
+            <div className="rounded-xl border border-border bg-surface p-4">
+              <p className="font-[family-name:var(--font-display)] text-[11px] uppercase tracking-wider text-text-muted">Variance explained</p>
+              <p className="mt-1 font-[family-name:var(--font-mono)] text-xl font-bold text-text-primary">{(fit.rSquared * 100).toFixed(0)}%</p>
+            </div>
+            <div className="rounded-xl border border-border bg-surface p-4">
+              <p className="font-[family-name:var(--font-display)] text-[11px] uppercase tracking-wider text-text-muted">Score ↔ performance</p>
+              <p className="mt-1 font-[family-name:var(--font-mono)] text-xl font-bold text-text-primary">
+                {formatR(fit.rawCorrelation)} <span className="text-sm text-text-muted">→</span> {formatR(fit.calibratedCorrelation)}
+              </p>
+              <p className="text-[11px] text-text-muted">plain vs calibrated (in-sample)</p>
+            </div>
+            <div className="rounded-xl border border-border bg-surface p-4">
+              <p className="font-[family-name:var(--font-display)] text-[11px] uppercase tracking-wider text-text-muted">Minimum hook score</p>
+              <p className="mt-1 font-[family-name:var(--font-mono)] text-xl font-bold text-text-primary">
+                {state.defaultMinimum} <span className="text-sm text-text-muted">→</span> {fit.suggestedMinimum ?? '—'}
+              </p>
+              <p className="text-[11px] text-text-muted">configured vs fitted</p>
+            </div>
+          </div>
+
+          <div className="overflow-x-auto rounded-xl border border-border bg-surface">
+            <table className="w-full text-left text-xs">
+              <thead>
+                <tr className="border-b border-border font-[family-name:var(--font-display)] uppercase tracking-wider text-text-muted">
+                  <th className="px-4 py-2 font-semibold">Criterion</th>
+                  <th className="px-4 py-2 font-semibold">Avg</th>
+                  {(Object.keys(OUTCOME_LABELS) as CalibrationOutcome[]).map((o) => (
+                    <th key={o} className="px-4 py-2 font-semibold">{OUTCOME_LABELS[o]} r</th>
+                  ))}
+                  <th className="w-1/3 px-4 py-2 font-semibold">Weight</th>
+                </tr>
+              </thead>
+              <tbody>
+                {fit.criteria.map((c) => (
+                  <tr key={c.criterion} className="border-b border-border/50 last:border-0">
+                    <td className="px-4 py-2 text-text-primary">{c.criterion.replace(/_/g, ' ')}</td>
+                    <td className="px-4 py-2 font-[family-name:var(--font-mono)] text-text-secondary">{c.mean.toFixed(2)}</td>
+                    {(Object.keys(OUTCOME_LABELS) as CalibrationOutcome[]).map((o) => (
+                      <td key={o} className={`px-4 py-2 font-[family-name:var(--font-mono)] ${correlationClass(c.correlations[o])}`}>
+                        {formatR(c.correlations[o])}
+                      </td>
+                    ))}
+                    <td className="px-4 py-2">
+                      <div className="flex items-center gap-3">
+                        <div className="relative h-2 flex-1 overflow-hidden rounded-full bg-surface-raised">
+                          <div
+                            className={`absolute inset-y-0 left-0 rounded-full ${c.weight >= 1 ? 'bg-lime' : 'bg-magenta'}`}
+                            style={{ width: `${(c.weight / maxWeight) * 100}%` }}
+                          />
+                        </div>
+                        <span className="w-12 text-right font-[family-name:var(--font-mono)] font-semibold text-text-primary">
+                          ×{c.weight.toFixed(2)}
+                        </span>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {fit.tones.length > 0 && (
+            <div className="rounded-xl border border-border bg-surface p-4">
+              <h4 className="mb-2 font-[family-name:var(--font-display)] text-xs font-bold text-text-primary">By tone</h4>
+              <div className="space-y-1.5">
+                {fit.tones.map((t) => (
+                  <div key={t.tone} className="flex items-center justify-between font-[family-name:var(--font-mono)] text-xs">
+                    <span className="text-text-secondary">{t.tone}</span>
+                    <span className="text-text-muted">
+                      {t.runs} run{t.runs === 1 ? '' : 's'} · hook {t.avgHookScore} ·{' '}
+                      <span className={t.performance >= 0 ? 'text-lime' : 'text-magenta'}>
+                        {t.performance >= 0 ? '+' : ''}{t.performance.toFixed(2)}σ
+                      </span>
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
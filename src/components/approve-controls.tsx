@@ -38,6 +38,7 @@ export function ApproveControls({
   const [saving, setSaving] = useState(false);
   const [approving, setApproving] = useState(false);
   const [regenerating, setRegenerating] = useState(false);
+  const [approveError, setApproveError] = useState<string | null>(null);
 
   async function handleGrade(newGrade: string) {
     setGrade(newGrade);
@@ -67,9 +68,15 @@ export function ApproveControls({
           body: JSON.stringify({ feedback }),
         });
       }
-      await fetch(`/api/projects/${projectId}/approve`, {
+      const res = await fetch(`/api/projects/${projectId}/approve`, {
         method: 'POST',
       });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        setApproveError(data.error || 'Approval failed');
+        return;
+      }
+      setApproveError(null);
       onApprove?.();
     } catch (err) {
       console.error('Failed to approve:', err);
@@ -142,6 +149,12 @@ export function ApproveControls({
         />
       </div>
 
+      {approveError && (
+        <p className="rounded-lg border border-magenta/30 bg-magenta/5 px-4 py-3 text-sm text-magenta">
+          {approveError}
+        </p>
+      )}
+
       {/* Action command menu */}
       <CommandMenu
         actions={[
@@ -0,0 +1,173 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { StatusBadge } from './status-badge';
+import { GilDisplay } from './gil-display';
+import type { BatchSummary, FailedBatchRow } from '@/lib/batches';
+
+interface BatchProject {
+  id: string;
+  project_number: number | null;
+  name: string | null;
+  product_name: string | null;
+  product_url: string;
+  tone: string | null;
+  status: string;
+  cost_usd: string | null;
+  error_message: string | null;
+}
+
+interface BatchData {
+  batch: {
+    id: string;
+    name: string | null;
+    row_count: number;
+    budget_usd: string | null;
+    failed_rows: FailedBatchRow[] | null;
+    created_at: string;
+  };
+  projects: BatchProject[];
+  summary: BatchSummary;
+}
+
+const POLL_INTERVAL = 5000;
+
+function SummaryStat({ label, value, color }: { label: string; value: number; color: string }) {
+  return (
+    <div className="rounded-lg border border-border bg-surface px-4 py-3">
+      <p className={`font-[family-name:var(--font-mono)] text-2xl font-bold ${color}`}>{value}</p>
+      <p className="mt-0.5 font-[family-name:var(--font-display)] text-[11px] uppercase tracking-wider text-text-muted">
+        {label}
+      </p>
+    </div>
+  );
+}
+
+export function BatchDetail({ batchId }: { batchId: string }) {
+  const [data, setData] = useState<BatchData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const settled = !!data && data.summary.completed + data.summary.failed === data.summary.total;
+
+  useEffect(() => {
+    async function fetchBatch() {
+      try {
+        const res = await fetch(`/api/batches/${batchId}`);
+        const json = await res.json();
+        if (!res.ok) throw new Error(json.error || 'Failed to load batch');
+        setData(json);
+        setError(null);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load batch');
+      }
+    }
+
+    fetchBatch();
+    if (settled) return;
+    const interval = setInterval(fetchBatch, POLL_INTERVAL);
+    return () => clearInterval(interval);
+  }, [batchId, settled]);
+
+  if (error && !data) {
+    return (
+      <div className="rounded-lg border border-magenta/30 bg-magenta/10 px-4 py-3">
+        <p className="text-sm text-magenta">{error}</p>
+      </div>
+    );
+  }
+
+  if (!data) {
+    return <p className="text-sm text-text-muted">Loading batch...</p>;
+  }
+
+  const { batch, projects, summary } = data;
+  const failedRows = batch.failed_rows || [];
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-end justify-between gap-4">
+        <div>
+          <h1 className="font-[family-name:var(--font-display)] text-3xl font-bold tracking-tight text-text-primary">
+            {batch.name || 'Untitled Batch'}
+          </h1>
+          <p className="mt-1 text-sm text-text-secondary">
+            {summary.total} of {batch.row_count} projects created · {new Date(batch.created_at).toLocaleString()}
+          </p>
+        </div>
+        <div className="text-right">
+          <GilDisplay amount={summary.costUsd} className="font-[family-name:var(--font-mono)] text-lg text-gil" />
+          <p className="font-[family-name:var(--font-display)] text-[11px] uppercase tracking-wider text-text-muted">
+            Total cost{batch.budget_usd != null && ` of $${parseFloat(batch.budget_usd).toFixed(2)} budget`}
+          </p>
+        </div>
+      </div>
+
+      {/* Aggregate progress */}
+      <div>
+        <div className="mb-2 flex items-center justify-between font-[family-name:var(--font-mono)] text-xs text-text-muted">
+          <span>Progress</span>
+          <span>{Math.round(summary.progress * 100)}%</span>
+        </div>
+        <div className="h-2 overflow-hidden rounded-full bg-surface-raised">
+          <div
+            className="h-full rounded-full bg-electric transition-all"
+            style={{ width: `${summary.progress * 100}%` }}
+          />
+        </div>
+        <div className="mt-4 grid grid-cols-2 gap-3 sm:grid-cols-4">
+          <SummaryStat label="In progress" value={summary.inProgress} color="text-electric" />
+          <SummaryStat label="Awaiting review" value={summary.awaitingReview} color="text-amber-hot" />
+          <SummaryStat label="Completed" value={summary.completed} color="text-lime" />
+          <SummaryStat label="Failed" value={summary.failed} color="text-magenta" />
+        </div>
+      </div>
+
+      {failedRows.length > 0 && (
+        <div className="rounded-lg border border-magenta/30 bg-magenta/10 px-4 py-3">
+          <p className="text-sm text-magenta">
+            {failedRows.length} manifest {failedRows.length === 1 ? 'row' : 'rows'} could not be created
+          </p>
+          <ul className="mt-2 space-y-1 font-[family-name:var(--font-mono)] text-xs text-magenta/80">
+            {failedRows.map((f) => (
+              <li key={f.row}>Row {f.row}: {f.error}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Projects */}
+      <div className="overflow-hidden rounded-xl border border-border">
+        <table className="w-full text-left text-sm">
+          <thead className="bg-surface-raised font-[family-name:var(--font-display)] text-[11px] uppercase tracking-wider text-text-muted">
+            <tr>
+              <th className="px-4 py-2.5">Project</th>
+              <th className="px-4 py-2.5">Tone</th>
+              <th className="px-4 py-2.5">Status</th>
+              <th className="px-4 py-2.5 text-right">Cost</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-border bg-surface">
+            {projects.map((p) => (
+              <tr key={p.id} className="transition-colors hover:bg-surface-raised/50">
+                <td className="max-w-xs px-4 py-3">
+                  <Link href={`/projects/${p.id}`} className="block truncate text-text-primary hover:text-electric">
+                    {p.name || p.product_name || p.product_url}
+                  </Link>
+                  {p.error_message && (
+                    <p className="mt-0.5 truncate text-xs text-magenta">{p.error_message}</p>
+                  )}
+                </td>
+                <td className="px-4 py-3 font-[family-name:var(--font-mono)] text-xs text-text-secondary">{p.tone}</td>
+                <td className="px-4 py-3"><StatusBadge status={p.status} /></td>
+                <td className="px-4 py-3 text-right font-[family-name:var(--font-mono)] text-xs">
+                  <GilDisplay amount={p.cost_usd} />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,168 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { MANIFEST_COLUMNS, MAX_BATCH_ROWS } from '@/lib/batches';
+
+interface RowError {
+  row: number;
+  details: {
+    formErrors: string[];
+    fieldErrors: Record<string, string[] | undefined>;
+  };
+}
+
+const EXAMPLE_MANIFEST = `${MANIFEST_COLUMNS.join(',')}
+https://www.tiktok.com/shop/pdp/...,,reluctant-insider,en-US,,,,Drop 1 — A,,`;
+
+function describeRowError({ row, details }: RowError): string {
+  const messages = [
+    ...details.formErrors,
+    ...Object.entries(details.fieldErrors).map(([field, errs]) => `${field}: ${(errs || []).join(', ')}`),
+  ];
+  return `Row ${row}: ${messages.join('; ')}`;
+}
+
+export function BatchForm() {
+  const router = useRouter();
+  const [name, setName] = useState('');
+  const [budget, setBudget] = useState('');
+  const [manifest, setManifest] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [rowErrors, setRowErrors] = useState<RowError[]>([]);
+
+  async function handleFile(file: File | undefined) {
+    if (!file) return;
+    setManifest(await file.text());
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setLoading(true);
+    setError(null);
+    setRowErrors([]);
+
+    try {
+      const res = await fetch('/api/batches', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: name || undefined, budgetUsd: budget || undefined, manifest }),
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        setRowErrors(data.rowErrors || []);
+        throw new Error(data.error || 'Failed to create batch');
+      }
+
+      router.push(`/batches/${data.batch.id}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      {error && (
+        <div className="rounded-lg border border-magenta/30 bg-magenta/10 px-4 py-3">
+          <p className="text-sm text-magenta">{error}</p>
+          {rowErrors.length > 0 && (
+            <ul className="mt-2 space-y-1 font-[family-name:var(--font-mono)] text-xs text-magenta/80">
+              {rowErrors.map((rowError) => (
+                <li key={rowError.row}>{describeRowError(rowError)}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {/* Batch name */}
+      <div>
+        <label
+          htmlFor="batchName"
+          className="mb-2 block font-[family-name:var(--font-display)] text-sm font-medium text-text-primary"
+        >
+          Batch Name{' '}
+          <span className="font-normal text-text-muted">(optional)</span>
+        </label>
+        <input
+          type="text"
+          id="batchName"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Spring drop"
+          className="block w-full rounded-lg border border-border bg-surface-raised px-4 py-3 text-sm text-text-primary placeholder:text-text-muted transition-all focus:border-electric focus:outline-none focus:ring-1 focus:ring-electric"
+        />
+      </div>
+
+      {/* Batch budget */}
+      <div>
+        <label
+          htmlFor="batchBudget"
+          className="mb-2 block font-[family-name:var(--font-display)] text-sm font-medium text-text-primary"
+        >
+          Batch Budget (USD){' '}
+          <span className="font-normal text-text-muted">(optional)</span>
+        </label>
+        <input
+          type="number"
+          id="batchBudget"
+          min="0.01"
+          step="0.01"
+          value={budget}
+          onChange={(e) => setBudget(e.target.value)}
+          placeholder="50.00"
+          className="block w-full rounded-lg border border-border bg-surface-raised px-4 py-3 text-sm text-text-primary placeholder:text-text-muted transition-all focus:border-electric focus:outline-none focus:ring-1 focus:ring-electric"
+        />
+        <p className="mt-2 text-xs text-text-muted">
+          Caps the combined spend of every project in the batch. A budgetUsd column caps each project on its own.
+        </p>
+      </div>
+
+      {/* Manifest */}
+      <div>
+        <div className="mb-2 flex items-center justify-between">
+          <label
+            htmlFor="manifest"
+            className="block font-[family-name:var(--font-display)] text-sm font-medium text-text-primary"
+          >
+            Manifest <span className="text-magenta">*</span>
+          </label>
+          <label className="cursor-pointer font-[family-name:var(--font-display)] text-xs text-electric transition-colors hover:text-electric/80">
+            Load CSV / JSON file
+            <input
+              type="file"
+              accept=".csv,.json,text/csv,application/json"
+              className="hidden"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+          </label>
+        </div>
+        <textarea
+          id="manifest"
+          required
+          rows={10}
+          value={manifest}
+          onChange={(e) => setManifest(e.target.value)}
+          placeholder={EXAMPLE_MANIFEST}
+          className="block w-full rounded-lg border border-border bg-surface-raised px-4 py-3 font-[family-name:var(--font-mono)] text-xs text-text-primary placeholder:text-text-muted transition-all focus:border-electric focus:outline-none focus:ring-1 focus:ring-electric"
+        />
+        <p className="mt-2 text-xs text-text-muted">
+          CSV with a header row, or a JSON array of objects. Columns: {MANIFEST_COLUMNS.join(', ')}.
+          Each row needs productUrl or productId. Up to {MAX_BATCH_ROWS} rows.
+        </p>
+      </div>
+
+      <button
+        type="submit"
+        disabled={loading || !manifest.trim()}
+        className="group relative w-full overflow-hidden rounded-lg bg-electric px-4 py-3 font-[family-name:var(--font-display)] text-sm font-semibold text-void transition-all hover:shadow-[0_0_32px_rgba(0,240,255,0.25)] disabled:cursor-not-allowed disabled:opacity-50"
+      >
+        {loading ? 'Creating projects...' : 'Create Batch'}
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,86 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { GilDisplay } from './gil-display';
+import type { BatchSummary } from '@/lib/batches';
+
+interface Batch {
+  id: string;
+  name: string | null;
+  row_count: number;
+  budget_usd: string | null;
+  created_at: string;
+  summary: BatchSummary;
+}
+
+export function BatchList() {
+  const [batches, setBatches] = useState<Batch[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch('/api/batches')
+      .then(async (res) => {
+        const json = await res.json();
+        if (!res.ok) throw new Error(json.error || 'Failed to load batches');
+        setBatches(json.batches);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load batches'));
+  }, []);
+
+  if (error) {
+    return (
+      <div className="rounded-lg border border-magenta/30 bg-magenta/10 px-4 py-3">
+        <p className="text-sm text-magenta">{error}</p>
+      </div>
+    );
+  }
+
+  if (!batches) {
+    return <p className="text-sm text-text-muted">Loading batches...</p>;
+  }
+
+  if (batches.length === 0) {
+    return (
+      <div className="rounded-xl border border-dashed border-border bg-surface/50 px-6 py-12 text-center">
+        <p className="text-sm text-text-secondary">No batches yet. Upload a manifest to create projects in bulk.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+      {batches.map((batch) => (
+        <Link
+          key={batch.id}
+          href={`/batches/${batch.id}`}
+          className="group rounded-xl border border-border bg-surface p-5 transition-all duration-300 hover:border-electric/40 hover:bg-surface-raised"
+        >
+          <div className="flex items-start justify-between gap-3">
+            <h3 className="truncate font-[family-name:var(--font-display)] text-lg font-bold text-text-primary">
+              {batch.name || 'Untitled Batch'}
+            </h3>
+            <GilDisplay amount={batch.summary.costUsd} className="font-[family-name:var(--font-mono)] text-xs text-gil" />
+          </div>
+          <p className="mt-1 font-[family-name:var(--font-mono)] text-[11px] text-text-muted">
+            {batch.summary.total} projects · {new Date(batch.created_at).toLocaleDateString()}
+            {batch.budget_usd != null && ` · $${parseFloat(batch.budget_usd).toFixed(2)} budget`}
+          </p>
+          <div className="mt-4 h-1.5 overflow-hidden rounded-full bg-surface-raised">
+            <div
+              className="h-full rounded-full bg-electric transition-all"
+              style={{ width: `${batch.summary.progress * 100}%` }}
+            />
+          </div>
+          <p className="mt-2 font-[family-name:var(--font-mono)] text-[11px] text-text-secondary">
+            <span className="text-lime">{batch.summary.completed} done</span>
+            {' · '}
+            <span className="text-amber-hot">{batch.summary.awaitingReview} review</span>
+            {' · '}
+            <span className="text-magenta">{batch.summary.failed} failed</span>
+          </p>
+        </Link>
+      ))}
+    </div>
+  );
+}
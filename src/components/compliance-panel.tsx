@@ -0,0 +1,233 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type { ComplianceField, ComplianceIssue, ComplianceReport } from '@/lib/compliance';
+
+const FIELD_LABELS: Record<ComplianceField, string> = {
+  script_text: 'Spoken line',
+  text_overlay: 'Overlay',
+};
+
+function scoreColor(score: number): string {
+  if (score >= 90) return 'text-lime';
+  if (score >= 60) return 'text-amber-hot';
+  return 'text-magenta';
+}
+
+/** Issues of one scene field; rule issues in a field share one whole-field rewrite. */
+function groupByField(issues: ComplianceIssue[]): { key: string; segmentIndex: number; field: ComplianceField; issues: ComplianceIssue[]; suggestion: string | null }[] {
+  const groups = new Map<string, { key: string; segmentIndex: number; field: ComplianceField; issues: ComplianceIssue[]; suggestion: string | null }>();
+  for (const issue of issues) {
+    const key = `${issue.sceneId}:${issue.field}`;
+    const group = groups.get(key) ?? { key, segmentIndex: issue.segmentIndex, field: issue.field, issues: [], suggestion: null };
+    group.issues.push(issue);
+    group.suggestion ??= issue.suggestion;
+    groups.set(key, group);
+  }
+  return [...groups.values()];
+}
+
+function FieldFix({
+  projectId,
+  scriptId,
+  segmentIndex,
+  field,
+  suggestion,
+  onApplied,
+}: {
+  projectId: string;
+  scriptId: string;
+  segmentIndex: number;
+  field: ComplianceField;
+  suggestion: string;
+  onApplied: () => void;
+}) {
+  const [text, setText] = useState(suggestion);
+  const [applying, setApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => setText(suggestion), [suggestion]);
+
+  async function apply() {
+    setApplying(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/projects/${projectId}/scripts/${scriptId}/segments/${segmentIndex}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ [field]: text }),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to apply rewrite');
+      }
+      onApplied();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to apply rewrite');
+    } finally {
+      setApplying(false);
+    }
+  }
+
+  return (
+    <div className="mt-2">
+      <label className="mb-1 block font-[family-name:var(--font-display)] text-[10px] font-semibold uppercase tracking-wider text-text-muted">
+        Suggested rewrite
+      </label>
+      <div className="flex items-start gap-2">
+        <textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          rows={field === 'script_text' ? 3 : 1}
+          className="block w-full resize-none rounded-lg border border-border bg-surface-raised px-3 py-2 text-sm text-text-primary transition-all focus:border-electric focus:outline-none focus:ring-1 focus:ring-electric"
+        />
+        <button
+          type="button"
+          onClick={apply}
+          disabled={applying || !text.trim()}
+          className="shrink-0 rounded-lg border border-lime/30 bg-lime/10 px-3 py-2 font-[family-name:var(--font-display)] text-xs font-semibold text-lime transition-colors hover:bg-lime/20 disabled:opacity-50"
+        >
+          {applying ? 'Applying...' : 'Apply'}
+        </button>
+      </div>
+      {error && <p className="mt-1 text-xs text-magenta">{error}</p>}
+    </div>
+  );
+}
+
+/**
+ * Claims compliance report for the project's latest script, with each flagged
+ * field's rewrite editable and applied as a new scene version. Hard violations
+ * block approval until fixed.
+ */
+export function CompliancePanel({
+  projectId,
+  scriptId,
+  refreshKey,
+  readOnly,
+  onApplied,
+}: {
+  projectId: string;
+  scriptId: string;
+  /** Changes whenever scenes are edited, to reload the report */
+  refreshKey: string;
+  readOnly?: boolean;
+  onApplied: () => void;
+}) {
+  const [report, setReport] = useState<ComplianceReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [judgeError, setJudgeError] = useState<string | null>(null);
+  const [rechecking, setRechecking] = useState(false);
+
+  const fetchReport = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/projects/${projectId}/compliance`);
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || 'Failed to load compliance report');
+      setReport(json.report);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load compliance report');
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    fetchReport();
+  }, [fetchReport, refreshKey]);
+
+  async function recheck() {
+    setRechecking(true);
+    try {
+      const res = await fetch(`/api/projects/${projectId}/compliance`, { method: 'POST' });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || 'Failed to re-check compliance');
+      setReport(json.report);
+      setJudgeError(json.judgeError ?? null);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to re-check compliance');
+    } finally {
+      setRechecking(false);
+    }
+  }
+
+  if (error) {
+    return <p className="text-xs text-magenta">{error}</p>;
+  }
+
+  if (!report) return null;
+
+  const groups = groupByField(report.scenes.flatMap((scene) => scene.issues));
+
+  return (
+    <div className={`rounded-xl border bg-surface p-5 ${report.hardCount > 0 ? 'border-magenta/40' : 'border-border'}`}>
+      <div className="flex items-center gap-3">
+        <h3 className="font-[family-name:var(--font-display)] text-xs font-semibold uppercase tracking-wider text-text-muted">
+          Compliance
+        </h3>
+        <span className={`font-[family-name:var(--font-mono)] text-sm font-bold ${scoreColor(report.score)}`}>
+          {report.score}/100
+        </span>
+        <span className="font-[family-name:var(--font-mono)] text-[11px] text-text-muted">
+          {report.hardCount} hard · {report.softCount} soft · {report.category}
+          {!report.judged && ' · rules only'}
+        </span>
+        {!readOnly && (
+          <button
+            type="button"
+            onClick={recheck}
+            disabled={rechecking}
+            className="ml-auto rounded-lg border border-border bg-surface px-3 py-1.5 text-xs font-semibold text-text-muted transition-all hover:border-electric/30 hover:text-electric disabled:opacity-50"
+          >
+            {rechecking ? 'Checking...' : 'Re-check'}
+          </button>
+        )}
+      </div>
+
+      {judgeError && (
+        <p className="mt-2 text-xs text-amber-hot">LLM review failed, showing rule checks only: {judgeError}</p>
+      )}
+
+      {groups.length === 0 ? (
+        <p className="mt-3 text-sm text-text-secondary">No claims or disclosure issues found.</p>
+      ) : (
+        <div className="mt-4 space-y-3">
+          {groups.map((group) => (
+            <div key={group.key} className="rounded-lg border border-border/60 px-4 py-3">
+              <p className="font-[family-name:var(--font-display)] text-[10px] font-semibold uppercase tracking-wider text-text-muted">
+                Segment {group.segmentIndex + 1} · {FIELD_LABELS[group.field]}
+              </p>
+              <ul className="mt-2 space-y-1.5">
+                {group.issues.map((issue, i) => (
+                  <li key={`${issue.ruleId}-${i}`} className="text-sm">
+                    <span
+                      className={`mr-2 rounded px-1.5 py-0.5 font-[family-name:var(--font-mono)] text-[10px] font-bold uppercase ${
+                        issue.severity === 'hard' ? 'bg-magenta/10 text-magenta' : 'bg-amber-hot/10 text-amber-hot'
+                      }`}
+                    >
+                      {issue.severity}
+                    </span>
+                    <span className="font-medium text-text-primary">{issue.label}</span>
+                    {issue.excerpt && <span className="text-text-secondary"> — &ldquo;{issue.excerpt}&rdquo;</span>}
+                    {issue.source === 'judge' && <span className="ml-1 text-[10px] text-electric">LLM</span>}
+                    <p className="mt-0.5 text-xs text-text-muted">{issue.message}</p>
+                  </li>
+                ))}
+              </ul>
+              {!readOnly && group.suggestion && (
+                <FieldFix
+                  projectId={projectId}
+                  scriptId={scriptId}
+                  segmentIndex={group.segmentIndex}
+                  field={group.field}
+                  suggestion={group.suggestion}
+                  onApplied={onApplied}
+                />
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
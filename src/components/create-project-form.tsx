@@ -3,6 +3,7 @@
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { ToneSelector } from './tone-selector';
+import { DEFAULT_LOCALE, LOCALES, LOCALE_IDS } from '@/lib/constants';
 
 interface Product {
   id: string;
@@ -77,6 +78,8 @@ export function CreateProjectForm() {
   const [influencerId, setInfluencerId] = useState('');
   const [characterId, setCharacterId] = useState('');
   const [tone, setTone] = useState('reluctant-insider');
+  const [locale, setLocale] = useState<string>(DEFAULT_LOCALE);
+  const [budget, setBudget] = useState('');
   const [products, setProducts] = useState<Product[]>([]);
   const [influencers, setInfluencers] = useState<Influencer[]>([]);
   const [characters, setCharacters] = useState<Character[]>([]);
@@ -146,6 +149,8 @@ export function CreateProjectForm() {
           videoModelId: videoModelId || undefined,
           stylePresetId: stylePresetId || undefined,
           tone,
+          locale,
+          budgetUsd: budget || undefined,
         }),
       });
 
@@ -440,6 +445,68 @@ export function CreateProjectForm() {
         <ToneSelector value={tone} onChange={setTone} />
       </div>
 
+      {/* Language */}
+      <div>
+        <label
+          htmlFor="locale"
+          className="mb-2 block font-[family-name:var(--font-display)] text-sm font-medium text-text-primary"
+        >
+          Language
+        </label>
+        <div className="relative">
+          <select
+            id="locale"
+            value={locale}
+            onChange={(e) => setLocale(e.target.value)}
+            className="block w-full appearance-none rounded-lg border border-border bg-surface-raised px-4 py-3 pr-10 text-sm text-text-primary transition-all focus:border-electric focus:outline-none focus:ring-1 focus:ring-electric"
+          >
+            {LOCALE_IDS.map((id) => (
+              <option key={id} value={id}>
+                {LOCALES[id].label}
+              </option>
+            ))}
+          </select>
+          <svg
+            viewBox="0 0 16 16"
+            fill="none"
+            className="pointer-events-none absolute right-3 top-1/2 h-4 w-4 -translate-y-1/2 text-text-muted"
+            stroke="currentColor"
+            strokeWidth={2}
+            strokeLinecap="round"
+            strokeLinejoin="round"
+          >
+            <polyline points="4 6 8 10 12 6" />
+          </svg>
+        </div>
+        <p className="mt-1.5 text-[11px] text-text-muted">
+          Script, voiceover and text overlays are written in this language.
+        </p>
+      </div>
+
+      {/* Budget */}
+      <div>
+        <label
+          htmlFor="budget"
+          className="mb-2 block font-[family-name:var(--font-display)] text-sm font-medium text-text-primary"
+        >
+          Budget (USD){' '}
+          <span className="font-normal text-text-muted">(optional)</span>
+        </label>
+        <input
+          type="number"
+          id="budget"
+          min="0.01"
+          step="0.01"
+          value={budget}
+          onChange={(e) => setBudget(e.target.value)}
+          placeholder="No cap"
+          className="block w-full rounded-lg border border-border bg-surface-raised px-4 py-3 text-sm text-text-primary placeholder:text-text-muted transition-all focus:border-electric focus:outline-none focus:ring-1 focus:ring-electric"
+        />
+        <p className="mt-1.5 text-xs text-text-muted">
+          A stage whose projected cost would exceed this is stopped before it runs.
+        </p>
+      </div>
+
       {/* Style Preset */}
       {stylePresets.length > 0 && (
         <div>
@@ -0,0 +1,344 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { StatusBadge } from './status-badge';
+import type { DeadLetterSummary, FailureGroup } from '@/lib/failures';
+
+type Action = 'retry' | 'rollback' | 'dismiss';
+
+interface ActionResult {
+  id: string;
+  ok: boolean;
+  error?: string;
+}
+
+interface DeadLetterDetail {
+  job_data: Record<string, unknown>;
+  error_name: string | null;
+  error_stack: string | null;
+  correlation_id: string | null;
+  logs: Array<{ event_type: string; agent_name: string | null; stage: string | null; detail: unknown; created_at: string }> | null;
+}
+
+const STATUS_FILTERS = [
+  { value: 'open', label: 'Open' },
+  { value: 'retried', label: 'Retried' },
+  { value: 'rolled_back', label: 'Rolled back' },
+  { value: 'dismissed', label: 'Dismissed' },
+];
+
+const ACTION_LABELS: Record<Action, string> = {
+  retry: 'Retry',
+  rollback: 'Roll back',
+  dismiss: 'Dismiss',
+};
+
+function FailureDetail({ id }: { id: string }) {
+  const [detail, setDetail] = useState<DeadLetterDetail | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch(`/api/failures/${id}`)
+      .then(async (res) => {
+        const json = await res.json();
+        if (!res.ok) throw new Error(json.error || 'Failed to load failure');
+        setDetail(json);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load failure'));
+  }, [id]);
+
+  if (error) return <p className="text-xs text-magenta">{error}</p>;
+  if (!detail) return <p className="text-xs text-text-muted">Loading...</p>;
+
+  return (
+    <div className="grid gap-4 lg:grid-cols-2">
+      <div>
+        <p className="font-[family-name:var(--font-display)] text-[11px] uppercase tracking-wider text-text-muted">Job payload</p>
+        <pre className="mt-1 max-h-64 overflow-auto rounded-lg bg-void p-3 font-[family-name:var(--font-mono)] text-[11px] text-text-secondary">
+          {JSON.stringify(detail.job_data, null, 2)}
+        </pre>
+        {detail.error_stack && (
+          <>
+            <p className="mt-3 font-[family-name:var(--font-display)] text-[11px] uppercase tracking-wider text-text-muted">Stack</p>
+            <pre className="mt-1 max-h-48 overflow-auto rounded-lg bg-void p-3 font-[family-name:var(--font-mono)] text-[11px] text-magenta/80">
+              {detail.error_stack}
+            </pre>
+          </>
+        )}
+      </div>
+      <div>
+        <p className="font-[family-name:var(--font-display)] text-[11px] uppercase tracking-wider text-text-muted">
+          Logs{detail.correlation_id && ` · last attempt ${detail.correlation_id.slice(0, 8)}`}
+        </p>
+        {detail.logs?.length ? (
+          <ul className="mt-1 max-h-80 space-y-1 overflow-auto rounded-lg bg-void p-3 font-[family-name:var(--font-mono)] text-[11px]">
+            {detail.logs.map((entry, i) => (
+              <li key={i} className="text-text-secondary">
+                <span className="text-text-muted">{new Date(entry.created_at).toLocaleTimeString()}</span>{' '}
+                <span className={entry.event_type.includes('error') ? 'text-magenta' : 'text-electric'}>{entry.event_type}</span>
+                {entry.agent_name && ` ${entry.agent_name}`}
+                {entry.stage && ` · ${entry.stage}`}
+                {entry.detail != null && <span className="block truncate text-text-muted">{JSON.stringify(entry.detail)}</span>}
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="mt-1 text-xs text-text-muted">No generation_log rows were written while the job ran.</p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export function FailureTriage() {
+  const [status, setStatus] = useState('open');
+  const [groups, setGroups] = useState<FailureGroup[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const load = useCallback(() => {
+    setError(null);
+    fetch(`/api/failures?status=${status}`)
+      .then(async (res) => {
+        const json = await res.json();
+        if (!res.ok) throw new Error(json.error || 'Failed to load failures');
+        setGroups(json.groups);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load failures'));
+  }, [status]);
+
+  useEffect(() => {
+    setGroups(null);
+    setSelected(new Set());
+    load();
+  }, [load]);
+
+  async function runAction(action: Action, target: { ids?: string[]; failureClass?: string }, overrideBudget = false) {
+    setBusy(true);
+    setNotice(null);
+    try {
+      const res = await fetch('/api/failures/actions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, ...target, overrideBudget }),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || 'Action failed');
+
+      const skipped = (json.results as ActionResult[]).filter((r) => !r.ok);
+      const reasons = [...new Set(skipped.map((r) => r.error))].join('; ');
+      setNotice(`${ACTION_LABELS[action]}: ${json.succeeded} done${skipped.length ? `, ${skipped.length} skipped (${reasons})` : ''}`);
+      setSelected(new Set());
+      load();
+    } catch (err) {
+      setNotice(err instanceof Error ? err.message : 'Action failed');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function toggle(ids: string[], on: boolean) {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      for (const id of ids) {
+        if (on) next.add(id);
+        else next.delete(id);
+      }
+      return next;
+    });
+  }
+
+  const open = status === 'open';
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex gap-1 rounded-lg border border-border bg-surface p-1">
+          {STATUS_FILTERS.map((f) => (
+            <button
+              key={f.value}
+              onClick={() => setStatus(f.value)}
+              className={`rounded-md px-3 py-1.5 font-[family-name:var(--font-display)] text-xs font-semibold transition-colors ${
+                status === f.value ? 'bg-electric/10 text-electric' : 'text-text-muted hover:text-text-secondary'
+              }`}
+            >
+              {f.label}
+            </button>
+          ))}
+        </div>
+
+        {open && selected.size > 0 && (
+          <div className="flex items-center gap-2">
+            <span className="font-[family-name:var(--font-mono)] text-xs text-text-secondary">{selected.size} selected</span>
+            {(['retry', 'rollback', 'dismiss'] as Action[]).map((action) => (
+              <button
+                key={action}
+                disabled={busy}
+                onClick={() => runAction(action, { ids: [...selected] })}
+                className="rounded-lg border border-border bg-surface px-3 py-1.5 text-xs font-semibold text-text-primary transition-colors hover:border-electric/40 disabled:opacity-50"
+              >
+                {ACTION_LABELS[action]}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {notice && (
+        <div className="rounded-lg border border-electric/30 bg-electric/5 px-4 py-3">
+          <p className="text-sm text-text-secondary">{notice}</p>
+        </div>
+      )}
+
+      {error && (
+        <div className="rounded-lg border border-magenta/30 bg-magenta/10 px-4 py-3">
+          <p className="text-sm text-magenta">{error}</p>
+        </div>
+      )}
+
+      {!groups && !error && <p className="text-sm text-text-muted">Loading failures...</p>}
+
+      {groups?.length === 0 && (
+        <div className="rounded-xl border border-dashed border-border bg-surface/50 px-6 py-12 text-center">
+          <p className="text-sm text-text-secondary">{open ? 'No open failures.' : 'Nothing here.'}</p>
+        </div>
+      )}
+
+      {groups?.map((group) => {
+        const ids = group.items.map((item) => item.id);
+        const allSelected = ids.every((id) => selected.has(id));
+        const budget = group.failureClass === 'budget_exceeded';
+
+        return (
+          <section key={group.failureClass} className="overflow-hidden rounded-xl border border-border">
+            <div className="flex flex-wrap items-start justify-between gap-3 bg-surface-raised px-4 py-3">
+              <div className="min-w-0">
+                <h2 className="font-[family-name:var(--font-display)] text-base font-bold text-text-primary">
+                  {group.label}
+                  <span className="ml-2 font-[family-name:var(--font-mono)] text-xs font-normal text-magenta">
+                    {group.count} {group.count === 1 ? 'job' : 'jobs'} · {group.projectCount} {group.projectCount === 1 ? 'project' : 'projects'}
+                  </span>
+                </h2>
+                <p className="mt-0.5 text-xs text-text-secondary">{group.hint}</p>
+              </div>
+              {open && (
+                <div className="flex gap-2">
+                  <button
+                    disabled={busy}
+                    onClick={() => runAction(group.action, { failureClass: group.failureClass }, budget)}
+                    className="rounded-lg bg-electric px-3 py-1.5 text-xs font-semibold text-void transition-all hover:shadow-[0_0_24px_rgba(0,240,255,0.3)] disabled:opacity-50"
+                  >
+                    {ACTION_LABELS[group.action]} all{budget && ' with override'}
+                  </button>
+                  <button
+                    disabled={busy}
+                    onClick={() => runAction(group.action === 'retry' ? 'rollback' : 'retry', { failureClass: group.failureClass })}
+                    className="rounded-lg border border-border bg-surface px-3 py-1.5 text-xs font-semibold text-text-primary transition-colors hover:border-electric/40 disabled:opacity-50"
+                  >
+                    {ACTION_LABELS[group.action === 'retry' ? 'rollback' : 'retry']} all
+                  </button>
+                </div>
+              )}
+            </div>
+
+            <table className="w-full text-left text-sm">
+              <thead className="bg-surface font-[family-name:var(--font-display)] text-[11px] uppercase tracking-wider text-text-muted">
+                <tr>
+                  {open && (
+                    <th className="w-8 px-4 py-2.5">
+                      <input type="checkbox" checked={allSelected} onChange={(e) => toggle(ids, e.target.checked)} />
+                    </th>
+                  )}
+                  <th className="px-4 py-2.5">Project</th>
+                  <th className="px-4 py-2.5">Step</th>
+                  <th className="px-4 py-2.5">Error</th>
+                  <th className="px-4 py-2.5 text-right">Failed</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border bg-surface">
+                {group.items.map((item: DeadLetterSummary) => (
+                  <FailureRow
+                    key={item.id}
+                    item={item}
+                    selectable={open}
+                    selected={selected.has(item.id)}
+                    expanded={expanded === item.id}
+                    onSelect={(on) => toggle([item.id], on)}
+                    onExpand={() => setExpanded(expanded === item.id ? null : item.id)}
+                  />
+                ))}
+              </tbody>
+            </table>
+          </section>
+        );
+      })}
+    </div>
+  );
+}
+
+function FailureRow({
+  item,
+  selectable,
+  selected,
+  expanded,
+  onSelect,
+  onExpand,
+}: {
+  item: DeadLetterSummary;
+  selectable: boolean;
+  selected: boolean;
+  expanded: boolean;
+  onSelect: (on: boolean) => void;
+  onExpand: () => void;
+}) {
+  return (
+    <>
+      <tr className="cursor-pointer transition-colors hover:bg-surface-raised/50" onClick={onExpand}>
+        {selectable && (
+          <td className="px-4 py-3" onClick={(e) => e.stopPropagation()}>
+            <input type="checkbox" checked={selected} onChange={(e) => onSelect(e.target.checked)} />
+          </td>
+        )}
+        <td className="max-w-[14rem] px-4 py-3">
+          {item.project ? (
+            <div className="flex items-center gap-2">
+              <Link
+                href={`/projects/${item.project.id}`}
+                onClick={(e) => e.stopPropagation()}
+                className="truncate text-text-primary hover:text-electric"
+              >
+                {item.project.name || item.project.id.slice(0, 8)}
+              </Link>
+              <StatusBadge status={item.project.status} />
+            </div>
+          ) : (
+            <span className="font-[family-name:var(--font-mono)] text-xs text-text-muted">
+              {item.subject_id ? item.subject_id.slice(0, 8) : '—'}
+            </span>
+          )}
+        </td>
+        <td className="px-4 py-3 font-[family-name:var(--font-mono)] text-xs text-text-secondary">
+          {item.step}
+          {item.attempts > 1 && <span className="text-text-muted"> ×{item.attempts}</span>}
+        </td>
+        <td className="max-w-md px-4 py-3">
+          <p className="truncate text-xs text-magenta">{item.error_message}</p>
+        </td>
+        <td className="px-4 py-3 text-right font-[family-name:var(--font-mono)] text-[11px] text-text-muted">
+          {new Date(item.created_at).toLocaleString()}
+        </td>
+      </tr>
+      {expanded && (
+        <tr>
+          <td colSpan={selectable ? 5 : 4} className="bg-surface-raised/30 px-4 py-4">
+            <FailureDetail id={item.id} />
+          </td>
+        </tr>
+      )}
+    </>
+  );
+}
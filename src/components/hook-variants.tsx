@@ -0,0 +1,111 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { StatusBadge } from './status-badge';
+import { HOOK_CRITERIA, PIPELINE_CONFIG } from '@/lib/constants';
+
+interface HookVariant {
+  projectId: string;
+  label: string;
+  variantIndex: number;
+  name: string | null;
+  status: string;
+  hookText: string | null;
+  hookScore: number | null;
+  hookScoreBreakdown: Record<string, number | string> | null;
+  performance: {
+    views: number | null;
+    gmvUsd: string | null;
+    roi: string | null;
+    badge: string | null;
+  } | null;
+}
+
+function describeBreakdown(breakdown: Record<string, number | string> | null): string | undefined {
+  if (!breakdown) return undefined;
+  const lines = HOOK_CRITERIA
+    .filter((key) => breakdown[key] != null)
+    .map((key) => `${key.replace(/_/g, ' ')}: ${breakdown[key]}`);
+  if (breakdown.calibrated_total != null) lines.push(`calibrated from rubric total ${breakdown.total}`);
+  return lines.join('\n');
+}
+
+/** Index of the variant leading on ROI (or views, before any revenue is linked). */
+function findLeader(variants: HookVariant[]): number {
+  const metric = (v: HookVariant) =>
+    v.performance?.roi != null ? parseFloat(v.performance.roi) : null;
+  const hasRoi = variants.some((v) => metric(v) !== null);
+  let leader = -1;
+  let best = -Infinity;
+  variants.forEach((v, i) => {
+    const value = hasRoi ? metric(v) : v.performance?.views ?? null;
+    if (value !== null && value > best) {
+      best = value;
+      leader = i;
+    }
+  });
+  return leader;
+}
+
+export function HookVariants({ projectId, projectStatus }: { projectId: string; projectStatus: string }) {
+  const [variants, setVariants] = useState<HookVariant[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch(`/api/projects/${projectId}/variants`)
+      .then(async (res) => {
+        const json = await res.json();
+        if (!res.ok) throw new Error(json.error || 'Failed to load hook variants');
+        setVariants(json.variants);
+        setError(null);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load hook variants'));
+  }, [projectId, projectStatus]);
+
+  if (error) {
+    return <p className="text-xs text-magenta">{error}</p>;
+  }
+
+  if (!variants || variants.length <= 1) return null;
+
+  const leader = findLeader(variants);
+
+  return (
+    <div className="rounded-xl border border-border bg-surface p-4">
+      <h3 className="mb-3 font-[family-name:var(--font-display)] text-sm font-semibold uppercase tracking-wider text-text-secondary">
+        Hook Variants
+      </h3>
+      <div className="space-y-2">
+        {variants.map((v, i) => (
+          <div
+            key={v.projectId}
+            className={`flex items-start gap-3 rounded-lg border px-3 py-2.5 ${v.projectId === projectId ? 'border-electric/40 bg-electric/5' : 'border-border/60'}`}
+          >
+            <span className="mt-0.5 flex h-6 w-6 shrink-0 items-center justify-center rounded-full bg-surface-raised font-[family-name:var(--font-mono)] text-xs font-bold text-text-primary">
+              {v.label}
+            </span>
+            <div className="min-w-0 flex-1">
+              <Link href={`/projects/${v.projectId}`} className="line-clamp-2 text-sm text-text-primary hover:text-electric">
+                {v.hookText || v.name || 'Hook pending'}
+              </Link>
+              <p className="mt-1 font-[family-name:var(--font-mono)] text-[11px] text-text-muted">
+                <span title={describeBreakdown(v.hookScoreBreakdown)}>
+                  Hook {v.hookScore ?? '—'}/{PIPELINE_CONFIG.hookScoreMax}
+                </span>
+                {v.performance && (
+                  <>
+                    {' · '}{(v.performance.views ?? 0).toLocaleString()} views
+                    {v.performance.roi != null && <>{' · '}ROI {v.performance.roi}</>}
+                  </>
+                )}
+                {i === leader && <span className="ml-2 text-lime">Leading</span>}
+              </p>
+            </div>
+            <StatusBadge status={v.status} />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,174 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { StatusBadge } from './status-badge';
+import { LOCALES, LOCALE_IDS, type Locale } from '@/lib/constants';
+
+interface LocalizedVersion {
+  id: string;
+  name: string | null;
+  status: string;
+  locale: Locale;
+  translated: boolean;
+  renderUrl: string | null;
+}
+
+interface VersionGroup {
+  sourceId: string;
+  source: { id: string; name: string | null; status: string; locale: Locale } | null;
+  mode: 'translate' | 'generate' | null;
+  versions: LocalizedVersion[];
+}
+
+interface LocalizeResult {
+  locale: Locale;
+  started: boolean;
+  reason: string | null;
+}
+
+const MODE_HINTS = {
+  translate: 'New versions translate the approved script.',
+  generate: 'The script is not approved yet, so new versions write their own script from the concept.',
+};
+
+/**
+ * Regional versions of the project's concept: the source and each locale's
+ * version, plus (on the source) a picker to spin off more.
+ */
+export function LocalizedVersions({ projectId, projectStatus }: { projectId: string; projectStatus: string }) {
+  const [group, setGroup] = useState<VersionGroup | null>(null);
+  const [selected, setSelected] = useState<Locale[]>([]);
+  const [creating, setCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const fetchGroup = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/projects/${projectId}/localize`);
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || 'Failed to load regional versions');
+      setGroup(json);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load regional versions');
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    fetchGroup();
+  }, [fetchGroup, projectStatus]);
+
+  async function createVersions() {
+    setCreating(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const res = await fetch(`/api/projects/${projectId}/localize`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ locales: selected }),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || 'Failed to create regional versions');
+      const held = (json.results as LocalizeResult[]).filter((r) => !r.started);
+      if (held.length > 0) {
+        setNotice(held.map((r) => `${r.locale}: ${r.reason}`).join(' · '));
+      }
+      setSelected([]);
+      await fetchGroup();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create regional versions');
+    } finally {
+      setCreating(false);
+    }
+  }
+
+  if (!group) {
+    return error ? <p className="text-xs text-magenta">{error}</p> : null;
+  }
+
+  const isSource = group.sourceId === projectId;
+  const taken = new Set<string>([group.source?.locale ?? '', ...group.versions.map((v) => v.locale)]);
+  const available = LOCALE_IDS.filter((id) => !taken.has(id));
+  const canCreate = isSource && group.mode !== null && available.length > 0;
+
+  if (group.versions.length === 0 && !canCreate) return null;
+
+  const rows = [
+    ...(group.source ? [{ ...group.source, translated: false, isSource: true }] : []),
+    ...group.versions.map((v) => ({ ...v, isSource: false })),
+  ];
+
+  return (
+    <div className="rounded-xl border border-border bg-surface p-4">
+      <h3 className="mb-3 font-[family-name:var(--font-display)] text-sm font-semibold uppercase tracking-wider text-text-secondary">
+        Regional Versions
+      </h3>
+
+      {group.versions.length > 0 && (
+        <div className="space-y-2">
+          {rows.map((row) => (
+            <div
+              key={row.id}
+              className={`flex items-center gap-3 rounded-lg border px-3 py-2.5 ${row.id === projectId ? 'border-electric/40 bg-electric/5' : 'border-border/60'}`}
+            >
+              <span className="shrink-0 rounded bg-surface-raised px-1.5 py-0.5 font-[family-name:var(--font-mono)] text-xs font-bold text-text-primary">
+                {row.locale}
+              </span>
+              <div className="min-w-0 flex-1">
+                <Link href={`/projects/${row.id}`} className="line-clamp-1 text-sm text-text-primary hover:text-electric">
+                  {row.name || LOCALES[row.locale]?.label || row.locale}
+                </Link>
+                <p className="mt-0.5 font-[family-name:var(--font-mono)] text-[11px] text-text-muted">
+                  {row.isSource ? 'Source' : row.translated ? 'Translated script' : 'Native script'}
+                </p>
+              </div>
+              <StatusBadge status={row.status} />
+            </div>
+          ))}
+        </div>
+      )}
+
+      {canCreate && group.mode && (
+        <div className={group.versions.length > 0 ? 'mt-4' : ''}>
+          <p className="mb-2 text-xs text-text-muted">{MODE_HINTS[group.mode]}</p>
+          <div className="flex flex-wrap gap-2">
+            {available.map((id) => {
+              const active = selected.includes(id);
+              return (
+                <button
+                  key={id}
+                  type="button"
+                  onClick={() => setSelected((prev) => (active ? prev.filter((l) => l !== id) : [...prev, id]))}
+                  className={`rounded-lg border px-3 py-1.5 text-xs font-semibold transition-all ${
+                    active
+                      ? 'border-electric/50 bg-electric/10 text-electric'
+                      : 'border-border bg-surface text-text-muted hover:border-electric/30 hover:text-electric'
+                  }`}
+                >
+                  {LOCALES[id].label}
+                </button>
+              );
+            })}
+          </div>
+          <button
+            type="button"
+            onClick={createVersions}
+            disabled={creating || selected.length === 0}
+            className="mt-3 rounded-lg border border-lime/30 bg-lime/10 px-3 py-1.5 font-[family-name:var(--font-display)] text-xs font-semibold text-lime transition-colors hover:bg-lime/20 disabled:opacity-50"
+          >
+            {creating
+              ? 'Creating...'
+              : selected.length === 0
+                ? 'Create versions'
+                : `Create ${selected.length} version${selected.length === 1 ? '' : 's'}`}
+          </button>
+        </div>
+      )}
+
+      {notice && <p className="mt-2 text-xs text-amber-hot">Created but not started — {notice}</p>}
+      {error && <p className="mt-2 text-xs text-magenta">{error}</p>}
+    </div>
+  );
+}
@@ -1,9 +1,10 @@
-import { CHARACTER_MAP, getCharacterForStatus } from './ff7-theme';
+'use client';
 
-const REVIEW_GATES = new Set([
-  'analysis_review', 'concept_review', 'script_review', 'broll_review',
-  'influencer_selection', 'casting_review', 'asset_review',
-]);
+import { useCallback, useState } from 'react';
+import { CHARACTER_MAP, getCharacterForStatus } from './ff7-theme';
+import { usePipelineEvents } from './use-pipeline-events';
+import type { PipelineEvent } from '@/lib/events';
+import { isReviewGate } from '@/lib/pipeline';
 
 const STAGES = [
   { key: 'analyzing', label: 'Analyze' },
@@ -38,6 +39,7 @@ const PROCESSING_STAGES = new Set([
 ]);
 
 interface PipelineProgressProps {
+  projectId: string;
   status: string;
   failedAtStatus?: string | null;
   onStageClick?: (stageKey: string) => void;
@@ -45,7 +47,19 @@ interface PipelineProgressProps {
   onCancel?: () => void;
 }
 
-export function PipelineProgress({ status, failedAtStatus, onStageClick, viewingStage, onCancel }: PipelineProgressProps) {
+export function PipelineProgress({ projectId, status: initialStatus, failedAtStatus: initialFailedAt, onStageClick, viewingStage, onCancel }: PipelineProgressProps) {
+  // Status pushed by the event stream, kept until the parent catches up
+  const [live, setLive] = useState<{ from: string; status: string; failedAtStatus: string | null } | null>(null);
+  const handlePipelineEvent = useCallback((event: PipelineEvent) => {
+    if (event.type === 'status') {
+      setLive({ from: initialStatus, status: event.status, failedAtStatus: event.failedAtStatus });
+    }
+  }, [initialStatus]);
+  usePipelineEvents(projectId, handlePipelineEvent);
+
+  const current = live && live.from === initialStatus ? live : null;
+  const status = current?.status ?? initialStatus;
+  const failedAtStatus = current ? current.failedAtStatus : initialFailedAt;
   const isFailed = status === 'failed';
   const effectiveStatus = isFailed && failedAtStatus ? failedAtStatus : status;
   const currentIndex = getStageIndex(effectiveStatus);
@@ -62,7 +76,7 @@ export function PipelineProgress({ status, failedAtStatus, onStageClick, viewing
           const isFailedStage = failedIndex === i && isFailed;
           const isFuture = !isCompleted && !isCurrent;
           const isViewing = viewingStage === stage.key;
-          const isClickable = isCompleted && REVIEW_GATES.has(stage.key) && !!onStageClick;
+          const isClickable = isCompleted && isReviewGate(stage.key) && !!onStageClick;
 
           // Get character color for this stage
           const char = getCharacterForStatus(stage.key);
@@ -8,18 +8,24 @@ import { PipelineProgress } from './pipeline-progress';
 import { ScriptReview } from './script-review';
 import { ConceptReview } from './concept-review';
 import { AssetReview } from './asset-review';
+import { TimelinePreview } from './timeline-preview';
 import { StoryboardView } from './storyboard-view';
 import { ConfirmDialog } from './confirm-dialog';
 import { StageProgress } from './stage-progress';
 import { ToneSelector } from './tone-selector';
-import { SCRIPT_TONES } from '@/lib/constants';
+import { SCRIPT_TONES, PIPELINE_CONFIG, DEFAULT_LOCALE, LOCALES, LOCALE_IDS, getLocale } from '@/lib/constants';
+import { cancelTarget, rollbackTarget } from '@/lib/pipeline';
 import { BattleHUD } from './battle-hud';
 import { uploadToStorage } from './direct-upload';
 import { CommandMenu } from './command-menu';
 import { GilDisplay } from './gil-display';
 import { PresetSelector, type Preset } from './preset-selector';
 import { NegativePromptPanel } from './negative-prompt-panel';
+import { HookVariants } from './hook-variants';
+import { LocalizedVersions } from './localized-versions';
+import { usePipelineEvents } from './use-pipeline-events';
 import { downloadAsset, finalVideoFilename } from '@/lib/download-utils';
+import type { PipelineEvent } from '@/lib/events';
 
 interface ProjectData {
   id: string;
@@ -47,6 +53,7 @@ interface ProjectData {
     avatar_description?: string;
   } | null;
   tone: string | null;
+  locale: string | null;
   character_id: string | null;
   cost_usd: string | null;
   error_message: string | null;
@@ -66,6 +73,8 @@ interface ProjectData {
   lock_camera: boolean | null;
   keyframe_chaining: boolean | null;
   video_retries: number;
+  variant_count: number;
+  variant_parent_id: string | null;
   scene_preset_id: string | null;
   scene_override: string | null;
   interaction_preset_id: string | null;
@@ -79,18 +88,6 @@ interface ProjectData {
   } | null;
 }
 
-// Client-side rollback map (mirrors backend cancel endpoint)
-const CANCEL_ROLLBACK: Record<string, string> = {
-  analyzing: 'created',
-  scripting: 'analysis_review',
-  broll_planning: 'script_review',
-  broll_generation: 'casting_review',
-  casting: 'influencer_selection',
-  directing: 'casting_review',
-  voiceover: 'casting_review',
-  editing: 'asset_review',
-};
-
 const NAV_STAGE_LABELS: Record<string, string> = {
   analysis_review: 'Analysis Review',
   concept_review: 'Concept Review',
@@ -115,7 +112,6 @@ export function ProjectDetail({ projectId }: { projectId: string }) {
   const [showCancelConfirm, setShowCancelConfirm] = useState(false);
   const [cancelToast, setCancelToast] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
   const failCountRef = useRef(0);
-  const timeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   // Scene/interaction preset state for casting_review editing
   const [castingScenePresets, setCastingScenePresets] = useState<Preset[]>([]);
@@ -161,29 +157,15 @@ export function ProjectDetail({ projectId }: { projectId: string }) {
     fetchProject();
   }, [fetchProject]);
 
-  // Poll while in processing state with exponential backoff on failure
-  useEffect(() => {
-    if (!project) return;
-    const processingStatuses = ['created', 'analyzing', 'scripting', 'broll_planning', 'broll_generation', 'influencer_selection', 'casting', 'directing', 'voiceover', 'editing'];
-    if (!processingStatuses.includes(project.status)) return;
-
-    let cancelled = false;
-
-    async function poll() {
-      await fetchProject();
-      if (cancelled) return;
-      const delay = failCountRef.current > 0
-        ? Math.min(2000 * Math.pow(2, failCountRef.current), 30000)
-        : 2000;
-      timeoutRef.current = setTimeout(poll, delay);
+  // Live pipeline events: refetch on status transitions, apply cost increments in place
+  const handlePipelineEvent = useCallback((event: PipelineEvent) => {
+    if (event.type === 'status') {
+      fetchProject();
+    } else if (event.type === 'cost') {
+      setProject((prev) => (prev ? { ...prev, cost_usd: event.costUsd.toFixed(4) } : prev));
     }
-
-    timeoutRef.current = setTimeout(poll, 2000);
-    return () => {
-      cancelled = true;
-      if (timeoutRef.current) clearTimeout(timeoutRef.current);
-    };
-  }, [project?.status, fetchProject]);
+  }, [fetchProject]);
+  const { connectionWarning: streamWarning } = usePipelineEvents(projectId, handlePipelineEvent, fetchProject);
 
   // Clear viewingStage when pipeline advances
   const prevStatusRef = useRef(project?.status);
@@ -247,7 +229,7 @@ export function ProjectDetail({ projectId }: { projectId: string }) {
   // Cancel/stop a running stage — rolls back to previous review gate
   const handleStageCancel = useCallback(async () => {
     if (!project) return;
-    const rollbackTo = CANCEL_ROLLBACK[project.status];
+    const rollbackTo = cancelTarget(project);
     const rollbackLabel = rollbackTo
       ? (NAV_STAGE_LABELS[rollbackTo] || rollbackTo)
       : 'previous stage';
@@ -490,6 +472,7 @@ export function ProjectDetail({ projectId }: { projectId: string }) {
       {/* Pipeline Progress */}
       <div className="rounded-xl border border-border bg-surface p-5">
         <PipelineProgress
+          projectId={projectId}
           status={project.status}
           failedAtStatus={project.failed_at_status}
           onStageClick={handleStageClick}
@@ -566,8 +549,18 @@ export function ProjectDetail({ projectId }: { projectId: string }) {
       {/* Project Settings */}
       <ProjectSettings project={project} onUpdated={fetchProject} />
 
-      {/* Connection warning after consecutive polling failures */}
-      {connectionWarning && (
+      {/* A/B hook variants (parent and siblings) */}
+      {(project.variant_count > 1 || project.variant_parent_id) && (
+        <HookVariants projectId={projectId} projectStatus={project.status} />
+      )}
+
+      {/* Regional versions (source and its locales) */}
+      {!project.variant_parent_id && (
+        <LocalizedVersions projectId={projectId} projectStatus={project.status} />
+      )}
+
+      {/* Connection warning after consecutive fetch or event stream failures */}
+      {(connectionWarning || streamWarning) && (
         <p className="mt-2 text-[11px] text-amber-hot/80">
           Connection issues — retrying...
         </p>
@@ -844,7 +837,10 @@ export function ProjectDetail({ projectId }: { projectId: string }) {
 
       {/* Asset Review */}
       {displayStage === 'asset_review' && (
-        <AssetReview projectId={projectId} projectNumber={project.project_number} onStatusChange={fetchProject} readOnly={readOnlyMode} />
+        <>
+          <AssetReview projectId={projectId} projectNumber={project.project_number} onStatusChange={fetchProject} readOnly={readOnlyMode} />
+          <TimelinePreview projectId={projectId} />
+        </>
       )}
 
       {/* Completed - Final Review */}
@@ -1083,7 +1079,7 @@ export function ProjectDetail({ projectId }: { projectId: string }) {
       <ConfirmDialog
         open={showCancelConfirm}
         title="Stop Generation"
-        description={`Stop the current ${STAGE_LABELS[project.status] || project.status} stage? You'll be returned to ${CANCEL_ROLLBACK[project.status] ? (NAV_STAGE_LABELS[CANCEL_ROLLBACK[project.status]] || CANCEL_ROLLBACK[project.status]) : 'the previous review step'}.`}
+        description={`Stop the current ${STAGE_LABELS[project.status] || project.status} stage? You'll be returned to ${NAV_STAGE_LABELS[cancelTarget(project) ?? ''] || cancelTarget(project) || 'the previous review step'}.`}
         onConfirm={async () => {
           setShowCancelConfirm(false);
           await handleStageCancel();
@@ -2312,18 +2308,6 @@ const STAGE_LABELS: Record<string, string> = {
   editing: 'Video Composition',
 };
 
-const ROLLBACK_LABELS: Record<string, string> = {
-  analyzing: 'Start',
-  scripting: 'Analysis Review',
-  broll_planning: 'Script Review',
-  broll_review: 'Script Review',
-  broll_generation: 'B-Roll Review',
-  casting: 'Influencer Selection',
-  directing: 'Casting Review',
-  voiceover: 'Casting Review',
-  editing: 'Asset Review',
-};
-
 interface FailedRecoveryProps {
   projectId: string;
   errorMessage: string | null;
@@ -2336,12 +2320,18 @@ function FailedRecovery({ projectId, errorMessage, failedAtStatus, onRecovered }
   const [rollingBack, setRollingBack] = useState(false);
 
   const stageLabel = failedAtStatus ? STAGE_LABELS[failedAtStatus] || failedAtStatus : 'Unknown';
-  const rollbackLabel = failedAtStatus ? ROLLBACK_LABELS[failedAtStatus] || 'previous stage' : 'previous stage';
+  const rollbackTo = failedAtStatus ? rollbackTarget(failedAtStatus) : null;
+  const rollbackLabel = rollbackTo === 'created' ? 'Start' : rollbackTo ? NAV_STAGE_LABELS[rollbackTo] || rollbackTo : 'previous stage';
+  const budgetExceeded = !!errorMessage && /budget exceeded/i.test(errorMessage);
 
-  async function handleRetry() {
+  async function handleRetry(overrideBudget = false) {
     setRetrying(true);
     try {
-      const res = await fetch(`/api/projects/${projectId}/retry`, { method: 'POST' });
+      const res = await fetch(`/api/projects/${projectId}/retry`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(overrideBudget ? { overrideBudget: true } : {}),
+      });
       if (res.ok) onRecovered();
     } catch (err) {
       console.error('Retry failed:', err);
@@ -2381,13 +2371,21 @@ function FailedRecovery({ projectId, errorMessage, failedAtStatus, onRecovered }
             <div className="mt-4">
               <CommandMenu
                 actions={[
-                  {
-                    label: `Retry ${stageLabel}`,
-                    onClick: handleRetry,
-                    disabled: retrying || rollingBack,
-                    loading: retrying,
-                    variant: 'primary',
-                  },
+                  budgetExceeded
+                    ? {
+                        label: 'Override Budget & Retry',
+                        onClick: () => handleRetry(true),
+                        disabled: retrying || rollingBack,
+                        loading: retrying,
+                        variant: 'primary',
+                      }
+                    : {
+                        label: `Retry ${stageLabel}`,
+                        onClick: () => handleRetry(),
+                        disabled: retrying || rollingBack,
+                        loading: retrying,
+                        variant: 'primary',
+                      },
                   {
                     label: `Back to ${rollbackLabel}`,
                     onClick: handleRollback,
@@ -2465,6 +2463,8 @@ const SETTINGS_REVIEW_GATES = [
   'asset_review',
 ];
 
+const PRE_SCRIPTING_STATUSES = ['created', 'analyzing', 'analysis_review', 'concept_review'];
+
 interface SettingsCharacter {
   id: string;
   name: string;
@@ -2492,6 +2492,7 @@ interface SettingsVideoModel {
 function ProjectSettings({ project, onUpdated }: { project: ProjectData; onUpdated: () => void }) {
   const [editing, setEditing] = useState(false);
   const [tone, setTone] = useState(project.tone || 'reluctant-insider');
+  const [locale, setLocale] = useState(project.locale || DEFAULT_LOCALE);
   const [characterId, setCharacterId] = useState(project.character_id || '');
   const [influencerId, setInfluencerId] = useState(project.influencer_id || '');
   const [projectName, setProjectName] = useState(project.name || '');
@@ -2504,6 +2505,7 @@ function ProjectSettings({ project, onUpdated }: { project: ProjectData; onUpdat
   const [success, setSuccess] = useState('');
   const [togglingFastMode, setTogglingFastMode] = useState(false);
   const [updatingRetries, setUpdatingRetries] = useState(false);
+  const [updatingVariants, setUpdatingVariants] = useState(false);
 
   async function handleToggleFastMode() {
     setTogglingFastMode(true);
@@ -2550,16 +2552,43 @@ function ProjectSettings({ project, onUpdated }: { project: ProjectData; onUpdat
     }
   }
 
+  async function handleChangeVariants(delta: number) {
+    const current = project.variant_count ?? 1;
+    const next = Math.max(1, Math.min(PIPELINE_CONFIG.maxHookVariants, current + delta));
+    if (next === current) return;
+    setUpdatingVariants(true);
+    try {
+      const res = await fetch(`/api/projects/${project.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ variant_count: next }),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        setError(data.error || 'Failed to update hook variants');
+        return;
+      }
+      onUpdated();
+    } catch {
+      setError('Failed to update hook variants');
+    } finally {
+      setUpdatingVariants(false);
+    }
+  }
+
   const isReviewGate = SETTINGS_REVIEW_GATES.includes(project.status);
+  // Hook variants are written with the script, so the count is only editable before scripting
+  const canChangeVariants = !project.variant_parent_id && PRE_SCRIPTING_STATUSES.includes(project.status);
 
   // Sync state when project changes externally
   useEffect(() => {
     setTone(project.tone || 'reluctant-insider');
+    setLocale(project.locale || DEFAULT_LOCALE);
     setCharacterId(project.character_id || '');
     setInfluencerId(project.influencer_id || '');
     setProjectName(project.name || '');
     setVideoModelId(project.video_model_id || '');
-  }, [project.tone, project.character_id, project.influencer_id, project.name, project.video_model_id]);
+  }, [project.tone, project.locale, project.character_id, project.influencer_id, project.name, project.video_model_id]);
 
   // Fetch options when entering edit mode
   useEffect(() => {
@@ -2580,6 +2609,7 @@ function ProjectSettings({ project, onUpdated }: { project: ProjectData; onUpdat
 
   function handleCancel() {
     setTone(project.tone || 'reluctant-insider');
+    setLocale(project.locale || DEFAULT_LOCALE);
     setCharacterId(project.character_id || '');
     setInfluencerId(project.influencer_id || '');
     setProjectName(project.name || '');
@@ -2594,6 +2624,7 @@ function ProjectSettings({ project, onUpdated }: { project: ProjectData; onUpdat
 
     const updates: Record<string, unknown> = {};
     if (tone !== (project.tone || 'reluctant-insider')) updates.tone = tone;
+    if (locale !== (project.locale || DEFAULT_LOCALE)) updates.locale = locale;
     if (characterId !== (project.character_id || '')) updates.character_id = characterId || null;
     if (influencerId !== (project.influencer_id || '')) updates.influencer_id = influencerId || null;
     if (projectName !== (project.name || '')) updates.name = projectName || null;
@@ -2688,6 +2719,29 @@ function ProjectSettings({ project, onUpdated }: { project: ProjectData; onUpdat
           <ToneSelector value={tone} onChange={setTone} compact />
         </div>
 
+        {/* Language */}
+        <div>
+          <label className="mb-1.5 block font-[family-name:var(--font-display)] text-[10px] font-semibold uppercase tracking-wider text-text-muted">
+            Language
+          </label>
+          <div className="relative">
+            <select
+              value={locale}
+              onChange={(e) => setLocale(e.target.value)}
+              className="block w-full appearance-none rounded-lg border border-border bg-surface-raised px-3 py-2 pr-9 text-sm text-text-primary transition-all focus:border-electric focus:outline-none focus:ring-1 focus:ring-electric"
+            >
+              {LOCALE_IDS.map((id) => (
+                <option key={id} value={id}>
+                  {LOCALES[id].label}
+                </option>
+              ))}
+            </select>
+            <svg viewBox="0 0 16 16" fill="none" className="pointer-events-none absolute right-3 top-1/2 h-3.5 w-3.5 -translate-y-1/2 text-text-muted" stroke="currentColor" strokeWidth={2} strokeLinecap="round" strokeLinejoin="round">
+              <polyline points="4 6 8 10 12 6" />
+            </svg>
+          </div>
+        </div>
+
         {/* Character */}
         <div>
           <label className="mb-1.5 block font-[family-name:var(--font-display)] text-[10px] font-semibold uppercase tracking-wider text-text-muted">
@@ -2783,6 +2837,13 @@ function ProjectSettings({ project, onUpdated }: { project: ProjectData; onUpdat
           {toneLabel}
         </span>
 
+        {/* Language badge (English projects don't show one) */}
+        {project.locale && project.locale !== DEFAULT_LOCALE && (
+          <span className="inline-flex rounded-full border border-lime/20 bg-lime/5 px-2.5 py-0.5 font-[family-name:var(--font-display)] text-[11px] font-medium text-lime">
+            {getLocale(project.locale).label}
+          </span>
+        )}
+
         {/* Character badge */}
         {project.character && (
           <span className="inline-flex rounded-full border border-magenta/20 bg-magenta/5 px-2.5 py-0.5 font-[family-name:var(--font-display)] text-[11px] font-medium text-magenta">
@@ -2864,6 +2925,40 @@ function ProjectSettings({ project, onUpdated }: { project: ProjectData; onUpdat
           </span>
         </div>
 
+        {/* A/B hook variants stepper */}
+        {canChangeVariants && (
+          <div className="inline-flex items-center gap-1.5" title="Number of A/B hook variants to render (1 = no variants). Each extra variant re-shoots only the first segment.">
+            <div className="inline-flex items-center rounded-full border border-border/60 bg-surface-overlay/40">
+              <button
+                type="button"
+                onClick={() => handleChangeVariants(-1)}
+                disabled={updatingVariants || (project.variant_count ?? 1) <= 1}
+                className="flex h-5 w-5 items-center justify-center rounded-full text-[11px] text-text-muted transition-colors hover:text-text-primary disabled:opacity-30 disabled:cursor-not-allowed"
+              >
+                <svg viewBox="0 0 12 12" fill="none" className="h-2.5 w-2.5" stroke="currentColor" strokeWidth={2} strokeLinecap="round">
+                  <path d="M2.5 6h7" />
+                </svg>
+              </button>
+              <span className={`min-w-[14px] text-center font-[family-name:var(--font-display)] text-[11px] font-semibold tabular-nums transition-colors ${(project.variant_count ?? 1) > 1 ? 'text-electric' : 'text-text-muted'}`}>
+                {project.variant_count ?? 1}
+              </span>
+              <button
+                type="button"
+                onClick={() => handleChangeVariants(1)}
+                disabled={updatingVariants || (project.variant_count ?? 1) >= PIPELINE_CONFIG.maxHookVariants}
+                className="flex h-5 w-5 items-center justify-center rounded-full text-[11px] text-text-muted transition-colors hover:text-text-primary disabled:opacity-30 disabled:cursor-not-allowed"
+              >
+                <svg viewBox="0 0 12 12" fill="none" className="h-2.5 w-2.5" stroke="currentColor" strokeWidth={2} strokeLinecap="round">
+                  <path d="M6 2.5v7M2.5 6h7" />
+                </svg>
+              </button>
+            </div>
+            <span className={`font-[family-name:var(--font-display)] text-[11px] font-medium transition-colors ${(project.variant_count ?? 1) > 1 ? 'text-electric' : 'text-text-muted'}`}>
+              Hooks
+            </span>
+          </div>
+        )}
+
         {/* Success feedback */}
         {success && (
           <span className="font-[family-name:var(--font-display)] text-[11px] font-medium text-lime animate-fade-in-up">
@@ -0,0 +1,259 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type { SceneOrigin } from '@/lib/constants';
+import type { ScriptHistory, SceneVersion } from '@/lib/script-history';
+import { diffStats, diffWords } from '@/lib/word-diff';
+
+const ORIGIN_STYLES: Record<SceneOrigin, string> = {
+  generated: 'border-border text-text-muted',
+  regenerated: 'border-electric/30 bg-electric/10 text-electric',
+  edited: 'border-amber-hot/30 bg-amber-hot/10 text-amber-hot',
+  tightened: 'border-amber-hot/30 bg-amber-hot/10 text-amber-hot',
+  restored: 'border-lime/30 bg-lime/10 text-lime',
+  composed: 'border-lime/30 bg-lime/10 text-lime',
+};
+
+function WordDiff({ before, after }: { before: string | null; after: string | null }) {
+  return (
+    <p className="text-sm leading-relaxed text-text-secondary">
+      {diffWords(before, after).map((part, i) => (
+        <span key={i}>
+          {i > 0 && ' '}
+          {part.kind === 'same' && part.text}
+          {part.kind === 'added' && <span className="rounded bg-lime/10 text-lime">{part.text}</span>}
+          {part.kind === 'removed' && <span className="rounded bg-magenta/10 text-magenta line-through">{part.text}</span>}
+        </span>
+      ))}
+    </p>
+  );
+}
+
+/**
+ * Version history for a project's scripts: every script version with the
+ * feedback left on it, and per segment every version diffed word by word
+ * against the one before. While the script is in review an earlier version can
+ * be restored into the latest script, or versions picked per segment and
+ * composed into a new script version — neither calls the LLM.
+ */
+export function ScriptHistoryPanel({
+  projectId,
+  refreshKey,
+  readOnly,
+  onChange,
+}: {
+  projectId: string;
+  /** Refetches the history when it changes (e.g. the latest script's scene ids) */
+  refreshKey: string;
+  readOnly?: boolean;
+  onChange?: () => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [history, setHistory] = useState<ScriptHistory | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [picks, setPicks] = useState<Record<number, string>>({});
+
+  const load = useCallback(() => {
+    fetch(`/api/projects/${projectId}/scripts/history`)
+      .then(async (res) => {
+        const json = await res.json();
+        if (!res.ok) throw new Error(json.error || 'Failed to load script history');
+        setHistory(json);
+        setError(null);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load script history'));
+  }, [projectId]);
+
+  useEffect(() => {
+    if (open) load();
+  }, [open, load, refreshKey]);
+
+  const latestScript = history?.scripts[history.scripts.length - 1] ?? null;
+
+  async function post(url: string, body: unknown) {
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || 'Request failed');
+      setPicks({});
+      onChange?.();
+      load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function restore(segmentIndex: number, version: SceneVersion) {
+    if (!latestScript) return;
+    post(`/api/projects/${projectId}/scripts/${latestScript.id}/segments/${segmentIndex}/restore`, { sceneId: version.id });
+  }
+
+  function isLive(version: SceneVersion): boolean {
+    return version.current && version.scriptId === latestScript?.id;
+  }
+
+  const pickCount = Object.keys(picks).length;
+
+  return (
+    <div className="rounded-xl border border-border bg-surface">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="flex w-full items-center justify-between px-4 py-3 transition-colors hover:bg-surface-raised/50"
+      >
+        <span className="font-[family-name:var(--font-display)] text-xs font-semibold uppercase tracking-wider text-text-muted">
+          Version History
+        </span>
+        <svg
+          viewBox="0 0 16 16"
+          fill="none"
+          className={`h-3.5 w-3.5 text-text-muted transition-transform ${open ? 'rotate-180' : ''}`}
+          stroke="currentColor"
+          strokeWidth={1.5}
+          strokeLinecap="round"
+          strokeLinejoin="round"
+        >
+          <path d="M4 6l4 4 4-4" />
+        </svg>
+      </button>
+
+      {open && (
+        <div className="space-y-5 border-t border-border px-4 pb-4 pt-3">
+          {error && <p className="text-sm text-magenta">{error}</p>}
+
+          {!history && !error && (
+            <div className="space-y-2">
+              {[0, 1, 2].map((i) => (
+                <div key={i} className="h-8 animate-shimmer rounded-lg" />
+              ))}
+            </div>
+          )}
+
+          {history && (
+            <>
+              <div className="space-y-1.5">
+                {history.scripts.map((s) => (
+                  <div key={s.id} className="flex flex-wrap items-baseline gap-x-3 gap-y-0.5 text-xs">
+                    <span className="font-[family-name:var(--font-mono)] font-semibold text-text-primary">v{s.version}</span>
+                    <span className="text-text-muted">
+                      {s.source || 'generated'}
+                      {s.tone && ` · ${s.tone}`}
+                      {s.hookScore !== null && ` · hook ${s.hookScore}`}
+                      {s.grade && ` · ${s.grade}`}
+                      {` · ${new Date(s.createdAt).toLocaleString()}`}
+                    </span>
+                    {s.feedback && <span className="w-full text-text-secondary">Feedback: &ldquo;{s.feedback}&rdquo;</span>}
+                  </div>
+                ))}
+              </div>
+
+              {history.segments.map((segment) => (
+                <div key={segment.segmentIndex} className="space-y-2">
+                  <h4 className="font-[family-name:var(--font-display)] text-xs font-bold uppercase tracking-wider text-text-primary">
+                    {segment.section.replace(/_/g, ' ')}
+                    <span className="ml-2 font-normal normal-case text-text-muted">
+                      {segment.versions.length} version{segment.versions.length === 1 ? '' : 's'}
+                    </span>
+                  </h4>
+                  {segment.versions.map((version, i) => {
+                    const previous = i > 0 ? segment.versions[i - 1] : null;
+                    const stats = previous ? diffStats(diffWords(previous.scriptText, version.scriptText)) : null;
+                    const live = isLive(version);
+                    return (
+                      <div
+                        key={version.id}
+                        className={`rounded-lg border p-3 ${live ? 'border-electric/40 bg-electric/5' : 'border-border'}`}
+                      >
+                        <div className="mb-1.5 flex flex-wrap items-center gap-2 text-[11px]">
+                          <span className="font-[family-name:var(--font-mono)] font-semibold text-text-primary">
+                            v{version.scriptVersion}.{version.version}
+                          </span>
+                          <span className={`rounded border px-1.5 py-0.5 font-semibold ${ORIGIN_STYLES[version.origin]}`}>
+                            {version.origin}
+                          </span>
+                          {live && <span className="font-semibold text-electric">current</span>}
+                          {stats && (
+                            <span className="font-[family-name:var(--font-mono)] text-text-muted">
+                              <span className="text-lime">+{stats.added}</span> <span className="text-magenta">−{stats.removed}</span>
+                            </span>
+                          )}
+                          {!readOnly && (
+                            <span className="ml-auto flex items-center gap-3">
+                              <label className="flex items-center gap-1 text-text-muted">
+                                <input
+                                  type="radio"
+                                  name={`pick-${segment.segmentIndex}`}
+                                  checked={picks[segment.segmentIndex] === version.id}
+                                  onChange={() => setPicks((prev) => ({ ...prev, [segment.segmentIndex]: version.id }))}
+                                />
+                                pick
+                              </label>
+                              {!live && latestScript && (
+                                <button
+                                  type="button"
+                                  disabled={busy}
+                                  onClick={() => restore(segment.segmentIndex, version)}
+                                  className="font-semibold text-electric underline underline-offset-2 hover:text-electric/80 disabled:opacity-50"
+                                >
+                                  Restore
+                                </button>
+                              )}
+                            </span>
+                          )}
+                        </div>
+                        {previous ? (
+                          <WordDiff before={previous.scriptText} after={version.scriptText} />
+                        ) : (
+                          <p className="text-sm leading-relaxed text-text-secondary">{version.scriptText}</p>
+                        )}
+                        {version.feedback && (
+                          <p className="mt-1.5 text-[11px] text-text-muted">Feedback: &ldquo;{version.feedback}&rdquo;</p>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              ))}
+
+              {!readOnly && (
+                <div className="flex items-center gap-3">
+                  <button
+                    type="button"
+                    disabled={busy || pickCount === 0}
+                    onClick={() => post(`/api/projects/${projectId}/scripts/compose`, { sceneIds: Object.values(picks) })}
+                    className="inline-flex items-center rounded-lg border border-electric/30 bg-electric/10 px-4 py-1.5 font-[family-name:var(--font-display)] text-xs font-semibold text-electric transition-colors hover:bg-electric/20 disabled:opacity-50"
+                  >
+                    {busy ? 'Saving...' : 'Compose new version'}
+                  </button>
+                  <span className="text-[11px] text-text-muted">
+                    {pickCount === 0
+                      ? 'Pick versions per segment; unpicked segments keep the current one'
+                      : `${pickCount} segment${pickCount === 1 ? '' : 's'} picked`}
+                  </span>
+                  {pickCount > 0 && (
+                    <button
+                      type="button"
+                      onClick={() => setPicks({})}
+                      className="font-[family-name:var(--font-display)] text-xs font-medium text-text-muted underline underline-offset-2 transition-colors hover:text-text-secondary"
+                    >
+                      Clear
+                    </button>
+                  )}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
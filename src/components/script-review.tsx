@@ -7,6 +7,8 @@ import { HighlightedText } from './highlighted-text';
 import { ApproveControls } from './approve-controls';
 import { ScriptUpload } from './script-upload';
 import { EnergyArcGraph } from './energy-arc-graph';
+import { CompliancePanel } from './compliance-panel';
+import { ScriptHistoryPanel } from './script-history';
 import { SCRIPT_TONES } from '@/lib/constants';
 
 interface Scene {
@@ -503,6 +505,25 @@ export function ScriptReview({
       {breakdownView === 'timeline' && <ScriptBreakdown scenes={script.scenes} view="timeline" productTerms={productTerms} />}
       {breakdownView === 'beats' && <ScriptBreakdown scenes={script.scenes} view="beats" productTerms={productTerms} syllableTargets={syllableTargets} />}
 
+      {/* Claims compliance (latest script only; approval checks that one) */}
+      {activeScript === 0 && (
+        <CompliancePanel
+          projectId={projectId}
+          scriptId={script.id}
+          refreshKey={script.scenes.map((s) => s.id).join(',')}
+          readOnly={readOnly}
+          onApplied={() => fetchScripts()}
+        />
+      )}
+
+      {/* Script and segment version history */}
+      <ScriptHistoryPanel
+        projectId={projectId}
+        refreshKey={scripts[0].scenes.map((s) => s.id).join(',')}
+        readOnly={readOnly}
+        onChange={() => fetchScripts()}
+      />
+
       {/* Approve / Regenerate controls */}
       {!readOnly && (
         <div className="rounded-xl border border-border bg-surface p-5">
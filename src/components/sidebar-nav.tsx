@@ -31,6 +31,28 @@ const NAV_LINKS = [
       </svg>
     ),
   },
+  {
+    href: '/batches',
+    label: 'Batches',
+    color: 'bg-electric',
+    delay: '0.45s',
+    icon: (
+      <svg viewBox="0 0 20 20" fill="currentColor" className="h-[18px] w-[18px]">
+        <path d="M7 3a1 1 0 000 2h6a1 1 0 100-2H7zM4 7a1 1 0 011-1h10a1 1 0 110 2H5a1 1 0 01-1-1zM2 11a2 2 0 012-2h12a2 2 0 012 2v4a2 2 0 01-2 2H4a2 2 0 01-2-2v-4z" />
+      </svg>
+    ),
+  },
+  {
+    href: '/failures',
+    label: 'Failures',
+    color: 'bg-magenta',
+    delay: '0.5s',
+    icon: (
+      <svg viewBox="0 0 20 20" fill="currentColor" className="h-[18px] w-[18px]">
+        <path fillRule="evenodd" d="M8.257 3.099c.765-1.36 2.722-1.36 3.486 0l5.58 9.92c.75 1.334-.213 2.98-1.742 2.98H4.42c-1.53 0-2.493-1.646-1.743-2.98l5.58-9.92zM11 13a1 1 0 11-2 0 1 1 0 012 0zm-1-8a1 1 0 00-1 1v3a1 1 0 002 0V6a1 1 0 00-1-1z" clipRule="evenodd" />
+      </svg>
+    ),
+  },
   {
     href: '/influencers',
     label: 'Influencers',
@@ -53,6 +75,17 @@ const NAV_LINKS = [
       </svg>
     ),
   },
+  {
+    href: '/templates',
+    label: 'Templates',
+    color: 'bg-lime',
+    delay: '1.05s',
+    icon: (
+      <svg viewBox="0 0 20 20" fill="currentColor" className="h-[18px] w-[18px]">
+        <path fillRule="evenodd" d="M4 4a2 2 0 012-2h4.586A2 2 0 0112 2.586L15.414 6A2 2 0 0116 7.414V16a2 2 0 01-2 2H6a2 2 0 01-2-2V4zm2 6a1 1 0 011-1h6a1 1 0 110 2H7a1 1 0 01-1-1zm1 3a1 1 0 100 2h6a1 1 0 100-2H7z" clipRule="evenodd" />
+      </svg>
+    ),
+  },
   {
     href: '/roadmap',
     label: 'Roadmap',
@@ -1,6 +1,8 @@
 'use client';
 
 import { useState, useEffect, useCallback, useRef } from 'react';
+import { usePipelineEvents } from './use-pipeline-events';
+import type { PipelineEvent } from '@/lib/events';
 
 interface ProgressData {
   stage: string;
@@ -46,7 +48,6 @@ export function StageProgress({ projectId, stage, color = 'magenta', onRetry, on
   const [connectionWarning, setConnectionWarning] = useState(false);
   const startTimeRef = useRef<number | null>(null);
   const failCountRef = useRef(0);
-  const timeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   const fetchProgress = useCallback(async () => {
     try {
@@ -69,25 +70,19 @@ export function StageProgress({ projectId, stage, color = 'magenta', onRetry, on
     }
   }, [projectId]);
 
-  // Poll progress with exponential backoff on failure
   useEffect(() => {
-    let cancelled = false;
+    fetchProgress();
+  }, [fetchProgress]);
 
-    async function poll() {
-      await fetchProgress();
-      if (cancelled) return;
-      const delay = failCountRef.current > 0
-        ? Math.min(3000 * Math.pow(2, failCountRef.current), 30000)
-        : 3000;
-      timeoutRef.current = setTimeout(poll, delay);
+  // Recount when an asset or the status changes; cost increments apply in place
+  const handlePipelineEvent = useCallback((event: PipelineEvent) => {
+    if (event.type === 'asset' || event.type === 'status') {
+      fetchProgress();
+    } else if (event.type === 'cost') {
+      setProgress((prev) => (prev ? { ...prev, costUsd: event.costUsd } : prev));
     }
-
-    poll();
-    return () => {
-      cancelled = true;
-      if (timeoutRef.current) clearTimeout(timeoutRef.current);
-    };
   }, [fetchProgress]);
+  const { connectionWarning: streamWarning } = usePipelineEvents(projectId, handlePipelineEvent, fetchProgress);
 
   // Update elapsed time every second (client-side)
   useEffect(() => {
@@ -254,8 +249,8 @@ export function StageProgress({ projectId, stage, color = 'magenta', onRetry, on
             </div>
           )}
 
-          {/* Connection warning after consecutive failures */}
-          {connectionWarning && (
+          {/* Connection warning after consecutive fetch or event stream failures */}
+          {(connectionWarning || streamWarning) && (
             <p className="mt-2 text-[11px] text-amber-hot/80">
               Connection issues — retrying...
             </p>
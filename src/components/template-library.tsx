@@ -0,0 +1,340 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { PRODUCT_CATEGORIES } from '@/lib/constants';
+import type { ScriptTemplate, TemplatePerformance } from '@/lib/templates';
+
+interface LibraryTemplate extends ScriptTemplate {
+  performance: TemplatePerformance;
+  weights: Record<string, number>;
+}
+
+interface TemplateEdits {
+  name: string;
+  textHookTemplate: string;
+  spokenHookTemplate: string;
+  categories: string[];
+}
+
+const STATUS_FILTERS = [
+  { value: 'active', label: 'Active' },
+  { value: 'retired', label: 'Retired' },
+  { value: 'all', label: 'All' },
+];
+
+const SOURCE_STYLES: Record<string, string> = {
+  seed: 'border-border text-text-muted',
+  mined: 'border-lime/30 text-lime',
+  manual: 'border-electric/30 text-electric',
+};
+
+function TemplateCard({
+  template,
+  busy,
+  onUpdate,
+}: {
+  template: LibraryTemplate;
+  busy: boolean;
+  onUpdate: (id: string, fields: Record<string, unknown>) => Promise<boolean>;
+}) {
+  const [edits, setEdits] = useState<TemplateEdits | null>(null);
+  const { performance, weights } = template;
+  const retired = template.status === 'retired';
+
+  async function save() {
+    if (!edits) return;
+    const ok = await onUpdate(template.id, {
+      name: edits.name,
+      textHookTemplate: edits.textHookTemplate || null,
+      spokenHookTemplate: edits.spokenHookTemplate,
+      categories: edits.categories,
+    });
+    if (ok) setEdits(null);
+  }
+
+  return (
+    <div className={`rounded-xl border bg-surface p-4 ${template.pinned ? 'border-amber-hot/40' : 'border-border'} ${retired ? 'opacity-60' : ''}`}>
+      <div className="flex items-start justify-between gap-3">
+        <div className="min-w-0">
+          <p className="line-clamp-1 font-[family-name:var(--font-display)] text-sm font-semibold text-text-primary">{template.name}</p>
+          <div className="mt-1 flex flex-wrap items-center gap-1.5">
+            <span className={`rounded border px-1.5 py-0.5 font-[family-name:var(--font-mono)] text-[10px] uppercase ${SOURCE_STYLES[template.source] ?? SOURCE_STYLES.seed}`}>
+              {template.source}
+            </span>
+            {template.hook_type && (
+              <span className="font-[family-name:var(--font-mono)] text-[11px] text-text-muted">{template.hook_type}</span>
+            )}
+            {template.pinned && (
+              <span className="rounded border border-amber-hot/30 px-1.5 py-0.5 font-[family-name:var(--font-mono)] text-[10px] uppercase text-amber-hot">pinned</span>
+            )}
+          </div>
+        </div>
+        {template.hook_score != null && (
+          <span className="shrink-0 font-[family-name:var(--font-mono)] text-xs text-text-secondary">hook {template.hook_score}</span>
+        )}
+      </div>
+
+      {edits ? (
+        <div className="mt-3 space-y-2">
+          <input
+            value={edits.name}
+            onChange={(e) => setEdits({ ...edits, name: e.target.value })}
+            className="w-full rounded-lg border border-border bg-void px-3 py-1.5 text-sm text-text-primary focus:border-electric/50 focus:outline-none"
+          />
+          <input
+            value={edits.textHookTemplate}
+            onChange={(e) => setEdits({ ...edits, textHookTemplate: e.target.value })}
+            placeholder="Text overlay (optional)"
+            className="w-full rounded-lg border border-border bg-void px-3 py-1.5 text-sm text-text-primary focus:border-electric/50 focus:outline-none"
+          />
+          <textarea
+            value={edits.spokenHookTemplate}
+            onChange={(e) => setEdits({ ...edits, spokenHookTemplate: e.target.value })}
+            rows={3}
+            className="w-full rounded-lg border border-border bg-void px-3 py-1.5 text-sm text-text-primary focus:border-electric/50 focus:outline-none"
+          />
+          <div className="flex flex-wrap gap-1.5">
+            {PRODUCT_CATEGORIES.map((category) => {
+              const on = edits.categories.includes(category);
+              return (
+                <button
+                  key={category}
+                  type="button"
+                  onClick={() => setEdits({
+                    ...edits,
+                    categories: on ? edits.categories.filter((c) => c !== category) : [...edits.categories, category],
+                  })}
+                  className={`rounded-md border px-2 py-1 text-[11px] transition-colors ${
+                    on ? 'border-electric/50 bg-electric/10 text-electric' : 'border-border text-text-muted hover:text-text-secondary'
+                  }`}
+                >
+                  {category}
+                </button>
+              );
+            })}
+          </div>
+          <p className="text-[11px] text-text-muted">Use {'{product}'} where the product name goes.</p>
+          <div className="flex gap-2">
+            <button
+              onClick={save}
+              disabled={busy || !edits.name.trim() || !edits.spokenHookTemplate.trim() || edits.categories.length === 0}
+              className="rounded-lg border border-lime/30 bg-lime/10 px-3 py-1.5 text-xs font-semibold text-lime transition-colors hover:bg-lime/20 disabled:opacity-50"
+            >
+              Save
+            </button>
+            <button
+              onClick={() => setEdits(null)}
+              className="rounded-lg border border-border px-3 py-1.5 text-xs font-semibold text-text-muted transition-colors hover:text-text-secondary"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : (
+        <>
+          {template.text_hook_template && (
+            <p className="mt-3 font-[family-name:var(--font-display)] text-xs font-bold uppercase text-electric">{template.text_hook_template}</p>
+          )}
+          <p className="mt-1 text-sm text-text-secondary">{template.spoken_hook_template}</p>
+          <div className="mt-3 flex flex-wrap gap-1.5">
+            {(template.categories ?? []).map((category) => (
+              <span key={category} className="rounded-md bg-surface-raised px-2 py-0.5 text-[11px] text-text-secondary">
+                {category}
+                {weights[category] != null && (
+                  <span className="ml-1 font-[family-name:var(--font-mono)] text-text-muted">×{weights[category].toFixed(2)}</span>
+                )}
+              </span>
+            ))}
+          </div>
+        </>
+      )}
+
+      <div className="mt-3 grid grid-cols-4 gap-2 border-t border-border/60 pt-3 font-[family-name:var(--font-mono)] text-[11px]">
+        <div>
+          <p className="text-text-muted">Used</p>
+          <p className="text-text-primary">{template.times_used ?? 0}</p>
+        </div>
+        <div>
+          <p className="text-text-muted">Runs · wins</p>
+          <p className="text-text-primary">{performance.runs} · {performance.wins}</p>
+        </div>
+        <div>
+          <p className="text-text-muted">Avg ROI</p>
+          <p className="text-text-primary">{performance.avgRoi != null ? `${performance.avgRoi.toFixed(2)}x` : '—'}</p>
+        </div>
+        <div>
+          <p className="text-text-muted">GMV</p>
+          <p className="text-text-primary">${performance.totalGmvUsd.toFixed(0)}</p>
+        </div>
+      </div>
+
+      {!edits && (
+        <div className="mt-3 flex flex-wrap gap-2">
+          {!retired && (
+            <button
+              disabled={busy}
+              onClick={() => onUpdate(template.id, { pinned: !template.pinned })}
+              className="rounded-lg border border-border px-3 py-1.5 text-xs font-semibold text-text-primary transition-colors hover:border-amber-hot/40 disabled:opacity-50"
+            >
+              {template.pinned ? 'Unpin' : 'Pin'}
+            </button>
+          )}
+          <button
+            disabled={busy}
+            onClick={() => setEdits({
+              name: template.name,
+              textHookTemplate: template.text_hook_template ?? '',
+              spokenHookTemplate: template.spoken_hook_template ?? '',
+              categories: template.categories ?? [],
+            })}
+            className="rounded-lg border border-border px-3 py-1.5 text-xs font-semibold text-text-primary transition-colors hover:border-electric/40 disabled:opacity-50"
+          >
+            Edit
+          </button>
+          <button
+            disabled={busy}
+            onClick={() => onUpdate(template.id, { status: retired ? 'active' : 'retired' })}
+            className="rounded-lg border border-border px-3 py-1.5 text-xs font-semibold text-text-primary transition-colors hover:border-magenta/40 disabled:opacity-50"
+          >
+            {retired ? 'Restore' : 'Retire'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * The script template library: every hook template with how its runs performed
+ * and its current selection weight per category. Templates can be edited,
+ * pinned, retired and restored, and winning runs mined into new ones.
+ */
+export function TemplateLibrary() {
+  const [status, setStatus] = useState('active');
+  const [category, setCategory] = useState('');
+  const [templates, setTemplates] = useState<LibraryTemplate[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const load = useCallback(() => {
+    setError(null);
+    const query = new URLSearchParams({ status });
+    if (category) query.set('category', category);
+    fetch(`/api/templates?${query}`)
+      .then(async (res) => {
+        const json = await res.json();
+        if (!res.ok) throw new Error(json.error || 'Failed to load templates');
+        setTemplates(json.templates);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load templates'));
+  }, [status, category]);
+
+  useEffect(() => {
+    setTemplates(null);
+    load();
+  }, [load]);
+
+  async function updateTemplate(id: string, fields: Record<string, unknown>): Promise<boolean> {
+    setBusy(true);
+    setNotice(null);
+    try {
+      const res = await fetch(`/api/templates/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(fields),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || 'Failed to update template');
+      load();
+      return true;
+    } catch (err) {
+      setNotice(err instanceof Error ? err.message : 'Failed to update template');
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function mineNow() {
+    setBusy(true);
+    setNotice(null);
+    try {
+      const res = await fetch('/api/templates/mine', { method: 'POST' });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || 'Failed to mine templates');
+      const count = (json.mined as string[]).length;
+      setNotice(count ? `Mined ${count} new template${count === 1 ? '' : 's'} from winning runs` : 'No new winning runs to mine');
+      load();
+    } catch (err) {
+      setNotice(err instanceof Error ? err.message : 'Failed to mine templates');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex flex-wrap items-center gap-3">
+          <div className="flex gap-1 rounded-lg border border-border bg-surface p-1">
+            {STATUS_FILTERS.map((f) => (
+              <button
+                key={f.value}
+                onClick={() => setStatus(f.value)}
+                className={`rounded-md px-3 py-1.5 font-[family-name:var(--font-display)] text-xs font-semibold transition-colors ${
+                  status === f.value ? 'bg-electric/10 text-electric' : 'text-text-muted hover:text-text-secondary'
+                }`}
+              >
+                {f.label}
+              </button>
+            ))}
+          </div>
+          <select
+            value={category}
+            onChange={(e) => setCategory(e.target.value)}
+            className="rounded-lg border border-border bg-surface px-3 py-2 text-xs text-text-primary focus:border-electric/50 focus:outline-none"
+          >
+            <option value="">All categories</option>
+            {PRODUCT_CATEGORIES.map((c) => (
+              <option key={c} value={c}>{c}</option>
+            ))}
+          </select>
+        </div>
+        <button
+          disabled={busy}
+          onClick={mineNow}
+          className="rounded-lg border border-lime/30 bg-lime/10 px-3 py-1.5 font-[family-name:var(--font-display)] text-xs font-semibold text-lime transition-colors hover:bg-lime/20 disabled:opacity-50"
+        >
+          Mine winning runs
+        </button>
+      </div>
+
+      {notice && (
+        <div className="rounded-lg border border-electric/30 bg-electric/5 px-4 py-3">
+          <p className="text-sm text-text-secondary">{notice}</p>
+        </div>
+      )}
+
+      {error && (
+        <div className="rounded-lg border border-magenta/30 bg-magenta/10 px-4 py-3">
+          <p className="text-sm text-magenta">{error}</p>
+        </div>
+      )}
+
+      {!templates && !error && <p className="text-sm text-text-muted">Loading...</p>}
+
+      {templates && templates.length === 0 && (
+        <p className="text-sm text-text-muted">No templates match these filters.</p>
+      )}
+
+      {templates && templates.length > 0 && (
+        <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-3">
+          {templates.map((template) => (
+            <TemplateCard key={template.id} template={template} busy={busy} onUpdate={updateTemplate} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,236 @@
+'use client';
+
+import { useState, useCallback } from 'react';
+import type { Timeline, TimelineClip, TimelineIssue } from '@/lib/timeline';
+import { CAPTION_STYLE_PRESETS, CAPTION_STYLE_IDS, DEFAULT_CAPTION_STYLE } from '@/lib/constants';
+
+/* ==============================
+   Timeline Preview
+   Collapsible lane view of the timeline the next render will use —
+   lets the user check clip placement before paying for a render.
+   ============================== */
+
+interface TimelineResponse {
+  timeline: Timeline;
+  issues: TimelineIssue[];
+  renderer: string;
+  captionStyle: string | null;
+  musicMode: string;
+  musicTrackId: string | null;
+}
+
+interface MusicTrackOption {
+  id: string;
+  name: string;
+  mood: string;
+  bpm: number | null;
+}
+
+interface TimelinePreviewProps {
+  projectId: string;
+}
+
+const CLIP_COLORS: Record<TimelineClip['type'], string> = {
+  video: 'bg-electric/20 border-electric/40 text-electric',
+  image: 'bg-amber-hot/20 border-amber-hot/40 text-amber-hot',
+  text: 'bg-lime/15 border-lime/40 text-lime',
+  audio: 'bg-magenta/15 border-magenta/40 text-magenta',
+  caption: 'bg-summon/15 border-summon/40 text-summon',
+};
+
+function clipLabel(clip: TimelineClip): string {
+  switch (clip.type) {
+    case 'video': return `Seg ${clip.segmentIndex + 1}`;
+    case 'audio': return clip.segmentIndex < 0 ? 'Music' : `VO ${clip.segmentIndex + 1}`;
+    case 'image': return `B${clip.segmentIndex + 1}.${clip.shotIndex + 1}`;
+    case 'text': return clip.text;
+    case 'caption': return clip.words.map((w) => w.text).join(' ');
+  }
+}
+
+export function TimelinePreview({ projectId }: TimelinePreviewProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [data, setData] = useState<TimelineResponse | null>(null);
+  const [musicTracks, setMusicTracks] = useState<MusicTrackOption[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const fetchTimeline = useCallback(async () => {
+    setIsLoading(true);
+    setLoadError(null);
+    try {
+      const [res, musicRes] = await Promise.all([
+        fetch(`/api/projects/${projectId}/timeline`),
+        fetch('/api/music'),
+      ]);
+      if (!res.ok) {
+        setLoadError(`Failed to load timeline (${res.status})`);
+        return;
+      }
+      setData(await res.json());
+      if (musicRes.ok) setMusicTracks((await musicRes.json()).tracks ?? []);
+    } catch {
+      setLoadError('Network error — could not load timeline');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [projectId]);
+
+  const updateProject = async (patch: Record<string, unknown>, what: string) => {
+    setIsLoading(true);
+    try {
+      const res = await fetch(`/api/projects/${projectId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(patch),
+      });
+      if (!res.ok) {
+        setLoadError(`Failed to update ${what} (${res.status})`);
+        setIsLoading(false);
+        return;
+      }
+    } catch {
+      setLoadError(`Network error — could not update ${what}`);
+      setIsLoading(false);
+      return;
+    }
+    await fetchTimeline();
+  };
+
+  const handleCaptionStyleChange = (value: string) =>
+    updateProject({ caption_style: value }, 'caption style');
+
+  const handleMusicChange = (value: string) =>
+    updateProject(
+      value === 'auto' || value === 'off' ? { music_mode: value } : { music_track_id: value },
+      'music',
+    );
+
+  const handleToggle = () => {
+    if (!isExpanded && !data) fetchTimeline();
+    setIsExpanded(!isExpanded);
+  };
+
+  const timeline = data?.timeline;
+
+  return (
+    <div className="mt-6">
+      <button
+        type="button"
+        onClick={handleToggle}
+        className="group inline-flex items-center gap-2 rounded-lg border border-border bg-surface px-3 py-2 font-[family-name:var(--font-display)] text-[11px] font-semibold text-text-muted transition-all hover:border-electric/30 hover:text-electric"
+      >
+        <svg
+          viewBox="0 0 16 16"
+          fill="currentColor"
+          className={`h-3 w-3 transition-transform duration-200 ${isExpanded ? 'rotate-90' : ''}`}
+        >
+          <path d="M6 3l5 5-5 5V3z" />
+        </svg>
+        Render Timeline
+      </button>
+
+      {isExpanded && (
+        <div className="mt-2 animate-fade-in-up rounded-xl border border-border bg-surface p-5 space-y-4">
+          {isLoading && (
+            <div className="flex items-center gap-3 py-4">
+              <div className="relative h-6 w-6 flex-shrink-0">
+                <div className="absolute inset-0 animate-spin rounded-full border-2 border-transparent border-t-electric" />
+              </div>
+              <span className="font-[family-name:var(--font-display)] text-sm text-text-muted">
+                Building timeline...
+              </span>
+            </div>
+          )}
+
+          {loadError && (
+            <div className="rounded-lg border border-magenta/20 bg-magenta/5 px-4 py-3">
+              <p className="text-xs text-magenta">{loadError}</p>
+              <button
+                type="button"
+                onClick={fetchTimeline}
+                className="mt-2 rounded-md border border-magenta/30 bg-magenta/10 px-3 py-1 font-[family-name:var(--font-display)] text-xs font-medium text-magenta transition-colors hover:bg-magenta/20"
+              >
+                Retry
+              </button>
+            </div>
+          )}
+
+          {timeline && !isLoading && (
+            <>
+              <div className="flex items-center gap-4 font-[family-name:var(--font-mono)] text-[10px] uppercase tracking-wider text-text-muted">
+                <span>{timeline.duration}s</span>
+                <span>{timeline.width}x{timeline.height} @ {timeline.fps}fps</span>
+                <span>Renderer: {data.renderer}</span>
+                <label className="ml-auto flex items-center gap-2">
+                  Captions
+                  <select
+                    value={data.captionStyle ?? DEFAULT_CAPTION_STYLE}
+                    onChange={(e) => handleCaptionStyleChange(e.target.value)}
+                    className="rounded-md border border-border bg-void px-2 py-1 text-[10px] text-text-primary focus:border-electric/50 focus:outline-none"
+                  >
+                    {CAPTION_STYLE_IDS.map((id) => (
+                      <option key={id} value={id}>{CAPTION_STYLE_PRESETS[id].label}</option>
+                    ))}
+                    <option value="none">Off</option>
+                  </select>
+                </label>
+                <label className="flex items-center gap-2">
+                  Music
+                  <select
+                    value={data.musicMode === 'manual' ? (data.musicTrackId ?? 'off') : data.musicMode}
+                    onChange={(e) => handleMusicChange(e.target.value)}
+                    className="rounded-md border border-border bg-void px-2 py-1 text-[10px] text-text-primary focus:border-electric/50 focus:outline-none"
+                  >
+                    <option value="auto">Auto (from tone)</option>
+                    {musicTracks.map((track) => (
+                      <option key={track.id} value={track.id}>
+                        {track.name} · {track.mood}{track.bpm ? ` · ${track.bpm} BPM` : ''}
+                      </option>
+                    ))}
+                    <option value="off">Off</option>
+                  </select>
+                </label>
+              </div>
+
+              <div className="space-y-2">
+                {timeline.tracks.map((track) => (
+                  <div key={track.id} className="flex items-center gap-3">
+                    <span className="w-20 flex-shrink-0 font-[family-name:var(--font-display)] text-[10px] font-semibold uppercase tracking-wider text-text-muted">
+                      {track.id}
+                    </span>
+                    <div className="relative h-7 flex-1 rounded-md border border-border bg-void">
+                      {track.clips.map((clip) => (
+                        <div
+                          key={clip.id}
+                          title={`${clip.id}: ${clip.start}s – ${clip.start + clip.duration}s`}
+                          className={`absolute top-0.5 bottom-0.5 overflow-hidden truncate rounded border px-1 text-[9px] leading-6 ${CLIP_COLORS[clip.type]}`}
+                          style={{
+                            left: `${(clip.start / timeline.duration) * 100}%`,
+                            width: `${(clip.duration / timeline.duration) * 100}%`,
+                          }}
+                        >
+                          {clipLabel(clip)}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              {data.issues.length > 0 && (
+                <ul className="space-y-1">
+                  {data.issues.map((issue) => (
+                    <li key={issue.clipId} className="text-xs text-amber-hot">
+                      {issue.clipId}: {issue.issue === 'data_uri_detected' ? 'data URI — excluded from render' : 'non-HTTPS URL'}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
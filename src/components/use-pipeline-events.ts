@@ -0,0 +1,100 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { PIPELINE_EVENT_TYPES, type PipelineEvent } from '@/lib/events';
+
+/** Consecutive stream errors before the connection warning shows. */
+const WARNING_AFTER_ERRORS = 5;
+
+interface SharedSource {
+  source: EventSource;
+  listeners: Set<(event: PipelineEvent) => void>;
+  errorListeners: Set<(errorCount: number) => void>;
+  reconnectListeners: Set<() => void>;
+  errorCount: number;
+}
+
+// One EventSource per URL, shared by every component on the page that subscribes
+const sources = new Map<string, SharedSource>();
+
+function acquire(url: string): SharedSource {
+  const existing = sources.get(url);
+  if (existing) return existing;
+
+  const shared: SharedSource = {
+    source: new EventSource(url),
+    listeners: new Set(),
+    errorListeners: new Set(),
+    reconnectListeners: new Set(),
+    errorCount: 0,
+  };
+
+  for (const type of PIPELINE_EVENT_TYPES) {
+    shared.source.addEventListener(type, (message) => {
+      const event = JSON.parse((message as MessageEvent<string>).data) as PipelineEvent;
+      shared.listeners.forEach((listener) => listener(event));
+    });
+  }
+  shared.source.onopen = () => {
+    const reconnected = shared.errorCount > 0;
+    shared.errorCount = 0;
+    shared.errorListeners.forEach((listener) => listener(0));
+    // Events sent while disconnected are lost — subscribers reload their state
+    if (reconnected) shared.reconnectListeners.forEach((listener) => listener());
+  };
+  // EventSource reconnects on its own; just count failures for the warning
+  shared.source.onerror = () => {
+    shared.errorCount++;
+    shared.errorListeners.forEach((listener) => listener(shared.errorCount));
+  };
+
+  sources.set(url, shared);
+  return shared;
+}
+
+function release(url: string, shared: SharedSource) {
+  if (shared.listeners.size > 0) return;
+  shared.source.close();
+  sources.delete(url);
+}
+
+/**
+ * Subscribe to a project's pipeline event stream (/api/projects/[id]/events).
+ * `onEvent` is called for every status, cost, asset and log event, `onReconnect`
+ * after the stream recovers from a drop; the returned `connectionWarning` is set
+ * after repeated stream errors.
+ */
+export function usePipelineEvents(
+  projectId: string,
+  onEvent: (event: PipelineEvent) => void,
+  onReconnect?: () => void,
+): { connectionWarning: boolean } {
+  const [connectionWarning, setConnectionWarning] = useState(false);
+  const onEventRef = useRef(onEvent);
+  const onReconnectRef = useRef(onReconnect);
+
+  useEffect(() => {
+    onEventRef.current = onEvent;
+    onReconnectRef.current = onReconnect;
+  }, [onEvent, onReconnect]);
+
+  useEffect(() => {
+    const url = `/api/projects/${projectId}/events`;
+    const shared = acquire(url);
+    const listener = (event: PipelineEvent) => onEventRef.current(event);
+    const errorListener = (errorCount: number) => setConnectionWarning(errorCount >= WARNING_AFTER_ERRORS);
+    const reconnectListener = () => onReconnectRef.current?.();
+
+    shared.listeners.add(listener);
+    shared.errorListeners.add(errorListener);
+    shared.reconnectListeners.add(reconnectListener);
+    return () => {
+      shared.listeners.delete(listener);
+      shared.errorListeners.delete(errorListener);
+      shared.reconnectListeners.delete(reconnectListener);
+      release(url, shared);
+    };
+  }, [projectId]);
+
+  return { connectionWarning };
+}
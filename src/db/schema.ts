@@ -10,6 +10,7 @@ import {
   date,
   bigint,
   uniqueIndex,
+  type AnyPgColumn,
 } from 'drizzle-orm/pg-core';
 import { relations } from 'drizzle-orm';
 
@@ -121,6 +122,10 @@ export const scriptTemplate = pgTable('script_template', {
   hookScore: integer('hook_score'),
   categories: text('categories').array(),
   timesUsed: integer('times_used').default(0),
+  status: text('status').notNull().default('active'), // 'active' | 'retired' — retired templates are never selected
+  pinned: boolean('pinned').notNull().default(false), // pinned templates are picked before any other for their categories
+  source: text('source').notNull().default('seed'), // TEMPLATE_SOURCES: 'seed' | 'mined' | 'manual'
+  sourceRunId: uuid('source_run_id').unique().references((): AnyPgColumn => completedRun.id, { onDelete: 'set null' }), // winning run a mined template came from
   createdAt: timestamp('created_at').defaultNow(),
   updatedAt: timestamp('updated_at').defaultNow(),
 });
@@ -129,6 +134,41 @@ export const scriptTemplateRelations = relations(scriptTemplate, ({ many }) => (
   projects: many(project),
 }));
 
+// ─── Music Track ─────────────────────────────────────────────────────────────
+
+export const musicTrack = pgTable('music_track', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  name: text('name').notNull(),
+  artist: text('artist'),
+  url: text('url').notNull(),
+  storagePath: text('storage_path'),
+  source: text('source').notNull().default('upload'), // 'upload' | 'local' (imported by scripts/import-music.ts)
+  mood: text('mood').notNull(), // MUSIC_MOODS
+  bpm: integer('bpm'),
+  durationSeconds: numeric('duration_seconds'),
+  license: text('license').notNull(), // MUSIC_LICENSES
+  licenseUrl: text('license_url'),
+  attribution: text('attribution'),
+  isActive: boolean('is_active').notNull().default(true),
+  createdAt: timestamp('created_at').defaultNow(),
+});
+
+// ─── Batch ───────────────────────────────────────────────────────────────────
+
+export const batch = pgTable('batch', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  name: text('name'),
+  rowCount: integer('row_count').notNull().default(0),
+  failedRows: jsonb('failed_rows').default([]), // [{ row, error }] rows that validated but could not be created
+  budgetUsd: numeric('budget_usd', { precision: 10, scale: 2 }), // caps the summed cost of the batch's projects
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+});
+
+export const batchRelations = relations(batch, ({ many }) => ({
+  projects: many(project),
+}));
+
 // ─── Project ─────────────────────────────────────────────────────────────────
 
 export const project = pgTable('project', {
@@ -159,6 +199,21 @@ export const project = pgTable('project', {
   negativePromptOverride: jsonb('negative_prompt_override'),
   syllableTargets: jsonb('syllable_targets'),
   keyframeChaining: boolean('keyframe_chaining').notNull().default(true),
+  renderer: text('renderer'), // null = use video_model.renderer
+  captionStyle: text('caption_style'), // null = DEFAULT_CAPTION_STYLE, 'none' = off
+  timeline: jsonb('timeline'), // Timeline document (src/lib/timeline.ts) from the last render
+  musicMode: text('music_mode').notNull().default('auto'), // MUSIC_MODES
+  musicTrackId: uuid('music_track_id').references(() => musicTrack.id), // chosen manually, or remembered from auto-selection
+  autoApprove: boolean('auto_approve').notNull().default(false), // headless runs: skip every review gate
+  batchId: uuid('batch_id').references(() => batch.id),
+  budgetUsd: numeric('budget_usd', { precision: 10, scale: 2 }), // null = no cap (src/lib/budget.ts)
+  budgetOverride: boolean('budget_override').notNull().default(false), // lift the cap after a budget stop
+  variantCount: integer('variant_count').notNull().default(1), // >1 = generate A/B hook variants as sibling projects
+  variantParentId: uuid('variant_parent_id').references((): AnyPgColumn => project.id), // set on hook-variant siblings
+  variantIndex: integer('variant_index').notNull().default(0), // 0 = parent, 1..n-1 = sibling variants
+  locale: text('locale').notNull().default('en-US'), // LOCALES — script, voiceover and overlay language
+  localizedFromId: uuid('localized_from_id').references((): AnyPgColumn => project.id), // set on regional versions (src/lib/localization.ts)
+  sourceScriptId: uuid('source_script_id').references((): AnyPgColumn => script.id), // script a regional version translates; null = written natively
   createdAt: timestamp('created_at').defaultNow(),
   updatedAt: timestamp('updated_at').defaultNow(),
 });
@@ -180,6 +235,20 @@ export const projectRelations = relations(project, ({ one, many }) => ({
     fields: [project.influencerId],
     references: [influencer.id],
   }),
+  musicTrack: one(musicTrack, {
+    fields: [project.musicTrackId],
+    references: [musicTrack.id],
+  }),
+  batch: one(batch, {
+    fields: [project.batchId],
+    references: [batch.id],
+  }),
+  variantParent: one(project, {
+    fields: [project.variantParentId],
+    references: [project.id],
+    relationName: 'variants',
+  }),
+  variants: many(project, { relationName: 'variants' }),
   scripts: many(script),
   assets: many(asset),
   completedRuns: many(completedRun),
@@ -194,12 +263,14 @@ export const script = pgTable('script', {
     .references(() => project.id),
   version: integer('version').default(1),
   hookScore: integer('hook_score'),
+  hookScoreBreakdown: jsonb('hook_score_breakdown'), // per-criterion HookScore from ScriptingAgent
   grade: text('grade'),
   isFavorite: boolean('is_favorite').default(false),
   feedback: text('feedback'),
   fullText: text('full_text'),
   tone: text('tone'),
-  source: text('source').default('generated'),
+  source: text('source').default('generated'), // 'generated' | 'uploaded' | 'composed' (cherry-picked from earlier versions)
+  compliance: jsonb('compliance'), // StoredJudgeResult from ComplianceAgent (src/lib/compliance.ts)
   createdAt: timestamp('created_at').defaultNow(),
 });
 
@@ -235,6 +306,9 @@ export const scene = pgTable('scene', {
   segmentScore: jsonb('segment_score'),
   tone: text('tone'),
   version: integer('version').default(1),
+  origin: text('origin').notNull().default('generated'), // SCENE_ORIGINS: how this version was made
+  feedback: text('feedback'), // reviewer feedback the version was regenerated with
+  originSceneId: uuid('origin_scene_id').references((): AnyPgColumn => scene.id, { onDelete: 'set null' }), // version a restored or composed row copies
   videoPromptOverride: jsonb('video_prompt_override'),
   createdAt: timestamp('created_at').defaultNow(),
 });
@@ -332,6 +406,7 @@ export const completedRun = pgTable('completed_run', {
   characterName: text('character_name'),
   influencerName: text('influencer_name'),
   hookScore: integer('hook_score'),
+  scriptTemplateId: uuid('script_template_id').references((): AnyPgColumn => scriptTemplate.id, { onDelete: 'set null' }), // template the script was written from
   assetUrls: jsonb('asset_urls'),
   finalVideoUrl: text('final_video_url'),
   totalCostUsd: numeric('total_cost_usd'),
@@ -427,3 +502,46 @@ export const performanceSnapshotRelations = relations(performanceSnapshot, ({ on
     references: [videoPerformance.id],
   }),
 }));
+
+// ─── Hook Calibration ─────────────────────────────────────────────────────────
+
+export const hookCalibration = pgTable('hook_calibration', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  sampleSize: integer('sample_size').notNull(),
+  weights: jsonb('weights').notNull(), // per-criterion multipliers, summing to the criterion count
+  suggestedMinimum: integer('suggested_minimum'), // calibrated hook score to gate on, null if no clear cut
+  fit: jsonb('fit').notNull(), // CalibrationFit from src/lib/hook-calibration.ts
+  applied: boolean('applied').notNull().default(false), // at most one row: ScriptingAgent scores hooks with it
+  appliedAt: timestamp('applied_at'),
+  createdAt: timestamp('created_at').defaultNow(),
+});
+
+// ─── Dead Letter ──────────────────────────────────────────────────────────────
+
+export const deadLetter = pgTable('dead_letter', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  jobId: text('job_id'),
+  step: text('step').notNull(), // PipelineJobData step
+  // Kept after the project is deleted, so the failure history survives
+  projectId: uuid('project_id').references(() => project.id, { onDelete: 'set null' }),
+  subjectId: text('subject_id'), // project, product or style preset the job ran for
+  stage: text('stage'),
+  jobData: jsonb('job_data').notNull(),
+  failureClass: text('failure_class').notNull(), // FAILURE_CLASSES key in src/lib/failures.ts
+  errorName: text('error_name'),
+  errorMessage: text('error_message').notNull(),
+  errorStack: text('error_stack'),
+  attempts: integer('attempts').notNull().default(1),
+  correlationId: text('correlation_id'),
+  logs: jsonb('logs'), // generation_log rows written while the job ran
+  status: text('status').notNull().default('open'), // 'open' | 'retried' | 'rolled_back' | 'dismissed'
+  resolvedAt: timestamp('resolved_at'),
+  createdAt: timestamp('created_at').defaultNow(),
+});
+
+export const deadLetterRelations = relations(deadLetter, ({ one }) => ({
+  project: one(project, {
+    fields: [deadLetter.projectId],
+    references: [project.id],
+  }),
+}));
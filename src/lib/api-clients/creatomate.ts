@@ -1,5 +1,8 @@
 import { createLogger, logToGenerationLog } from '@/lib/logger';
 import type { SupabaseClient } from '@supabase/supabase-js';
+import { webhookUrl, type ProviderTaskState } from '@/lib/webhooks';
+import { mockEnabled } from '@/lib/mock-providers';
+import { mockCreatomateRequest } from '@/lib/mock-providers/handlers';
 
 const logger = createLogger({ agentName: 'CreatomateClient' });
 
@@ -16,6 +19,14 @@ export interface RenderResult {
   id: string;
   status: string;
   url?: string;
+  error_message?: string;
+}
+
+/** Map a render (status response or webhook body) to a task state. */
+export function toTaskState(render: RenderResult): ProviderTaskState {
+  if (render.status === 'succeeded') return { status: 'completed', url: render.url };
+  if (render.status === 'failed') return { status: 'failed', error: render.error_message || 'Unknown error' };
+  return { status: 'pending' };
 }
 
 export interface CreatomateCallContext {
@@ -30,12 +41,13 @@ export class CreatomateClient {
 
   constructor(apiKey?: string) {
     this.apiKey = apiKey || process.env.CREATOMATE_API_KEY || '';
-    if (!this.apiKey) {
+    if (!this.apiKey && !mockEnabled('creatomate')) {
       logger.warn('No API key provided');
     }
   }
 
   private async request(path: string, options: RequestInit = {}, context?: CreatomateCallContext): Promise<any> {
+    if (mockEnabled('creatomate')) return mockCreatomateRequest(path, options);
     const url = `${this.baseUrl}${path}`;
     const start = Date.now();
     let statusCode: number | undefined;
@@ -109,6 +121,8 @@ export class CreatomateClient {
 
     if (options.maxWidth) body.max_width = options.maxWidth;
     if (options.maxHeight) body.max_height = options.maxHeight;
+    const callback = webhookUrl('creatomate');
+    if (callback) body.webhook_url = callback;
 
     const data = await this.request('/renders', {
       method: 'POST',
@@ -130,6 +144,7 @@ export class CreatomateClient {
       id: data.id,
       status: data.status,
       url: data.url,
+      error_message: data.error_message,
     };
   }
 
@@ -1,5 +1,7 @@
 import { createLogger, logToGenerationLog } from '@/lib/logger';
 import type { SupabaseClient } from '@supabase/supabase-js';
+import { mockEnabled } from '@/lib/mock-providers';
+import { mockElevenLabsAudio, mockElevenLabsRequest } from '@/lib/mock-providers/handlers';
 
 const logger = createLogger({ agentName: 'ElevenLabsClient' });
 
@@ -9,18 +11,51 @@ export interface ElevenLabsCallContext {
   supabase?: SupabaseClient;
 }
 
+/** Per-character timing returned by the with-timestamps TTS endpoint. */
+export interface CharacterAlignment {
+  characters: string[];
+  character_start_times_seconds: number[];
+  character_end_times_seconds: number[];
+}
+
+export interface TimedSpeech {
+  audio: Buffer;
+  alignment: CharacterAlignment | null;
+}
+
+export interface TtsOptions {
+  /** Speaking rate; ElevenLabs accepts 0.7-1.2 (1.0 = natural pace) */
+  speed?: number;
+  /** ISO 639-1 language of the text; anything but English is pinned with language_code */
+  languageCode?: string;
+}
+
+export const TTS_SPEED_RANGE = { min: 0.7, max: 1.2 } as const;
+
+const TTS_MODEL_ID = 'eleven_multilingual_v2';
+/** multilingual_v2 guesses the language from the text; turbo v2.5 accepts language_code */
+const TTS_LOCALIZED_MODEL_ID = 'eleven_turbo_v2_5';
+
+const TTS_VOICE_SETTINGS = {
+  stability: 0.5,
+  similarity_boost: 0.75,
+  style: 0.5,
+  use_speaker_boost: true,
+};
+
 export class ElevenLabsClient {
   private apiKey: string;
   private baseUrl = 'https://api.elevenlabs.io';
 
   constructor(apiKey?: string) {
     this.apiKey = apiKey || process.env.ELEVENLABS_API_KEY || '';
-    if (!this.apiKey) {
+    if (!this.apiKey && !mockEnabled('elevenlabs')) {
       logger.warn('No API key provided');
     }
   }
 
   private async request(path: string, options: RequestInit = {}, context?: ElevenLabsCallContext): Promise<any> {
+    if (mockEnabled('elevenlabs')) return mockElevenLabsRequest(path, options);
     const url = `${this.baseUrl}${path}`;
     const start = Date.now();
     let statusCode: number | undefined;
@@ -107,6 +142,7 @@ export class ElevenLabsClient {
    * Note: ElevenLabs TTS returns audio bytes directly, not JSON.
    */
   async textToSpeech(voiceId: string, text: string, context?: ElevenLabsCallContext): Promise<Buffer> {
+    if (mockEnabled('elevenlabs')) return mockElevenLabsAudio(text);
     const endpoint = `/v1/text-to-speech/${voiceId}`;
     const url = `${this.baseUrl}${endpoint}`;
     const start = Date.now();
@@ -120,13 +156,8 @@ export class ElevenLabsClient {
         },
         body: JSON.stringify({
           text,
-          model_id: 'eleven_multilingual_v2',
-          voice_settings: {
-            stability: 0.5,
-            similarity_boost: 0.75,
-            style: 0.5,
-            use_speaker_boost: true,
-          },
+          model_id: TTS_MODEL_ID,
+          voice_settings: TTS_VOICE_SETTINGS,
         }),
       });
 
@@ -182,6 +213,43 @@ export class ElevenLabsClient {
     }
   }
 
+  /**
+   * Generate speech plus per-character timings (the with-timestamps variant).
+   * Same voice settings and price as textToSpeech; audio arrives base64-encoded in JSON.
+   * Prefers the alignment of the original text, falling back to the normalized one.
+   */
+  async textToSpeechWithTimestamps(
+    voiceId: string,
+    text: string,
+    options?: TtsOptions,
+    context?: ElevenLabsCallContext,
+  ): Promise<TimedSpeech> {
+    const voiceSettings = options?.speed !== undefined
+      ? {
+          ...TTS_VOICE_SETTINGS,
+          speed: Math.min(TTS_SPEED_RANGE.max, Math.max(TTS_SPEED_RANGE.min, options.speed)),
+        }
+      : TTS_VOICE_SETTINGS;
+
+    const language = options?.languageCode && options.languageCode !== 'en'
+      ? { model_id: TTS_LOCALIZED_MODEL_ID, language_code: options.languageCode }
+      : { model_id: TTS_MODEL_ID };
+
+    const data = await this.request(`/v1/text-to-speech/${voiceId}/with-timestamps`, {
+      method: 'POST',
+      body: JSON.stringify({
+        text,
+        ...language,
+        voice_settings: voiceSettings,
+      }),
+    }, context);
+
+    return {
+      audio: Buffer.from(data.audio_base64, 'base64'),
+      alignment: data.alignment ?? data.normalized_alignment ?? null,
+    };
+  }
+
   /**
    * Check if a voice_id is still valid on ElevenLabs.
    */
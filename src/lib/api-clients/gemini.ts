@@ -1,6 +1,8 @@
 import { GoogleGenerativeAI } from '@google/generative-ai';
 import { GoogleAIFileManager, FileState } from '@google/generative-ai/server';
 import { createLogger } from '@/lib/logger';
+import { mockEnabled } from '@/lib/mock-providers';
+import { mockGeminiAnalysis } from '@/lib/mock-providers/handlers';
 
 const logger = createLogger({ agentName: 'GeminiClient' });
 
@@ -11,7 +13,7 @@ export class GeminiClient {
 
   constructor(apiKey?: string, model = 'gemini-2.5-flash') {
     const key = apiKey || process.env.GOOGLE_API_KEY || '';
-    if (!key) {
+    if (!key && !mockEnabled('gemini')) {
       logger.warn('No GOOGLE_API_KEY provided');
     }
     this.genAI = new GoogleGenerativeAI(key);
@@ -25,6 +27,7 @@ export class GeminiClient {
     userPrompt: string,
     options?: { temperature?: number; maxTokens?: number }
   ): Promise<string> {
+    if (mockEnabled('gemini')) return mockGeminiAnalysis(systemPrompt);
     const start = Date.now();
     const UPLOAD_TIMEOUT_MS = 60_000;
     const GENERATE_TIMEOUT_MS = 180_000;
@@ -1,4 +1,8 @@
 import { createLogger, logToGenerationLog } from '@/lib/logger';
+import { CancellationError } from '@/lib/errors';
+import { webhookUrl, type ProviderTaskState } from '@/lib/webhooks';
+import { mockEnabled } from '@/lib/mock-providers';
+import { mockWaveSpeedRequest } from '@/lib/mock-providers/handlers';
 import type { SupabaseClient } from '@supabase/supabase-js';
 
 const logger = createLogger({ agentName: 'WaveSpeedClient' });
@@ -16,6 +20,8 @@ export interface ImageOptions {
   height?: number;
 }
 
+const KLING_VIDEO_ENDPOINT = '/api/v3/kwaivgi/kling-v3.0-pro/image-to-video';
+
 export interface VideoParams {
   image: string;
   tailImage?: string;   // end frame URL for Kling 3.0 start-end feature
@@ -33,6 +39,25 @@ export interface ApiCallContext {
   supabase?: SupabaseClient;
 }
 
+export interface WaveSpeedPrediction {
+  id?: string;
+  status?: string;
+  outputs?: string[];
+  error?: unknown;
+  message?: unknown;
+}
+
+/** Map a prediction (poll result `data`, or a webhook body) to a task state. */
+export function toTaskState(prediction: WaveSpeedPrediction): ProviderTaskState {
+  if (prediction.status === 'completed') {
+    return { status: 'completed', url: prediction.outputs?.[0] };
+  }
+  if (prediction.status === 'failed') {
+    return { status: 'failed', error: JSON.stringify(prediction.error || prediction.message || 'Unknown error') };
+  }
+  return { status: 'pending' };
+}
+
 /** Detect AbortController abort errors across all Node.js versions. */
 function isAbortError(err: unknown): boolean {
   return typeof err === 'object' && err !== null && 'name' in err && (err as { name: string }).name === 'AbortError';
@@ -40,17 +65,20 @@ function isAbortError(err: unknown): boolean {
 
 export class WaveSpeedClient {
   private apiKey: string;
-  private baseUrl = 'https://api.wavespeed.ai';
+  private baseUrl = process.env.WAVESPEED_BASE_URL || 'https://api.wavespeed.ai';
 
   constructor(apiKey?: string) {
     this.apiKey = apiKey || process.env.WAVESPEED_API_KEY || '';
-    if (!this.apiKey) {
+    if (!this.apiKey && !mockEnabled('wavespeed')) {
       logger.warn('No API key provided');
     }
   }
 
   private async request(path: string, options: RequestInit = {}, context?: ApiCallContext, timeoutMs: number = 120000): Promise<any> {
     const url = `${this.baseUrl}${path}`;
+    // Logged without the query string, which may carry the webhook secret
+    const endpoint = path.split('?')[0];
+    if (mockEnabled('wavespeed')) return mockWaveSpeedRequest(path, options);
     const start = Date.now();
     let statusCode: number | undefined;
 
@@ -73,7 +101,7 @@ export class WaveSpeedClient {
             },
           }),
           new Promise<never>((_, reject) =>
-            setTimeout(() => reject(new Error(`WaveSpeed API timeout (${timeoutMs / 1000}s): ${path}`)), timeoutMs + 5000)
+            setTimeout(() => reject(new Error(`WaveSpeed API timeout (${timeoutMs / 1000}s): ${endpoint}`)), timeoutMs + 5000)
           ),
         ]);
       } finally {
@@ -86,7 +114,7 @@ export class WaveSpeedClient {
       if (!response.ok) {
         const error = await response.text();
         logger.error(
-          { provider: 'WaveSpeed', endpoint: path, method: options.method || 'GET', statusCode, latencyMs },
+          { provider: 'WaveSpeed', endpoint, method: options.method || 'GET', statusCode, latencyMs },
           `API call failed: ${error}`
         );
 
@@ -96,7 +124,7 @@ export class WaveSpeedClient {
             correlation_id: context.correlationId,
             event_type: 'api_call',
             agent_name: 'WaveSpeedClient',
-            detail: { provider: 'WaveSpeed', endpoint: path, method: options.method || 'GET', statusCode, latencyMs, error },
+            detail: { provider: 'WaveSpeed', endpoint, method: options.method || 'GET', statusCode, latencyMs, error },
           });
         }
 
@@ -104,7 +132,7 @@ export class WaveSpeedClient {
       }
 
       logger.info(
-        { provider: 'WaveSpeed', endpoint: path, method: options.method || 'GET', statusCode, latencyMs },
+        { provider: 'WaveSpeed', endpoint, method: options.method || 'GET', statusCode, latencyMs },
         'API call completed'
       );
 
@@ -114,7 +142,7 @@ export class WaveSpeedClient {
           correlation_id: context.correlationId,
           event_type: 'api_call',
           agent_name: 'WaveSpeedClient',
-          detail: { provider: 'WaveSpeed', endpoint: path, method: options.method || 'GET', statusCode, latencyMs },
+          detail: { provider: 'WaveSpeed', endpoint, method: options.method || 'GET', statusCode, latencyMs },
         });
       }
 
@@ -128,11 +156,11 @@ export class WaveSpeedClient {
           ? `Request timed out after ${timeoutMs / 1000}s`
           : (err as Error).message;
         logger.error(
-          { provider: 'WaveSpeed', endpoint: path, method: options.method || 'GET', error: errorMsg, latencyMs, timeout: isTimeout },
+          { provider: 'WaveSpeed', endpoint, method: options.method || 'GET', error: errorMsg, latencyMs, timeout: isTimeout },
           isTimeout ? 'API call timed out' : 'API call failed (network error)'
         );
         if (isTimeout) {
-          throw new Error(`WaveSpeed API timeout (${timeoutMs / 1000}s): ${path}`);
+          throw new Error(`WaveSpeed API timeout (${timeoutMs / 1000}s): ${endpoint}`);
         }
       }
       throw err;
@@ -196,6 +224,12 @@ export class WaveSpeedClient {
     return false;
   }
 
+  /** Async task endpoints report back to the webhook route when webhooks are on. */
+  private taskPath(path: string): string {
+    const callback = webhookUrl('wavespeed');
+    return callback ? `${path}?webhook=${encodeURIComponent(callback)}` : path;
+  }
+
   async generateImage(prompt: string, options?: ImageOptions, context?: ApiCallContext): Promise<{ taskId: string }> {
     const { aspectRatio = '9:16', width, height } = options || {};
 
@@ -210,7 +244,7 @@ export class WaveSpeedClient {
     if (width) body.width = width;
     if (height) body.height = height;
 
-    const data = await this.request('/api/v3/google/nano-banana-pro/text-to-image-multi', {
+    const data = await this.request(this.taskPath('/api/v3/google/nano-banana-pro/text-to-image-multi'), {
       method: 'POST',
       body: JSON.stringify(body),
     }, context);
@@ -235,7 +269,7 @@ export class WaveSpeedClient {
       enable_sync_mode: false,
     };
 
-    const data = await this.request('/api/v3/google/nano-banana-pro/edit', {
+    const data = await this.request(this.taskPath('/api/v3/google/nano-banana-pro/edit'), {
       method: 'POST',
       body: JSON.stringify(body),
     }, context);
@@ -243,17 +277,21 @@ export class WaveSpeedClient {
     return { taskId: data.data?.id };
   }
 
-  async generateVideo(params: VideoParams, context?: ApiCallContext): Promise<{ taskId: string }> {
+  /**
+   * Submit an image-to-video task to `endpoint` (the video model's api_endpoint).
+   * Optional inputs are only sent when given, so models without them accept the body.
+   */
+  async generateVideo(
+    params: VideoParams,
+    context?: ApiCallContext,
+    endpoint: string = KLING_VIDEO_ENDPOINT,
+  ): Promise<{ taskId: string }> {
     const { image, tailImage, prompt, negativePrompt, multiPrompt, duration = 15, cfgScale = 0.5, sound = true } = params;
 
     const body: Record<string, unknown> = {
       image,
       prompt,
       negative_prompt: negativePrompt || '',
-      multi_prompt: (multiPrompt || []).map(mp => ({
-        prompt: mp.prompt,
-        duration: typeof mp.duration === 'number' ? mp.duration : parseInt(mp.duration, 10),
-      })),
       duration,
       cfg_scale: cfgScale,
       sound,
@@ -262,8 +300,14 @@ export class WaveSpeedClient {
     if (tailImage) {
       body.tail_image = tailImage;
     }
+    if (multiPrompt && multiPrompt.length > 0) {
+      body.multi_prompt = multiPrompt.map(mp => ({
+        prompt: mp.prompt,
+        duration: typeof mp.duration === 'number' ? mp.duration : parseInt(mp.duration, 10),
+      }));
+    }
 
-    const data = await this.request('/api/v3/kwaivgi/kling-v3.0-pro/image-to-video', {
+    const data = await this.request(this.taskPath(endpoint), {
       method: 'POST',
       body: JSON.stringify(body),
     }, context);
@@ -278,7 +322,7 @@ export class WaveSpeedClient {
   ): Promise<{ taskId: string }> {
     const { targetResolution = '4k', outputFormat = 'png' } = options || {};
 
-    const data = await this.request('/api/v3/wavespeed-ai/image-upscaler', {
+    const data = await this.request(this.taskPath('/api/v3/wavespeed-ai/image-upscaler'), {
       method: 'POST',
       body: JSON.stringify({
         image: imageUrl,
@@ -291,6 +335,12 @@ export class WaveSpeedClient {
     return { taskId: data.data?.id };
   }
 
+  /** Check a task once, without waiting (the fallback for a missed webhook). */
+  async getResult(taskId: string, timeoutMs: number = 30000): Promise<ProviderTaskState> {
+    const data = await this.request(`/api/v3/predictions/${taskId}/result`, {}, undefined, timeoutMs);
+    return toTaskState(data.data ?? {});
+  }
+
   async pollResult(
     taskId: string,
     options?: { maxWait?: number; initialInterval?: number; shouldCancel?: () => Promise<boolean> }
@@ -318,7 +368,6 @@ export class WaveSpeedClient {
         const cancelled = await options.shouldCancel();
         if (cancelled) {
           logger.info({ taskId }, 'Poll cancelled by shouldCancel callback');
-          const { CancellationError } = await import('../../lib/errors');
           throw new CancellationError(`Task ${taskId} cancelled by user`);
         }
       }
@@ -328,6 +377,9 @@ export class WaveSpeedClient {
         // regardless of whether AbortController works in this runtime.
         const data = await Promise.race([
           (async () => {
+            if (mockEnabled('wavespeed')) {
+              return mockWaveSpeedRequest(`/api/v3/predictions/${taskId}/result`);
+            }
             const controller = new AbortController();
             const tid = setTimeout(() => controller.abort(), config.perRequestTimeout);
             try {
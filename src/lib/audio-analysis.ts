@@ -0,0 +1,416 @@
+// ─── Audio Analysis ───────────────────────────────────────────────────────────
+// Frame-level MP3 and WAV parsing: exact duration, sample rate and silence regions
+// without decoding, plus frame-accurate trimming. Replaces the 128kbps byte heuristic,
+// which breaks on VBR output, ID3 tags and non-MP3 formats.
+
+import { AudioParseError } from '@/lib/errors';
+
+export type AudioFormat = 'mp3' | 'wav';
+
+export interface SilenceRegion {
+  startMs: number;
+  endMs: number;
+}
+
+export interface AudioInfo {
+  format: AudioFormat;
+  durationMs: number;
+  sampleRate: number;
+  channels: number;
+  /** Average bitrate over all audio frames */
+  bitrateKbps: number;
+  silences: SilenceRegion[];
+  leadingSilenceMs: number;
+  trailingSilenceMs: number;
+  /** durationMs minus leading and trailing silence */
+  speechDurationMs: number;
+}
+
+/** Shortest gap reported as a silence region. */
+const MIN_SILENCE_MS = 200;
+
+/** WAV: a 20ms window quieter than this (dBFS RMS) counts as silent. */
+const WAV_SILENCE_DBFS = -50;
+const WAV_WINDOW_MS = 20;
+
+/**
+ * MP3: a granule whose Huffman data is at most this many bits holds (near-)zero
+ * spectral values. Encoders emit such granules for digital silence and room tone,
+ * which lets us find silence from side info without decoding.
+ */
+const MP3_SILENT_GRANULE_BITS = 40;
+
+// ─── MP3 ──────────────────────────────────────────────────────────────────────
+
+const MP3_BITRATES: Record<string, number[]> = {
+  '1-1': [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+  '1-2': [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+  '1-3': [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  '2-1': [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+  '2-2': [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+  '2-3': [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+};
+
+const MP3_SAMPLE_RATES: Record<number, number[]> = {
+  1: [44100, 48000, 32000],
+  2: [22050, 24000, 16000],
+  2.5: [11025, 12000, 8000],
+};
+
+interface Mp3Frame {
+  offset: number;
+  length: number;
+  samples: number;
+  sampleRate: number;
+  channels: number;
+  bitrateKbps: number;
+  silent: boolean;
+}
+
+/** Read `count` bits starting at bit `bitOffset` of buf (big-endian). */
+function readBits(buf: Buffer, start: number, bitOffset: number, count: number): number {
+  let value = 0;
+  for (let i = 0; i < count; i++) {
+    const bit = bitOffset + i;
+    const byte = buf[start + (bit >> 3)] ?? 0;
+    value = (value << 1) | ((byte >> (7 - (bit & 7))) & 1);
+  }
+  return value;
+}
+
+function parseMp3FrameHeader(buf: Buffer, offset: number): Omit<Mp3Frame, 'silent'> & {
+  version: number;
+  layer: number;
+  crc: boolean;
+} | null {
+  if (offset + 4 > buf.length) return null;
+  if (buf[offset] !== 0xff || (buf[offset + 1] & 0xe0) !== 0xe0) return null;
+
+  const b1 = buf[offset + 1];
+  const b2 = buf[offset + 2];
+  const b3 = buf[offset + 3];
+
+  const versionBits = (b1 >> 3) & 0x03;
+  const layerBits = (b1 >> 1) & 0x03;
+  if (versionBits === 1 || layerBits === 0) return null;
+
+  const version = versionBits === 3 ? 1 : versionBits === 2 ? 2 : 2.5;
+  const layer = 4 - layerBits;
+  const crc = (b1 & 0x01) === 0;
+
+  const bitrateIdx = b2 >> 4;
+  const sampleRateIdx = (b2 >> 2) & 0x03;
+  if (bitrateIdx === 0 || bitrateIdx === 15 || sampleRateIdx === 3) return null;
+
+  const bitrateKbps = MP3_BITRATES[`${version === 1 ? 1 : 2}-${layer}`][bitrateIdx];
+  const sampleRate = MP3_SAMPLE_RATES[version][sampleRateIdx];
+  const padding = (b2 >> 1) & 0x01;
+  const channels = (b3 >> 6) === 3 ? 1 : 2;
+
+  const bps = bitrateKbps * 1000;
+  let length: number;
+  let samples: number;
+  if (layer === 1) {
+    length = (Math.floor((12 * bps) / sampleRate) + padding) * 4;
+    samples = 384;
+  } else if (layer === 2 || version === 1) {
+    length = Math.floor((144 * bps) / sampleRate) + padding;
+    samples = 1152;
+  } else {
+    length = Math.floor((72 * bps) / sampleRate) + padding;
+    samples = 576;
+  }
+
+  return { offset, length, samples, sampleRate, channels, bitrateKbps, version, layer, crc };
+}
+
+/**
+ * Layer III side info: a granule is silent when its Huffman-coded part is tiny.
+ * Frames from other layers are never classified as silent.
+ */
+function isMp3FrameSilent(buf: Buffer, frame: NonNullable<ReturnType<typeof parseMp3FrameHeader>>): boolean {
+  if (frame.layer !== 3) return false;
+
+  const sideStart = frame.offset + 4 + (frame.crc ? 2 : 0);
+  const mpeg1 = frame.version === 1;
+  const mono = frame.channels === 1;
+
+  // Bits before the first granule: main_data_begin + private bits (+ scfsi on MPEG-1)
+  const headerBits = mpeg1 ? 9 + (mono ? 5 : 3) + 4 * frame.channels : 8 + (mono ? 1 : 2);
+  const blockBits = mpeg1 ? 59 : 63;
+  const granules = mpeg1 ? 2 : 1;
+
+  for (let g = 0; g < granules * frame.channels; g++) {
+    const part23Length = readBits(buf, sideStart, headerBits + g * blockBits, 12);
+    if (part23Length > MP3_SILENT_GRANULE_BITS) return false;
+  }
+  return true;
+}
+
+/** Xing/Info (LAME) or VBRI header frames carry metadata, not audio. */
+function isMp3InfoFrame(buf: Buffer, frame: NonNullable<ReturnType<typeof parseMp3FrameHeader>>): boolean {
+  const sideInfoBytes = frame.version === 1
+    ? (frame.channels === 1 ? 17 : 32)
+    : (frame.channels === 1 ? 9 : 17);
+  const tagAt = frame.offset + 4 + (frame.crc ? 2 : 0) + sideInfoBytes;
+  const tag = buf.toString('latin1', tagAt, tagAt + 4);
+  const vbri = buf.toString('latin1', frame.offset + 36, frame.offset + 40);
+  return tag === 'Xing' || tag === 'Info' || vbri === 'VBRI';
+}
+
+function id3v2Size(buf: Buffer): number {
+  if (buf.length < 10 || buf.toString('latin1', 0, 3) !== 'ID3') return 0;
+  const size = ((buf[6] & 0x7f) << 21) | ((buf[7] & 0x7f) << 14) | ((buf[8] & 0x7f) << 7) | (buf[9] & 0x7f);
+  const footer = (buf[5] & 0x10) ? 10 : 0;
+  return 10 + size + footer;
+}
+
+interface Mp3Parse {
+  /** Bytes before the first audio frame (ID3v2 tag) */
+  prefixEnd: number;
+  frames: Mp3Frame[];
+}
+
+function parseMp3Frames(buf: Buffer): Mp3Parse {
+  const prefixEnd = id3v2Size(buf);
+  const frames: Mp3Frame[] = [];
+  let offset = prefixEnd;
+  let first = true;
+
+  while (offset + 4 <= buf.length) {
+    const header = parseMp3FrameHeader(buf, offset);
+    // Require the next frame to line up too, so stray 0xFF bytes don't count as a sync
+    const next = header && offset + header.length + 4 <= buf.length
+      ? parseMp3FrameHeader(buf, offset + header.length)
+      : null;
+    const atEnd = header && offset + header.length >= buf.length - 128;
+
+    if (!header || (!next && !atEnd)) {
+      offset++;
+      continue;
+    }
+
+    if (!(first && isMp3InfoFrame(buf, header))) {
+      frames.push({
+        offset: header.offset,
+        length: header.length,
+        samples: header.samples,
+        sampleRate: header.sampleRate,
+        channels: header.channels,
+        bitrateKbps: header.bitrateKbps,
+        silent: isMp3FrameSilent(buf, header),
+      });
+    }
+    first = false;
+    offset += header.length;
+  }
+
+  if (frames.length === 0) throw new AudioParseError('No MPEG audio frames found');
+  return { prefixEnd, frames };
+}
+
+// ─── WAV ──────────────────────────────────────────────────────────────────────
+
+interface WavParse {
+  audioFormat: number;
+  channels: number;
+  sampleRate: number;
+  bitsPerSample: number;
+  dataOffset: number;
+  dataLength: number;
+}
+
+function parseWavHeader(buf: Buffer): WavParse {
+  if (buf.length < 12 || buf.toString('latin1', 0, 4) !== 'RIFF' || buf.toString('latin1', 8, 12) !== 'WAVE') {
+    throw new AudioParseError('Not a RIFF/WAVE file');
+  }
+
+  let fmt: Omit<WavParse, 'dataOffset' | 'dataLength'> | null = null;
+  let offset = 12;
+
+  while (offset + 8 <= buf.length) {
+    const id = buf.toString('latin1', offset, offset + 4);
+    const size = buf.readUInt32LE(offset + 4);
+    const body = offset + 8;
+
+    if (id === 'fmt ') {
+      let audioFormat = buf.readUInt16LE(body);
+      // WAVE_FORMAT_EXTENSIBLE: the real format is the first 2 bytes of the sub-format GUID
+      if (audioFormat === 0xfffe && size >= 26) audioFormat = buf.readUInt16LE(body + 24);
+      fmt = {
+        audioFormat,
+        channels: buf.readUInt16LE(body + 2),
+        sampleRate: buf.readUInt32LE(body + 4),
+        bitsPerSample: buf.readUInt16LE(body + 14),
+      };
+    } else if (id === 'data') {
+      if (!fmt) throw new AudioParseError('WAV data chunk before fmt chunk');
+      return { ...fmt, dataOffset: body, dataLength: Math.min(size, buf.length - body) };
+    }
+
+    offset = body + size + (size % 2);
+  }
+
+  throw new AudioParseError('WAV file has no data chunk');
+}
+
+function readWavSample(buf: Buffer, offset: number, wav: WavParse): number {
+  if (wav.audioFormat === 3 && wav.bitsPerSample === 32) return buf.readFloatLE(offset);
+  switch (wav.bitsPerSample) {
+    case 8: return (buf[offset] - 128) / 128;
+    case 16: return buf.readInt16LE(offset) / 32768;
+    case 24: return buf.readIntLE(offset, 3) / 8388608;
+    case 32: return buf.readInt32LE(offset) / 2147483648;
+    default: throw new AudioParseError(`Unsupported WAV bit depth: ${wav.bitsPerSample}`);
+  }
+}
+
+/** Per-window silent flags from PCM RMS. */
+function wavSilentWindows(buf: Buffer, wav: WavParse): boolean[] {
+  const bytesPerSample = wav.bitsPerSample / 8;
+  const frameBytes = bytesPerSample * wav.channels;
+  const windowFrames = Math.max(1, Math.round((wav.sampleRate * WAV_WINDOW_MS) / 1000));
+  const totalFrames = Math.floor(wav.dataLength / frameBytes);
+  const threshold = Math.pow(10, WAV_SILENCE_DBFS / 20);
+  const windows: boolean[] = [];
+
+  for (let f = 0; f < totalFrames; f += windowFrames) {
+    const end = Math.min(totalFrames, f + windowFrames);
+    let sumSquares = 0;
+    for (let i = f; i < end; i++) {
+      for (let c = 0; c < wav.channels; c++) {
+        const s = readWavSample(buf, wav.dataOffset + i * frameBytes + c * bytesPerSample, wav);
+        sumSquares += s * s;
+      }
+    }
+    const rms = Math.sqrt(sumSquares / ((end - f) * wav.channels));
+    windows.push(rms < threshold);
+  }
+
+  return windows;
+}
+
+// ─── Shared ───────────────────────────────────────────────────────────────────
+
+/**
+ * Turn a run of (durationMs, silent) units into silence regions of at least
+ * MIN_SILENCE_MS, and measure leading/trailing silence.
+ */
+function summarizeSilence(units: Array<{ durationMs: number; silent: boolean }>, totalMs: number) {
+  const silences: SilenceRegion[] = [];
+  let t = 0;
+  let runStart: number | null = null;
+
+  for (const unit of units) {
+    if (unit.silent && runStart === null) runStart = t;
+    if (!unit.silent && runStart !== null) {
+      if (t - runStart >= MIN_SILENCE_MS) silences.push({ startMs: Math.round(runStart), endMs: Math.round(t) });
+      runStart = null;
+    }
+    t += unit.durationMs;
+  }
+  if (runStart !== null && t - runStart >= MIN_SILENCE_MS) {
+    silences.push({ startMs: Math.round(runStart), endMs: Math.round(t) });
+  }
+
+  const leadingSilenceMs = silences[0]?.startMs === 0 ? silences[0].endMs : 0;
+  const last = silences[silences.length - 1];
+  const trailingSilenceMs = last && last.endMs >= Math.round(totalMs) ? last.endMs - last.startMs : 0;
+
+  return {
+    silences,
+    leadingSilenceMs,
+    trailingSilenceMs,
+    speechDurationMs: Math.max(0, Math.round(totalMs) - leadingSilenceMs - trailingSilenceMs),
+  };
+}
+
+export function detectAudioFormat(buf: Buffer): AudioFormat {
+  if (buf.length >= 12 && buf.toString('latin1', 0, 4) === 'RIFF' && buf.toString('latin1', 8, 12) === 'WAVE') {
+    return 'wav';
+  }
+  return 'mp3';
+}
+
+/**
+ * Parse an MP3 or WAV buffer: exact duration from frame/sample counts, sample rate,
+ * channels and silence regions.
+ */
+export function analyzeAudio(buf: Buffer): AudioInfo {
+  if (detectAudioFormat(buf) === 'wav') {
+    const wav = parseWavHeader(buf);
+    if (wav.audioFormat !== 1 && wav.audioFormat !== 3) {
+      throw new AudioParseError(`Unsupported WAV encoding: format ${wav.audioFormat}`);
+    }
+    const frameBytes = (wav.bitsPerSample / 8) * wav.channels;
+    const durationMs = (Math.floor(wav.dataLength / frameBytes) / wav.sampleRate) * 1000;
+    const units = wavSilentWindows(buf, wav).map((silent) => ({ durationMs: WAV_WINDOW_MS, silent }));
+    return {
+      format: 'wav',
+      durationMs: Math.round(durationMs),
+      sampleRate: wav.sampleRate,
+      channels: wav.channels,
+      bitrateKbps: Math.round((wav.sampleRate * frameBytes * 8) / 1000),
+      ...summarizeSilence(units, durationMs),
+    };
+  }
+
+  const { frames } = parseMp3Frames(buf);
+  const sampleRate = frames[0].sampleRate;
+  const units = frames.map((f) => ({ durationMs: (f.samples / f.sampleRate) * 1000, silent: f.silent }));
+  const durationMs = units.reduce((sum, u) => sum + u.durationMs, 0);
+  const bytes = frames.reduce((sum, f) => sum + f.length, 0);
+
+  return {
+    format: 'mp3',
+    durationMs: Math.round(durationMs),
+    sampleRate,
+    channels: frames[0].channels,
+    bitrateKbps: Math.round((bytes * 8) / durationMs),
+    ...summarizeSilence(units, durationMs),
+  };
+}
+
+/**
+ * Cut audio at `endMs`, on a frame boundary for MP3 (a frame is never split) and
+ * on a sample boundary for WAV. ID3v2 tags are kept; Xing/Info frames and trailing
+ * ID3v1 tags are dropped since their frame counts would no longer be accurate.
+ */
+export function trimAudio(buf: Buffer, endMs: number): Buffer {
+  if (detectAudioFormat(buf) === 'wav') {
+    const wav = parseWavHeader(buf);
+    const frameBytes = (wav.bitsPerSample / 8) * wav.channels;
+    const keepFrames = Math.min(
+      Math.floor(wav.dataLength / frameBytes),
+      Math.round((endMs / 1000) * wav.sampleRate),
+    );
+    const dataLength = keepFrames * frameBytes;
+
+    const out = Buffer.concat([
+      buf.subarray(0, wav.dataOffset),
+      buf.subarray(wav.dataOffset, wav.dataOffset + dataLength),
+    ]);
+    out.writeUInt32LE(out.length - 8, 4);
+    out.writeUInt32LE(dataLength, wav.dataOffset - 4);
+    return out;
+  }
+
+  const { prefixEnd, frames } = parseMp3Frames(buf);
+  const parts: Buffer[] = [buf.subarray(0, prefixEnd)];
+  let t = 0;
+  for (const frame of frames) {
+    if (t >= endMs) break;
+    parts.push(buf.subarray(frame.offset, frame.offset + frame.length));
+    t += (frame.samples / frame.sampleRate) * 1000;
+  }
+  return Buffer.concat(parts);
+}
+
+/**
+ * Trim trailing silence down to `keepMs`. Returns the original buffer when there
+ * is nothing worth trimming.
+ */
+export function trimTrailingSilence(buf: Buffer, info: AudioInfo, keepMs = 150): Buffer {
+  if (info.trailingSilenceMs <= keepMs) return buf;
+  return trimAudio(buf, info.durationMs - info.trailingSilenceMs + keepMs);
+}
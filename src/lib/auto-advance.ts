@@ -0,0 +1,104 @@
+// ─── Review Gate Auto-Advance ─────────────────────────────────────────────────
+// R1.5.29: With project.fast_mode, the pipeline skips review gates that need no
+// user input. With project.auto_approve (headless CLI runs), it skips every gate —
+// including B-roll, influencer selection and the final asset review. Which step
+// each gate skips to, and whether fast mode may skip it, is REVIEW_GATES in
+// pipeline.ts.
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createLogger, logToGenerationLog } from '@/lib/logger';
+import { getPipelineQueue } from '@/lib/queue';
+import { checkStageBudget } from '@/lib/budget';
+import { autoAdvanceFor } from '@/lib/pipeline';
+import { complianceBlockReason, getScriptCompliance } from '@/lib/compliance';
+
+const log = createLogger({ agentName: 'AutoAdvance' });
+
+/**
+ * Enqueue the next step if the project may skip the gate it just reached.
+ * Casting still needs an influencer and a product image, a script with hard
+ * compliance violations stays for review, and no step is enqueued past its
+ * budget — otherwise the project waits at the gate and an
+ * auto_advance_blocked event says why.
+ */
+export async function maybeAutoAdvance(
+  supabase: SupabaseClient,
+  projectId: string,
+  newStatus: string,
+  correlationId: string,
+): Promise<boolean> {
+  const gate = autoAdvanceFor(newStatus);
+  if (!gate) return false;
+
+  const { data: project } = await supabase
+    .from('project')
+    .select('fast_mode, auto_approve, influencer_id, product_image_url')
+    .eq('id', projectId)
+    .single();
+
+  if (!project) return false;
+  const autoApprove = !!project.auto_approve;
+  if (!autoApprove && !(project.fast_mode && gate.fastMode)) return false;
+
+  if (gate.step === 'casting') {
+    const missing = !project.influencer_id ? 'influencer_id' : !project.product_image_url ? 'product_image_url' : null;
+    if (missing) {
+      await logToGenerationLog(supabase, {
+        project_id: projectId,
+        correlation_id: correlationId,
+        event_type: 'auto_advance_blocked',
+        agent_name: 'PipelineWorker',
+        stage: newStatus,
+        detail: { gate: newStatus, missing },
+      });
+      log.warn({ projectId, gate: newStatus, missing }, 'Auto-advance blocked: casting prerequisites missing');
+      return false;
+    }
+  }
+
+  if (newStatus === 'script_review') {
+    const compliance = await getScriptCompliance(supabase, projectId);
+    const reason = compliance && complianceBlockReason(compliance.report);
+    if (reason) {
+      await logToGenerationLog(supabase, {
+        project_id: projectId,
+        correlation_id: correlationId,
+        event_type: 'auto_advance_blocked',
+        agent_name: 'PipelineWorker',
+        stage: newStatus,
+        detail: { gate: newStatus, missing: 'compliance', reason, hardCount: compliance.report.hardCount },
+      });
+      log.warn({ projectId, gate: newStatus, reason }, 'Auto-advance blocked: compliance violations');
+      return false;
+    }
+  }
+
+  const budget = await checkStageBudget(supabase, projectId, gate.step);
+  if (!budget.allowed) {
+    await logToGenerationLog(supabase, {
+      project_id: projectId,
+      correlation_id: correlationId,
+      event_type: 'auto_advance_blocked',
+      agent_name: 'PipelineWorker',
+      stage: newStatus,
+      detail: { gate: newStatus, missing: 'budget', reason: budget.reason, budget },
+    });
+    log.warn({ projectId, gate: newStatus, reason: budget.reason }, 'Auto-advance blocked: over budget');
+    return false;
+  }
+
+  await logToGenerationLog(supabase, {
+    project_id: projectId,
+    correlation_id: correlationId,
+    event_type: autoApprove ? 'auto_approve' : 'fast_mode_skip',
+    agent_name: 'PipelineWorker',
+    stage: newStatus,
+    detail: { skippedGate: newStatus, autoAdvanceTo: gate.step },
+  });
+
+  // Enqueue next step immediately
+  await getPipelineQueue().add(gate.step, { projectId, step: gate.step });
+
+  log.info({ projectId, skippedGate: newStatus, nextStep: gate.step, autoApprove }, 'Auto-advanced past review gate');
+  return true;
+}
@@ -0,0 +1,180 @@
+// ─── Batches ──────────────────────────────────────────────────────────────────
+// Batch manifests (CSV or JSON rows → POST /api/projects bodies) and aggregate
+// progress for the projects a batch created. No server imports: the batch pages
+// use the summary helpers too.
+
+import { PROJECT_STATUSES, type ProjectStatus } from '@/lib/constants';
+import { REVIEW_GATE_STATUSES } from '@/lib/pipeline';
+import { ManifestParseError } from '@/lib/errors';
+
+/** Most rows a single batch may create. */
+export const MAX_BATCH_ROWS = 100;
+
+/** Manifest columns, named like the POST /api/projects body. */
+export const MANIFEST_COLUMNS = [
+  'productUrl',
+  'productId',
+  'tone',
+  'locale',
+  'influencerId',
+  'stylePresetId',
+  'videoModelId',
+  'name',
+  'variantCount',
+  'budgetUsd',
+] as const;
+
+export type ManifestRow = Partial<Record<(typeof MANIFEST_COLUMNS)[number], string>>;
+
+/** A row that validated but could not be created (stored on batch.failed_rows). */
+export interface FailedBatchRow {
+  /** 1-based manifest row number */
+  row: number;
+  error: string;
+}
+
+export interface BatchSummary {
+  total: number;
+  completed: number;
+  failed: number;
+  awaitingReview: number;
+  inProgress: number;
+  byStatus: Record<string, number>;
+  /** 0–1, averaged over projects; completed and failed projects count as done */
+  progress: number;
+  costUsd: number;
+}
+
+/** Match "product_url", "Product URL" or "productUrl" to the manifest column. */
+function normalizeColumn(header: string): (typeof MANIFEST_COLUMNS)[number] | null {
+  const key = header.toLowerCase().replace(/[^a-z]/g, '');
+  return MANIFEST_COLUMNS.find((col) => col.toLowerCase() === key) ?? null;
+}
+
+/** Split CSV text into records, honouring double-quoted fields and "" escapes. */
+function parseCsvRecords(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      record.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (quoted) throw new ManifestParseError('Unterminated quoted field');
+  if (field || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  return records.filter((r) => r.some((cell) => cell.trim() !== ''));
+}
+
+/**
+ * Parse a manifest into rows. JSON is an array of objects (or { rows: [...] });
+ * anything else is CSV with a header row.
+ */
+export function parseManifest(text: string): ManifestRow[] {
+  const trimmed = text.trim();
+  if (!trimmed) throw new ManifestParseError('Manifest is empty');
+
+  let rawRows: Record<string, unknown>[];
+
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(trimmed);
+    } catch (err) {
+      throw new ManifestParseError(`Invalid JSON: ${err instanceof Error ? err.message : String(err)}`);
+    }
+    const rows = Array.isArray(parsed) ? parsed : (parsed as { rows?: unknown }).rows;
+    if (!Array.isArray(rows) || rows.some((r) => !r || typeof r !== 'object' || Array.isArray(r))) {
+      throw new ManifestParseError('JSON manifest must be an array of row objects');
+    }
+    rawRows = rows as Record<string, unknown>[];
+  } else {
+    const [header, ...records] = parseCsvRecords(trimmed);
+    rawRows = records.map((record) =>
+      Object.fromEntries(header.map((col, i) => [col, record[i] ?? '']))
+    );
+  }
+
+  return normalizeManifestRows(rawRows);
+}
+
+/**
+ * Map row objects onto manifest columns. Blank cells are dropped so optional
+ * fields fall back to their defaults; unknown columns are rejected.
+ */
+export function normalizeManifestRows(rawRows: Record<string, unknown>[]): ManifestRow[] {
+  if (rawRows.length === 0) throw new ManifestParseError('Manifest has no rows');
+  if (rawRows.length > MAX_BATCH_ROWS) {
+    throw new ManifestParseError(`Manifest has ${rawRows.length} rows; the limit is ${MAX_BATCH_ROWS}`);
+  }
+
+  return rawRows.map((raw) => {
+    const row: ManifestRow = {};
+    for (const [header, value] of Object.entries(raw)) {
+      const column = normalizeColumn(header);
+      if (!column) {
+        throw new ManifestParseError(`Unknown column '${header}'. Columns: ${MANIFEST_COLUMNS.join(', ')}`);
+      }
+      const cell = value == null ? '' : String(value).trim();
+      if (cell) row[column] = cell;
+    }
+    return row;
+  });
+}
+
+/** Aggregate status counts, progress and cost across a batch's projects. */
+export function summarizeBatch(projects: Array<{ status: string; cost_usd: string | number | null }>): BatchSummary {
+  const completedIndex = PROJECT_STATUSES.indexOf('completed');
+  const byStatus: Record<string, number> = {};
+  let progressSum = 0;
+  let costUsd = 0;
+
+  for (const p of projects) {
+    byStatus[p.status] = (byStatus[p.status] ?? 0) + 1;
+    costUsd += parseFloat(String(p.cost_usd ?? 0)) || 0;
+    const index = PROJECT_STATUSES.indexOf(p.status as ProjectStatus);
+    progressSum += p.status === 'failed' ? 1 : Math.max(0, index) / completedIndex;
+  }
+
+  const completed = byStatus.completed ?? 0;
+  const failed = byStatus.failed ?? 0;
+  const awaitingReview = REVIEW_GATE_STATUSES.reduce((sum, status) => sum + (byStatus[status] ?? 0), 0);
+
+  return {
+    total: projects.length,
+    completed,
+    failed,
+    awaitingReview,
+    inProgress: projects.length - completed - failed - awaitingReview,
+    byStatus,
+    progress: projects.length > 0 ? progressSum / projects.length : 0,
+    costUsd,
+  };
+}
@@ -0,0 +1,324 @@
+// ─── Budget Caps ──────────────────────────────────────────────────────────────
+// project.budget_usd and batch.budget_usd cap spend. Before a stage is enqueued
+// (approve route, auto-advance) and again when the worker starts it, the stage's
+// projected cost is computed from the project's VideoModelConfig and compared
+// with what has already been spent. Agents reserve the cost of each paid call in
+// long stages before submitting it (reserveSpend), so a stage stops once the cap
+// is reached even while its segment jobs run in parallel. project.budget_override
+// lifts the cap for the project.
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  API_COSTS,
+  DEFAULT_RENDER_BACKEND,
+  calculateBrollCount,
+  getFallbackVideoModel,
+  type RenderBackend,
+  type VideoModelConfig,
+} from '@/lib/constants';
+import { BudgetExceededError } from '@/lib/errors';
+import { createLogger } from '@/lib/logger';
+
+const log = createLogger({ agentName: 'Budget' });
+
+const RENDER_COSTS: Record<RenderBackend, number> = {
+  creatomate: API_COSTS.creatomateRender,
+  ffmpeg: API_COSTS.ffmpegRender,
+};
+
+/** Syllables assumed for a segment that has no scene yet (same default as BRollAgent). */
+const DEFAULT_SEGMENT_SYLLABLES = 85;
+
+/** Project facts that refine a stage estimate beyond the video model defaults. */
+export interface StageCostInputs {
+  /** Segments the stage will actually generate (default: every segment) */
+  segmentCount?: number;
+  /** Syllable count of each segment's latest scene */
+  syllableCounts?: number[];
+  /** B-roll shots already planned (overrides the syllable-based count) */
+  brollShotCount?: number;
+  renderer?: RenderBackend;
+  /** A/B hook variants — scripting makes one extra LLM call for them */
+  variantCount?: number;
+}
+
+export interface BudgetCheck {
+  allowed: boolean;
+  stage: string;
+  projectedUsd: number;
+  spentUsd: number;
+  budgetUsd: number | null;
+  scope: 'project' | 'batch' | null;
+  overridden: boolean;
+  reason: string | null;
+}
+
+function roundUsd(amount: number): number {
+  return Math.round(amount * 10000) / 10000;
+}
+
+/**
+ * Projected cost of one pipeline stage, from the video model's pricing and segment
+ * layout. Stages without provider spend (reviews) cost 0.
+ */
+export function estimateStageCost(stage: string, vm: VideoModelConfig, inputs: StageCostInputs = {}): number {
+  const segments = inputs.segmentCount ?? vm.segment_count;
+
+  switch (stage) {
+    case 'scripting':
+      return API_COSTS.wavespeedChat * ((inputs.variantCount ?? 1) > 1 ? 2 : 1);
+    case 'broll_planning':
+      return API_COSTS.brollPlanning;
+    case 'broll_generation': {
+      const shots = inputs.brollShotCount ?? Array.from({ length: vm.segment_count }, (_, i) =>
+        calculateBrollCount(inputs.syllableCounts?.[i] ?? DEFAULT_SEGMENT_SYLLABLES)
+      ).reduce((sum, n) => sum + n, 0);
+      return shots * API_COSTS.nanoBananaPro;
+    }
+    case 'casting':
+      // Start + end keyframe per segment
+      return segments * 2 * API_COSTS.nanoBananaPro;
+    case 'directing':
+      return segments * vm.cost_per_segment;
+    case 'voiceover':
+      return segments * API_COSTS.elevenLabsTts;
+    case 'editing':
+      return RENDER_COSTS[inputs.renderer ?? vm.renderer ?? DEFAULT_RENDER_BACKEND] ?? API_COSTS.creatomateRender;
+    case 'variant_generation':
+      // Hook variants cast, direct and voice only segment 0
+      return 2 * API_COSTS.nanoBananaPro + vm.cost_per_segment + API_COSTS.elevenLabsTts;
+    default:
+      return 0;
+  }
+}
+
+async function loadVideoModel(supabase: SupabaseClient, videoModelId: string | null): Promise<VideoModelConfig> {
+  if (videoModelId) {
+    const { data: vm } = await supabase
+      .from('video_model')
+      .select('*')
+      .eq('id', videoModelId)
+      .single();
+    if (vm) return vm as VideoModelConfig;
+  }
+  return getFallbackVideoModel();
+}
+
+/** Gather the project facts estimateStageCost can use for this stage. */
+async function loadStageInputs(
+  supabase: SupabaseClient,
+  projectId: string,
+  stage: string,
+  project: { renderer: RenderBackend | null; variant_count: number | null },
+): Promise<StageCostInputs> {
+  const inputs: StageCostInputs = {
+    renderer: project.renderer ?? undefined,
+    variantCount: project.variant_count ?? 1,
+  };
+
+  if (stage === 'broll_generation') {
+    const { count } = await supabase
+      .from('broll_shot')
+      .select('id', { count: 'exact', head: true })
+      .eq('project_id', projectId)
+      .neq('status', 'completed');
+    inputs.brollShotCount = count ?? undefined;
+  }
+
+  if (stage === 'directing') {
+    // DirectorAgent skips segments that already have a completed clip
+    const { data: videos } = await supabase
+      .from('asset')
+      .select('scene_id')
+      .eq('project_id', projectId)
+      .eq('type', 'video')
+      .eq('status', 'completed');
+    const { data: script } = await supabase
+      .from('script')
+      .select('scenes:scene(id, segment_index, version)')
+      .eq('project_id', projectId)
+      .order('version', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    if (script?.scenes) {
+      const latest = new Map<number, { id: string; version: number | null }>();
+      for (const scene of script.scenes as Array<{ id: string; segment_index: number; version: number | null }>) {
+        const current = latest.get(scene.segment_index);
+        if (!current || (scene.version ?? 1) > (current.version ?? 1)) latest.set(scene.segment_index, scene);
+      }
+      const done = new Set((videos || []).map((v) => v.scene_id));
+      inputs.segmentCount = Array.from(latest.values()).filter((s) => !done.has(s.id)).length;
+    }
+  }
+
+  return inputs;
+}
+
+/**
+ * Compare spent + `projectedUsd` with the project's budget and, for batch projects,
+ * the batch budget. No cap (null budget_usd) always allows.
+ */
+export async function checkSpend(
+  supabase: SupabaseClient,
+  projectId: string,
+  stage: string,
+  projectedUsd: number,
+): Promise<BudgetCheck> {
+  const { data: project } = await supabase
+    .from('project')
+    .select('cost_usd, budget_usd, budget_override, batch_id')
+    .eq('id', projectId)
+    .single();
+
+  const spentUsd = parseFloat(project?.cost_usd || '0');
+  const base = { stage, projectedUsd: roundUsd(projectedUsd), spentUsd: roundUsd(spentUsd) };
+
+  if (project?.budget_override) {
+    return { ...base, allowed: true, budgetUsd: project.budget_usd != null ? parseFloat(project.budget_usd) : null, scope: null, overridden: true, reason: null };
+  }
+
+  if (project?.budget_usd != null) {
+    const budgetUsd = parseFloat(project.budget_usd);
+    if (spentUsd + projectedUsd > budgetUsd) {
+      return {
+        ...base,
+        allowed: false,
+        budgetUsd,
+        scope: 'project',
+        overridden: false,
+        reason: `Budget exceeded: ${stage} is projected at $${projectedUsd.toFixed(2)} and the project has spent $${spentUsd.toFixed(2)} of its $${budgetUsd.toFixed(2)} budget`,
+      };
+    }
+  }
+
+  if (project?.batch_id) {
+    const { data: batch } = await supabase
+      .from('batch')
+      .select('budget_usd, projects:project(cost_usd)')
+      .eq('id', project.batch_id)
+      .single();
+
+    if (batch?.budget_usd != null) {
+      const budgetUsd = parseFloat(batch.budget_usd);
+      const batchSpent = (batch.projects || []).reduce(
+        (sum: number, p: { cost_usd: string | null }) => sum + parseFloat(p.cost_usd || '0'),
+        0
+      );
+      if (batchSpent + projectedUsd > budgetUsd) {
+        return {
+          ...base,
+          spentUsd: roundUsd(batchSpent),
+          allowed: false,
+          budgetUsd,
+          scope: 'batch',
+          overridden: false,
+          reason: `Batch budget exceeded: ${stage} is projected at $${projectedUsd.toFixed(2)} and the batch has spent $${batchSpent.toFixed(2)} of its $${budgetUsd.toFixed(2)} budget`,
+        };
+      }
+    }
+  }
+
+  const budgetUsd = project?.budget_usd != null ? parseFloat(project.budget_usd) : null;
+  return { ...base, allowed: true, budgetUsd, scope: budgetUsd != null ? 'project' : null, overridden: false, reason: null };
+}
+
+/** Pre-flight check for a whole stage: estimate its cost, then checkSpend. */
+export async function checkStageBudget(
+  supabase: SupabaseClient,
+  projectId: string,
+  stage: string,
+): Promise<BudgetCheck> {
+  const { data: project } = await supabase
+    .from('project')
+    .select('video_model_id, renderer, variant_count')
+    .eq('id', projectId)
+    .single();
+
+  const vm = await loadVideoModel(supabase, project?.video_model_id ?? null);
+  const inputs = await loadStageInputs(supabase, projectId, stage, {
+    renderer: project?.renderer ?? null,
+    variant_count: project?.variant_count ?? null,
+  });
+
+  return checkSpend(supabase, projectId, stage, estimateStageCost(stage, vm, inputs));
+}
+
+/**
+ * Atomically add `amount` to the project's cost if it stays within the project
+ * and batch budgets (the `reserve_project_spend` function, see README). The
+ * reservation counts as spent: the paid call it covers is not tracked again,
+ * and whatever the call didn't use is handed back with releaseSpend. Without the
+ * function this falls back to checkSpend and reserves nothing (reservedUsd 0).
+ */
+export async function reserveSpend(
+  supabase: SupabaseClient,
+  projectId: string,
+  stage: string,
+  amount: number,
+): Promise<{ check: BudgetCheck; reservedUsd: number }> {
+  const reservedUsd = roundUsd(amount);
+  const { data: reserved, error } = await supabase.rpc('reserve_project_spend', {
+    p_project_id: projectId,
+    p_amount: reservedUsd,
+  });
+
+  if (error) {
+    log.warn({ projectId, err: error.message }, 'RPC reserve_project_spend failed, falling back to a non-atomic budget check');
+    return { check: await checkSpend(supabase, projectId, stage, amount), reservedUsd: 0 };
+  }
+
+  if (reserved) {
+    const { data: project } = await supabase
+      .from('project')
+      .select('cost_usd, budget_usd, budget_override')
+      .eq('id', projectId)
+      .single();
+    const budgetUsd = project?.budget_usd != null ? parseFloat(project.budget_usd) : null;
+    return {
+      check: {
+        allowed: true,
+        stage,
+        projectedUsd: reservedUsd,
+        spentUsd: roundUsd(parseFloat(project?.cost_usd || '0') - reservedUsd),
+        budgetUsd,
+        scope: budgetUsd != null ? 'project' : null,
+        overridden: !!project?.budget_override,
+        reason: null,
+      },
+      reservedUsd,
+    };
+  }
+
+  // Refused: describe the cap that was hit (a concurrent release may since have
+  // made room, but the reservation was refused when it was made)
+  const check = await checkSpend(supabase, projectId, stage, amount);
+  return {
+    check: check.allowed
+      ? { ...check, allowed: false, reason: `Budget exceeded: ${stage} is projected at $${amount.toFixed(2)} and concurrent spend has reached the budget` }
+      : check,
+    reservedUsd: 0,
+  };
+}
+
+/** Hand back the unused part of a reserveSpend reservation. */
+export async function releaseSpend(supabase: SupabaseClient, projectId: string, amount: number): Promise<void> {
+  if (amount <= 0) return;
+  const { error } = await supabase.rpc('increment_project_cost', {
+    p_project_id: projectId,
+    p_amount: -roundUsd(amount),
+  });
+  if (error) log.warn({ projectId, amount, err: error.message }, 'Failed to release reserved spend');
+}
+
+/** Throw BudgetExceededError if the check failed. */
+export function assertBudget(check: BudgetCheck): void {
+  if (check.allowed) return;
+  throw new BudgetExceededError(
+    check.reason ?? 'Budget exceeded',
+    check.stage,
+    check.projectedUsd,
+    check.spentUsd,
+    check.budgetUsd ?? 0,
+    check.scope ?? 'project',
+  );
+}
@@ -0,0 +1,121 @@
+// ─── Captions ─────────────────────────────────────────────────────────────────
+// Word timings for burned-in captions, derived from ElevenLabs character alignment
+// and stored on the audio asset as metadata.captions.
+
+import type { CharacterAlignment } from '@/lib/api-clients/elevenlabs';
+import { CAPTION_STYLE_IDS, DEFAULT_CAPTION_STYLE, type CaptionStyleId } from '@/lib/constants';
+
+/** project.caption_style value that turns burned-in captions off. */
+export const CAPTIONS_OFF = 'none';
+
+export interface CaptionWord {
+  text: string;
+  /** Seconds from the start of the audio */
+  start: number;
+  end: number;
+}
+
+export interface CaptionTrackData {
+  source: 'elevenlabs_alignment';
+  words: CaptionWord[];
+}
+
+/** A group of words shown on screen together; the active word is highlighted. */
+export interface CaptionPage {
+  start: number;
+  end: number;
+  words: CaptionWord[];
+}
+
+/** Pause long enough to start a new page even if the current one has room. */
+const PAGE_BREAK_PAUSE_SECONDS = 0.6;
+
+/** How long a page lingers after its last word, unless the next page starts sooner. */
+const PAGE_HOLD_SECONDS = 0.3;
+
+function roundMs(seconds: number): number {
+  return Math.round(seconds * 1000) / 1000;
+}
+
+/**
+ * Collapse per-character timings into words. Whitespace separates words; a word
+ * runs from its first character's start to its last character's end.
+ */
+export function alignmentToWords(alignment: CharacterAlignment): CaptionWord[] {
+  const words: CaptionWord[] = [];
+  const { characters, character_start_times_seconds: starts, character_end_times_seconds: ends } = alignment;
+
+  let text = '';
+  let start = 0;
+  let end = 0;
+
+  for (let i = 0; i < characters.length; i++) {
+    const ch = characters[i];
+    if (/\s/.test(ch)) {
+      if (text) words.push({ text, start, end });
+      text = '';
+      continue;
+    }
+    if (!text) start = roundMs(starts[i] ?? end);
+    text += ch;
+    end = roundMs(ends[i] ?? start);
+  }
+  if (text) words.push({ text, start, end });
+
+  return words;
+}
+
+/**
+ * Group words into caption pages of at most `wordsPerPage`, breaking early after
+ * sentence punctuation or a noticeable pause.
+ */
+export function paginateCaptionWords(words: CaptionWord[], wordsPerPage: number): CaptionPage[] {
+  const pages: CaptionPage[] = [];
+  let current: CaptionWord[] = [];
+
+  const flush = () => {
+    if (current.length === 0) return;
+    pages.push({ start: current[0].start, end: current[current.length - 1].end, words: current });
+    current = [];
+  };
+
+  for (let i = 0; i < words.length; i++) {
+    const word = words[i];
+    current.push(word);
+
+    const next = words[i + 1];
+    const pauseAfter = next ? next.start - word.end : 0;
+    if (
+      current.length >= wordsPerPage ||
+      /[.!?]$/.test(word.text) ||
+      pauseAfter >= PAGE_BREAK_PAUSE_SECONDS
+    ) {
+      flush();
+    }
+  }
+  flush();
+
+  // Hold each page briefly so short last words don't flash
+  for (let i = 0; i < pages.length; i++) {
+    const limit = pages[i + 1]?.start ?? Infinity;
+    pages[i].end = Math.min(pages[i].end + PAGE_HOLD_SECONDS, limit);
+  }
+
+  return pages;
+}
+
+/** Read caption word timings from an audio asset's metadata, if present. */
+export function getCaptionWords(metadata: Record<string, unknown> | null | undefined): CaptionWord[] {
+  const captions = metadata?.captions as CaptionTrackData | undefined;
+  return Array.isArray(captions?.words) ? captions.words : [];
+}
+
+/**
+ * Resolve project.caption_style: null means the default preset, 'none' turns
+ * captions off, and unknown values fall back to the default.
+ */
+export function resolveCaptionStyle(value: string | null | undefined): CaptionStyleId | null {
+  if (value === CAPTIONS_OFF) return null;
+  if (value && (CAPTION_STYLE_IDS as string[]).includes(value)) return value as CaptionStyleId;
+  return DEFAULT_CAPTION_STYLE;
+}
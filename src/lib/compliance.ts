@@ -0,0 +1,414 @@
+// ─── Claims Compliance ────────────────────────────────────────────────────────
+// Checks a script's spoken lines and on-screen overlays against TikTok Shop and
+// FTC advertising rules. Each product category has its own rule set (disease and
+// cure claims for supplements, before/after for skincare, income claims for
+// finance, ...) on top of the rules every category shares. Rules are regexes with
+// a deterministic rewrite where one is safe; ComplianceAgent adds an LLM judge
+// for implied claims the patterns miss. Hard violations block approval at
+// script_review. No server imports (the client is passed in): script review
+// renders the report too.
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { LOCALES, getLocale, type ProductCategory } from '@/lib/constants';
+
+export type ComplianceSeverity = 'hard' | 'soft';
+export type ComplianceField = 'script_text' | 'text_overlay';
+
+export interface ComplianceRule {
+  id: string;
+  label: string;
+  severity: ComplianceSeverity;
+  /** Categories the rule applies to; every category when omitted */
+  categories?: ProductCategory[];
+  pattern: RegExp;
+  /** Why it is a problem, shown to the reviewer and given to the LLM judge */
+  guidance: string;
+  /** Compliant wording for a match; no rewrite is suggested without it */
+  rewrite?: (match: string) => string;
+}
+
+export interface ComplianceIssue {
+  ruleId: string;
+  label: string;
+  severity: ComplianceSeverity;
+  /** 'rule' from the pattern pass, 'judge' from the LLM */
+  source: 'rule' | 'judge';
+  segmentIndex: number;
+  /** Scene version the issue was found in */
+  sceneId: string;
+  field: ComplianceField;
+  /** The offending words */
+  excerpt: string;
+  message: string;
+  /** The whole field rewritten to comply, if there is a suggestion */
+  suggestion: string | null;
+}
+
+export interface ComplianceScene {
+  id: string;
+  segment_index: number;
+  script_text: string | null;
+  text_overlay: string | null;
+}
+
+export interface SceneCompliance {
+  segmentIndex: number;
+  sceneId: string;
+  score: number;
+  issues: ComplianceIssue[];
+}
+
+export interface ComplianceReport {
+  category: string;
+  /** 0-100; 100 is clean */
+  score: number;
+  hardCount: number;
+  softCount: number;
+  /** Whether LLM judge findings are included (false until a judge run covers these scenes) */
+  judged: boolean;
+  judgedAt: string | null;
+  scenes: SceneCompliance[];
+}
+
+/** What ComplianceAgent stores on script.compliance. */
+export interface StoredJudgeResult {
+  judgedAt: string;
+  /** Scene versions the judge read */
+  sceneIds: string[];
+  issues: ComplianceIssue[];
+}
+
+const HARD_PENALTY = 35;
+const SOFT_PENALTY = 10;
+
+const DISEASE_TERMS =
+  "cancer|diabetes|disease|arthritis|anxiety|depression|adhd|alzheimer'?s|dementia|covid|infections?|insomnia|acne|eczema|psoriasis|rosacea|high blood pressure|hypertension|inflammation|obesity|parvo|worms";
+
+function keepCase(match: string, replacement: string): string {
+  return /^[A-Z]/.test(match) ? replacement.charAt(0).toUpperCase() + replacement.slice(1) : replacement;
+}
+
+export const COMPLIANCE_RULES: ComplianceRule[] = [
+  // ─── Every category ─────────────────────────────────────────────────────────
+  {
+    id: 'guaranteed_results',
+    label: 'Guaranteed results',
+    severity: 'hard',
+    pattern: /\b(?:100%\s+)?guarantee[ds]?\s+(?:results?|to work|you(?:'ll)? see)\b|\bresults?\s+(?:are\s+)?guaranteed\b/gi,
+    guidance: 'Results cannot be promised. TikTok Shop removes content that guarantees outcomes; describe what the product is designed to do.',
+    rewrite: (m) => keepCase(m, /results?/i.test(m) ? 'results that can vary' : 'designed to help'),
+  },
+  {
+    id: 'fda_approved',
+    label: 'False approval claim',
+    severity: 'hard',
+    pattern: /\bFDA[- ](?:approved|certified)\b/gi,
+    guidance: 'Cosmetics and supplements are not FDA approved. Saying so is a false regulatory claim.',
+    rewrite: (m) => keepCase(m, 'quality-tested'),
+  },
+  {
+    id: 'risk_free',
+    label: 'Risk-free claim',
+    severity: 'soft',
+    pattern: /\b(?:risk[- ]free|no risk)\b/gi,
+    guidance: 'Only say risk-free when there is an unconditional refund policy, and state its terms.',
+    rewrite: (m) => keepCase(m, 'easy to try'),
+  },
+  {
+    id: 'absolute_claim',
+    label: 'Absolute claim',
+    severity: 'soft',
+    pattern: /\b(?:works for everyone|100% effective|instant(?:ly)? results?|overnight results?|permanent(?:ly)? (?:fix(?:es|ed)?|results?|gone))\b/gi,
+    guidance: 'Absolute or instant-result claims need substantiation most products do not have. Qualify them.',
+  },
+  {
+    id: 'professional_endorsement',
+    label: 'Professional endorsement',
+    severity: 'soft',
+    pattern: /\b(?:doctors?|dermatologists?|vets?|pediatricians?|nutritionists?)\s+(?:recommend(?:ed)?|approved?|swear by)\b|\b(?:doctor|dermatologist|vet|pediatrician)[- ](?:recommended|approved)\b/gi,
+    guidance: 'Endorsement claims need a documented endorsement. Without one, talk about your own experience.',
+  },
+  // ─── Health categories ──────────────────────────────────────────────────────
+  {
+    id: 'disease_claim',
+    label: 'Disease or cure claim',
+    severity: 'hard',
+    categories: ['supplements', 'skincare', 'fitness', 'baby', 'pet'],
+    pattern: new RegExp(`\\b(?:cure[sd]?|curing|treat(?:s|ed|ing)?|heal(?:s|ed|ing)?|prevent(?:s|ed|ing)?|reverse[sd]?|fix(?:es|ed)?)\\b(?=[^.!?]{0,40}\\b(?:${DISEASE_TERMS})\\b)`, 'gi'),
+    guidance: 'Claiming to cure, treat or prevent a disease makes the product an unapproved drug (FTC/FDA) and is banned on TikTok Shop. Use structure/function wording such as "supports".',
+    rewrite: (m) => keepCase(m, 'may help support'),
+  },
+  {
+    id: 'miracle_claim',
+    label: 'Miracle claim',
+    severity: 'hard',
+    categories: ['supplements', 'skincare', 'fitness', 'pet'],
+    pattern: /\b(?:miracle(?: cure| pill| product)?|cure[- ]all|magic pill)\b/gi,
+    guidance: 'Miracle and cure-all language is a prohibited health claim.',
+    rewrite: (m) => keepCase(m, 'daily essential'),
+  },
+  {
+    id: 'weight_loss_claim',
+    label: 'Specific weight-loss claim',
+    severity: 'hard',
+    categories: ['supplements', 'fitness'],
+    pattern: /\b(?:lose|lost|drop(?:ped)?|shed|melt(?:ed)?|burn(?:ed)?)\s+\d+\s*(?:lbs?|pounds|kg|kilos|inches)\b(?:\s+in\s+\d+\s+(?:days?|weeks?))?|\bmelts?\s+(?:away\s+)?(?:belly\s+)?fat\b/gi,
+    guidance: 'TikTok Shop bans specific weight-loss amounts and timeframes. Talk about routine and how you feel instead.',
+  },
+  {
+    id: 'before_after',
+    label: 'Before/after claim',
+    severity: 'hard',
+    categories: ['skincare', 'supplements', 'fitness'],
+    pattern: /\bbefore[- ](?:and|&|n)[- ]after\b|\bbefore\s*\/\s*after\b/gi,
+    guidance: 'Before/after comparisons are prohibited for beauty, weight-loss and body-image products on TikTok Shop.',
+    rewrite: (m) => keepCase(m, 'my routine'),
+  },
+  {
+    id: 'skin_transformation',
+    label: 'Permanent skin change',
+    severity: 'hard',
+    categories: ['skincare'],
+    pattern: /\b(?:erase[sd]?|eliminate[sd]?|remove[sd]?|get(?:s)? rid of|reverse[sd]?)\s+(?:all\s+)?(?:(?:my|your|the)\s+)?(?:wrinkles|fine lines|scars|stretch marks|cellulite|dark spots|aging)\b/gi,
+    guidance: 'Cosmetics can only claim to change how skin looks. Erasing wrinkles or reversing aging is a drug claim.',
+    rewrite: (m) => keepCase(m, `softens the look of ${m.split(/\s+/).pop()}`),
+  },
+  {
+    id: 'clinical_claim',
+    label: 'Clinical claim',
+    severity: 'soft',
+    categories: ['skincare', 'supplements', 'fitness', 'baby', 'pet'],
+    pattern: /\b(?:clinically (?:proven|tested)|medical[- ]grade|scientifically proven)\b/gi,
+    guidance: 'Clinical or medical-grade claims need a study you can cite. Remove them unless the brand provides one.',
+    rewrite: (m) => keepCase(m, 'carefully formulated'),
+  },
+  // ─── Finance ────────────────────────────────────────────────────────────────
+  {
+    id: 'income_claim',
+    label: 'Income or returns claim',
+    severity: 'hard',
+    categories: ['finance'],
+    pattern: /\b(?:guaranteed|risk[- ]free)\s+(?:returns?|income|profits?)\b|\bget rich\b|\bmake\s+\$?\d[\d,]*k?\s+(?:a|per|every)\s+(?:day|week|month)\b/gi,
+    guidance: 'Earnings and guaranteed-return claims are deceptive under FTC rules and prohibited on TikTok Shop.',
+  },
+  // ─── Baby ───────────────────────────────────────────────────────────────────
+  {
+    id: 'baby_safety',
+    label: 'Unqualified safety claim',
+    severity: 'soft',
+    categories: ['baby'],
+    pattern: /\b(?:100% safe|completely safe|totally safe|safe for newborns)\b/gi,
+    guidance: 'Unqualified safety claims for baby products need certification. Name the standard it meets, or drop the claim.',
+  },
+];
+
+/**
+ * A sponsored video needs a clear disclosure on screen or in the voiceover, in
+ * English or in any supported locale's own tag (#publicidad, #Werbung, ...).
+ */
+const DISCLOSURE_TAGS = [
+  'ad', 'sponsored', 'partner', 'affiliate',
+  ...Object.values(LOCALES).map((locale) => locale.disclosureTag.slice(1)),
+];
+const DISCLOSURE_PATTERN = new RegExp(
+  `#(?:${[...new Set(DISCLOSURE_TAGS)].join('|')})(?![\\p{L}\\d_])|\\bpaid partnership\\b`,
+  'iu',
+);
+
+export const DISCLOSURE_RULE = {
+  id: 'missing_disclosure',
+  label: 'Missing #ad disclosure',
+  severity: 'hard' as ComplianceSeverity,
+  guidance: 'FTC endorsement rules require a clear, on-screen disclosure of paid promotion. Add #ad to the CTA overlay.',
+};
+
+/** Disclosure guidance naming the tag to use. */
+function disclosureGuidance(tag: string): string {
+  return DISCLOSURE_RULE.guidance.replace('#ad', tag);
+}
+
+/** Rules that apply to a product category. */
+export function rulesForCategory(category: string): ComplianceRule[] {
+  return COMPLIANCE_RULES.filter((rule) => !rule.categories || (rule.categories as string[]).includes(category));
+}
+
+/** Apply every matching rule's rewrite; null when no matching rule has one. */
+export function rewriteText(text: string, rules: ComplianceRule[]): string | null {
+  let rewritten = text;
+  for (const rule of rules) {
+    if (!rule.rewrite) continue;
+    rewritten = rewritten.replace(rule.pattern, (m) => rule.rewrite!(m));
+  }
+  return rewritten === text ? null : rewritten;
+}
+
+function fieldIssues(scene: ComplianceScene, field: ComplianceField, rules: ComplianceRule[]): ComplianceIssue[] {
+  const text = scene[field] ?? '';
+  if (!text) return [];
+
+  const matched = rules.filter((rule) => {
+    rule.pattern.lastIndex = 0;
+    return rule.pattern.test(text);
+  });
+  if (!matched.length) return [];
+
+  const suggestion = rewriteText(text, matched);
+  return matched.flatMap((rule) =>
+    [...text.matchAll(rule.pattern)].map((m) => ({
+      ruleId: rule.id,
+      label: rule.label,
+      severity: rule.severity,
+      source: 'rule' as const,
+      segmentIndex: scene.segment_index,
+      sceneId: scene.id,
+      field,
+      excerpt: m[0],
+      message: rule.guidance,
+      suggestion,
+    })),
+  );
+}
+
+/**
+ * The pattern pass: every rule for the category over each scene, plus the
+ * disclosure check. A missing disclosure suggests the locale's tag.
+ */
+export function checkScenes(scenes: ComplianceScene[], category: string, disclosureTag = '#ad'): ComplianceIssue[] {
+  const rules = rulesForCategory(category);
+  const issues = scenes.flatMap((scene) => [
+    ...fieldIssues(scene, 'script_text', rules),
+    ...fieldIssues(scene, 'text_overlay', rules),
+  ]);
+
+  const disclosed = scenes.some((scene) =>
+    DISCLOSURE_PATTERN.test(scene.text_overlay ?? '') || DISCLOSURE_PATTERN.test(scene.script_text ?? ''),
+  );
+  const last = [...scenes].sort((a, b) => b.segment_index - a.segment_index)[0];
+  if (!disclosed && last) {
+    const overlay = (last.text_overlay ?? '').trim();
+    issues.push({
+      ruleId: DISCLOSURE_RULE.id,
+      label: DISCLOSURE_RULE.label,
+      severity: DISCLOSURE_RULE.severity,
+      source: 'rule',
+      segmentIndex: last.segment_index,
+      sceneId: last.id,
+      field: 'text_overlay',
+      excerpt: overlay,
+      message: disclosureGuidance(disclosureTag),
+      suggestion: overlay ? `${overlay} ${disclosureTag}` : disclosureTag,
+    });
+  }
+
+  return issues;
+}
+
+function score(issues: ComplianceIssue[]): number {
+  const hard = issues.filter((issue) => issue.severity === 'hard').length;
+  return Math.max(0, 100 - hard * HARD_PENALTY - (issues.length - hard) * SOFT_PENALTY);
+}
+
+/** Whether two issues flag the same words in the same field. */
+function overlaps(a: ComplianceIssue, b: ComplianceIssue): boolean {
+  if (a.sceneId !== b.sceneId || a.field !== b.field) return false;
+  const x = a.excerpt.toLowerCase();
+  const y = b.excerpt.toLowerCase();
+  return x.includes(y) || y.includes(x);
+}
+
+/**
+ * Score the current scenes: a fresh pattern pass plus the stored judge findings
+ * for scenes the judge actually read (an edited scene drops its old findings
+ * until the next judge run). Judge findings that repeat a pattern hit are dropped.
+ */
+export function buildComplianceReport(
+  scenes: ComplianceScene[],
+  category: string,
+  judge: StoredJudgeResult | null,
+  disclosureTag = '#ad',
+): ComplianceReport {
+  const current = new Set(scenes.map((scene) => scene.id));
+  const ruleIssues = checkScenes(scenes, category, disclosureTag);
+  const judgeIssues = (judge?.issues ?? []).filter((issue) =>
+    current.has(issue.sceneId) && !ruleIssues.some((hit) => overlaps(hit, issue)),
+  );
+  const issues = [...ruleIssues, ...judgeIssues];
+
+  const sceneReports = [...scenes]
+    .sort((a, b) => a.segment_index - b.segment_index)
+    .map((scene) => {
+      const own = issues.filter((issue) => issue.sceneId === scene.id);
+      return { segmentIndex: scene.segment_index, sceneId: scene.id, score: score(own), issues: own };
+    });
+
+  const hardCount = issues.filter((issue) => issue.severity === 'hard').length;
+  return {
+    category,
+    score: score(issues),
+    hardCount,
+    softCount: issues.length - hardCount,
+    judged: !!judge && scenes.every((scene) => judge.sceneIds.includes(scene.id)),
+    judgedAt: judge?.judgedAt ?? null,
+    scenes: sceneReports,
+  };
+}
+
+/** Reason approval is blocked, or null. */
+export function complianceBlockReason(report: ComplianceReport): string | null {
+  if (report.hardCount === 0) return null;
+  const labels = [...new Set(report.scenes.flatMap((s) => s.issues).filter((i) => i.severity === 'hard').map((i) => i.label))];
+  return `Script has ${report.hardCount} compliance violation${report.hardCount === 1 ? '' : 's'} (${labels.join(', ')}). Fix or rewrite the flagged lines before approving.`;
+}
+
+/** Rules for a category as prompt text, for the script writer and the judge. */
+export function compliancePromptBlock(category: string, disclosureTag = '#ad'): string {
+  const lines = rulesForCategory(category).map((rule) => `- ${rule.label} (${rule.severity}): ${rule.guidance}`);
+  lines.push(`- ${DISCLOSURE_RULE.label} (${DISCLOSURE_RULE.severity}): ${disclosureGuidance(disclosureTag)}`);
+  return lines.join('\n');
+}
+
+interface LatestScript {
+  id: string;
+  compliance: StoredJudgeResult | null;
+  scenes: Array<ComplianceScene & { version: number | null }>;
+}
+
+/**
+ * Report for the project's latest script (the one approval moves forward), or
+ * null if it has no script yet.
+ */
+export async function getScriptCompliance(
+  supabase: SupabaseClient,
+  projectId: string,
+): Promise<{ scriptId: string; locale: string; scenes: ComplianceScene[]; report: ComplianceReport } | null> {
+  const [{ data: project }, { data: scripts }] = await Promise.all([
+    supabase.from('project').select('product_data, locale').eq('id', projectId).single(),
+    supabase
+      .from('script')
+      .select('id, compliance, scenes:scene(id, segment_index, script_text, text_overlay, version)')
+      .eq('project_id', projectId)
+      .order('version', { ascending: false })
+      .limit(1),
+  ]);
+
+  const script = (scripts?.[0] ?? null) as LatestScript | null;
+  if (!script) return null;
+
+  const latest = new Map<number, ComplianceScene & { version: number | null }>();
+  for (const scene of script.scenes) {
+    const seen = latest.get(scene.segment_index);
+    if (!seen || (scene.version ?? 1) > (seen.version ?? 1)) latest.set(scene.segment_index, scene);
+  }
+  const scenes = [...latest.values()]
+    .sort((a, b) => a.segment_index - b.segment_index)
+    .map(({ id, segment_index, script_text, text_overlay }) => ({ id, segment_index, script_text, text_overlay }));
+
+  const category = (project?.product_data as { category?: string } | null)?.category ?? 'general';
+  const locale = getLocale(project?.locale);
+  return {
+    scriptId: script.id,
+    locale: locale.id,
+    scenes,
+    report: buildComplianceReport(scenes, category, script.compliance, locale.disclosureTag),
+  };
+}
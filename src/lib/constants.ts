@@ -19,6 +19,10 @@ export interface VideoModelConfig {
   aspect_ratio: string;
   supports_tail_image: boolean;
   supports_multi_prompt: boolean;
+  /** Longest clip the model renders per call, in seconds (null = segment_duration) */
+  max_duration?: number | null;
+  /** Model generates its own audio track (null = true, as Kling 3.0 Pro) */
+  native_audio?: boolean | null;
   cost_per_segment: number;
   syllables_per_segment: { min: number; max: number; warnMin: number; warnMax: number; errorMin: number; errorMax: number };
   energy_arc: Array<{ segment: number; section: string; pattern: { start: string; middle: string; end: string }; description: string }>;
@@ -27,6 +31,8 @@ export interface VideoModelConfig {
   frame_actions: Array<{ segment: number; start: string; end: string }>;
   is_default: boolean;
   status: string;
+  /** Default render backend for projects on this model (overridable per project) */
+  renderer: RenderBackend;
 }
 
 /**
@@ -49,6 +55,8 @@ export function getFallbackVideoModel(): VideoModelConfig {
     aspect_ratio: '9:16',
     supports_tail_image: true,
     supports_multi_prompt: true,
+    max_duration: 15,
+    native_audio: true,
     cost_per_segment: API_COSTS.klingVideo,
     syllables_per_segment: { ...PIPELINE_CONFIG.syllablesPerSegment },
     energy_arc: ENERGY_ARC.map(e => ({ ...e, pattern: { ...e.pattern } })),
@@ -57,6 +65,7 @@ export function getFallbackVideoModel(): VideoModelConfig {
     frame_actions: FRAME_ACTIONS.map(f => ({ ...f })),
     is_default: true,
     status: 'active',
+    renderer: DEFAULT_RENDER_BACKEND,
   };
 }
 
@@ -148,8 +157,29 @@ export const PIPELINE_CONFIG = {
   syllablesPerSegment: { min: 82, max: 90, warnMin: 75, warnMax: 95, errorMin: 60, errorMax: 110 },
   hookScoreMinimum: 10,
   hookScoreMax: 16,
+  maxHookVariants: 5,
 } as const;
 
+/**
+ * How a scene version was made: written with its script, regenerated by the LLM
+ * (with optional feedback), hand-edited, shortened for voiceover, or copied from
+ * an earlier version by a restore or a composed script (no LLM).
+ */
+export const SCENE_ORIGINS = ['generated', 'regenerated', 'edited', 'tightened', 'restored', 'composed'] as const;
+export type SceneOrigin = (typeof SCENE_ORIGINS)[number];
+
+/** Hook rubric criteria ScriptingAgent scores 0-2 each and sums into hook_score */
+export const HOOK_CRITERIA = [
+  'curiosity_loop',
+  'challenges_belief',
+  'clear_context',
+  'plants_question',
+  'pattern_interrupt',
+  'emotional_trigger',
+  'specific_claim',
+] as const;
+export type HookCriterion = (typeof HOOK_CRITERIA)[number];
+
 // Product placement arc across 4 segments
 export const PRODUCT_PLACEMENT_ARC = [
   { segment: 1, section: 'Hook', visibility: 'none', description: 'No product visible — pure attention grab' },
@@ -227,54 +257,9 @@ export const PROJECT_STATUSES = [
 
 export type ProjectStatus = (typeof PROJECT_STATUSES)[number];
 
-// Valid status transitions — any transition not in this map is invalid
-export const VALID_STATUS_TRANSITIONS: Record<string, string[]> = {
-  created: ['analyzing'],
-  analyzing: ['analysis_review', 'failed'],
-  analysis_review: ['concept_review'],
-  concept_review: ['scripting'],
-  scripting: ['script_review', 'failed'],
-  script_review: ['broll_planning'],
-  broll_planning: ['broll_review', 'failed'],
-  broll_review: ['influencer_selection'],
-  influencer_selection: ['casting'],
-  casting: ['casting_review', 'failed'],
-  casting_review: ['directing'],
-  directing: ['voiceover', 'failed'],
-  voiceover: ['broll_generation', 'failed'],
-  broll_generation: ['asset_review', 'failed'],
-  asset_review: ['editing'],
-  editing: ['completed', 'failed'],
-  completed: [],
-  failed: ['analyzing', 'scripting', 'broll_planning', 'casting', 'directing', 'voiceover', 'broll_generation', 'editing'],
-};
-
-// Statuses where the user can edit project settings (tone, character, influencer)
-export const REVIEW_GATE_STATUSES: ProjectStatus[] = [
-  'analysis_review',
-  'concept_review',
-  'script_review',
-  'broll_review',
-  'influencer_selection',
-  'casting_review',
-  'asset_review',
-];
-
 // Editable project fields and which statuses they're editable at
 export const EDITABLE_PROJECT_FIELDS = ['tone', 'character_id', 'influencer_id', 'name'] as const;
 
-// Map of stage to the review gate it should restart from
-export const RESTART_STAGE_MAP: Record<string, { targetStatus: ProjectStatus; queueStep: string }> = {
-  analysis: { targetStatus: 'created', queueStep: 'product_analysis' },
-  scripting: { targetStatus: 'concept_review', queueStep: 'scripting' },
-  broll_planning: { targetStatus: 'script_review', queueStep: 'broll_planning' },
-  casting: { targetStatus: 'broll_review', queueStep: 'casting' },
-  directing: { targetStatus: 'casting_review', queueStep: 'directing' },
-  voiceover: { targetStatus: 'casting_review', queueStep: 'voiceover' },
-  broll_generation: { targetStatus: 'asset_review', queueStep: 'broll_generation' },
-  editing: { targetStatus: 'asset_review', queueStep: 'editing' },
-};
-
 // Product categories
 export const PRODUCT_CATEGORIES = [
   'supplements',
@@ -291,6 +276,17 @@ export const PRODUCT_CATEGORIES = [
 
 export type ProductCategory = (typeof PRODUCT_CATEGORIES)[number];
 
+// Script template library (src/lib/templates.ts)
+export const TEMPLATE_STATUSES = ['active', 'retired'] as const;
+export type TemplateStatus = (typeof TEMPLATE_STATUSES)[number];
+
+/** seed: src/db/seed.ts · mined: from a winning run · manual: added in the library */
+export const TEMPLATE_SOURCES = ['seed', 'mined', 'manual'] as const;
+export type TemplateSource = (typeof TEMPLATE_SOURCES)[number];
+
+/** video_performance badges whose runs are mined into templates */
+export const WINNING_BADGES = ['viral', 'converting'] as const;
+
 // Script tones: psychologically-targeted voice/style presets for viral TikTok UGC
 export const SCRIPT_TONES = {
   'reluctant-insider': {
@@ -490,12 +486,97 @@ export type ScriptTone = keyof typeof SCRIPT_TONES;
 export const DEFAULT_TONE: ScriptTone = 'reluctant-insider';
 export const TONE_IDS = Object.keys(SCRIPT_TONES) as ScriptTone[];
 
+// Script and voiceover languages. syllablesPerSecond is the language's average
+// speaking rate (Pellegrino et al. 2011; pt-BR estimated): syllable targets are
+// scaled by it so a segment still fills 10 seconds (src/lib/syllables.ts).
+// disclosureTag is the paid-promotion tag local ad rules expect on screen.
+export const LANGUAGE_CODES = ['en', 'es', 'pt', 'de', 'fr', 'it'] as const;
+export type LanguageCode = typeof LANGUAGE_CODES[number];
+
+export const LOCALES = {
+  'en-US': { label: 'English (US)', language: 'en', languageName: 'English', region: 'United States', syllablesPerSecond: 6.19, disclosureTag: '#ad' },
+  'es-MX': { label: 'Spanish (Mexico)', language: 'es', languageName: 'Spanish', region: 'Mexico', syllablesPerSecond: 7.82, disclosureTag: '#publicidad' },
+  'es-ES': { label: 'Spanish (Spain)', language: 'es', languageName: 'Spanish', region: 'Spain', syllablesPerSecond: 7.82, disclosureTag: '#publicidad' },
+  'pt-BR': { label: 'Portuguese (Brazil)', language: 'pt', languageName: 'Portuguese', region: 'Brazil', syllablesPerSecond: 7.0, disclosureTag: '#publicidade' },
+  'de-DE': { label: 'German (Germany)', language: 'de', languageName: 'German', region: 'Germany', syllablesPerSecond: 5.97, disclosureTag: '#Werbung' },
+  'fr-FR': { label: 'French (France)', language: 'fr', languageName: 'French', region: 'France', syllablesPerSecond: 7.18, disclosureTag: '#publicité' },
+  'it-IT': { label: 'Italian (Italy)', language: 'it', languageName: 'Italian', region: 'Italy', syllablesPerSecond: 6.99, disclosureTag: '#pubblicità' },
+} as const satisfies Record<string, {
+  label: string;
+  language: LanguageCode;
+  languageName: string;
+  region: string;
+  syllablesPerSecond: number;
+  disclosureTag: string;
+}>;
+
+export type Locale = keyof typeof LOCALES;
+export const DEFAULT_LOCALE: Locale = 'en-US';
+export const LOCALE_IDS = Object.keys(LOCALES) as Locale[];
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && value in LOCALES;
+}
+
+/** A project's locale config; unknown or missing locales fall back to DEFAULT_LOCALE. */
+export function getLocale(locale: string | null | undefined): (typeof LOCALES)[Locale] & { id: Locale } {
+  const id = isLocale(locale) ? locale : DEFAULT_LOCALE;
+  return { id, ...LOCALES[id] };
+}
+
 // Creatomate template ID for final video rendering
 export const CREATOMATE_TEMPLATE_ID = '85021700-850c-49cf-a65f-06aa50e720e6';
 
+// Final render backends. Resolved as project.renderer ?? video_model.renderer ?? default.
+export const RENDER_BACKENDS = ['creatomate', 'ffmpeg'] as const;
+export type RenderBackend = typeof RENDER_BACKENDS[number];
+export const DEFAULT_RENDER_BACKEND: RenderBackend = 'creatomate';
+
+// Video generation adapters (src/lib/video-providers), picked by video_model.provider
+export const VIDEO_PROVIDERS = ['wavespeed', 'mock'] as const;
+export type VideoProviderId = typeof VIDEO_PROVIDERS[number];
+
 /** Maximum poll time for video generation (Kling 3.0 Pro takes 8-13 min) */
 export const VIDEO_POLL_MAX_WAIT = 900000; // 15 minutes
 
+/** With webhooks on, how often a job parked on a provider task checks the task itself (missed callbacks) */
+export const WEBHOOK_SWEEP_INTERVAL_MS = 60_000;
+
+// Provider task slots shared by every worker (src/lib/rate-limiter.ts). A slot is
+// held from task submission until its result is polled. Override per provider
+// with PROVIDER_CONCURRENCY_<NAME>, e.g. PROVIDER_CONCURRENCY_WAVESPEED_VIDEO=8 (0 = no limit).
+export const PROVIDER_CONCURRENCY = {
+  wavespeed_video: 6,
+  wavespeed_image: 10,
+  elevenlabs: 4,
+  creatomate: 3,
+} as const;
+export type RateLimitedProvider = keyof typeof PROVIDER_CONCURRENCY;
+
+/** Jobs one worker process runs at once; segment jobs mostly wait on provider polls */
+export const DEFAULT_WORKER_CONCURRENCY = 8;
+
+// Repeatable maintenance jobs the worker registers on startup (src/lib/scheduler.ts).
+// Cron patterns are evaluated in UTC, the same day boundary as performance snapshots.
+export const SCHEDULED_JOB_PATTERNS = {
+  tiktok_sync: '0 3 * * *',
+  tiktok_token_refresh: '0 * * * *',
+  stalled_project_sweep: '*/15 * * * *',
+  storage_cleanup: '30 4 * * *',
+  template_mining: '0 4 * * *',
+  hook_calibration: '0 5 * * 1',
+} as const;
+export type ScheduledStep = keyof typeof SCHEDULED_JOB_PATTERNS;
+
+/** The hourly token refresh renews any TikTok token expiring within this window */
+export const TIKTOK_TOKEN_REFRESH_WINDOW_MS = 2 * 60 * 60 * 1000;
+
+/** A project in a processing status, untouched this long and with no live job, is failed by the sweep */
+export const STALLED_PROJECT_THRESHOLD_MS = 30 * 60 * 1000;
+
+/** Unreferenced asset files younger than this are left alone (uploads still being attached) */
+export const ORPHANED_FILE_MIN_AGE_MS = 24 * 60 * 60 * 1000;
+
 // Cost per API call (from cost_config.json)
 export const API_COSTS = {
   wavespeedChat: 0.01,
@@ -504,6 +585,7 @@ export const API_COSTS = {
   klingVideo: 1.80,  // 1.5x multiplier with sound enabled
   elevenLabsTts: 0.05,
   creatomateRender: 0.50,
+  ffmpegRender: 0, // Local render on the worker — no provider cost
   geminiVideoAnalysis: 0.02,
   brollPlanning: 0.01, // 1 LLM call for B-roll shot list
   imageUpscaler: 0.01, // WaveSpeed image upscaler to 4K
@@ -838,7 +920,7 @@ export const BROLL_PRESETS: Record<string, BrollPreset> = {
 
 /**
  * Pipeline order for determining earliest affected stage.
- * Only includes stages that can be restarted (have RESTART_STAGE_MAP entries).
+ * Only includes stages that can be restarted (have RESTART_STAGE_MAP entries in pipeline.ts).
  */
 export const PIPELINE_STAGE_ORDER = [
   'scripting',
@@ -1006,3 +1088,115 @@ const KEN_BURNS_DIRECTIONS: KenBurnsDirection[] = ['zoom_in', 'zoom_out', 'pan_l
 export function pickKenBurnsDirection(shotIndex: number): KenBurnsDirection {
   return KEN_BURNS_DIRECTIONS[shotIndex % KEN_BURNS_DIRECTIONS.length];
 }
+
+// ─── Caption Styles ─────────────────────────────────────────────────────────
+
+/**
+ * Word-by-word caption presets, burned in from the voiceover's word timings.
+ * Colors are #RRGGBB; `base` is a word before it is spoken, `highlight` once it is.
+ */
+export type CaptionStyleId = 'karaoke_pop' | 'clean' | 'neon_box';
+
+export interface CaptionStylePreset {
+  label: string;
+  font: string;
+  /** Font size as a fraction of video height */
+  fontSize: number;
+  baseColor: string;
+  highlightColor: string;
+  outlineColor: string;
+  outlineWidth: number;
+  /** Draw an opaque box behind the line instead of an outline */
+  box: boolean;
+  uppercase: boolean;
+  wordsPerPage: number;
+  /** Baseline position as a fraction of video height from the top */
+  position: number;
+  /** Creatomate transcript_effect used for Caption-N slots */
+  creatomateEffect: 'karaoke' | 'highlight' | 'bounce';
+}
+
+export const CAPTION_STYLE_PRESETS: Record<CaptionStyleId, CaptionStylePreset> = {
+  karaoke_pop: {
+    label: 'Karaoke Pop',
+    font: 'Montserrat',
+    fontSize: 0.045,
+    baseColor: '#FFFFFF',
+    highlightColor: '#FFE14D',
+    outlineColor: '#000000',
+    outlineWidth: 6,
+    box: false,
+    uppercase: true,
+    wordsPerPage: 3,
+    position: 0.7,
+    creatomateEffect: 'highlight',
+  },
+  clean: {
+    label: 'Clean Subtitle',
+    font: 'Inter',
+    fontSize: 0.032,
+    baseColor: '#BBBBBB',
+    highlightColor: '#FFFFFF',
+    outlineColor: '#000000',
+    outlineWidth: 3,
+    box: false,
+    uppercase: false,
+    wordsPerPage: 6,
+    position: 0.78,
+    creatomateEffect: 'karaoke',
+  },
+  neon_box: {
+    label: 'Neon Box',
+    font: 'Montserrat',
+    fontSize: 0.04,
+    baseColor: '#FFFFFF',
+    highlightColor: '#00E5A0',
+    outlineColor: '#000000',
+    outlineWidth: 10,
+    box: true,
+    uppercase: true,
+    wordsPerPage: 2,
+    position: 0.68,
+    creatomateEffect: 'bounce',
+  },
+};
+
+export const CAPTION_STYLE_IDS = Object.keys(CAPTION_STYLE_PRESETS) as CaptionStyleId[];
+export const DEFAULT_CAPTION_STYLE: CaptionStyleId = 'karaoke_pop';
+
+// ─── Background Music ───────────────────────────────────────────────────────
+
+export const MUSIC_MOODS = ['chill', 'upbeat', 'warm', 'dramatic', 'quirky', 'minimal'] as const;
+export type MusicMood = typeof MUSIC_MOODS[number];
+
+export const MUSIC_LICENSES = ['royalty_free', 'cc0', 'cc_by', 'commercial', 'tiktok_commercial'] as const;
+export type MusicLicense = typeof MUSIC_LICENSES[number];
+
+/** project.music_mode: pick from the tone, use project.music_track_id, or no music. */
+export const MUSIC_MODES = ['auto', 'manual', 'off'] as const;
+export type MusicMode = typeof MUSIC_MODES[number];
+export const DEFAULT_MUSIC_MODE: MusicMode = 'auto';
+
+/** What auto-selection looks for per script tone: moods in preference order and a BPM band. */
+export const TONE_MUSIC_PROFILES: Record<ScriptTone, { moods: MusicMood[]; bpm: [number, number] }> = {
+  'reluctant-insider': { moods: ['minimal', 'chill'], bpm: [70, 95] },
+  'big-sis': { moods: ['warm', 'chill'], bpm: [80, 105] },
+  'converted-skeptic': { moods: ['dramatic', 'warm'], bpm: [85, 110] },
+  'tired-expert': { moods: ['chill', 'minimal'], bpm: [70, 90] },
+  'obsessed-nerd': { moods: ['quirky', 'upbeat'], bpm: [105, 130] },
+  'calm-pro': { moods: ['minimal', 'warm'], bpm: [70, 95] },
+  'frustrated-solver': { moods: ['dramatic', 'upbeat'], bpm: [95, 120] },
+  'playful-challenger': { moods: ['upbeat', 'quirky'], bpm: [110, 135] },
+  'quiet-minimalist': { moods: ['minimal', 'chill'], bpm: [60, 85] },
+  'truth-teller': { moods: ['dramatic', 'minimal'], bpm: [85, 110] },
+};
+
+/** Music bed mix: base gain, ducked gain under voiceover, and fades. */
+export const MUSIC_MIX = {
+  volume: 0.35,
+  duckLevel: 0.3,
+  attackMs: 150,
+  releaseMs: 500,
+  fadeInSeconds: 1,
+  fadeOutSeconds: 2,
+} as const;
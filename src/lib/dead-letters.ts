@@ -0,0 +1,125 @@
+// ─── Dead Letters ─────────────────────────────────────────────────────────────
+// BullMQ keeps only the last few failed jobs. When a pipeline job fails for good
+// the worker also writes it to dead_letter: payload, error, triage class and the
+// generation_log rows from while it ran. Rows stay until someone retries, rolls
+// back or dismisses them (src/lib/recovery.ts), and are never deleted.
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Job } from 'bullmq';
+import { createLogger } from '@/lib/logger';
+import { classifyFailure, type DeadLetterStatus, type FailureClass } from '@/lib/failures';
+import { getStage, stageForFailure, stageForStep } from '@/lib/pipeline';
+import type { PipelineJobData } from '@/lib/queue';
+
+const log = createLogger({ agentName: 'DeadLetters' });
+
+/** Most generation_log rows copied onto a dead letter. */
+const MAX_LOG_ROWS = 200;
+
+/** Pipeline stage a step belongs to (segment and completion jobs count as their stage). */
+function stageOf(step: string): string | null {
+  return stageForStep(step.replace(/_(segment|complete)$/, ''));
+}
+
+/**
+ * Record a job that will not be retried again. Never throws: a dead-letter write
+ * failing must not change how the worker handles the job.
+ */
+export async function recordDeadLetter(
+  supabase: SupabaseClient,
+  job: Job<PipelineJobData>,
+  error: unknown,
+  correlationId: string,
+): Promise<void> {
+  const { projectId, productId, presetId, step } = job.data;
+  const subjectId = projectId || productId || presetId || null;
+  const err = error instanceof Error ? error : new Error(String(error));
+
+  try {
+    let logs: unknown[] = [];
+    if (subjectId) {
+      const { data } = await supabase
+        .from('generation_log')
+        .select('correlation_id, event_type, agent_name, stage, detail, created_at')
+        .eq('project_id', subjectId)
+        .gte('created_at', new Date(job.timestamp).toISOString())
+        .order('created_at', { ascending: true })
+        .limit(MAX_LOG_ROWS);
+      logs = data ?? [];
+    }
+
+    const { error: insertError } = await supabase.from('dead_letter').insert({
+      job_id: job.id ?? null,
+      step,
+      project_id: projectId || null,
+      subject_id: subjectId,
+      stage: stageOf(step),
+      job_data: job.data,
+      failure_class: classifyFailure(err),
+      error_name: err.name,
+      error_message: err.message,
+      error_stack: err.stack ?? null,
+      attempts: job.attemptsMade + 1,
+      correlation_id: correlationId,
+      logs,
+    });
+    if (insertError) throw insertError;
+  } catch (writeError) {
+    log.warn({ err: writeError, jobId: job.id, step }, 'Failed to record dead letter');
+  }
+}
+
+/**
+ * Record a stage the stalled-project sweep failed (src/lib/maintenance.ts). There
+ * is no job to snapshot, so the row carries the stage's step as its payload and
+ * is retried or rolled back through the project like any other. Never throws.
+ */
+export async function recordStalledStage(
+  supabase: SupabaseClient,
+  projectId: string,
+  status: string,
+  message: string,
+  correlationId: string,
+): Promise<void> {
+  const stage = stageForFailure(status);
+  if (!stage) return;
+  const jobData: PipelineJobData = { projectId, step: getStage(stage).step };
+
+  const { error } = await supabase.from('dead_letter').insert({
+    job_id: null,
+    step: jobData.step,
+    project_id: projectId,
+    subject_id: projectId,
+    stage,
+    job_data: jobData,
+    failure_class: 'stalled' satisfies FailureClass,
+    error_name: 'StalledStageError',
+    error_message: message,
+    attempts: 0,
+    correlation_id: correlationId,
+    logs: [],
+  });
+  if (error) {
+    log.warn({ err: error, projectId }, 'Failed to record stalled stage');
+  }
+}
+
+/**
+ * Close every open dead letter of a project once it has been retried or rolled
+ * back — however that happened — so the dashboard only shows live failures.
+ */
+export async function resolveDeadLetters(
+  supabase: SupabaseClient,
+  projectId: string,
+  status: Exclude<DeadLetterStatus, 'open'>,
+): Promise<void> {
+  const { error } = await supabase
+    .from('dead_letter')
+    .update({ status, resolved_at: new Date().toISOString() })
+    .eq('project_id', projectId)
+    .eq('status', 'open');
+
+  if (error) {
+    log.warn({ err: error, projectId }, 'Failed to resolve dead letters');
+  }
+}
@@ -22,3 +22,112 @@ export class TikTokDownloadError extends Error {
     this.name = 'TikTokDownloadError';
   }
 }
+
+/**
+ * Thrown when an audio buffer is not a parseable MP3 or WAV file.
+ */
+export class AudioParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AudioParseError';
+  }
+}
+
+/**
+ * Thrown when a project cannot be created. `status` is the HTTP status the
+ * API route responds with.
+ */
+export class ProjectCreationError extends Error {
+  constructor(
+    message: string,
+    public readonly status: 400 | 404 | 500,
+  ) {
+    super(message);
+    this.name = 'ProjectCreationError';
+  }
+}
+
+/**
+ * Thrown when regional versions cannot be created from a project. `status` is
+ * the HTTP status the API route responds with.
+ */
+export class LocalizationError extends Error {
+  constructor(
+    message: string,
+    public readonly status: 400 | 404 | 409,
+  ) {
+    super(message);
+    this.name = 'LocalizationError';
+  }
+}
+
+/**
+ * Thrown when a script version cannot be restored or composed. `status` is the
+ * HTTP status the API route responds with.
+ */
+export class ScriptHistoryError extends Error {
+  constructor(
+    message: string,
+    public readonly status: 400 | 404 | 409,
+  ) {
+    super(message);
+    this.name = 'ScriptHistoryError';
+  }
+}
+
+/**
+ * Thrown when a batch manifest is not valid CSV or JSON.
+ */
+export class ManifestParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ManifestParseError';
+  }
+}
+
+/**
+ * Thrown when a stage's projected cost would take a project (or its batch) past
+ * its budget_usd. The worker fails the stage without retrying; retry with
+ * overrideBudget or raise the budget to continue.
+ */
+export class BudgetExceededError extends Error {
+  constructor(
+    message: string,
+    public readonly stage: string,
+    public readonly projectedUsd: number,
+    public readonly spentUsd: number,
+    public readonly budgetUsd: number,
+    public readonly scope: 'project' | 'batch',
+  ) {
+    super(message);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+/**
+ * Thrown when a project status change is not allowed by the pipeline definition
+ * (src/lib/pipeline.ts) — e.g. approving a project that is not at a review gate,
+ * or a stage finishing after the project was cancelled back to a gate.
+ */
+export class InvalidTransitionError extends Error {
+  constructor(
+    public readonly from: string,
+    public readonly to: string,
+    message = `Invalid status transition: ${from} → ${to}`,
+  ) {
+    super(message);
+    this.name = 'InvalidTransitionError';
+  }
+}
+
+/**
+ * Thrown by an agent that has submitted a provider task and, with webhooks on,
+ * would rather not poll for it. The worker parks the job until the provider's
+ * callback (or the fallback sweep) wakes it; see src/lib/webhooks.ts.
+ */
+export class TaskPendingError extends Error {
+  constructor(public readonly taskId: string) {
+    super(`Waiting for provider task ${taskId}`);
+    this.name = 'TaskPendingError';
+  }
+}
@@ -0,0 +1,193 @@
+// ─── Pipeline Event Stream ────────────────────────────────────────────────────
+// Server side of the SSE routes (/api/projects/[id]/events, /api/events).
+// Changes are read from Supabase Realtime (postgres_changes on project, asset and
+// generation_log), so every writer — worker, agents, API routes — is covered
+// without publishing anything itself. The three tables must be in the
+// supabase_realtime publication.
+
+import {
+  createClient,
+  type RealtimeChannel,
+  type SupabaseClient,
+  type WebSocketLikeConstructor,
+} from '@supabase/supabase-js';
+import WebSocket from 'ws';
+import crypto from 'crypto';
+import type { PipelineEvent, ProjectSnapshot } from '@/lib/events';
+
+type Row = Record<string, unknown>;
+
+let _realtime: SupabaseClient | null = null;
+
+/**
+ * Service-role client for Realtime subscriptions. Node < 22 has no global
+ * WebSocket, so the ws package is passed as the transport.
+ */
+function getRealtimeClient(): SupabaseClient {
+  if (!_realtime) {
+    const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+    const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+    if (!url || !key) {
+      throw new Error('Missing NEXT_PUBLIC_SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY');
+    }
+    _realtime = createClient(url, key, {
+      auth: { persistSession: false },
+      // ws's constructor signature is wider than realtime-js declares
+      realtime: { transport: WebSocket as unknown as WebSocketLikeConstructor },
+    });
+  }
+  return _realtime;
+}
+
+function parseCost(value: unknown): number {
+  const cost = typeof value === 'number' ? value : parseFloat(String(value ?? '0'));
+  return Number.isFinite(cost) ? cost : 0;
+}
+
+/**
+ * Subscribe to pipeline events for one project, or for every project when
+ * `projectId` is null. `snapshots` seeds the status/cost baselines so the first
+ * change produces a correct previousStatus and deltaUsd; it is updated in place.
+ * Returns an unsubscribe function.
+ */
+export function subscribePipelineEvents(
+  projectId: string | null,
+  snapshots: Map<string, ProjectSnapshot>,
+  onEvent: (event: PipelineEvent) => void,
+  onError?: (err: Error) => void,
+): () => void {
+  const client = getRealtimeClient();
+  const channel: RealtimeChannel = client.channel(`pipeline-events:${projectId ?? 'all'}:${crypto.randomUUID()}`);
+  const byProject = (column: string) => (projectId ? { filter: `${column}=eq.${projectId}` } : {});
+
+  channel
+    .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'project', ...byProject('id') }, (payload) => {
+      const row = payload.new as Row;
+      const id = row.id as string;
+      const at = (row.updated_at as string | null) ?? new Date().toISOString();
+      const previous = snapshots.get(id);
+      const status = row.status as string;
+      const costUsd = parseCost(row.cost_usd);
+
+      if (!previous || previous.status !== status) {
+        onEvent({
+          type: 'status',
+          projectId: id,
+          status,
+          previousStatus: previous?.status ?? null,
+          failedAtStatus: (row.failed_at_status as string | null) ?? null,
+          errorMessage: (row.error_message as string | null) ?? null,
+          at,
+        });
+      }
+      if (previous && costUsd !== previous.costUsd) {
+        onEvent({ type: 'cost', projectId: id, costUsd, deltaUsd: costUsd - previous.costUsd, at });
+      }
+      snapshots.set(id, { status, costUsd });
+    })
+    .on('postgres_changes', { event: '*', schema: 'public', table: 'asset', ...byProject('project_id') }, (payload) => {
+      if (payload.eventType === 'DELETE') return;
+      const row = payload.new as Row;
+      onEvent({
+        type: 'asset',
+        projectId: row.project_id as string,
+        assetId: row.id as string,
+        assetType: row.type as string,
+        sceneId: (row.scene_id as string | null) ?? null,
+        status: row.status as string,
+        at: (row.updated_at as string | null) ?? new Date().toISOString(),
+      });
+    })
+    .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'generation_log', ...byProject('project_id') }, (payload) => {
+      const row = payload.new as Row;
+      onEvent({
+        type: 'log',
+        projectId: row.project_id as string,
+        eventType: row.event_type as string,
+        stage: (row.stage as string | null) ?? null,
+        agentName: (row.agent_name as string | null) ?? null,
+        detail: (row.detail as Record<string, unknown> | null) ?? null,
+        at: (row.created_at as string | null) ?? new Date().toISOString(),
+      });
+    })
+    .subscribe((status, err) => {
+      if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+        onError?.(err ?? new Error(`Realtime subscription ${status.toLowerCase()}`));
+      }
+    });
+
+  return () => {
+    client.removeChannel(channel).catch(() => {});
+  };
+}
+
+/** Interval between SSE keep-alive comments, so proxies don't close idle streams. */
+const HEARTBEAT_MS = 15_000;
+
+/** Encode one SSE message. */
+function formatSse(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Build a text/event-stream Response: sends a `snapshot` event, then every
+ * pipeline event as it happens, until the client disconnects.
+ */
+export function createPipelineEventStream(
+  request: Request,
+  projectId: string | null,
+  snapshot: Record<string, unknown>,
+  snapshots: Map<string, ProjectSnapshot>,
+): Response {
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+      const send = (chunk: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      };
+
+      send(formatSse('snapshot', snapshot));
+
+      const unsubscribe = subscribePipelineEvents(
+        projectId,
+        snapshots,
+        (event) => send(formatSse(event.type, event)),
+        (err) => send(formatSse('error', { error: err.message })),
+      );
+      const heartbeat = setInterval(() => send(': ping\n\n'), HEARTBEAT_MS);
+
+      cleanup = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        unsubscribe();
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the runtime
+        }
+      };
+      request.signal.addEventListener('abort', () => cleanup());
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
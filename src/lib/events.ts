@@ -0,0 +1,49 @@
+// ─── Pipeline Events ──────────────────────────────────────────────────────────
+// Event shapes pushed by the SSE routes (see event-stream.ts). No server imports:
+// the browser subscriber uses them too.
+
+export type PipelineEvent =
+  | {
+      type: 'status';
+      projectId: string;
+      status: string;
+      previousStatus: string | null;
+      failedAtStatus: string | null;
+      errorMessage: string | null;
+      at: string;
+    }
+  | {
+      type: 'cost';
+      projectId: string;
+      costUsd: number;
+      deltaUsd: number;
+      at: string;
+    }
+  | {
+      type: 'asset';
+      projectId: string;
+      assetId: string;
+      assetType: string;
+      sceneId: string | null;
+      status: string;
+      at: string;
+    }
+  | {
+      type: 'log';
+      projectId: string;
+      eventType: string;
+      stage: string | null;
+      agentName: string | null;
+      detail: Record<string, unknown> | null;
+      at: string;
+    };
+
+export type PipelineEventType = PipelineEvent['type'];
+
+export const PIPELINE_EVENT_TYPES: PipelineEventType[] = ['status', 'cost', 'asset', 'log'];
+
+/** Last known status and cost of a project — the baseline for change events. */
+export interface ProjectSnapshot {
+  status: string;
+  costUsd: number;
+}
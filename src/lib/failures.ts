@@ -0,0 +1,164 @@
+// ─── Failure Classes ──────────────────────────────────────────────────────────
+// Sorts a failed job's error into a triage class, so the failures dashboard can
+// group the same problem across projects and suggest the fix. No server imports:
+// the dashboard uses the labels and grouping too.
+
+export type FailureAction = 'retry' | 'rollback';
+
+export interface FailureClassInfo {
+  label: string;
+  /** What usually causes it and what to do */
+  hint: string;
+  /** Bulk action that usually clears it */
+  action: FailureAction;
+}
+
+export const FAILURE_CLASSES = {
+  budget_exceeded: {
+    label: 'Budget exceeded',
+    hint: 'The next paid call would pass the project or batch budget. Raise the budget, or retry with the override.',
+    action: 'retry',
+  },
+  missing_voice: {
+    label: 'Missing voice',
+    hint: 'The influencer has no designed voice. Design one on the Influencer page, then retry.',
+    action: 'retry',
+  },
+  content_policy: {
+    label: 'Content policy rejection',
+    hint: 'The provider refused the prompt or image. Roll back to the review gate and edit the script, prompt or reference image.',
+    action: 'rollback',
+  },
+  provider_timeout: {
+    label: 'Provider timeout',
+    hint: 'A provider task or request did not finish in time. Usually transient; retry.',
+    action: 'retry',
+  },
+  rate_limited: {
+    label: 'Rate limited',
+    hint: 'The provider throttled requests. Retry once the fleet is quieter, or lower its PROVIDER_CONCURRENCY_<NAME> limit.',
+    action: 'retry',
+  },
+  json_parse: {
+    label: 'Unparseable LLM output',
+    hint: 'The model returned text that is not the expected JSON. A retry usually gets a clean response.',
+    action: 'retry',
+  },
+  invalid_asset_url: {
+    label: 'Invalid asset URL',
+    hint: 'An input image, clip or audio URL was missing, unreachable or malformed. Roll back and regenerate or re-upload it.',
+    action: 'rollback',
+  },
+  missing_data: {
+    label: 'Missing upstream data',
+    hint: 'A record the stage needs (script, scenes, product data) was not there. Roll back and re-run the earlier stage.',
+    action: 'rollback',
+  },
+  provider_error: {
+    label: 'Provider error',
+    hint: 'A provider API returned an error or failed the task. Retry; if it persists, check the provider status.',
+    action: 'retry',
+  },
+  database: {
+    label: 'Database write failed',
+    hint: 'Saving results to Supabase failed. Retry once the database is reachable.',
+    action: 'retry',
+  },
+  stalled: {
+    label: 'Stalled stage',
+    hint: 'The stage had no queued or running job left (worker killed mid-stage, or the job was removed). Retry to enqueue it again.',
+    action: 'retry',
+  },
+  unknown: {
+    label: 'Unclassified',
+    hint: 'No known pattern matched. Check the error and logs.',
+    action: 'retry',
+  },
+} satisfies Record<string, FailureClassInfo>;
+
+export type FailureClass = keyof typeof FAILURE_CLASSES;
+
+/**
+ * First match wins, so the narrow classes come before the broad ones: a timed-out
+ * LLM call is a timeout, not a provider error.
+ */
+const RULES: Array<{ failureClass: FailureClass; name?: string; pattern?: RegExp }> = [
+  { failureClass: 'budget_exceeded', name: 'BudgetExceededError' },
+  { failureClass: 'missing_voice', pattern: /no designed voice|voice[_ ]id|voice not found/i },
+  { failureClass: 'content_policy', pattern: /content[ _-]?policy|nsfw|moderation|safety (system|filter|check)|flagged|sensitive content|prohibited|violat/i },
+  { failureClass: 'provider_timeout', pattern: /timed? ?out|timeout|ETIMEDOUT|ECONNRESET|socket hang up/i },
+  { failureClass: 'rate_limited', pattern: /\(429\)|rate[ _-]?limit|too many requests/i },
+  { failureClass: 'json_parse', name: 'SyntaxError' },
+  { failureClass: 'json_parse', pattern: /JSON|unexpected token|unexpected end of input/i },
+  { failureClass: 'invalid_asset_url', pattern: /invalid url|ERR_INVALID_URL|failed to download|has no url|url validation|no valid video assets/i },
+  { failureClass: 'missing_data', pattern: /not found|no script|no scenes|no completed assets|no video assets|has no \w+_data|required/i },
+  { failureClass: 'provider_error', pattern: /API error \(\d{3}\)|TTS error|task \S+ failed|render(?: \S+)? failed|generateContent failed|file processing failed|LLM call failed/i },
+  { failureClass: 'database', pattern: /failed to (save|insert|update|upload|fetch)/i },
+];
+
+/** Triage class for an error (an Error, or its name and message). */
+export function classifyFailure(error: unknown): FailureClass {
+  const name = error instanceof Error ? error.name : '';
+  const message = error instanceof Error ? error.message : String(error ?? '');
+
+  for (const rule of RULES) {
+    if (rule.name && rule.name === name) return rule.failureClass;
+    if (rule.pattern && rule.pattern.test(message)) return rule.failureClass;
+  }
+  return 'unknown';
+}
+
+export function failureClassInfo(failureClass: string): FailureClassInfo {
+  return FAILURE_CLASSES[failureClass as FailureClass] ?? FAILURE_CLASSES.unknown;
+}
+
+export type DeadLetterStatus = 'open' | 'retried' | 'rolled_back' | 'dismissed';
+
+/** A dead_letter row as the failures list returns it (no payload or logs). */
+export interface DeadLetterSummary {
+  id: string;
+  job_id: string | null;
+  step: string;
+  stage: string | null;
+  project_id: string | null;
+  subject_id: string | null;
+  failure_class: string;
+  error_message: string;
+  attempts: number;
+  status: DeadLetterStatus;
+  created_at: string;
+  project: { id: string; name: string | null; status: string } | null;
+}
+
+export interface FailureGroup extends FailureClassInfo {
+  failureClass: string;
+  count: number;
+  /** Distinct projects with a failure in this class */
+  projectCount: number;
+  latestAt: string;
+  items: DeadLetterSummary[];
+}
+
+/** Group dead letters by class, largest group first; items newest first. */
+export function groupFailures(items: DeadLetterSummary[]): FailureGroup[] {
+  const byClass = new Map<string, DeadLetterSummary[]>();
+  for (const item of items) {
+    const group = byClass.get(item.failure_class) ?? [];
+    group.push(item);
+    byClass.set(item.failure_class, group);
+  }
+
+  return [...byClass.entries()]
+    .map(([failureClass, group]) => {
+      const sorted = [...group].sort((a, b) => b.created_at.localeCompare(a.created_at));
+      return {
+        failureClass,
+        ...failureClassInfo(failureClass),
+        count: sorted.length,
+        projectCount: new Set(sorted.map((item) => item.project_id).filter(Boolean)).size,
+        latestAt: sorted[0].created_at,
+        items: sorted,
+      };
+    })
+    .sort((a, b) => b.count - a.count || b.latestAt.localeCompare(a.latestAt));
+}
@@ -0,0 +1,61 @@
+// ─── FFmpeg ───────────────────────────────────────────────────────────────────
+// Thin wrapper around the local ffmpeg binary (FFMPEG_PATH, default `ffmpeg` on
+// PATH), shared by the FFmpeg renderer and audio post-processing.
+
+import { spawn } from 'child_process';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+const STRETCH_TIMEOUT_MS = 60_000;
+
+/** Run ffmpeg to completion, rejecting with the tail of stderr on failure. */
+export function runFfmpeg(args: string[], timeoutMs: number): Promise<void> {
+  const binary = process.env.FFMPEG_PATH || 'ffmpeg';
+
+  return new Promise((resolve, reject) => {
+    const proc = spawn(binary, args, { stdio: ['ignore', 'ignore', 'pipe'] });
+    let stderr = '';
+
+    const timer = setTimeout(() => {
+      proc.kill('SIGKILL');
+      reject(new Error(`ffmpeg timed out after ${timeoutMs / 1000}s`));
+    }, timeoutMs);
+
+    proc.stderr.on('data', (chunk: Buffer) => {
+      // Keep only the tail — that's where ffmpeg reports the actual failure
+      stderr = (stderr + chunk.toString()).slice(-4000);
+    });
+
+    proc.on('error', (err) => {
+      clearTimeout(timer);
+      reject(new Error(`Failed to start ffmpeg (${binary}): ${err.message}`));
+    });
+
+    proc.on('close', (code) => {
+      clearTimeout(timer);
+      if (code === 0) resolve();
+      else reject(new Error(`ffmpeg exited with code ${code}: ${stderr.trim()}`));
+    });
+  });
+}
+
+/**
+ * Change an MP3's playback speed without changing its pitch (atempo).
+ * tempo > 1 shortens the audio; the result is re-encoded as MP3.
+ */
+export async function timeStretchMp3(audio: Buffer, tempo: number): Promise<Buffer> {
+  const workDir = await mkdtemp(join(tmpdir(), 'stretch-'));
+  try {
+    const input = join(workDir, 'in.mp3');
+    const output = join(workDir, 'out.mp3');
+    await writeFile(input, audio);
+    await runFfmpeg(
+      ['-y', '-i', input, '-filter:a', `atempo=${tempo.toFixed(4)}`, '-c:a', 'libmp3lame', '-b:a', '128k', output],
+      STRETCH_TIMEOUT_MS,
+    );
+    return await readFile(output);
+  } finally {
+    await rm(workDir, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,395 @@
+// ─── Hook Score Calibration ───────────────────────────────────────────────────
+// hook_score is the LLM grading its own hook against the rubric, and
+// PIPELINE_CONFIG.hookScoreMinimum is a guess. Calibration checks both against
+// posted videos: it joins each archived run's hook breakdown and tone with its
+// views, completion rate and conversion rate, combines the three (z-scored) into
+// one performance measure and fits a ridge regression of it on the criteria.
+// That shows which criteria predict performance and gives per-criterion weights.
+// Once a calibration is applied, ScriptingAgent reports and gates on the
+// reweighted score, with the fitted minimum. The pure functions are exported for
+// tests.
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { HOOK_CRITERIA, type HookCriterion } from '@/lib/constants';
+import { createLogger } from '@/lib/logger';
+
+const log = createLogger({ agentName: 'HookCalibration' });
+
+/** Posted runs needed before a fit is attempted. */
+export const MIN_CALIBRATION_SAMPLES = 20;
+
+/** Runs of evidence the uniform weights count as, so small fits stay close to them. */
+const PRIOR_SAMPLES = 30;
+
+/** Ridge penalty per sample on the standardized coefficients. */
+const RIDGE_LAMBDA = 0.1;
+
+/** Smallest share of runs on each side of a suggested minimum. */
+const MIN_SPLIT_SHARE = 0.2;
+
+export const CALIBRATION_OUTCOMES = ['views', 'completion', 'conversion'] as const;
+export type CalibrationOutcome = (typeof CALIBRATION_OUTCOMES)[number];
+
+export type CriterionWeights = Record<HookCriterion, number>;
+
+/** One posted run: its hook rubric scores, tone and TikTok results. */
+export interface CalibrationSample {
+  scores: Partial<Record<HookCriterion, number>>;
+  tone: string | null;
+  views: number | null;
+  completionRatePct: number | null;
+  conversionRatePct: number | null;
+}
+
+export interface CriterionFit {
+  criterion: HookCriterion;
+  /** Average rubric score (0-2) across the runs */
+  mean: number;
+  /** Pearson correlation with each outcome; null without variance */
+  correlations: Record<CalibrationOutcome, number | null>;
+  /** Standardized ridge coefficient on the combined performance measure */
+  coefficient: number;
+  weight: number;
+}
+
+export interface ToneFit {
+  tone: string;
+  runs: number;
+  avgHookScore: number;
+  /** Mean combined performance in standard deviations; 0 is average */
+  performance: number;
+}
+
+export interface CalibrationFit {
+  sampleSize: number;
+  criteria: CriterionFit[];
+  tones: ToneFit[];
+  /** Share of the performance variance the criteria explain (in-sample) */
+  rSquared: number;
+  /** Correlation of the unweighted hook score with performance */
+  rawCorrelation: number | null;
+  /** Correlation of the calibrated hook score with performance (in-sample) */
+  calibratedCorrelation: number | null;
+  weights: CriterionWeights;
+  suggestedMinimum: number | null;
+}
+
+export interface HookCalibration {
+  id: string;
+  sample_size: number;
+  weights: CriterionWeights;
+  suggested_minimum: number | null;
+  fit: CalibrationFit;
+  applied: boolean;
+  applied_at: string | null;
+  created_at: string;
+}
+
+// ─── Statistics ───────────────────────────────────────────────────────────────
+
+function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+function stdev(values: number[]): number {
+  const m = mean(values);
+  return Math.sqrt(values.reduce((sum, v) => sum + (v - m) ** 2, 0) / values.length);
+}
+
+function round(value: number, places = 3): number {
+  const f = 10 ** places;
+  return Math.round(value * f) / f;
+}
+
+export function pearson(xs: number[], ys: number[]): number | null {
+  if (xs.length < 3) return null;
+  const sx = stdev(xs);
+  const sy = stdev(ys);
+  if (sx === 0 || sy === 0) return null;
+  const mx = mean(xs);
+  const my = mean(ys);
+  return round(xs.reduce((sum, x, i) => sum + (x - mx) * (ys[i] - my), 0) / (xs.length * sx * sy));
+}
+
+/** Solve A·x = b by Gaussian elimination with partial pivoting. */
+function solve(a: number[][], b: number[]): number[] {
+  const n = b.length;
+  const m = a.map((row, i) => [...row, b[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+    }
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+    for (let row = col + 1; row < n; row++) {
+      const factor = m[row][col] / m[col][col];
+      for (let k = col; k <= n; k++) m[row][k] -= factor * m[col][k];
+    }
+  }
+  const x = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = m[row][n];
+    for (let k = row + 1; k < n; k++) sum -= m[row][k] * x[k];
+    x[row] = sum / m[row][row];
+  }
+  return x;
+}
+
+function outcomeValue(sample: CalibrationSample, outcome: CalibrationOutcome): number | null {
+  if (outcome === 'views') return sample.views != null && sample.views > 0 ? Math.log10(1 + sample.views) : null;
+  if (outcome === 'completion') return sample.completionRatePct;
+  return sample.conversionRatePct;
+}
+
+/**
+ * Combined performance per sample: the mean of its z-scored outcomes (log views,
+ * completion rate, conversion rate). Null for a sample with none of them.
+ */
+export function performanceScores(samples: CalibrationSample[]): (number | null)[] {
+  const zs = CALIBRATION_OUTCOMES.map((outcome) => {
+    const values = samples.map((s) => outcomeValue(s, outcome));
+    const present = values.filter((v): v is number => v !== null);
+    const sd = present.length > 1 ? stdev(present) : 0;
+    if (sd === 0) return values.map(() => null);
+    const m = mean(present);
+    return values.map((v) => (v === null ? null : (v - m) / sd));
+  });
+
+  return samples.map((_, i) => {
+    const own = zs.map((z) => z[i]).filter((z): z is number => z !== null);
+    return own.length ? mean(own) : null;
+  });
+}
+
+/** Hook score with each criterion multiplied by its weight. */
+export function calibratedHookScore(scores: Partial<Record<HookCriterion, number>>, weights: CriterionWeights): number {
+  return Math.round(HOOK_CRITERIA.reduce((sum, c) => sum + (scores[c] ?? 0) * (weights[c] ?? 1), 0));
+}
+
+function rawHookScore(scores: Partial<Record<HookCriterion, number>>): number {
+  return HOOK_CRITERIA.reduce((sum, c) => sum + (scores[c] ?? 0), 0);
+}
+
+/**
+ * The calibrated score that best separates better from worse runs: the cut with
+ * the widest gap in mean performance between runs at or above it and runs below,
+ * keeping at least MIN_SPLIT_SHARE of runs on each side. Null if none qualifies.
+ */
+export function suggestMinimum(scores: number[], performance: number[]): number | null {
+  const minSide = Math.max(3, Math.ceil(scores.length * MIN_SPLIT_SHARE));
+  let best: { cut: number; gap: number } | null = null;
+
+  for (const cut of [...new Set(scores)].sort((a, b) => a - b)) {
+    const above = performance.filter((_, i) => scores[i] >= cut);
+    const below = performance.filter((_, i) => scores[i] < cut);
+    if (above.length < minSide || below.length < minSide) continue;
+    const gap = mean(above) - mean(below);
+    if (gap > 0 && (!best || gap > best.gap)) best = { cut, gap };
+  }
+  return best?.cut ?? null;
+}
+
+/**
+ * Fit criterion weights to how runs performed. Null with fewer than
+ * MIN_CALIBRATION_SAMPLES runs that have any performance data.
+ *
+ * Weights are the positive per-point effects from the ridge fit, rescaled to sum
+ * to the criterion count (so uniform weights of 1 give back the plain sum), then
+ * pulled toward 1 by PRIOR_SAMPLES. A criterion that does not predict
+ * performance ends up below 1 but never at 0 while the sample is small.
+ */
+export function fitCalibration(input: CalibrationSample[]): CalibrationFit | null {
+  const performance = performanceScores(input);
+  const samples = input.filter((_, i) => performance[i] !== null);
+  const y = performance.filter((p): p is number => p !== null);
+  const n = samples.length;
+  if (n < MIN_CALIBRATION_SAMPLES) return null;
+
+  const columns = HOOK_CRITERIA.map((c) => samples.map((s) => s.scores[c] ?? 0));
+  const means = columns.map(mean);
+  const sds = columns.map(stdev);
+  const yMean = mean(y);
+  const yc = y.map((v) => v - yMean);
+
+  // Ridge on standardized columns; constant columns are left out (coefficient 0)
+  const used = HOOK_CRITERIA.map((_, j) => j).filter((j) => sds[j] > 0);
+  const z = used.map((j) => columns[j].map((v) => (v - means[j]) / sds[j]));
+  const xtx = z.map((a, r) => z.map((b, c) => a.reduce((sum, v, i) => sum + v * b[i], 0) + (r === c ? RIDGE_LAMBDA * n : 0)));
+  const xty = z.map((a) => a.reduce((sum, v, i) => sum + v * yc[i], 0));
+  const beta = used.length ? solve(xtx, xty) : [];
+  const coefficients = HOOK_CRITERIA.map((_, j) => (used.includes(j) ? beta[used.indexOf(j)] : 0));
+
+  const predicted = yc.map((_, i) => used.reduce((sum, j, k) => sum + beta[k] * z[k][i], 0));
+  const ssTot = yc.reduce((sum, v) => sum + v * v, 0);
+  const ssRes = yc.reduce((sum, v, i) => sum + (v - predicted[i]) ** 2, 0);
+
+  const effects = coefficients.map((b, j) => (sds[j] > 0 ? Math.max(0, b / sds[j]) : 0));
+  const effectSum = effects.reduce((sum, e) => sum + e, 0);
+  const shrink = n / (n + PRIOR_SAMPLES);
+  const weights = Object.fromEntries(HOOK_CRITERIA.map((c, j) => {
+    const fitted = effectSum > 0 ? (effects[j] / effectSum) * HOOK_CRITERIA.length : 1;
+    return [c, round(shrink * fitted + (1 - shrink), 2)];
+  })) as CriterionWeights;
+
+  const rawScores = samples.map((s) => rawHookScore(s.scores));
+  const calibratedScores = samples.map((s) => calibratedHookScore(s.scores, weights));
+
+  const criteria: CriterionFit[] = HOOK_CRITERIA.map((criterion, j) => ({
+    criterion,
+    mean: round(means[j], 2),
+    correlations: Object.fromEntries(CALIBRATION_OUTCOMES.map((outcome) => {
+      const pairs = samples
+        .map((s, i) => [columns[j][i], outcomeValue(s, outcome)] as const)
+        .filter((pair): pair is readonly [number, number] => pair[1] !== null);
+      return [outcome, pearson(pairs.map((p) => p[0]), pairs.map((p) => p[1]))];
+    })) as Record<CalibrationOutcome, number | null>,
+    coefficient: round(coefficients[j]),
+    weight: weights[criterion],
+  }));
+
+  const byTone = new Map<string, number[]>();
+  samples.forEach((s, i) => {
+    const tone = s.tone || 'unknown';
+    byTone.set(tone, [...(byTone.get(tone) ?? []), i]);
+  });
+  const tones: ToneFit[] = [...byTone.entries()]
+    .map(([tone, idx]) => ({
+      tone,
+      runs: idx.length,
+      avgHookScore: round(mean(idx.map((i) => rawScores[i])), 1),
+      performance: round(mean(idx.map((i) => y[i])), 2),
+    }))
+    .sort((a, b) => b.performance - a.performance);
+
+  return {
+    sampleSize: n,
+    criteria,
+    tones,
+    rSquared: ssTot > 0 ? round(Math.max(0, 1 - ssRes / ssTot)) : 0,
+    rawCorrelation: pearson(rawScores, y),
+    calibratedCorrelation: pearson(calibratedScores, y),
+    weights,
+    suggestedMinimum: suggestMinimum(calibratedScores, y),
+  };
+}
+
+// ─── Persistence ──────────────────────────────────────────────────────────────
+
+/**
+ * Every archived run with TikTok results, joined to the hook breakdown of its
+ * project's final script.
+ */
+export async function loadCalibrationSamples(supabase: SupabaseClient): Promise<CalibrationSample[]> {
+  const { data: rows, error } = await supabase
+    .from('video_performance')
+    .select('project_id, views, completion_rate_pct, conversion_rate_pct, completed_run:completed_run_id(tone)');
+
+  if (error) throw new Error(`Failed to load video performance: ${error.message}`);
+
+  const posted = (rows || []).filter((r) => (r.views ?? 0) > 0 || r.completion_rate_pct != null || r.conversion_rate_pct != null);
+  if (posted.length === 0) return [];
+
+  const { data: scripts, error: scriptError } = await supabase
+    .from('script')
+    .select('project_id, version, tone, hook_score_breakdown')
+    .in('project_id', posted.map((r) => r.project_id));
+
+  if (scriptError) throw new Error(`Failed to load scripts: ${scriptError.message}`);
+
+  const latest = new Map<string, { version: number; tone: string | null; hook_score_breakdown: Record<string, number> | null }>();
+  for (const s of scripts || []) {
+    const seen = latest.get(s.project_id);
+    if (!seen || (s.version ?? 1) > seen.version) latest.set(s.project_id, { ...s, version: s.version ?? 1 });
+  }
+
+  return posted.flatMap((row) => {
+    const script = latest.get(row.project_id);
+    if (!script?.hook_score_breakdown) return [];
+    const run = row.completed_run as unknown as { tone: string | null } | null;
+    return [{
+      scores: Object.fromEntries(HOOK_CRITERIA.map((c) => [c, Number(script.hook_score_breakdown![c]) || 0])),
+      tone: run?.tone ?? script.tone,
+      views: row.views,
+      completionRatePct: row.completion_rate_pct != null ? parseFloat(row.completion_rate_pct) : null,
+      conversionRatePct: row.conversion_rate_pct != null ? parseFloat(row.conversion_rate_pct) : null,
+    }];
+  });
+}
+
+/** The calibration ScriptingAgent scores with, if one is applied. */
+export async function getAppliedCalibration(supabase: SupabaseClient): Promise<HookCalibration | null> {
+  const { data } = await supabase
+    .from('hook_calibration')
+    .select('*')
+    .eq('applied', true)
+    .order('applied_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  return (data as HookCalibration | null) ?? null;
+}
+
+/**
+ * Fit a calibration on every posted run and store it. While a calibration is
+ * applied, the new one replaces it, so applied weights follow the data. Returns
+ * null (and stores nothing) below MIN_CALIBRATION_SAMPLES.
+ */
+export async function runHookCalibration(supabase: SupabaseClient): Promise<{ calibration: HookCalibration | null; sampleSize: number }> {
+  const samples = await loadCalibrationSamples(supabase);
+  const fit = fitCalibration(samples);
+  if (!fit) {
+    log.info({ samples: samples.length, needed: MIN_CALIBRATION_SAMPLES }, 'Not enough posted runs to calibrate hook scores');
+    return { calibration: null, sampleSize: samples.length };
+  }
+
+  const previous = await getAppliedCalibration(supabase);
+  const { data: calibration, error } = await supabase
+    .from('hook_calibration')
+    .insert({
+      sample_size: fit.sampleSize,
+      weights: fit.weights,
+      suggested_minimum: fit.suggestedMinimum,
+      fit,
+    })
+    .select()
+    .single();
+
+  if (error || !calibration) throw new Error(`Failed to save hook calibration: ${error?.message}`);
+
+  log.info(
+    { calibrationId: calibration.id, samples: fit.sampleSize, rSquared: fit.rSquared, weights: fit.weights },
+    'Hook scores calibrated'
+  );
+
+  if (previous) return { calibration: await setCalibrationApplied(supabase, calibration.id, true), sampleSize: fit.sampleSize };
+  return { calibration: calibration as HookCalibration, sampleSize: fit.sampleSize };
+}
+
+/**
+ * Apply a calibration (un-applying any other) or stop applying it. Null if no
+ * such calibration.
+ */
+export async function setCalibrationApplied(supabase: SupabaseClient, id: string, applied: boolean): Promise<HookCalibration | null> {
+  const { data: existing } = await supabase
+    .from('hook_calibration')
+    .select('id')
+    .eq('id', id)
+    .maybeSingle();
+  if (!existing) return null;
+
+  if (applied) {
+    await supabase
+      .from('hook_calibration')
+      .update({ applied: false })
+      .eq('applied', true)
+      .neq('id', id);
+  }
+
+  const { data } = await supabase
+    .from('hook_calibration')
+    .update({ applied, applied_at: applied ? new Date().toISOString() : null })
+    .eq('id', id)
+    .select()
+    .maybeSingle();
+
+  return (data as HookCalibration | null) ?? null;
+}
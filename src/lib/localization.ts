@@ -0,0 +1,152 @@
+// ─── Regional Versions ────────────────────────────────────────────────────────
+// One approved concept, many markets. A regional version is a sibling project
+// (localized_from_id → source) with its own locale that copies the source's
+// product, concept and settings and starts at scripting. If the source's script
+// is already approved, the version translates it (source_script_id); otherwise it
+// writes its own script natively from the concept. Each version then runs the
+// normal pipeline — its own review gates, voiceover in the influencer's voice and
+// render.
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { PROJECT_STATUSES, getLocale, type Locale, type ProjectStatus } from '@/lib/constants';
+import { checkStageBudget } from '@/lib/budget';
+import { LocalizationError } from '@/lib/errors';
+import { transitionProject } from '@/lib/project-status';
+import { getPipelineQueue } from '@/lib/queue';
+import { scaleSyllableTargets } from '@/lib/syllables';
+import { INHERITED_COLUMNS } from '@/lib/variants';
+import { createLogger } from '@/lib/logger';
+
+const log = createLogger({ agentName: 'Localization' });
+
+export type LocalizationMode = 'translate' | 'generate';
+
+export interface LocalizedVersionResult {
+  locale: Locale;
+  projectId: string | null;
+  mode: LocalizationMode | null;
+  /** Scripting was enqueued; false when skipped or held back by the budget */
+  started: boolean;
+  /** Why the locale was skipped or not started */
+  reason: string | null;
+}
+
+type Row = Record<string, unknown>;
+
+function statusIndex(status: string): number {
+  return PROJECT_STATUSES.indexOf(status as ProjectStatus);
+}
+
+/**
+ * How a project's regional versions get their script: translate once the script
+ * is approved, write natively once the concept is, otherwise not yet. A failed
+ * project counts from the status it failed at.
+ */
+export function localizationMode(status: string, failedAtStatus?: string | null): LocalizationMode | null {
+  const effective = status === 'failed' ? failedAtStatus ?? 'created' : status;
+  if (statusIndex(effective) > statusIndex('script_review')) return 'translate';
+  if (statusIndex(effective) > statusIndex('concept_review')) return 'generate';
+  return null;
+}
+
+/**
+ * Create a regional version of `sourceId` for each locale and start its
+ * scripting. Locales that already have a version (or are the source's own) are
+ * skipped. Throws LocalizationError if the source cannot be localized.
+ */
+export async function createLocalizedVersions(
+  supabase: SupabaseClient,
+  sourceId: string,
+  locales: Locale[],
+): Promise<LocalizedVersionResult[]> {
+  const { data: source, error } = await supabase
+    .from('project')
+    .select(`name, status, failed_at_status, localized_from_id, variant_parent_id, ${INHERITED_COLUMNS.join(', ')}`)
+    .eq('id', sourceId)
+    .single();
+
+  if (error || !source) {
+    throw new LocalizationError(`Project not found: ${sourceId}`, 404);
+  }
+
+  const sourceRow = source as unknown as Row;
+  if (sourceRow.localized_from_id) {
+    throw new LocalizationError('This project is already a regional version — localize its source project instead', 400);
+  }
+  if (sourceRow.variant_parent_id) {
+    throw new LocalizationError('Hook variants cannot be localized — localize the parent project instead', 400);
+  }
+
+  const mode = localizationMode(sourceRow.status as string, sourceRow.failed_at_status as string | null);
+  if (!mode) {
+    throw new LocalizationError('Approve the concept before creating regional versions', 409);
+  }
+
+  let sourceScriptId: string | null = null;
+  if (mode === 'translate') {
+    const { data: script } = await supabase
+      .from('script')
+      .select('id')
+      .eq('project_id', sourceId)
+      .order('version', { ascending: false })
+      .limit(1)
+      .single();
+    if (!script) {
+      throw new LocalizationError(`Project ${sourceId} has no script to translate`, 409);
+    }
+    sourceScriptId = script.id;
+  }
+
+  const { data: existing } = await supabase
+    .from('project')
+    .select('locale')
+    .eq('localized_from_id', sourceId);
+  const taken = new Set<string>([getLocale(sourceRow.locale as string).id, ...(existing || []).map((row) => row.locale as string)]);
+
+  const baseName = (sourceRow.name as string | null) || (sourceRow.product_name as string | null) || 'Project';
+  const inherited = Object.fromEntries(INHERITED_COLUMNS.map((col) => [col, sourceRow[col] ?? null]));
+  const sourceTargets = sourceRow.syllable_targets as Record<string, { min: number; max: number }> | null;
+  const results: LocalizedVersionResult[] = [];
+
+  for (const locale of [...new Set(locales)]) {
+    if (taken.has(locale)) {
+      results.push({ locale, projectId: null, mode: null, started: false, reason: 'A version in this locale already exists' });
+      continue;
+    }
+
+    const { data: version, error: insertError } = await supabase
+      .from('project')
+      .insert({
+        ...inherited,
+        name: `${baseName} — ${locale}`,
+        status: 'concept_review',
+        locale,
+        syllable_targets: sourceTargets ? scaleSyllableTargets(sourceTargets, locale, sourceRow.locale as string) : null,
+        localized_from_id: sourceId,
+        source_script_id: sourceScriptId,
+        variant_count: 1,
+      })
+      .select('id')
+      .single();
+
+    if (insertError || !version) {
+      throw new Error(`Failed to create ${locale} version: ${insertError?.message}`);
+    }
+
+    const budget = await checkStageBudget(supabase, version.id, 'scripting');
+    if (!budget.allowed) {
+      results.push({ locale, projectId: version.id, mode, started: false, reason: budget.reason });
+      continue;
+    }
+
+    await transitionProject(supabase, version.id, 'scripting', { cancel_requested_at: null }, { from: 'concept_review' });
+    await getPipelineQueue().add('scripting', { projectId: version.id, step: 'scripting' });
+    results.push({ locale, projectId: version.id, mode, started: true, reason: null });
+  }
+
+  log.info(
+    { sourceId, mode, created: results.filter((r) => r.projectId).length, skipped: results.filter((r) => !r.projectId).length },
+    'Regional versions created'
+  );
+  return results;
+}
@@ -0,0 +1,195 @@
+// ─── Maintenance Sweeps ───────────────────────────────────────────────────────
+// Housekeeping the scheduler runs in the worker (src/lib/scheduler.ts):
+//   - stalled projects: a processing status with no job left in the queue to move
+//     it on (worker killed mid-stage, job removed by hand) is failed, so the
+//     project page and failures dashboard offer retry instead of a spinner forever
+//   - orphaned storage: voiceover takes and asset uploads that no asset row points
+//     at any more (regenerated, replaced, or the project deleted) are removed
+// The pure selection functions are exported for tests.
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Queue } from 'bullmq';
+import { ORPHANED_FILE_MIN_AGE_MS, STALLED_PROJECT_THRESHOLD_MS } from '@/lib/constants';
+import { recordStalledStage } from '@/lib/dead-letters';
+import { createLogger, logToGenerationLog } from '@/lib/logger';
+import { PROCESSING_STATUSES } from '@/lib/pipeline';
+import { failStage } from '@/lib/project-status';
+import type { PipelineJobData } from '@/lib/queue';
+import { STORAGE_BUCKET, extractStoragePath } from '@/lib/storage';
+
+const log = createLogger({ agentName: 'Maintenance' });
+
+/** Queue states in which a job will still run (parked jobs sit in `delayed`). */
+const LIVE_JOB_STATES = ['active', 'waiting', 'delayed', 'prioritized', 'waiting-children', 'paused'] as const;
+
+/** Storage listing page size (the API caps it at 1000). */
+const LIST_PAGE_SIZE = 1000;
+
+// ─── Stalled Projects ─────────────────────────────────────────────────────────
+
+export interface StalledCandidate {
+  id: string;
+  status: string;
+  updated_at: string;
+}
+
+/** Projects untouched for `thresholdMs` that no live job belongs to. */
+export function findStalledProjects(
+  projects: StalledCandidate[],
+  liveProjectIds: Set<string>,
+  now: Date,
+  thresholdMs: number,
+): StalledCandidate[] {
+  return projects.filter((project) =>
+    !liveProjectIds.has(project.id) &&
+    now.getTime() - new Date(project.updated_at).getTime() >= thresholdMs,
+  );
+}
+
+/**
+ * Fail every stalled project. The queue is read before the projects: anything
+ * enqueued after that moved its project first, which refreshes updated_at and
+ * keeps it under the threshold. Returns the project IDs failed.
+ */
+export async function sweepStalledProjects(
+  supabase: SupabaseClient,
+  queue: Queue<PipelineJobData>,
+  correlationId: string,
+): Promise<string[]> {
+  const jobs = await queue.getJobs([...LIVE_JOB_STATES]);
+  const liveProjectIds = new Set(
+    jobs.map((job) => job?.data?.projectId).filter((id): id is string => !!id),
+  );
+
+  const now = new Date();
+  const { data, error } = await supabase
+    .from('project')
+    .select('id, status, updated_at')
+    .in('status', PROCESSING_STATUSES)
+    .lt('updated_at', new Date(now.getTime() - STALLED_PROJECT_THRESHOLD_MS).toISOString());
+
+  if (error) throw new Error(`Failed to fetch processing projects: ${error.message}`);
+
+  const stalled = findStalledProjects((data ?? []) as StalledCandidate[], liveProjectIds, now, STALLED_PROJECT_THRESHOLD_MS);
+  const failed: string[] = [];
+
+  for (const project of stalled) {
+    const minutes = Math.round((now.getTime() - new Date(project.updated_at).getTime()) / 60_000);
+    const message = `Stalled in ${project.status}: no queued or running job for ${minutes} minutes`;
+
+    // Skipped if the project moved on since we read it
+    if (!(await failStage(supabase, project.id, project.status, message))) continue;
+
+    failed.push(project.id);
+    log.warn({ projectId: project.id, status: project.status, minutes }, 'Failed stalled project');
+    await recordStalledStage(supabase, project.id, project.status, message, correlationId);
+    await logToGenerationLog(supabase, {
+      project_id: project.id,
+      correlation_id: correlationId,
+      event_type: 'stage_stalled',
+      agent_name: 'Maintenance',
+      stage: project.status,
+      detail: { minutesSinceUpdate: minutes },
+    });
+  }
+
+  return failed;
+}
+
+// ─── Orphaned Storage ─────────────────────────────────────────────────────────
+
+export interface StoredFile {
+  path: string;
+  created_at: string;
+}
+
+/** Files older than `minAgeMs` whose path no asset row references. */
+export function findOrphanedFiles(
+  files: StoredFile[],
+  referencedPaths: Set<string>,
+  now: Date,
+  minAgeMs: number,
+): string[] {
+  return files
+    .filter((file) =>
+      !referencedPaths.has(file.path) &&
+      now.getTime() - new Date(file.created_at).getTime() >= minAgeMs,
+    )
+    .map((file) => file.path);
+}
+
+/** Entries directly under `prefix`; folders come back without an id. */
+async function listFolder(
+  supabase: SupabaseClient,
+  prefix: string,
+): Promise<Array<{ name: string; id: string | null; created_at: string }>> {
+  const entries: Array<{ name: string; id: string | null; created_at: string }> = [];
+  for (let offset = 0; ; offset += LIST_PAGE_SIZE) {
+    const { data, error } = await supabase.storage
+      .from(STORAGE_BUCKET)
+      .list(prefix, { limit: LIST_PAGE_SIZE, offset });
+    if (error) throw new Error(`Failed to list storage folder ${prefix}: ${error.message}`);
+    entries.push(...(data ?? []));
+    if (!data || data.length < LIST_PAGE_SIZE) return entries;
+  }
+}
+
+/**
+ * Asset files by folder: `projects/<id>/audio` (voiceover takes) and
+ * `assets/uploads/<id>` (replacement uploads).
+ */
+async function listAssetFolders(supabase: SupabaseClient): Promise<Map<string, StoredFile[]>> {
+  const byFolder = new Map<string, StoredFile[]>();
+  const roots: Array<[string, (projectId: string) => string]> = [
+    ['projects', (projectId) => `projects/${projectId}/audio`],
+    ['assets/uploads', (projectId) => `assets/uploads/${projectId}`],
+  ];
+
+  for (const [root, folderOf] of roots) {
+    for (const projectFolder of await listFolder(supabase, root)) {
+      if (projectFolder.id) continue;
+      const folder = folderOf(projectFolder.name);
+      const files = (await listFolder(supabase, folder))
+        .filter((entry) => entry.id)
+        .map((entry) => ({ path: `${folder}/${entry.name}`, created_at: entry.created_at }));
+      if (files.length) byFolder.set(folder, files);
+    }
+  }
+  return byFolder;
+}
+
+/**
+ * Remove asset files no asset row references. References are matched across all
+ * projects, since variant siblings share their parent's files. Returns the paths
+ * removed.
+ */
+export async function cleanOrphanedStorage(supabase: SupabaseClient): Promise<string[]> {
+  const now = new Date();
+  const removed: string[] = [];
+
+  for (const [folder, files] of await listAssetFolders(supabase)) {
+    const { data: assets, error } = await supabase
+      .from('asset')
+      .select('url')
+      .like('url', `%/${STORAGE_BUCKET}/${folder}/%`);
+    if (error) throw new Error(`Failed to fetch assets for ${folder}: ${error.message}`);
+
+    const referenced = new Set(
+      (assets ?? [])
+        .map((asset: { url: string }) => extractStoragePath(asset.url))
+        .filter((path): path is string => !!path),
+    );
+    const orphaned = findOrphanedFiles(files, referenced, now, ORPHANED_FILE_MIN_AGE_MS);
+    if (!orphaned.length) continue;
+
+    const { error: removeError } = await supabase.storage.from(STORAGE_BUCKET).remove(orphaned);
+    if (removeError) {
+      log.warn({ err: removeError, folder, count: orphaned.length }, 'Failed to remove orphaned files');
+      continue;
+    }
+    removed.push(...orphaned);
+  }
+
+  if (removed.length) log.info({ count: removed.length }, 'Removed orphaned storage files');
+  return removed;
+}
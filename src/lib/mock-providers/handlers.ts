@@ -0,0 +1,177 @@
+// ─── Mock API Handlers ────────────────────────────────────────────────────────
+// Stand-ins for each provider's HTTP API, answering with the same JSON shapes, so
+// the clients' own parsing, polling and retry code still runs in mock mode.
+// Injected failures surface the way the real API reports them: a 500 for
+// synchronous calls, a `failed` status on the next poll for async tasks.
+
+import { countTextSyllables } from '@/lib/syllables';
+import { mockChatCompletion, mockVideoAnalysis } from './llm';
+import { clampClipSeconds, mockAssetUrl, silentMp3 } from './media';
+import {
+  createMockTask,
+  readMockTask,
+  shouldFail,
+  simulateLatency,
+  type MockOperation,
+} from './index';
+
+/**
+ * Speaking rate of mock speech. The default syllable targets (70 per 10s segment)
+ * then land inside the voiceover fit window on the first take.
+ */
+const MOCK_SYLLABLES_PER_SECOND = 7.5;
+
+type Json = Record<string, unknown>;
+
+function injectedFailure(op: MockOperation): string {
+  return `Injected mock failure (${op})`;
+}
+
+function parseBody(options: RequestInit): Json {
+  return typeof options.body === 'string' ? JSON.parse(options.body) as Json : {};
+}
+
+function taskOutput(op: MockOperation, seed: string, duration?: number): string {
+  if (op === 'wavespeed.video') return mockAssetUrl('video', seed, clampClipSeconds(duration));
+  if (op === 'creatomate.render') return mockAssetUrl('video', seed, duration);
+  return mockAssetUrl('image', seed);
+}
+
+// ─── WaveSpeed ────────────────────────────────────────────────────────────────
+
+function waveSpeedOperation(endpoint: string): MockOperation {
+  if (endpoint.endsWith('/any-llm')) return 'wavespeed.llm';
+  if (endpoint.endsWith('/image-upscaler')) return 'wavespeed.upscale';
+  if (endpoint.includes('nano-banana')) return 'wavespeed.image';
+  return 'wavespeed.video';
+}
+
+/** Answer a WaveSpeedClient request (`path` may carry a query string). */
+export async function mockWaveSpeedRequest(path: string, options: RequestInit = {}): Promise<Json> {
+  await simulateLatency();
+  const endpoint = path.split('?')[0];
+
+  const result = /^\/api\/v3\/predictions\/([^/]+)\/result$/.exec(endpoint);
+  if (result) {
+    const taskId = result[1];
+    const task = readMockTask(taskId);
+    if (!task) throw new Error(`WaveSpeed API error (404): Unknown mock task ${taskId}`);
+    if (Date.now() < task.readyAt) return { data: { id: taskId, status: 'processing' } };
+    if (task.fail) return { data: { id: taskId, status: 'failed', error: injectedFailure(task.op) } };
+    return { data: { id: taskId, status: 'completed', outputs: [taskOutput(task.op, task.seed, task.duration)] } };
+  }
+
+  const op = waveSpeedOperation(endpoint);
+  const body = parseBody(options);
+
+  if (op === 'wavespeed.llm') {
+    if (shouldFail(op)) throw new Error(`WaveSpeed API error (500): ${injectedFailure(op)}`);
+    const output = mockChatCompletion(String(body.system_prompt ?? ''), String(body.prompt ?? ''));
+    if (output === null) throw new Error('WaveSpeed API error (400): No mock fixture matches this prompt');
+    return { data: { status: 'completed', outputs: [output] } };
+  }
+
+  const duration = op === 'wavespeed.video' ? Number(body.duration) || undefined : undefined;
+  const taskId = createMockTask(op, { endpoint, body }, duration);
+  return { data: { id: taskId, status: 'created' } };
+}
+
+// ─── ElevenLabs ───────────────────────────────────────────────────────────────
+
+/** Silent speech as long as `text` takes to say at the mock rate (scaled by `speed`). */
+export function mockSpeech(text: string, speed = 1): { audio: Buffer; durationMs: number } {
+  const seconds = Math.max(1, countTextSyllables(text)) / (MOCK_SYLLABLES_PER_SECOND * speed);
+  const durationMs = Math.round(seconds * 1000);
+  return { audio: silentMp3(durationMs), durationMs };
+}
+
+/** Characters spread evenly over the clip. */
+function mockAlignment(text: string, durationMs: number) {
+  const characters = [...text];
+  const step = durationMs / 1000 / Math.max(1, characters.length);
+  return {
+    characters,
+    character_start_times_seconds: characters.map((_, i) => +(i * step).toFixed(3)),
+    character_end_times_seconds: characters.map((_, i) => +((i + 1) * step).toFixed(3)),
+  };
+}
+
+/** Raw MP3 bytes for ElevenLabsClient.textToSpeech. */
+export async function mockElevenLabsAudio(text: string): Promise<Buffer> {
+  await simulateLatency();
+  if (shouldFail('elevenlabs.tts')) {
+    throw new Error(`ElevenLabs TTS error (500): ${injectedFailure('elevenlabs.tts')}`);
+  }
+  return mockSpeech(text).audio;
+}
+
+/** Answer an ElevenLabsClient JSON request: voice lookups and timestamped TTS. */
+export async function mockElevenLabsRequest(path: string, options: RequestInit = {}): Promise<Json> {
+  await simulateLatency();
+
+  const voice = /^\/v1\/voices\/([^/]+)$/.exec(path);
+  if (voice) {
+    if (shouldFail('elevenlabs.voice')) {
+      throw new Error(`ElevenLabs API error (500): ${injectedFailure('elevenlabs.voice')}`);
+    }
+    const voiceId = voice[1];
+    return {
+      voice_id: voiceId,
+      name: `Mock Voice ${voiceId.slice(0, 6)}`,
+      description: 'Offline mock voice',
+      preview_url: mockAssetUrl('audio', `voice-${voiceId}`),
+      labels: { accent: 'american', gender: 'female', use_case: 'social media' },
+    };
+  }
+
+  if (path.endsWith('/with-timestamps')) {
+    if (shouldFail('elevenlabs.tts')) {
+      throw new Error(`ElevenLabs API error (500): ${injectedFailure('elevenlabs.tts')}`);
+    }
+    const body = parseBody(options);
+    const text = String(body.text ?? '');
+    const settings = (body.voice_settings ?? {}) as { speed?: number };
+    const { audio, durationMs } = mockSpeech(text, settings.speed ?? 1);
+    return {
+      audio_base64: audio.toString('base64'),
+      alignment: mockAlignment(text, durationMs),
+    };
+  }
+
+  throw new Error(`ElevenLabs API error (404): No mock for ${path}`);
+}
+
+// ─── Creatomate ───────────────────────────────────────────────────────────────
+
+/** Answer a CreatomateClient request: render submission and status. */
+export async function mockCreatomateRequest(path: string, options: RequestInit = {}): Promise<Json | Json[]> {
+  await simulateLatency();
+
+  if (path === '/renders' && options.method === 'POST') {
+    const id = createMockTask('creatomate.render', parseBody(options));
+    return [{ id, status: 'planned' }];
+  }
+
+  const status = /^\/renders\/([^/]+)$/.exec(path);
+  if (status) {
+    const id = status[1];
+    const task = readMockTask(id);
+    if (!task) throw new Error(`Creatomate API error (404): Unknown mock render ${id}`);
+    if (Date.now() < task.readyAt) return { id, status: 'rendering' };
+    if (task.fail) return { id, status: 'failed', error_message: injectedFailure(task.op) };
+    return { id, status: 'succeeded', url: taskOutput(task.op, task.seed) };
+  }
+
+  throw new Error(`Creatomate API error (404): No mock for ${path}`);
+}
+
+// ─── Gemini ───────────────────────────────────────────────────────────────────
+
+/** Answer GeminiClient.analyzeVideo without uploading the file. */
+export async function mockGeminiAnalysis(systemPrompt: string): Promise<string> {
+  await simulateLatency();
+  if (shouldFail('gemini.video')) throw new Error(`Gemini generateContent failed: ${injectedFailure('gemini.video')}`);
+  const output = mockVideoAnalysis(systemPrompt);
+  if (output === null) throw new Error('Gemini generateContent failed: no mock fixture matches this prompt');
+  return output;
+}
@@ -0,0 +1,106 @@
+// ─── Mock Providers ───────────────────────────────────────────────────────────
+// MOCK_PROVIDERS=all (or a comma list: wavespeed, elevenlabs, creatomate, gemini)
+// makes those API clients answer from local fixtures instead of the network, so a
+// project can run end to end without keys or spend. Answers are deterministic for
+// a given input; MOCK_LATENCY_MS slows every call down and MOCK_FAILURES /
+// MOCK_FAILURE_RATE inject errors to exercise retry and failure paths.
+//
+// Task IDs carry their own state (operation, ready time, failure), so any process
+// — the worker, the Next app's lazy poll, a webhook sweep — can answer a poll.
+
+import crypto from 'crypto';
+
+export const MOCKABLE_PROVIDERS = ['wavespeed', 'elevenlabs', 'creatomate', 'gemini'] as const;
+export type MockableProvider = (typeof MOCKABLE_PROVIDERS)[number];
+
+/** Operation names accepted by MOCK_FAILURES. */
+export type MockOperation =
+  | 'wavespeed.llm'
+  | 'wavespeed.image'
+  | 'wavespeed.upscale'
+  | 'wavespeed.video'
+  | 'elevenlabs.tts'
+  | 'elevenlabs.voice'
+  | 'creatomate.render'
+  | 'gemini.video';
+
+const DEFAULT_LATENCY_MS = 250;
+const TASK_PREFIX = 'mock_';
+
+interface MockTask {
+  op: MockOperation;
+  /** Digest of the request, used to derive fixture URLs */
+  seed: string;
+  /** Epoch ms after which polls report the task finished */
+  readyAt: number;
+  fail: boolean;
+  /** Clip length for video outputs, in seconds */
+  duration?: number;
+}
+
+function listEnv(name: string): string[] {
+  return (process.env[name] || '')
+    .split(',')
+    .map((s) => s.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+export function mockEnabled(provider: MockableProvider): boolean {
+  const modes = listEnv('MOCK_PROVIDERS');
+  return modes.includes(provider) || modes.some((m) => m === 'all' || m === '1' || m === 'true');
+}
+
+export function anyMockEnabled(): boolean {
+  return MOCKABLE_PROVIDERS.some(mockEnabled);
+}
+
+export function mockLatencyMs(): number {
+  const value = parseInt(process.env.MOCK_LATENCY_MS || '', 10);
+  return value >= 0 ? value : DEFAULT_LATENCY_MS;
+}
+
+export function simulateLatency(): Promise<void> {
+  const ms = mockLatencyMs();
+  return ms > 0 ? new Promise((resolve) => setTimeout(resolve, ms)) : Promise.resolve();
+}
+
+/**
+ * Whether this call should fail: always for operations listed in MOCK_FAILURES
+ * (a provider name fails all of its operations), otherwise at MOCK_FAILURE_RATE.
+ */
+export function shouldFail(op: MockOperation): boolean {
+  const listed = listEnv('MOCK_FAILURES');
+  if (listed.includes(op) || listed.includes(op.split('.')[0])) return true;
+  const rate = parseFloat(process.env.MOCK_FAILURE_RATE || '');
+  return rate > 0 && Math.random() < rate;
+}
+
+/** Stable short digest of any JSON-serialisable request. */
+export function mockSeed(input: unknown): string {
+  return crypto.createHash('sha256').update(JSON.stringify(input)).digest('hex').slice(0, 16);
+}
+
+/** Start a simulated async task; it finishes MOCK_LATENCY_MS from now. */
+export function createMockTask(op: MockOperation, input: unknown, duration?: number): string {
+  const task: MockTask = {
+    op,
+    seed: mockSeed(input),
+    readyAt: Date.now() + mockLatencyMs(),
+    fail: shouldFail(op),
+    ...(duration !== undefined ? { duration } : {}),
+  };
+  return TASK_PREFIX + Buffer.from(JSON.stringify(task)).toString('base64url');
+}
+
+/** Decode a task ID from createMockTask, or null if it is not one. */
+export function readMockTask(taskId: string): MockTask | null {
+  if (!taskId.startsWith(TASK_PREFIX)) return null;
+  try {
+    const task = JSON.parse(Buffer.from(taskId.slice(TASK_PREFIX.length), 'base64url').toString());
+    return task && typeof task.op === 'string' && typeof task.readyAt === 'number' ? task as MockTask : null;
+  } catch {
+    return null;
+  }
+}
+
+export { mockAssetUrl, type MockAssetKind } from './media';
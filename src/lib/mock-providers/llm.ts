@@ -0,0 +1,532 @@
+// ─── Mock LLM Responses ───────────────────────────────────────────────────────
+// Canned JSON for every chatCompletion and video-analysis prompt in the app. The
+// prompt is recognised by its opening instructions and the answer is built to the
+// schema that caller parses, filled in from whatever the prompt says (product
+// name, syllable targets, shot counts), so downstream validation sees the same
+// shapes a real model returns.
+
+import { PRODUCT_CATEGORIES } from '@/lib/constants';
+import { countTextSyllables } from '@/lib/syllables';
+import { mockSeed } from './index';
+
+type Json = Record<string, unknown>;
+
+interface Product {
+  name: string;
+  category: string;
+}
+
+const SECTIONS = ['Hook', 'Problem', 'Solution + Product', 'CTA'] as const;
+type Section = (typeof SECTIONS)[number];
+
+const SECTION_TARGET_KEYS: Record<Section, string> = {
+  Hook: 'Hook',
+  Problem: 'Problem',
+  'Solution + Product': 'Solution \\+ Product',
+  CTA: 'CTA',
+};
+
+const SECTION_LINES: Record<Section, (p: string) => string[]> = {
+  Hook: (p) => [
+    'Stop scrolling, because nobody told me this for years.',
+    'I tried every trick on the internet and nothing stuck.',
+    `Then my friend showed me ${p} and I was honestly shocked.`,
+    'Give me thirty seconds and you will see exactly why.',
+    'This one change fixed a problem I had all year long.',
+  ],
+  Problem: (p) => [
+    'Every morning it was the same frustrating routine.',
+    'I spent so much money on things that promised results.',
+    'Nothing worked for more than a week, and I was done.',
+    `I almost skipped ${p} because I thought it was hype.`,
+    'If that sounds like you, keep watching for a second.',
+  ],
+  'Solution + Product': (p) => [
+    `This is ${p}, and it takes less than a minute a day.`,
+    'The formula is simple and it actually does what it says.',
+    'After two weeks the difference was obvious to everyone.',
+    'It fits right into my routine without any extra steps.',
+    'And the price is lower than the stuff I used to buy.',
+  ],
+  CTA: (p) => [
+    `Tap the orange cart below and grab ${p} today.`,
+    'It keeps selling out, so do not wait on this one.',
+    'Thank me later when you see the difference yourself.',
+    'Save this video so you can find it again tomorrow.',
+    'Trust me, future you is going to be so glad you did.',
+  ],
+};
+
+const SECTION_ENERGY: Record<Section, { start: string; middle: string; end: string }> = {
+  Hook: { start: 'HIGH', middle: 'HIGH', end: 'HIGH' },
+  Problem: { start: 'LOW', middle: 'PEAK', end: 'LOW' },
+  'Solution + Product': { start: 'LOW', middle: 'PEAK', end: 'LOW' },
+  CTA: { start: 'LOW', middle: 'PEAK', end: 'LOW' },
+};
+
+const SECTION_INTERACTION: Record<Section, string> = {
+  Hook: 'none',
+  Problem: 'set_down_point',
+  'Solution + Product': 'hold_and_show',
+  CTA: 'demonstrate',
+};
+
+const HOOK_ANGLES = ['bold claim', 'question', 'confession', 'pattern interrupt', 'specific number'];
+
+const HOOK_SCORE = {
+  curiosity_loop: 2,
+  challenges_belief: 1,
+  clear_context: 2,
+  plants_question: 2,
+  pattern_interrupt: 2,
+  emotional_trigger: 1,
+  specific_claim: 2,
+  total: 12,
+};
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function match(text: string, pattern: RegExp): string | undefined {
+  return pattern.exec(text)?.[1]?.trim();
+}
+
+function productFrom(prompt: string): Product {
+  const name = match(prompt, /(?:Known product name|PRODUCT|Product):\s*([^\n(]+)/) || 'Mock Glow Serum';
+  const category = match(prompt, /(?:Known category|CATEGORY|Category):\s*(\w+)/);
+  return {
+    name,
+    category: category && (PRODUCT_CATEGORIES as readonly string[]).includes(category) ? category : 'skincare',
+  };
+}
+
+function syllableTarget(systemPrompt: string, section: Section): { min: number; max: number } {
+  const found = new RegExp(`- ${SECTION_TARGET_KEYS[section]}: (\\d+)-(\\d+) syllables`).exec(systemPrompt);
+  return found ? { min: Number(found[1]), max: Number(found[2]) } : { min: 70, max: 70 };
+}
+
+/** Cycle through the section's lines (from `offset`) word by word until `min` syllables. */
+function fillLine(lines: string[], min: number, offset: number): string {
+  const words: string[] = [];
+  for (let i = 0; countTextSyllables(words.join(' ')) < min && i < lines.length * 20; i++) {
+    const line = lines[(i + offset) % lines.length];
+    for (const word of line.split(' ')) {
+      words.push(word);
+      if (countTextSyllables(words.join(' ')) >= min) break;
+    }
+  }
+  const text = words.join(' ');
+  return /[.!?]$/.test(text) ? text : `${text.replace(/[,;]$/, '')}.`;
+}
+
+function splitWords(text: string, parts: number): string[] {
+  const words = text.split(' ');
+  const size = Math.ceil(words.length / parts);
+  return Array.from({ length: parts }, (_, i) => words.slice(i * size, (i + 1) * size).join(' '));
+}
+
+function buildSegment(
+  section: Section,
+  index: number,
+  product: Product,
+  target: { min: number; max: number },
+  shots: number,
+  offset: number,
+): Json {
+  const text = fillLine(SECTION_LINES[section](product.name), target.min, offset);
+  const shotTexts = splitWords(text, shots);
+  const energy = SECTION_ENERGY[section];
+  const peaks: Json = {};
+  shotTexts.forEach((shot, i) => {
+    peaks[`shot_${i + 1}_peak`] = {
+      word: shot.split(' ').slice(-1)[0].replace(/[^\w]/g, '') || 'this',
+      time: `~${i * 5 + 3}s`,
+      action: i === 0 ? 'confident gesture' : 'emphasis gesture',
+    };
+  });
+
+  return {
+    id: index + 1,
+    section,
+    script_text: text,
+    syllable_count: countTextSyllables(text),
+    energy,
+    shot_scripts: shotTexts.map((shot, i) => ({
+      index: i,
+      text: shot,
+      energy: i === 0 ? energy.start : energy.end,
+    })),
+    audio_sync: peaks,
+    segment_score: { clarity: 2, relevance: 2, energy: 2, total: 6 },
+    broll_cues: [
+      {
+        shot_script_index: 0,
+        offset_seconds: 1.5,
+        duration_seconds: 2.5,
+        intent: `${section.toLowerCase()} support shot`,
+        spoken_text_during: shotTexts[0].split(' ').slice(0, 6).join(' '),
+      },
+    ],
+    props_needed: section === 'Hook' ? [] : [product.name],
+    interaction_type: SECTION_INTERACTION[section],
+    camera_specs: {
+      angle: section === 'Solution + Product' ? 'close-up' : 'medium',
+      movement: 'static',
+      lighting: 'natural_window',
+    },
+    text_overlay: shotTexts[0].split(' ').slice(0, 5).join(' ') + (section === 'CTA' ? ' #ad' : ''),
+    key_moment: `${section} peak on "${(peaks.shot_1_peak as Json).word}"`,
+  };
+}
+
+function structuredPrompt(
+  product: Product,
+  sequence: number,
+  negativePrompt: string,
+  shotSeconds = 5,
+): Json {
+  return {
+    subject: {
+      primary: 'friendly creator in their late twenties, casual and relaxed',
+      features: 'warm brown eyes, natural freckles',
+      wardrobe: 'soft oatmeal knit sweater',
+    },
+    product: {
+      emphasis: `++${product.name}++ with the label facing camera`,
+      position: 'held at chest height',
+      scale: 'palm-sized bottle',
+    },
+    action: {
+      sequence: Array.from({ length: sequence }, (_, i) => ({
+        time: `${i * shotSeconds}-${(i + 1) * shotSeconds}s`,
+        action: i === 0 ? 'leans toward camera and starts talking' : 'raises the product and nods',
+        energy: i === 0 ? 'LOW' : 'PEAK',
+      })),
+      energy_arc: 'LOW → PEAK → LOW',
+    },
+    camera_specs: { shot: 'medium', movement: 'static', framing: 'subject centered' },
+    environment: {
+      setting: 'bright apartment bathroom with a plant on the counter',
+      elements: ['white tiles', 'folded towel'],
+      product_visible: true,
+      product_position: 'held up',
+    },
+    lighting: { type: 'natural window light', quality: 'soft warm glow', avoid: 'studio lighting, softbox' },
+    style: { aesthetic: 'authentic product review', quality: '1080p', skin: 'natural texture' },
+    negative_prompt: negativePrompt,
+  };
+}
+
+// ─── Responses ────────────────────────────────────────────────────────────────
+
+function productAnalysis(userPrompt: string): Json {
+  const product = productFrom(userPrompt);
+  return {
+    product_name: product.name,
+    brand: 'Mockwell',
+    product_type: 'Hydrating Face Serum',
+    product_size: '1 fl oz - 60 day supply',
+    product_price: '$24.99 at TikTok Shop',
+    category: product.category,
+    selling_points: [
+      'Lightweight formula that absorbs in seconds',
+      'Fragrance-free and safe for sensitive skin',
+      'Two-month supply in a single bottle',
+    ],
+    key_claims: ['2% hyaluronic acid', '60 day supply', 'Dermatologist tested'],
+    usage: 'Apply two drops to clean skin morning and night.',
+    benefits: ['Smoother texture', 'Less redness', 'All-day hydration'],
+    hook_angle: 'Challenge the belief that glowing skin needs a ten-step routine',
+    product_image_url: '',
+    image_description_for_nano_banana_pro:
+      'Frosted glass dropper bottle with a white cap and a minimal sage green label',
+    avatar_description: 'Licensed esthetician in her thirties, clean white top, bright bathroom setting',
+  };
+}
+
+function concept(): Json {
+  return {
+    persona: {
+      demographics: 'Women 25-34, early career, living in a city apartment',
+      psychographics: 'Values simple routines and honest reviews over hype',
+      current_situation: 'Has tried several products and feels burned by empty promises',
+      desired_outcomes: 'Wants to feel confident on camera without makeup',
+    },
+    pain_points: {
+      functional: ['Dry patches by midday', 'Products pill under makeup', 'Routines take too long'],
+      emotional: ['Embarrassed in close-up photos', 'Tired of wasting money', 'Feels behind her friends'],
+    },
+    unique_mechanism: 'A single lightweight layer that binds water to skin instead of sitting on top',
+    transformation: {
+      before: 'Cakey, tight skin and a crowded shelf of half-used bottles',
+      after: 'Calm, dewy skin in under a minute and one bottle she trusts',
+    },
+    hook_angle: 'Nobody needs a ten-step routine to get glowing skin',
+  };
+}
+
+function regeneratedField(systemPrompt: string, userPrompt: string): unknown {
+  const field = match(userPrompt, /Regenerate ONLY the "(\w+)" field/) || 'value';
+  if (systemPrompt.includes('Return a JSON array of strings')) {
+    return [1, 2, 3].map((n) => `Regenerated ${field.replace(/_/g, ' ')} ${n}`);
+  }
+  return { value: `Regenerated ${field.replace(/_/g, ' ')}` };
+}
+
+function fullScript(systemPrompt: string, userPrompt: string): Json {
+  const product = productFrom(userPrompt);
+  const segments = SECTIONS.map((section, i) =>
+    buildSegment(section, i, product, syllableTarget(systemPrompt, section), 2, 0));
+  return {
+    segments,
+    hook_score: HOOK_SCORE,
+    total_syllables: segments.reduce((sum, s) => sum + (s.syllable_count as number), 0),
+  };
+}
+
+/** Uploaded scripts are split on sentence boundaries into four roughly equal parts. */
+function analyzedScript(systemPrompt: string, userPrompt: string): Json {
+  const product = productFrom(userPrompt);
+  const raw = match(userPrompt, /UPLOADED SCRIPT TEXT:\n([\s\S]*?)\n\n(?:PRODUCT CONTEXT|$)/) || '';
+  const sentences = raw.split(/(?<=[.!?])\s+/).filter(Boolean);
+  const perPart = Math.max(1, Math.ceil(sentences.length / SECTIONS.length));
+
+  const segments = SECTIONS.map((section, i) => {
+    const segment = buildSegment(section, i, product, syllableTarget(systemPrompt, section), 2, 0);
+    const text = sentences.slice(i * perPart, (i + 1) * perPart).join(' ');
+    if (!text) return segment;
+    const shots = splitWords(text, 2);
+    return {
+      ...segment,
+      script_text: text,
+      syllable_count: countTextSyllables(text),
+      shot_scripts: shots.map((shot, s) => ({ index: s, text: shot, energy: SECTION_ENERGY[section].middle })),
+    };
+  });
+
+  return {
+    segments,
+    hook_score: HOOK_SCORE,
+    total_syllables: segments.reduce((sum, s) => sum + (s.syllable_count as number), 0),
+  };
+}
+
+function regeneratedSegment(userPrompt: string): Json {
+  const product = productFrom(userPrompt);
+  const index = Number(match(userPrompt, /REGENERATE ONLY Segment (\d+)/) || 1) - 1;
+  const section = SECTIONS[index] ?? SECTIONS[0];
+  const targets = /Target: (\d+)-(\d+) syllables, (\d+) shot_scripts/.exec(userPrompt);
+  const target = targets ? { min: Number(targets[1]), max: Number(targets[2]) } : { min: 70, max: 70 };
+  const shots = targets ? Number(targets[3]) : 2;
+  // A different starting line than the original script, and a new one per feedback
+  const offset = 1 + (parseInt(mockSeed(userPrompt).slice(0, 4), 16) % 4);
+
+  const segment = buildSegment(section, index, product, target, shots, offset);
+  return index === 0 ? { ...segment, hook_score: HOOK_SCORE } : segment;
+}
+
+function hookVariants(userPrompt: string): Json {
+  const product = productFrom(userPrompt);
+  const count = Number(match(userPrompt, /WRITE (\d+) ALTERNATIVE/) || 1);
+  const targets = /Target: (\d+)-(\d+) syllables, (\d+) shot_scripts/.exec(userPrompt);
+  const target = targets ? { min: Number(targets[1]), max: Number(targets[2]) } : { min: 70, max: 70 };
+  const shots = targets ? Number(targets[3]) : 2;
+
+  return {
+    variants: Array.from({ length: count }, (_, i) => ({
+      hook_angle: HOOK_ANGLES[i % HOOK_ANGLES.length],
+      segment: buildSegment('Hook', 0, product, target, shots, i + 1),
+      hook_score: HOOK_SCORE,
+    })),
+  };
+}
+
+/** Drop words from the end until the line is at or under the target. */
+function tightenedLine(userPrompt: string): Json {
+  const line = match(userPrompt, /LINE \(\d+ syllables\):\n([\s\S]*?)\n\nTARGET:/) || '';
+  const target = Number(match(userPrompt, /TARGET: (\d+) syllables/) || 0);
+  const words = line.split(' ');
+  while (words.length > 1 && countTextSyllables(words.join(' ')) > target) words.pop();
+  return { script_text: `${words.join(' ').replace(/[,;.!?]$/, '')}.` };
+}
+
+/** Echo the source segments back, with the CTA overlay tagged for the target locale. */
+function localizedSegments(systemPrompt: string, userPrompt: string): Json {
+  const tag = match(systemPrompt, /must include "([^"]+)"/) || '#ad';
+  const source = match(userPrompt, /SOURCE SEGMENTS \(JSON\):\n([\s\S]*)$/);
+  const segments = source ? JSON.parse(source) as Json[] : [];
+  return {
+    segments: segments.map((seg) =>
+      seg.section === 'CTA' ? { ...seg, text_overlay: `${String(seg.text_overlay).replace(/\s*#ad\b/, '')} ${tag}` } : seg),
+  };
+}
+
+function keyframePrompts(systemPrompt: string, userPrompt: string): Json {
+  const product = productFrom(userPrompt);
+  const negative = match(systemPrompt, /Use the negative_prompt: "([^"]*)"/) || '';
+  const start = structuredPrompt(product, 1, negative);
+  const end = structuredPrompt(product, 1, negative);
+  (end.action as Json).sequence = [{ time: '0s', action: 'smiles and holds the product up', energy: 'PEAK' }];
+  return { start, end };
+}
+
+function videoPrompt(systemPrompt: string, userPrompt: string): Json {
+  const product = productFrom(userPrompt);
+  const negative = match(systemPrompt, /Use the negative_prompt: "([^"]*)"/) || '';
+  const shots = Number(match(userPrompt, /action\.sequence with (\d+) entries/) || 2);
+  const shotSeconds = Number(match(userPrompt, /shots x (\d+(?:\.\d+)?)s each/) || 5);
+  const prompt = structuredPrompt(product, shots, negative, shotSeconds);
+  const script = match(userPrompt, /Script: ([^\n]*)/);
+  return script ? { ...prompt, dialogue: { text: script, delivery: 'warm and conversational' } } : prompt;
+}
+
+/** Refinement keeps the current prompt and records the feedback on the style. */
+function refinedPrompt(userPrompt: string): Json {
+  const current = match(userPrompt, /Current StructuredPrompt:\n([\s\S]*?)\n\nScene context:/);
+  const feedback = match(userPrompt, /USER FEEDBACK: ([^\n]*)/) || '';
+  const prompt = current ? JSON.parse(current) as Json : structuredPrompt(productFrom(userPrompt), 2, '');
+  const style = (prompt.style as Json | undefined) ?? { aesthetic: 'authentic product review', quality: '1080p' };
+  return { ...prompt, style: { ...style, aesthetic: `${style.aesthetic}; ${feedback}` } };
+}
+
+function brollShots(userPrompt: string): Json[] {
+  const product = productFrom(userPrompt);
+  const categories = (match(userPrompt, /Categories: ([^\n]*)/) || 'lifestyle').split(',').map((c) => c.trim());
+  const counts = [...userPrompt.matchAll(/Segment (\d+): (\d+) shots/g)];
+
+  return counts.flatMap(([, segment, count]) =>
+    Array.from({ length: Number(count) }, (_, shot) => {
+      const category = categories[(Number(segment) + shot) % categories.length];
+      return {
+        segment_index: Number(segment),
+        shot_index: shot,
+        category,
+        prompt: `${category.replace(/_/g, ' ')} shot featuring ${product.name}, photorealistic, static camera, 9:16 vertical`,
+        structured_prompt: {
+          environment: { setting: 'sunlit kitchen counter', elements: ['marble surface'], product_visible: shot % 2 === 0 },
+          lighting: { type: 'natural', quality: 'soft warm glow' },
+          style: { aesthetic: 'authentic product review', quality: '1080p' },
+          product: { emphasis: product.name },
+        },
+        narrative_role: `${category.replace(/_/g, ' ')} to support segment ${segment}`,
+        timing_seconds: 1 + shot * 3,
+        duration_seconds: 2.5,
+      };
+    }));
+}
+
+/**
+ * Answer a chatCompletion prompt, or null if no fixture recognises it. Returned as
+ * raw JSON text, like the model would.
+ */
+export function mockChatCompletion(systemPrompt: string, userPrompt: string): string | null {
+  let response: unknown;
+  if (systemPrompt.includes('Script Architect')) {
+    if (userPrompt.includes('REGENERATE ONLY Segment')) response = regeneratedSegment(userPrompt);
+    else if (/WRITE \d+ ALTERNATIVE/.test(userPrompt)) response = hookVariants(userPrompt);
+    else response = fullScript(systemPrompt, userPrompt);
+  } else if (systemPrompt.includes('Script Localizer')) {
+    response = localizedSegments(systemPrompt, userPrompt);
+  } else if (systemPrompt.includes('Script Analyst')) {
+    response = analyzedScript(systemPrompt, userPrompt);
+  } else if (systemPrompt.includes('edit spoken voiceover lines')) {
+    response = tightenedLine(userPrompt);
+  } else if (systemPrompt.includes('B-roll planning')) {
+    response = brollShots(userPrompt);
+  } else if (systemPrompt.includes('Nano Banana Pro image')) {
+    response = keyframePrompts(systemPrompt, userPrompt);
+  } else if (systemPrompt.includes('Here is the current StructuredPrompt')) {
+    response = refinedPrompt(userPrompt);
+  } else if (systemPrompt.includes('video prompt engineer for Kling')) {
+    response = videoPrompt(systemPrompt, userPrompt);
+  } else if (userPrompt.includes('Regenerate ONLY the')) {
+    response = regeneratedField(systemPrompt, userPrompt);
+  } else if (systemPrompt.includes('expert product analyst')) {
+    response = productAnalysis(userPrompt);
+  } else if (systemPrompt.includes('marketing strategist')) {
+    response = concept();
+  } else if (systemPrompt.includes('compliance reviewer')) {
+    response = { issues: [] };
+  } else {
+    return null;
+  }
+  return JSON.stringify(response);
+}
+
+// ─── Video Analysis ───────────────────────────────────────────────────────────
+
+function sealSegment(index: number): Json {
+  return {
+    scene: {
+      setting: 'bright bathroom with a plant on the counter',
+      props: index === 0 ? ['phone'] : ['product bottle'],
+      composition: 'subject centered, product on the right third',
+      productPresence: index === 0 ? 'none' : 'held in hand close-up',
+    },
+    emotion: {
+      mood: index === 0 ? 'curious' : 'confident',
+      energy: index === 0 ? 'high' : 'medium',
+      pacing: 'medium with jump cuts',
+      viewerIntent: 'intrigued to keep watching',
+    },
+    angle: { shotType: 'medium shot waist-up', cameraMovement: 'static tripod', transitions: 'hard cut' },
+    lighting: { style: 'natural window light', colorTemp: 'warm', contrast: 'medium/balanced' },
+  };
+}
+
+function stylePresetAnalysis(): Json {
+  const lines = ['Wait, you are still doing this?', 'I used to hate my routine.', 'Then I found this serum.', 'Grab it before it sells out.'];
+  return {
+    transcript: {
+      full_text: lines.join(' '),
+      segments: SECTIONS.map((section, i) => ({
+        index: i, section, text: lines[i], start_time: i * 10, end_time: (i + 1) * 10,
+      })),
+    },
+    segment_scores: {
+      hook: HOOK_SCORE,
+      problem: { relatability: 2, pain_amplification: 1, credibility: 2, emotional_depth: 1, transition_setup: 2, total: 8 },
+      solution: { product_integration: 2, proof_evidence: 1, transformation_narrative: 2, differentiation: 1, authenticity: 2, total: 8 },
+      cta: { urgency: 1, value_stack: 2, social_proof: 1, clear_action: 2, scarcity_exclusivity: 1, total: 7 },
+    },
+    total_score: 35,
+    patterns: {
+      hook_technique: 'curiosity_gap',
+      energy_arc: Object.fromEntries(SECTIONS.map((s, i) => [`segment_${i}`, SECTION_ENERGY[s]])),
+      product_integration_style: 'subtle_to_hero',
+      cta_formula: 'urgency_scarcity',
+      pacing: 'steady_build',
+    },
+    visual_style: {
+      segments: SECTIONS.map((_, i) => sealSegment(i)),
+      overall: { dominantStyle: 'raw authentic bathroom selfie', energyArc: 'high-low-peak-medium', musicPresence: false, textOverlayStyle: 'subtitles throughout' },
+    },
+  };
+}
+
+function sealAnalysis(): Json {
+  return {
+    hook: { type: 'direct-address', technique: 'leans into camera mid-sentence', text: 'Wait, you are still doing this?', durationSeconds: 3 },
+    segments: SECTIONS.map((_, i) => ({
+      index: i,
+      startTime: i * 10,
+      endTime: (i + 1) * 10,
+      ...sealSegment(i),
+      description: 'A creator in a cream sweater talks to camera in a bright bathroom, holding a small glass bottle at chest height.',
+    })),
+    overall: {
+      energyArc: 'high-low-peak-medium: hook grabs attention, problem calms, solution peaks, CTA settles',
+      dominantStyle: 'raw authentic bathroom selfie',
+      musicPresence: false,
+      textOverlayStyle: 'subtitles throughout',
+      estimatedDuration: 40,
+      viralPattern: 'problem-agitation-solution',
+    },
+  };
+}
+
+/** Answer a Gemini video-analysis prompt, or null if no fixture recognises it. */
+export function mockVideoAnalysis(systemPrompt: string): string | null {
+  if (systemPrompt.includes('SEAL method')) return JSON.stringify(sealAnalysis());
+  if (systemPrompt.includes('UGC video analyst')) return JSON.stringify(stylePresetAnalysis());
+  return null;
+}
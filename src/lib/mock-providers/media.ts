@@ -0,0 +1,138 @@
+// ─── Mock Media ───────────────────────────────────────────────────────────────
+// Fixture files for mock mode: placeholder PNGs, silent MP3s of an exact length,
+// and test-pattern MP4s. Mock clients hand out /api/mock-assets URLs, and that
+// route serves these, so downstream downloads (the FFmpeg renderer, the asset
+// download proxy) work as they would against a provider CDN.
+
+import { mkdir, readFile, rename, stat } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import zlib from 'zlib';
+import { runFfmpeg } from '@/lib/ffmpeg';
+
+export type MockAssetKind = 'image' | 'video' | 'audio';
+
+export const MOCK_ASSET_EXTENSIONS: Record<MockAssetKind, string> = {
+  image: 'png',
+  video: 'mp4',
+  audio: 'mp3',
+};
+
+/** Clip length when a fixture URL does not say. */
+export const DEFAULT_MOCK_CLIP_SECONDS = 10;
+const MAX_MOCK_CLIP_SECONDS = 120;
+const TEST_PATTERN_TIMEOUT_MS = 120_000;
+
+/** URL the mock-assets route serves `kind` at; `name` only keeps URLs distinct. */
+export function mockAssetUrl(kind: MockAssetKind, name: string, durationSeconds?: number): string {
+  const base = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+  const url = new URL(`/api/mock-assets/${kind}/${name}.${MOCK_ASSET_EXTENSIONS[kind]}`, base);
+  if (durationSeconds !== undefined) url.searchParams.set('duration', String(durationSeconds));
+  return url.toString();
+}
+
+export function clampClipSeconds(value: number | undefined): number {
+  if (!value || !Number.isFinite(value) || value <= 0) return DEFAULT_MOCK_CLIP_SECONDS;
+  return Math.min(MAX_MOCK_CLIP_SECONDS, value);
+}
+
+// ─── PNG ──────────────────────────────────────────────────────────────────────
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(buf: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of buf) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, 'latin1'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+}
+
+/**
+ * A 9:16 placeholder: a flat colour picked from `name` with a darker band across
+ * the middle, so different fixtures are visibly different in the UI.
+ */
+export function placeholderPng(name: string, width = 270, height = 480): Buffer {
+  let hash = 0;
+  for (const ch of name) hash = (hash * 31 + ch.charCodeAt(0)) >>> 0;
+  const color = [64 + (hash & 0x7f), 64 + ((hash >> 8) & 0x7f), 64 + ((hash >> 16) & 0x7f)];
+  const band = color.map((c) => c >> 1);
+
+  const rowLength = 1 + width * 3;
+  const raw = Buffer.alloc(rowLength * height);
+  for (let y = 0; y < height; y++) {
+    const rgb = y > height * 0.4 && y < height * 0.6 ? band : color;
+    raw[y * rowLength] = 0; // filter: none
+    for (let x = 0; x < width; x++) {
+      raw.set(rgb, y * rowLength + 1 + x * 3);
+    }
+  }
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; // bit depth
+  header[9] = 2; // colour type: RGB
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', zlib.deflateSync(raw)),
+    pngChunk('IEND', Buffer.alloc(0)),
+  ]);
+}
+
+// ─── MP3 ──────────────────────────────────────────────────────────────────────
+
+// MPEG-1 Layer III, 48 kHz, 32 kbps, mono: 96-byte frames of 1152 samples (24 ms),
+// no padding. All-zero side info is a valid frame that decodes to digital silence.
+const MP3_FRAME_HEADER = [0xff, 0xfb, 0x14, 0xc4];
+const MP3_FRAME_BYTES = 96;
+const MP3_FRAME_MS = 24;
+
+/** Silent MP3 at least `durationMs` long (rounded up to a whole 24 ms frame). */
+export function silentMp3(durationMs: number): Buffer {
+  const frames = Math.max(1, Math.ceil(durationMs / MP3_FRAME_MS));
+  const frame = Buffer.alloc(MP3_FRAME_BYTES);
+  frame.set(MP3_FRAME_HEADER);
+  return Buffer.concat(Array.from({ length: frames }, () => frame));
+}
+
+// ─── MP4 ──────────────────────────────────────────────────────────────────────
+
+/**
+ * ffmpeg's testsrc2 pattern with a silent stereo track, cached per length in the
+ * temp dir (the content does not depend on the fixture name).
+ */
+export async function testPatternMp4(durationSeconds: number): Promise<Buffer> {
+  const seconds = Math.round(clampClipSeconds(durationSeconds) * 10) / 10;
+  const dir = join(tmpdir(), 'mock-assets');
+  const file = join(dir, `test-pattern-${seconds}s.mp4`);
+
+  const cached = await stat(file).then(() => true, () => false);
+  if (!cached) {
+    await mkdir(dir, { recursive: true });
+    const partial = `${file}.${process.pid}.${Date.now()}.part.mp4`;
+    await runFfmpeg([
+      '-y',
+      '-f', 'lavfi', '-i', `testsrc2=size=540x960:rate=30:duration=${seconds}`,
+      '-f', 'lavfi', '-i', 'anullsrc=channel_layout=stereo:sample_rate=48000',
+      '-t', String(seconds),
+      '-c:v', 'libx264', '-preset', 'ultrafast', '-pix_fmt', 'yuv420p',
+      '-c:a', 'aac', '-shortest',
+      partial,
+    ], TEST_PATTERN_TIMEOUT_MS);
+    await rename(partial, file);
+  }
+  return readFile(file);
+}
@@ -0,0 +1,95 @@
+// ─── Background Music ─────────────────────────────────────────────────────────
+// Music library lookups and per-project music selection. The chosen track becomes
+// the timeline's music track, mixed under the voiceover with ducking.
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  DEFAULT_TONE,
+  MUSIC_MODES,
+  SCRIPT_TONES,
+  TONE_MUSIC_PROFILES,
+  type MusicMode,
+  type ScriptTone,
+} from '@/lib/constants';
+
+export interface MusicTrackRow {
+  id: string;
+  name: string;
+  artist: string | null;
+  url: string;
+  mood: string;
+  bpm: number | null;
+  duration_seconds: number | string | null;
+  license: string;
+  attribution: string | null;
+}
+
+export const MUSIC_TRACK_COLUMNS = 'id, name, artist, url, mood, bpm, duration_seconds, license, attribution';
+
+export function isMusicMode(value: unknown): value is MusicMode {
+  return typeof value === 'string' && (MUSIC_MODES as readonly string[]).includes(value);
+}
+
+/**
+ * Rank tracks for a tone: the profile's first mood beats its second, and within a
+ * mood the track whose BPM is closest to the profile's band wins. Tracks in other
+ * moods are only used when nothing matches. Ties keep library order.
+ */
+export function pickMusicForTone(tracks: MusicTrackRow[], tone: string | null | undefined): MusicTrackRow | null {
+  if (tracks.length === 0) return null;
+  const resolvedTone: ScriptTone = tone && tone in SCRIPT_TONES ? (tone as ScriptTone) : DEFAULT_TONE;
+  const profile = TONE_MUSIC_PROFILES[resolvedTone];
+  const [minBpm, maxBpm] = profile.bpm;
+
+  const score = (track: MusicTrackRow): number => {
+    const moodRank = profile.moods.indexOf(track.mood as (typeof profile.moods)[number]);
+    const moodScore = moodRank === -1 ? 0 : (profile.moods.length - moodRank) * 1000;
+    if (!track.bpm) return moodScore;
+    const bpmDistance = track.bpm < minBpm ? minBpm - track.bpm : track.bpm > maxBpm ? track.bpm - maxBpm : 0;
+    return moodScore - bpmDistance;
+  };
+
+  return tracks.reduce((best, track) => (score(track) > score(best) ? track : best));
+}
+
+/**
+ * Resolve the music bed for a project. 'off' → none; 'manual' → the chosen track
+ * (none if it was removed); 'auto' → the remembered pick if still active, otherwise
+ * a fresh pick for the project's tone, saved so later renders keep the same track.
+ */
+export async function resolveProjectMusic(
+  supabase: SupabaseClient,
+  project: { id: string; tone: string | null; music_mode: string | null; music_track_id: string | null },
+): Promise<MusicTrackRow | null> {
+  const mode: MusicMode = isMusicMode(project.music_mode) ? project.music_mode : 'auto';
+  if (mode === 'off') return null;
+
+  if (project.music_track_id) {
+    const { data: chosen } = await supabase
+      .from('music_track')
+      .select(MUSIC_TRACK_COLUMNS)
+      .eq('id', project.music_track_id)
+      .eq('is_active', true)
+      .maybeSingle();
+    if (chosen || mode === 'manual') return (chosen as MusicTrackRow | null) ?? null;
+  } else if (mode === 'manual') {
+    return null;
+  }
+
+  const { data: tracks, error } = await supabase
+    .from('music_track')
+    .select(MUSIC_TRACK_COLUMNS)
+    .eq('is_active', true)
+    .order('created_at');
+
+  if (error) throw new Error(`Failed to fetch music library: ${error.message}`);
+
+  const picked = pickMusicForTone((tracks ?? []) as MusicTrackRow[], project.tone);
+  if (picked) {
+    await supabase
+      .from('project')
+      .update({ music_track_id: picked.id })
+      .eq('id', project.id);
+  }
+  return picked;
+}
@@ -0,0 +1,333 @@
+// ─── Pipeline Definition ──────────────────────────────────────────────────────
+// The one description of the project lifecycle: which stages run (and as which
+// BullMQ step), which review gates sit between them, what approving or skipping
+// a gate does, where a failed or cancelled stage goes back to, and which status
+// changes are legal. The worker, the approve/retry/rollback/cancel routes and
+// auto-advance all read it. Pure data and functions — no Supabase or Redis — so
+// it can be imported client-side and tested on its own; project-status.ts applies
+// transitions to the database.
+
+import { PROJECT_STATUSES, type ProjectStatus } from '@/lib/constants';
+import { InvalidTransitionError } from '@/lib/errors';
+import type { PipelineJobData } from '@/lib/queue';
+
+export type PipelineStep = PipelineJobData['step'];
+
+export type StageId =
+  | 'analyzing'
+  | 'scripting'
+  | 'broll_planning'
+  | 'casting'
+  | 'directing'
+  | 'voiceover'
+  | 'broll_generation'
+  | 'editing'
+  | 'variant_generation';
+
+export interface StageDefinition {
+  /** BullMQ step that runs the stage */
+  step: PipelineStep;
+  /** Project status while the stage runs, in order */
+  statuses: ProjectStatus[];
+  /** Statuses the stage may start from (a retry from failed is always allowed) */
+  from: ProjectStatus[];
+  /** Status set when the stage succeeds */
+  next?: ProjectStatus;
+  /** Stage enqueued when this one succeeds, with no review gate in between */
+  then?: StageId;
+  /** Status a retry of the failed stage starts from (default: its first status) */
+  retryFrom?: ProjectStatus;
+  /** Review gate a failed stage rolls back to */
+  rollbackTo?: ProjectStatus;
+  /** Review gate a cancelled stage returns to */
+  cancelTo?: ProjectStatus;
+  /** Review gate a restart of this stage starts from */
+  restartFrom?: ProjectStatus;
+}
+
+export interface GateDefinition {
+  /** What approving the gate does: move to another gate, or start a stage */
+  approve: { status: ProjectStatus } | { stage: StageId } | null;
+  /** Stage enqueued when fast mode or auto-approve skips the gate */
+  autoAdvance: StageId;
+  /** Fast mode skips this gate too; otherwise only auto_approve does */
+  fastMode: boolean;
+  /** Other statuses reachable from the gate by a user action */
+  alsoTo?: ProjectStatus[];
+}
+
+// Statuses select-influencer accepts: re-selecting influencer / scene / interaction
+// and re-casting is allowed from influencer selection or any downstream stage
+export const RECAST_STATUSES: ProjectStatus[] = [
+  'influencer_selection',
+  'casting_review',
+  'directing',
+  'voiceover',
+  'broll_generation',
+  'asset_review',
+  'editing',
+  'completed',
+  'failed',
+];
+
+export const STAGES: Record<StageId, StageDefinition> = {
+  analyzing: {
+    step: 'product_analysis',
+    statuses: ['analyzing'],
+    from: ['created'],
+    next: 'analysis_review',
+    rollbackTo: 'created',
+    cancelTo: 'created',
+    restartFrom: 'created',
+  },
+  scripting: {
+    step: 'scripting',
+    statuses: ['scripting'],
+    // analysis_review: fast mode skips concept review; script_review: regenerate
+    from: ['analysis_review', 'concept_review', 'script_review'],
+    next: 'script_review',
+    rollbackTo: 'analysis_review',
+    cancelTo: 'analysis_review',
+    restartFrom: 'concept_review',
+  },
+  broll_planning: {
+    step: 'broll_planning',
+    statuses: ['broll_planning'],
+    from: ['script_review'],
+    next: 'broll_review',
+    rollbackTo: 'script_review',
+    cancelTo: 'script_review',
+    restartFrom: 'script_review',
+  },
+  casting: {
+    step: 'casting',
+    statuses: ['casting'],
+    // broll_review: restart from the gate; the rest: re-cast via select-influencer
+    from: ['broll_review', ...RECAST_STATUSES.filter((status) => status !== 'failed')],
+    next: 'casting_review',
+    rollbackTo: 'influencer_selection',
+    cancelTo: 'influencer_selection',
+    restartFrom: 'broll_review',
+  },
+  directing: {
+    step: 'directing',
+    statuses: ['directing'],
+    from: ['casting_review'],
+    then: 'voiceover',
+    rollbackTo: 'casting_review',
+    cancelTo: 'casting_review',
+    restartFrom: 'casting_review',
+  },
+  voiceover: {
+    step: 'voiceover',
+    statuses: ['voiceover'],
+    from: ['directing', 'casting_review'],
+    then: 'broll_generation',
+    rollbackTo: 'casting_review',
+    cancelTo: 'casting_review',
+    restartFrom: 'casting_review',
+  },
+  broll_generation: {
+    step: 'broll_generation',
+    statuses: ['broll_generation'],
+    from: ['voiceover', 'asset_review'],
+    next: 'asset_review',
+    rollbackTo: 'broll_review',
+    cancelTo: 'casting_review',
+    restartFrom: 'asset_review',
+  },
+  editing: {
+    step: 'editing',
+    statuses: ['editing'],
+    from: ['asset_review'],
+    next: 'completed',
+    rollbackTo: 'asset_review',
+    cancelTo: 'asset_review',
+    restartFrom: 'asset_review',
+  },
+  // A/B hook variant siblings wait in 'created', then cast, direct and voice
+  // only their hook. A cancel sends them back to wait, not to the parent's gates.
+  variant_generation: {
+    step: 'variant_generation',
+    statuses: ['casting', 'directing', 'voiceover'],
+    from: ['created'],
+    next: 'asset_review',
+    retryFrom: 'created',
+    cancelTo: 'created',
+  },
+};
+
+export const REVIEW_GATES: Partial<Record<ProjectStatus, GateDefinition>> = {
+  analysis_review: { approve: { status: 'concept_review' }, autoAdvance: 'scripting', fastMode: true, alsoTo: ['script_review'] },
+  concept_review: { approve: { stage: 'scripting' }, autoAdvance: 'scripting', fastMode: true, alsoTo: ['script_review'] },
+  script_review: { approve: { stage: 'broll_planning' }, autoAdvance: 'broll_planning', fastMode: true },
+  broll_review: { approve: { status: 'influencer_selection' }, autoAdvance: 'casting', fastMode: false },
+  // Approved by picking an influencer (select-influencer), which starts casting
+  influencer_selection: { approve: null, autoAdvance: 'casting', fastMode: false },
+  casting_review: { approve: { stage: 'directing' }, autoAdvance: 'directing', fastMode: true },
+  asset_review: { approve: { stage: 'editing' }, autoAdvance: 'editing', fastMode: false },
+};
+
+// Statuses where the user can edit project settings (tone, character, influencer)
+export const REVIEW_GATE_STATUSES = Object.keys(REVIEW_GATES) as ProjectStatus[];
+
+/** Restart names accepted by POST /api/projects/[id]/retry { stage } */
+const RESTART_ALIASES: Record<string, StageId> = { analysis: 'analyzing' };
+
+// Map of stage to the review gate it should restart from
+export const RESTART_STAGE_MAP: Record<string, { targetStatus: ProjectStatus; queueStep: PipelineStep }> =
+  Object.fromEntries(
+    Object.entries(STAGES)
+      .filter(([, stage]) => stage.restartFrom)
+      .map(([id, stage]) => [
+        Object.keys(RESTART_ALIASES).find((alias) => RESTART_ALIASES[alias] === id) ?? id,
+        { targetStatus: stage.restartFrom!, queueStep: stage.step },
+      ])
+  );
+
+function addTransition(map: Map<ProjectStatus, Set<ProjectStatus>>, from: ProjectStatus, to: ProjectStatus) {
+  if (!map.has(from)) map.set(from, new Set());
+  map.get(from)!.add(to);
+}
+
+function buildTransitions(): Record<ProjectStatus, ProjectStatus[]> {
+  const map = new Map<ProjectStatus, Set<ProjectStatus>>();
+
+  for (const stage of Object.values(STAGES)) {
+    const [first] = stage.statuses;
+    const last = stage.statuses[stage.statuses.length - 1];
+    for (const from of stage.from) addTransition(map, from, first);
+    stage.statuses.forEach((status, i) => {
+      if (i > 0) addTransition(map, stage.statuses[i - 1], status);
+      addTransition(map, status, 'failed');
+      if (stage.cancelTo) addTransition(map, status, stage.cancelTo);
+    });
+    if (stage.next) addTransition(map, last, stage.next);
+    if (stage.then) addTransition(map, last, STAGES[stage.then].statuses[0]);
+    // BullMQ re-runs a failed job as-is; the retry route restarts it from retryFrom
+    addTransition(map, 'failed', first);
+    if (stage.retryFrom) addTransition(map, 'failed', stage.retryFrom);
+    if (stage.rollbackTo) addTransition(map, 'failed', stage.rollbackTo);
+    // A restart may be requested from any review gate, or after a failure
+    if (stage.restartFrom) {
+      for (const gate of [...REVIEW_GATE_STATUSES, 'failed' as const]) addTransition(map, gate, stage.restartFrom);
+    }
+  }
+
+  for (const [status, gate] of Object.entries(REVIEW_GATES) as [ProjectStatus, GateDefinition][]) {
+    if (gate.approve) {
+      addTransition(map, status, 'status' in gate.approve ? gate.approve.status : STAGES[gate.approve.stage].statuses[0]);
+    }
+    addTransition(map, status, STAGES[gate.autoAdvance].statuses[0]);
+    for (const to of gate.alsoTo ?? []) addTransition(map, status, to);
+  }
+
+  // A hook variant sibling can fail before it starts
+  addTransition(map, 'created', 'failed');
+
+  return Object.fromEntries(
+    PROJECT_STATUSES.map((status) => [status, Array.from(map.get(status) ?? [])])
+  ) as Record<ProjectStatus, ProjectStatus[]>;
+}
+
+// Valid status transitions — any transition not in this map is invalid
+export const VALID_STATUS_TRANSITIONS = buildTransitions();
+
+export function isProjectStatus(status: string): status is ProjectStatus {
+  return (PROJECT_STATUSES as readonly string[]).includes(status);
+}
+
+export function isReviewGate(status: string): boolean {
+  return REVIEW_GATE_STATUSES.includes(status as ProjectStatus);
+}
+
+/** Statuses in which a stage is running. */
+export const PROCESSING_STATUSES: ProjectStatus[] = Object.values(STAGES).flatMap((stage) => stage.statuses);
+
+/** Whether a stage is running in this status. */
+export function isProcessingStatus(status: string): boolean {
+  return PROCESSING_STATUSES.includes(status as ProjectStatus);
+}
+
+/** Staying in the same status is always allowed (e.g. a retried job re-entering its stage). */
+export function canTransition(from: string, to: string): boolean {
+  if (from === to) return true;
+  if (!isProjectStatus(from) || !isProjectStatus(to)) return false;
+  return VALID_STATUS_TRANSITIONS[from].includes(to);
+}
+
+/** Throw InvalidTransitionError unless `from → to` is allowed. */
+export function assertTransition(from: string, to: string): void {
+  if (!canTransition(from, to)) throw new InvalidTransitionError(from, to);
+}
+
+export function getStage(id: StageId): StageDefinition {
+  return STAGES[id];
+}
+
+/** The stage a BullMQ step runs, if it is a pipeline stage. */
+export function stageForStep(step: string): StageId | null {
+  const entry = Object.entries(STAGES).find(([, stage]) => stage.step === step);
+  return entry ? (entry[0] as StageId) : null;
+}
+
+/** Resolve a failed_at_status (a stage status or a stage id) to its stage. */
+export function stageForFailure(failedAt: string): StageId | null {
+  if (failedAt in STAGES) return failedAt as StageId;
+  const entry = Object.entries(STAGES).find(([, stage]) => stage.statuses.includes(failedAt as ProjectStatus));
+  return entry ? (entry[0] as StageId) : null;
+}
+
+/** Status a failed stage retries from, and the step that re-runs it. */
+export function retryTarget(failedAt: string): { status: ProjectStatus; step: PipelineStep } | null {
+  const id = stageForFailure(failedAt);
+  if (!id) return null;
+  const stage = STAGES[id];
+  return { status: stage.retryFrom ?? stage.statuses[0], step: stage.step };
+}
+
+/** Review gate a failed stage rolls back to. */
+export function rollbackTarget(failedAt: string): ProjectStatus | null {
+  const id = stageForFailure(failedAt);
+  return id ? STAGES[id].rollbackTo ?? null : null;
+}
+
+/**
+ * The stage a project is running. A hook variant sibling's casting, directing and
+ * voiceover statuses belong to variant_generation; anyone else's to the stage of
+ * that name.
+ */
+export function runningStage(project: { status: string; variant_parent_id?: string | null }): StageId | null {
+  const status = project.status as ProjectStatus;
+  if (!isProcessingStatus(status)) return null;
+  if (project.variant_parent_id && STAGES.variant_generation.statuses.includes(status)) return 'variant_generation';
+  const entry = Object.entries(STAGES).find(([id, stage]) => id !== 'variant_generation' && stage.statuses.includes(status));
+  return entry ? (entry[0] as StageId) : null;
+}
+
+/** Status a running stage returns to when cancelled (the review gate before it). */
+export function cancelTarget(project: { status: string; variant_parent_id?: string | null }): ProjectStatus | null {
+  const stage = runningStage(project);
+  return stage ? STAGES[stage].cancelTo ?? null : null;
+}
+
+/** Gate a restart of `stage` starts from, and the step to enqueue. */
+export function restartTarget(stage: string): { targetStatus: ProjectStatus; queueStep: PipelineStep } | null {
+  return RESTART_STAGE_MAP[stage] ?? null;
+}
+
+/** What approving a review gate does, or null if the status is not an approvable gate. */
+export function approvalFor(status: string): { status: ProjectStatus } | { stage: StageId; step: PipelineStep; status: ProjectStatus } | null {
+  const gate = REVIEW_GATES[status as ProjectStatus];
+  if (!gate?.approve) return null;
+  if ('status' in gate.approve) return gate.approve;
+  const stage = STAGES[gate.approve.stage];
+  return { stage: gate.approve.stage, step: stage.step, status: stage.statuses[0] };
+}
+
+/** The stage fast mode / auto-approve starts when skipping a gate. */
+export function autoAdvanceFor(status: string): { stage: StageId; step: PipelineStep; fastMode: boolean } | null {
+  const gate = REVIEW_GATES[status as ProjectStatus];
+  if (!gate) return null;
+  return { stage: gate.autoAdvance, step: STAGES[gate.autoAdvance].step, fastMode: gate.fastMode };
+}
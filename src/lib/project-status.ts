@@ -0,0 +1,93 @@
+// ─── Project Status Writes ────────────────────────────────────────────────────
+// Applies pipeline.ts transitions to the project row. Every status change goes
+// through transitionProject, which checks the move against the pipeline
+// definition and only writes if nobody changed the status in the meantime.
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { ProjectStatus } from '@/lib/constants';
+import { InvalidTransitionError } from '@/lib/errors';
+import { assertTransition, canTransition } from '@/lib/pipeline';
+
+export interface TransitionOptions {
+  /** Only move if the project is currently in one of these statuses */
+  from?: ProjectStatus | ProjectStatus[];
+}
+
+async function currentStatus(supabase: SupabaseClient, projectId: string): Promise<string> {
+  const { data: project } = await supabase
+    .from('project')
+    .select('status')
+    .eq('id', projectId)
+    .single();
+
+  if (!project) {
+    throw new Error(`Project not found: ${projectId}`);
+  }
+  return project.status as string;
+}
+
+/**
+ * Move a project to `to`, writing `fields` alongside. Throws InvalidTransitionError
+ * if the pipeline does not allow the move from the current status, if the current
+ * status is not in `options.from`, or if the status changed before the write
+ * landed. Returns the status the project moved from.
+ */
+export async function transitionProject(
+  supabase: SupabaseClient,
+  projectId: string,
+  to: ProjectStatus,
+  fields: Record<string, unknown> = {},
+  options: TransitionOptions = {},
+): Promise<string> {
+  const from = await currentStatus(supabase, projectId);
+
+  const expected = options.from === undefined ? null : ([] as ProjectStatus[]).concat(options.from);
+  if (expected && !expected.includes(from as ProjectStatus)) {
+    throw new InvalidTransitionError(from, to, `Expected project to be in ${expected.join(' or ')} to move to ${to}, but it is ${from}`);
+  }
+  assertTransition(from, to);
+
+  const { data: updated, error } = await supabase
+    .from('project')
+    .update({ ...fields, status: to, updated_at: new Date().toISOString() })
+    .eq('id', projectId)
+    .eq('status', from)
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to update project status: ${error.message}`);
+  }
+  if (!updated || updated.length === 0) {
+    throw new InvalidTransitionError(from, to, `Project status changed from ${from} before it could move to ${to}`);
+  }
+  return from;
+}
+
+/**
+ * Mark a stage failed. Skipped (returns false) when the project has already left
+ * the stage — e.g. it was cancelled back to a review gate — so a late failure
+ * never overwrites the user's rollback.
+ */
+export async function failStage(
+  supabase: SupabaseClient,
+  projectId: string,
+  failedAt: string,
+  errorMessage: string,
+): Promise<boolean> {
+  const from = await currentStatus(supabase, projectId).catch(() => null);
+  if (!from || !canTransition(from, 'failed')) return false;
+
+  const { data: updated } = await supabase
+    .from('project')
+    .update({
+      status: 'failed',
+      failed_at_status: failedAt,
+      error_message: errorMessage,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', projectId)
+    .eq('status', from)
+    .select('id');
+
+  return !!updated && updated.length > 0;
+}
@@ -0,0 +1,272 @@
+// ─── Project Creation ─────────────────────────────────────────────────────────
+// Shared by POST /api/projects and the headless generate CLI: links or creates the
+// product, resolves defaults, inserts the project and enqueues product analysis.
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { z } from 'zod';
+import { getPipelineQueue } from '@/lib/queue';
+import { countTextSyllables, scaleSyllableTargets } from '@/lib/syllables';
+import { ProjectCreationError } from '@/lib/errors';
+import { DEFAULT_LOCALE, LOCALE_IDS, PIPELINE_CONFIG, TONE_IDS } from '@/lib/constants';
+import { logger } from '@/lib/logger';
+
+const DEFAULT_SYLLABLE_TARGETS = {
+  hook: { min: 70, max: 70 },
+  problem: { min: 70, max: 70 },
+  solution_product: { min: 70, max: 70 },
+  cta: { min: 70, max: 70 },
+};
+
+/** Request body for POST /api/projects — also validates each batch manifest row. */
+export const createProjectSchema = z.object({
+  productId: z.string().uuid().optional(),
+  productUrl: z.string().url('Must be a valid URL').optional(),
+  videoUrl: z.string().url().optional(),
+  influencerId: z.string().uuid().optional(),
+  characterId: z.string().uuid().optional(),
+  videoModelId: z.string().uuid().optional(),
+  stylePresetId: z.string().uuid().optional(),
+  name: z.string().optional(),
+  tone: z.enum(TONE_IDS as [string, ...string[]]).optional().default('reluctant-insider'),
+  locale: z.enum(LOCALE_IDS as [string, ...string[]]).optional(),
+  variantCount: z.coerce.number().int().min(1).max(PIPELINE_CONFIG.maxHookVariants).optional(),
+  budgetUsd: z.coerce.number().positive().optional(),
+}).refine(
+  (data) => data.productId || data.productUrl,
+  { message: 'Either productId or productUrl is required' }
+);
+
+export interface CreateProjectInput {
+  productId?: string;
+  productUrl?: string;
+  videoUrl?: string;
+  influencerId?: string;
+  characterId?: string;
+  videoModelId?: string;
+  stylePresetId?: string;
+  name?: string;
+  tone: string;
+  /** Script and voiceover locale (defaults to en-US) */
+  locale?: string;
+  /** Skip every review gate (headless runs) */
+  autoApprove?: boolean;
+  /** Batch the project was created in */
+  batchId?: string;
+  /** Number of A/B hook variants to render (1 = no variants) */
+  variantCount?: number;
+  /** Spend cap in USD — stages that would exceed it are refused */
+  budgetUsd?: number;
+}
+
+/**
+ * Derive syllable targets from a style preset's transcript.
+ * Uses ±15% of the actual syllable count per segment as the target range.
+ */
+function deriveSyllableTargetsFromPreset(
+  transcript: { segments: Array<{ section: string; text: string }> } | null
+): typeof DEFAULT_SYLLABLE_TARGETS {
+  if (!transcript?.segments || transcript.segments.length < 4) {
+    return DEFAULT_SYLLABLE_TARGETS;
+  }
+
+  const targets = { ...DEFAULT_SYLLABLE_TARGETS };
+
+  for (const seg of transcript.segments) {
+    const count = countTextSyllables(seg.text);
+    const min = Math.round(count * 0.85);
+    const max = Math.round(count * 1.15);
+    const section = seg.section.toLowerCase();
+
+    if (section === 'hook') {
+      targets.hook = { min, max };
+    } else if (section === 'problem') {
+      targets.problem = { min, max };
+    } else if (section.includes('solution')) {
+      targets.solution_product = { min, max };
+    } else if (section === 'cta') {
+      targets.cta = { min, max };
+    }
+  }
+
+  return targets;
+}
+
+/**
+ * Create a project for an existing product (productId) or a product URL. A product
+ * that is already analyzed puts the project straight at analysis_review; otherwise
+ * product analysis is enqueued. Throws ProjectCreationError.
+ */
+export async function createProject(
+  supabase: SupabaseClient,
+  input: CreateProjectInput,
+): Promise<Record<string, unknown> & { id: string; status: string }> {
+  const { productId, productUrl, videoUrl, influencerId, characterId, videoModelId, stylePresetId, name, tone } = input;
+
+  if (!productId && !productUrl) {
+    throw new ProjectCreationError('Either productId or productUrl is required', 400);
+  }
+
+  // Resolve video model: use provided ID, or fall back to the default model
+  let resolvedVideoModelId = videoModelId || null;
+  if (!resolvedVideoModelId) {
+    const { data: defaultModel } = await supabase
+      .from('video_model')
+      .select('id')
+      .eq('is_default', true)
+      .eq('status', 'active')
+      .limit(1)
+      .single();
+    resolvedVideoModelId = defaultModel?.id || null;
+  }
+
+  // Resolve syllable targets from style preset if selected
+  let syllableTargets = DEFAULT_SYLLABLE_TARGETS;
+  if (stylePresetId) {
+    const { data: preset } = await supabase
+      .from('style_preset')
+      .select('transcript')
+      .eq('id', stylePresetId)
+      .single();
+    if (preset?.transcript) {
+      syllableTargets = deriveSyllableTargetsFromPreset(
+        preset.transcript as { segments: Array<{ section: string; text: string }> }
+      );
+    }
+  }
+
+  // Targets are authored for English pacing; stored in the project's language
+  const locale = input.locale ?? DEFAULT_LOCALE;
+  syllableTargets = scaleSyllableTargets(syllableTargets, locale);
+
+  const projectFields = {
+    video_url: videoUrl || null,
+    influencer_id: influencerId || null,
+    character_id: characterId || null,
+    video_model_id: resolvedVideoModelId,
+    style_preset_id: stylePresetId || null,
+    syllable_targets: syllableTargets,
+    name: name || null,
+    tone,
+    locale,
+    input_mode: videoUrl ? 'video_analysis' : 'product_only',
+    auto_approve: input.autoApprove ?? false,
+    batch_id: input.batchId ?? null,
+    variant_count: input.variantCount ?? 1,
+    budget_usd: input.budgetUsd ?? null,
+  };
+
+  // Path A: existing product by ID
+  if (productId) {
+    const { data: prod, error: prodError } = await supabase
+      .from('product')
+      .select('*')
+      .eq('id', productId)
+      .single();
+
+    if (prodError || !prod) {
+      throw new ProjectCreationError('Product not found', 404);
+    }
+
+    const { data: newProject, error } = await supabase
+      .from('project')
+      .insert({
+        ...projectFields,
+        product_id: productId,
+        product_url: prod.url,
+        product_name: prod.name || null,
+        product_category: prod.category || null,
+        product_image_url: prod.image_url || null,
+        product_data: prod.analysis_data || null,
+        status: prod.status === 'analyzed' ? 'analysis_review' : 'created',
+      })
+      .select()
+      .single();
+
+    if (error) {
+      logger.error({ err: error }, 'Error creating project');
+      throw new ProjectCreationError('Failed to create project', 500);
+    }
+
+    // If product is not yet analyzed, enqueue analysis
+    if (prod.status !== 'analyzed') {
+      await getPipelineQueue().add('product_analysis', {
+        projectId: newProject.id,
+        productId: productId,
+        step: 'product_analysis',
+      });
+    }
+
+    return newProject;
+  }
+
+  // Path B: new product URL
+  // Check if product with this URL already exists
+  let linkedProductId: string | null = null;
+  let skipAnalysis = false;
+  let productData: Record<string, unknown> | null = null;
+
+  const { data: existingProduct } = await supabase
+    .from('product')
+    .select('*')
+    .eq('url', productUrl!)
+    .single();
+
+  if (existingProduct) {
+    linkedProductId = existingProduct.id;
+    if (existingProduct.status === 'analyzed') {
+      skipAnalysis = true;
+      productData = existingProduct;
+    }
+  } else {
+    // Create new product record
+    const { data: newProduct, error: prodCreateError } = await supabase
+      .from('product')
+      .insert({ url: productUrl!, status: 'created' })
+      .select()
+      .single();
+
+    if (prodCreateError || !newProduct) {
+      logger.error({ err: prodCreateError }, 'Error creating product');
+      throw new ProjectCreationError('Failed to create product', 500);
+    }
+
+    linkedProductId = newProduct.id;
+  }
+
+  const { data: newProject, error } = await supabase
+    .from('project')
+    .insert({
+      ...projectFields,
+      product_id: linkedProductId,
+      product_url: productUrl!,
+      product_name: productData?.name as string || null,
+      product_category: productData?.category as string || null,
+      product_image_url: productData?.image_url as string || null,
+      product_data: productData?.analysis_data || null,
+      status: skipAnalysis ? 'analysis_review' : 'created',
+    })
+    .select()
+    .single();
+
+  if (error) {
+    logger.error({ err: error }, 'Error creating project');
+    throw new ProjectCreationError('Failed to create project', 500);
+  }
+
+  // Enqueue analysis if needed
+  if (!skipAnalysis) {
+    await getPipelineQueue().add('product_analysis', {
+      projectId: newProject.id,
+      productId: linkedProductId!,
+      step: 'product_analysis',
+    });
+
+    // Update product status
+    await supabase
+      .from('product')
+      .update({ status: 'analyzing' })
+      .eq('id', linkedProductId!);
+  }
+
+  return newProject;
+}
@@ -1,4 +1,5 @@
-import { Queue } from 'bullmq';
+import { FlowProducer, Queue, type FlowJob, type JobsOptions } from 'bullmq';
+import type { ScheduledStep } from '@/lib/constants';
 
 export type PipelineJobData = {
   projectId?: string;
@@ -10,17 +11,27 @@ export type PipelineJobData = {
     | 'broll_planning'
     | 'broll_generation'
     | 'casting'
+    | 'casting_segment'
+    | 'casting_complete'
     | 'directing'
+    | 'directing_segment'
+    | 'directing_complete'
     | 'voiceover'
     | 'editing'
     | 'regenerate_asset'
     | 'regenerate_asset_cascade'
     | 'keyframe_edit'
-    | 'analyze_style_preset';
+    | 'analyze_style_preset'
+    | 'variant_generation'
+    | ScheduledStep;
   assetId?: string;
   editPrompt?: string;
   propagate?: boolean;
   cascade?: boolean;
+  /** Segment a casting_segment / directing_segment job generates */
+  segmentIndex?: number;
+  /** Provider task the job was last parked on (src/lib/webhooks.ts) */
+  awaitingTaskId?: string;
 };
 
 function parseRedisUrl(url: string) {
@@ -38,6 +49,17 @@ function parseRedisUrl(url: string) {
 }
 
 let _pipelineQueue: Queue<PipelineJobData> | null = null;
+let _flowProducer: FlowProducer | null = null;
+
+const PIPELINE_JOB_OPTIONS: JobsOptions = {
+  attempts: 3,
+  backoff: {
+    type: 'exponential',
+    delay: 5000,
+  },
+  removeOnComplete: { count: 100 },
+  removeOnFail: { count: 50 },
+};
 
 export function getRedisConnectionOptions() {
   const redisUrl = process.env.REDIS_CONNECTION_URL || 'redis://localhost:6379';
@@ -48,16 +70,59 @@ export function getPipelineQueue(): Queue<PipelineJobData> {
   if (!_pipelineQueue) {
     _pipelineQueue = new Queue<PipelineJobData>('pipeline', {
       connection: getRedisConnectionOptions(),
-      defaultJobOptions: {
-        attempts: 3,
-        backoff: {
-          type: 'exponential',
-          delay: 5000,
-        },
-        removeOnComplete: { count: 100 },
-        removeOnFail: { count: 50 },
-      },
+      defaultJobOptions: PIPELINE_JOB_OPTIONS,
     });
   }
   return _pipelineQueue;
 }
+
+export function getFlowProducer(): FlowProducer {
+  if (!_flowProducer) {
+    _flowProducer = new FlowProducer({ connection: getRedisConnectionOptions() });
+  }
+  return _flowProducer;
+}
+
+/**
+ * A BullMQ flow that runs one `segmentStep` job per segment, then `completeStep`
+ * once every segment job has finished. Segments run in parallel, or — with
+ * `chained` — one after another (each waits for the previous segment, since
+ * nested children run deepest-first). A segment job that fails for good does not
+ * hold up the rest; the completion job decides whether enough segments succeeded.
+ * Job IDs derive from `flowId` (the stage job's ID), so a retried stage job adds
+ * the same flow again instead of a second one.
+ */
+export function buildSegmentFlow(
+  projectId: string,
+  segmentStep: 'casting_segment' | 'directing_segment',
+  completeStep: 'casting_complete' | 'directing_complete',
+  segments: number[],
+  chained: boolean,
+  flowId: string,
+): FlowJob {
+  const segmentJob = (segmentIndex: number, children?: FlowJob[]): FlowJob => ({
+    name: segmentStep,
+    queueName: 'pipeline',
+    data: { projectId, step: segmentStep, segmentIndex } satisfies PipelineJobData,
+    opts: { ...PIPELINE_JOB_OPTIONS, jobId: `${flowId}-${segmentStep}-${segmentIndex}`, ignoreDependencyOnFailure: true },
+    children,
+  });
+
+  let children: FlowJob[];
+  if (chained) {
+    children = [];
+    for (const segmentIndex of segments) {
+      children = [segmentJob(segmentIndex, children.length > 0 ? children : undefined)];
+    }
+  } else {
+    children = segments.map((segmentIndex) => segmentJob(segmentIndex));
+  }
+
+  return {
+    name: completeStep,
+    queueName: 'pipeline',
+    data: { projectId, step: completeStep } satisfies PipelineJobData,
+    opts: { ...PIPELINE_JOB_OPTIONS, jobId: `${flowId}-${completeStep}` },
+    children,
+  };
+}
@@ -0,0 +1,196 @@
+// ─── Provider Rate Limiter ────────────────────────────────────────────────────
+// A counting semaphore per provider, kept in Redis so every worker process shares
+// the same limits. Each slot is a lease (sorted-set member scored by its expiry)
+// renewed while held, so a crashed worker's slots free themselves once the lease
+// runs out. A job that parks on a provider webhook hands its slot to the task it
+// submitted (member `task:<id>`); the slot is released when the task settles, or
+// taken back by the job when it wakes to check on the task.
+
+import IORedis from 'ioredis';
+import crypto from 'crypto';
+import { PROVIDER_CONCURRENCY, type RateLimitedProvider } from '@/lib/constants';
+import { CancellationError, TaskPendingError } from '@/lib/errors';
+import { createLogger } from '@/lib/logger';
+import { getRedisConnectionOptions } from '@/lib/queue';
+
+const log = createLogger({ agentName: 'RateLimiter' });
+
+/** Lease length; renewed every LEASE_MS / 3 while the slot is held. */
+const LEASE_MS = 60_000;
+const RETRY_INTERVAL_MS = 2_000;
+/**
+ * Lease on a parked task's slot. Longer than any task may stay parked (video
+ * clips time out after 15 minutes); it only frees the slot if the task is never
+ * settled.
+ */
+const PARKED_LEASE_MS = 60 * 60_000;
+
+// Drop expired leases, then take a slot if one is free
+const ACQUIRE_SCRIPT = `
+redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', ARGV[1])
+if redis.call('ZCARD', KEYS[1]) < tonumber(ARGV[4]) then
+  redis.call('ZADD', KEYS[1], ARGV[2], ARGV[3])
+  return 1
+end
+return 0
+`;
+
+// Move a held slot from the job's token to its parked task
+const PARK_SCRIPT = `
+redis.call('ZREM', KEYS[1], ARGV[1])
+redis.call('ZADD', KEYS[1], ARGV[3], ARGV[2])
+redis.call('SET', KEYS[2], ARGV[4], 'PX', ARGV[5])
+`;
+
+// Take a parked task's slot back for the woken job, if the task still holds one
+const ADOPT_SCRIPT = `
+if redis.call('ZREM', KEYS[1], ARGV[2]) == 1 then
+  redis.call('ZADD', KEYS[1], ARGV[3], ARGV[1])
+  redis.call('DEL', KEYS[2])
+  return 1
+end
+return 0
+`;
+
+let _redis: IORedis | null = null;
+
+function getRedis(): IORedis {
+  if (!_redis) {
+    _redis = new IORedis(getRedisConnectionOptions());
+  }
+  return _redis;
+}
+
+function slotKey(provider: string): string {
+  return `ratelimit:${provider}`;
+}
+
+/** Slot member held by a parked task */
+function taskMember(taskId: string): string {
+  return `task:${taskId}`;
+}
+
+/** Which provider's slot a parked task holds */
+function taskKey(taskId: string): string {
+  return `ratelimit:task:${taskId}`;
+}
+
+/**
+ * Slots for a provider: PROVIDER_CONCURRENCY_<NAME> if set, else the default.
+ * 0 turns the limiter off for that provider (local runs without Redis).
+ */
+export function providerLimit(provider: RateLimitedProvider): number {
+  const override = parseInt(process.env[`PROVIDER_CONCURRENCY_${provider.toUpperCase()}`] || '', 10);
+  return override >= 0 ? override : PROVIDER_CONCURRENCY[provider];
+}
+
+async function tryAcquire(provider: RateLimitedProvider, token: string): Promise<boolean> {
+  const now = Date.now();
+  const acquired = await getRedis().eval(
+    ACQUIRE_SCRIPT,
+    1,
+    slotKey(provider),
+    now,
+    now + LEASE_MS,
+    token,
+    providerLimit(provider),
+  );
+  return acquired === 1;
+}
+
+function parkSlot(provider: RateLimitedProvider, token: string, taskId: string): Promise<unknown> {
+  return getRedis().eval(
+    PARK_SCRIPT,
+    2,
+    slotKey(provider),
+    taskKey(taskId),
+    token,
+    taskMember(taskId),
+    Date.now() + PARKED_LEASE_MS,
+    provider,
+    PARKED_LEASE_MS,
+  );
+}
+
+async function adoptParkedSlot(provider: RateLimitedProvider, taskId: string, token: string): Promise<boolean> {
+  const adopted = await getRedis().eval(
+    ADOPT_SCRIPT,
+    2,
+    slotKey(provider),
+    taskKey(taskId),
+    token,
+    taskMember(taskId),
+    Date.now() + LEASE_MS,
+  );
+  return adopted === 1;
+}
+
+/**
+ * Free the slot a parked task holds, once the task has finished one way or the
+ * other. A no-op if the task holds none (never parked, or its job took it back).
+ */
+export async function releaseTaskSlot(taskId: string): Promise<void> {
+  try {
+    const redis = getRedis();
+    const provider = await redis.get(taskKey(taskId));
+    if (!provider) return;
+    await redis.multi().zrem(slotKey(provider), taskMember(taskId)).del(taskKey(taskId)).exec();
+  } catch (err) {
+    log.warn({ err, taskId }, 'Failed to release parked task slot');
+  }
+}
+
+/**
+ * Run `fn` while holding one of the provider's slots, waiting for a free slot
+ * first. Throws CancellationError if `shouldCancel` turns true while waiting.
+ * If `fn` parks on a task (TaskPendingError), the slot stays taken by that task
+ * rather than being released; a job woken from parking passes the task as
+ * `parkedTaskId` to take its slot back instead of waiting for another. A null
+ * provider (e.g. the mock video provider) runs `fn` straight away.
+ */
+export async function withProviderSlot<T>(
+  provider: RateLimitedProvider | null,
+  fn: () => Promise<T>,
+  options: { shouldCancel?: () => Promise<boolean>; parkedTaskId?: string | null } = {},
+): Promise<T> {
+  if (!provider || providerLimit(provider) === 0) return fn();
+
+  const token = crypto.randomUUID();
+  const waitStart = Date.now();
+  let warned = false;
+
+  const adopted = !!options.parkedTaskId && await adoptParkedSlot(provider, options.parkedTaskId, token);
+  while (!adopted && !(await tryAcquire(provider, token))) {
+    if (options.shouldCancel && await options.shouldCancel()) {
+      throw new CancellationError(`Cancelled while waiting for a ${provider} slot`);
+    }
+    if (!warned) {
+      log.info({ provider, limit: providerLimit(provider) }, 'Provider at capacity, waiting for a slot');
+      warned = true;
+    }
+    await new Promise((resolve) => setTimeout(resolve, RETRY_INTERVAL_MS + Math.random() * 500));
+  }
+
+  if (warned) {
+    log.info({ provider, waitedMs: Date.now() - waitStart }, 'Provider slot acquired');
+  }
+
+  const renew = setInterval(() => {
+    getRedis()
+      .zadd(slotKey(provider), 'XX', Date.now() + LEASE_MS, token)
+      .catch((err) => log.warn({ err, provider }, 'Failed to renew provider slot lease'));
+  }, LEASE_MS / 3);
+
+  let parkedOn: string | null = null;
+  try {
+    return await fn();
+  } catch (error) {
+    // The task keeps running upstream while the job is parked
+    if (error instanceof TaskPendingError) parkedOn = error.taskId;
+    throw error;
+  } finally {
+    clearInterval(renew);
+    await (parkedOn ? parkSlot(provider, token, parkedOn) : getRedis().zrem(slotKey(provider), token))
+      .catch((err) => log.warn({ err, provider }, 'Failed to release provider slot'));
+  }
+}
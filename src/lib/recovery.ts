@@ -0,0 +1,170 @@
+// ─── Failed Project Recovery ──────────────────────────────────────────────────
+// Retry and rollback of a failed project, shared by the project retry/rollback
+// routes and the failures dashboard's bulk actions. Either one closes the
+// project's open dead letters.
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { ProjectStatus } from '@/lib/constants';
+import { InvalidTransitionError } from '@/lib/errors';
+import { resolveDeadLetters } from '@/lib/dead-letters';
+import { retryTarget, rollbackTarget, type PipelineStep } from '@/lib/pipeline';
+import { transitionProject } from '@/lib/project-status';
+import { getPipelineQueue, type PipelineJobData } from '@/lib/queue';
+
+/**
+ * Re-enter the failed stage and enqueue it, writing `fields` alongside (e.g.
+ * budget_override). Returns null if `failedAt` is not a known stage; throws
+ * InvalidTransitionError if the project is no longer failed.
+ */
+export async function retryFailedProject(
+  supabase: SupabaseClient,
+  projectId: string,
+  failedAt: string,
+  fields: Record<string, unknown> = {},
+): Promise<{ status: ProjectStatus; step: PipelineStep } | null> {
+  const retry = retryTarget(failedAt);
+  if (!retry) return null;
+
+  await transitionProject(supabase, projectId, retry.status, {
+    failed_at_status: null,
+    error_message: null,
+    cancel_requested_at: null,
+    ...fields,
+  }, { from: 'failed' });
+
+  await getPipelineQueue().add(retry.step, {
+    projectId,
+    step: retry.step,
+  });
+
+  await resolveDeadLetters(supabase, projectId, 'retried');
+  return retry;
+}
+
+/**
+ * Return a failed project to the review gate before the failed stage. Returns
+ * null if `failedAt` is not a known stage; throws InvalidTransitionError if the
+ * project is no longer failed.
+ */
+export async function rollbackFailedProject(
+  supabase: SupabaseClient,
+  projectId: string,
+  failedAt: string,
+): Promise<ProjectStatus | null> {
+  const rollbackTo = rollbackTarget(failedAt);
+  if (!rollbackTo) return null;
+
+  await transitionProject(supabase, projectId, rollbackTo, {
+    failed_at_status: null,
+    error_message: null,
+  }, { from: 'failed' });
+
+  await resolveDeadLetters(supabase, projectId, 'rolled_back');
+  return rollbackTo;
+}
+
+export type DeadLetterAction = 'retry' | 'rollback' | 'dismiss';
+
+export interface DeadLetterActionResult {
+  id: string;
+  ok: boolean;
+  /** Why the action was skipped */
+  error?: string;
+}
+
+interface OpenDeadLetter {
+  id: string;
+  project_id: string | null;
+  step: string;
+  job_data: PipelineJobData;
+}
+
+async function closeRows(supabase: SupabaseClient, ids: string[], status: 'retried' | 'dismissed'): Promise<void> {
+  await supabase
+    .from('dead_letter')
+    .update({ status, resolved_at: new Date().toISOString() })
+    .in('id', ids);
+}
+
+/** Retry, roll back or dismiss one project's dead letters; they share the outcome. */
+async function actOnProject(
+  supabase: SupabaseClient,
+  projectId: string,
+  action: Exclude<DeadLetterAction, 'dismiss'>,
+  overrideBudget: boolean,
+): Promise<string | null> {
+  const { data: project } = await supabase
+    .from('project')
+    .select('status, failed_at_status')
+    .eq('id', projectId)
+    .single();
+
+  if (!project) return 'Project no longer exists';
+  if (project.status !== 'failed' || !project.failed_at_status) {
+    return `Project is ${project.status}, not failed`;
+  }
+
+  try {
+    const done = action === 'retry'
+      ? await retryFailedProject(supabase, projectId, project.failed_at_status, overrideBudget ? { budget_override: true } : {})
+      : await rollbackFailedProject(supabase, projectId, project.failed_at_status);
+    return done ? null : `Unknown failed stage: ${project.failed_at_status}`;
+  } catch (err) {
+    if (err instanceof InvalidTransitionError) return err.message;
+    throw err;
+  }
+}
+
+/**
+ * Apply a bulk action from the failures dashboard to open dead letters. Project
+ * jobs act on the project (once, however many of its jobs are selected);
+ * product and style preset jobs are retried by re-enqueueing their payload.
+ */
+export async function runDeadLetterAction(
+  supabase: SupabaseClient,
+  ids: string[],
+  action: DeadLetterAction,
+  options: { overrideBudget?: boolean } = {},
+): Promise<DeadLetterActionResult[]> {
+  const { data, error } = await supabase
+    .from('dead_letter')
+    .select('id, project_id, step, job_data')
+    .in('id', ids)
+    .eq('status', 'open');
+
+  if (error) throw new Error(`Failed to load dead letters: ${error.message}`);
+  const rows = (data ?? []) as OpenDeadLetter[];
+
+  const results: DeadLetterActionResult[] = ids
+    .filter((id) => !rows.some((row) => row.id === id))
+    .map((id) => ({ id, ok: false, error: 'Not found or already resolved' }));
+
+  if (action === 'dismiss') {
+    if (rows.length) await closeRows(supabase, rows.map((row) => row.id), 'dismissed');
+    return [...results, ...rows.map((row) => ({ id: row.id, ok: true }))];
+  }
+
+  const byProject = new Map<string, OpenDeadLetter[]>();
+  for (const row of rows) {
+    if (!row.project_id) {
+      if (action === 'rollback') {
+        results.push({ id: row.id, ok: false, error: 'Only project jobs can be rolled back' });
+        continue;
+      }
+      await getPipelineQueue().add(row.job_data.step, row.job_data);
+      await closeRows(supabase, [row.id], 'retried');
+      results.push({ id: row.id, ok: true });
+      continue;
+    }
+    byProject.set(row.project_id, [...(byProject.get(row.project_id) ?? []), row]);
+  }
+
+  for (const [projectId, projectRows] of byProject) {
+    const skipped = await actOnProject(supabase, projectId, action, options.overrideBudget === true);
+    for (const row of projectRows) {
+      results.push(skipped ? { id: row.id, ok: false, error: skipped } : { id: row.id, ok: true });
+    }
+  }
+
+  return results;
+}
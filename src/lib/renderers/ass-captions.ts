@@ -0,0 +1,80 @@
+import { CAPTION_STYLE_PRESETS, type CaptionStyleId } from '@/lib/constants';
+import { clipsOfType, type Timeline } from '@/lib/timeline';
+
+/** '#RRGGBB' → ASS '&HAABBGGRR' (alpha 00 = opaque). */
+function assColor(hex: string, alpha = '00'): string {
+  const rgb = hex.replace('#', '');
+  return `&H${alpha}${rgb.slice(4, 6)}${rgb.slice(2, 4)}${rgb.slice(0, 2)}`.toUpperCase();
+}
+
+/** Seconds → ASS timestamp H:MM:SS.cc */
+function assTime(seconds: number): string {
+  const cs = Math.max(0, Math.round(seconds * 100));
+  const h = Math.floor(cs / 360000);
+  const m = Math.floor((cs % 360000) / 6000);
+  const s = Math.floor((cs % 6000) / 100);
+  const c = cs % 100;
+  return `${h}:${String(m).padStart(2, '0')}:${String(s).padStart(2, '0')}.${String(c).padStart(2, '0')}`;
+}
+
+/** Override blocks and line breaks are ASS syntax — keep them out of spoken words. */
+function assText(text: string): string {
+  return text.replace(/[{}\\]/g, '');
+}
+
+/**
+ * Build an ASS subtitle script for a timeline's caption clips. Each clip becomes one
+ * Dialogue line with a \k tag per word, so libass switches each word from the preset's
+ * base color (SecondaryColour) to its highlight color (PrimaryColour) as it is spoken.
+ */
+export function buildAssSubtitles(timeline: Timeline): string {
+  const clips = clipsOfType(timeline, 'caption');
+  const { width: W, height: H } = timeline;
+  const usedStyles = [...new Set(clips.map((c) => c.style))] as CaptionStyleId[];
+
+  const styleLines = usedStyles.map((id) => {
+    const p = CAPTION_STYLE_PRESETS[id];
+    const fontSize = Math.round(H * p.fontSize);
+    const marginV = Math.round(H * (1 - p.position));
+    const borderStyle = p.box ? 3 : 1;
+    const outline = assColor(p.outlineColor);
+    return [
+      `Style: ${id}`, p.font, fontSize,
+      assColor(p.highlightColor), assColor(p.baseColor), outline, p.box ? outline : assColor('#000000', '80'),
+      -1, 0, 0, 0, 100, 100, 0, 0,
+      borderStyle, p.outlineWidth, 0, 2, 60, 60, marginV, 1,
+    ].join(',');
+  });
+
+  const events = clips.map((clip) => {
+    const uppercase = CAPTION_STYLE_PRESETS[clip.style].uppercase;
+    const text = clip.words
+      .map((word, i) => {
+        // Each word stays "current" until the next one starts
+        const until = clip.words[i + 1]?.start ?? word.end;
+        const cs = Math.max(1, Math.round((until - word.start) * 100));
+        const spoken = assText(uppercase ? word.text.toUpperCase() : word.text);
+        return `{\\k${cs}}${spoken}`;
+      })
+      .join(' ');
+    return `Dialogue: 0,${assTime(clip.start)},${assTime(clip.start + clip.duration)},${clip.style},,0,0,0,,${text}`;
+  });
+
+  return [
+    '[Script Info]',
+    'ScriptType: v4.00+',
+    `PlayResX: ${W}`,
+    `PlayResY: ${H}`,
+    'WrapStyle: 0',
+    'ScaledBorderAndShadow: yes',
+    '',
+    '[V4+ Styles]',
+    'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding',
+    ...styleLines,
+    '',
+    '[Events]',
+    'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+    ...events,
+    '',
+  ].join('\n');
+}
@@ -0,0 +1,158 @@
+import { CreatomateClient, toTaskState } from '@/lib/api-clients/creatomate';
+import type { ModificationValue } from '@/lib/api-clients/creatomate';
+import { API_COSTS, CAPTION_STYLE_PRESETS, CREATOMATE_TEMPLATE_ID, KEN_BURNS_PRESETS } from '@/lib/constants';
+import type { DuckingRule, Timeline, TimelineClip } from '@/lib/timeline';
+import type { ProviderTaskState } from '@/lib/webhooks';
+import type { Renderer, RenderContext, RenderOutput } from './types';
+
+/**
+ * Volume keyframes for a ducked clip: full `volume` until `attackMs` before each
+ * trigger clip, `level * volume` while it plays, back up over `releaseMs`.
+ * Overlapping or touching trigger clips are merged into one dip.
+ */
+function duckingKeyframes(volume: number, rule: DuckingRule, triggerClips: TimelineClip[]): Array<{ time: number; value: string }> {
+  const full = `${Math.round(volume * 100)}%`;
+  const ducked = `${Math.round(volume * rule.level * 100)}%`;
+  const attack = rule.attackMs / 1000;
+  const release = rule.releaseMs / 1000;
+
+  const dips: Array<[number, number]> = [];
+  for (const clip of [...triggerClips].sort((a, b) => a.start - b.start)) {
+    const last = dips[dips.length - 1];
+    const end = clip.start + clip.duration;
+    if (last && clip.start - attack <= last[1] + release) last[1] = Math.max(last[1], end);
+    else dips.push([clip.start, end]);
+  }
+
+  const round = (t: number) => Math.round(Math.max(0, t) * 1000) / 1000;
+  const keyframes: Array<{ time: number; value: string }> = [{ time: 0, value: full }];
+  for (const [start, end] of dips) {
+    if (start - attack > 0) keyframes.push({ time: round(start - attack), value: full });
+    keyframes.push({ time: round(start), value: ducked });
+    keyframes.push({ time: round(end), value: ducked });
+    keyframes.push({ time: round(end + release), value: full });
+  }
+  // A dip at t=0 replaces the initial full-volume keyframe
+  return keyframes[1]?.time === 0 ? keyframes.slice(1) : keyframes;
+}
+
+/**
+ * Generate modifications for our Creatomate template from a Timeline. The template
+ * fixes clip timing per slot, so only sources and Ken Burns keyframes carry over:
+ * Video-N (muted), Audio-N, Text-N and Broll-S-K, numbered from segment/shot index.
+ * Captions map to Caption-N text elements driven by Creatomate's own transcript of
+ * Audio-N (our word timings can't be expressed as modifications). The music track
+ * maps to the Music element, with ducking expressed as volume keyframes.
+ */
+export function timelineToModifications(timeline: Timeline): Record<string, ModificationValue> {
+  const modifications: Record<string, ModificationValue> = {};
+
+  for (const track of timeline.tracks) {
+    for (const clip of track.clips) {
+      const slotNum = clip.segmentIndex + 1;
+
+      switch (clip.type) {
+        case 'video':
+          modifications[`Video-${slotNum}`] = { source: clip.source, volume: `${Math.round(clip.volume * 100)}%` };
+          break;
+        case 'audio':
+          if (track.id === 'music') {
+            const trigger = track.ducking && timeline.tracks.find((t) => t.id === track.ducking!.triggerTrackId);
+            modifications.Music = {
+              source: clip.source,
+              duration: clip.duration,
+              audio_fade_in: clip.transitionIn?.type === 'fade' ? clip.transitionIn.duration : null,
+              audio_fade_out: clip.transitionOut?.type === 'fade' ? clip.transitionOut.duration : null,
+              volume: track.ducking && trigger
+                ? duckingKeyframes(clip.volume, track.ducking, trigger.clips)
+                : `${Math.round(clip.volume * 100)}%`,
+            };
+          } else {
+            modifications[`Audio-${slotNum}`] = clip.source;
+          }
+          break;
+        case 'text':
+          modifications[`Text-${slotNum}`] = clip.text;
+          break;
+        case 'caption': {
+          const preset = CAPTION_STYLE_PRESETS[clip.style];
+          modifications[`Caption-${slotNum}`] = {
+            transcript_source: `Audio-${slotNum}`,
+            transcript_effect: preset.creatomateEffect,
+            transcript_maximum_length: preset.wordsPerPage,
+            transcript_color: preset.highlightColor,
+            fill_color: preset.baseColor,
+          };
+          break;
+        }
+        case 'image': {
+          const preset = KEN_BURNS_PRESETS[clip.kenBurns];
+          modifications[`Broll-${slotNum}-${clip.shotIndex + 1}`] = {
+            source: clip.source,
+            x_scale: [
+              { value: preset.x_scale.start, time: 0 },
+              { value: preset.x_scale.end, time: 'end' },
+            ],
+            y_scale: [
+              { value: preset.y_scale.start, time: 0 },
+              { value: preset.y_scale.end, time: 'end' },
+            ],
+            x: [
+              { value: preset.x.start, time: 0 },
+              { value: preset.x.end, time: 'end' },
+            ],
+            y: [
+              { value: preset.y.start, time: 0 },
+              { value: preset.y.end, time: 'end' },
+            ],
+          };
+          break;
+        }
+      }
+    }
+  }
+
+  return modifications;
+}
+
+export class CreatomateRenderer implements Renderer {
+  readonly id = 'creatomate' as const;
+  readonly provider = 'creatomate';
+  readonly costPerRender = API_COSTS.creatomateRender;
+  private client: CreatomateClient;
+
+  constructor(client?: CreatomateClient) {
+    this.client = client ?? new CreatomateClient();
+  }
+
+  async render(timeline: Timeline, context: RenderContext): Promise<RenderOutput> {
+    const { taskId } = await this.start(timeline, context);
+    await context.onTaskStarted?.(taskId);
+
+    const result = await this.client.pollRender(taskId);
+    return { taskId, url: result.url || '' };
+  }
+
+  async start(timeline: Timeline, context: RenderContext): Promise<{ taskId: string }> {
+    const render = await this.client.renderVideo({
+      templateId: CREATOMATE_TEMPLATE_ID,
+      modifications: timelineToModifications(timeline),
+      maxWidth: timeline.width,
+      maxHeight: timeline.height,
+    }, {
+      projectId: context.projectId,
+      correlationId: context.correlationId,
+      supabase: context.supabase,
+    });
+    return { taskId: render.id };
+  }
+
+  async check(taskId: string): Promise<ProviderTaskState> {
+    return toTaskState(await this.client.getRenderStatus(taskId));
+  }
+
+  async resume(taskId: string): Promise<RenderOutput> {
+    const result = await this.client.pollRender(taskId);
+    return { taskId, url: result.url || '' };
+  }
+}
@@ -0,0 +1,359 @@
+import { createWriteStream } from 'fs';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { dirname, extname, join } from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { API_COSTS, KEN_BURNS_PRESETS } from '@/lib/constants';
+import { createLogger } from '@/lib/logger';
+import { runFfmpeg } from '@/lib/ffmpeg';
+import { clipsOfType, type DuckingRule, type Timeline, type TimelineClip } from '@/lib/timeline';
+import { buildAssSubtitles } from './ass-captions';
+import type { Renderer, RenderContext, RenderOutput } from './types';
+
+const logger = createLogger({ agentName: 'FfmpegRenderer' });
+
+const DOWNLOAD_TIMEOUT_MS = 120_000;
+const RENDER_TIMEOUT_MS = 20 * 60_000;
+const TEXT_WRAP_CHARS = 24;
+
+/** Local files for a timeline, keyed by clip ID. */
+export interface LocalRenderInputs {
+  /** Downloaded sources for video, audio and image clips */
+  sources: Map<string, string>;
+  /** Wrapped text files for text clips */
+  texts: Map<string, string>;
+  /** ASS script for caption clips, if the timeline has any */
+  captions: string | null;
+}
+
+function pct(value: string): number {
+  return parseFloat(value) / 100;
+}
+
+function num(value: number): string {
+  return String(Number(value.toFixed(4)));
+}
+
+/** Linear interpolation over the zoompan output frame number. */
+function lerpExpr(start: number, end: number, frames: number): string {
+  if (start === end || frames <= 1) return String(start);
+  return `(${start}+(${num(end - start)})*on/${frames - 1})`;
+}
+
+/**
+ * Word-wrap overlay text for drawtext, which has no wrapping of its own.
+ */
+export function wrapOverlayText(text: string, maxChars = TEXT_WRAP_CHARS): string {
+  const lines: string[] = [];
+  let current = '';
+  for (const word of text.trim().split(/\s+/)) {
+    if (current && (current.length + 1 + word.length) > maxChars) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = current ? `${current} ${word}` : word;
+    }
+  }
+  if (current) lines.push(current);
+  return lines.join('\n');
+}
+
+/** fade filters for a clip's transitions, relative to the clip's own start. */
+function fadeFilters(clip: TimelineClip, alpha: boolean): string[] {
+  const fades: string[] = [];
+  const a = alpha ? ':alpha=1' : '';
+  if (clip.transitionIn?.type === 'fade') {
+    fades.push(`fade=t=in:st=0:d=${num(clip.transitionIn.duration)}${a}`);
+  }
+  if (clip.transitionOut?.type === 'fade') {
+    const d = clip.transitionOut.duration;
+    fades.push(`fade=t=out:st=${num(Math.max(0, clip.duration - d))}:d=${num(d)}${a}`);
+  }
+  return fades;
+}
+
+/**
+ * Gain expression for a ducked track: full volume, easing down to `level` around
+ * every clip on the trigger track (attack before it starts, release after it ends).
+ */
+export function duckingGainExpr(rule: DuckingRule, triggerClips: TimelineClip[]): string {
+  if (triggerClips.length === 0) return '1';
+  const attack = Math.max(rule.attackMs / 1000, 0.001);
+  const release = Math.max(rule.releaseMs / 1000, 0.001);
+  const depth = triggerClips
+    .map((c) => {
+      const s = c.start;
+      const e = c.start + c.duration;
+      return `clip(min((t-(${num(s - attack)}))/${num(attack)},(${num(e + release)}-t)/${num(release)}),0,1)`;
+    })
+    .reduce((acc, expr) => `max(${acc},${expr})`);
+  return `1-${num(1 - rule.level)}*${depth}`;
+}
+
+/**
+ * Build the ffmpeg argument list for a timeline. Visual tracks are composited in
+ * order over a black canvas (video and image clips as timed overlays, text clips
+ * burned in with drawtext, caption clips via libass); audio tracks are delayed into place, ducked per their
+ * rules and mixed. Source audio on video clips is never mapped — a video clip's
+ * volume is always 0 in timelines we build.
+ */
+export function buildFfmpegArgs(
+  timeline: Timeline,
+  inputs: LocalRenderInputs,
+  outputPath: string,
+): string[] {
+  const { width: W, height: H, fps: FPS, duration: DUR } = timeline;
+  const args: string[] = ['-y', '-hide_banner', '-loglevel', 'error'];
+  const filters: string[] = [];
+  let inputIndex = 0;
+  let labelIndex = 0;
+
+  const addInput = (path: string): number => {
+    args.push('-i', path);
+    return inputIndex++;
+  };
+  const label = (prefix: string): string => `${prefix}${labelIndex++}`;
+
+  // ── Video ──
+  let current = label('base');
+  filters.push(`color=c=black:s=${W}x${H}:r=${FPS}:d=${num(DUR)},setsar=1[${current}]`);
+
+  for (const track of timeline.tracks) {
+    if (track.kind === 'audio') continue;
+
+    // Caption pages are rendered together by libass from one subtitle script
+    if (inputs.captions && track.clips.some((c) => c.type === 'caption')) {
+      const fontFile = process.env.FFMPEG_FONT_FILE;
+      const next = label('v');
+      filters.push(`[${current}]ass='${inputs.captions}'${fontFile ? `:fontsdir='${dirname(fontFile)}'` : ''}[${next}]`);
+      current = next;
+    }
+
+    for (const clip of track.clips) {
+      const start = num(clip.start);
+      const end = num(clip.start + clip.duration);
+      const enable = `enable='between(t,${start},${end})'`;
+
+      if (clip.type === 'text') {
+        const textPath = inputs.texts.get(clip.id);
+        if (!textPath) continue;
+        const fontFile = process.env.FFMPEG_FONT_FILE;
+        const next = label('v');
+        filters.push(
+          `[${current}]drawtext=textfile='${textPath}':${fontFile ? `fontfile='${fontFile}':` : ''}` +
+          `fontsize=${Math.round(H / 30)}:fontcolor=white:borderw=4:bordercolor=black:line_spacing=8:` +
+          `x=(w-text_w)/2:y=h*0.12:${enable}[${next}]`
+        );
+        current = next;
+        continue;
+      }
+
+      if (clip.type === 'audio' || clip.type === 'caption') continue;
+      const sourcePath = inputs.sources.get(clip.id);
+      if (!sourcePath) continue;
+
+      const idx = addInput(sourcePath);
+      const layer = label('c');
+
+      if (clip.type === 'video') {
+        // Cover-crop to the frame, hold the last frame if the source runs short
+        filters.push(
+          [
+            `[${idx}:v]trim=start=${num(clip.in)}:end=${num(clip.out)}`,
+            'setpts=PTS-STARTPTS',
+            `scale=${W}:${H}:force_original_aspect_ratio=increase`,
+            `crop=${W}:${H}`,
+            'setsar=1',
+            `fps=${FPS}`,
+            `tpad=stop_mode=clone:stop_duration=${num(clip.duration)}`,
+            `trim=duration=${num(clip.duration)}`,
+            ...fadeFilters(clip, false),
+            `setpts=PTS-STARTPTS+${start}/TB[${layer}]`,
+          ].join(',')
+        );
+      } else {
+        // Ken Burns still — zoompan's x/y are the crop origin, so convert the
+        // preset's element-center percentages into origin coordinates at the current zoom
+        const frames = Math.max(1, Math.round(clip.duration * FPS));
+        const preset = KEN_BURNS_PRESETS[clip.kenBurns];
+        const zoom = lerpExpr(pct(preset.x_scale.start), pct(preset.x_scale.end), frames);
+        const cx = lerpExpr(pct(preset.x.start), pct(preset.x.end), frames);
+        const cy = lerpExpr(pct(preset.y.start), pct(preset.y.end), frames);
+        const fades = fadeFilters(clip, true);
+        filters.push(
+          [
+            `[${idx}:v]scale=${W * 2}:${H * 2}:force_original_aspect_ratio=increase`,
+            `crop=${W * 2}:${H * 2}`,
+            `zoompan=z='${zoom}':x='iw/2-${cx}*iw/zoom':y='ih/2-${cy}*ih/zoom':d=${frames}:s=${W}x${H}:fps=${FPS}`,
+            'setsar=1',
+            ...(fades.length > 0 ? ['format=yuva420p', ...fades] : []),
+            `setpts=PTS-STARTPTS+${start}/TB[${layer}]`,
+          ].join(',')
+        );
+      }
+
+      const next = label('v');
+      filters.push(`[${current}][${layer}]overlay=eof_action=pass:${enable}[${next}]`);
+      current = next;
+    }
+  }
+
+  const videoOut = current;
+
+  // ── Audio ──
+  const trackStreams = new Map<string, string>();
+  const audioTracks = timeline.tracks.filter((t) => t.kind === 'audio');
+
+  for (const track of audioTracks) {
+    const clipLabels: string[] = [];
+    for (const clip of track.clips) {
+      if (clip.type !== 'audio') continue;
+      const sourcePath = inputs.sources.get(clip.id);
+      if (!sourcePath) continue;
+
+      const idx = addInput(sourcePath);
+      const delayMs = Math.round(clip.start * 1000);
+      const fades: string[] = [];
+      if (clip.transitionIn?.type === 'fade') fades.push(`afade=t=in:st=0:d=${num(clip.transitionIn.duration)}`);
+      if (clip.transitionOut?.type === 'fade') {
+        const d = clip.transitionOut.duration;
+        fades.push(`afade=t=out:st=${num(Math.max(0, clip.duration - d))}:d=${num(d)}`);
+      }
+      const clipLabel = label('a');
+      filters.push(
+        [
+          `[${idx}:a]atrim=start=${num(clip.in)}:end=${num(clip.out)}`,
+          'asetpts=PTS-STARTPTS',
+          'aformat=sample_rates=44100:channel_layouts=stereo',
+          `atrim=duration=${num(clip.duration)}`,
+          `volume=${num(clip.volume)}`,
+          ...fades,
+          `adelay=${delayMs}|${delayMs}`,
+        ].join(',') + `[${clipLabel}]`
+      );
+      clipLabels.push(clipLabel);
+    }
+    if (clipLabels.length === 0) continue;
+
+    const trackLabel = label('t');
+    filters.push(
+      `${clipLabels.map((l) => `[${l}]`).join('')}amix=inputs=${clipLabels.length}:normalize=0,` +
+      `apad=whole_dur=${num(DUR)},atrim=duration=${num(DUR)}[${trackLabel}]`
+    );
+    trackStreams.set(track.id, trackLabel);
+  }
+
+  for (const track of audioTracks) {
+    const stream = trackStreams.get(track.id);
+    const trigger = track.ducking && timeline.tracks.find((t) => t.id === track.ducking!.triggerTrackId);
+    if (!stream || !track.ducking || !trigger) continue;
+
+    const ducked = label('t');
+    const gain = duckingGainExpr(track.ducking, trigger.clips);
+    filters.push(`[${stream}]volume='${gain}':eval=frame[${ducked}]`);
+    trackStreams.set(track.id, ducked);
+  }
+
+  const mixInputs = [...trackStreams.values()];
+  if (mixInputs.length === 0) {
+    filters.push(`anullsrc=r=44100:cl=stereo,atrim=duration=${num(DUR)}[outa]`);
+  } else {
+    filters.push(`${mixInputs.map((l) => `[${l}]`).join('')}amix=inputs=${mixInputs.length}:normalize=0[outa]`);
+  }
+
+  args.push(
+    '-filter_complex', filters.join(';'),
+    '-map', `[${videoOut}]`, '-map', '[outa]',
+    '-c:v', 'libx264', '-preset', 'veryfast', '-crf', '20', '-pix_fmt', 'yuv420p', '-r', String(FPS),
+    '-c:a', 'aac', '-b:a', '192k',
+    '-t', num(DUR),
+    '-movflags', '+faststart',
+    outputPath,
+  );
+
+  return args;
+}
+
+async function downloadToFile(url: string, filePath: string): Promise<void> {
+  const response = await fetch(url, { signal: AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS) });
+  if (!response.ok || !response.body) {
+    throw new Error(`Failed to download render input (${response.status}): ${url.substring(0, 80)}`);
+  }
+  await pipeline(
+    Readable.fromWeb(response.body as import('stream/web').ReadableStream),
+    createWriteStream(filePath),
+  );
+}
+
+function fileExtension(url: string, fallback: string): string {
+  try {
+    const ext = extname(new URL(url).pathname);
+    return ext || fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * Renders the final video on the worker with a local ffmpeg binary
+ * (FFMPEG_PATH, default `ffmpeg` on PATH) and uploads it to Storage.
+ */
+export class FfmpegRenderer implements Renderer {
+  readonly id = 'ffmpeg' as const;
+  readonly provider = 'ffmpeg';
+  readonly costPerRender = API_COSTS.ffmpegRender;
+
+  async render(timeline: Timeline, context: RenderContext): Promise<RenderOutput> {
+    const taskId = `ffmpeg-${crypto.randomUUID()}`;
+    await context.onTaskStarted?.(taskId);
+
+    const workDir = await mkdtemp(join(tmpdir(), 'render-'));
+    const start = Date.now();
+
+    try {
+      const inputs: LocalRenderInputs = { sources: new Map(), texts: new Map(), captions: null };
+
+      if (clipsOfType(timeline, 'caption').length > 0) {
+        inputs.captions = join(workDir, 'captions.ass');
+        await writeFile(inputs.captions, buildAssSubtitles(timeline));
+      }
+
+      for (const clip of timeline.tracks.flatMap((t) => t.clips)) {
+        if (clip.type === 'caption') continue;
+        if (clip.type === 'text') {
+          // textfile= sidesteps drawtext's escaping rules for quotes, colons and percents
+          const textPath = join(workDir, `${clip.id}.txt`);
+          await writeFile(textPath, wrapOverlayText(clip.text));
+          inputs.texts.set(clip.id, textPath);
+          continue;
+        }
+
+        const fallbackExt = clip.type === 'video' ? '.mp4' : clip.type === 'audio' ? '.mp3' : '.png';
+        const sourcePath = join(workDir, `${clip.id}${fileExtension(clip.source, fallbackExt)}`);
+        await downloadToFile(clip.source, sourcePath);
+        inputs.sources.set(clip.id, sourcePath);
+      }
+
+      const outputPath = join(workDir, 'final.mp4');
+      const args = buildFfmpegArgs(timeline, inputs, outputPath);
+      logger.info({ projectId: context.projectId, taskId, durationSec: timeline.duration }, 'Starting ffmpeg render');
+      await runFfmpeg(args, RENDER_TIMEOUT_MS);
+
+      const storagePath = `projects/${context.projectId}/final/${taskId}.mp4`;
+      const { error: uploadError } = await context.supabase.storage
+        .from('assets')
+        .upload(storagePath, await readFile(outputPath), {
+          contentType: 'video/mp4',
+          upsert: true,
+        });
+      if (uploadError) throw new Error(`Failed to upload rendered video: ${uploadError.message}`);
+
+      const { data: urlData } = context.supabase.storage.from('assets').getPublicUrl(storagePath);
+      logger.info({ projectId: context.projectId, taskId, durationMs: Date.now() - start }, 'ffmpeg render completed');
+      return { taskId, url: urlData.publicUrl };
+    } finally {
+      await rm(workDir, { recursive: true, force: true }).catch(() => {});
+    }
+  }
+}
@@ -0,0 +1,33 @@
+import { DEFAULT_RENDER_BACKEND, RENDER_BACKENDS, type RenderBackend } from '@/lib/constants';
+import { CreatomateRenderer } from './creatomate-renderer';
+import { FfmpegRenderer } from './ffmpeg-renderer';
+import type { Renderer } from './types';
+
+export type { Renderer, RenderContext, RenderOutput } from './types';
+export { timelineToModifications } from './creatomate-renderer';
+
+export function isRenderBackend(value: unknown): value is RenderBackend {
+  return typeof value === 'string' && (RENDER_BACKENDS as readonly string[]).includes(value);
+}
+
+/**
+ * Pick the render backend for a project: the project's own override wins,
+ * then the video model's default, then the app-wide default.
+ */
+export function resolveRenderBackend(
+  projectRenderer: string | null | undefined,
+  videoModel?: { renderer?: string | null } | null,
+): RenderBackend {
+  if (isRenderBackend(projectRenderer)) return projectRenderer;
+  if (isRenderBackend(videoModel?.renderer)) return videoModel.renderer;
+  return DEFAULT_RENDER_BACKEND;
+}
+
+export function getRenderer(backend: RenderBackend): Renderer {
+  switch (backend) {
+    case 'ffmpeg':
+      return new FfmpegRenderer();
+    case 'creatomate':
+      return new CreatomateRenderer();
+  }
+}
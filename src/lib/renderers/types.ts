@@ -0,0 +1,41 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { RenderBackend } from '@/lib/constants';
+import type { Timeline } from '@/lib/timeline';
+import type { ProviderTaskState } from '@/lib/webhooks';
+
+export interface RenderContext {
+  projectId: string;
+  correlationId?: string;
+  supabase: SupabaseClient;
+  /** Called once the backend has a task ID, before waiting on the render */
+  onTaskStarted?: (taskId: string) => Promise<void>;
+}
+
+export interface RenderOutput {
+  taskId: string;
+  url: string;
+}
+
+/**
+ * A final-video render backend. Implementations take the same Timeline
+ * and return a public URL for the rendered MP4.
+ */
+export interface Renderer {
+  readonly id: RenderBackend;
+  /** Provider name stored on the final_video asset row */
+  readonly provider: string;
+  readonly costPerRender: number;
+  render(timeline: Timeline, context: RenderContext): Promise<RenderOutput>;
+  /**
+   * Wait for a render started by an earlier (interrupted) run. Only backends whose
+   * renders outlive the worker process implement it.
+   */
+  resume?(taskId: string, context: RenderContext): Promise<RenderOutput>;
+  /**
+   * Submit a render without waiting for it. Together with `check`, lets the
+   * worker park the editing job on the provider's webhook (src/lib/webhooks.ts).
+   */
+  start?(timeline: Timeline, context: RenderContext): Promise<{ taskId: string }>;
+  /** Check a started render once. */
+  check?(taskId: string, context: RenderContext): Promise<ProviderTaskState>;
+}
@@ -0,0 +1,74 @@
+// ─── Scheduled Jobs ───────────────────────────────────────────────────────────
+// Repeatable jobs on the pipeline queue, registered by the worker on startup with
+// BullMQ job schedulers. Upserting by step name is idempotent, so every worker can
+// register them and each run still happens once. Changing a pattern in
+// SCHEDULED_JOB_PATTERNS replaces the old schedule on the next worker start.
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Queue } from 'bullmq';
+import {
+  SCHEDULED_JOB_PATTERNS,
+  TIKTOK_TOKEN_REFRESH_WINDOW_MS,
+  type ScheduledStep,
+} from '@/lib/constants';
+import { runHookCalibration } from '@/lib/hook-calibration';
+import { createLogger } from '@/lib/logger';
+import { cleanOrphanedStorage, sweepStalledProjects } from '@/lib/maintenance';
+import type { PipelineJobData } from '@/lib/queue';
+import { mineTemplates } from '@/lib/templates';
+import { getValidAccessToken, refreshExpiringToken } from '@/lib/tiktok';
+import { syncTikTokMetrics } from '@/lib/tiktok-sync';
+
+const log = createLogger({ agentName: 'Scheduler' });
+
+const SCHEDULED_STEPS = Object.keys(SCHEDULED_JOB_PATTERNS) as ScheduledStep[];
+
+export function isScheduledStep(step: string): step is ScheduledStep {
+  return (SCHEDULED_STEPS as string[]).includes(step);
+}
+
+/** Create or update one job scheduler per scheduled step. */
+export async function registerScheduledJobs(queue: Queue<PipelineJobData>): Promise<void> {
+  for (const step of SCHEDULED_STEPS) {
+    await queue.upsertJobScheduler(
+      step,
+      { pattern: SCHEDULED_JOB_PATTERNS[step], tz: 'UTC' },
+      { name: step, data: { step } },
+    );
+  }
+  log.info({ schedules: SCHEDULED_JOB_PATTERNS }, 'Scheduled jobs registered');
+}
+
+/** Run one scheduled job. Throws on failure so BullMQ retries it. */
+export async function runScheduledJob(
+  step: ScheduledStep,
+  supabase: SupabaseClient,
+  queue: Queue<PipelineJobData>,
+  correlationId: string,
+): Promise<void> {
+  if (step === 'tiktok_sync') {
+    let accessToken: string;
+    try {
+      accessToken = await getValidAccessToken();
+    } catch (err) {
+      if (err instanceof Error && err.message === 'NO_TIKTOK_CONNECTION') {
+        log.info('TikTok not connected, skipping metrics sync');
+        return;
+      }
+      throw err;
+    }
+    const result = await syncTikTokMetrics(supabase, accessToken);
+    log.info(result, 'TikTok metrics synced');
+  } else if (step === 'tiktok_token_refresh') {
+    await refreshExpiringToken(TIKTOK_TOKEN_REFRESH_WINDOW_MS);
+  } else if (step === 'stalled_project_sweep') {
+    const failed = await sweepStalledProjects(supabase, queue, correlationId);
+    if (failed.length) log.warn({ projectIds: failed }, 'Stalled projects failed');
+  } else if (step === 'storage_cleanup') {
+    await cleanOrphanedStorage(supabase);
+  } else if (step === 'template_mining') {
+    await mineTemplates(supabase);
+  } else if (step === 'hook_calibration') {
+    await runHookCalibration(supabase);
+  }
+}
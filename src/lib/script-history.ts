@@ -0,0 +1,316 @@
+// ─── Script History ───────────────────────────────────────────────────────────
+// Scripts (script.version) and their segments (scene.version) are append-only:
+// every regeneration, edit or tightening adds a row, and the highest version is
+// current. This module reads that history for review and writes two kinds of
+// rows without calling the LLM: a restore copies any earlier version of a
+// segment, from any of the project's scripts, in as that segment's newest
+// version; a composed script is a new script version assembled from picked
+// segment versions. Both only happen at script_review, before anything has been
+// cast or voiced from the script.
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { SceneOrigin } from '@/lib/constants';
+import { ScriptHistoryError } from '@/lib/errors';
+import { createLogger } from '@/lib/logger';
+
+const log = createLogger({ agentName: 'ScriptHistory' });
+
+type Row = Record<string, unknown>;
+
+/** Scene columns that identify a version rather than its content; not copied. */
+const VERSION_COLUMNS = ['id', 'script_id', 'version', 'origin', 'feedback', 'origin_scene_id', 'created_at', 'updated_at'];
+
+export interface SceneVersion {
+  id: string;
+  scriptId: string;
+  scriptVersion: number;
+  version: number;
+  scriptText: string | null;
+  textOverlay: string | null;
+  syllableCount: number | null;
+  origin: SceneOrigin;
+  feedback: string | null;
+  originSceneId: string | null;
+  /** The newest version of the segment in its script */
+  current: boolean;
+  createdAt: string;
+}
+
+export interface SegmentHistory {
+  segmentIndex: number;
+  section: string;
+  /** Oldest first: by script version, then scene version */
+  versions: SceneVersion[];
+}
+
+export interface ScriptVersion {
+  id: string;
+  version: number;
+  source: string | null;
+  tone: string | null;
+  hookScore: number | null;
+  grade: string | null;
+  /** Feedback left on this version (a regeneration request produces the next one) */
+  feedback: string | null;
+  createdAt: string;
+}
+
+export interface ScriptHistory {
+  /** Oldest first; the last one is the script the pipeline continues with */
+  scripts: ScriptVersion[];
+  segments: SegmentHistory[];
+}
+
+interface StoredScene {
+  id: string;
+  segment_index: number;
+  section: string;
+  version: number | null;
+  script_text: string | null;
+  text_overlay: string | null;
+  syllable_count: number | null;
+  origin: SceneOrigin | null;
+  feedback: string | null;
+  origin_scene_id: string | null;
+  created_at: string;
+}
+
+function omit(row: Row, keys: string[]): Row {
+  return Object.fromEntries(Object.entries(row).filter(([key]) => !keys.includes(key)));
+}
+
+/** Newest version of each segment, by segment index. */
+function currentScenes<T extends { segment_index: number; version: number | null }>(scenes: T[]): Map<number, T> {
+  const current = new Map<number, T>();
+  for (const scene of scenes) {
+    const seen = current.get(scene.segment_index);
+    if (!seen || (scene.version ?? 1) > (seen.version ?? 1)) current.set(scene.segment_index, scene);
+  }
+  return current;
+}
+
+/** Every script version of a project and every version of each segment. */
+export async function loadScriptHistory(supabase: SupabaseClient, projectId: string): Promise<ScriptHistory> {
+  const { data: scripts, error } = await supabase
+    .from('script')
+    .select('id, version, source, tone, hook_score, grade, feedback, created_at, scenes:scene(id, segment_index, section, version, script_text, text_overlay, syllable_count, origin, feedback, origin_scene_id, created_at)')
+    .eq('project_id', projectId)
+    .order('version');
+
+  if (error) throw new Error(`Failed to load script history: ${error.message}`);
+
+  const segments = new Map<number, SegmentHistory>();
+  for (const script of scripts || []) {
+    const scenes = (script.scenes || []) as StoredScene[];
+    const current = currentScenes(scenes);
+    for (const scene of scenes) {
+      const segment = segments.get(scene.segment_index)
+        ?? { segmentIndex: scene.segment_index, section: scene.section, versions: [] };
+      segment.versions.push({
+        id: scene.id,
+        scriptId: script.id,
+        scriptVersion: script.version ?? 1,
+        version: scene.version ?? 1,
+        scriptText: scene.script_text,
+        textOverlay: scene.text_overlay,
+        syllableCount: scene.syllable_count,
+        origin: scene.origin ?? 'generated',
+        feedback: scene.feedback,
+        originSceneId: scene.origin_scene_id,
+        current: current.get(scene.segment_index)?.id === scene.id,
+        createdAt: scene.created_at,
+      });
+      segments.set(scene.segment_index, segment);
+    }
+  }
+
+  for (const segment of segments.values()) {
+    segment.versions.sort((a, b) => a.scriptVersion - b.scriptVersion || a.version - b.version);
+  }
+
+  return {
+    scripts: (scripts || []).map((s) => ({
+      id: s.id,
+      version: s.version ?? 1,
+      source: s.source,
+      tone: s.tone,
+      hookScore: s.hook_score,
+      grade: s.grade,
+      feedback: s.feedback,
+      createdAt: s.created_at,
+    })),
+    segments: [...segments.values()].sort((a, b) => a.segmentIndex - b.segmentIndex),
+  };
+}
+
+/** Rebuild script.full_text from the newest version of each segment. */
+export async function refreshScriptFullText(supabase: SupabaseClient, scriptId: string): Promise<void> {
+  const { data: scenes } = await supabase
+    .from('scene')
+    .select('segment_index, script_text, version')
+    .eq('script_id', scriptId);
+
+  if (!scenes) return;
+
+  const fullText = [...currentScenes(scenes).values()]
+    .sort((a, b) => a.segment_index - b.segment_index)
+    .map((s) => s.script_text)
+    .join('\n\n');
+  await supabase.from('script').update({ full_text: fullText }).eq('id', scriptId);
+}
+
+async function assertAtScriptReview(supabase: SupabaseClient, projectId: string): Promise<void> {
+  const { data: project } = await supabase
+    .from('project')
+    .select('status')
+    .eq('id', projectId)
+    .single();
+
+  if (!project) throw new ScriptHistoryError(`Project not found: ${projectId}`, 404);
+  if (project.status !== 'script_review') {
+    throw new ScriptHistoryError(`Script versions can only be restored or composed at script_review (project is in '${project.status}')`, 409);
+  }
+}
+
+/**
+ * Make `sceneId` — any version of the segment, in any of the project's scripts —
+ * the newest version of the segment in `scriptId`, by copying it. Returns the
+ * new scene row.
+ */
+export async function restoreSegmentVersion(
+  supabase: SupabaseClient,
+  projectId: string,
+  scriptId: string,
+  segmentIndex: number,
+  sceneId: string,
+): Promise<Row> {
+  await assertAtScriptReview(supabase, projectId);
+
+  const { data: source } = await supabase
+    .from('scene')
+    .select('*, script:script_id(project_id)')
+    .eq('id', sceneId)
+    .single();
+
+  const sourceProject = (source?.script as { project_id: string } | null)?.project_id;
+  if (!source || sourceProject !== projectId) {
+    throw new ScriptHistoryError('Scene version not found for this project', 404);
+  }
+  if (source.segment_index !== segmentIndex) {
+    throw new ScriptHistoryError(`Scene version is segment ${source.segment_index}, not segment ${segmentIndex}`, 400);
+  }
+
+  const { data: current } = await supabase
+    .from('scene')
+    .select('id, version')
+    .eq('script_id', scriptId)
+    .eq('segment_index', segmentIndex)
+    .order('version', { ascending: false })
+    .limit(1)
+    .single();
+
+  if (!current) throw new ScriptHistoryError('Segment not found in this script', 404);
+  if (current.id === sceneId) throw new ScriptHistoryError('That version is already the current one', 409);
+
+  const { data: restored, error } = await supabase
+    .from('scene')
+    .insert({
+      ...omit(source, [...VERSION_COLUMNS, 'script']),
+      script_id: scriptId,
+      version: (current.version ?? 1) + 1,
+      origin: 'restored',
+      origin_scene_id: sceneId,
+    })
+    .select()
+    .single();
+
+  if (error || !restored) throw new Error(`Failed to restore scene version: ${error?.message}`);
+
+  await refreshScriptFullText(supabase, scriptId);
+  log.info({ projectId, scriptId, segmentIndex, from: sceneId, sceneId: restored.id }, 'Segment version restored');
+  return restored;
+}
+
+/**
+ * Create a new script version from picked segment versions (`sceneIds`, one
+ * per segment, from any of the project's scripts). Segments without a pick keep
+ * the current version from the latest script. The new script takes its hook
+ * score from the script its hook came from.
+ */
+export async function composeScript(
+  supabase: SupabaseClient,
+  projectId: string,
+  sceneIds: string[],
+): Promise<{ scriptId: string; version: number }> {
+  await assertAtScriptReview(supabase, projectId);
+
+  const { data: scripts, error } = await supabase
+    .from('script')
+    .select('*, scenes:scene(*)')
+    .eq('project_id', projectId)
+    .order('version', { ascending: false });
+
+  if (error) throw new Error(`Failed to load scripts: ${error.message}`);
+  const latest = scripts?.[0];
+  if (!latest) throw new ScriptHistoryError('Project has no script to compose from', 404);
+
+  type StoredRow = Row & { id: string; segment_index: number; version: number | null; script_text: string | null };
+
+  const scenesById = new Map<string, { scene: StoredRow; script: Row }>();
+  for (const script of scripts) {
+    for (const scene of (script.scenes || []) as StoredRow[]) scenesById.set(scene.id, { scene, script });
+  }
+
+  const latestCurrent = currentScenes((latest.scenes || []) as StoredRow[]);
+  const chosen = new Map(latestCurrent);
+  const picked = new Set<number>();
+  let hookSource: Row = latest;
+
+  for (const id of sceneIds) {
+    const entry = scenesById.get(id);
+    if (!entry) throw new ScriptHistoryError(`Scene version not found for this project: ${id}`, 404);
+    const index = entry.scene.segment_index;
+    if (picked.has(index)) throw new ScriptHistoryError(`Pick one version per segment (segment ${index} picked twice)`, 400);
+    picked.add(index);
+    chosen.set(index, entry.scene);
+    if (index === 0) hookSource = entry.script;
+  }
+
+  if ([...chosen.entries()].every(([index, scene]) => latestCurrent.get(index)?.id === scene.id)) {
+    throw new ScriptHistoryError('The picked versions are already the current script', 400);
+  }
+
+  const segments = [...chosen.values()].sort((a, b) => a.segment_index - b.segment_index);
+  const version = (latest.version ?? 1) + 1;
+
+  const { data: composed, error: scriptError } = await supabase
+    .from('script')
+    .insert({
+      project_id: projectId,
+      version,
+      hook_score: hookSource.hook_score ?? null,
+      hook_score_breakdown: hookSource.hook_score_breakdown ?? null,
+      full_text: segments.map((s) => s.script_text).join('\n\n'),
+      tone: latest.tone,
+      source: 'composed',
+    })
+    .select('id')
+    .single();
+
+  if (scriptError || !composed) throw new Error(`Failed to save composed script: ${scriptError?.message}`);
+
+  const { error: sceneError } = await supabase
+    .from('scene')
+    .insert(segments.map((scene) => ({
+      ...omit(scene, VERSION_COLUMNS),
+      script_id: composed.id,
+      version: 1,
+      origin: 'composed',
+      origin_scene_id: scene.id,
+    })));
+
+  if (sceneError) throw new Error(`Failed to save composed scenes: ${sceneError.message}`);
+
+  log.info({ projectId, scriptId: composed.id, version, picks: sceneIds.length }, 'Script composed from earlier versions');
+  return { scriptId: composed.id, version };
+}
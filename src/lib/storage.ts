@@ -1,7 +1,7 @@
 import { supabase } from '@/db';
 import { logger } from '@/lib/logger';
 
-const BUCKET = 'assets';
+export const STORAGE_BUCKET = 'assets';
 
 const ALLOWED_IMAGE_TYPES = [
   'image/jpeg',
@@ -62,7 +62,7 @@ export async function createSignedUploadUrl(
   path: string
 ): Promise<{ signedUrl: string; token: string; path: string }> {
   const { data, error } = await supabase.storage
-    .from(BUCKET)
+    .from(STORAGE_BUCKET)
     .createSignedUploadUrl(path, { upsert: true });
 
   if (error || !data) {
@@ -78,12 +78,12 @@ export async function createSignedUploadUrl(
 }
 
 export function getPublicUrl(path: string): string {
-  const { data } = supabase.storage.from(BUCKET).getPublicUrl(path);
+  const { data } = supabase.storage.from(STORAGE_BUCKET).getPublicUrl(path);
   return data.publicUrl;
 }
 
 export async function deleteStorageFile(path: string): Promise<void> {
-  const { error } = await supabase.storage.from(BUCKET).remove([path]);
+  const { error } = await supabase.storage.from(STORAGE_BUCKET).remove([path]);
   if (error) {
     logger.warn({ err: error, path }, 'Failed to delete storage file');
   }
@@ -1,9 +1,12 @@
 /**
  * Syllable counting utilities for script validation.
- * Ported from predecessor project's programmatic counter.
+ * Ported from predecessor project's programmatic counter; other languages count
+ * vowel nuclei with their own diphthong and hiatus rules.
  */
 
-export function countSyllables(text: string): number {
+import { DEFAULT_LOCALE, getLocale, type LanguageCode } from '@/lib/constants';
+
+function countEnglishSyllables(text: string): number {
   const word = text.toLowerCase().replace(/[^a-z]/g, '');
   if (word.length <= 3) return 1;
   let count = 0;
@@ -19,9 +22,76 @@ export function countSyllables(text: string): number {
   return Math.max(1, count);
 }
 
-export function countTextSyllables(text: string): number {
-  const words = text.replace(/[^a-zA-Z\s]/g, '').split(/\s+/).filter(Boolean);
-  return words.reduce((sum, w) => sum + countSyllables(w), 0);
+interface VowelRules {
+  vowels: string;
+  /** Two adjacent vowels from this set are separate syllables (hiatus) */
+  strong: string;
+  /** Adjacent vowel pairs that are one syllable even though both are strong */
+  diphthongs?: string[];
+  /** Silent trailing letters removed before counting (French mute e) */
+  muteEnding?: RegExp;
+}
+
+// Spanish, Portuguese and Italian: a weak vowel (i, u) next to another vowel is a
+// glide, two strong vowels (a, e, o or an accented í/ú) are a hiatus.
+// German and French: every vowel cluster is one syllable.
+const VOWEL_RULES: Record<Exclude<LanguageCode, 'en'>, VowelRules> = {
+  es: { vowels: 'aeiouáéíóúü', strong: 'aeoáéóíú' },
+  pt: { vowels: 'aeiouáéíóúâêôãõàü', strong: 'aeoáéóíúâêôãõà', diphthongs: ['ãe', 'ão', 'õe'] },
+  it: { vowels: 'aeiouàèéìíòóùú', strong: 'aeoàèéòóìíùú' },
+  de: { vowels: 'aeiouyäöü', strong: '' },
+  fr: { vowels: 'aeiouyàâéèêëîïôûùüœæ', strong: '', muteEnding: /(?<=[^aeiouyàâéèêëîïôûùüœæ])es?$/ },
+};
+
+function countVowelNuclei(text: string, rules: VowelRules): number {
+  let word = text.toLowerCase().replace(/[^\p{L}]/gu, '');
+  if (rules.muteEnding && word.length > 2) word = word.replace(rules.muteEnding, '');
+  let count = 0;
+  let prev = '';
+  for (const ch of word) {
+    if (!rules.vowels.includes(ch)) {
+      prev = '';
+      continue;
+    }
+    const hiatus = prev !== ''
+      && rules.strong.includes(prev)
+      && rules.strong.includes(ch)
+      && !rules.diphthongs?.includes(prev + ch);
+    if (prev === '' || hiatus) count++;
+    prev = ch;
+  }
+  return Math.max(1, count);
+}
+
+/** Letters of each word, keeping accented letters outside English. */
+function wordsOf(text: string, language: LanguageCode): string[] {
+  const letters = language === 'en' ? text.replace(/[^a-zA-Z\s]/g, '') : text.replace(/[^\p{L}\s]/gu, '');
+  return letters.split(/\s+/).filter(Boolean);
+}
+
+export function countSyllables(text: string, language: LanguageCode = 'en'): number {
+  return language === 'en' ? countEnglishSyllables(text) : countVowelNuclei(text, VOWEL_RULES[language]);
+}
+
+export function countTextSyllables(text: string, language: LanguageCode = 'en'): number {
+  return wordsOf(text, language).reduce((sum, w) => sum + countSyllables(w, language), 0);
+}
+
+/**
+ * Rescale per-section syllable targets between locales by speaking rate: a
+ * 10-second segment holds ~26% more syllables in Spanish than in English, and a
+ * few fewer in German.
+ */
+export function scaleSyllableTargets<T extends Record<string, { min: number; max: number }>>(
+  targets: T,
+  to: string | null | undefined,
+  from: string | null | undefined = DEFAULT_LOCALE,
+): T {
+  const ratio = getLocale(to).syllablesPerSecond / getLocale(from).syllablesPerSecond;
+  if (ratio === 1) return targets;
+  return Object.fromEntries(
+    Object.entries(targets).map(([key, { min, max }]) => [key, { min: Math.round(min * ratio), max: Math.round(max * ratio) }]),
+  ) as T;
 }
 
 export interface SentencePacing {
@@ -37,7 +107,7 @@ export interface PacingAnalysis {
   sentenceCount: number;
 }
 
-export function analyzeSentencePacing(text: string): PacingAnalysis {
+export function analyzeSentencePacing(text: string, language: LanguageCode = 'en'): PacingAnalysis {
   // Split by sentence boundaries: . ! ? followed by space or end of string
   const sentences = text
     .split(/(?<=[.!?])\s+/)
@@ -45,11 +115,11 @@ export function analyzeSentencePacing(text: string): PacingAnalysis {
     .filter((s) => s.length > 0);
 
   const analyzed = sentences.map((sentence) => {
-    const words = sentence.replace(/[^a-zA-Z\s]/g, '').split(/\s+/).filter(Boolean);
+    const words = wordsOf(sentence, language);
     return {
       text: sentence,
       wordCount: words.length,
-      syllableCount: words.reduce((sum, w) => sum + countSyllables(w), 0),
+      syllableCount: words.reduce((sum, w) => sum + countSyllables(w, language), 0),
     };
   });
 
@@ -0,0 +1,297 @@
+// ─── Script Template Library ──────────────────────────────────────────────────
+// Hook templates ScriptingAgent writes from. The seeded set (src/db/seed.ts) grows
+// with templates mined from winning runs: an archived run whose video_performance
+// badge is viral or converting becomes a template of its hook, with the product
+// name generalized to {product}. Selection per category prefers pinned templates;
+// otherwise it draws at random, weighted by how the template's runs in that
+// category did on ROI and GMV against the category average. Templates without
+// runs weigh 1, so new ones still get tried. The pure functions are exported for
+// tests.
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { WINNING_BADGES } from '@/lib/constants';
+import { createLogger } from '@/lib/logger';
+
+const log = createLogger({ agentName: 'Templates' });
+
+/** Runs of evidence the category average counts as, pulling thin records toward it. */
+const PRIOR_RUNS = 3;
+
+/** Weight floor, so a template that did badly is still tried now and then. */
+const MIN_WEIGHT = 0.2;
+
+/** Weight ceiling, so one breakout run cannot crowd out everything else. */
+const MAX_WEIGHT = 5;
+
+export interface ScriptTemplate {
+  id: string;
+  name: string;
+  hook_type: string | null;
+  text_hook_template: string | null;
+  spoken_hook_template: string | null;
+  energy_arc: unknown;
+  hook_score: number | null;
+  categories: string[] | null;
+  times_used: number | null;
+  status: string;
+  pinned: boolean;
+  source: string;
+  source_run_id: string | null;
+}
+
+/** One archived run's results, attributed to the template it was written from. */
+export interface TemplateRunStat {
+  templateId: string;
+  category: string | null;
+  roi: number | null;
+  gmvUsd: number;
+  badge: string | null;
+}
+
+export interface TemplatePerformance {
+  runs: number;
+  wins: number;
+  avgRoi: number | null;
+  totalGmvUsd: number;
+}
+
+// ─── Performance Weighting ────────────────────────────────────────────────────
+
+function mean(values: number[]): number | null {
+  return values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+}
+
+/** Runs, wins, average ROI and total GMV of a template's runs. */
+export function summarizeRuns(stats: TemplateRunStat[]): TemplatePerformance {
+  const rois = stats.map((s) => s.roi).filter((roi): roi is number => roi !== null);
+  const avgRoi = mean(rois);
+  return {
+    runs: stats.length,
+    wins: stats.filter((s) => (WINNING_BADGES as readonly string[]).includes(s.badge ?? '')).length,
+    avgRoi: avgRoi === null ? null : Math.round(avgRoi * 100) / 100,
+    totalGmvUsd: Math.round(stats.reduce((sum, s) => sum + s.gmvUsd, 0) * 100) / 100,
+  };
+}
+
+/**
+ * Shrunk average of `values` relative to the category average: 1 = average, 2 =
+ * twice it. With no category signal (no runs, or an average of 0) everything is 1.
+ */
+function relativeTo(values: number[], categoryMean: number | null): number {
+  if (categoryMean === null || categoryMean <= 0) return 1;
+  const shrunk = (PRIOR_RUNS * categoryMean + values.reduce((sum, v) => sum + v, 0)) / (PRIOR_RUNS + values.length);
+  return shrunk / categoryMean;
+}
+
+/**
+ * Selection weight per template for one category's runs: the mean of its ROI and
+ * GMV per run, each relative to the category average, clamped to
+ * MIN_WEIGHT..MAX_WEIGHT.
+ */
+export function templateWeights(templateIds: string[], categoryStats: TemplateRunStat[]): Map<string, number> {
+  const rois = categoryStats.map((s) => s.roi).filter((roi): roi is number => roi !== null);
+  const meanRoi = mean(rois);
+  const meanGmv = mean(categoryStats.map((s) => s.gmvUsd));
+
+  return new Map(templateIds.map((id) => {
+    const own = categoryStats.filter((s) => s.templateId === id);
+    const roi = relativeTo(own.map((s) => s.roi).filter((r): r is number => r !== null), meanRoi);
+    const gmv = relativeTo(own.map((s) => s.gmvUsd), meanGmv);
+    const weight = Math.min(MAX_WEIGHT, Math.max(MIN_WEIGHT, (roi + gmv) / 2));
+    return [id, Math.round(weight * 100) / 100];
+  }));
+}
+
+/**
+ * Pick a template: the least-used pinned one if any are pinned, otherwise a draw
+ * weighted by `weights` (missing ids weigh 1). Null for an empty list.
+ */
+export function pickTemplate<T extends Pick<ScriptTemplate, 'id' | 'pinned' | 'times_used'>>(
+  templates: T[],
+  weights: Map<string, number>,
+  random: () => number = Math.random,
+): T | null {
+  const pinned = templates.filter((t) => t.pinned);
+  if (pinned.length > 0) {
+    return [...pinned].sort((a, b) => (a.times_used ?? 0) - (b.times_used ?? 0))[0];
+  }
+  if (templates.length === 0) return null;
+
+  const total = templates.reduce((sum, t) => sum + (weights.get(t.id) ?? 1), 0);
+  let roll = random() * total;
+  for (const template of templates) {
+    roll -= weights.get(template.id) ?? 1;
+    if (roll < 0) return template;
+  }
+  return templates[templates.length - 1];
+}
+
+/**
+ * Selection weight of each active template in each of its categories, as the
+ * library shows them. Retired templates get no weights.
+ */
+export function libraryWeights(
+  templates: Pick<ScriptTemplate, 'id' | 'categories' | 'status'>[],
+  stats: TemplateRunStat[],
+): Map<string, Record<string, number>> {
+  const active = templates.filter((t) => t.status === 'active');
+  const categories = [...new Set(active.flatMap((t) => t.categories ?? []))];
+  const result = new Map<string, Record<string, number>>(templates.map((t) => [t.id, {}]));
+
+  for (const category of categories) {
+    const inCategory = active.filter((t) => t.categories?.includes(category)).map((t) => t.id);
+    const weights = templateWeights(inCategory, stats.filter((s) => s.category === category));
+    for (const [id, weight] of weights) result.get(id)![category] = weight;
+  }
+  return result;
+}
+
+/** Every archived run with performance data, attributed to its template. */
+export async function loadTemplateRunStats(supabase: SupabaseClient): Promise<TemplateRunStat[]> {
+  const { data, error } = await supabase
+    .from('video_performance')
+    .select('roi, gmv_usd, performance_badge, completed_run:completed_run_id(script_template_id, product_data)');
+
+  if (error) throw new Error(`Failed to load template performance: ${error.message}`);
+
+  return (data || []).flatMap((row) => {
+    const run = row.completed_run as unknown as { script_template_id: string | null; product_data: { category?: string } | null } | null;
+    if (!run?.script_template_id) return [];
+    return [{
+      templateId: run.script_template_id,
+      category: run.product_data?.category ?? null,
+      roi: row.roi != null ? parseFloat(row.roi) : null,
+      gmvUsd: row.gmv_usd != null ? parseFloat(row.gmv_usd) : 0,
+      badge: row.performance_badge,
+    }];
+  });
+}
+
+/**
+ * Choose the template for a new script in `category` and count the use. Null if
+ * no active template covers the category.
+ */
+export async function selectTemplateForCategory(supabase: SupabaseClient, category: string): Promise<ScriptTemplate | null> {
+  const { data: templates } = await supabase
+    .from('script_template')
+    .select('*')
+    .eq('status', 'active')
+    .contains('categories', [category]);
+
+  if (!templates || templates.length === 0) return null;
+
+  const stats = (await loadTemplateRunStats(supabase)).filter((s) => s.category === category);
+  const weights = templateWeights(templates.map((t) => t.id), stats);
+  const template = pickTemplate(templates as ScriptTemplate[], weights);
+  if (!template) return null;
+
+  await supabase
+    .from('script_template')
+    .update({ times_used: (template.times_used ?? 0) + 1 })
+    .eq('id', template.id);
+
+  return template;
+}
+
+// ─── Mining ───────────────────────────────────────────────────────────────────
+
+/** An archived run with a winning badge, as read for mining. */
+export interface WinningRun {
+  id: string;
+  badge: string;
+  product_data: { product_name?: string; category?: string } | null;
+  script_snapshot: {
+    segments?: Array<{ segment_index: number; script_text?: string | null; text_overlay?: string | null; energy_arc?: unknown }>;
+  } | null;
+  hook_score: number | null;
+  /** The template the run was written from, if any */
+  parent: Pick<ScriptTemplate, 'hook_type' | 'energy_arc'> | null;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Replace the product's name with {product} so the hook reads as a template. */
+export function generalizeHook(text: string, productName: string | undefined): string {
+  const name = productName?.trim();
+  if (!name) return text;
+  return text.replace(new RegExp(escapeRegExp(name), 'gi'), '{product}');
+}
+
+/**
+ * The template row a winning run's hook becomes, or null if the run has no hook
+ * to learn from.
+ */
+export function templateFromRun(run: WinningRun): Omit<ScriptTemplate, 'id' | 'times_used'> | null {
+  const hook = run.script_snapshot?.segments?.find((s) => s.segment_index === 0);
+  if (!hook?.script_text?.trim()) return null;
+
+  const productName = run.product_data?.product_name;
+  const category = run.product_data?.category;
+  const label = run.badge === 'viral' ? 'Viral' : 'Converting';
+
+  return {
+    name: `${label} hook — ${productName || 'product'} (${run.id.slice(0, 8)})`,
+    hook_type: run.parent?.hook_type ?? 'proven_hook',
+    text_hook_template: hook.text_overlay ? generalizeHook(hook.text_overlay, productName) : null,
+    spoken_hook_template: generalizeHook(hook.script_text, productName),
+    energy_arc: hook.energy_arc ?? run.parent?.energy_arc ?? null,
+    hook_score: run.hook_score,
+    categories: category ? [category] : [],
+    status: 'active',
+    pinned: false,
+    source: 'mined',
+    source_run_id: run.id,
+  };
+}
+
+/**
+ * Turn every winning run not yet mined into a template. Idempotent: a run is
+ * mined once (script_template.source_run_id is unique), even if its template is
+ * later retired. Returns the new template ids.
+ */
+export async function mineTemplates(supabase: SupabaseClient): Promise<string[]> {
+  const { data: winners, error } = await supabase
+    .from('video_performance')
+    .select('performance_badge, completed_run:completed_run_id(id, product_data, script_snapshot, hook_score, script_template_id)')
+    .in('performance_badge', [...WINNING_BADGES]);
+
+  if (error) throw new Error(`Failed to load winning runs: ${error.message}`);
+
+  const { data: templates } = await supabase
+    .from('script_template')
+    .select('id, hook_type, energy_arc, source_run_id');
+
+  const mined = new Set((templates || []).map((t) => t.source_run_id).filter(Boolean));
+  const byId = new Map((templates || []).map((t) => [t.id, t]));
+  const created: string[] = [];
+
+  for (const winner of winners || []) {
+    const run = winner.completed_run as unknown as (Omit<WinningRun, 'badge' | 'parent'> & { script_template_id: string | null }) | null;
+    if (!run || mined.has(run.id)) continue;
+
+    const row = templateFromRun({
+      ...run,
+      badge: winner.performance_badge,
+      parent: run.script_template_id ? byId.get(run.script_template_id) ?? null : null,
+    });
+    if (!row) continue;
+
+    const { data: inserted, error: insertError } = await supabase
+      .from('script_template')
+      .insert(row)
+      .select('id')
+      .single();
+
+    if (insertError || !inserted) {
+      log.warn({ runId: run.id, err: insertError?.message }, 'Failed to mine template from run');
+      continue;
+    }
+    mined.add(run.id);
+    created.push(inserted.id);
+  }
+
+  log.info({ winners: winners?.length ?? 0, mined: created.length }, 'Template mining complete');
+  return created;
+}
@@ -0,0 +1,151 @@
+// ─── TikTok Metrics Sync ──────────────────────────────────────────────────────
+// Pulls view/like/comment/share counts for every posted video, recomputes ROI and
+// the performance badge, and writes the day's performance_snapshot. Runs from the
+// Sync button (/api/tiktok/sync) and nightly from the worker's scheduler, so the
+// snapshot series has a row per day whether or not anyone opened the dashboard.
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createLogger } from '@/lib/logger';
+import { fetchVideoMetrics, type TikTokVideoMetrics } from '@/lib/tiktok';
+import {
+  computePerformanceBadge,
+  computeRoi,
+  computeDaysSincePost,
+  shouldCreateSnapshot,
+} from '@/lib/performance';
+
+const log = createLogger({ agentName: 'TikTokSync' });
+
+export interface TikTokSyncResult {
+  synced: number;
+  /** TikTok video IDs that returned no metrics or failed to save */
+  errors: string[];
+  /** Snapshots written (at most one per video per day) */
+  snapshots: number;
+}
+
+interface SyncedVideoRow {
+  id: string;
+  tiktok_video_id: string;
+  created_at: string;
+  last_synced_at: string | null;
+  avg_watch_time_seconds: string | null;
+  completion_rate_pct: string | null;
+  units_sold: number | null;
+  gmv_usd: string | null;
+  conversion_rate_pct: string | null;
+  add_to_cart_rate_pct: string | null;
+  completed_run: { total_cost_usd: string | null; created_at: string } | null;
+}
+
+function hasManualData(video: SyncedVideoRow): boolean {
+  return (
+    parseFloat(video.avg_watch_time_seconds || '0') > 0 ||
+    parseFloat(video.completion_rate_pct || '0') > 0 ||
+    (video.units_sold ?? 0) > 0 ||
+    parseFloat(video.gmv_usd || '0') > 0 ||
+    parseFloat(video.conversion_rate_pct || '0') > 0 ||
+    parseFloat(video.add_to_cart_rate_pct || '0') > 0
+  );
+}
+
+/**
+ * Sync every video_performance row that has a TikTok video ID. Throws if the rows
+ * cannot be read or the TikTok API call fails; per-video write failures are
+ * returned in `errors`.
+ */
+export async function syncTikTokMetrics(
+  supabase: SupabaseClient,
+  accessToken: string,
+): Promise<TikTokSyncResult> {
+  const { data, error: fetchError } = await supabase
+    .from('video_performance')
+    .select('*, completed_run:completed_run(total_cost_usd, created_at)')
+    .not('tiktok_video_id', 'is', null);
+
+  if (fetchError) {
+    throw new Error(`Failed to fetch video performance rows: ${fetchError.message}`);
+  }
+
+  const videos = (data ?? []) as SyncedVideoRow[];
+  const result: TikTokSyncResult = { synced: 0, errors: [], snapshots: 0 };
+  if (videos.length === 0) return result;
+
+  const metricsResponse = await fetchVideoMetrics(accessToken, videos.map((v) => v.tiktok_video_id));
+  const metricsMap = new Map<string, TikTokVideoMetrics>();
+  for (const metric of metricsResponse) {
+    metricsMap.set(metric.id, metric);
+  }
+
+  for (const video of videos) {
+    const metrics = metricsMap.get(video.tiktok_video_id);
+    if (!metrics) {
+      result.errors.push(video.tiktok_video_id);
+      continue;
+    }
+
+    const totalCost = parseFloat(video.completed_run?.total_cost_usd || '0');
+    const gmvUsd = parseFloat(video.gmv_usd || '0');
+    const roi = computeRoi(gmvUsd, totalCost);
+    const daysSincePost = computeDaysSincePost(video.completed_run?.created_at || video.created_at);
+    const badge = computePerformanceBadge({
+      views: metrics.view_count || 0,
+      conversionRatePct: video.conversion_rate_pct ? parseFloat(video.conversion_rate_pct) : null,
+      gmvUsd,
+      roi,
+      daysSincePost,
+    });
+
+    const now = new Date().toISOString();
+    const { error: updateError } = await supabase
+      .from('video_performance')
+      .update({
+        views: metrics.view_count || 0,
+        likes: metrics.like_count || 0,
+        comments: metrics.comment_count || 0,
+        shares: metrics.share_count || 0,
+        data_source: hasManualData(video) ? 'mixed' : 'api',
+        roi,
+        performance_badge: badge,
+        last_synced_at: now,
+        updated_at: now,
+      })
+      .eq('id', video.id);
+
+    if (updateError) {
+      log.error(
+        { videoId: video.id, tiktokVideoId: video.tiktok_video_id, error: updateError },
+        'Failed to update video performance',
+      );
+      result.errors.push(video.tiktok_video_id);
+      continue;
+    }
+
+    // One snapshot per calendar day
+    if (shouldCreateSnapshot(video.last_synced_at)) {
+      const { error: snapshotError } = await supabase.from('performance_snapshot').upsert(
+        {
+          video_performance_id: video.id,
+          snapshot_date: now.split('T')[0],
+          days_since_post: daysSincePost,
+          views: metrics.view_count || 0,
+          likes: metrics.like_count || 0,
+          comments: metrics.comment_count || 0,
+          shares: metrics.share_count || 0,
+          units_sold: video.units_sold || 0,
+          gmv_usd: gmvUsd,
+        },
+        { onConflict: 'video_performance_id,snapshot_date' },
+      );
+      if (snapshotError) {
+        log.warn({ videoId: video.id, error: snapshotError }, 'Failed to write performance snapshot');
+      } else {
+        result.snapshots++;
+      }
+    }
+
+    result.synced++;
+  }
+
+  return result;
+}
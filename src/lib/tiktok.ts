@@ -12,6 +12,9 @@ const TIKTOK_USERINFO_URL = 'https://open.tiktokapis.com/v2/user/info/';
 
 const VIDEO_FIELDS = 'id,title,video_description,duration,cover_image_url,like_count,comment_count,share_count,view_count';
 
+/** Refresh on use when the access token has less than this left. */
+const TOKEN_EXPIRY_MARGIN_MS = 5 * 60 * 1000;
+
 // ─── Types ────────────────────────────────────────────────────────────────────
 
 export interface TikTokTokenResponse {
@@ -203,32 +206,31 @@ export async function fetchUserInfo(accessToken: string): Promise<TikTokUserInfo
 
 // ─── Token Management ─────────────────────────────────────────────────────────
 
-/**
- * Get a valid access token from the DB. Auto-refreshes if expired.
- * Throws if no connection exists or refresh fails.
- */
-export async function getValidAccessToken(): Promise<string> {
+interface TikTokConnectionRow {
+  id: string;
+  access_token: string;
+  refresh_token: string | null;
+  token_expires_at: string;
+}
+
+async function getConnection(): Promise<TikTokConnectionRow> {
   const { data: conn, error } = await supabase
     .from('tiktok_connection')
-    .select('*')
+    .select('id, access_token, refresh_token, token_expires_at')
     .limit(1)
     .single();
 
   if (error || !conn) {
     throw new Error('NO_TIKTOK_CONNECTION');
   }
+  return conn as TikTokConnectionRow;
+}
 
-  const expiresAt = new Date(conn.token_expires_at);
-  if (expiresAt > new Date()) {
-    return conn.access_token;
-  }
-
-  // Token expired — try to refresh
+async function refreshConnection(conn: TikTokConnectionRow): Promise<string> {
   if (!conn.refresh_token) {
     throw new Error('TIKTOK_TOKEN_EXPIRED_NO_REFRESH');
   }
 
-  logger.info('Access token expired, refreshing...');
   const tokens = await refreshAccessToken(conn.refresh_token);
 
   await supabase
@@ -243,3 +245,42 @@ export async function getValidAccessToken(): Promise<string> {
 
   return tokens.access_token;
 }
+
+/**
+ * Get a valid access token from the DB. Auto-refreshes if it expires within
+ * TOKEN_EXPIRY_MARGIN_MS, so a sync never starts with a token about to lapse.
+ * Throws if no connection exists or refresh fails.
+ */
+export async function getValidAccessToken(): Promise<string> {
+  const conn = await getConnection();
+
+  const expiresAt = new Date(conn.token_expires_at);
+  if (expiresAt.getTime() - Date.now() > TOKEN_EXPIRY_MARGIN_MS) {
+    return conn.access_token;
+  }
+
+  logger.info('Access token expired or expiring, refreshing...');
+  return refreshConnection(conn);
+}
+
+/**
+ * Refresh the stored token if it expires within `withinMs`. The scheduler runs
+ * this hourly so the token is renewed while the refresh token still works,
+ * rather than on the first sync after it lapsed. Returns whether it refreshed;
+ * a missing connection is not an error.
+ */
+export async function refreshExpiringToken(withinMs: number): Promise<boolean> {
+  let conn: TikTokConnectionRow;
+  try {
+    conn = await getConnection();
+  } catch {
+    return false;
+  }
+
+  const expiresInMs = new Date(conn.token_expires_at).getTime() - Date.now();
+  if (expiresInMs > withinMs) return false;
+
+  logger.info({ expiresInMs }, 'Access token expiring soon, refreshing ahead of time');
+  await refreshConnection(conn);
+  return true;
+}
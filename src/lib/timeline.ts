@@ -0,0 +1,368 @@
+// ─── Timeline ─────────────────────────────────────────────────────────────────
+// Declarative description of the final video, built from scene/asset/broll_shot
+// rows. Renderers consume a Timeline instead of template-specific slot names, and
+// it is stored on project.timeline so the UI can inspect a render before paying for it.
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  CAPTION_STYLE_PRESETS,
+  MUSIC_MIX,
+  RESOLUTION,
+  pickKenBurnsDirection,
+  type CaptionStyleId,
+  type KenBurnsDirection,
+} from '@/lib/constants';
+import { getCaptionWords, paginateCaptionWords, type CaptionWord } from '@/lib/captions';
+import { resolveProjectMusic } from '@/lib/music';
+
+export const TIMELINE_VERSION = 1;
+export const TIMELINE_FPS = 30;
+
+export type TransitionType = 'cut' | 'fade';
+
+export interface Transition {
+  type: TransitionType;
+  /** Seconds */
+  duration: number;
+}
+
+interface BaseClip {
+  id: string;
+  /** Seconds from the start of the timeline */
+  start: number;
+  /** Seconds on the timeline */
+  duration: number;
+  /** -1 for clips that span the whole timeline (the music bed) */
+  segmentIndex: number;
+  transitionIn?: Transition;
+  transitionOut?: Transition;
+}
+
+export interface VideoClip extends BaseClip {
+  type: 'video';
+  source: string;
+  assetId: string | null;
+  /** In/out points within the source, in seconds */
+  in: number;
+  out: number;
+  /** 0-1. Kling's native audio is kept at 0 — only the voiceover should be heard */
+  volume: number;
+}
+
+export interface AudioClip extends BaseClip {
+  type: 'audio';
+  source: string;
+  assetId: string | null;
+  in: number;
+  out: number;
+  volume: number;
+}
+
+export interface ImageClip extends BaseClip {
+  type: 'image';
+  source: string;
+  brollShotId: string | null;
+  shotIndex: number;
+  kenBurns: KenBurnsDirection;
+}
+
+export interface TextClip extends BaseClip {
+  type: 'text';
+  text: string;
+}
+
+/** One caption page; the word being spoken is highlighted karaoke-style. */
+export interface CaptionClip extends BaseClip {
+  type: 'caption';
+  /** Word timings in seconds relative to the clip start */
+  words: CaptionWord[];
+  style: CaptionStyleId;
+}
+
+export type TimelineClip = VideoClip | AudioClip | ImageClip | TextClip | CaptionClip;
+
+export type TrackKind = 'video' | 'audio' | 'overlay';
+
+/** Lower this track's gain while another track has signal (e.g. music under voiceover). */
+export interface DuckingRule {
+  /** Track whose signal triggers the duck */
+  triggerTrackId: string;
+  /** Gain applied while ducked, 0-1 */
+  level: number;
+  attackMs: number;
+  releaseMs: number;
+}
+
+export interface TimelineTrack {
+  id: string;
+  kind: TrackKind;
+  clips: TimelineClip[];
+  ducking?: DuckingRule;
+}
+
+export interface Timeline {
+  version: typeof TIMELINE_VERSION;
+  width: number;
+  height: number;
+  fps: number;
+  /** Seconds */
+  duration: number;
+  segmentDuration: number;
+  /** Tracks are composited in order — later tracks draw on top of earlier ones */
+  tracks: TimelineTrack[];
+  builtAt: string;
+}
+
+export interface TimelineIssue {
+  clipId: string;
+  issue: 'data_uri_detected' | 'non_https_url';
+  urlPrefix: string;
+}
+
+// ─── Builder ──────────────────────────────────────────────────────────────────
+
+export interface TimelineAssetRow {
+  id: string;
+  type: string;
+  url: string | null;
+  metadata?: Record<string, unknown> | null;
+  scene?: { segment_index: number | null; text_overlay: string | null } | null;
+}
+
+export interface TimelineBrollRow {
+  id: string;
+  segment_index: number;
+  shot_index: number;
+  image_url: string | null;
+  timing_seconds: number | string;
+  duration_seconds: number | string | null;
+}
+
+export interface TimelineMusicRow {
+  id: string;
+  url: string;
+  duration_seconds: number | string | null;
+}
+
+export interface TimelineRows {
+  assets: TimelineAssetRow[];
+  brollShots: TimelineBrollRow[];
+  /** Background music bed, if the project has one */
+  music?: TimelineMusicRow | null;
+}
+
+export interface BuildTimelineOptions {
+  segmentDuration: number;
+  /** null disables burned-in captions */
+  captionStyle?: CaptionStyleId | null;
+  width?: number;
+  height?: number;
+  now?: Date;
+}
+
+/**
+ * Classify an asset URL for rendering. data: URIs are dropped (B0.23) — renderers
+ * need a fetchable URL. Non-HTTPS URLs are kept but reported.
+ */
+function checkUrl(clipId: string, url: string, issues: TimelineIssue[]): boolean {
+  if (url.startsWith('data:')) {
+    issues.push({ clipId, issue: 'data_uri_detected', urlPrefix: url.substring(0, 30) });
+    return false;
+  }
+  if (!url.startsWith('https://')) {
+    issues.push({ clipId, issue: 'non_https_url', urlPrefix: url.substring(0, 60) });
+  }
+  return true;
+}
+
+/**
+ * Build a Timeline from completed video/audio assets and B-roll shots.
+ * Segments play back to back in segment order, each segmentDuration long; a segment
+ * without a usable video is left out entirely along with its audio, text and B-roll.
+ */
+export function buildTimeline(
+  rows: TimelineRows,
+  options: BuildTimelineOptions,
+): { timeline: Timeline; issues: TimelineIssue[] } {
+  const D = options.segmentDuration;
+  const issues: TimelineIssue[] = [];
+
+  const videos = new Map<number, TimelineAssetRow>();
+  const audios = new Map<number, TimelineAssetRow>();
+  const texts = new Map<number, string>();
+
+  for (const asset of rows.assets) {
+    const segIdx = asset.scene?.segment_index;
+    if (segIdx === null || segIdx === undefined) continue;
+    if (!asset.url) continue;
+
+    if (asset.type === 'video') videos.set(segIdx, asset);
+    else if (asset.type === 'audio') audios.set(segIdx, asset);
+
+    if (asset.scene?.text_overlay && !texts.has(segIdx)) {
+      texts.set(segIdx, asset.scene.text_overlay);
+    }
+  }
+
+  const videoTrack: TimelineTrack = { id: 'video', kind: 'video', clips: [] };
+  const brollTrack: TimelineTrack = { id: 'broll', kind: 'overlay', clips: [] };
+  const textTrack: TimelineTrack = { id: 'text', kind: 'overlay', clips: [] };
+  const captionTrack: TimelineTrack = { id: 'captions', kind: 'overlay', clips: [] };
+  const captionStyle = options.captionStyle ?? null;
+  const voiceTrack: TimelineTrack = { id: 'voiceover', kind: 'audio', clips: [] };
+
+  let cursor = 0;
+  for (const segIdx of [...videos.keys()].sort((a, b) => a - b)) {
+    const video = videos.get(segIdx)!;
+    const videoClipId = `video-${segIdx}`;
+    if (!checkUrl(videoClipId, video.url!, issues)) continue;
+
+    const start = cursor;
+    cursor += D;
+
+    videoTrack.clips.push({
+      id: videoClipId, type: 'video', segmentIndex: segIdx,
+      start, duration: D, source: video.url!, assetId: video.id,
+      in: 0, out: D, volume: 0,
+    });
+
+    const audio = audios.get(segIdx);
+    const audioClipId = `audio-${segIdx}`;
+    if (audio && checkUrl(audioClipId, audio.url!, issues)) {
+      const measuredMs = Number(audio.metadata?.durationMs);
+      const length = measuredMs > 0 ? Math.min(measuredMs / 1000, D) : D;
+      voiceTrack.clips.push({
+        id: audioClipId, type: 'audio', segmentIndex: segIdx,
+        start, duration: length, source: audio.url!, assetId: audio.id,
+        in: 0, out: length, volume: 1,
+      });
+
+      if (captionStyle) {
+        const pages = paginateCaptionWords(
+          getCaptionWords(audio.metadata),
+          CAPTION_STYLE_PRESETS[captionStyle].wordsPerPage,
+        );
+        pages.forEach((page, p) => {
+          if (page.start >= length) return;
+          const pageEnd = Math.min(page.end, length);
+          captionTrack.clips.push({
+            id: `caption-${segIdx}-${p}`, type: 'caption', segmentIndex: segIdx,
+            start: start + page.start, duration: pageEnd - page.start, style: captionStyle,
+            words: page.words.map((w) => ({
+              text: w.text,
+              start: w.start - page.start,
+              end: Math.min(w.end, pageEnd) - page.start,
+            })),
+          });
+        });
+      }
+    }
+
+    const text = texts.get(segIdx);
+    if (text) {
+      textTrack.clips.push({
+        id: `text-${segIdx}`, type: 'text', segmentIndex: segIdx,
+        start, duration: D, text,
+      });
+    }
+
+    for (const shot of rows.brollShots) {
+      if (shot.segment_index !== segIdx || !shot.image_url) continue;
+      const offset = Math.max(0, Math.min(Number(shot.timing_seconds) || 0, D));
+      const duration = Math.min(Number(shot.duration_seconds) || 2.5, D - offset);
+      if (duration <= 0) continue;
+      brollTrack.clips.push({
+        id: `broll-${segIdx}-${shot.shot_index}`, type: 'image', segmentIndex: segIdx,
+        start: start + offset, duration, source: shot.image_url,
+        brollShotId: shot.id, shotIndex: shot.shot_index,
+        kenBurns: pickKenBurnsDirection(shot.shot_index),
+      });
+    }
+  }
+
+  // Music bed under the whole video, ducked while the voiceover speaks
+  const musicTrack: TimelineTrack = {
+    id: 'music', kind: 'audio', clips: [],
+    ducking: {
+      triggerTrackId: voiceTrack.id,
+      level: MUSIC_MIX.duckLevel,
+      attackMs: MUSIC_MIX.attackMs,
+      releaseMs: MUSIC_MIX.releaseMs,
+    },
+  };
+  const music = rows.music;
+  if (music && cursor > 0 && checkUrl('music', music.url, issues)) {
+    const trackLength = Number(music.duration_seconds);
+    const length = trackLength > 0 ? Math.min(trackLength, cursor) : cursor;
+    musicTrack.clips.push({
+      id: 'music', type: 'audio', segmentIndex: -1,
+      start: 0, duration: length, source: music.url, assetId: null,
+      in: 0, out: length, volume: MUSIC_MIX.volume,
+      transitionIn: { type: 'fade', duration: MUSIC_MIX.fadeInSeconds },
+      transitionOut: { type: 'fade', duration: MUSIC_MIX.fadeOutSeconds },
+    });
+  }
+
+  const timeline: Timeline = {
+    version: TIMELINE_VERSION,
+    width: options.width ?? RESOLUTION.width,
+    height: options.height ?? RESOLUTION.height,
+    fps: TIMELINE_FPS,
+    duration: cursor,
+    segmentDuration: D,
+    tracks: [videoTrack, brollTrack, textTrack, captionTrack, voiceTrack, musicTrack],
+    builtAt: (options.now ?? new Date()).toISOString(),
+  };
+
+  return { timeline, issues };
+}
+
+/** Fetch the rows a Timeline is built from, resolving the project's music bed. */
+export async function loadTimelineRows(supabase: SupabaseClient, projectId: string): Promise<TimelineRows> {
+  const { data: assets, error } = await supabase
+    .from('asset')
+    .select('id, type, url, metadata, scene:scene(segment_index, text_overlay)')
+    .eq('project_id', projectId)
+    .in('type', ['video', 'audio'])
+    .eq('status', 'completed');
+
+  if (error) throw new Error(`Failed to fetch assets: ${error.message}`);
+
+  const { data: brollShots } = await supabase
+    .from('broll_shot')
+    .select('id, segment_index, shot_index, image_url, timing_seconds, duration_seconds')
+    .eq('project_id', projectId)
+    .eq('status', 'completed')
+    .not('image_url', 'is', null)
+    .order('segment_index')
+    .order('shot_index');
+
+  const { data: project } = await supabase
+    .from('project')
+    .select('id, tone, music_mode, music_track_id')
+    .eq('id', projectId)
+    .single();
+
+  const music = project ? await resolveProjectMusic(supabase, project) : null;
+
+  return {
+    assets: (assets ?? []) as unknown as TimelineAssetRow[],
+    brollShots: (brollShots ?? []) as TimelineBrollRow[],
+    music,
+  };
+}
+
+// ─── Queries ──────────────────────────────────────────────────────────────────
+
+export function getTrack(timeline: Timeline, id: string): TimelineTrack | undefined {
+  return timeline.tracks.find((t) => t.id === id);
+}
+
+export function clipsOfType<T extends TimelineClip['type']>(
+  timeline: Timeline,
+  type: T,
+): Array<Extract<TimelineClip, { type: T }>> {
+  return timeline.tracks
+    .flatMap((t) => t.clips)
+    .filter((c): c is Extract<TimelineClip, { type: T }> => c.type === type);
+}
@@ -0,0 +1,350 @@
+// ─── A/B Hook Variants ────────────────────────────────────────────────────────
+// A project with variant_count > 1 gets variant_count - 1 sibling projects
+// (variant_parent_id → parent, variant_index 1..n-1). Each sibling has its own
+// Hook segment and reuses the parent's Problem/Solution/CTA scenes, keyframes,
+// clips, voiceover and B-roll — only segment 0 is cast, directed and voiced per
+// variant. Siblings are ordinary projects, so completed_run and video_performance
+// track each render separately and analytics can compare them.
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createLogger } from '@/lib/logger';
+
+const log = createLogger({ agentName: 'Variants' });
+
+/** Project settings a sibling copies from its parent (and re-syncs before casting). */
+export const INHERITED_COLUMNS = [
+  'product_id',
+  'product_url',
+  'product_name',
+  'product_category',
+  'product_data',
+  'product_image_url',
+  'concept',
+  'video_url',
+  'video_analysis',
+  'input_mode',
+  'tone',
+  'locale',
+  'influencer_id',
+  'character_id',
+  'video_model_id',
+  'style_preset_id',
+  'syllable_targets',
+  'product_placement',
+  'negative_prompt_override',
+  'keyframe_chaining',
+  'renderer',
+  'caption_style',
+  'music_mode',
+  'music_track_id',
+  'fast_mode',
+  'auto_approve',
+  'batch_id',
+  'budget_usd',
+  'budget_override',
+] as const;
+
+/** Completed per-scene assets a sibling borrows from its parent for segments 1+. */
+const SHARED_ASSET_TYPES = ['keyframe_start', 'keyframe_end', 'video', 'audio'];
+
+type Row = Record<string, unknown>;
+
+/** Copy a row without the given columns (ids and timestamps are regenerated on insert). */
+function omit(row: Row, keys: string[]): Row {
+  return Object.fromEntries(Object.entries(row).filter(([key]) => !keys.includes(key)));
+}
+
+/** A/B label for a variant index: 0 → A (the parent), 1 → B, ... */
+export function variantLabel(index: number): string {
+  return String.fromCharCode(65 + index);
+}
+
+/**
+ * Create the sibling projects for a parent with variant_count > 1. Returns their
+ * ids in variant_index order, or [] if the project is itself a sibling, has a
+ * single variant, or already has siblings.
+ */
+export async function createVariantProjects(
+  supabase: SupabaseClient,
+  parentId: string,
+): Promise<string[]> {
+  const { data: parent, error } = await supabase
+    .from('project')
+    .select(`name, variant_count, variant_parent_id, ${INHERITED_COLUMNS.join(', ')}`)
+    .eq('id', parentId)
+    .single();
+
+  if (error || !parent) {
+    throw new Error(`Project not found: ${parentId}`);
+  }
+
+  const parentRow = parent as unknown as Row;
+  const variantCount = (parentRow.variant_count as number) ?? 1;
+  if (parentRow.variant_parent_id || variantCount <= 1) return [];
+
+  const { count: existing } = await supabase
+    .from('project')
+    .select('id', { count: 'exact', head: true })
+    .eq('variant_parent_id', parentId);
+
+  if (existing) {
+    log.info({ parentId, existing }, 'Hook variants already exist, skipping');
+    return [];
+  }
+
+  const baseName = (parentRow.name as string | null) || (parentRow.product_name as string | null) || 'Project';
+  const inherited = Object.fromEntries(INHERITED_COLUMNS.map((col) => [col, parentRow[col] ?? null]));
+  const ids: string[] = [];
+
+  for (let index = 1; index < variantCount; index++) {
+    const { data: sibling, error: insertError } = await supabase
+      .from('project')
+      .insert({
+        ...inherited,
+        name: `${baseName} — Hook ${variantLabel(index)}`,
+        status: 'created',
+        variant_parent_id: parentId,
+        variant_index: index,
+      })
+      .select('id')
+      .single();
+
+    if (insertError || !sibling) {
+      throw new Error(`Failed to create hook variant ${index}: ${insertError?.message}`);
+    }
+    ids.push(sibling.id);
+  }
+
+  log.info({ parentId, variants: ids.length }, 'Hook variant projects created');
+  return ids;
+}
+
+/** Latest script of a project, with the latest version of each scene. */
+async function fetchLatestScenes(
+  supabase: SupabaseClient,
+  projectId: string,
+): Promise<{ scriptId: string; scenes: Row[] }> {
+  const { data: script } = await supabase
+    .from('script')
+    .select('id')
+    .eq('project_id', projectId)
+    .order('version', { ascending: false })
+    .limit(1)
+    .single();
+
+  if (!script) {
+    throw new Error(`No script found for project ${projectId}`);
+  }
+
+  const { data: sceneRows } = await supabase
+    .from('scene')
+    .select('*')
+    .eq('script_id', script.id)
+    .order('segment_index')
+    .order('version', { ascending: false });
+
+  const latest = new Map<number, Row>();
+  for (const scene of sceneRows || []) {
+    if (!latest.has(scene.segment_index)) latest.set(scene.segment_index, scene);
+  }
+
+  return { scriptId: script.id, scenes: Array.from(latest.values()) };
+}
+
+type SharedCounts = { sharedScenes: number; sharedAssets: number; sharedBrollShots: number };
+
+/**
+ * What the variant already shares with the parent, or null unless it holds a
+ * copy of every current parent segment 1+, completed parent asset and B-roll shot.
+ */
+async function findSharedCopies(
+  supabase: SupabaseClient,
+  parentId: string,
+  parentScript: { scriptId: string; scenes: Row[] },
+  variantId: string,
+  variantScript: { scriptId: string; scenes: Row[] },
+): Promise<SharedCounts | null> {
+  const parentScenes = parentScript.scenes.filter((s) => (s.segment_index as number) > 0);
+  const variantScenes = variantScript.scenes.filter((s) => (s.segment_index as number) > 0);
+  if (parentScenes.length === 0 || variantScenes.length !== parentScenes.length) return null;
+
+  const variantText = new Map(variantScenes.map((s) => [s.segment_index as number, s.script_text]));
+  if (parentScenes.some((s) => variantText.get(s.segment_index as number) !== s.script_text)) return null;
+
+  const { data: parentAssets } = await supabase
+    .from('asset')
+    .select('id')
+    .eq('project_id', parentId)
+    .eq('status', 'completed')
+    .in('type', SHARED_ASSET_TYPES)
+    .in('scene_id', parentScenes.map((s) => s.id as string));
+
+  const { data: variantAssets } = await supabase
+    .from('asset')
+    .select('metadata')
+    .eq('project_id', variantId)
+    .in('scene_id', variantScenes.map((s) => s.id as string));
+
+  const copied = new Set((variantAssets || []).map((a) => a.metadata?.sharedFromAssetId));
+  if ((parentAssets || []).some((a) => !copied.has(a.id))) return null;
+
+  const { count: parentShots } = await supabase
+    .from('broll_shot')
+    .select('id', { count: 'exact', head: true })
+    .eq('script_id', parentScript.scriptId)
+    .gt('segment_index', 0);
+
+  const { count: variantShots } = await supabase
+    .from('broll_shot')
+    .select('id', { count: 'exact', head: true })
+    .eq('project_id', variantId);
+
+  if ((parentShots ?? 0) !== (variantShots ?? 0)) return null;
+
+  return {
+    sharedScenes: variantScenes.length,
+    sharedAssets: (parentAssets || []).length,
+    sharedBrollShots: variantShots ?? 0,
+  };
+}
+
+/**
+ * Give a sibling everything but its hook: re-sync the parent's settings (the
+ * influencer, product image or music may have changed at a review gate), then
+ * copy the parent's segment 1+ scenes, their completed assets and B-roll shots.
+ * Idempotent — if a previous attempt already shared the parent's current
+ * segments they are kept as they are; anything stale is replaced.
+ */
+export async function prepareVariant(
+  supabase: SupabaseClient,
+  variantId: string,
+): Promise<{ parentId: string; sharedScenes: number; sharedAssets: number; sharedBrollShots: number }> {
+  const { data: variant } = await supabase
+    .from('project')
+    .select('variant_parent_id')
+    .eq('id', variantId)
+    .single();
+
+  const parentId = variant?.variant_parent_id as string | undefined;
+  if (!parentId) {
+    throw new Error(`Project ${variantId} is not a hook variant`);
+  }
+
+  // 1. Re-sync inherited settings
+  const { data: parent } = await supabase
+    .from('project')
+    .select(INHERITED_COLUMNS.join(', '))
+    .eq('id', parentId)
+    .single();
+
+  if (!parent) {
+    throw new Error(`Parent project not found: ${parentId}`);
+  }
+
+  await supabase
+    .from('project')
+    .update({ ...(parent as unknown as Row), updated_at: new Date().toISOString() })
+    .eq('id', variantId);
+
+  const parentScript = await fetchLatestScenes(supabase, parentId);
+  const variantScript = await fetchLatestScenes(supabase, variantId);
+  const hook = variantScript.scenes.find((s) => s.segment_index === 0);
+  if (!hook) {
+    throw new Error(`Hook variant ${variantId} has no hook scene`);
+  }
+
+  // 2. Keep what a previous attempt shared if the parent hasn't changed since
+  const shared = await findSharedCopies(supabase, parentId, parentScript, variantId, variantScript);
+  if (shared) {
+    log.info({ variantId, parentId, ...shared }, 'Hook variant already shares the parent segments');
+    return { parentId, ...shared };
+  }
+
+  // 3. Otherwise drop anything shared by a previous attempt
+  const staleSceneIds = variantScript.scenes
+    .filter((s) => (s.segment_index as number) > 0)
+    .map((s) => s.id as string);
+  if (staleSceneIds.length > 0) {
+    await supabase.from('asset').delete().in('scene_id', staleSceneIds);
+    await supabase.from('scene').delete().in('id', staleSceneIds);
+  }
+  await supabase.from('broll_shot').delete().eq('project_id', variantId);
+
+  // 4. Copy segment 1+ scenes into the variant's script
+  const sharedScenes = parentScript.scenes.filter((s) => (s.segment_index as number) > 0);
+  const sceneIdMap = new Map<string, string>();
+  for (const scene of sharedScenes) {
+    const { data: copy, error } = await supabase
+      .from('scene')
+      .insert({ ...omit(scene, ['id', 'created_at']), script_id: variantScript.scriptId })
+      .select('id')
+      .single();
+
+    if (error || !copy) {
+      throw new Error(`Failed to copy scene ${scene.segment_index}: ${error?.message}`);
+    }
+    sceneIdMap.set(scene.id as string, copy.id);
+  }
+
+  // 5. Borrow their completed keyframes, clips and voiceover (cost stays on the parent)
+  let sharedAssets = 0;
+  if (sceneIdMap.size > 0) {
+    const { data: assets } = await supabase
+      .from('asset')
+      .select('*')
+      .eq('project_id', parentId)
+      .eq('status', 'completed')
+      .in('type', SHARED_ASSET_TYPES)
+      .in('scene_id', Array.from(sceneIdMap.keys()));
+
+    const copies = (assets || []).map((a) => ({
+      ...omit(a, ['id', 'created_at', 'updated_at']),
+      project_id: variantId,
+      scene_id: sceneIdMap.get(a.scene_id),
+      cost_usd: '0',
+      metadata: { ...(a.metadata || {}), sharedFromAssetId: a.id },
+    }));
+
+    if (copies.length > 0) {
+      const { error } = await supabase.from('asset').insert(copies);
+      if (error) throw new Error(`Failed to share parent assets: ${error.message}`);
+    }
+    sharedAssets = copies.length;
+  }
+
+  // 6. Copy segment 1+ B-roll shots (the variant's own hook has none)
+  const { data: shots } = await supabase
+    .from('broll_shot')
+    .select('*')
+    .eq('script_id', parentScript.scriptId)
+    .gt('segment_index', 0);
+
+  const shotCopies = (shots || []).map((shot) => ({
+    ...omit(shot, ['id', 'created_at', 'updated_at']),
+    project_id: variantId,
+    script_id: variantScript.scriptId,
+  }));
+
+  if (shotCopies.length > 0) {
+    const { error } = await supabase.from('broll_shot').insert(shotCopies);
+    if (error) throw new Error(`Failed to share parent B-roll: ${error.message}`);
+  }
+
+  // 7. Full text = variant hook + shared segments
+  const fullText = [hook, ...sharedScenes]
+    .sort((a, b) => (a.segment_index as number) - (b.segment_index as number))
+    .map((s) => s.script_text)
+    .join('\n\n');
+
+  await supabase
+    .from('script')
+    .update({ full_text: fullText })
+    .eq('id', variantScript.scriptId);
+
+  log.info(
+    { variantId, parentId, sharedScenes: sharedScenes.length, sharedAssets, sharedBrollShots: shotCopies.length },
+    'Hook variant prepared from parent'
+  );
+
+  return { parentId, sharedScenes: sharedScenes.length, sharedAssets, sharedBrollShots: shotCopies.length };
+}
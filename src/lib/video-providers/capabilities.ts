@@ -0,0 +1,22 @@
+import type { VideoModelConfig } from '@/lib/constants';
+import type { VideoCapabilities, VideoRequest } from './types';
+
+/** Capability flags of a video_model row; rows older than a column get the Kling defaults. */
+export function capabilitiesOf(model: VideoModelConfig): VideoCapabilities {
+  return {
+    supports_tail_image: model.supports_tail_image,
+    supports_multi_prompt: model.supports_multi_prompt,
+    max_duration: model.max_duration ?? model.segment_duration,
+    native_audio: model.native_audio ?? true,
+  };
+}
+
+/** Drop the inputs a model cannot take and cap the clip length. */
+export function fitRequest(request: VideoRequest, capabilities: VideoCapabilities): VideoRequest {
+  return {
+    ...request,
+    tailImage: capabilities.supports_tail_image ? request.tailImage : undefined,
+    multiPrompt: capabilities.supports_multi_prompt ? request.multiPrompt : undefined,
+    duration: Math.min(request.duration, capabilities.max_duration),
+  };
+}
@@ -0,0 +1,24 @@
+import { VIDEO_PROVIDERS, type VideoModelConfig, type VideoProviderId } from '@/lib/constants';
+import { MockVideoProvider } from './mock-provider';
+import { WaveSpeedVideoProvider } from './wavespeed-provider';
+import type { VideoProvider } from './types';
+
+export type { VideoCapabilities, VideoProvider, VideoRequest } from './types';
+export { capabilitiesOf } from './capabilities';
+
+export function isVideoProvider(value: unknown): value is VideoProviderId {
+  return typeof value === 'string' && (VIDEO_PROVIDERS as readonly string[]).includes(value);
+}
+
+/** The adapter for a video model, picked by its `provider` column. */
+export function getVideoProvider(model: VideoModelConfig): VideoProvider {
+  if (!isVideoProvider(model.provider)) {
+    throw new Error(`Unknown video provider "${model.provider}" for video model ${model.slug}`);
+  }
+  switch (model.provider) {
+    case 'wavespeed':
+      return new WaveSpeedVideoProvider(model);
+    case 'mock':
+      return new MockVideoProvider(model);
+  }
+}
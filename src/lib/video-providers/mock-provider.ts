@@ -0,0 +1,42 @@
+import crypto from 'crypto';
+import type { VideoModelConfig } from '@/lib/constants';
+import { mockAssetUrl } from '@/lib/mock-providers';
+import type { ProviderTaskState } from '@/lib/webhooks';
+import { capabilitiesOf, fitRequest } from './capabilities';
+import type { VideoCapabilities, VideoProvider, VideoRequest } from './types';
+
+/**
+ * Offline stand-in for a video model (video_model.provider = 'mock'). The same
+ * request always gets the same task ID and clip URL, and every task is finished
+ * as soon as it is submitted. MOCK_VIDEO_URL points every clip at one real file;
+ * otherwise clips are test patterns of the requested length, served by the
+ * mock-assets route (see src/lib/mock-providers).
+ */
+export class MockVideoProvider implements VideoProvider {
+  readonly id = 'mock' as const;
+  readonly slot = null;
+  readonly capabilities: VideoCapabilities;
+
+  constructor(model: VideoModelConfig) {
+    this.capabilities = capabilitiesOf(model);
+  }
+
+  async submit(request: VideoRequest): Promise<{ taskId: string }> {
+    const fitted = fitRequest(request, this.capabilities);
+    const hash = crypto.createHash('sha256').update(JSON.stringify(fitted)).digest('hex');
+    return { taskId: `mock-${hash.slice(0, 16)}-${fitted.duration}s` };
+  }
+
+  async poll(taskId: string): Promise<{ url?: string }> {
+    return { url: this.clipUrl(taskId) };
+  }
+
+  async check(taskId: string): Promise<ProviderTaskState> {
+    return { status: 'completed', url: this.clipUrl(taskId) };
+  }
+
+  private clipUrl(taskId: string): string {
+    const duration = /-(\d+(?:\.\d+)?)s$/.exec(taskId);
+    return process.env.MOCK_VIDEO_URL || mockAssetUrl('video', taskId, duration ? Number(duration[1]) : undefined);
+  }
+}
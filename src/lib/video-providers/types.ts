@@ -0,0 +1,43 @@
+import type { RateLimitedProvider, VideoProviderId } from '@/lib/constants';
+import type { ApiCallContext } from '@/lib/api-clients/wavespeed';
+import type { ProviderTaskState } from '@/lib/webhooks';
+
+/** What a video model accepts, from its video_model row. */
+export interface VideoCapabilities {
+  supports_tail_image: boolean;
+  supports_multi_prompt: boolean;
+  /** Longest clip per call, in seconds */
+  max_duration: number;
+  /** Generates its own audio track */
+  native_audio: boolean;
+}
+
+export interface VideoRequest {
+  /** Start frame URL */
+  image: string;
+  /** End frame URL; dropped unless the model supports_tail_image */
+  tailImage?: string;
+  prompt: string;
+  negativePrompt?: string;
+  /** Per-shot prompts; dropped unless the model supports_multi_prompt */
+  multiPrompt?: { prompt: string; duration: string }[];
+  /** Clip length in seconds; capped at max_duration */
+  duration: number;
+  cfgScale?: number;
+}
+
+/**
+ * An image-to-video model behind one API. DirectorAgent and clip regeneration
+ * only talk to this interface; the project's video_model row picks the adapter.
+ */
+export interface VideoProvider {
+  readonly id: VideoProviderId;
+  readonly capabilities: VideoCapabilities;
+  /** Fleet-wide slot held from submit until the clip is ready (null = unlimited) */
+  readonly slot: RateLimitedProvider | null;
+  submit(request: VideoRequest, context?: ApiCallContext): Promise<{ taskId: string }>;
+  /** Wait for the clip; throws if the task fails or `maxWait` runs out */
+  poll(taskId: string, options?: { maxWait?: number; shouldCancel?: () => Promise<boolean> }): Promise<{ url?: string }>;
+  /** Check the task once, without waiting */
+  check(taskId: string): Promise<ProviderTaskState>;
+}
@@ -0,0 +1,33 @@
+import { WaveSpeedClient, type ApiCallContext } from '@/lib/api-clients/wavespeed';
+import type { VideoModelConfig } from '@/lib/constants';
+import type { ProviderTaskState } from '@/lib/webhooks';
+import { capabilitiesOf, fitRequest } from './capabilities';
+import type { VideoCapabilities, VideoProvider, VideoRequest } from './types';
+
+/** Any image-to-video model hosted on WaveSpeed; video_model.api_endpoint is the model's path. */
+export class WaveSpeedVideoProvider implements VideoProvider {
+  readonly id = 'wavespeed' as const;
+  readonly slot = 'wavespeed_video' as const;
+  readonly capabilities: VideoCapabilities;
+  private endpoint: string;
+  private client: WaveSpeedClient;
+
+  constructor(model: VideoModelConfig, client?: WaveSpeedClient) {
+    this.capabilities = capabilitiesOf(model);
+    this.endpoint = model.api_endpoint;
+    this.client = client ?? new WaveSpeedClient();
+  }
+
+  submit(request: VideoRequest, context?: ApiCallContext): Promise<{ taskId: string }> {
+    const fitted = fitRequest(request, this.capabilities);
+    return this.client.generateVideo({ ...fitted, sound: this.capabilities.native_audio }, context, this.endpoint);
+  }
+
+  async poll(taskId: string, options?: { maxWait?: number; shouldCancel?: () => Promise<boolean> }): Promise<{ url?: string }> {
+    return this.client.pollResult(taskId, options);
+  }
+
+  check(taskId: string): Promise<ProviderTaskState> {
+    return this.client.getResult(taskId);
+  }
+}
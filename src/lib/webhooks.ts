@@ -0,0 +1,126 @@
+// ─── Provider Webhooks ────────────────────────────────────────────────────────
+// With WEBHOOK_BASE_URL and WEBHOOK_SECRET set, WaveSpeed and Creatomate tasks are
+// submitted with a callback URL, and jobs that would otherwise poll for minutes
+// park themselves in the queue's delayed set instead of holding a worker slot.
+// The callback route records the outcome on the task's asset row and promotes the
+// parked job. A parked job also wakes on its own every WEBHOOK_SWEEP_INTERVAL_MS
+// and checks the task once, so a missed callback only costs latency.
+
+import crypto from 'crypto';
+import { Job } from 'bullmq';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { WEBHOOK_SWEEP_INTERVAL_MS } from '@/lib/constants';
+import { getPipelineQueue } from '@/lib/queue';
+import { releaseTaskSlot } from '@/lib/rate-limiter';
+
+export type WebhookProvider = 'wavespeed' | 'creatomate';
+
+/** Where a provider task stands, from a callback or a one-off status check. */
+export interface ProviderTaskState {
+  status: 'pending' | 'completed' | 'failed';
+  url?: string;
+  error?: string;
+}
+
+/** Parked-job pointers outlive the longest task wait by a wide margin. */
+const WAITER_TTL_SECONDS = 24 * 60 * 60;
+
+function waiterKey(taskId: string): string {
+  return `webhook:waiter:${taskId}`;
+}
+
+export function webhooksEnabled(): boolean {
+  return !!process.env.WEBHOOK_BASE_URL && !!process.env.WEBHOOK_SECRET;
+}
+
+/** Callback URL to submit with a provider task, or undefined when webhooks are off. */
+export function webhookUrl(provider: WebhookProvider): string | undefined {
+  if (!webhooksEnabled()) return undefined;
+  const url = new URL(`/api/webhooks/${provider}`, process.env.WEBHOOK_BASE_URL);
+  url.searchParams.set('token', process.env.WEBHOOK_SECRET!);
+  return url.toString();
+}
+
+/** Neither provider signs its callbacks, so the URL carries the shared secret. */
+export function verifyWebhookToken(token: string | null): boolean {
+  const secret = process.env.WEBHOOK_SECRET;
+  if (!secret || !token) return false;
+  const given = Buffer.from(token);
+  const expected = Buffer.from(secret);
+  return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+}
+
+/**
+ * Record a finished task on its `generating` asset row and free the provider slot
+ * it held while parked. Returns the rows updated (none if the task is unknown,
+ * still pending, or was already settled or cancelled).
+ */
+export async function settleTaskAsset(
+  supabase: SupabaseClient,
+  taskId: string,
+  state: ProviderTaskState,
+): Promise<{ id: string; project_id: string }[]> {
+  if (state.status === 'pending') return [];
+
+  const fields = state.status === 'completed'
+    ? { status: 'completed', url: state.url || '' }
+    : { status: 'failed' };
+  const { data, error } = await supabase
+    .from('asset')
+    .update({ ...fields, updated_at: new Date().toISOString() })
+    .eq('provider_task_id', taskId)
+    .eq('status', 'generating')
+    .select('id, project_id');
+
+  if (error) {
+    throw new Error(`Failed to settle asset for task ${taskId}: ${error.message}`);
+  }
+  await releaseTaskSlot(taskId);
+  return data ?? [];
+}
+
+/**
+ * Move an active job to the delayed set until `taskId` finishes. Call from the
+ * processor, then throw bullmq's DelayedError so the worker lets go of the job.
+ */
+export async function parkJob(
+  job: Job,
+  token: string | undefined,
+  taskId: string,
+  supabase: SupabaseClient,
+): Promise<void> {
+  const redis = await getPipelineQueue().client;
+  await redis.set(waiterKey(taskId), job.id!, 'EX', WAITER_TTL_SECONDS);
+  await job.updateData({ ...job.data, awaitingTaskId: taskId });
+  await job.moveToDelayed(Date.now() + WEBHOOK_SWEEP_INTERVAL_MS, token);
+
+  // The callback may have landed between the submission and the park
+  const { data: pending } = await supabase
+    .from('asset')
+    .select('id')
+    .eq('provider_task_id', taskId)
+    .eq('status', 'generating')
+    .limit(1);
+  if (!pending || pending.length === 0) {
+    await job.promote().catch(() => undefined);
+  }
+}
+
+/** Promote the job parked on `taskId`, if any. Returns true if a job was woken. */
+export async function wakeParkedJob(taskId: string): Promise<boolean> {
+  const queue = getPipelineQueue();
+  const redis = await queue.client;
+  const jobId = await redis.get(waiterKey(taskId));
+  if (!jobId) return false;
+  await redis.del(waiterKey(taskId));
+
+  const job = await Job.fromId(queue, jobId);
+  if (!job || !(await job.isDelayed())) return false;
+  try {
+    await job.promote();
+    return true;
+  } catch {
+    // Woken by its own sweep in the meantime
+    return false;
+  }
+}
@@ -0,0 +1,61 @@
+// ─── Word Diff ────────────────────────────────────────────────────────────────
+// Word-level diff between two versions of a script line, for the script history
+// view. Words are whitespace-separated and compared exactly, so punctuation
+// belongs to its word ("great," vs "great!" is a change). Runs of the same kind
+// are merged. Pure and dependency-free so the client can import it.
+
+export type DiffKind = 'same' | 'added' | 'removed';
+
+export interface DiffPart {
+  kind: DiffKind;
+  text: string;
+}
+
+function words(text: string | null | undefined): string[] {
+  return (text ?? '').trim().split(/\s+/).filter(Boolean);
+}
+
+/** Diff `after` against `before` by longest common subsequence of words. */
+export function diffWords(before: string | null | undefined, after: string | null | undefined): DiffPart[] {
+  const a = words(before);
+  const b = words(after);
+
+  // lcs[i][j] = common words in a[i..] and b[j..]
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (kind: DiffKind, word: string) => {
+    const last = parts[parts.length - 1];
+    if (last?.kind === kind) last.text += ` ${word}`;
+    else parts.push({ kind, text: word });
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push('same', a[i]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push('removed', a[i++]);
+    } else {
+      push('added', b[j++]);
+    }
+  }
+  while (i < a.length) push('removed', a[i++]);
+  while (j < b.length) push('added', b[j++]);
+
+  return parts;
+}
+
+/** Words added and removed in a diff. */
+export function diffStats(parts: DiffPart[]): { added: number; removed: number } {
+  const count = (kind: DiffKind) => parts.filter((p) => p.kind === kind).reduce((sum, p) => sum + words(p.text).length, 0);
+  return { added: count('added'), removed: count('removed') };
+}
@@ -37,7 +37,11 @@ export async function middleware(request: NextRequest) {
   if (
     !user &&
     !request.nextUrl.pathname.startsWith('/login') &&
-    !request.nextUrl.pathname.startsWith('/auth')
+    !request.nextUrl.pathname.startsWith('/auth') &&
+    // Provider callbacks carry their own token (src/lib/webhooks.ts)
+    !request.nextUrl.pathname.startsWith('/api/webhooks') &&
+    // Fixture files for mock mode, fetched by the worker (src/lib/mock-providers)
+    !request.nextUrl.pathname.startsWith('/api/mock-assets')
   ) {
     const url = request.nextUrl.clone();
     url.pathname = '/login';
@@ -1,7 +1,7 @@
 import { config } from 'dotenv';
 // Load .env.local for local dev; Railway/production sets env vars directly
 config({ path: '.env.local' });
-import { Worker, Job } from 'bullmq';
+import { Worker, Job, DelayedError } from 'bullmq';
 import { createClient } from '@supabase/supabase-js';
 import IORedis from 'ioredis';
 import { ProductAnalyzerAgent } from '../agents/product-analyzer';
@@ -13,16 +13,29 @@ import { EditorAgent } from '../agents/editor-agent';
 import { BRollAgent } from '../agents/broll-agent';
 import { VideoAnalysisAgent } from '../agents/video-analysis-agent';
 import { StylePresetAgent } from '../agents/style-preset-agent';
+import { ComplianceAgent } from '../agents/compliance-agent';
 import { WaveSpeedClient } from '../lib/api-clients/wavespeed';
 import { ElevenLabsClient } from '../lib/api-clients/elevenlabs';
-import { FALLBACK_VOICES, API_COSTS, VIDEO_POLL_MAX_WAIT, VideoModelConfig, getFallbackVideoModel, PRODUCT_PLACEMENT_ARC, VISIBILITY_ANGLE_MAP, RESOLUTION } from '../lib/constants';
+import { FALLBACK_VOICES, API_COSTS, VIDEO_POLL_MAX_WAIT, VideoModelConfig, getFallbackVideoModel, PRODUCT_PLACEMENT_ARC, VISIBILITY_ANGLE_MAP, RESOLUTION, DEFAULT_WORKER_CONCURRENCY, type ProjectStatus } from '../lib/constants';
 import { isStructuredPrompt, resolveNegativePrompt } from '../lib/prompt-schema';
 import { serializeAsJSON, serializeForVideo } from '../lib/prompt-serializer';
-import { getPipelineQueue, type PipelineJobData } from '../lib/queue';
+import { buildSegmentFlow, getFlowProducer, getPipelineQueue } from '../lib/queue';
 import { APP_VERSION, GIT_COMMIT } from '../lib/version';
 import { createLogger, logToGenerationLog } from '../lib/logger';
 import crypto from 'crypto';
-import { CancellationError } from '../lib/errors';
+import { BudgetExceededError, CancellationError, InvalidTransitionError, TaskPendingError } from '../lib/errors';
+import { alignmentToWords } from '../lib/captions';
+import { analyzeAudio } from '../lib/audio-analysis';
+import { maybeAutoAdvance } from '../lib/auto-advance';
+import { createVariantProjects, prepareVariant } from '../lib/variants';
+import { assertBudget, checkStageBudget } from '../lib/budget';
+import { getStage, type StageId } from '../lib/pipeline';
+import { failStage, transitionProject } from '../lib/project-status';
+import { withProviderSlot } from '../lib/rate-limiter';
+import { getVideoProvider } from '../lib/video-providers';
+import { parkJob, webhooksEnabled } from '../lib/webhooks';
+import { recordDeadLetter } from '../lib/dead-letters';
+import { isScheduledStep, registerScheduledJobs, runScheduledJob } from '../lib/scheduler';
 
 // Worker-level logger
 const log = createLogger({ agentName: 'PipelineWorker' });
@@ -62,6 +75,142 @@ function buildShouldCancel(projectId: string, assetId?: string): () => Promise<b
   };
 }
 
+/**
+ * Cancel check for the segment jobs of a fanned-out stage. Besides the cancel
+ * flag it treats the project leaving the stage as a cancel: the cancel route
+ * moves the project back to its gate in the same request, so a segment still
+ * stops if the flag has since been cleared by a re-approval or retry.
+ */
+function buildSegmentShouldCancel(projectId: string, stage: StageId): () => Promise<boolean> {
+  const { statuses } = getStage(stage);
+  return async () => {
+    const { data } = await supabase
+      .from('project')
+      .select('status, cancel_requested_at')
+      .eq('id', projectId)
+      .single();
+    return !data || !!data.cancel_requested_at || !statuses.includes(data.status);
+  };
+}
+
+/** Segment jobs of a fanned-out stage; they run side by side under one completion job. */
+const SEGMENT_STEPS = new Set(['casting_segment', 'directing_segment']);
+
+/**
+ * Refuse to start a stage whose projected cost would take the project or its
+ * batch past budget_usd. The thrown BudgetExceededError fails the stage like any
+ * other error, but the job is not retried.
+ */
+async function assertStageBudget(projectId: string, stage: string, correlationId: string): Promise<void> {
+  const check = await checkStageBudget(supabase, projectId, stage);
+  if (!check.allowed) {
+    await logToGenerationLog(supabase, {
+      project_id: projectId, correlation_id: correlationId,
+      event_type: 'budget_exceeded', agent_name: 'PipelineWorker', stage,
+      detail: { ...check },
+    });
+  }
+  assertBudget(check);
+}
+
+/**
+ * True if BullMQ is running this job again: a retry after a failed attempt, a job
+ * the worker stalled on (it died mid-stage), or a parked job woken by its provider.
+ */
+function isRerun(job: Job): boolean {
+  return job.attemptsMade > 0 || job.attemptsStarted > 1;
+}
+
+/**
+ * Move the project into the stage's running status (pipeline.ts decides if it may
+ * start from here). Returns `rerun`: a job BullMQ is running again resumes from
+ * the agents' checkpoints instead of starting over, and skips the up-front budget
+ * projection (the interrupted run passed it); agents still check each new paid
+ * call. A new job always starts fresh, even if a route already set the stage's
+ * status before enqueueing it. A job cancelled while still queued throws
+ * CancellationError before it can move the project out of the gate the cancel
+ * route returned it to.
+ */
+async function startStage(projectId: string, stage: StageId, rerun = false): Promise<boolean> {
+  if (await isProjectCancelled(projectId)) {
+    throw new CancellationError(`Stage ${stage} cancelled before start`);
+  }
+  const { statuses } = getStage(stage);
+  if (rerun) {
+    const { data: project } = await supabase
+      .from('project')
+      .select('status')
+      .eq('id', projectId)
+      .single();
+    // A stage with several statuses (hook variants) resumes in the one it reached
+    if (project && statuses.includes(project.status)) return true;
+  }
+  await transitionProject(supabase, projectId, statuses[0]);
+  return rerun;
+}
+
+/**
+ * Move a finished stage on to its review gate. Throws InvalidTransitionError if
+ * the project left the stage while it ran (cancelled back to a gate).
+ */
+async function completeStage(projectId: string, stage: StageId, fields: Record<string, unknown> = {}): Promise<void> {
+  const { statuses, next } = getStage(stage);
+  await transitionProject(supabase, projectId, next!, fields, { from: statuses[statuses.length - 1] });
+}
+
+/** Enqueue the stage that follows `stage` with no review gate in between. */
+async function enqueueNextStage(projectId: string, stage: StageId): Promise<void> {
+  const { step } = getStage(getStage(stage).then!);
+  await getPipelineQueue().add(step, { projectId, step });
+}
+
+/**
+ * Guard for segment and completion jobs of a fanned-out stage. Throws
+ * CancellationError if the user cancelled (in the completion job, which only
+ * runs after every segment job, that also clears the flag), or
+ * InvalidTransitionError if the project has otherwise left the stage, so queued
+ * segments stop instead of generating for a stage that is no longer running.
+ */
+async function assertStageRunning(projectId: string, stage: StageId): Promise<{ keyframe_chaining: boolean | null }> {
+  const { data: project } = await supabase
+    .from('project')
+    .select('status, cancel_requested_at, keyframe_chaining')
+    .eq('id', projectId)
+    .single();
+
+  if (!project) throw new Error(`Project not found: ${projectId}`);
+  if (project.cancel_requested_at) {
+    throw new CancellationError(`Stage ${stage} cancelled`);
+  }
+  const { statuses } = getStage(stage);
+  if (!statuses.includes(project.status)) {
+    throw new InvalidTransitionError(project.status, statuses[0], `Stage ${stage} is no longer running (project is ${project.status})`);
+  }
+  return project;
+}
+
+/** Log and record the failure of a casting/directing flow job. */
+async function failSegmentedStage(
+  projectId: string,
+  stage: StageId,
+  agentName: string,
+  error: unknown,
+  durationMs: number,
+  correlationId: string,
+  jobLog: ReturnType<typeof createLogger>,
+): Promise<void> {
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  jobLog.error({ err: error, durationMs }, `${agentName} ${stage} failed`);
+
+  await logToGenerationLog(supabase, {
+    project_id: projectId, correlation_id: correlationId,
+    event_type: 'stage_error', agent_name: agentName, stage,
+    detail: { error: errorMessage, durationMs },
+  });
+
+  await failStage(supabase, projectId, stage, errorMessage);
+}
+
 // Set up standalone Redis connection
 const redisUrl = process.env.REDIS_CONNECTION_URL || 'redis://localhost:6379';
 const parsedRedis = new URL(redisUrl);
@@ -95,52 +244,11 @@ async function getVideoModelForProject(projectId: string): Promise<VideoModelCon
   return getFallbackVideoModel();
 }
 
-// ─── Fast Mode Auto-Advance ──────────────────────────────────────────────────
-// R1.5.29: When project.fast_mode is true, auto-advance through skippable review gates.
-// Never skips: broll_review (needs influencer selection), influencer_selection (needs user input), asset_review (final deliverable).
-
-const FAST_MODE_SKIPPABLE_GATES: Record<string, { step: string; jobName: string }> = {
-  analysis_review: { step: 'scripting', jobName: 'scripting' },
-  script_review: { step: 'broll_planning', jobName: 'broll_planning' },
-  casting_review: { step: 'directing', jobName: 'directing' },
-};
-
-async function maybeAutoAdvance(projectId: string, newStatus: string, correlationId: string): Promise<boolean> {
-  const gate = FAST_MODE_SKIPPABLE_GATES[newStatus];
-  if (!gate) return false;
-
-  const { data: project } = await supabase
-    .from('project')
-    .select('fast_mode')
-    .eq('id', projectId)
-    .single();
-
-  if (!project?.fast_mode) return false;
-
-  await logToGenerationLog(supabase, {
-    project_id: projectId,
-    correlation_id: correlationId,
-    event_type: 'fast_mode_skip',
-    agent_name: 'PipelineWorker',
-    stage: newStatus,
-    detail: { skippedGate: newStatus, autoAdvanceTo: gate.step },
-  });
-
-  // Enqueue next step immediately
-  await getPipelineQueue().add(gate.jobName, {
-    projectId,
-    step: gate.step as PipelineJobData['step'],
-  });
-
-  log.info({ projectId, skippedGate: newStatus, nextStep: gate.step }, 'Fast mode: auto-advanced past review gate');
-  return true;
-}
-
 log.info({ version: APP_VERSION, commit: GIT_COMMIT }, 'Pipeline worker starting');
 
 const worker = new Worker(
   'pipeline',
-  async (job: Job) => {
+  async (job: Job, token?: string) => {
     const { projectId, productId, step } = job.data;
     const correlationId = crypto.randomUUID();
     const jobLog = createLogger({ agentName: 'PipelineWorker', jobId: job.id, correlationId, projectId: projectId || productId });
@@ -153,17 +261,27 @@ const worker = new Worker(
     } else if (step === 'scripting') {
       await handleScripting(projectId, correlationId, jobLog);
     } else if (step === 'casting') {
-      await handleCasting(projectId, correlationId, jobLog);
+      await handleCasting(projectId, `${projectId}-${job.id}`, isRerun(job), correlationId, jobLog);
+    } else if (step === 'casting_segment') {
+      await handleCastingSegment(projectId, job.data.segmentIndex, correlationId, jobLog);
+    } else if (step === 'casting_complete') {
+      await handleCastingComplete(projectId, job.timestamp, correlationId, jobLog);
     } else if (step === 'directing') {
-      await handleDirecting(projectId, correlationId, jobLog);
+      await handleDirecting(projectId, `${projectId}-${job.id}`, isRerun(job), correlationId, jobLog);
+    } else if (step === 'directing_segment') {
+      await handleDirectingSegment(projectId, job.data.segmentIndex, job.timestamp, job.data.awaitingTaskId ?? null, correlationId, jobLog);
+    } else if (step === 'directing_complete') {
+      await handleDirectingComplete(projectId, job.timestamp, correlationId, jobLog);
     } else if (step === 'voiceover') {
-      await handleVoiceover(projectId, correlationId, jobLog);
+      await handleVoiceover(projectId, isRerun(job), correlationId, jobLog);
     } else if (step === 'broll_planning') {
       await handleBrollPlanning(projectId, correlationId, jobLog);
     } else if (step === 'broll_generation') {
-      await handleBrollGeneration(projectId, correlationId, jobLog);
+      await handleBrollGeneration(projectId, isRerun(job), correlationId, jobLog);
     } else if (step === 'editing') {
-      await handleEditing(projectId, correlationId, jobLog);
+      await handleEditing(projectId, job.timestamp, !!job.data.awaitingTaskId, isRerun(job), correlationId, jobLog);
+    } else if (step === 'variant_generation') {
+      await handleVariantGeneration(projectId, isRerun(job), correlationId, jobLog);
     } else if (step === 'regenerate_asset') {
       await handleAssetRegeneration(projectId, job.data.assetId, correlationId, jobLog);
     } else if (step === 'regenerate_asset_cascade') {
@@ -178,10 +296,18 @@ const worker = new Worker(
       agent.setCorrelationId(correlationId);
       await agent.run(presetId);
       jobLog.info({ presetId }, 'Style preset analysis complete');
+    } else if (isScheduledStep(step)) {
+      await runScheduledJob(step, supabase, getPipelineQueue(), correlationId);
     } else {
       jobLog.warn({ step }, 'Unknown step, skipping');
     }
     } catch (err) {
+      if (err instanceof TaskPendingError) {
+        // Give the worker slot back until the provider's webhook (or the sweep) wakes the job
+        await parkJob(job, token, err.taskId, supabase);
+        jobLog.info({ step, projectId, taskId: err.taskId }, 'Job parked until provider task finishes');
+        throw new DelayedError();
+      }
       if (err instanceof CancellationError) {
         jobLog.info({ step, projectId }, 'Job cancelled by user, exiting cleanly');
         await logToGenerationLog(supabase, {
@@ -197,14 +323,34 @@ const worker = new Worker(
             .update({ status: 'cancelled', updated_at: new Date().toISOString() })
             .eq('project_id', projectId)
             .eq('status', 'generating');
-          // Clear cancel flag now that worker has stopped
-          await supabase
-            .from('project')
-            .update({ cancel_requested_at: null, updated_at: new Date().toISOString() })
-            .eq('id', projectId);
+          // Clear cancel flag now that worker has stopped. A segment job leaves it
+          // for its siblings still running; the stage's completion job only runs
+          // once every segment job has finished, and clears it then.
+          if (!SEGMENT_STEPS.has(step)) {
+            await supabase
+              .from('project')
+              .update({ cancel_requested_at: null, updated_at: new Date().toISOString() })
+              .eq('id', projectId);
+          }
         }
         return; // Exit cleanly — no retry
       }
+      if (err instanceof BudgetExceededError) {
+        // The stage handler already marked the project failed; retrying would hit the same cap
+        jobLog.warn({ step, projectId, projectedUsd: err.projectedUsd, budgetUsd: err.budgetUsd, scope: err.scope }, 'Budget exceeded, not retrying');
+        await recordDeadLetter(supabase, job, err, correlationId);
+        return;
+      }
+      if (err instanceof InvalidTransitionError) {
+        // The project moved on without this job (cancelled, restarted) — a retry would be just as
+        // stale. An expected no-op, so it is logged as skipped rather than dead-lettered.
+        jobLog.info({ step, projectId, from: err.from, to: err.to }, 'Stale job skipped, project status changed');
+        return;
+      }
+      // Out of attempts: BullMQ will only keep the last few failed jobs
+      if (job.attemptsMade + 1 >= (job.opts.attempts ?? 1)) {
+        await recordDeadLetter(supabase, job, err, correlationId);
+      }
       throw err; // Re-throw other errors for BullMQ retry
     }
   },
@@ -218,7 +364,9 @@ const worker = new Worker(
       maxRetriesPerRequest: null,
       ...(isLocalhost ? {} : { tls: {} }),
     },
-    concurrency: 2,
+    // Segment jobs spend most of their time polling providers; the per-provider
+    // limiter (src/lib/rate-limiter.ts) caps the actual load
+    concurrency: parseInt(process.env.WORKER_CONCURRENCY || '', 10) || DEFAULT_WORKER_CONCURRENCY,
   }
 );
 
@@ -287,10 +435,7 @@ async function handleProductAnalysis(projectId: string | undefined, correlationI
 
   // Standard project-linked analysis
   try {
-    await supabase
-      .from('project')
-      .update({ status: 'analyzing', updated_at: new Date().toISOString() })
-      .eq('id', projectId);
+    await startStage(projectId!, 'analyzing');
 
     await logToGenerationLog(supabase, {
       project_id: projectId!, correlation_id: correlationId,
@@ -345,20 +490,15 @@ async function handleProductAnalysis(projectId: string | undefined, correlationI
 
     // Write denormalized fields to project (backward compat)
     const updateData: Record<string, unknown> = {
-      status: 'analysis_review',
       product_data: analysis,
       product_name: analysis.product_name,
       product_category: analysis.category,
-      updated_at: new Date().toISOString(),
     };
     if (analysis.product_image_url) {
       updateData.product_image_url = analysis.product_image_url;
     }
 
-    await supabase
-      .from('project')
-      .update(updateData)
-      .eq('id', projectId);
+    await completeStage(projectId!, 'analyzing', updateData);
 
     const durationMs = Date.now() - stageStart;
     await logToGenerationLog(supabase, {
@@ -368,8 +508,8 @@ async function handleProductAnalysis(projectId: string | undefined, correlationI
     });
     jobLog.info({ durationMs }, 'Product analysis complete');
 
-    // R1.5.29: Fast mode auto-advance past analysis_review
-    await maybeAutoAdvance(projectId!, 'analysis_review', correlationId);
+    // R1.5.29: Fast mode / auto-approve advance past analysis_review
+    await maybeAutoAdvance(supabase, projectId!, 'analysis_review', correlationId);
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
     const durationMs = Date.now() - stageStart;
@@ -381,15 +521,7 @@ async function handleProductAnalysis(projectId: string | undefined, correlationI
       detail: { error: errorMessage, durationMs },
     });
 
-    await supabase
-      .from('project')
-      .update({
-        status: 'failed',
-        failed_at_status: 'analyzing',
-        error_message: errorMessage,
-        updated_at: new Date().toISOString(),
-      })
-      .eq('id', projectId);
+    await failStage(supabase, projectId!, 'analyzing', errorMessage);
 
     // Also mark product as failed if linked
     if (productId) {
@@ -487,25 +619,24 @@ async function handleScripting(projectId: string, correlationId: string, jobLog:
   const stage = 'scripting';
   const stageStart = Date.now();
   try {
-    await supabase
-      .from('project')
-      .update({ status: 'scripting', updated_at: new Date().toISOString() })
-      .eq('id', projectId);
+    await startStage(projectId, 'scripting');
 
     await logToGenerationLog(supabase, {
       project_id: projectId, correlation_id: correlationId,
       event_type: 'stage_start', agent_name: 'ScriptingAgent', stage,
     });
 
+    await assertStageBudget(projectId, stage, correlationId);
+
     const agent = new ScriptingAgent(supabase);
     agent.setCorrelationId(correlationId);
     agent.setVideoModel(await getVideoModelForProject(projectId));
-    await agent.run(projectId);
+    const result = await agent.run(projectId);
 
-    await supabase
-      .from('project')
-      .update({ status: 'script_review', updated_at: new Date().toISOString() })
-      .eq('id', projectId);
+    await createHookVariants(projectId, result.scriptId, agent, correlationId, jobLog);
+    await judgeCompliance(projectId, correlationId, jobLog);
+
+    await completeStage(projectId, 'scripting');
 
     const durationMs = Date.now() - stageStart;
     await logToGenerationLog(supabase, {
@@ -515,8 +646,8 @@ async function handleScripting(projectId: string, correlationId: string, jobLog:
     });
     jobLog.info({ durationMs }, 'Scripting complete');
 
-    // R1.5.29: Fast mode auto-advance past script_review
-    await maybeAutoAdvance(projectId, 'script_review', correlationId);
+    // R1.5.29: Fast mode / auto-approve advance past script_review
+    await maybeAutoAdvance(supabase, projectId, 'script_review', correlationId);
   } catch (error) {
     if (error instanceof CancellationError) throw error;
     const errorMessage = error instanceof Error ? error.message : String(error);
@@ -529,34 +660,85 @@ async function handleScripting(projectId: string, correlationId: string, jobLog:
       detail: { error: errorMessage, durationMs },
     });
 
-    await supabase
-      .from('project')
-      .update({
-        status: 'failed',
-        failed_at_status: 'scripting',
-        error_message: errorMessage,
-        updated_at: new Date().toISOString(),
-      })
-      .eq('id', projectId);
+    await failStage(supabase, projectId, 'scripting', errorMessage);
 
     throw error;
   }
 }
 
-async function handleCasting(projectId: string, correlationId: string, jobLog: ReturnType<typeof createLogger>) {
+/**
+ * LLM compliance judge over the new script. The pattern rules run on every read
+ * regardless, so a judge failure is logged and never fails the stage.
+ */
+async function judgeCompliance(projectId: string, correlationId: string, jobLog: ReturnType<typeof createLogger>) {
+  try {
+    const agent = new ComplianceAgent(supabase);
+    agent.setCorrelationId(correlationId);
+    await agent.run(projectId);
+  } catch (error) {
+    if (error instanceof CancellationError) throw error;
+    jobLog.warn({ err: error }, 'Compliance judge failed, using pattern rules only');
+  }
+}
+
+/**
+ * A/B hook variants: create the parent's sibling projects and write each one an
+ * alternative hook. Failures are logged and mark the siblings failed, but never
+ * fail the parent's own scripting stage.
+ */
+async function createHookVariants(
+  projectId: string,
+  scriptId: string,
+  agent: ScriptingAgent,
+  correlationId: string,
+  jobLog: ReturnType<typeof createLogger>,
+) {
+  let variantIds: string[] = [];
+  try {
+    variantIds = await createVariantProjects(supabase, projectId);
+    if (variantIds.length === 0) return;
+
+    const variants = await agent.writeHookVariants(projectId, scriptId, variantIds);
+
+    await logToGenerationLog(supabase, {
+      project_id: projectId, correlation_id: correlationId,
+      event_type: 'hook_variants_created', agent_name: 'ScriptingAgent', stage: 'scripting',
+      detail: {
+        variants: variants.map((v) => ({ projectId: v.projectId, hookScore: v.hookScore, hookAngle: v.hookAngle })),
+      },
+    });
+    jobLog.info({ variants: variants.length }, 'Hook variants written');
+  } catch (error) {
+    if (error instanceof CancellationError) throw error;
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    jobLog.error({ err: error }, 'Hook variant generation failed');
+
+    await logToGenerationLog(supabase, {
+      project_id: projectId, correlation_id: correlationId,
+      event_type: 'hook_variants_failed', agent_name: 'ScriptingAgent', stage: 'scripting',
+      detail: { error: errorMessage },
+    });
+
+    for (const variantId of variantIds) {
+      await failStage(supabase, variantId, 'scripting', `Hook variant generation failed: ${errorMessage}`);
+    }
+  }
+}
+
+async function handleCasting(projectId: string, flowId: string, rerun: boolean, correlationId: string, jobLog: ReturnType<typeof createLogger>) {
   const stage = 'casting';
   const stageStart = Date.now();
   try {
-    await supabase
-      .from('project')
-      .update({ status: 'casting', updated_at: new Date().toISOString() })
-      .eq('id', projectId);
+    const resumed = await startStage(projectId, 'casting', rerun);
 
     await logToGenerationLog(supabase, {
       project_id: projectId, correlation_id: correlationId,
       event_type: 'stage_start', agent_name: 'CastingAgent', stage,
+      detail: { resumed },
     });
 
+    if (!resumed) await assertStageBudget(projectId, stage, correlationId);
+
     if (await isProjectCancelled(projectId)) {
       throw new CancellationError(`Stage ${stage} cancelled before start`);
     }
@@ -564,15 +746,66 @@ async function handleCasting(projectId: string, correlationId: string, jobLog: R
     const agent = new CastingAgent(supabase);
     agent.setCorrelationId(correlationId);
     agent.setVideoModel(await getVideoModelForProject(projectId));
-    agent.setCancelCheck(buildShouldCancel(projectId));
-    await agent.run(projectId);
+    agent.setResuming(resumed);
+    const segments = await agent.prepare(projectId);
 
-    await supabase
+    // One job per segment, then casting_complete. Keyframe chaining feeds each
+    // segment's end frame into the next, so chained segments run one at a time.
+    const { data: project } = await supabase
       .from('project')
-      .update({ status: 'casting_review', updated_at: new Date().toISOString() })
-      .eq('id', projectId);
+      .select('keyframe_chaining')
+      .eq('id', projectId)
+      .single();
+    const chained = project?.keyframe_chaining !== false;
+    await getFlowProducer().add(buildSegmentFlow(projectId, 'casting_segment', 'casting_complete', segments, chained, flowId));
+
+    jobLog.info({ segments, chained, durationMs: Date.now() - stageStart }, 'Casting segments enqueued');
+  } catch (error) {
+    if (error instanceof CancellationError) throw error;
+    await failSegmentedStage(projectId, stage, 'CastingAgent', error, Date.now() - stageStart, correlationId, jobLog);
+    throw error;
+  }
+}
 
+async function handleCastingSegment(projectId: string, segIdx: number, correlationId: string, jobLog: ReturnType<typeof createLogger>) {
+  const project = await assertStageRunning(projectId, 'casting');
+
+  const agent = new CastingAgent(supabase);
+  agent.setCorrelationId(correlationId);
+  agent.setVideoModel(await getVideoModelForProject(projectId));
+  agent.setCancelCheck(buildSegmentShouldCancel(projectId, 'casting'));
+
+  // Chained segments run after the previous one, so its end frame is already stored
+  const previousEndFrameUrl = project.keyframe_chaining !== false
+    ? await agent.findPreviousEndFrame(projectId, segIdx)
+    : null;
+  const segmentStart = Date.now();
+  try {
+    const { success } = await agent.castSegment(projectId, segIdx, previousEndFrameUrl);
+    jobLog.info({ segIdx, success }, 'Casting segment finished');
+  } catch (error) {
+    // A segment that runs out of budget fails the whole stage; other errors are
+    // retried and, if the segment still fails, left for the completion job
+    if (error instanceof BudgetExceededError) {
+      await failSegmentedStage(projectId, 'casting', 'CastingAgent', error, Date.now() - segmentStart, correlationId, jobLog);
+    }
+    throw error;
+  }
+}
+
+async function handleCastingComplete(projectId: string, stageStart: number, correlationId: string, jobLog: ReturnType<typeof createLogger>) {
+  const stage = 'casting';
+  try {
+    await assertStageRunning(projectId, 'casting');
+
+    const agent = new CastingAgent(supabase);
+    agent.setCorrelationId(correlationId);
+    agent.setVideoModel(await getVideoModelForProject(projectId));
     const durationMs = Date.now() - stageStart;
+    await agent.complete(projectId, durationMs);
+
+    await completeStage(projectId, 'casting');
+
     await logToGenerationLog(supabase, {
       project_id: projectId, correlation_id: correlationId,
       event_type: 'stage_complete', agent_name: 'CastingAgent', stage,
@@ -580,48 +813,29 @@ async function handleCasting(projectId: string, correlationId: string, jobLog: R
     });
     jobLog.info({ durationMs }, 'Casting complete');
 
-    // R1.5.29: Fast mode auto-advance past casting_review
-    await maybeAutoAdvance(projectId, 'casting_review', correlationId);
+    // R1.5.29: Fast mode / auto-approve advance past casting_review
+    await maybeAutoAdvance(supabase, projectId, 'casting_review', correlationId);
   } catch (error) {
-    if (error instanceof CancellationError) throw error;
-    const errorMessage = error instanceof Error ? error.message : String(error);
-    const durationMs = Date.now() - stageStart;
-    jobLog.error({ err: error, durationMs }, 'Casting failed');
-
-    await logToGenerationLog(supabase, {
-      project_id: projectId, correlation_id: correlationId,
-      event_type: 'stage_error', agent_name: 'CastingAgent', stage,
-      detail: { error: errorMessage, durationMs },
-    });
-
-    await supabase
-      .from('project')
-      .update({
-        status: 'failed',
-        failed_at_status: 'casting',
-        error_message: errorMessage,
-        updated_at: new Date().toISOString(),
-      })
-      .eq('id', projectId);
-
+    if (error instanceof CancellationError || error instanceof InvalidTransitionError) throw error;
+    await failSegmentedStage(projectId, stage, 'CastingAgent', error, Date.now() - stageStart, correlationId, jobLog);
     throw error;
   }
 }
 
-async function handleDirecting(projectId: string, correlationId: string, jobLog: ReturnType<typeof createLogger>) {
+async function handleDirecting(projectId: string, flowId: string, rerun: boolean, correlationId: string, jobLog: ReturnType<typeof createLogger>) {
   const stage = 'directing';
   const stageStart = Date.now();
   try {
-    await supabase
-      .from('project')
-      .update({ status: 'directing', updated_at: new Date().toISOString() })
-      .eq('id', projectId);
+    const resumed = await startStage(projectId, 'directing', rerun);
 
     await logToGenerationLog(supabase, {
       project_id: projectId, correlation_id: correlationId,
       event_type: 'stage_start', agent_name: 'DirectorAgent', stage,
+      detail: { resumed },
     });
 
+    if (!resumed) await assertStageBudget(projectId, stage, correlationId);
+
     if (await isProjectCancelled(projectId)) {
       throw new CancellationError(`Stage ${stage} cancelled before start`);
     }
@@ -629,20 +843,55 @@ async function handleDirecting(projectId: string, correlationId: string, jobLog:
     const agent = new DirectorAgent(supabase);
     agent.setCorrelationId(correlationId);
     agent.setVideoModel(await getVideoModelForProject(projectId));
-    agent.setCancelCheck(buildShouldCancel(projectId));
-    await agent.run(projectId);
+    const segments = await agent.prepare(projectId);
 
-    if (await isProjectCancelled(projectId)) {
-      throw new CancellationError(`Stage ${stage} cancelled after completion`);
+    // Each clip only needs its own keyframes, so segments always run in parallel
+    await getFlowProducer().add(buildSegmentFlow(projectId, 'directing_segment', 'directing_complete', segments, false, flowId));
+
+    jobLog.info({ segments, durationMs: Date.now() - stageStart }, 'Directing segments enqueued');
+  } catch (error) {
+    if (error instanceof CancellationError) throw error;
+    await failSegmentedStage(projectId, stage, 'DirectorAgent', error, Date.now() - stageStart, correlationId, jobLog);
+    throw error;
+  }
+}
+
+/** `awaitingTaskId` is set when the job was parked on its clip and is running again. */
+async function handleDirectingSegment(projectId: string, segIdx: number, queuedAt: number, awaitingTaskId: string | null, correlationId: string, jobLog: ReturnType<typeof createLogger>) {
+  await assertStageRunning(projectId, 'directing');
+
+  const agent = new DirectorAgent(supabase);
+  agent.setCorrelationId(correlationId);
+  agent.setVideoModel(await getVideoModelForProject(projectId));
+  agent.setCancelCheck(buildSegmentShouldCancel(projectId, 'directing'));
+  agent.setTaskParking(webhooksEnabled() ? queuedAt : null, awaitingTaskId);
+  const segmentStart = Date.now();
+  try {
+    await agent.directSegment(projectId, segIdx);
+    jobLog.info({ segIdx }, 'Directing segment finished');
+  } catch (error) {
+    // A segment that runs out of budget fails the whole stage; other errors are
+    // retried and, if the segment still fails, left for the completion job
+    if (error instanceof BudgetExceededError) {
+      await failSegmentedStage(projectId, 'directing', 'DirectorAgent', error, Date.now() - segmentStart, correlationId, jobLog);
     }
+    throw error;
+  }
+}
 
-    // Auto-enqueue voiceover (no review gate between directing and voiceover)
-    await getPipelineQueue().add('voiceover', {
-      projectId,
-      step: 'voiceover',
-    });
+async function handleDirectingComplete(projectId: string, stageStart: number, correlationId: string, jobLog: ReturnType<typeof createLogger>) {
+  const stage = 'directing';
+  try {
+    await assertStageRunning(projectId, 'directing');
 
+    const agent = new DirectorAgent(supabase);
+    agent.setCorrelationId(correlationId);
     const durationMs = Date.now() - stageStart;
+    await agent.complete(projectId, durationMs);
+
+    // Auto-enqueue voiceover (no review gate between directing and voiceover)
+    await enqueueNextStage(projectId, 'directing');
+
     await logToGenerationLog(supabase, {
       project_id: projectId, correlation_id: correlationId,
       event_type: 'stage_complete', agent_name: 'DirectorAgent', stage,
@@ -651,50 +900,32 @@ async function handleDirecting(projectId: string, correlationId: string, jobLog:
     jobLog.info({ durationMs }, 'Directing complete, voiceover enqueued');
   } catch (error) {
     if (error instanceof CancellationError) throw error;
-    const errorMessage = error instanceof Error ? error.message : String(error);
-    const durationMs = Date.now() - stageStart;
-    jobLog.error({ err: error, durationMs }, 'Directing failed');
-
-    await logToGenerationLog(supabase, {
-      project_id: projectId, correlation_id: correlationId,
-      event_type: 'stage_error', agent_name: 'DirectorAgent', stage,
-      detail: { error: errorMessage, durationMs },
-    });
-
-    await supabase
-      .from('project')
-      .update({
-        status: 'failed',
-        failed_at_status: 'directing',
-        error_message: errorMessage,
-        updated_at: new Date().toISOString(),
-      })
-      .eq('id', projectId);
-
+    await failSegmentedStage(projectId, stage, 'DirectorAgent', error, Date.now() - stageStart, correlationId, jobLog);
     throw error;
   }
 }
 
-async function handleVoiceover(projectId: string, correlationId: string, jobLog: ReturnType<typeof createLogger>) {
+async function handleVoiceover(projectId: string, rerun: boolean, correlationId: string, jobLog: ReturnType<typeof createLogger>) {
   const stage = 'voiceover';
   const stageStart = Date.now();
   try {
-    await supabase
-      .from('project')
-      .update({ status: 'voiceover', updated_at: new Date().toISOString() })
-      .eq('id', projectId);
+    const resumed = await startStage(projectId, 'voiceover', rerun);
 
     await logToGenerationLog(supabase, {
       project_id: projectId, correlation_id: correlationId,
       event_type: 'stage_start', agent_name: 'VoiceoverAgent', stage,
+      detail: { resumed },
     });
 
+    if (!resumed) await assertStageBudget(projectId, stage, correlationId);
+
     if (await isProjectCancelled(projectId)) {
       throw new CancellationError(`Stage ${stage} cancelled before start`);
     }
 
     const agent = new VoiceoverAgent(supabase);
     agent.setCorrelationId(correlationId);
+    agent.setResuming(resumed);
     agent.setVideoModel(await getVideoModelForProject(projectId));
     await agent.run(projectId);
 
@@ -703,10 +934,7 @@ async function handleVoiceover(projectId: string, correlationId: string, jobLog:
     }
 
     // Auto-enqueue B-roll generation (runs before asset review)
-    await getPipelineQueue().add('broll_generation', {
-      projectId,
-      step: 'broll_generation',
-    });
+    await enqueueNextStage(projectId, 'voiceover');
 
     const durationMs = Date.now() - stageStart;
     await logToGenerationLog(supabase, {
@@ -727,33 +955,28 @@ async function handleVoiceover(projectId: string, correlationId: string, jobLog:
       detail: { error: errorMessage, durationMs },
     });
 
-    await supabase
-      .from('project')
-      .update({
-        status: 'failed',
-        failed_at_status: 'voiceover',
-        error_message: errorMessage,
-        updated_at: new Date().toISOString(),
-      })
-      .eq('id', projectId);
+    await failStage(supabase, projectId, 'voiceover', errorMessage);
 
     throw error;
   }
 }
 
-async function handleEditing(projectId: string, correlationId: string, jobLog: ReturnType<typeof createLogger>) {
+/** `woken` is set when the job was parked on its render and is running again. */
+async function handleEditing(projectId: string, queuedAt: number, woken: boolean, rerun: boolean, correlationId: string, jobLog: ReturnType<typeof createLogger>) {
   const stage = 'editing';
   const stageStart = Date.now();
   try {
-    await supabase
-      .from('project')
-      .update({ status: 'editing', updated_at: new Date().toISOString() })
-      .eq('id', projectId);
+    const resumed = await startStage(projectId, 'editing', rerun);
 
-    await logToGenerationLog(supabase, {
-      project_id: projectId, correlation_id: correlationId,
-      event_type: 'stage_start', agent_name: 'EditorAgent', stage,
-    });
+    if (!woken) {
+      await logToGenerationLog(supabase, {
+        project_id: projectId, correlation_id: correlationId,
+        event_type: 'stage_start', agent_name: 'EditorAgent', stage,
+        detail: { resumed },
+      });
+    }
+
+    if (!resumed) await assertStageBudget(projectId, stage, correlationId);
 
     if (await isProjectCancelled(projectId)) {
       throw new CancellationError(`Stage ${stage} cancelled before start`);
@@ -762,12 +985,10 @@ async function handleEditing(projectId: string, correlationId: string, jobLog: R
     const agent = new EditorAgent(supabase);
     agent.setCorrelationId(correlationId);
     agent.setVideoModel(await getVideoModelForProject(projectId));
+    agent.setTaskParking(webhooksEnabled() ? queuedAt : null);
     await agent.run(projectId);
 
-    await supabase
-      .from('project')
-      .update({ status: 'completed', updated_at: new Date().toISOString() })
-      .eq('id', projectId);
+    await completeStage(projectId, 'editing');
 
     const durationMs = Date.now() - stageStart;
     await logToGenerationLog(supabase, {
@@ -777,7 +998,7 @@ async function handleEditing(projectId: string, correlationId: string, jobLog: R
     });
     jobLog.info({ durationMs }, 'Editing complete');
   } catch (error) {
-    if (error instanceof CancellationError) throw error;
+    if (error instanceof CancellationError || error instanceof TaskPendingError) throw error;
     const errorMessage = error instanceof Error ? error.message : String(error);
     const durationMs = Date.now() - stageStart;
     jobLog.error({ err: error, durationMs }, 'Editing failed');
@@ -788,15 +1009,7 @@ async function handleEditing(projectId: string, correlationId: string, jobLog: R
       detail: { error: errorMessage, durationMs },
     });
 
-    await supabase
-      .from('project')
-      .update({
-        status: 'failed',
-        failed_at_status: 'editing',
-        error_message: errorMessage,
-        updated_at: new Date().toISOString(),
-      })
-      .eq('id', projectId);
+    await failStage(supabase, projectId, 'editing', errorMessage);
 
     throw error;
   }
@@ -806,25 +1019,21 @@ async function handleBrollPlanning(projectId: string, correlationId: string, job
   const stage = 'broll_planning';
   const stageStart = Date.now();
   try {
-    await supabase
-      .from('project')
-      .update({ status: 'broll_planning', updated_at: new Date().toISOString() })
-      .eq('id', projectId);
+    await startStage(projectId, 'broll_planning');
 
     await logToGenerationLog(supabase, {
       project_id: projectId, correlation_id: correlationId,
       event_type: 'stage_start', agent_name: 'BRollAgent', stage,
     });
 
+    await assertStageBudget(projectId, stage, correlationId);
+
     const agent = new BRollAgent(supabase);
     agent.setCorrelationId(correlationId);
     agent.setVideoModel(await getVideoModelForProject(projectId));
     await agent.plan(projectId);
 
-    await supabase
-      .from('project')
-      .update({ status: 'broll_review', updated_at: new Date().toISOString() })
-      .eq('id', projectId);
+    await completeStage(projectId, 'broll_planning');
 
     const durationMs = Date.now() - stageStart;
     await logToGenerationLog(supabase, {
@@ -833,6 +1042,9 @@ async function handleBrollPlanning(projectId: string, correlationId: string, job
       detail: { durationMs },
     });
     jobLog.info({ durationMs }, 'B-roll planning complete');
+
+    // Auto-approve only: broll_review and influencer selection need a user in fast mode
+    await maybeAutoAdvance(supabase, projectId, 'broll_review', correlationId);
   } catch (error) {
     if (error instanceof CancellationError) throw error;
     const errorMessage = error instanceof Error ? error.message : String(error);
@@ -845,48 +1057,38 @@ async function handleBrollPlanning(projectId: string, correlationId: string, job
       detail: { error: errorMessage, durationMs },
     });
 
-    await supabase
-      .from('project')
-      .update({
-        status: 'failed',
-        failed_at_status: 'broll_planning',
-        error_message: errorMessage,
-        updated_at: new Date().toISOString(),
-      })
-      .eq('id', projectId);
+    await failStage(supabase, projectId, 'broll_planning', errorMessage);
 
     throw error;
   }
 }
 
-async function handleBrollGeneration(projectId: string, correlationId: string, jobLog: ReturnType<typeof createLogger>) {
+async function handleBrollGeneration(projectId: string, rerun: boolean, correlationId: string, jobLog: ReturnType<typeof createLogger>) {
   const stage = 'broll_generation';
   const stageStart = Date.now();
   try {
-    await supabase
-      .from('project')
-      .update({ status: 'broll_generation', updated_at: new Date().toISOString() })
-      .eq('id', projectId);
+    const resumed = await startStage(projectId, 'broll_generation', rerun);
 
     await logToGenerationLog(supabase, {
       project_id: projectId, correlation_id: correlationId,
       event_type: 'stage_start', agent_name: 'BRollAgent', stage,
+      detail: { resumed },
     });
 
+    if (!resumed) await assertStageBudget(projectId, stage, correlationId);
+
     if (await isProjectCancelled(projectId)) {
       throw new CancellationError(`Stage ${stage} cancelled before start`);
     }
 
     const agent = new BRollAgent(supabase);
     agent.setCorrelationId(correlationId);
+    agent.setResuming(resumed);
     agent.setVideoModel(await getVideoModelForProject(projectId));
     agent.setCancelCheck(buildShouldCancel(projectId));
     await agent.generate(projectId);
 
-    await supabase
-      .from('project')
-      .update({ status: 'asset_review', updated_at: new Date().toISOString() })
-      .eq('id', projectId);
+    await completeStage(projectId, 'broll_generation');
 
     const durationMs = Date.now() - stageStart;
     await logToGenerationLog(supabase, {
@@ -895,6 +1097,23 @@ async function handleBrollGeneration(projectId: string, correlationId: string, j
       detail: { durationMs },
     });
     jobLog.info({ durationMs }, 'B-roll generation complete');
+
+    // A/B hook variants can now borrow this project's segment 1+ assets
+    const { data: pendingVariants } = await supabase
+      .from('project')
+      .select('id')
+      .eq('variant_parent_id', projectId)
+      .eq('status', 'created');
+
+    for (const variant of pendingVariants || []) {
+      await getPipelineQueue().add('variant_generation', {
+        projectId: variant.id,
+        step: 'variant_generation',
+      });
+    }
+
+    // Auto-approve only: asset_review is the final deliverable check in fast mode
+    await maybeAutoAdvance(supabase, projectId, 'asset_review', correlationId);
   } catch (error) {
     if (error instanceof CancellationError) throw error;
     const errorMessage = error instanceof Error ? error.message : String(error);
@@ -907,15 +1126,110 @@ async function handleBrollGeneration(projectId: string, correlationId: string, j
       detail: { error: errorMessage, durationMs },
     });
 
-    await supabase
+    await failStage(supabase, projectId, 'broll_generation', errorMessage);
+
+    throw error;
+  }
+}
+
+/**
+ * A/B hook variant: borrow the parent's segment 1+ scenes and assets, then cast,
+ * direct and voice only the hook. Enqueued once the parent reaches asset_review.
+ * The stage runs through casting, directing and voiceover statuses; a retried
+ * job picks up in the status it reached, and the agents keep the keyframes, clip
+ * and voiceover an earlier attempt already paid for. With a single segment there
+ * is nothing to fan out, so the hook is generated in this job; the agents still
+ * take a provider slot for each task.
+ */
+async function handleVariantGeneration(projectId: string, rerun: boolean, correlationId: string, jobLog: ReturnType<typeof createLogger>) {
+  const stage = 'variant_generation';
+  const stageStart = Date.now();
+
+  try {
+    const resumed = await startStage(projectId, stage, rerun);
+
+    await logToGenerationLog(supabase, {
+      project_id: projectId, correlation_id: correlationId,
+      event_type: 'stage_start', agent_name: 'PipelineWorker', stage,
+      detail: { resumed },
+    });
+
+    if (!resumed) await assertStageBudget(projectId, stage, correlationId);
+
+    if (await isProjectCancelled(projectId)) {
+      throw new CancellationError(`Stage ${stage} cancelled before start`);
+    }
+
+    const shared = await prepareVariant(supabase, projectId);
+    const videoModel = await getVideoModelForProject(projectId);
+    const hookOnly = [0];
+
+    const { statuses } = getStage(stage);
+    const { data: project } = await supabase
       .from('project')
-      .update({
-        status: 'failed',
-        failed_at_status: 'broll_generation',
-        error_message: errorMessage,
-        updated_at: new Date().toISOString(),
-      })
-      .eq('id', projectId);
+      .select('status')
+      .eq('id', projectId)
+      .single();
+    const reached = Math.max(statuses.indexOf(project?.status), 0);
+    const advance = (from: ProjectStatus, to: ProjectStatus) => transitionProject(supabase, projectId, to, {}, { from });
+
+    if (reached <= statuses.indexOf('casting')) {
+      const casting = new CastingAgent(supabase);
+      casting.setCorrelationId(correlationId);
+      casting.setVideoModel(videoModel);
+      casting.setCancelCheck(buildShouldCancel(projectId));
+      casting.setSegments(hookOnly);
+      casting.setResuming(resumed);
+      await casting.run(projectId);
+      await advance('casting', 'directing');
+    }
+
+    if (reached <= statuses.indexOf('directing')) {
+      const director = new DirectorAgent(supabase);
+      director.setCorrelationId(correlationId);
+      director.setVideoModel(videoModel);
+      director.setCancelCheck(buildShouldCancel(projectId));
+      director.setSegments(hookOnly);
+      director.setResuming(resumed);
+      await director.run(projectId);
+      await advance('directing', 'voiceover');
+    }
+
+    const voiceover = new VoiceoverAgent(supabase);
+    voiceover.setCorrelationId(correlationId);
+    voiceover.setVideoModel(videoModel);
+    voiceover.setSegments(hookOnly);
+    voiceover.setResuming(resumed);
+    await voiceover.run(projectId);
+
+    if (await isProjectCancelled(projectId)) {
+      throw new CancellationError(`Stage ${stage} cancelled after completion`);
+    }
+
+    await completeStage(projectId, stage);
+
+    const durationMs = Date.now() - stageStart;
+    await logToGenerationLog(supabase, {
+      project_id: projectId, correlation_id: correlationId,
+      event_type: 'stage_complete', agent_name: 'PipelineWorker', stage,
+      detail: { durationMs, ...shared },
+    });
+    jobLog.info({ durationMs, ...shared }, 'Hook variant assets complete');
+
+    await maybeAutoAdvance(supabase, projectId, 'asset_review', correlationId);
+  } catch (error) {
+    if (error instanceof CancellationError || error instanceof InvalidTransitionError) throw error;
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    const durationMs = Date.now() - stageStart;
+    jobLog.error({ err: error, durationMs }, 'Hook variant generation failed');
+
+    await logToGenerationLog(supabase, {
+      project_id: projectId, correlation_id: correlationId,
+      event_type: 'stage_error', agent_name: 'PipelineWorker', stage,
+      detail: { error: errorMessage, durationMs },
+    });
+
+    await failStage(supabase, projectId, 'variant_generation', errorMessage);
 
     throw error;
   }
@@ -1180,33 +1494,37 @@ async function regenerateKeyframe(
     : String(rawPrompt);
 
   const wavespeed = new WaveSpeedClient();
-  let taskId: string;
-  let cost: number;
-  const editOpts = { aspectRatio: RESOLUTION.aspectRatio, resolution: '1k' as const };
-
-  if (referenceImages.length > 0) {
-    const refLabels: string[] = [];
-    for (let i = 0; i < referenceImages.length; i++) {
-      if (refs.influencerImageUrl && referenceImages[i] === refs.influencerImageUrl) refLabels.push('influencer');
-      else if (previousFrameUrl && referenceImages[i] === previousFrameUrl) refLabels.push('chain_ref');
-      else refLabels.push('product');
+  // One WaveSpeed image slot from submission until the keyframe is ready
+  const { taskId, cost, pollResult } = await withProviderSlot('wavespeed_image', async () => {
+    let taskId: string;
+    let cost: number;
+    const editOpts = { aspectRatio: RESOLUTION.aspectRatio, resolution: '1k' as const };
+
+    if (referenceImages.length > 0) {
+      const refLabels: string[] = [];
+      for (let i = 0; i < referenceImages.length; i++) {
+        if (refs.influencerImageUrl && referenceImages[i] === refs.influencerImageUrl) refLabels.push('influencer');
+        else if (previousFrameUrl && referenceImages[i] === previousFrameUrl) refLabels.push('chain_ref');
+        else refLabels.push('product');
+      }
+      jobLog.info({ refs: refLabels.join('+'), refCount: referenceImages.length, assetId, segment: scene?.segment_index }, 'Regenerating keyframe via image edit');
+      const result = await wavespeed.editImage(referenceImages, promptText, editOpts);
+      taskId = result.taskId;
+      cost = API_COSTS.nanoBananaProEdit;
+    } else {
+      jobLog.warn(
+        { assetId, projectId, hasInfluencer: !!refs.influencerImageUrl, hasProduct: refs.productImages.length > 0 || !!refs.fallbackProductUrl },
+        'FALLING BACK to text-to-image — no reference images available. This likely indicates missing influencer/product data.',
+      );
+      const result = await wavespeed.generateImage(promptText);
+      taskId = result.taskId;
+      cost = API_COSTS.nanoBananaPro;
     }
-    jobLog.info({ refs: refLabels.join('+'), refCount: referenceImages.length, assetId, segment: scene?.segment_index }, 'Regenerating keyframe via image edit');
-    const result = await wavespeed.editImage(referenceImages, promptText, editOpts);
-    taskId = result.taskId;
-    cost = API_COSTS.nanoBananaProEdit;
-  } else {
-    jobLog.warn(
-      { assetId, projectId, hasInfluencer: !!refs.influencerImageUrl, hasProduct: refs.productImages.length > 0 || !!refs.fallbackProductUrl },
-      'FALLING BACK to text-to-image — no reference images available. This likely indicates missing influencer/product data.',
-    );
-    const result = await wavespeed.generateImage(promptText);
-    taskId = result.taskId;
-    cost = API_COSTS.nanoBananaPro;
-  }
 
-  jobLog.info({ taskId }, 'Polling keyframe result');
-  const pollResult = await wavespeed.pollResult(taskId, { maxWait: 240000, initialInterval: 5000, shouldCancel: buildShouldCancel(projectId, assetId) });
+    jobLog.info({ taskId }, 'Polling keyframe result');
+    const pollResult = await wavespeed.pollResult(taskId, { maxWait: 240000, initialInterval: 5000, shouldCancel: buildShouldCancel(projectId, assetId) });
+    return { taskId, cost, pollResult };
+  }, { shouldCancel: buildShouldCancel(projectId, assetId) });
   const newUrl = pollResult.url || '';
 
   await supabase
@@ -1497,19 +1815,23 @@ async function regenerateVideo(
     effectiveNegativePrompt = negativePrompt;
   }
 
-  const wavespeed = new WaveSpeedClient();
-  const result = await wavespeed.generateVideo({
-    image: startKf.url,
-    tailImage: endKf?.url,
-    prompt: mainPrompt,
-    negativePrompt: effectiveNegativePrompt,
-    multiPrompt,
-    duration: 15,
-    cfgScale: 0.5,
-  });
+  const vm = await getVideoModelForProject(projectId);
+  const provider = getVideoProvider(vm);
+  const { result, pollResult } = await withProviderSlot(provider.slot, async () => {
+    const result = await provider.submit({
+      image: startKf.url,
+      tailImage: endKf?.url,
+      prompt: mainPrompt,
+      negativePrompt: effectiveNegativePrompt,
+      multiPrompt,
+      duration: vm.segment_duration,
+      cfgScale: 0.5,
+    });
 
-  jobLog.info({ taskId: result.taskId }, 'Polling video result');
-  const pollResult = await wavespeed.pollResult(result.taskId, { maxWait: VIDEO_POLL_MAX_WAIT, shouldCancel: buildShouldCancel(projectId, assetId) });
+    jobLog.info({ taskId: result.taskId }, 'Polling video result');
+    const pollResult = await provider.poll(result.taskId, { maxWait: VIDEO_POLL_MAX_WAIT, shouldCancel: buildShouldCancel(projectId, assetId) });
+    return { result, pollResult };
+  }, { shouldCancel: buildShouldCancel(projectId, assetId) });
 
   await supabase
     .from('asset')
@@ -1517,7 +1839,7 @@ async function regenerateVideo(
       url: pollResult.url || '',
       status: 'completed',
       provider_task_id: result.taskId,
-      cost_usd: API_COSTS.klingVideo,
+      cost_usd: vm.cost_per_segment,
       updated_at: new Date().toISOString(),
     })
     .eq('id', assetId);
@@ -1530,7 +1852,7 @@ async function regenerateVideo(
   const currentCost = parseFloat(proj?.cost_usd || '0');
   await supabase
     .from('project')
-    .update({ cost_usd: (currentCost + API_COSTS.klingVideo).toFixed(4), updated_at: new Date().toISOString() })
+    .update({ cost_usd: (currentCost + vm.cost_per_segment).toFixed(4), updated_at: new Date().toISOString() })
     .eq('id', projectId);
 }
 
@@ -1554,7 +1876,9 @@ async function regenerateAudio(
 
   const elevenlabs = new ElevenLabsClient();
   jobLog.info({ voiceId }, 'Regenerating audio');
-  const audioBuffer = await elevenlabs.textToSpeech(voiceId, scene.script_text);
+  const speech = await withProviderSlot('elevenlabs', () => elevenlabs.textToSpeechWithTimestamps(voiceId, scene.script_text));
+  const audioBuffer = speech.audio;
+  const audioInfo = analyzeAudio(audioBuffer);
 
   // Upload to Supabase Storage
   const fileName = `projects/${projectId}/audio/segment-${scene.segment_index}-regen-${Date.now()}.mp3`;
@@ -1578,6 +1902,16 @@ async function regenerateAudio(
       url: audioUrl,
       status: 'completed',
       cost_usd: API_COSTS.elevenLabsTts,
+      // Replace caption timings so captions follow the new take (drop them if alignment was missing)
+      metadata: {
+        ...(asset.metadata || {}),
+        durationMs: audioInfo.durationMs,
+        sampleRate: audioInfo.sampleRate,
+        silences: audioInfo.silences,
+        captions: speech.alignment
+          ? { source: 'elevenlabs_alignment', words: alignmentToWords(speech.alignment) }
+          : undefined,
+      },
       updated_at: new Date().toISOString(),
     })
     .eq('id', assetId);
@@ -1743,18 +2077,21 @@ async function editSingleKeyframe(
 
   jobLog.info({ assetId }, 'Editing keyframe via Nano Banana Pro Edit');
 
-  const result = await wavespeed.editImage(
-    [asset.url],
-    editPrompt,
-    { aspectRatio: '9:16', resolution: '1k' },
-  );
-
-  jobLog.info({ assetId, taskId: result.taskId }, 'Polling keyframe edit result');
-  const pollResult = await wavespeed.pollResult(result.taskId, {
-    maxWait: 240000,
-    initialInterval: 5000,
-    shouldCancel: buildShouldCancel(projectId, assetId),
-  });
+  const { result, pollResult } = await withProviderSlot('wavespeed_image', async () => {
+    const result = await wavespeed.editImage(
+      [asset.url],
+      editPrompt,
+      { aspectRatio: '9:16', resolution: '1k' },
+    );
+
+    jobLog.info({ assetId, taskId: result.taskId }, 'Polling keyframe edit result');
+    const pollResult = await wavespeed.pollResult(result.taskId, {
+      maxWait: 240000,
+      initialInterval: 5000,
+      shouldCancel: buildShouldCancel(projectId, assetId),
+    });
+    return { result, pollResult };
+  }, { shouldCancel: buildShouldCancel(projectId, assetId) });
 
   const existingMeta = (asset.metadata || {}) as Record<string, unknown>;
   const editHistory = (existingMeta.editHistory || []) as Array<Record<string, unknown>>;
@@ -1839,6 +2176,13 @@ worker.on('ready', async () => {
   } catch (err) {
     log.error({ err }, 'Failed to clean up orphaned assets on startup');
   }
+
+  // Nightly TikTok sync, token refresh, stalled-project sweep, storage cleanup
+  try {
+    await registerScheduledJobs(getPipelineQueue());
+  } catch (err) {
+    log.error({ err }, 'Failed to register scheduled jobs');
+  }
 });
 
 worker.on('error', (error) => {
@@ -0,0 +1,143 @@
+// ─── In-memory BullMQ ─────────────────────────────────────────────────────────
+// Stands in for the 'bullmq' module (vi.mock('bullmq', () => import(...))). The
+// Worker hands its processor to `queue`; Queue.add and FlowProducer.add put jobs
+// on it, and `queue.drain()` runs them one at a time in the order they became
+// ready: a flow's parent after its children, a failed attempt again (without
+// backoff) until it runs out of attempts. Nothing is timed or persisted.
+
+import type { FlowJob, JobsOptions } from 'bullmq';
+
+export class DelayedError extends Error {}
+export class UnrecoverableError extends Error {}
+
+type Processor = (job: Job, token?: string) => Promise<unknown>;
+
+export class Job {
+  attemptsMade = 0;
+  attemptsStarted = 0;
+  readonly timestamp = Date.now();
+  state: 'waiting' | 'waiting-children' | 'completed' | 'failed' = 'waiting';
+  failedReason: string | null = null;
+  pendingChildren = 0;
+  parent: Job | null = null;
+
+  constructor(
+    readonly id: string,
+    readonly name: string,
+    public data: Record<string, unknown>,
+    readonly opts: JobsOptions,
+  ) {}
+
+  async updateData(data: Record<string, unknown>) {
+    this.data = data;
+  }
+}
+
+class FakeQueueRunner {
+  private processor: Processor | null = null;
+  private waiting: Job[] = [];
+  private nextId = 1;
+  readonly jobs: Job[] = [];
+
+  register(processor: Processor) {
+    this.processor = processor;
+  }
+
+  add(name: string, data: Record<string, unknown>, opts: JobsOptions = {}): Job {
+    const id = opts.jobId ?? String(this.nextId++);
+    const existing = this.jobs.find((job) => job.id === id);
+    if (existing) return existing;
+    const job = new Job(id, name, data, opts);
+    this.jobs.push(job);
+    this.waiting.push(job);
+    return job;
+  }
+
+  addFlow(flow: FlowJob, parent: Job | null = null): Job | null {
+    const id = flow.opts?.jobId ?? String(this.nextId++);
+    if (this.jobs.some((job) => job.id === id)) return null;
+    const job = new Job(id, flow.name, flow.data, flow.opts ?? {});
+    job.parent = parent;
+    this.jobs.push(job);
+    const children = (flow.children ?? []).map((child) => this.addFlow(child, job)).filter(Boolean);
+    job.pendingChildren = children.length;
+    if (children.length > 0) job.state = 'waiting-children';
+    else this.waiting.push(job);
+    return job;
+  }
+
+  /** Jobs added so far for `step`. */
+  added(step: string): Job[] {
+    return this.jobs.filter((job) => job.name === step);
+  }
+
+  /** Drop jobs nobody has run yet (a test leaving them for a later drain()). */
+  clear() {
+    this.waiting = [];
+  }
+
+  /**
+   * Run waiting jobs until none are left (or `until` says stop before the next
+   * one). Returns the jobs run, in order.
+   */
+  async drain(until?: (next: Job) => boolean, maxJobs = 500): Promise<Job[]> {
+    if (!this.processor) throw new Error('No worker registered');
+    const ran: Job[] = [];
+    while (this.waiting.length > 0) {
+      if (until?.(this.waiting[0])) break;
+      if (ran.length >= maxJobs) throw new Error(`Queue did not drain after ${maxJobs} jobs`);
+      const job = this.waiting.shift()!;
+      ran.push(job);
+      job.attemptsStarted++;
+      try {
+        await this.processor(job, `token-${job.id}`);
+        this.settle(job, 'completed');
+      } catch (err) {
+        job.attemptsMade++;
+        job.failedReason = err instanceof Error ? err.message : String(err);
+        if (job.attemptsMade < (job.opts.attempts ?? 1)) this.waiting.push(job);
+        else this.settle(job, 'failed');
+      }
+    }
+    return ran;
+  }
+
+  private settle(job: Job, state: 'completed' | 'failed') {
+    job.state = state;
+    const parent = job.parent;
+    if (!parent || (state === 'failed' && !job.opts.ignoreDependencyOnFailure)) return;
+    parent.pendingChildren--;
+    if (parent.pendingChildren === 0) {
+      parent.state = 'waiting';
+      this.waiting.push(parent);
+    }
+  }
+}
+
+export const queue = new FakeQueueRunner();
+
+export class Worker {
+  constructor(_name: string, processor: Processor) {
+    queue.register(processor);
+  }
+  on() { return this; }
+  async close() {}
+}
+
+export class Queue {
+  private defaults: JobsOptions;
+  constructor(_name: string, options: { defaultJobOptions?: JobsOptions } = {}) {
+    this.defaults = options.defaultJobOptions ?? {};
+  }
+  async add(name: string, data: Record<string, unknown>, opts: JobsOptions = {}) {
+    return queue.add(name, data, { ...this.defaults, ...opts });
+  }
+  async getJobs() { return []; }
+  async upsertJobScheduler() {}
+}
+
+export class FlowProducer {
+  async add(flow: FlowJob) {
+    return { job: queue.addFlow(flow) };
+  }
+}
@@ -0,0 +1,225 @@
+// ─── In-memory Supabase ───────────────────────────────────────────────────────
+// The query builder surface the agents, the worker and the API routes use, over
+// plain arrays. Embedded selects (`influencer:influencer(*)`) follow a `<name>_id`
+// column on the row, or else collect the child rows pointing back at it. Column
+// lists are not applied: every select returns whole rows.
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export type Row = Record<string, unknown>;
+type Result = { data: unknown; error: { message: string; code?: string } | null; count?: number | null };
+type Embed = { alias: string; table: string };
+
+/** `alias:table(*)` or `table(*)` entries of a select string. */
+function parseEmbeds(columns: string): Embed[] {
+  return [...columns.matchAll(/(?:(\w+):)?(\w+)(?:!\w+)?\(/g)].map(([, alias, table]) => ({ alias: alias ?? table, table }));
+}
+
+function compare(a: unknown, b: unknown): number {
+  if (a === b) return 0;
+  if (a === null || a === undefined) return 1;
+  if (b === null || b === undefined) return -1;
+  return (a as string | number) < (b as string | number) ? -1 : 1;
+}
+
+class FakeQuery implements PromiseLike<Result> {
+  private filters: ((row: Row) => boolean)[] = [];
+  private sorts: { column: string; ascending: boolean }[] = [];
+  private window: { from: number; to: number } | null = null;
+  private mode: 'many' | 'single' | 'maybeSingle' = 'many';
+  private action: 'select' | 'insert' | 'upsert' | 'update' | 'delete' = 'select';
+  private payload: Row[] | Row = [];
+  private onConflict: string[] = ['id'];
+  private embeds: Embed[] = [];
+  private returning = false;
+  private count = false;
+  private head = false;
+
+  constructor(private db: FakeSupabase, private table: string) {}
+
+  select(columns = '*', options: { count?: 'exact'; head?: boolean } = {}) {
+    this.embeds = parseEmbeds(columns);
+    this.returning = true;
+    this.count = !!options.count;
+    this.head = !!options.head;
+    return this;
+  }
+  insert(rows: Row | Row[]) { this.action = 'insert'; this.payload = ([] as Row[]).concat(rows); return this; }
+  upsert(rows: Row | Row[], options: { onConflict?: string } = {}) {
+    this.action = 'upsert';
+    this.payload = ([] as Row[]).concat(rows);
+    if (options.onConflict) this.onConflict = options.onConflict.split(',').map((c) => c.trim());
+    return this;
+  }
+  update(patch: Row) { this.action = 'update'; this.payload = patch; return this; }
+  delete() { this.action = 'delete'; return this; }
+
+  eq(column: string, value: unknown) { this.filters.push((r) => r[column] === value); return this; }
+  neq(column: string, value: unknown) { this.filters.push((r) => r[column] !== value); return this; }
+  gt(column: string, value: unknown) { this.filters.push((r) => r[column] != null && compare(r[column], value) > 0); return this; }
+  gte(column: string, value: unknown) { this.filters.push((r) => r[column] != null && compare(r[column], value) >= 0); return this; }
+  lt(column: string, value: unknown) { this.filters.push((r) => r[column] != null && compare(r[column], value) < 0); return this; }
+  lte(column: string, value: unknown) { this.filters.push((r) => r[column] != null && compare(r[column], value) <= 0); return this; }
+  in(column: string, values: unknown[]) { this.filters.push((r) => values.includes(r[column])); return this; }
+  is(column: string, value: null) { this.filters.push((r) => (r[column] ?? null) === value); return this; }
+  not(column: string, operator: 'is' | 'eq' | 'in', value: unknown) {
+    if (operator === 'in') {
+      const values = String(value).replace(/^\(|\)$/g, '').split(',');
+      this.filters.push((r) => !values.includes(String(r[column])));
+    } else {
+      this.filters.push((r) => (r[column] ?? null) !== value);
+    }
+    return this;
+  }
+  contains(column: string, value: Row) {
+    this.filters.push((r) => {
+      const field = (r[column] || {}) as Row;
+      return Object.entries(value).every(([k, v]) => field[k] === v);
+    });
+    return this;
+  }
+  order(column: string, options: { ascending?: boolean } = {}) { this.sorts.push({ column, ascending: options.ascending !== false }); return this; }
+  limit(n: number) { this.window = { from: 0, to: n - 1 }; return this; }
+  range(from: number, to: number) { this.window = { from, to }; return this; }
+  single() { this.mode = 'single'; return this; }
+  maybeSingle() { this.mode = 'maybeSingle'; return this; }
+
+  then<A = Result, B = never>(onFulfilled?: ((value: Result) => A | PromiseLike<A>) | null, onRejected?: ((reason: unknown) => B | PromiseLike<B>) | null): PromiseLike<A | B> {
+    return Promise.resolve().then(() => this.execute()).then(onFulfilled, onRejected);
+  }
+
+  private execute(): Result {
+    const rows = this.db.table(this.table);
+    let data: Row[];
+
+    if (this.action === 'insert') {
+      data = (this.payload as Row[]).map((row) => this.db.insert(this.table, row));
+    } else if (this.action === 'upsert') {
+      data = (this.payload as Row[]).map((row) => {
+        const existing = rows.find((r) => this.onConflict.every((c) => row[c] !== undefined && r[c] === row[c]));
+        return existing ? Object.assign(existing, row) : this.db.insert(this.table, row);
+      });
+    } else {
+      data = rows.filter((r) => this.filters.every((f) => f(r)));
+      if (this.action === 'update') data.forEach((r) => Object.assign(r, structuredClone(this.payload)));
+      if (this.action === 'delete') this.db.remove(this.table, data);
+    }
+
+    for (const { column, ascending } of [...this.sorts].reverse()) {
+      data = [...data].sort((a, b) => compare(a[column], b[column]) * (ascending ? 1 : -1));
+    }
+    const total = data.length;
+    if (this.window) data = data.slice(this.window.from, this.window.to + 1);
+
+    // Copies, so callers can't change stored rows without a query
+    data = data.map((row) => ({ ...structuredClone(row), ...this.embed(row) }));
+
+    const count = this.count ? total : null;
+    if (this.head) return { data: null, error: null, count };
+    if (this.action !== 'select' && !this.returning) return { data: null, error: null, count };
+    if (this.mode === 'many') return { data, error: null, count };
+    if (data.length === 0 && this.mode === 'single') return { data: null, error: { message: 'No rows found', code: 'PGRST116' }, count };
+    if (data.length > 1) return { data: null, error: { message: 'Multiple rows returned', code: 'PGRST116' }, count };
+    return { data: data[0] ?? null, error: null, count };
+  }
+
+  private embed(row: Row): Row {
+    const related: Row = {};
+    for (const { alias, table } of this.embeds) {
+      const foreignKey = [`${alias}_id`, `${table}_id`].find((key) => key in row);
+      if (foreignKey) {
+        const target = this.db.table(table).find((r) => r.id === row[foreignKey]);
+        related[alias] = target ? structuredClone(target) : null;
+      } else {
+        related[alias] = this.db.table(table).filter((r) => r[`${this.table}_id`] === row.id).map((r) => structuredClone(r));
+      }
+    }
+    return related;
+  }
+}
+
+type RpcHandler = (args: Row, db: FakeSupabase) => Result;
+
+export class FakeSupabase {
+  private tables = new Map<string, Row[]>();
+  private clock = Date.parse('2026-01-01T00:00:00Z');
+  private rpcs = new Map<string, RpcHandler>();
+  /** Files uploaded to storage, by `bucket/path` */
+  readonly files = new Map<string, unknown>();
+
+  /** `defaults` are column defaults per table, applied on insert. */
+  constructor(private defaults: Record<string, Row> = {}) {
+    this.rpcs.set('increment_project_cost', (args) => {
+      const project = this.row('project', args.p_project_id as string);
+      project.cost_usd = (parseFloat(String(project.cost_usd ?? 0)) + (args.p_amount as number)).toFixed(4);
+      return { data: project.cost_usd, error: null };
+    });
+    this.rpcs.set('reserve_project_spend', (args) => {
+      // Project budget only; batches aren't modelled
+      const project = this.row('project', args.p_project_id as string);
+      const cost = parseFloat(String(project.cost_usd ?? 0));
+      const amount = args.p_amount as number;
+      const budget = project.budget_usd == null || project.budget_override ? null : parseFloat(String(project.budget_usd));
+      if (budget !== null && cost + amount > budget) return { data: false, error: null };
+      project.cost_usd = (cost + amount).toFixed(4);
+      return { data: true, error: null };
+    });
+  }
+
+  table(name: string): Row[] {
+    if (!this.tables.has(name)) this.tables.set(name, []);
+    return this.tables.get(name)!;
+  }
+
+  /** The stored row with this id (throws if there is none). */
+  row(table: string, id: string): Row {
+    const found = this.table(table).find((r) => r.id === id);
+    if (!found) throw new Error(`No ${table} row ${id}`);
+    return found;
+  }
+
+  insert(table: string, row: Row): Row {
+    const now = new Date(this.clock++).toISOString();
+    const stored = { id: crypto.randomUUID(), created_at: now, updated_at: now, ...structuredClone(this.defaults[table] ?? {}), ...structuredClone(row) };
+    this.table(table).push(stored);
+    return stored;
+  }
+
+  remove(table: string, rows: Row[]) {
+    this.tables.set(table, this.table(table).filter((r) => !rows.includes(r)));
+  }
+
+  from(table: string) {
+    return new FakeQuery(this, table);
+  }
+
+  /** Answer `rpc(name)` calls with `handler`. */
+  onRpc(name: string, handler: RpcHandler) {
+    this.rpcs.set(name, handler);
+  }
+
+  async rpc(name: string, args: Row = {}): Promise<Result> {
+    const handler = this.rpcs.get(name);
+    return handler ? handler(args, this) : { data: null, error: { message: `Unknown rpc ${name}` } };
+  }
+
+  readonly storage = {
+    from: (bucket: string) => ({
+      upload: async (path: string, body: unknown) => {
+        this.files.set(`${bucket}/${path}`, body);
+        return { data: { path }, error: null };
+      },
+      getPublicUrl: (path: string) => ({ data: { publicUrl: `https://storage.fake/${bucket}/${path}` } }),
+      createSignedUrl: async (path: string) => ({ data: { signedUrl: `https://storage.fake/${bucket}/${path}?signed` }, error: null }),
+      remove: async (paths: string[]) => {
+        paths.forEach((path) => this.files.delete(`${bucket}/${path}`));
+        return { data: paths.map((name) => ({ name })), error: null };
+      },
+      list: async () => ({ data: [], error: null }),
+    }),
+  };
+
+  client(): SupabaseClient {
+    return this as unknown as SupabaseClient;
+  }
+}
@@ -0,0 +1,67 @@
+// ─── Pipeline Harness ─────────────────────────────────────────────────────────
+// What a suite needs to run the real worker and API routes without services:
+// provider clients in mock mode with no latency or limits, and one in-memory
+// Supabase for the worker and the routes. A suite mocks the service modules
+// itself (vi.mock is per file), pointing them here and at fake-bullmq:
+//
+//   vi.mock('bullmq', () => import('../helpers/fake-bullmq'));
+//   vi.mock('ioredis', () => import('../helpers/pipeline-harness').then((h) => h.ioredisModule));
+//   vi.mock('@supabase/supabase-js', () => import('../helpers/pipeline-harness').then((h) => h.supabaseModule()));
+//
+// then imports the worker (`await import('@/workers/pipeline.worker')`) and the
+// routes it drives after this module, so they see the environment below.
+
+import { NextRequest } from 'next/server';
+import { vi } from 'vitest';
+import { FakeSupabase } from './fake-supabase';
+
+Object.assign(process.env, {
+  MOCK_PROVIDERS: 'all',
+  MOCK_LATENCY_MS: '0',
+  PROVIDER_CONCURRENCY_WAVESPEED_VIDEO: '0',
+  PROVIDER_CONCURRENCY_WAVESPEED_IMAGE: '0',
+  PROVIDER_CONCURRENCY_ELEVENLABS: '0',
+  PROVIDER_CONCURRENCY_CREATOMATE: '0',
+  NEXT_PUBLIC_SUPABASE_URL: 'http://supabase.fake',
+  SUPABASE_SERVICE_ROLE_KEY: 'fake',
+  LOG_LEVEL: 'silent',
+});
+
+/** Column defaults the migrations give rows the tests insert without them. */
+export const supabase = new FakeSupabase({
+  project: {
+    status: 'created', cost_usd: '0', budget_usd: null, budget_override: false, cancel_requested_at: null,
+    influencer_id: null, character_id: null, product_id: null, scene_preset_id: null, interaction_preset_id: null,
+    keyframe_chaining: true, video_model_id: null, negative_prompt_override: null, batch_id: null,
+    variant_parent_id: null, variant_index: 0, variant_count: 1, auto_approve: false, fast_mode: false,
+    video_retries: 0, lock_camera: false, renderer: null, locale: 'en-US',
+  },
+  asset: { status: 'generating', metadata: null, scene_id: null },
+  scene: { visual_prompt: null, video_prompt_override: null },
+});
+
+export const ioredisModule = {
+  default: class {
+    options = {};
+    disconnect() {}
+  },
+};
+
+/** @supabase/supabase-js with createClient answering from `supabase`. */
+export async function supabaseModule() {
+  const actual = await vi.importActual<object>('@supabase/supabase-js');
+  return { ...actual, createClient: () => supabase.client() };
+}
+
+/** A JSON request for a route handler. */
+export function request(body?: unknown, method = 'POST'): NextRequest {
+  return new NextRequest('http://app.fake/api', {
+    method,
+    ...(body === undefined ? {} : { body: JSON.stringify(body) }),
+  });
+}
+
+/** Route context for `/api/projects/[id]/...`. */
+export function params<T extends Record<string, string>>(values: T): { params: Promise<T> } {
+  return { params: Promise.resolve(values) };
+}
@@ -0,0 +1,189 @@
+// End-to-end pipeline: projects are driven through the API routes a user would
+// call, and the real worker runs every job they enqueue, against the in-memory
+// Supabase and queue (tests/helpers) and the provider clients in mock mode.
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { params, request, supabase } from '../helpers/pipeline-harness';
+import { queue } from '../helpers/fake-bullmq';
+
+vi.mock('bullmq', () => import('../helpers/fake-bullmq'));
+vi.mock('ioredis', () => import('../helpers/pipeline-harness').then((h) => h.ioredisModule));
+vi.mock('@supabase/supabase-js', () => import('../helpers/pipeline-harness').then((h) => h.supabaseModule()));
+
+await import('@/workers/pipeline.worker');
+const { POST: createProject } = await import('@/app/api/projects/route');
+const { POST: approve } = await import('@/app/api/projects/[id]/approve/route');
+const { POST: selectInfluencer } = await import('@/app/api/projects/[id]/select-influencer/route');
+const { POST: cancel } = await import('@/app/api/projects/[id]/cancel/route');
+const { POST: retry } = await import('@/app/api/projects/[id]/retry/route');
+const { POST: rollback } = await import('@/app/api/projects/[id]/rollback/route');
+const { POST: regenerateAsset } = await import('@/app/api/projects/[id]/assets/regenerate/route');
+
+const status = (projectId: string) => supabase.row('project', projectId).status;
+
+const assets = (projectId: string, type: string) =>
+  supabase.table('asset').filter((a) => a.project_id === projectId && a.type === type);
+
+async function expectOk(res: Response) {
+  if (!res.ok) throw new Error(`${res.status}: ${JSON.stringify(await res.json())}`);
+}
+
+describe('a project approved at every gate', () => {
+  const influencerId = supabase.insert('influencer', { name: 'Ava', image_url: 'https://fake/ava.png', voice_id: 'voice-ava' }).id as string;
+  let projectId = '';
+
+  it('is analysed after creation', async () => {
+    const res = await createProject(request({ productUrl: 'https://shop.fake/widget' }));
+    await expectOk(res);
+    projectId = (await res.json()).id;
+    expect(status(projectId)).toBe('created');
+
+    await queue.drain();
+    expect(status(projectId)).toBe('analysis_review');
+  });
+
+  it('walks the gates to completed', async () => {
+    const gate = async (expected: string) => {
+      await expectOk(await approve(request(), params({ id: projectId })));
+      await queue.drain();
+      expect(status(projectId)).toBe(expected);
+    };
+
+    supabase.row('project', projectId).product_image_url ??= 'https://fake/product.png';
+    await gate('concept_review');
+    await gate('script_review');
+    await gate('broll_review');
+    await gate('influencer_selection');
+
+    await expectOk(await selectInfluencer(request({ influencerId }), params({ id: projectId })));
+    await queue.drain();
+    expect(status(projectId)).toBe('casting_review');
+
+    await gate('asset_review');
+    for (const type of ['keyframe_start', 'keyframe_end', 'video', 'audio']) {
+      expect(assets(projectId, type).map((a) => a.status)).toEqual(Array(4).fill('completed'));
+    }
+
+    await gate('completed');
+    const [finalVideo] = assets(projectId, 'final_video');
+    expect(finalVideo.status).toBe('completed');
+    expect(finalVideo.url).toBeTruthy();
+    expect(parseFloat(String(supabase.row('project', projectId).cost_usd))).toBeGreaterThan(0);
+  });
+});
+
+/** A new project walked through the routes to `gate`, approving everything before it. */
+async function projectAt(gate: 'casting_review' | 'asset_review') {
+  const influencerId = supabase.insert('influencer', { name: 'Ben', image_url: 'https://fake/ben.png', voice_id: 'voice-ben' }).id as string;
+  const res = await createProject(request({ productUrl: 'https://shop.fake/gadget' }));
+  await expectOk(res);
+  const projectId: string = (await res.json()).id;
+  await queue.drain();
+  supabase.row('project', projectId).product_image_url ??= 'https://fake/product.png';
+  for (let i = 0; i < 4; i++) {
+    await expectOk(await approve(request(), params({ id: projectId })));
+    await queue.drain();
+  }
+  await expectOk(await selectInfluencer(request({ influencerId }), params({ id: projectId })));
+  await queue.drain();
+  if (gate === 'asset_review') {
+    await expectOk(await approve(request(), params({ id: projectId })));
+    await queue.drain();
+  }
+  expect(status(projectId)).toBe(gate);
+  return projectId;
+}
+
+describe('cancelling a running stage', () => {
+  it('stops directing and returns the project to casting review', async () => {
+    const projectId = await projectAt('casting_review');
+    await expectOk(await approve(request(), params({ id: projectId })));
+    // Let one segment finish, then cancel while the rest are queued
+    let segments = 0;
+    await queue.drain((next) => next.name === 'directing_segment' && ++segments === 2);
+    expect(status(projectId)).toBe('directing');
+
+    const res = await cancel(request(), params({ id: projectId }));
+    await expectOk(res);
+    expect((await res.json()).status).toBe('casting_review');
+    await queue.drain();
+
+    const project = supabase.row('project', projectId);
+    expect(project.status).toBe('casting_review');
+    expect(project.cancel_requested_at).toBeNull();
+    expect(assets(projectId, 'video').filter((a) => a.status === 'completed')).toHaveLength(1);
+    expect(assets(projectId, 'video').some((a) => a.status === 'generating')).toBe(false);
+    expect(supabase.table('generation_log').some((l) => l.project_id === projectId && l.event_type === 'stage_cancelled')).toBe(true);
+  });
+});
+
+describe('a failed stage', () => {
+  afterEach(() => {
+    delete process.env.MOCK_FAILURES;
+  });
+
+  /** Directing runs, then every voiceover request fails. */
+  async function failVoiceover() {
+    const projectId = await projectAt('casting_review');
+    process.env.MOCK_FAILURES = 'elevenlabs.tts';
+    await expectOk(await approve(request(), params({ id: projectId })));
+    await queue.drain();
+    delete process.env.MOCK_FAILURES;
+
+    const project = supabase.row('project', projectId);
+    expect(project.status).toBe('failed');
+    expect(project.failed_at_status).toBe('voiceover');
+    return projectId;
+  }
+
+  it('is retried through to asset review', async () => {
+    const projectId = await failVoiceover();
+
+    await expectOk(await retry(request({}), params({ id: projectId })));
+    await queue.drain();
+
+    expect(status(projectId)).toBe('asset_review');
+    expect(assets(projectId, 'audio').filter((a) => a.status === 'completed')).toHaveLength(4);
+    expect(supabase.row('project', projectId).error_message).toBeNull();
+  });
+
+  it('is rolled back to the gate before it and can be approved again', async () => {
+    const projectId = await failVoiceover();
+
+    const res = await rollback(request(), params({ id: projectId }));
+    await expectOk(res);
+    expect((await res.json()).rolledBackTo).toBe('casting_review');
+    expect(status(projectId)).toBe('casting_review');
+
+    await expectOk(await approve(request(), params({ id: projectId })));
+    await queue.drain();
+    expect(status(projectId)).toBe('asset_review');
+  });
+});
+
+describe('cascade keyframe regeneration', () => {
+  it('regenerates the chain from the edited keyframe and cancels the stale videos', async () => {
+    const projectId = await projectAt('asset_review');
+    const segmentOf = (asset: Record<string, unknown>) => supabase.row('scene', asset.scene_id as string).segment_index as number;
+    const keyframes = () => [...assets(projectId, 'keyframe_start'), ...assets(projectId, 'keyframe_end')];
+    const source = assets(projectId, 'keyframe_end').find((a) => segmentOf(a) === 1)!;
+    const before = new Map(keyframes().map((a) => [a.id, a.url]));
+
+    const res = await regenerateAsset(request({ assetId: source.id, cascade: true }), params({ id: projectId }));
+    await expectOk(res);
+    // The edited end frame plus both frames of segments 2 and 3
+    const affected: string[] = (await res.json()).affectedAssets;
+    expect(affected).toHaveLength(5);
+    await queue.drain();
+
+    for (const keyframe of keyframes()) {
+      expect(keyframe.status).toBe('completed');
+      expect(keyframe.url).toBeTruthy();
+      if (!affected.includes(keyframe.id as string)) expect(keyframe.url).toBe(before.get(keyframe.id));
+    }
+    const videos = assets(projectId, 'video');
+    expect(videos.filter((v) => v.status === 'cancelled').map(segmentOf).sort()).toEqual([1, 2, 3]);
+    expect(videos.filter((v) => v.status === 'completed').map(segmentOf)).toEqual([0]);
+    expect(status(projectId)).toBe('asset_review');
+  });
+});
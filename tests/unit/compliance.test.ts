@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildComplianceReport,
+  checkScenes,
+  complianceBlockReason,
+  type ComplianceIssue,
+  type ComplianceScene,
+} from '@/lib/compliance';
+
+function scene(segment_index: number, script_text: string, text_overlay: string | null = null): ComplianceScene {
+  return { id: `scene-${segment_index}`, segment_index, script_text, text_overlay };
+}
+
+const cta = scene(3, 'Grab yours from the orange cart below.', 'Link below #ad');
+
+describe('checkScenes', () => {
+  it('flags a disease claim for supplements with a structure/function rewrite', () => {
+    const issues = checkScenes([scene(0, 'This gummy cures my anxiety in a week.'), cta], 'supplements');
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ ruleId: 'disease_claim', severity: 'hard', field: 'script_text', excerpt: 'cures' });
+    expect(issues[0].suggestion).toBe('This gummy may help support my anxiety in a week.');
+  });
+
+  it('only applies category rules to their categories', () => {
+    const text = 'My before and after is wild.';
+    expect(checkScenes([scene(0, text), cta], 'skincare').map((i) => i.ruleId)).toEqual(['before_after']);
+    expect(checkScenes([scene(0, text), cta], 'tech')).toEqual([]);
+  });
+
+  it('checks overlays as well as spoken lines', () => {
+    const issues = checkScenes([scene(0, 'Look at this.', 'FDA approved formula'), cta], 'skincare');
+    expect(issues[0]).toMatchObject({ ruleId: 'fda_approved', field: 'text_overlay', suggestion: 'Quality-tested formula' });
+  });
+
+  it('requires a disclosure and suggests adding #ad to the last overlay', () => {
+    const issues = checkScenes([scene(0, 'Hook line.'), scene(3, 'Tap the cart.', 'Shop now')], 'home');
+    expect(issues).toEqual([
+      expect.objectContaining({ ruleId: 'missing_disclosure', segmentIndex: 3, field: 'text_overlay', suggestion: 'Shop now #ad' }),
+    ]);
+  });
+
+  it('accepts a locale disclosure tag and suggests the one for the project locale', () => {
+    expect(checkScenes([scene(0, 'Mira esto.'), scene(3, 'Tócalo.', 'Link abajo #publicidad')], 'home')).toEqual([]);
+    expect(checkScenes([scene(3, 'Regarde.', 'Lien en bas #publicité')], 'home')).toEqual([]);
+
+    const issues = checkScenes([scene(3, 'Tócalo.', 'Link abajo')], 'home', '#publicidad');
+    expect(issues[0]).toMatchObject({ ruleId: 'missing_disclosure', suggestion: 'Link abajo #publicidad' });
+    expect(issues[0].message).toContain('#publicidad');
+  });
+
+  it('does not count a tag that only starts with a disclosure', () => {
+    expect(checkScenes([scene(3, 'Tap the cart.', 'So #adorable')], 'home').map((i) => i.ruleId)).toEqual(['missing_disclosure']);
+  });
+
+  it('does not count "not sponsored" as a disclosure', () => {
+    const issues = checkScenes([scene(0, 'This is not sponsored, I just love it.', 'Shop now')], 'home');
+    expect(issues.map((i) => i.ruleId)).toEqual(['missing_disclosure']);
+  });
+});
+
+describe('buildComplianceReport', () => {
+  const judgeIssue = (sceneId: string, excerpt: string): ComplianceIssue => ({
+    ruleId: 'implied_claim',
+    label: 'Implied claim',
+    severity: 'hard',
+    source: 'judge',
+    segmentIndex: 0,
+    sceneId,
+    field: 'script_text',
+    excerpt,
+    message: 'Implies treating asthma.',
+    suggestion: null,
+  });
+
+  it('scores 100 for a clean, disclosed script', () => {
+    const report = buildComplianceReport([scene(0, 'I love how light this feels.'), cta], 'skincare', null);
+    expect(report).toMatchObject({ score: 100, hardCount: 0, softCount: 0, judged: false });
+    expect(complianceBlockReason(report)).toBeNull();
+  });
+
+  it('deducts per hard and soft issue and blocks on hard ones', () => {
+    const report = buildComplianceReport([scene(0, 'Results guaranteed, and it is risk-free.'), cta], 'home', null);
+    expect(report).toMatchObject({ hardCount: 1, softCount: 1, score: 55 });
+    expect(complianceBlockReason(report)).toContain('Guaranteed results');
+  });
+
+  it('keeps judge findings only for the scene versions the judge read', () => {
+    const scenes = [scene(0, 'I have not needed my inhaler since.'), cta];
+    const judge = { judgedAt: '2026-03-10T12:00:00Z', sceneIds: ['scene-0', 'scene-3'], issues: [judgeIssue('scene-0', 'needed my inhaler')] };
+    expect(buildComplianceReport(scenes, 'supplements', judge)).toMatchObject({ hardCount: 1, judged: true });
+
+    const edited = [{ ...scenes[0], id: 'scene-0-v2', script_text: 'I feel great on busy days.' }, cta];
+    expect(buildComplianceReport(edited, 'supplements', judge)).toMatchObject({ hardCount: 0, judged: false });
+  });
+
+  it('drops judge findings that repeat a pattern hit', () => {
+    const scenes = [scene(0, 'It treats eczema fast.'), cta];
+    const judge = { judgedAt: '2026-03-10T12:00:00Z', sceneIds: ['scene-0', 'scene-3'], issues: [judgeIssue('scene-0', 'treats')] };
+    expect(buildComplianceReport(scenes, 'skincare', judge).hardCount).toBe(1);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { BudgetExceededError } from '@/lib/errors';
+import { classifyFailure, failureClassInfo, groupFailures, type DeadLetterSummary } from '@/lib/failures';
+
+describe('classifyFailure', () => {
+  it.each([
+    ['Task abc123 timed out after 600s', 'provider_timeout'],
+    ['LLM call failed: WaveSpeed API timeout (60s): /api/v3/wavespeed-ai/any-llm', 'provider_timeout'],
+    ['Creatomate render r1 timed out after 300s', 'provider_timeout'],
+    ['Task abc123 failed: "Content flagged by safety system"', 'content_policy'],
+    ['Task abc123 failed: "nsfw content detected"', 'content_policy'],
+    ['Unexpected token \'H\', "Here is the"... is not valid JSON', 'json_parse'],
+    ['Influencer has no designed voice. Design a voice from the Influencer page before running the pipeline.', 'missing_voice'],
+    ['Failed to download render input (404): https://cdn.example.com/clip.mp4', 'invalid_asset_url'],
+    ['No valid video assets to compose after URL validation', 'invalid_asset_url'],
+    ['WaveSpeed API error (429): rate limit exceeded', 'rate_limited'],
+    ['No scenes found for script 42', 'missing_data'],
+    ['Project p1 has no product_data — run analysis first', 'missing_data'],
+    ['ElevenLabs TTS error (500): upstream unavailable', 'provider_error'],
+    ['Failed to save scenes: connection refused', 'database'],
+    ['Something odd happened', 'unknown'],
+  ])('%s → %s', (message, expected) => {
+    expect(classifyFailure(new Error(message))).toBe(expected);
+  });
+
+  it('classifies by error name before message', () => {
+    const err = new BudgetExceededError('Budget exceeded at directing', 'directing', 7.2, 3, 5, 'project');
+    expect(classifyFailure(err)).toBe('budget_exceeded');
+
+    expect(classifyFailure(new SyntaxError('Unexpected end of input'))).toBe('json_parse');
+  });
+
+  it('accepts non-Error values', () => {
+    expect(classifyFailure('socket hang up')).toBe('provider_timeout');
+    expect(classifyFailure(undefined)).toBe('unknown');
+  });
+});
+
+describe('failureClassInfo', () => {
+  it('falls back to unknown for an unrecognised class', () => {
+    expect(failureClassInfo('no_such_class')).toEqual(failureClassInfo('unknown'));
+    expect(failureClassInfo('content_policy').action).toBe('rollback');
+  });
+});
+
+describe('groupFailures', () => {
+  function item(id: string, failureClass: string, projectId: string | null, createdAt: string): DeadLetterSummary {
+    return {
+      id, job_id: null, step: 'directing', stage: 'directing', project_id: projectId, subject_id: projectId,
+      failure_class: failureClass, error_message: 'x', attempts: 3, status: 'open', created_at: createdAt, project: null,
+    };
+  }
+
+  it('groups by class, largest first, newest item first', () => {
+    const groups = groupFailures([
+      item('a', 'provider_timeout', 'p1', '2026-01-01T00:00:00Z'),
+      item('b', 'json_parse', 'p2', '2026-01-03T00:00:00Z'),
+      item('c', 'provider_timeout', 'p1', '2026-01-02T00:00:00Z'),
+      item('d', 'provider_timeout', 'p3', '2025-12-31T00:00:00Z'),
+    ]);
+
+    expect(groups.map((g) => g.failureClass)).toEqual(['provider_timeout', 'json_parse']);
+    expect(groups[0]).toMatchObject({ count: 3, projectCount: 2, latestAt: '2026-01-02T00:00:00Z', label: 'Provider timeout' });
+    expect(groups[0].items.map((i) => i.id)).toEqual(['c', 'a', 'd']);
+  });
+
+  it('does not count jobs without a project as projects', () => {
+    const [group] = groupFailures([item('a', 'unknown', null, '2026-01-01T00:00:00Z')]);
+    expect(group.projectCount).toBe(0);
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import { HOOK_CRITERIA } from '@/lib/constants';
+import {
+  MIN_CALIBRATION_SAMPLES,
+  calibratedHookScore,
+  fitCalibration,
+  pearson,
+  performanceScores,
+  suggestMinimum,
+  type CalibrationSample,
+  type CriterionWeights,
+} from '@/lib/hook-calibration';
+
+const UNIFORM = Object.fromEntries(HOOK_CRITERIA.map((c) => [c, 1])) as CriterionWeights;
+
+/**
+ * Runs where only specific_claim drives performance; the other criteria vary
+ * on a fixed pattern unrelated to it.
+ */
+function syntheticRuns(n: number): CalibrationSample[] {
+  return Array.from({ length: n }, (_, i) => {
+    const claim = i % 3;
+    const noise = Math.floor(i / 3) % 3;
+    return {
+      scores: Object.fromEntries(HOOK_CRITERIA.map((c, j) => [c, c === 'specific_claim' ? claim : (noise * (j + 1)) % 3])),
+      tone: i % 2 ? 'reluctant-insider' : 'hype',
+      views: 1000 * 10 ** claim,
+      completionRatePct: 20 + claim * 10 + (i % 2),
+      conversionRatePct: null,
+    };
+  });
+}
+
+describe('pearson', () => {
+  it('is 1 for a perfect linear relation and null without variance', () => {
+    expect(pearson([1, 2, 3, 4], [2, 4, 6, 8])).toBe(1);
+    expect(pearson([1, 1, 1], [1, 2, 3])).toBeNull();
+    expect(pearson([1, 2], [1, 2])).toBeNull();
+  });
+});
+
+describe('performanceScores', () => {
+  it('averages z-scored outcomes and skips samples with none', () => {
+    const base = { scores: {}, tone: null, conversionRatePct: null };
+    const scores = performanceScores([
+      { ...base, views: 100, completionRatePct: 10 },
+      { ...base, views: 10_000, completionRatePct: 30 },
+      { ...base, views: 0, completionRatePct: null },
+    ]);
+    expect(scores[0]).toBeLessThan(0);
+    expect(scores[1]).toBeGreaterThan(0);
+    expect(scores[0]! + scores[1]!).toBeCloseTo(0);
+    expect(scores[2]).toBeNull();
+  });
+});
+
+describe('calibratedHookScore', () => {
+  it('equals the plain sum with uniform weights', () => {
+    expect(calibratedHookScore({ curiosity_loop: 2, specific_claim: 1, clear_context: 2 }, UNIFORM)).toBe(5);
+  });
+
+  it('rounds the weighted sum', () => {
+    expect(calibratedHookScore({ curiosity_loop: 2, specific_claim: 1 }, { ...UNIFORM, curiosity_loop: 0.4, specific_claim: 2.3 })).toBe(3);
+  });
+});
+
+describe('suggestMinimum', () => {
+  it('picks the cut with the widest performance gap', () => {
+    const scores = [4, 5, 6, 8, 9, 10, 11, 12, 13, 14];
+    const performance = [-1, -1, -1, -1, -1, 1, 1, 1, 1, 1];
+    expect(suggestMinimum(scores, performance)).toBe(10);
+  });
+
+  it('is null when higher scores do not do better', () => {
+    expect(suggestMinimum([1, 2, 3, 4, 5, 6, 7, 8, 9, 10], [5, 4, 3, 2, 1, 0, -1, -2, -3, -4])).toBeNull();
+  });
+});
+
+describe('fitCalibration', () => {
+  it('needs enough runs with performance data', () => {
+    expect(fitCalibration(syntheticRuns(MIN_CALIBRATION_SAMPLES - 1))).toBeNull();
+  });
+
+  it('finds the criterion that predicts performance and weights it up', () => {
+    const fit = fitCalibration(syntheticRuns(60))!;
+    const claim = fit.criteria.find((c) => c.criterion === 'specific_claim')!;
+    const others = fit.criteria.filter((c) => c.criterion !== 'specific_claim');
+
+    expect(fit.sampleSize).toBe(60);
+    expect(claim.correlations.views).toBeGreaterThan(0.9);
+    expect(claim.correlations.conversion).toBeNull();
+    expect(claim.weight).toBeGreaterThan(1);
+    for (const c of others) expect(c.weight).toBeLessThan(1);
+    expect(fit.rSquared).toBeGreaterThan(0.8);
+    expect(fit.calibratedCorrelation!).toBeGreaterThan(fit.rawCorrelation!);
+  });
+
+  it('keeps weights summing to the criterion count', () => {
+    const fit = fitCalibration(syntheticRuns(60))!;
+    const sum = Object.values(fit.weights).reduce((a, b) => a + b, 0);
+    expect(sum).toBeCloseTo(HOOK_CRITERIA.length, 1);
+  });
+
+  it('shrinks toward uniform weights on small samples', () => {
+    const small = fitCalibration(syntheticRuns(MIN_CALIBRATION_SAMPLES))!;
+    const large = fitCalibration(syntheticRuns(300))!;
+    expect(small.weights.specific_claim).toBeLessThan(large.weights.specific_claim);
+  });
+
+  it('reports performance by tone', () => {
+    const fit = fitCalibration(syntheticRuns(60))!;
+    expect(fit.tones.map((t) => t.tone).sort()).toEqual(['hype', 'reluctant-insider']);
+    expect(fit.tones.reduce((sum, t) => sum + t.runs, 0)).toBe(60);
+  });
+});
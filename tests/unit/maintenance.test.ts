@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { findOrphanedFiles, findStalledProjects } from '@/lib/maintenance';
+
+const now = new Date('2026-03-10T12:00:00Z');
+const minutesAgo = (minutes: number) => new Date(now.getTime() - minutes * 60_000).toISOString();
+
+describe('findStalledProjects', () => {
+  const threshold = 30 * 60_000;
+
+  it('picks projects past the threshold with no live job', () => {
+    const projects = [
+      { id: 'stalled', status: 'directing', updated_at: minutesAgo(45) },
+      { id: 'queued', status: 'casting', updated_at: minutesAgo(45) },
+      { id: 'recent', status: 'voiceover', updated_at: minutesAgo(5) },
+    ];
+    const stalled = findStalledProjects(projects, new Set(['queued']), now, threshold);
+    expect(stalled.map((p) => p.id)).toEqual(['stalled']);
+  });
+
+  it('counts a project exactly at the threshold as stalled', () => {
+    const projects = [{ id: 'edge', status: 'editing', updated_at: minutesAgo(30) }];
+    expect(findStalledProjects(projects, new Set(), now, threshold)).toHaveLength(1);
+  });
+});
+
+describe('findOrphanedFiles', () => {
+  const day = 24 * 60 * 60_000;
+
+  it('returns old files no asset references', () => {
+    const files = [
+      { path: 'projects/p1/audio/segment-0.mp3', created_at: minutesAgo(3 * 24 * 60) },
+      { path: 'projects/p1/audio/segment-0-regen-1.mp3', created_at: minutesAgo(2 * 24 * 60) },
+    ];
+    const referenced = new Set(['projects/p1/audio/segment-0-regen-1.mp3']);
+    expect(findOrphanedFiles(files, referenced, now, day)).toEqual(['projects/p1/audio/segment-0.mp3']);
+  });
+
+  it('leaves young unreferenced files for uploads still being attached', () => {
+    const files = [{ path: 'assets/uploads/p1/a-1234.png', created_at: minutesAgo(10) }];
+    expect(findOrphanedFiles(files, new Set(), now, day)).toEqual([]);
+  });
+});
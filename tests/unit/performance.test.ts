@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import {
+  computeDaysSincePost,
+  computePerformanceBadge,
+  computeRoi,
+  shouldCreateSnapshot,
+} from '@/lib/performance';
+
+const base = { views: 5_000, conversionRatePct: null, gmvUsd: 0, roi: null, daysSincePost: 3 };
+
+describe('computePerformanceBadge', () => {
+  it('marks 100k+ views as viral, ahead of every other badge', () => {
+    expect(computePerformanceBadge({ ...base, views: 100_000 })).toBe('viral');
+    expect(computePerformanceBadge({ ...base, views: 250_000, conversionRatePct: 5 })).toBe('viral');
+  });
+
+  it('marks a 2%+ conversion rate as converting', () => {
+    expect(computePerformanceBadge({ ...base, conversionRatePct: 2 })).toBe('converting');
+    expect(computePerformanceBadge({ ...base, conversionRatePct: 1.99 })).toBeNull();
+  });
+
+  it('marks 3x+ ROI with sales as converting', () => {
+    expect(computePerformanceBadge({ ...base, gmvUsd: 30, roi: 3 })).toBe('converting');
+    expect(computePerformanceBadge({ ...base, gmvUsd: 0, roi: 3 })).toBeNull();
+  });
+
+  it('marks under 1k views after a week as underperforming', () => {
+    expect(computePerformanceBadge({ ...base, views: 999, daysSincePost: 8 })).toBe('underperforming');
+    expect(computePerformanceBadge({ ...base, views: 999, daysSincePost: 7 })).toBeNull();
+    expect(computePerformanceBadge({ ...base, views: 0, daysSincePost: 30 })).toBeNull();
+  });
+});
+
+describe('computeRoi', () => {
+  it('divides GMV by cost, rounded to cents', () => {
+    expect(computeRoi(100, 30)).toBe(3.33);
+    expect(computeRoi(0, 12.5)).toBe(0);
+  });
+
+  it('returns null without a positive cost', () => {
+    expect(computeRoi(100, 0)).toBeNull();
+    expect(computeRoi(100, -5)).toBeNull();
+  });
+});
+
+describe('shouldCreateSnapshot', () => {
+  const now = new Date(2026, 2, 10, 9, 30);
+
+  it('snapshots when there is no previous snapshot', () => {
+    expect(shouldCreateSnapshot(null, now)).toBe(true);
+  });
+
+  it('snapshots once per calendar day', () => {
+    expect(shouldCreateSnapshot(new Date(2026, 2, 10, 0, 5).toISOString(), now)).toBe(false);
+    expect(shouldCreateSnapshot(new Date(2026, 2, 9, 23, 55).toISOString(), now)).toBe(true);
+  });
+});
+
+describe('computeDaysSincePost', () => {
+  it('counts whole days elapsed', () => {
+    const now = new Date('2026-03-10T12:00:00Z');
+    expect(computeDaysSincePost('2026-03-03T12:00:00Z', now)).toBe(7);
+    expect(computeDaysSincePost('2026-03-03T12:00:01Z', now)).toBe(6);
+  });
+
+  it('never goes negative', () => {
+    expect(computeDaysSincePost('2026-03-11T00:00:00Z', new Date('2026-03-10T00:00:00Z'))).toBe(0);
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, expect, it } from 'vitest';
+import { InvalidTransitionError } from '@/lib/errors';
+import {
+  REVIEW_GATES,
+  STAGES,
+  approvalFor,
+  assertTransition,
+  autoAdvanceFor,
+  canTransition,
+  cancelTarget,
+  restartTarget,
+  retryTarget,
+  rollbackTarget,
+  runningStage,
+  stageForFailure,
+  stageForStep,
+} from '@/lib/pipeline';
+
+/** The statuses a project passes through when every gate is approved by hand. */
+const HAPPY_PATH = [
+  'created', 'analyzing', 'analysis_review', 'concept_review', 'scripting', 'script_review',
+  'broll_planning', 'broll_review', 'influencer_selection', 'casting', 'casting_review',
+  'directing', 'voiceover', 'broll_generation', 'asset_review', 'editing', 'completed',
+];
+
+describe('status transitions', () => {
+  it('allow every step of the happy path', () => {
+    for (let i = 1; i < HAPPY_PATH.length; i++) {
+      expect(canTransition(HAPPY_PATH[i - 1], HAPPY_PATH[i]), `${HAPPY_PATH[i - 1]} → ${HAPPY_PATH[i]}`).toBe(true);
+    }
+  });
+
+  it('walk a hook variant from created through its statuses to asset review', () => {
+    const path = ['created', ...STAGES.variant_generation.statuses, 'asset_review'];
+    for (let i = 1; i < path.length; i++) {
+      expect(canTransition(path[i - 1], path[i]), `${path[i - 1]} → ${path[i]}`).toBe(true);
+    }
+  });
+
+  it('allow staying in the same status', () => {
+    expect(canTransition('directing', 'directing')).toBe(true);
+  });
+
+  it('reject skipping ahead or unknown statuses', () => {
+    expect(canTransition('created', 'completed')).toBe(false);
+    expect(canTransition('analyzing', 'script_review')).toBe(false);
+    expect(canTransition('completed', 'editing')).toBe(false);
+    expect(canTransition('created', 'nonsense')).toBe(false);
+  });
+
+  it('let every running status fail', () => {
+    for (const stage of Object.values(STAGES)) {
+      for (const status of stage.statuses) expect(canTransition(status, 'failed')).toBe(true);
+    }
+  });
+
+  it('throw InvalidTransitionError from assertTransition', () => {
+    expect(() => assertTransition('created', 'completed')).toThrow(InvalidTransitionError);
+    expect(() => assertTransition('created', 'analyzing')).not.toThrow();
+  });
+});
+
+describe('review gates', () => {
+  it('approve into the next gate or stage', () => {
+    expect(approvalFor('analysis_review')).toEqual({ status: 'concept_review' });
+    expect(approvalFor('concept_review')).toEqual({ stage: 'scripting', step: 'scripting', status: 'scripting' });
+    expect(approvalFor('asset_review')).toEqual({ stage: 'editing', step: 'editing', status: 'editing' });
+  });
+
+  it('cannot be approved from influencer selection or outside a gate', () => {
+    expect(approvalFor('influencer_selection')).toBeNull();
+    expect(approvalFor('directing')).toBeNull();
+  });
+
+  it('mark which gates fast mode skips', () => {
+    expect(autoAdvanceFor('script_review')).toEqual({ stage: 'broll_planning', step: 'broll_planning', fastMode: true });
+    expect(autoAdvanceFor('asset_review')?.fastMode).toBe(false);
+    expect(autoAdvanceFor('scripting')).toBeNull();
+  });
+
+  it('each reach the status their approval starts', () => {
+    for (const status of Object.keys(REVIEW_GATES)) {
+      const approval = approvalFor(status);
+      if (approval) expect(canTransition(status, approval.status)).toBe(true);
+    }
+  });
+});
+
+describe('failure recovery', () => {
+  it('resolves a failed status or stage id to its stage', () => {
+    expect(stageForFailure('voiceover')).toBe('voiceover');
+    expect(stageForFailure('broll_generation')).toBe('broll_generation');
+    expect(stageForFailure('not_a_stage')).toBeNull();
+    expect(stageForStep('product_analysis')).toBe('analyzing');
+    expect(stageForStep('casting_segment')).toBeNull();
+  });
+
+  it('retries a failed stage from its first status', () => {
+    expect(retryTarget('directing')).toEqual({ status: 'directing', step: 'directing' });
+    expect(retryTarget('variant_generation')).toEqual({ status: 'created', step: 'variant_generation' });
+  });
+
+  it('rolls a failed stage back to its review gate', () => {
+    expect(rollbackTarget('analyzing')).toBe('created');
+    expect(rollbackTarget('voiceover')).toBe('casting_review');
+    expect(rollbackTarget('broll_generation')).toBe('broll_review');
+    expect(rollbackTarget('variant_generation')).toBeNull();
+  });
+
+  it('cancels a running stage back to its review gate', () => {
+    expect(cancelTarget({ status: 'scripting' })).toBe('analysis_review');
+    expect(cancelTarget({ status: 'directing' })).toBe('casting_review');
+    expect(cancelTarget({ status: 'editing' })).toBe('asset_review');
+    expect(cancelTarget({ status: 'script_review' })).toBeNull();
+  });
+
+  it('cancels a hook variant sibling back to waiting, not to the casting gates', () => {
+    for (const status of ['casting', 'directing', 'voiceover']) {
+      const sibling = { status, variant_parent_id: 'parent-id' };
+      expect(runningStage(sibling)).toBe('variant_generation');
+      expect(cancelTarget(sibling)).toBe('created');
+      expect(canTransition(status, 'created')).toBe(true);
+    }
+    expect(runningStage({ status: 'casting', variant_parent_id: null })).toBe('casting');
+    expect(cancelTarget({ status: 'casting', variant_parent_id: null })).toBe('influencer_selection');
+  });
+
+  it('restarts a stage from the gate before it', () => {
+    expect(restartTarget('analysis')).toEqual({ targetStatus: 'created', queueStep: 'product_analysis' });
+    expect(restartTarget('casting')).toEqual({ targetStatus: 'broll_review', queueStep: 'casting' });
+    expect(restartTarget('analyzing')).toBeNull();
+    expect(restartTarget('variant_generation')).toBeNull();
+  });
+
+  it('allows every transition the recovery helpers ask for', () => {
+    for (const [id, stage] of Object.entries(STAGES)) {
+      const retry = retryTarget(id)!;
+      expect(canTransition('failed', retry.status)).toBe(true);
+      if (stage.rollbackTo) expect(canTransition('failed', stage.rollbackTo)).toBe(true);
+      for (const status of stage.statuses) {
+        const cancelTo = cancelTarget({ status, variant_parent_id: id === 'variant_generation' ? 'parent-id' : null });
+        if (cancelTo) expect(canTransition(status, cancelTo)).toBe(true);
+      }
+    }
+  });
+});
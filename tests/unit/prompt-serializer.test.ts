@@ -0,0 +1,139 @@
+import { describe, expect, it } from 'vitest';
+import type { StructuredPrompt } from '@/lib/prompt-schema';
+import {
+  buildVideoPromptJSON,
+  serializeAsJSON,
+  serializeForBroll,
+  serializeForImage,
+  serializeForVideo,
+  serializeForVideoJSON,
+} from '@/lib/prompt-serializer';
+
+const CAMERA_TERMS = 'camera movement, camera shake, camera pan, camera zoom, camera tilt';
+
+function prompt(overrides: Partial<StructuredPrompt> = {}): StructuredPrompt {
+  return {
+    subject: { primary: 'woman in her thirties', emphasis: '++confident woman++', wardrobe: 'a white tee' },
+    product: { emphasis: '++serum bottle++', scale: 'palm-sized', position: 'held at chest height' },
+    dialogue: { text: 'This changed my skin.', delivery: 'warm, conversational' },
+    action: {
+      sequence: [
+        { time: '0-5s', action: 'lifts the bottle', energy: 'HIGH' },
+        { time: '5-10s', action: 'taps the dropper', energy: 'PEAK' },
+      ],
+      energy_arc: 'HIGH → PEAK',
+    },
+    camera_specs: { shot: 'medium close-up', movement: 'slow push-in', framing: 'subject centered' },
+    environment: { setting: 'bright bathroom', elements: ['mirror', 'towel'], product_visible: true, product_position: 'in hand' },
+    lighting: { type: 'window light', quality: 'soft' },
+    style: { aesthetic: 'UGC selfie', quality: 'iPhone footage', skin: 'natural texture' },
+    negative_prompt: 'blurry',
+    ...overrides,
+  };
+}
+
+describe('serializeForImage', () => {
+  it('flattens the prompt into sentences, subject first', () => {
+    const text = serializeForImage(prompt());
+    expect(text.startsWith('++confident woman++. wearing a white tee. bright bathroom. mirror, towel.')).toBe(true);
+    expect(text).toContain('++serum bottle++, palm-sized, held at chest height');
+    expect(text).toContain('lifts the bottle');
+    expect(text).not.toContain('taps the dropper');
+    expect(text.endsWith('natural texture.')).toBe(true);
+  });
+
+  it('leaves the subject to the reference image with skipSubject', () => {
+    const text = serializeForImage(prompt(), { skipSubject: true });
+    expect(text).not.toContain('confident woman');
+    expect(text.startsWith('bright bathroom.')).toBe(true);
+  });
+});
+
+describe('serializeAsJSON', () => {
+  it('keeps the structured fields and drops dialogue', () => {
+    const json = JSON.parse(serializeAsJSON(prompt()));
+    expect(Object.keys(json)).toEqual([
+      'subject', 'product', 'action', 'camera_specs', 'environment', 'lighting', 'style', 'negative_prompt',
+    ]);
+  });
+
+  it('omits the subject with skipSubject', () => {
+    expect(JSON.parse(serializeAsJSON(prompt(), { skipSubject: true })).subject).toBeUndefined();
+  });
+});
+
+describe('serializeForVideoJSON', () => {
+  it('passes the prompt through with dialogue for lip-sync', () => {
+    const out = serializeForVideoJSON(prompt());
+    const json = JSON.parse(out.prompt);
+    expect(json.dialogue).toEqual({ text: 'This changed my skin.', delivery: 'warm, conversational' });
+    expect(json.camera_specs.movement).toBe('slow push-in');
+    expect(out.negativePrompt).toBe('blurry');
+  });
+
+  it('locks the camera and extends the negative prompt', () => {
+    const out = serializeForVideoJSON(prompt(), { lockCamera: true });
+    expect(JSON.parse(out.prompt).camera_specs.movement).toBe('static, no camera movement');
+    expect(out.negativePrompt).toBe(`blurry, ${CAMERA_TERMS}`);
+    expect(serializeForVideoJSON(prompt({ negative_prompt: '' }), { lockCamera: true }).negativePrompt).toBe(CAMERA_TERMS);
+  });
+});
+
+describe('buildVideoPromptJSON', () => {
+  const scene = {
+    script_text: 'Stop scrolling. You need this.',
+    visual_prompt: { start: prompt(), end: prompt({ action: { sequence: [{ time: '0-5s', action: 'smiles at camera', energy: 'HIGH' }], energy_arc: '' } }) },
+    shot_scripts: [{ energy: 'HIGH' }, { energy: 'Medium' }, { energy: 'PEAK' }],
+    energy_arc: { start: 'HIGH', middle: 'PEAK', end: 'MEDIUM' },
+  };
+
+  it('builds one timed action per shot from the start and end poses', () => {
+    const json = JSON.parse(buildVideoPromptJSON(scene, { shotDuration: 5 }).prompt);
+    expect(json.dialogue.text).toBe('Stop scrolling. You need this.');
+    expect(json.action.sequence.map((s: { time: string }) => s.time)).toEqual(['0-5s', '5-10s', '10-15s']);
+    expect(json.action.sequence[0].action).toBe('lifts the bottle');
+    expect(json.action.sequence[1].energy).toBe('medium');
+    expect(json.action.sequence[2].action).toBe('smiles at camera');
+    expect(json.action.energy_arc).toBe('HIGH → PEAK → MEDIUM');
+  });
+
+  it('falls back to defaults for a bare scene', () => {
+    const out = buildVideoPromptJSON({}, { shotDuration: 5, lockCamera: true });
+    const json = JSON.parse(out.prompt);
+    expect(json.dialogue).toEqual({ text: '', delivery: 'natural, conversational' });
+    expect(json.action.sequence).toEqual([]);
+    expect(json.camera_specs).toEqual({ shot: 'medium', movement: 'static, no camera movement', framing: 'subject centered' });
+    expect(out.negativePrompt).toBe(CAMERA_TERMS);
+  });
+});
+
+describe('serializeForVideo', () => {
+  it('builds the main prompt and one multi-prompt entry per action', () => {
+    const out = serializeForVideo(prompt(), '5');
+    expect(out.prompt).toContain('Product: in hand (palm-sized)');
+    expect(out.prompt).toContain('medium close-up, slow push-in');
+    expect(out.prompt).toContain('Speaking: "This changed my skin."');
+    expect(out.multiPrompt).toEqual([
+      { prompt: 'lifts the bottle. Energy: HIGH. Camera follows subject naturally.', duration: '5' },
+      { prompt: 'taps the dropper. Energy: PEAK. Camera follows subject naturally.', duration: '5' },
+    ]);
+    expect(out.negativePrompt).toBe('blurry');
+  });
+
+  it('accepts an options object with a locked camera', () => {
+    const out = serializeForVideo(prompt(), { shotDuration: '3', lockCamera: true });
+    expect(out.prompt).toContain('medium close-up, static locked camera, no camera movement');
+    expect(out.multiPrompt[0]).toEqual({ prompt: 'lifts the bottle. Energy: HIGH. Static locked camera.', duration: '3' });
+    expect(out.negativePrompt).toBe(`blurry, ${CAMERA_TERMS}`);
+  });
+});
+
+describe('serializeForBroll', () => {
+  it('describes the scene and product without the person', () => {
+    const text = serializeForBroll(prompt());
+    expect(text).not.toContain('confident woman');
+    expect(text).not.toContain('This changed my skin');
+    expect(text).toContain('++serum bottle++. palm-sized. held at chest height');
+    expect(text.endsWith('. Photorealistic, 9:16 vertical.')).toBe(true);
+  });
+});
@@ -0,0 +1,251 @@
+// Resumable stages: an agent restarted mid-stage never pays for a provider task
+// twice. DirectorAgent and BRollAgent run against a fake WaveSpeed server and an
+// in-memory Supabase, are "crashed" while a task is in flight, then a fresh agent
+// runs and the test counts submissions and tracked cost. Needs no credentials,
+// Redis or network — provider limits are switched off.
+
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { DirectorAgent } from '@/agents/director-agent';
+import { BRollAgent } from '@/agents/broll-agent';
+import { API_COSTS } from '@/lib/constants';
+import { BudgetExceededError } from '@/lib/errors';
+import { FakeSupabase } from '../helpers/fake-supabase';
+
+process.env.PROVIDER_CONCURRENCY_WAVESPEED_VIDEO = '0';
+process.env.PROVIDER_CONCURRENCY_WAVESPEED_IMAGE = '0';
+process.env.WAVESPEED_API_KEY = 'fake';
+
+// ─── Fake WaveSpeed ───────────────────────────────────────────────────────────
+// Every POST submits a task; GET /api/v3/predictions/<id>/result reports it.
+// Tasks complete as soon as they are polled unless held or set to fail.
+
+type TaskState = 'processing' | 'completed' | 'failed';
+
+class FakeWaveSpeed {
+  private tasks = new Map<string, { endpoint: string; state: TaskState }>();
+  private server = http.createServer((req, res) => this.handle(req, res));
+  holdNewTasks = false;
+  failNewTasks = false;
+
+  async start(): Promise<string> {
+    await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  stop(): Promise<void> {
+    return new Promise((resolve) => this.server.close(() => resolve()));
+  }
+
+  submissions(endpointPart: string): number {
+    return [...this.tasks.values()].filter((t) => t.endpoint.includes(endpointPart)).length;
+  }
+
+  lastTaskId(): string {
+    return [...this.tasks.keys()].pop()!;
+  }
+
+  settle(taskId: string, state: TaskState) {
+    this.tasks.get(taskId)!.state = state;
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse) {
+    req.resume();
+    req.on('end', () => {
+      const url = req.url || '';
+      const poll = url.match(/^\/api\/v3\/predictions\/([^/]+)\/result$/);
+      res.setHeader('Content-Type', 'application/json');
+
+      if (req.method === 'POST') {
+        const id = `task-${this.tasks.size + 1}`;
+        const state = this.failNewTasks ? 'failed' : this.holdNewTasks ? 'processing' : 'completed';
+        this.tasks.set(id, { endpoint: url, state });
+        res.end(JSON.stringify({ data: { id, status: 'created' } }));
+      } else if (poll && this.tasks.has(poll[1])) {
+        const { state } = this.tasks.get(poll[1])!;
+        res.end(JSON.stringify({
+          data: {
+            status: state,
+            outputs: state === 'completed' ? [`https://fake.wavespeed/${poll[1]}.png`] : [],
+            error: state === 'failed' ? 'fake failure' : undefined,
+          },
+        }));
+      } else {
+        res.statusCode = 404;
+        res.end(JSON.stringify({ error: 'not found' }));
+      }
+    });
+  }
+}
+
+/** Cancel check that "kills the worker" on its first poll. */
+function crashOnFirstPoll(): () => Promise<boolean> {
+  return async () => true;
+}
+
+const wavespeed = new FakeWaveSpeed();
+
+beforeAll(async () => {
+  // Read by each WaveSpeedClient as the agents below create them
+  process.env.WAVESPEED_BASE_URL = await wavespeed.start();
+});
+
+afterAll(() => wavespeed.stop());
+
+// The tests in each suite run in order and build on each other's state
+
+describe('DirectorAgent resume', () => {
+  const db = new FakeSupabase();
+  const project = db.insert('project', { cost_usd: '0', budget_usd: null, video_retries: 0, lock_camera: false, negative_prompt_override: null });
+  const projectId = project.id as string;
+  const script = db.insert('script', { project_id: projectId, version: 1 });
+  const sceneIds: unknown[] = [];
+  for (const segmentIndex of [0, 1]) {
+    const scene = db.insert('scene', { script_id: script.id, segment_index: segmentIndex, version: 1, script_text: `Line ${segmentIndex}` });
+    sceneIds.push(scene.id);
+    for (const type of ['keyframe_start', 'keyframe_end']) {
+      db.insert('asset', { project_id: projectId, scene_id: scene.id, type, status: 'completed', url: `https://fake/${type}-${segmentIndex}.png`, provider_task_id: `kf-${type}-${segmentIndex}` });
+    }
+  }
+  const videos = () => db.table('asset').filter((a) => a.type === 'video');
+  const spent = () => parseFloat(String(project.cost_usd));
+
+  const director = () => {
+    const agent = new DirectorAgent(db.client());
+    agent.setCancelCheck(async () => false);
+    return agent;
+  };
+
+  it('re-attaches to an interrupted clip instead of resubmitting it', async () => {
+    wavespeed.holdNewTasks = true;
+    const crashed = director();
+    crashed.setCancelCheck(crashOnFirstPoll());
+    await expect(crashed.directSegment(projectId, 0)).rejects.toThrow('cancelled');
+    expect(wavespeed.submissions('image-to-video')).toBe(1);
+    expect(videos()[0]?.status).toBe('generating');
+
+    wavespeed.settle(wavespeed.lastTaskId(), 'completed');
+    await director().directSegment(projectId, 0);
+    expect(wavespeed.submissions('image-to-video')).toBe(1);
+    expect(videos()).toHaveLength(1);
+    expect(videos()[0].status).toBe('completed');
+    expect(spent()).toBe(API_COSTS.klingVideo);
+  });
+
+  it('skips a completed clip on rerun', async () => {
+    await director().directSegment(projectId, 0);
+    expect(wavespeed.submissions('image-to-video')).toBe(1);
+    expect(spent()).toBe(API_COSTS.klingVideo);
+  });
+
+  it('submits an interrupted clip that failed upstream once more', async () => {
+    const crashed = director();
+    crashed.setCancelCheck(crashOnFirstPoll());
+    await crashed.directSegment(projectId, 1).catch(() => undefined);
+    wavespeed.settle(wavespeed.lastTaskId(), 'failed');
+
+    wavespeed.holdNewTasks = false;
+    await director().directSegment(projectId, 1);
+    // The first clip, the one that failed and its replacement
+    expect(wavespeed.submissions('image-to-video')).toBe(3);
+    const segment1 = videos().filter((v) => v.scene_id === sceneIds[1]);
+    expect(segment1.map((v) => v.status)).toEqual(['failed', 'completed']);
+    // Every real submission, once
+    expect(spent()).toBe(3 * API_COSTS.klingVideo);
+  });
+});
+
+describe('BRollAgent resume', () => {
+  const db = new FakeSupabase();
+  const project = db.insert('project', { cost_usd: '0', budget_usd: null, product_name: 'Widget' });
+  const projectId = project.id as string;
+  for (const shotIndex of [0, 1]) {
+    db.insert('broll_shot', { project_id: projectId, source: 'ai_generated', status: 'planned', segment_index: 1, shot_index: shotIndex, prompt: `Close-up ${shotIndex}`, category: 'detail', timing_seconds: 2, duration_seconds: 2 });
+  }
+
+  it('resumes interrupted shots without resubmitting them', async () => {
+    const submittedBefore = wavespeed.submissions('text-to-image');
+    wavespeed.holdNewTasks = true;
+    const crashed = new BRollAgent(db.client());
+    crashed.setCancelCheck(crashOnFirstPoll());
+    await crashed.generate(projectId).catch(() => undefined);
+    expect(wavespeed.submissions('text-to-image') - submittedBefore).toBe(1);
+
+    wavespeed.settle(wavespeed.lastTaskId(), 'completed');
+    wavespeed.holdNewTasks = false;
+    const resumed = new BRollAgent(db.client());
+    resumed.setCancelCheck(async () => false);
+    await resumed.generate(projectId);
+
+    // One submission per shot
+    expect(wavespeed.submissions('text-to-image') - submittedBefore).toBe(2);
+    expect(db.table('broll_shot').every((s) => s.status === 'completed')).toBe(true);
+    expect(parseFloat(String(project.cost_usd))).toBe(2 * API_COSTS.nanoBananaPro);
+  });
+});
+
+describe('Budget reservations', () => {
+  const db = new FakeSupabase();
+  // Room for one clip, not two
+  const project = db.insert('project', { cost_usd: '0', budget_usd: (1.5 * API_COSTS.klingVideo).toFixed(2), video_retries: 0, lock_camera: false, negative_prompt_override: null });
+  const projectId = project.id as string;
+  const script = db.insert('script', { project_id: projectId, version: 1 });
+  for (const segmentIndex of [0, 1]) {
+    const scene = db.insert('scene', { script_id: script.id, segment_index: segmentIndex, version: 1, script_text: `Line ${segmentIndex}` });
+    for (const type of ['keyframe_start', 'keyframe_end']) {
+      db.insert('asset', { project_id: projectId, scene_id: scene.id, type, status: 'completed', url: `https://fake/${type}-${segmentIndex}.png`, provider_task_id: `kf-${type}-${segmentIndex}` });
+    }
+  }
+
+  it('lets only one of two parallel segment jobs past the cap', async () => {
+    wavespeed.holdNewTasks = false;
+    const submittedBefore = wavespeed.submissions('image-to-video');
+    const results = await Promise.allSettled([0, 1].map((segIdx) => {
+      const agent = new DirectorAgent(db.client());
+      agent.setCancelCheck(async () => false);
+      return agent.directSegment(projectId, segIdx);
+    }));
+
+    expect(results.map((r) => r.status).sort()).toEqual(['fulfilled', 'rejected']);
+    const refused = results.find((r) => r.status === 'rejected') as PromiseRejectedResult;
+    expect(refused.reason).toBeInstanceOf(BudgetExceededError);
+    expect(wavespeed.submissions('image-to-video') - submittedBefore).toBe(1);
+    // The reservation became the clip's cost; nothing was tracked twice
+    expect(parseFloat(String(project.cost_usd))).toBe(API_COSTS.klingVideo);
+  });
+});
+
+describe('Budget reservations on retries', () => {
+  const db = new FakeSupabase();
+  // Room for one clip; the project allows two retries
+  const project = db.insert('project', { cost_usd: '0', budget_usd: (1.5 * API_COSTS.klingVideo).toFixed(2), video_retries: 2, lock_camera: false, negative_prompt_override: null });
+  const projectId = project.id as string;
+  const script = db.insert('script', { project_id: projectId, version: 1 });
+  const scene = db.insert('scene', { script_id: script.id, segment_index: 0, version: 1, script_text: 'Line 0' });
+  for (const type of ['keyframe_start', 'keyframe_end']) {
+    db.insert('asset', { project_id: projectId, scene_id: scene.id, type, status: 'completed', url: `https://fake/${type}-0.png`, provider_task_id: `kf-${type}-0` });
+  }
+
+  afterEach(() => {
+    wavespeed.failNewTasks = false;
+    vi.restoreAllMocks();
+  });
+
+  it('stops retrying a failed clip once the next submission would pass the cap', async () => {
+    // Skip the director's 10s pause between attempts
+    const pause = setTimeout;
+    vi.spyOn(globalThis, 'setTimeout').mockImplementation(((fn: () => void, ms?: number) => pause(fn, ms === 10000 ? 0 : ms)) as typeof setTimeout);
+    wavespeed.holdNewTasks = false;
+    wavespeed.failNewTasks = true;
+    const submittedBefore = wavespeed.submissions('image-to-video');
+
+    const agent = new DirectorAgent(db.client());
+    agent.setCancelCheck(async () => false);
+    await expect(agent.directSegment(projectId, 0)).rejects.toBeInstanceOf(BudgetExceededError);
+
+    // The first clip was paid for; its retry was refused before submitting
+    expect(wavespeed.submissions('image-to-video') - submittedBefore).toBe(1);
+    expect(parseFloat(String(project.cost_usd))).toBe(API_COSTS.klingVideo);
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { autoAssignWorker, parseRoadmap } from '@/lib/roadmap-parser';
+
+const ROADMAP = `# Engineering Roadmap
+
+### Tier 0 — Blockers
+
+#### ~~B0.1 - Fix worker crash on empty script~~ DONE
+
+**Why:** The worker dies on empty scripts. It blocks every run.
+**Effort:** 1h
+
+---
+
+### Tier 1: MVP
+
+#### R1.2 - Queue dashboard 🔧 IN PROGRESS
+
+**Priority:** P1 - High
+**Depends on:** R1.1, B0.1
+**Spec:** \`docs/plans/queue-dashboard.md\`
+
+- [x] API route
+- [ ] Page
+
+#### R1.3 - Reference video intelligence
+
+**Why:** Creators want to copy winning videos. Also cheaper.
+**Status:** Partially complete
+Adds ~$0.02/video in Gemini cost.
+
+### Tier 2 — Growth
+
+#### R2.1 - Button styling pass
+
+- [x] card
+- [x] modal
+
+#### Not a task header
+`;
+
+describe('parseRoadmap', () => {
+  const tasks = parseRoadmap(ROADMAP);
+  const byId = Object.fromEntries(tasks.map((t) => [t.id, t]));
+
+  it('parses every task header and skips the rest', () => {
+    expect(tasks.map((t) => t.id)).toEqual(['B0.1', 'R1.2', 'R1.3', 'R2.1']);
+    expect(byId['B0.1'].title).toBe('Fix worker crash on empty script');
+    expect(byId['R1.2'].title).toBe('Queue dashboard');
+  });
+
+  it('takes the tier from the nearest ### header', () => {
+    expect(tasks.map((t) => t.tier)).toEqual(['0', '1', '1', '2']);
+  });
+
+  it('detects status from the header, the body and checkboxes', () => {
+    expect(byId['B0.1'].status).toBe('done');
+    expect(byId['R1.2'].status).toBe('in_progress');
+    expect(byId['R1.3'].status).toBe('in_progress');
+    expect(byId['R2.1'].status).toBe('done');
+  });
+
+  it('extracts fields from the body', () => {
+    expect(byId['B0.1'].priority).toBe('P0 - Critical');
+    expect(byId['B0.1'].effort).toBe('1h');
+    expect(byId['B0.1'].description).toBe('The worker dies on empty scripts.');
+    expect(byId['R1.2'].priority).toBe('P1 - High');
+    expect(byId['R1.2'].dependsOn).toEqual(['R1.1', 'B0.1']);
+    expect(byId['R1.2'].specPath).toBe('docs/plans/queue-dashboard.md');
+    expect(byId['R1.2'].checkboxes).toEqual({ total: 2, completed: 1 });
+    expect(byId['R1.3'].costImpact).toBe('~$0.02/video');
+  });
+
+  it('stops a task body at the next header or rule', () => {
+    expect(byId['B0.1'].body).not.toContain('Tier 1');
+    expect(byId['R1.3'].body).not.toContain('Button styling');
+  });
+});
+
+describe('autoAssignWorker', () => {
+  it('picks the worker with the most keyword hits', () => {
+    expect(autoAssignWorker('Add an API route and a queue worker for the pipeline')).toBe('cloud');
+    expect(autoAssignWorker('Restyle the card and modal on the storyboard page')).toBe('tifa');
+    expect(autoAssignWorker('Add a test for the validation guard')).toBe('red_xiii');
+  });
+
+  it('matches whole words only', () => {
+    expect(autoAssignWorker('Rapid capital')).toBe('aerith');
+  });
+
+  it('falls back to aerith', () => {
+    expect(autoAssignWorker('Something unrelated entirely')).toBe('aerith');
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeSentencePacing, countSyllables, countTextSyllables, scaleSyllableTargets } from '@/lib/syllables';
+
+describe('countSyllables', () => {
+  it('counts short words as one syllable', () => {
+    expect(countSyllables('a')).toBe(1);
+    expect(countSyllables('the')).toBe(1);
+    expect(countSyllables('glow')).toBe(1);
+  });
+
+  it('counts vowel groups', () => {
+    expect(countSyllables('banana')).toBe(3);
+    expect(countSyllables('beautiful')).toBe(3);
+    expect(countSyllables('serum')).toBe(2);
+  });
+
+  it('drops a silent trailing e', () => {
+    expect(countSyllables('make')).toBe(1);
+    expect(countSyllables('skincare')).toBe(2);
+  });
+
+  it('keeps a consonant + le ending', () => {
+    expect(countSyllables('table')).toBe(2);
+    expect(countSyllables('bottle')).toBe(2);
+  });
+
+  it('ignores case and punctuation', () => {
+    expect(countSyllables('Banana!')).toBe(3);
+    expect(countSyllables("don't")).toBe(1);
+  });
+});
+
+describe('countSyllables in other languages', () => {
+  it('splits strong vowels and joins weak ones in Spanish', () => {
+    expect(countSyllables('producto', 'es')).toBe(3);
+    expect(countSyllables('poeta', 'es')).toBe(3);
+    expect(countSyllables('ciudad', 'es')).toBe(2);
+    expect(countSyllables('día', 'es')).toBe(2);
+  });
+
+  it('keeps Portuguese nasal diphthongs together', () => {
+    expect(countSyllables('não', 'pt')).toBe(1);
+    expect(countSyllables('coração', 'pt')).toBe(3);
+    expect(countSyllables('mães', 'pt')).toBe(1);
+  });
+
+  it('counts vowel clusters in German and Italian', () => {
+    expect(countSyllables('Feuchtigkeit', 'de')).toBe(3);
+    expect(countSyllables('Schönheit', 'de')).toBe(2);
+    expect(countSyllables('buongiorno', 'it')).toBe(3);
+  });
+
+  it('drops the French mute e', () => {
+    expect(countSyllables('crème', 'fr')).toBe(1);
+    expect(countSyllables('visage', 'fr')).toBe(2);
+    expect(countSyllables('beauté', 'fr')).toBe(2);
+  });
+
+  it('keeps accented letters when splitting text into words', () => {
+    expect(countTextSyllables('¡Mírame, qué piel!', 'es')).toBe(5);
+    expect(countTextSyllables('¡Mírame, qué piel!')).not.toBe(5);
+  });
+});
+
+describe('scaleSyllableTargets', () => {
+  const targets = { hook: { min: 60, max: 70 } };
+
+  it('scales by speaking rate between locales', () => {
+    expect(scaleSyllableTargets(targets, 'es-MX')).toEqual({ hook: { min: 76, max: 88 } });
+    expect(scaleSyllableTargets(targets, 'de-DE')).toEqual({ hook: { min: 58, max: 68 } });
+    expect(scaleSyllableTargets({ hook: { min: 76, max: 88 } }, 'en-US', 'es-MX')).toEqual(targets);
+  });
+
+  it('returns the same targets within one speaking rate', () => {
+    expect(scaleSyllableTargets(targets, 'en-US')).toBe(targets);
+    expect(scaleSyllableTargets(targets, 'es-ES', 'es-MX')).toBe(targets);
+  });
+});
+
+describe('countTextSyllables', () => {
+  it('sums the words of a sentence', () => {
+    expect(countTextSyllables('Hello, world!')).toBe(3);
+  });
+
+  it('returns 0 for empty or symbol-only text', () => {
+    expect(countTextSyllables('')).toBe(0);
+    expect(countTextSyllables('  -- !! ')).toBe(0);
+  });
+});
+
+describe('analyzeSentencePacing', () => {
+  it('splits on sentence punctuation and totals each sentence', () => {
+    const pacing = analyzeSentencePacing('Stop scrolling. This serum works! Really?');
+
+    expect(pacing.sentenceCount).toBe(3);
+    expect(pacing.sentences.map((s) => s.text)).toEqual(['Stop scrolling.', 'This serum works!', 'Really?']);
+    expect(pacing.sentences.map((s) => s.wordCount)).toEqual([2, 3, 1]);
+    expect(pacing.totalWords).toBe(6);
+    expect(pacing.totalSyllables).toBe(pacing.sentences.reduce((sum, s) => sum + s.syllableCount, 0));
+  });
+
+  it('treats text without punctuation as one sentence', () => {
+    expect(analyzeSentencePacing('no punctuation here').sentenceCount).toBe(1);
+  });
+
+  it('returns an empty analysis for empty text', () => {
+    expect(analyzeSentencePacing('')).toEqual({ sentences: [], totalSyllables: 0, totalWords: 0, sentenceCount: 0 });
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, expect, it } from 'vitest';
+import {
+  generalizeHook,
+  libraryWeights,
+  pickTemplate,
+  summarizeRuns,
+  templateFromRun,
+  templateWeights,
+  type TemplateRunStat,
+  type WinningRun,
+} from '@/lib/templates';
+
+function stat(templateId: string, roi: number | null, gmvUsd: number, badge: string | null = null, category = 'skincare'): TemplateRunStat {
+  return { templateId, category, roi, gmvUsd, badge };
+}
+
+describe('summarizeRuns', () => {
+  it('counts runs and winning badges and averages ROI over runs that have it', () => {
+    const summary = summarizeRuns([stat('a', 2, 100, 'viral'), stat('a', null, 50, 'converting'), stat('a', 1, 25.555, 'flop')]);
+    expect(summary).toEqual({ runs: 3, wins: 2, avgRoi: 1.5, totalGmvUsd: 175.56 });
+  });
+
+  it('has no average ROI without runs', () => {
+    expect(summarizeRuns([])).toEqual({ runs: 0, wins: 0, avgRoi: null, totalGmvUsd: 0 });
+  });
+});
+
+describe('templateWeights', () => {
+  it('weighs templates without runs at 1', () => {
+    expect(templateWeights(['a', 'b'], [])).toEqual(new Map([['a', 1], ['b', 1]]));
+  });
+
+  it('favors templates whose runs beat the category average', () => {
+    const stats = [stat('a', 4, 400), stat('a', 4, 400), stat('b', 1, 100), stat('b', 1, 100)];
+    const weights = templateWeights(['a', 'b', 'c'], stats);
+    expect(weights.get('a')).toBeGreaterThan(1);
+    expect(weights.get('b')).toBeLessThan(1);
+    expect(weights.get('c')).toBe(1);
+  });
+
+  it('pulls a single run toward the category average', () => {
+    const one = templateWeights(['a', 'b'], [stat('a', 4, 400), stat('b', 1, 100)]).get('a')!;
+    const many = templateWeights(['a', 'b'], [
+      ...Array.from({ length: 6 }, () => stat('a', 4, 400)),
+      ...Array.from({ length: 6 }, () => stat('b', 1, 100)),
+    ]).get('a')!;
+    expect(one).toBeLessThan(many);
+  });
+
+  it('clamps weights so no template is starved or dominant', () => {
+    const stats = [
+      ...Array.from({ length: 20 }, () => stat('a', 0, 0)),
+      ...Array.from({ length: 20 }, () => stat('b', 100, 100_000)),
+    ];
+    const weights = templateWeights(['a', 'b'], [...stats, ...Array.from({ length: 200 }, () => stat('x', 0.01, 1))]);
+    expect(weights.get('a')).toBe(0.2);
+    expect(weights.get('b')).toBe(5);
+  });
+});
+
+describe('libraryWeights', () => {
+  it('weighs each active template per category and leaves retired ones empty', () => {
+    const templates = [
+      { id: 'a', categories: ['skincare', 'tech'], status: 'active' },
+      { id: 'b', categories: ['skincare'], status: 'active' },
+      { id: 'c', categories: ['skincare'], status: 'retired' },
+    ];
+    const weights = libraryWeights(templates, [stat('a', 3, 300), stat('b', 1, 100)]);
+    expect(Object.keys(weights.get('a')!)).toEqual(['skincare', 'tech']);
+    expect(weights.get('a')!.tech).toBe(1);
+    expect(weights.get('a')!.skincare).toBeGreaterThan(weights.get('b')!.skincare);
+    expect(weights.get('c')).toEqual({});
+  });
+});
+
+describe('pickTemplate', () => {
+  const templates = [
+    { id: 'a', pinned: false, times_used: 0 },
+    { id: 'b', pinned: false, times_used: 0 },
+  ];
+
+  it('returns null for an empty list', () => {
+    expect(pickTemplate([], new Map())).toBeNull();
+  });
+
+  it('draws in proportion to weight', () => {
+    const weights = new Map([['a', 1], ['b', 3]]);
+    expect(pickTemplate(templates, weights, () => 0.2)?.id).toBe('a');
+    expect(pickTemplate(templates, weights, () => 0.3)?.id).toBe('b');
+    expect(pickTemplate(templates, weights, () => 0.99)?.id).toBe('b');
+  });
+
+  it('prefers the least-used pinned template over any weight', () => {
+    const withPinned = [
+      ...templates,
+      { id: 'p1', pinned: true, times_used: 4 },
+      { id: 'p2', pinned: true, times_used: 2 },
+    ];
+    expect(pickTemplate(withPinned, new Map([['a', 5]]), () => 0)?.id).toBe('p2');
+  });
+});
+
+describe('generalizeHook', () => {
+  it('replaces the product name case-insensitively', () => {
+    expect(generalizeHook('Nobody talks about the GlowSerum. glowserum fixed it.', 'GlowSerum'))
+      .toBe('Nobody talks about the {product}. {product} fixed it.');
+  });
+
+  it('treats the name literally', () => {
+    expect(generalizeHook('The C+ Boost (30ml) works', 'C+ Boost (30ml)')).toBe('The {product} works');
+  });
+
+  it('leaves text alone without a product name', () => {
+    expect(generalizeHook('Stop scrolling.', undefined)).toBe('Stop scrolling.');
+  });
+});
+
+describe('templateFromRun', () => {
+  const run: WinningRun = {
+    id: '1234567890abcdef',
+    badge: 'viral',
+    product_data: { product_name: 'GlowSerum', category: 'skincare' },
+    script_snapshot: {
+      segments: [
+        { segment_index: 1, script_text: 'Here is why.' },
+        { segment_index: 0, script_text: 'I hid my GlowSerum from my sister.', text_overlay: 'GLOWSERUM SECRET', energy_arc: { start: 'high' } },
+      ],
+    },
+    hook_score: 42,
+    parent: { hook_type: 'confession', energy_arc: null },
+  };
+
+  it('turns the hook segment into a mined template', () => {
+    expect(templateFromRun(run)).toEqual({
+      name: 'Viral hook — GlowSerum (12345678)',
+      hook_type: 'confession',
+      text_hook_template: '{product} SECRET',
+      spoken_hook_template: 'I hid my {product} from my sister.',
+      energy_arc: { start: 'high' },
+      hook_score: 42,
+      categories: ['skincare'],
+      status: 'active',
+      pinned: false,
+      source: 'mined',
+      source_run_id: '1234567890abcdef',
+    });
+  });
+
+  it('falls back to a generic hook type without a parent template', () => {
+    expect(templateFromRun({ ...run, badge: 'converting', parent: null })).toMatchObject({
+      name: 'Converting hook — GlowSerum (12345678)',
+      hook_type: 'proven_hook',
+    });
+  });
+
+  it('skips runs without a hook line', () => {
+    expect(templateFromRun({ ...run, script_snapshot: { segments: [{ segment_index: 0, script_text: '  ' }] } })).toBeNull();
+    expect(templateFromRun({ ...run, script_snapshot: null })).toBeNull();
+  });
+});
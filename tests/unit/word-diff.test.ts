@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { diffStats, diffWords } from '@/lib/word-diff';
+
+describe('diffWords', () => {
+  it('returns one unchanged part for identical text', () => {
+    expect(diffWords('stop scrolling right now', 'stop  scrolling right now ')).toEqual([
+      { kind: 'same', text: 'stop scrolling right now' },
+    ]);
+  });
+
+  it('marks replaced words as removed then added', () => {
+    expect(diffWords('this serum changed my skin', 'this cream changed my skin')).toEqual([
+      { kind: 'same', text: 'this' },
+      { kind: 'removed', text: 'serum' },
+      { kind: 'added', text: 'cream' },
+      { kind: 'same', text: 'changed my skin' },
+    ]);
+  });
+
+  it('merges runs of insertions and handles empty sides', () => {
+    expect(diffWords('I tried it', 'I honestly never expected to love it')).toEqual([
+      { kind: 'same', text: 'I' },
+      { kind: 'removed', text: 'tried' },
+      { kind: 'added', text: 'honestly never expected to love' },
+      { kind: 'same', text: 'it' },
+    ]);
+    expect(diffWords(null, 'new line')).toEqual([{ kind: 'added', text: 'new line' }]);
+    expect(diffWords('old line', '')).toEqual([{ kind: 'removed', text: 'old line' }]);
+  });
+
+  it('treats punctuation as part of the word', () => {
+    expect(diffWords('so good,', 'so good!')).toEqual([
+      { kind: 'same', text: 'so' },
+      { kind: 'removed', text: 'good,' },
+      { kind: 'added', text: 'good!' },
+    ]);
+  });
+});
+
+describe('diffStats', () => {
+  it('counts added and removed words', () => {
+    expect(diffStats(diffWords('I tried it', 'I honestly never expected to love it'))).toEqual({ added: 5, removed: 1 });
+  });
+});
@@ -0,0 +1,105 @@
+// Pipeline worker stage starts: the real job processor runs against the in-memory
+// Supabase and queue (tests/helpers), with the provider clients in mock mode. A
+// stage a route starts runs fresh; only a job BullMQ runs again resumes.
+
+import { describe, expect, it, vi } from 'vitest';
+import { params, request, supabase } from '../helpers/pipeline-harness';
+import { queue } from '../helpers/fake-bullmq';
+
+vi.mock('bullmq', () => import('../helpers/fake-bullmq'));
+vi.mock('ioredis', () => import('../helpers/pipeline-harness').then((h) => h.ioredisModule));
+vi.mock('@supabase/supabase-js', () => import('../helpers/pipeline-harness').then((h) => h.supabaseModule()));
+
+await import('@/workers/pipeline.worker');
+const { POST: selectInfluencer } = await import('@/app/api/projects/[id]/select-influencer/route');
+
+/** A project at influencer selection with a four-segment approved script. */
+function seedProject() {
+  const project = supabase.insert('project', {
+    status: 'influencer_selection', product_name: 'Widget', product_category: 'supplements',
+    product_image_url: 'https://fake/product.png',
+  });
+  const script = supabase.insert('script', { project_id: project.id, version: 1 });
+  for (const segmentIndex of [0, 1, 2, 3]) {
+    supabase.insert('scene', { script_id: script.id, segment_index: segmentIndex, version: 1, script_text: `Line ${segmentIndex}` });
+  }
+  return project.id as string;
+}
+
+function seedInfluencer(name: string) {
+  return supabase.insert('influencer', { name, image_url: `https://fake/${name}.png` }).id as string;
+}
+
+const keyframes = (projectId: string) =>
+  supabase.table('asset').filter((a) => a.project_id === projectId && String(a.type).startsWith('keyframe_'));
+
+describe('casting started by a route', () => {
+  const projectId = seedProject();
+  const first = seedInfluencer('ava');
+  const second = seedInfluencer('ben');
+
+  it('casts every segment', async () => {
+    const res = await selectInfluencer(request({ influencerId: first }), params({ id: projectId }));
+    expect(res.status).toBe(200);
+    await queue.drain();
+
+    expect(supabase.row('project', projectId).status).toBe('casting_review');
+    expect(keyframes(projectId).filter((a) => a.type === 'keyframe_end' && a.status === 'completed')).toHaveLength(4);
+  });
+
+  it('re-casts with a new influencer instead of reusing the old keyframes', async () => {
+    const oldIds = keyframes(projectId).map((a) => a.id);
+
+    const res = await selectInfluencer(request({ influencerId: second }), params({ id: projectId }));
+    expect(res.status).toBe(200);
+    await queue.drain();
+
+    expect(supabase.row('project', projectId).status).toBe('casting_review');
+    const recast = keyframes(projectId);
+    expect(recast.filter((a) => a.type === 'keyframe_end' && a.status === 'completed')).toHaveLength(4);
+    expect(recast.some((a) => oldIds.includes(a.id))).toBe(false);
+    // Generated frames are referenced against the new influencer only
+    const references = recast.flatMap((a) => ((a.metadata as { referenceImages?: string[] } | null)?.referenceImages ?? []));
+    expect(references).toContain('https://fake/ben.png');
+    expect(references).not.toContain('https://fake/ava.png');
+  });
+
+  it('resumes from the finished keyframes when BullMQ runs the casting job again', async () => {
+    const castIds = keyframes(projectId).map((a) => a.id).sort();
+    // The worker died mid-stage: the project is still casting and the job is retried
+    supabase.row('project', projectId).status = 'casting';
+    const job = queue.add('casting', { projectId, step: 'casting' }, { attempts: 3 });
+    job.attemptsStarted = 1;
+    await queue.drain();
+
+    expect(supabase.row('project', projectId).status).toBe('casting_review');
+    expect(keyframes(projectId).map((a) => a.id).sort()).toEqual(castIds);
+  });
+});
+
+describe('casting over budget', () => {
+  it('is refused by the select-influencer route before anything is enqueued', async () => {
+    const projectId = seedProject();
+    supabase.row('project', projectId).budget_usd = '0.10';
+    const influencerId = seedInfluencer('cam');
+    const queued = queue.added('casting').length;
+
+    const res = await selectInfluencer(request({ influencerId }), params({ id: projectId }));
+    expect(res.status).toBe(402);
+    expect(supabase.row('project', projectId).status).toBe('influencer_selection');
+    expect(queue.added('casting')).toHaveLength(queued);
+  });
+
+  it('is refused by the worker when a new casting job starts past the cap', async () => {
+    const projectId = seedProject();
+    supabase.row('project', projectId).status = 'casting';
+    supabase.row('project', projectId).budget_usd = '0.10';
+    queue.add('casting', { projectId, step: 'casting' });
+    await queue.drain();
+
+    const project = supabase.row('project', projectId);
+    expect(project.status).toBe('failed');
+    expect(project.error_message).toMatch(/budget exceeded/i);
+    expect(keyframes(projectId)).toHaveLength(0);
+  });
+});